@@ -0,0 +1,148 @@
+// =============================================================================
+// CompositeMappingEditor — modal editor combining several Wix fields into one
+// HubSpot property (and splitting it back)
+// =============================================================================
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  CustomModalLayout,
+  Dropdown,
+  FormField,
+  IconButton,
+  Input,
+  Modal,
+} from '@wix/design-system';
+import { Add, Delete } from '@wix/wix-ui-icons-common';
+import { CompositeMappingDto } from './api';
+
+interface Props {
+  isOpen: boolean;
+  /** Wix fields available to combine */
+  wixFields: Array<{ id: string; value: string }>;
+  composite?: CompositeMappingDto;
+  /** Unsaved rows may turn back into a single-field mapping */
+  canRemove: boolean;
+  /** `null` turns the row back into a single-field mapping */
+  onSave: (composite: CompositeMappingDto | null) => void;
+  onClose: () => void;
+}
+
+/** Short label for a composite row, e.g. "street + city + postalCode" */
+export function describeComposite(composite: CompositeMappingDto): string {
+  return composite.wixFields.join(' + ');
+}
+
+/* ── Component ── */
+export default function CompositeMappingEditor({
+  isOpen,
+  wixFields,
+  composite,
+  canRemove,
+  onSave,
+  onClose,
+}: Props): React.ReactElement {
+  const [fields, setFields] = useState<string[]>([]);
+  const [template, setTemplate] = useState('');
+  const [delimiter, setDelimiter] = useState('');
+  const [splitPattern, setSplitPattern] = useState('');
+
+  // Start from the row's settings each time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setFields(composite?.wixFields ?? ['', '']);
+      setTemplate(composite?.template ?? '');
+      setDelimiter(composite?.delimiter ?? '');
+      setSplitPattern(composite?.splitPattern ?? '');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const handleSave = () => {
+    onSave({
+      wixFields: fields.filter(Boolean),
+      ...(template ? { template } : {}),
+      ...(delimiter ? { delimiter } : {}),
+      ...(splitPattern ? { splitPattern } : {}),
+    });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onRequestClose={onClose} shouldCloseOnOverlayClick>
+      <CustomModalLayout
+        title="Combine Wix Fields"
+        subtitle="Several Wix fields are combined into one HubSpot property, and split back when syncing to Wix."
+        primaryButtonText="Apply"
+        primaryButtonOnClick={handleSave}
+        secondaryButtonText={composite && canRemove ? 'Use a Single Field' : 'Cancel'}
+        secondaryButtonOnClick={composite && canRemove ? () => onSave(null) : onClose}
+        onCloseButtonClick={onClose}
+        width="640px"
+      >
+        <Box direction="vertical" gap="12px">
+          {fields.map((field, i) => (
+            <Box key={i} gap="12px" verticalAlign="middle">
+              <Box flexGrow={1}>
+                <Dropdown
+                  size="small"
+                  placeholder="Select Wix field"
+                  selectedId={field || undefined}
+                  options={wixFields}
+                  onSelect={(option) =>
+                    setFields((prev) => prev.map((f, j) => (j === i ? (option.id as string) : f)))
+                  }
+                />
+              </Box>
+              <IconButton
+                size="small"
+                priority="secondary"
+                onClick={() => setFields((prev) => prev.filter((_, j) => j !== i))}
+              >
+                <Delete />
+              </IconButton>
+            </Box>
+          ))}
+          <Box>
+            <Button
+              size="small"
+              priority="secondary"
+              prefixIcon={<Add />}
+              onClick={() => setFields((prev) => [...prev, ''])}
+            >
+              Add Field
+            </Button>
+          </Box>
+
+          <FormField
+            label="Template"
+            infoContent="How the fields are combined, e.g. {street}, {city} {postalCode}. Leave empty to join them with the delimiter."
+          >
+            <Input
+              size="small"
+              placeholder={fields.filter(Boolean).map((f) => `{${f}}`).join(' ')}
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+            />
+          </FormField>
+          <FormField
+            label="Delimiter"
+            infoContent="Joins the fields when there is no template, and splits the HubSpot value back — the last field takes the rest."
+          >
+            <Input size="small" placeholder="Space" value={delimiter} onChange={(e) => setDelimiter(e.target.value)} />
+          </FormField>
+          <FormField
+            label="Split pattern (optional)"
+            infoContent="A regular expression with one group per field, in order or named after the fields. Used instead of the delimiter or template to split."
+          >
+            <Input
+              size="small"
+              placeholder="^(\S+)\s+(.+)$"
+              value={splitPattern}
+              onChange={(e) => setSplitPattern(e.target.value)}
+            />
+          </FormField>
+        </Box>
+      </CustomModalLayout>
+    </Modal>
+  );
+}
@@ -0,0 +1,311 @@
+// =============================================================================
+// ConfigTransferModal — export this site's mappings and sync settings, or
+// import another site's after previewing what would change
+// =============================================================================
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  CustomModalLayout,
+  Divider,
+  FormField,
+  Input,
+  InputArea,
+  Modal,
+  SectionHelper,
+  Text,
+  TextButton,
+} from '@wix/design-system';
+import {
+  exportConfig,
+  previewConfigImport,
+  importConfig,
+  downloadText,
+  ApiError,
+  ConfigFormat,
+  ConfigImportPreviewDto,
+  FieldMappingDto,
+} from './api';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the site's rules after an import */
+  onImported: (mappings: FieldMappingDto[]) => void;
+}
+
+const CONTENT_TYPES: Record<ConfigFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/yaml',
+};
+
+/** Format from a file name; `undefined` lets the server detect it */
+function formatOf(filename: string): ConfigFormat | undefined {
+  if (/\.json$/i.test(filename)) return 'json';
+  if (/\.ya?ml$/i.test(filename)) return 'yaml';
+  return undefined;
+}
+
+/** Short display of a setting value */
+function valueText(value: unknown): string {
+  if (value === '' || value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/* ── What an import would change ── */
+function PreviewSummary({ preview }: { preview: ConfigImportPreviewDto }): React.ReactElement {
+  const { fieldMappings, formMappings, settings } = preview.changes;
+  const ruleChanges = fieldMappings
+    ? fieldMappings.added.length + fieldMappings.removed.length + fieldMappings.changed.length
+    : 0;
+  const nothing = ruleChanges === 0 && formMappings.length === 0 && settings.length === 0;
+
+  return (
+    <Box direction="vertical" gap="6px">
+      {preview.errors.length > 0 && (
+        <SectionHelper appearance="danger" title="This document can't be imported">
+          {preview.errors.map((e, i) => (
+            <Text key={i} size="small" skin="error" tagName="div">
+              {e.field}: {e.message}
+            </Text>
+          ))}
+        </SectionHelper>
+      )}
+      {preview.warnings.length > 0 && (
+        <SectionHelper appearance="warning" title="Check before importing">
+          {preview.warnings.map((w, i) => (
+            <Text key={i} size="small" tagName="div">
+              {w.field}: {w.message}
+            </Text>
+          ))}
+        </SectionHelper>
+      )}
+      {nothing && (
+        <Text size="small" secondary>
+          The document matches this site's current setup.
+        </Text>
+      )}
+      {fieldMappings && ruleChanges > 0 && (
+        <Box direction="vertical" gap="2px">
+          <Text size="small" weight="bold">
+            Field mappings
+          </Text>
+          {fieldMappings.added.map((r) => (
+            <Text key={`a-${r.wixField}-${r.hubspotField}`} size="tiny" skin="success">
+              + {r.wixField} → {r.hubspotField}
+            </Text>
+          ))}
+          {fieldMappings.removed.map((r) => (
+            <Text key={`r-${r.wixField}-${r.hubspotField}`} size="tiny" skin="error">
+              − {r.wixField} → {r.hubspotField}
+            </Text>
+          ))}
+          {fieldMappings.changed.map((c) => (
+            <Text key={`c-${c.wixField}-${c.hubspotField}`} size="tiny">
+              ~ {c.wixField} → {c.hubspotField}: {c.changes.map((ch) => ch.setting).join(', ')}
+            </Text>
+          ))}
+        </Box>
+      )}
+      {formMappings.length > 0 && (
+        <Box direction="vertical" gap="2px">
+          <Text size="small" weight="bold">
+            Form mappings
+          </Text>
+          {formMappings.map((f) => (
+            <Text key={f.wixFormId} size="tiny">
+              {f.wixFormId}: {valueText(f.before)} → {f.after}
+            </Text>
+          ))}
+        </Box>
+      )}
+      {settings.length > 0 && (
+        <Box direction="vertical" gap="2px">
+          <Text size="small" weight="bold">
+            Settings
+          </Text>
+          {settings.map((s) => (
+            <Text key={s.setting} size="tiny">
+              {s.setting}: {valueText(s.before)} → {valueText(s.after)}
+            </Text>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+/* ── Component ── */
+export default function ConfigTransferModal({ isOpen, onClose, onImported }: Props): React.ReactElement {
+  const [document, setDocument] = useState('');
+  const [format, setFormat] = useState<ConfigFormat | undefined>(undefined);
+  const [comment, setComment] = useState('');
+  const [preview, setPreview] = useState<ConfigImportPreviewDto | null>(null);
+  const [error, setError] = useState<string[]>([]);
+  const [busy, setBusy] = useState<'export' | 'preview' | 'import' | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Start empty each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDocument('');
+      setFormat(undefined);
+      setComment('');
+      setPreview(null);
+      setError([]);
+    }
+  }, [isOpen]);
+
+  const showError = (err: unknown) => {
+    const details = err instanceof ApiError ? err.details : [];
+    setError(
+      details.length
+        ? details.map((d) => `${d.field}: ${d.message}`)
+        : [(err as Error).message],
+    );
+  };
+
+  /** A new document needs a new preview */
+  const changeDocument = (text: string, nextFormat?: ConfigFormat) => {
+    setDocument(text);
+    setFormat(nextFormat);
+    setPreview(null);
+    setError([]);
+  };
+
+  const handleExport = async (exportFormat: ConfigFormat) => {
+    setBusy('export');
+    setError([]);
+    try {
+      const text = await exportConfig(exportFormat);
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      downloadText(`hubspot-config-${stamp}.${exportFormat}`, text, CONTENT_TYPES[exportFormat]);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    changeDocument(await file.text(), formatOf(file.name));
+  };
+
+  const handlePreview = async () => {
+    setBusy('preview');
+    setError([]);
+    try {
+      setPreview((await previewConfigImport(document, format)).preview);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy('import');
+    setError([]);
+    try {
+      const res = await importConfig(document, format, comment.trim() || undefined);
+      onImported(res.mappings);
+      onClose();
+    } catch (err) {
+      showError(err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onRequestClose={onClose} shouldCloseOnOverlayClick>
+      <CustomModalLayout
+        title="Import / Export Configuration"
+        subtitle="Copy field mappings, form mappings, the widget form and sync settings between sites. HubSpot connections are not included."
+        primaryButtonText={busy === 'import' ? 'Importing…' : 'Import'}
+        primaryButtonOnClick={handleImport}
+        primaryButtonProps={{ disabled: !preview?.ok || busy !== null }}
+        secondaryButtonText="Close"
+        secondaryButtonOnClick={onClose}
+        onCloseButtonClick={onClose}
+        width="680px"
+      >
+        <Box direction="vertical" gap="12px">
+          <Box gap="12px" verticalAlign="middle">
+            <Text size="small" weight="bold">
+              Export this site:
+            </Text>
+            <Button size="small" priority="secondary" disabled={busy !== null} onClick={() => handleExport('json')}>
+              Download JSON
+            </Button>
+            <Button size="small" priority="secondary" disabled={busy !== null} onClick={() => handleExport('yaml')}>
+              Download YAML
+            </Button>
+          </Box>
+
+          <Divider />
+
+          <FormField
+            label="Import into this site"
+            infoContent="Paste an exported JSON or YAML document, or load a file. Sections left out of the document keep this site's current setup."
+          >
+            <InputArea
+              rows={10}
+              value={document}
+              placeholder="kind: wix-hubspot-config"
+              onChange={(e) => changeDocument(e.target.value)}
+            />
+          </FormField>
+          <Box gap="12px" verticalAlign="middle">
+            <TextButton size="small" onClick={() => fileInput.current?.click()}>
+              Load from file…
+            </TextButton>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.yaml,.yml"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <Button
+              size="small"
+              priority="secondary"
+              disabled={!document.trim() || busy !== null}
+              onClick={handlePreview}
+            >
+              {busy === 'preview' ? 'Checking…' : 'Preview Import'}
+            </Button>
+          </Box>
+
+          {error.length > 0 && (
+            <SectionHelper appearance="danger">
+              {error.map((e, i) => (
+                <Text key={i} size="small" skin="error" tagName="div">
+                  {e}
+                </Text>
+              ))}
+            </SectionHelper>
+          )}
+
+          {preview && <PreviewSummary preview={preview} />}
+
+          {preview?.ok && (
+            <FormField label="Comment (optional)" infoContent="Shown in the mapping history">
+              <Input
+                size="small"
+                value={comment}
+                maxLength={500}
+                placeholder="Imported configuration"
+                onChange={(e) => setComment(e.target.value)}
+              />
+            </FormField>
+          )}
+        </Box>
+      </CustomModalLayout>
+    </Modal>
+  );
+}
@@ -16,12 +16,15 @@ import {
   TableActionCell,
   TableToolbar,
   Text,
+  TextButton,
   Tooltip,
   SectionHelper,
 } from '@wix/design-system';
 import {
   Add,
   Delete,
+  History,
+  DownloadImport,
   LockLocked,
   Refresh,
 } from '@wix/wix-ui-icons-common';
@@ -32,8 +35,19 @@ import {
   resetFieldMappings,
   getHubspotProperties,
   getWixFields,
+  dryRunFullSync,
+  downloadJson,
+  DraftMappingRuleDto,
   FieldMappingDto,
+  HubSpotPropertyDto,
 } from './api';
+import TransformChainEditor, { describeChain } from './TransformChainEditor';
+import OptionMapEditor, { describeOptionMap } from './OptionMapEditor';
+import CompositeMappingEditor, { describeComposite } from './CompositeMappingEditor';
+import MappingHistoryPanel from './MappingHistoryPanel';
+import ConfigTransferModal from './ConfigTransferModal';
+import MappingPreviewCard from './MappingPreviewCard';
+import NewPropertyEditor from './NewPropertyEditor';
 
 /* ── Constants ── */
 const DIRECTIONS = [
@@ -48,12 +62,22 @@ const TRANSFORMS = [
   { id: 'uppercase', value: 'Uppercase' },
   { id: 'trim', value: 'Trim' },
   { id: 'phone_e164', value: 'Phone (E.164)' },
+  { id: 'phone_national', value: 'Phone (E.164 → national in Wix)' },
+];
+
+const CONFLICT_STRATEGIES = [
+  { id: 'newest_wins', value: 'Newest wins' },
+  { id: 'source_of_truth_wix', value: 'Wix owns' },
+  { id: 'source_of_truth_hubspot', value: 'HubSpot owns' },
+  { id: 'never_overwrite_non_empty', value: 'Fill empty only' },
 ];
 
 /* ── Local row type (tracks edits before save) ── */
 interface MappingRow extends FieldMappingDto {
   _dirty?: boolean;
   _isNew?: boolean;
+  /** Label of the HubSpot property to create as `hubspotField` on save */
+  _newPropertyLabel?: string;
 }
 
 interface Props {
@@ -66,10 +90,19 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
   const [savedSnapshot, setSavedSnapshot] = useState<MappingRow[]>([]);
   const [wixFields, setWixFields] = useState<Array<{ id: string; value: string }>>([]);
   const [hsProps, setHsProps] = useState<Array<{ id: string; value: string }>>([]);
+  const [hsEnums, setHsEnums] = useState<Map<string, HubSpotPropertyDto>>(new Map());
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
   const [successMsg, setSuccessMsg] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [chainRow, setChainRow] = useState<number | null>(null);
+  const [optionRow, setOptionRow] = useState<number | null>(null);
+  const [compositeRow, setCompositeRow] = useState<number | null>(null);
+  const [propertyRow, setPropertyRow] = useState<number | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [transferOpen, setTransferOpen] = useState(false);
 
   /* Derived: has any row been changed? */
   const isDirty = useMemo(() => {
@@ -77,6 +110,24 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
     return rows.some((r) => r._dirty || r._isNew);
   }, [rows, savedSnapshot]);
 
+  /* Derived: the rows as rules, for previews of unsaved edits */
+  const draftRules = useMemo<DraftMappingRuleDto[]>(
+    () =>
+      rows.map((r) => ({
+        wixField: r.wixField,
+        hubspotField: r.hubspotField,
+        direction: r.direction,
+        transform: r.transform,
+        transforms: r.transforms,
+        optionMap: r.optionMap,
+        optionFallback: r.optionFallback,
+        composite: r.composite,
+        conflictStrategy: r.conflictStrategy,
+        isActive: r.isActive,
+      })),
+    [rows],
+  );
+
   /* ── Load data ── */
   const load = useCallback(async () => {
     setLoading(true);
@@ -91,6 +142,7 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
       setSavedSnapshot(mappings.map((m) => ({ ...m })));
       setWixFields(wRes.fields.map((f) => ({ id: f.value, value: f.label })));
       setHsProps(hRes.properties.map((p) => ({ id: p.value, value: p.label })));
+      setHsEnums(new Map(hRes.properties.filter((p) => p.options).map((p) => [p.value, p])));
     } catch {
       // swallow
     } finally {
@@ -116,6 +168,8 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
       hubspotField: '',
       direction: 'bidirectional',
       transform: 'none',
+      transforms: [],
+      conflictStrategy: 'newest_wins',
       isDefault: false,
       isActive: true,
       _dirty: true,
@@ -144,12 +198,15 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
     const hsUsed = new Set<string>();
 
     rows.forEach((r, i) => {
-      if (!r.wixField) errs.push(`Row ${i + 1}: Wix field is required.`);
+      if (!r.wixField && !r.composite) errs.push(`Row ${i + 1}: Wix field is required.`);
       if (!r.hubspotField) errs.push(`Row ${i + 1}: HubSpot property is required.`);
       if (r.hubspotField && hsUsed.has(r.hubspotField)) {
         errs.push(`Row ${i + 1}: Duplicate HubSpot property "${r.hubspotField}".`);
       }
       if (r.hubspotField) hsUsed.add(r.hubspotField);
+      if (r._newPropertyLabel !== undefined && hsProps.some((p) => p.id === r.hubspotField)) {
+        errs.push(`Row ${i + 1}: HubSpot property "${r.hubspotField}" already exists.`);
+      }
     });
 
     return errs;
@@ -158,6 +215,7 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
   /* ── Save all changes ── */
   const handleSave = async () => {
     setErrors([]);
+    setWarnings([]);
     setSuccessMsg('');
     const validationErrors = validate();
     if (validationErrors.length) {
@@ -175,6 +233,12 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
             hubspotField: r.hubspotField,
             direction: r.direction,
             transform: r.transform,
+            transforms: r.transforms,
+            optionMap: r.optionMap,
+            optionFallback: r.optionFallback,
+            composite: r.composite,
+            conflictStrategy: r.conflictStrategy,
+            ...(r._newPropertyLabel !== undefined ? { createProperty: { label: r._newPropertyLabel } } : {}),
           });
         }
         if (r._dirty) {
@@ -184,12 +248,18 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
             hubspotField: r.hubspotField,
             direction: r.direction,
             transform: r.transform,
+            transforms: r.transforms,
+            optionMap: r.optionMap,
+            optionFallback: r.optionFallback,
+            composite: r.composite,
+            conflictStrategy: r.conflictStrategy,
             isActive: r.isActive,
           });
         }
         return null;
       });
-      await Promise.all(promises);
+      const results = await Promise.all(promises);
+      setWarnings(results.flatMap((res) => res?.warnings ?? []).map((w) => w.message));
       await load();
       setSuccessMsg('Field mappings saved successfully.');
       setTimeout(() => setSuccessMsg(''), 4000);
@@ -200,6 +270,30 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
     }
   };
 
+  /* ── Preview unsaved changes: dry-run a full sync with the edited rows ── */
+  const handlePreview = async () => {
+    setErrors([]);
+    setSuccessMsg('');
+    const validationErrors = validate();
+    if (validationErrors.length) {
+      setErrors(validationErrors);
+      return;
+    }
+    setPreviewing(true);
+    try {
+      const report = await dryRunFullSync(draftRules);
+      downloadJson(`mapping-preview-${report.generatedAt.replace(/[:.]/g, '-')}.json`, report);
+      const { create, update, skip } = report.summary;
+      setSuccessMsg(
+        `With these mappings a full sync would create ${create}, update ${update} and skip ${skip} contacts.`,
+      );
+    } catch (err) {
+      setErrors([(err as Error).message]);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   /* ── Reset to defaults ── */
   const handleReset = async () => {
     try {
@@ -215,6 +309,28 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
     }
   };
 
+  /* ── Rules restored from the version history ── */
+  const handleRestored = (restored: FieldMappingDto[], version: number) => {
+    const mappings = restored.map((m) => ({ ...m }));
+    setRows(mappings);
+    setSavedSnapshot(mappings.map((m) => ({ ...m })));
+    setErrors([]);
+    setWarnings([]);
+    setSuccessMsg(`Mappings restored from version ${version}.`);
+    setTimeout(() => setSuccessMsg(''), 4000);
+  };
+
+  /* ── Rules replaced by a config import ── */
+  const handleImported = (imported: FieldMappingDto[]) => {
+    const mappings = imported.map((m) => ({ ...m }));
+    setRows(mappings);
+    setSavedSnapshot(mappings.map((m) => ({ ...m })));
+    setErrors([]);
+    setWarnings([]);
+    setSuccessMsg('Configuration imported.');
+    setTimeout(() => setSuccessMsg(''), 4000);
+  };
+
   /* ── Not connected state ── */
   if (!connected) {
     return (
@@ -255,35 +371,65 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
     },
     {
       title: 'Wix Field',
-      width: '22%',
-      render: (row: MappingRow, rowNum: number) => (
-        <Dropdown
-          size="small"
-          placeholder="Select Wix field"
-          selectedId={row.wixField}
-          options={wixFields}
-          onSelect={(option) => updateRow(rowNum, { wixField: option.id as string })}
-          disabled={row.isDefault}
-        />
-      ),
+      width: '18%',
+      render: (row: MappingRow, rowNum: number) =>
+        row.composite ? (
+          <TextButton size="small" onClick={() => setCompositeRow(rowNum)}>
+            {describeComposite(row.composite)}
+          </TextButton>
+        ) : (
+          <Box direction="vertical" gap="3px">
+            <Dropdown
+              size="small"
+              placeholder="Select Wix field"
+              selectedId={row.wixField}
+              options={wixFields}
+              onSelect={(option) => updateRow(rowNum, { wixField: option.id as string })}
+              disabled={row.isDefault}
+            />
+            {row._isNew && (
+              <TextButton size="tiny" onClick={() => setCompositeRow(rowNum)}>
+                Combine fields
+              </TextButton>
+            )}
+          </Box>
+        ),
     },
     {
       title: 'HubSpot Property',
-      width: '22%',
+      width: '18%',
       render: (row: MappingRow, rowNum: number) => (
-        <Dropdown
-          size="small"
-          placeholder="Select property"
-          selectedId={row.hubspotField}
-          options={hsProps}
-          onSelect={(option) => updateRow(rowNum, { hubspotField: option.id as string })}
-          disabled={row.isDefault}
-        />
+        <Box direction="vertical" gap="3px">
+          <Dropdown
+            size="small"
+            placeholder="Select property"
+            selectedId={row.hubspotField}
+            options={
+              row._newPropertyLabel !== undefined
+                ? [...hsProps, { id: row.hubspotField, value: `${row._newPropertyLabel} (new)` }]
+                : hsProps
+            }
+            onSelect={(option) =>
+              updateRow(rowNum, { hubspotField: option.id as string, _newPropertyLabel: undefined })
+            }
+            disabled={row.isDefault}
+          />
+          {row._isNew && (
+            <TextButton size="tiny" onClick={() => setPropertyRow(rowNum)}>
+              {row._newPropertyLabel !== undefined ? 'Edit new property' : 'Create new property'}
+            </TextButton>
+          )}
+          {hsEnums.has(row.hubspotField) && (
+            <TextButton size="tiny" onClick={() => setOptionRow(rowNum)}>
+              {describeOptionMap(row.optionMap)}
+            </TextButton>
+          )}
+        </Box>
       ),
     },
     {
       title: 'Direction',
-      width: '20%',
+      width: '17%',
       render: (row: MappingRow, rowNum: number) => (
         <Dropdown
           size="small"
@@ -295,13 +441,30 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
     },
     {
       title: 'Transform',
-      width: '18%',
+      width: '14%',
+      render: (row: MappingRow, rowNum: number) => (
+        <Box direction="vertical" gap="3px">
+          <Dropdown
+            size="small"
+            selectedId={row.transform}
+            options={TRANSFORMS}
+            onSelect={(option) => updateRow(rowNum, { transform: option.id as string })}
+          />
+          <TextButton size="tiny" onClick={() => setChainRow(rowNum)}>
+            {describeChain(row.transforms)}
+          </TextButton>
+        </Box>
+      ),
+    },
+    {
+      title: 'On Conflict',
+      width: '15%',
       render: (row: MappingRow, rowNum: number) => (
         <Dropdown
           size="small"
-          selectedId={row.transform}
-          options={TRANSFORMS}
-          onSelect={(option) => updateRow(rowNum, { transform: option.id as string })}
+          selectedId={row.conflictStrategy || 'newest_wins'}
+          options={CONFLICT_STRATEGIES}
+          onSelect={(option) => updateRow(rowNum, { conflictStrategy: option.id as string })}
         />
       ),
     },
@@ -332,6 +495,81 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
 
   return (
     <Box direction="vertical" gap="18px">
+      {/* Transform chain editor for the selected row */}
+      <TransformChainEditor
+        isOpen={chainRow !== null}
+        steps={chainRow !== null ? rows[chainRow]?.transforms ?? [] : []}
+        onSave={(transforms) => {
+          if (chainRow !== null) updateRow(chainRow, { transforms });
+          setChainRow(null);
+        }}
+        onClose={() => setChainRow(null)}
+      />
+
+      {/* Composite (several Wix fields ↔ one property) settings for the selected row */}
+      <CompositeMappingEditor
+        isOpen={compositeRow !== null}
+        wixFields={wixFields}
+        composite={compositeRow !== null ? rows[compositeRow]?.composite : undefined}
+        canRemove={compositeRow !== null && !!rows[compositeRow]?._isNew}
+        onSave={(composite) => {
+          if (compositeRow !== null) {
+            updateRow(compositeRow, {
+              composite: composite ?? undefined,
+              wixField: composite ? composite.wixFields.join('+') : '',
+            });
+          }
+          setCompositeRow(null);
+        }}
+        onClose={() => setCompositeRow(null)}
+      />
+
+      {/* Wix value ↔ HubSpot option pairs for the selected row */}
+      <OptionMapEditor
+        isOpen={optionRow !== null}
+        propertyLabel={optionRow !== null ? hsEnums.get(rows[optionRow]?.hubspotField)?.label ?? '' : ''}
+        options={optionRow !== null ? hsEnums.get(rows[optionRow]?.hubspotField)?.options ?? [] : []}
+        optionMap={optionRow !== null ? rows[optionRow]?.optionMap ?? [] : []}
+        optionFallback={optionRow !== null ? rows[optionRow]?.optionFallback : undefined}
+        onSave={(optionMap, optionFallback) => {
+          if (optionRow !== null) updateRow(optionRow, { optionMap, optionFallback });
+          setOptionRow(null);
+        }}
+        onClose={() => setOptionRow(null)}
+      />
+
+      {/* New HubSpot property for the selected row, created on save */}
+      <NewPropertyEditor
+        isOpen={propertyRow !== null}
+        suggestedLabel={
+          propertyRow !== null
+            ? rows[propertyRow]?._newPropertyLabel ??
+              wixFields.find((f) => f.id === rows[propertyRow]?.wixField)?.value ??
+              ''
+            : ''
+        }
+        existingNames={new Set(hsProps.map((p) => p.id))}
+        onSave={(name, label) => {
+          if (propertyRow !== null) updateRow(propertyRow, { hubspotField: name, _newPropertyLabel: label });
+          setPropertyRow(null);
+        }}
+        onClose={() => setPropertyRow(null)}
+      />
+
+      {/* Saved versions: diff and rollback */}
+      <MappingHistoryPanel
+        isOpen={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        onRestored={handleRestored}
+      />
+
+      {/* Copy the setup between sites */}
+      <ConfigTransferModal
+        isOpen={transferOpen}
+        onClose={() => setTransferOpen(false)}
+        onImported={handleImported}
+      />
+
       {/* Success notification */}
       {successMsg && (
         <Notification
@@ -356,6 +594,17 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
         </SectionHelper>
       )}
 
+      {/* Non-blocking warnings from the last save */}
+      {warnings.length > 0 && (
+        <SectionHelper appearance="warning" title="Check These Mappings" onClose={() => setWarnings([])}>
+          {warnings.map((w, i) => (
+            <Text key={i} size="small" tagName="div">
+              {w}
+            </Text>
+          ))}
+        </SectionHelper>
+      )}
+
       {/* Info helper */}
       <SectionHelper
         appearance="standard"
@@ -364,7 +613,14 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
         <Text size="small">
           Each row maps a Wix contact field to a HubSpot property. Default
           mappings (locked rows) ensure core fields like name and email always
-          sync. Add custom rows to sync additional data.
+          sync. Add custom rows to sync additional data. "On Conflict" decides
+          which side wins when a field changed in both systems. Use the steps
+          link under a transform to chain extra steps such as date formats or
+          value lookups. Dropdown properties show a link to pair Wix values
+          with the HubSpot options they should become. New rows can combine
+          several Wix fields, such as an address, into one HubSpot property.
+          If the property does not exist yet, new rows can create it in
+          HubSpot when the mappings are saved.
         </Text>
       </SectionHelper>
 
@@ -375,6 +631,22 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
           subtitle={`${rows.length} mapping${rows.length !== 1 ? 's' : ''} configured`}
           suffix={
             <Box gap="8px">
+              <Button
+                size="small"
+                priority="secondary"
+                prefixIcon={<History />}
+                onClick={() => setHistoryOpen(true)}
+              >
+                History
+              </Button>
+              <Button
+                size="small"
+                priority="secondary"
+                prefixIcon={<DownloadImport />}
+                onClick={() => setTransferOpen(true)}
+              >
+                Import / Export
+              </Button>
               <Button
                 size="small"
                 priority="secondary"
@@ -397,8 +669,15 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
         </Card.Content>
       </Card>
 
-      {/* Save button */}
-      <Box align="right">
+      {/* Preview + save buttons */}
+      <Box align="right" gap="12px">
+        <Button
+          priority="secondary"
+          disabled={!isDirty || previewing || saving}
+          onClick={handlePreview}
+        >
+          {previewing ? 'Planning…' : 'Preview Impact'}
+        </Button>
         <Button
           skin="standard"
           priority="primary"
@@ -408,6 +687,9 @@ export default function FieldMappingTable({ connected }: Props): React.ReactElem
           {saving ? 'Saving…' : 'Save Mappings'}
         </Button>
       </Box>
+
+      {/* What the edited rules would do to one synced contact */}
+      {connected && <MappingPreviewCard rules={draftRules} />}
     </Box>
   );
 }
@@ -0,0 +1,218 @@
+// =============================================================================
+// MappingHistoryPanel — side drawer listing saved versions of the field
+// mapping, with a diff against the current version and rollback
+// =============================================================================
+import React, { useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Divider,
+  Loader,
+  Modal,
+  SidePanel,
+  Text,
+  TextButton,
+} from '@wix/design-system';
+import {
+  getMappingVersions,
+  diffMappingVersions,
+  rollbackMappings,
+  FieldMappingDto,
+  MappingDiffDto,
+  MappingVersionSummaryDto,
+} from './api';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the restored rules after a rollback */
+  onRestored: (mappings: FieldMappingDto[], version: number) => void;
+}
+
+/** "firstName → firstname" */
+function ruleLabel(rule: { wixField?: string; hubspotField?: string }): string {
+  return `${rule.wixField} → ${rule.hubspotField}`;
+}
+
+/** Short display of a changed setting's value */
+function settingText(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? `${value.length} item${value.length !== 1 ? 's' : ''}` : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/* ── Diff of one version against the current one ── */
+function DiffSummary({ diff }: { diff: MappingDiffDto }): React.ReactElement {
+  if (!diff.added.length && !diff.removed.length && !diff.changed.length) {
+    return (
+      <Text size="tiny" secondary>
+        Same rules as the current version.
+      </Text>
+    );
+  }
+  // The diff runs from this version to the current one, so "added" rules
+  // are the ones a restore would remove
+  return (
+    <Box direction="vertical" gap="4px">
+      {diff.removed.map((r) => (
+        <Text key={`r-${ruleLabel(r)}`} size="tiny" skin="success">
+          + {ruleLabel(r)} (restored)
+        </Text>
+      ))}
+      {diff.added.map((r) => (
+        <Text key={`a-${ruleLabel(r)}`} size="tiny" skin="error">
+          − {ruleLabel(r)} (removed)
+        </Text>
+      ))}
+      {diff.changed.map((c) => (
+        <Text key={`c-${ruleLabel(c)}`} size="tiny">
+          ~ {ruleLabel(c)}:{' '}
+          {c.changes.map((ch) => `${ch.setting} ${settingText(ch.after)} → ${settingText(ch.before)}`).join(', ')}
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+/* ── Component ── */
+export default function MappingHistoryPanel({ isOpen, onClose, onRestored }: Props): React.ReactElement {
+  const [versions, setVersions] = useState<MappingVersionSummaryDto[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [openDiff, setOpenDiff] = useState<{ version: number; diff: MappingDiffDto } | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const latest = versions[0]?.version;
+
+  const loadPage = async (next: number) => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await getMappingVersions(next);
+      setVersions((prev) => (next === 1 ? res.versions : [...prev, ...res.versions]));
+      setPage(next);
+      setPages(res.pages);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload from the newest version each time the drawer opens
+  useEffect(() => {
+    if (isOpen) {
+      setOpenDiff(null);
+      loadPage(1);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const handleCompare = async (version: number) => {
+    if (openDiff?.version === version) {
+      setOpenDiff(null);
+      return;
+    }
+    try {
+      const res = await diffMappingVersions(version, latest!);
+      setOpenDiff({ version, diff: res.diff });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    setRestoring(version);
+    setError('');
+    try {
+      const res = await rollbackMappings(version);
+      onRestored(res.mappings, version);
+      await loadPage(1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onRequestClose={onClose} shouldCloseOnOverlayClick horizontalPosition="end">
+      <SidePanel onCloseButtonClick={onClose} width="420px" height="100vh">
+        <SidePanel.Header
+          title="Mapping History"
+          subtitle="Every save is kept. Restoring a version saves it as a new one, so it can be undone too."
+        />
+        <SidePanel.Content>
+          <Box direction="vertical" gap="12px">
+            {error && (
+              <Text size="small" skin="error">
+                {error}
+              </Text>
+            )}
+            {!loading && versions.length === 0 && !error && (
+              <Text size="small" secondary>
+                No saved versions yet.
+              </Text>
+            )}
+            {versions.map((v) => (
+              <Box key={v.version} direction="vertical" gap="6px">
+                <Box gap="6px" verticalAlign="middle">
+                  <Text size="small" weight="bold">
+                    Version {v.version}
+                  </Text>
+                  {v.version === latest && (
+                    <Badge size="tiny" skin="success">
+                      Current
+                    </Badge>
+                  )}
+                  {v.restoredFrom !== null && (
+                    <Badge size="tiny" skin="neutralLight">
+                      Restored v{v.restoredFrom}
+                    </Badge>
+                  )}
+                </Box>
+                <Text size="tiny" secondary>
+                  {new Date(v.createdAt).toLocaleString()} · {v.author} · {v.ruleCount} rule
+                  {v.ruleCount !== 1 ? 's' : ''}
+                </Text>
+                {v.comment && <Text size="small">{v.comment}</Text>}
+                {v.version !== latest && (
+                  <Box gap="12px">
+                    <TextButton size="small" onClick={() => handleCompare(v.version)}>
+                      {openDiff?.version === v.version ? 'Hide changes' : 'Compare with current'}
+                    </TextButton>
+                    <TextButton
+                      size="small"
+                      disabled={restoring !== null}
+                      onClick={() => handleRestore(v.version)}
+                    >
+                      {restoring === v.version ? 'Restoring…' : 'Restore'}
+                    </TextButton>
+                  </Box>
+                )}
+                {openDiff?.version === v.version && <DiffSummary diff={openDiff.diff} />}
+                <Divider />
+              </Box>
+            ))}
+            {loading && (
+              <Box align="center">
+                <Loader size="small" />
+              </Box>
+            )}
+            {!loading && page < pages && (
+              <Box align="center">
+                <Button size="small" priority="secondary" onClick={() => loadPage(page + 1)}>
+                  Show Older Versions
+                </Button>
+              </Box>
+            )}
+          </Box>
+        </SidePanel.Content>
+      </SidePanel>
+    </Modal>
+  );
+}
@@ -0,0 +1,248 @@
+// =============================================================================
+// MappingPreviewCard — pick a synced contact and see, side by side, what the
+// edited (unsaved) rules would make of it in each direction
+// =============================================================================
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Card,
+  Dropdown,
+  Input,
+  Loader,
+  Table,
+  Text,
+  Tooltip,
+} from '@wix/design-system';
+import { Search } from '@wix/wix-ui-icons-common';
+import {
+  getSyncedContacts,
+  previewContactMapping,
+  ApiError,
+  ContactMappingPreviewDto,
+  DraftMappingRuleDto,
+  FieldDecisionDto,
+  SyncedContact,
+} from './api';
+
+interface Props {
+  /** Rules as currently edited in the mapping table */
+  rules: DraftMappingRuleDto[];
+}
+
+/** Wait after the last edit before asking the server again */
+const REFRESH_DELAY_MS = 500;
+
+const TO_HUBSPOT = ['bidirectional', 'wix_to_hubspot'];
+const TO_WIX = ['bidirectional', 'hubspot_to_wix'];
+
+/** Wix fields a rule reads — the parts of a composite, else its one field */
+function wixFieldsOf(rule: DraftMappingRuleDto): string[] {
+  return rule.composite?.wixFields.length ? rule.composite.wixFields : [rule.wixField];
+}
+
+function contactLabel(c: SyncedContact): string {
+  const name = [c.firstName, c.lastName].filter(Boolean).join(' ');
+  return [name, c.email].filter(Boolean).join(' · ') || c.wixContactId;
+}
+
+/* ── A value, with the conflict decision for writing it ── */
+function Outcome({
+  value,
+  decisions,
+}: {
+  value: string;
+  decisions: FieldDecisionDto[];
+}): React.ReactElement {
+  if (!value && decisions.length === 0) {
+    return (
+      <Text size="tiny" secondary>
+        nothing to write
+      </Text>
+    );
+  }
+  const withheld = decisions.find((d) => !d.applied);
+  return (
+    <Box direction="vertical" gap="2px">
+      <Text size="small">{value || '—'}</Text>
+      {decisions.length > 0 && (
+        <Tooltip content={decisions.map((d) => d.reason).join(' · ')}>
+          <Badge size="tiny" skin={withheld ? 'neutralLight' : 'success'}>
+            {withheld ? 'Kept target value' : 'Writes'}
+          </Badge>
+        </Tooltip>
+      )}
+    </Box>
+  );
+}
+
+/* ── Component ── */
+export default function MappingPreviewCard({ rules }: Props): React.ReactElement {
+  const [contacts, setContacts] = useState<SyncedContact[]>([]);
+  const [search, setSearch] = useState('');
+  const [contactId, setContactId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ContactMappingPreviewDto | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string[]>([]);
+  const requestSeq = useRef(0);
+
+  // Contacts to pick from, re-queried as the search changes
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      getSyncedContacts(1, search.trim())
+        .then((res) => setContacts(res.contacts))
+        .catch((err) => setError([(err as Error).message]));
+    }, REFRESH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Re-run the preview whenever the contact or any rule changes
+  const rulesKey = JSON.stringify(rules);
+  useEffect(() => {
+    if (!contactId) return;
+    const seq = ++requestSeq.current;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await previewContactMapping(contactId, rules);
+        if (seq !== requestSeq.current) return;
+        setPreview(res.preview);
+        setError([]);
+      } catch (err) {
+        if (seq !== requestSeq.current) return;
+        const details = err instanceof ApiError ? err.details : [];
+        setError(details.length ? details.map((d) => `${d.field}: ${d.message}`) : [(err as Error).message]);
+      } finally {
+        if (seq === requestSeq.current) setLoading(false);
+      }
+    }, REFRESH_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contactId, rulesKey]);
+
+  const shown = rules.filter((r) => r.isActive && r.hubspotField);
+
+  const columns = preview
+    ? [
+        {
+          title: 'Wix field',
+          width: '16%',
+          render: (r: DraftMappingRuleDto) => <Text size="small">{wixFieldsOf(r).join(' + ')}</Text>,
+        },
+        {
+          title: 'Wix value',
+          width: '17%',
+          render: (r: DraftMappingRuleDto) => (
+            <Text size="small">{wixFieldsOf(r).map((f) => preview.wix[f] || '—').join(' / ')}</Text>
+          ),
+        },
+        {
+          title: '→ HubSpot gets',
+          width: '17%',
+          render: (r: DraftMappingRuleDto) =>
+            TO_HUBSPOT.includes(r.direction) ? (
+              <Outcome
+                value={preview.wixToHubSpot.props[r.hubspotField] ?? ''}
+                decisions={preview.wixToHubSpot.fields.filter((d) => d.field === r.hubspotField)}
+              />
+            ) : (
+              <Text size="tiny" secondary>
+                not synced this way
+              </Text>
+            ),
+        },
+        {
+          title: 'HubSpot property',
+          width: '16%',
+          render: (r: DraftMappingRuleDto) => <Text size="small">{r.hubspotField}</Text>,
+        },
+        {
+          title: 'HubSpot value',
+          width: '17%',
+          render: (r: DraftMappingRuleDto) => <Text size="small">{preview.hubspot[r.hubspotField] || '—'}</Text>,
+        },
+        {
+          title: '← Wix gets',
+          width: '17%',
+          render: (r: DraftMappingRuleDto) =>
+            TO_WIX.includes(r.direction) ? (
+              <Outcome
+                value={wixFieldsOf(r)
+                  .map((f) => preview.hubSpotToWix.props[f])
+                  .filter(Boolean)
+                  .join(' / ')}
+                decisions={preview.hubSpotToWix.fields.filter((d) => wixFieldsOf(r).includes(d.field))}
+              />
+            ) : (
+              <Text size="tiny" secondary>
+                not synced this way
+              </Text>
+            ),
+        },
+      ]
+    : [];
+
+  const warnings = preview ? [...preview.wixToHubSpot.warnings, ...preview.hubSpotToWix.warnings] : [];
+
+  return (
+    <Card>
+      <Card.Header
+        title="Preview With a Contact"
+        subtitle="Pick a synced contact to see what the rules above, saved or not, would write in each direction. Nothing is written."
+      />
+      <Card.Divider />
+      <Card.Content>
+        <Box direction="vertical" gap="12px">
+          <Box gap="12px">
+            <Box width="240px">
+              <Input
+                size="small"
+                prefix={<Input.Affix><Search /></Input.Affix>}
+                placeholder="Search contacts…"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </Box>
+            <Box width="360px">
+              <Dropdown
+                size="small"
+                placeholder="Choose a synced contact"
+                options={contacts.map((c) => ({ id: c.wixContactId, value: contactLabel(c) }))}
+                selectedId={contactId ?? undefined}
+                onSelect={(opt) => setContactId(String(opt.id))}
+              />
+            </Box>
+            {loading && <Loader size="tiny" />}
+          </Box>
+
+          {error.map((e, i) => (
+            <Text key={i} size="small" skin="error" tagName="div">
+              {e}
+            </Text>
+          ))}
+
+          {preview && (
+            <>
+              <Box direction="vertical" gap="2px">
+                <Text size="tiny" secondary>
+                  If Wix changed: {preview.wixToHubSpot.conflict.reason}
+                </Text>
+                <Text size="tiny" secondary>
+                  If HubSpot changed: {preview.hubSpotToWix.conflict.reason}
+                </Text>
+              </Box>
+              <Table data={shown} columns={columns}>
+                <Table.Content />
+              </Table>
+              {warnings.map((w, i) => (
+                <Text key={i} size="tiny" skin="error" tagName="div">
+                  {w.field}: {w.message}
+                </Text>
+              ))}
+            </>
+          )}
+        </Box>
+      </Card.Content>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+// =============================================================================
+// NewPropertyEditor — modal naming a HubSpot property to create for a new
+// mapping row; the property is created when the row is saved
+// =============================================================================
+import React, { useEffect, useState } from 'react';
+import { Box, CustomModalLayout, FormField, Input, Modal, Text } from '@wix/design-system';
+
+interface Props {
+  isOpen: boolean;
+  /** Label of the row's Wix field, suggested as the property label */
+  suggestedLabel: string;
+  /** Internal names already taken in the portal */
+  existingNames: Set<string>;
+  onSave: (name: string, label: string) => void;
+  onClose: () => void;
+}
+
+/** HubSpot internal name for a label: "Date of Birth" → "date_of_birth" */
+export function propertyNameFor(label: string): string {
+  const name = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(name) ? name : `wix_${name}`;
+}
+
+/* ── Component ── */
+export default function NewPropertyEditor({
+  isOpen,
+  suggestedLabel,
+  existingNames,
+  onSave,
+  onClose,
+}: Props): React.ReactElement {
+  const [label, setLabel] = useState('');
+  const [name, setName] = useState('');
+  const [nameEdited, setNameEdited] = useState(false);
+
+  // Start from the Wix field's label each time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setLabel(suggestedLabel);
+      setName(propertyNameFor(suggestedLabel));
+      setNameEdited(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const nameError = !/^[a-z][a-z0-9_]*$/.test(name)
+    ? 'Use lowercase letters, digits and underscores, starting with a letter.'
+    : existingNames.has(name)
+      ? 'A HubSpot property with this name already exists.'
+      : '';
+
+  return (
+    <Modal isOpen={isOpen} onRequestClose={onClose} shouldCloseOnOverlayClick>
+      <CustomModalLayout
+        title="Create HubSpot Property"
+        subtitle="The property is created in the Wix Integration group when you save the mappings. Its type follows the Wix field: dates become a date picker, labels a multi-select, everything else text."
+        primaryButtonText="Use This Property"
+        primaryButtonOnClick={() => onSave(name, label.trim())}
+        primaryButtonProps={{ disabled: !label.trim() || !!nameError }}
+        secondaryButtonText="Cancel"
+        secondaryButtonOnClick={onClose}
+        onCloseButtonClick={onClose}
+        width="520px"
+      >
+        <Box direction="vertical" gap="12px">
+          <FormField label="Label">
+            <Input
+              size="small"
+              value={label}
+              maxLength={100}
+              onChange={(e) => {
+                setLabel(e.target.value);
+                if (!nameEdited) setName(propertyNameFor(e.target.value));
+              }}
+            />
+          </FormField>
+          <FormField label="Internal name" status={nameError ? 'error' : undefined} statusMessage={nameError}>
+            <Input
+              size="small"
+              value={name}
+              maxLength={100}
+              onChange={(e) => {
+                setName(e.target.value);
+                setNameEdited(true);
+              }}
+            />
+          </FormField>
+          <Text size="tiny" secondary>
+            The internal name cannot be changed later.
+          </Text>
+        </Box>
+      </CustomModalLayout>
+    </Modal>
+  );
+}
@@ -0,0 +1,149 @@
+// =============================================================================
+// OptionMapEditor — modal editor pairing Wix values with HubSpot options
+// =============================================================================
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  CustomModalLayout,
+  Dropdown,
+  FormField,
+  IconButton,
+  Input,
+  Modal,
+  Text,
+} from '@wix/design-system';
+import { Add, Delete } from '@wix/wix-ui-icons-common';
+
+type OptionPair = { wixValue: string; hubspotValue: string };
+
+/** Dropdown id meaning "no fallback" */
+const NO_FALLBACK = '__none__';
+
+interface Props {
+  isOpen: boolean;
+  propertyLabel: string;
+  /** Allowed values of the HubSpot enumeration property */
+  options: Array<{ value: string; label: string }>;
+  optionMap: OptionPair[];
+  optionFallback?: string;
+  onSave: (optionMap: OptionPair[], optionFallback: string) => void;
+  onClose: () => void;
+}
+
+/** Short label for a row's pairs, e.g. "3 values paired" */
+export function describeOptionMap(optionMap: OptionPair[] | undefined): string {
+  const count = optionMap?.length ?? 0;
+  return count ? `${count} value${count !== 1 ? 's' : ''} paired` : 'Pair values';
+}
+
+/* ── Component ── */
+export default function OptionMapEditor({
+  isOpen,
+  propertyLabel,
+  options,
+  optionMap,
+  optionFallback,
+  onSave,
+  onClose,
+}: Props): React.ReactElement {
+  const [pairs, setPairs] = useState<OptionPair[]>([]);
+  const [fallback, setFallback] = useState('');
+
+  // Start from the row's pairs each time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setPairs(optionMap.map((p) => ({ ...p })));
+      setFallback(optionFallback ?? '');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const optionItems = options.map((o) => ({ id: o.value, value: o.label }));
+  const paired = new Set(pairs.map((p) => p.hubspotValue));
+  const unpaired = options.filter((o) => !paired.has(o.value));
+
+  const updatePair = (index: number, patch: Partial<OptionPair>) => {
+    setPairs((prev) => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const handleSave = () => {
+    onSave(
+      pairs.filter((p) => p.wixValue.trim() && p.hubspotValue),
+      fallback,
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onRequestClose={onClose} shouldCloseOnOverlayClick>
+      <CustomModalLayout
+        title={`Values for ${propertyLabel}`}
+        subtitle="HubSpot only accepts its dropdown options. Pair each Wix value with the option it should become."
+        primaryButtonText="Apply"
+        primaryButtonOnClick={handleSave}
+        secondaryButtonText="Cancel"
+        secondaryButtonOnClick={onClose}
+        onCloseButtonClick={onClose}
+        width="640px"
+      >
+        <Box direction="vertical" gap="12px">
+          {pairs.map((pair, i) => (
+            <Box key={i} gap="12px" verticalAlign="middle">
+              <Box flexGrow={1}>
+                <Input
+                  size="small"
+                  placeholder="Wix value"
+                  value={pair.wixValue}
+                  onChange={(e) => updatePair(i, { wixValue: e.target.value })}
+                />
+              </Box>
+              <Text size="small">→</Text>
+              <Box flexGrow={1}>
+                <Dropdown
+                  size="small"
+                  placeholder="HubSpot option"
+                  selectedId={pair.hubspotValue || undefined}
+                  options={optionItems}
+                  onSelect={(option) => updatePair(i, { hubspotValue: option.id as string })}
+                />
+              </Box>
+              <IconButton
+                size="small"
+                priority="secondary"
+                onClick={() => setPairs((prev) => prev.filter((_, j) => j !== i))}
+              >
+                <Delete />
+              </IconButton>
+            </Box>
+          ))}
+          <Box>
+            <Button
+              size="small"
+              priority="secondary"
+              prefixIcon={<Add />}
+              onClick={() => setPairs((prev) => [...prev, { wixValue: '', hubspotValue: '' }])}
+            >
+              Add Value
+            </Button>
+          </Box>
+
+          <FormField label="Fallback for unpaired Wix values">
+            <Dropdown
+              size="small"
+              selectedId={fallback || NO_FALLBACK}
+              options={[{ id: NO_FALLBACK, value: 'None — send unchanged' }, ...optionItems]}
+              onSelect={(option) => setFallback(option.id === NO_FALLBACK ? '' : (option.id as string))}
+            />
+          </FormField>
+
+          {unpaired.length > 0 && (
+            <Text size="small" secondary>
+              Options without a Wix value (copied to Wix unchanged):{' '}
+              {unpaired.map((o) => o.label).join(', ')}
+            </Text>
+          )}
+        </Box>
+      </CustomModalLayout>
+    </Modal>
+  );
+}
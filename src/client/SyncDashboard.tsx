@@ -7,7 +7,9 @@ import {
   Badge,
   Button,
   Card,
+  Dropdown,
   EmptyState,
+  FormField,
   Heading,
   Loader,
   Notification,
@@ -24,11 +26,82 @@ import {
   StatusAlertFilled,
   StatusCompleteFilled,
 } from '@wix/wix-ui-icons-common';
-import { getSyncStats, getSyncHistory, triggerFullSync, toggleSync } from './api';
+import {
+  getSyncStats,
+  getSyncHistory,
+  triggerFullSync,
+  getSyncRun,
+  pauseFullSync,
+  resumeFullSync,
+  cancelFullSync,
+  dryRunFullSync,
+  downloadJson,
+  toggleSync,
+  getDeletionPolicy,
+  saveDeletionPolicy,
+  getCompanySync,
+  saveCompanySync,
+  getOrderSync,
+  saveOrderSync,
+  getDealPipelines,
+  getLabelSync,
+  saveLabelSync,
+  getPhoneRegion,
+  savePhoneRegion,
+  getHubSpotQuota,
+  type CompanyMatchBy,
+  type CompanySyncSettings,
+  type OrderSyncSettings,
+  type DealPipelineDto,
+  type LabelSyncMode,
+  type PhoneRegionSettings,
+  type DeletionPolicy,
+  type WixDeletionAction,
+  type HubSpotDeletionAction,
+  type SyncRunDto,
+  type HubSpotQuotaDto,
+} from './api';
+import SyncFiltersCard from './SyncFiltersCard';
 
 /* ── Auto-refresh interval (ms) ── */
 const REFRESH_INTERVAL = 30_000;
 
+/* ── Deletion policy options ── */
+const WIX_DELETE_OPTIONS: Array<{ id: WixDeletionAction; value: string }> = [
+  { id: 'ignore', value: 'Keep HubSpot contact' },
+  { id: 'mirror_delete', value: 'Delete HubSpot contact' },
+  { id: 'flag_hubspot_property', value: 'Flag HubSpot contact (wix_contact_deleted)' },
+];
+
+const HUBSPOT_DELETE_OPTIONS: Array<{ id: HubSpotDeletionAction; value: string }> = [
+  { id: 'ignore', value: 'Keep Wix contact' },
+  { id: 'mirror_delete', value: 'Delete Wix contact' },
+  { id: 'archive_wix_label', value: 'Label Wix contact "Deleted in HubSpot"' },
+];
+
+/* ── Company match options ── */
+const COMPANY_MATCH_OPTIONS: Array<{ id: CompanyMatchBy; value: string }> = [
+  { id: 'domain', value: 'Domain (website, else work email)' },
+  { id: 'name', value: 'Company name' },
+];
+
+/* ── Label sync options ── */
+const LABEL_SYNC_OPTIONS: Array<{ id: LabelSyncMode; value: string }> = [
+  { id: 'off', value: 'Do not sync labels' },
+  { id: 'property', value: 'Multi-select property (Wix Labels)' },
+  { id: 'lists', value: 'Static lists (one per label)' },
+];
+
+/* ── Phone region: dropdown id for "no default" ── */
+const ADDRESS_COUNTRY = '__address__';
+
+/* ── Full sync run labels ── */
+const RUN_PHASE_LABELS: Record<SyncRunDto['phase'], string> = {
+  wix_to_hubspot: 'Wix → HubSpot',
+  hubspot_to_wix: 'HubSpot → Wix',
+  done: 'Done',
+};
+
 /* ── Types ── */
 interface SyncEvent {
   _id: string;
@@ -59,26 +132,47 @@ interface Props {
 /* ── Component ── */
 export default function SyncDashboard({ connected }: Props): React.ReactElement {
   const [stats, setStats] = useState<Stats | null>(null);
+  const [run, setRun] = useState<SyncRunDto | null>(null);
+  const [runBusy, setRunBusy] = useState(false);
   const [history, setHistory] = useState<SyncEvent[]>([]);
   const [recentErrors, setRecentErrors] = useState<SyncEvent[]>([]);
   const [page, setPage] = useState(1);
   const [pages, setPages] = useState(1);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
   const [toggling, setToggling] = useState(false);
   const [syncResult, setSyncResult] = useState('');
   const [syncResultTheme, setSyncResultTheme] = useState<'success' | 'error'>('success');
+  const [deletionPolicy, setDeletionPolicy] = useState<DeletionPolicy | null>(null);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [companySync, setCompanySync] = useState<CompanySyncSettings | null>(null);
+  const [savingCompanySync, setSavingCompanySync] = useState(false);
+  const [orderSync, setOrderSync] = useState<OrderSyncSettings | null>(null);
+  const [pipelines, setPipelines] = useState<DealPipelineDto[]>([]);
+  const [savingOrderSync, setSavingOrderSync] = useState(false);
+  const [labelSyncMode, setLabelSyncMode] = useState<LabelSyncMode | null>(null);
+  const [savingLabelSync, setSavingLabelSync] = useState(false);
+  const [phoneRegion, setPhoneRegion] = useState<PhoneRegionSettings | null>(null);
+  const [savingPhoneRegion, setSavingPhoneRegion] = useState(false);
+  const [quota, setQuota] = useState<HubSpotQuotaDto | null>(null);
   const refreshTimer = useRef<ReturnType<typeof setInterval> | null>(null);
 
   /* ── Fetch data ── */
   const load = useCallback(async () => {
     try {
-      const [s, h] = await Promise.all([getSyncStats(), getSyncHistory(page)]);
+      const [s, h, r] = await Promise.all([getSyncStats(), getSyncHistory(page), getSyncRun()]);
       setStats(s);
+      setRun(r.run);
       setHistory(h.events);
       setPages(h.pages);
       // Extract 5 most recent errors from history
       setRecentErrors(h.events.filter((e) => e.status === 'failed').slice(0, 5));
+      getHubSpotQuota()
+        .then((q) => setQuota(q.quota))
+        .catch(() => {
+          // swallow
+        });
     } catch {
       // swallow
     } finally {
@@ -86,6 +180,41 @@ export default function SyncDashboard({ connected }: Props): React.ReactElement
     }
   }, [page]);
 
+  /* Deletion policy, company, order and label sync, and phone region rarely change — load once */
+  useEffect(() => {
+    if (!connected) return;
+    getDeletionPolicy()
+      .then(setDeletionPolicy)
+      .catch(() => {
+        // swallow
+      });
+    getCompanySync()
+      .then(setCompanySync)
+      .catch(() => {
+        // swallow
+      });
+    getOrderSync()
+      .then(setOrderSync)
+      .catch(() => {
+        // swallow
+      });
+    getDealPipelines()
+      .then(setPipelines)
+      .catch(() => {
+        // swallow — the portal may not have granted the deals scope
+      });
+    getLabelSync()
+      .then((s) => setLabelSyncMode(s.mode))
+      .catch(() => {
+        // swallow
+      });
+    getPhoneRegion()
+      .then(setPhoneRegion)
+      .catch(() => {
+        // swallow
+      });
+  }, [connected]);
+
   /* Initial load & auto-refresh every 30 s */
   useEffect(() => {
     if (!connected) return;
@@ -103,8 +232,11 @@ export default function SyncDashboard({ connected }: Props): React.ReactElement
     setSyncResult('');
     try {
       const r = await triggerFullSync();
-      setSyncResult(`Synced: ${r.synced} · Skipped: ${r.skipped} · Errors: ${r.errors}`);
-      setSyncResultTheme(r.errors > 0 ? 'error' : 'success');
+      const prefix = r.status === 'completed' ? '' : `Full sync ${r.status} · `;
+      setSyncResult(
+        `${prefix}Synced: ${r.synced} · Skipped: ${r.skipped} · Errors: ${r.errors}`,
+      );
+      setSyncResultTheme(r.errors > 0 || r.status === 'failed' ? 'error' : 'success');
       await load();
     } catch (err) {
       setSyncResult(`Error: ${(err as Error).message}`);
@@ -114,6 +246,40 @@ export default function SyncDashboard({ connected }: Props): React.ReactElement
     }
   };
 
+  /* ── Dry run: plan a full sync and download the diff report ── */
+  const handleDryRun = async () => {
+    setPreviewing(true);
+    setSyncResult('');
+    try {
+      const report = await dryRunFullSync();
+      downloadJson(`sync-dry-run-${report.generatedAt.replace(/[:.]/g, '-')}.json`, report);
+      const { create, update, skip, errors } = report.summary;
+      setSyncResult(
+        `Dry run: would create ${create} · update ${update} · skip ${skip} · errors ${errors}`,
+      );
+      setSyncResultTheme(report.status === 'failed' || errors > 0 ? 'error' : 'success');
+    } catch (err) {
+      setSyncResult(`Error: ${(err as Error).message}`);
+      setSyncResultTheme('error');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  /* ── Full sync run controls (pause / resume / cancel) ── */
+  const handleRunAction = async (action: () => Promise<{ run: SyncRunDto }>) => {
+    setRunBusy(true);
+    try {
+      const r = await action();
+      setRun(r.run);
+    } catch (err) {
+      setSyncResult(`Error: ${(err as Error).message}`);
+      setSyncResultTheme('error');
+    } finally {
+      setRunBusy(false);
+    }
+  };
+
   /* ── Pause / Resume toggle ── */
   const handleToggle = async () => {
     setToggling(true);
@@ -127,6 +293,84 @@ export default function SyncDashboard({ connected }: Props): React.ReactElement
     }
   };
 
+  /* ── Deletion policy change ── */
+  const handlePolicyChange = async (patch: Partial<DeletionPolicy>) => {
+    if (!deletionPolicy) return;
+    setSavingPolicy(true);
+    try {
+      const saved = await saveDeletionPolicy({ ...deletionPolicy, ...patch });
+      setDeletionPolicy(saved);
+    } catch (err) {
+      setSyncResult(`Error: ${(err as Error).message}`);
+      setSyncResultTheme('error');
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  /* ── Company sync change ── */
+  const handleCompanySyncChange = async (patch: Partial<CompanySyncSettings>) => {
+    if (!companySync) return;
+    setSavingCompanySync(true);
+    try {
+      const saved = await saveCompanySync({ ...companySync, ...patch });
+      setCompanySync(saved);
+    } catch (err) {
+      setSyncResult(`Error: ${(err as Error).message}`);
+      setSyncResultTheme('error');
+    } finally {
+      setSavingCompanySync(false);
+    }
+  };
+
+  /* ── Order sync change ── */
+  const handleOrderSyncChange = async (patch: Partial<OrderSyncSettings>) => {
+    if (!orderSync) return;
+    const next = { ...orderSync, ...patch };
+    // Enabling needs a target — default to the first pipeline's first stage
+    if (next.enabled && !next.pipelineId && pipelines.length > 0) {
+      next.pipelineId = pipelines[0].id;
+      next.dealStage = pipelines[0].stages[0]?.id ?? '';
+    }
+    setSavingOrderSync(true);
+    try {
+      const saved = await saveOrderSync(next);
+      setOrderSync(saved);
+    } catch (err) {
+      setSyncResult(`Error: ${(err as Error).message}`);
+      setSyncResultTheme('error');
+    } finally {
+      setSavingOrderSync(false);
+    }
+  };
+
+  /* ── Label sync change ── */
+  const handleLabelSyncChange = async (mode: LabelSyncMode) => {
+    setSavingLabelSync(true);
+    try {
+      const saved = await saveLabelSync({ mode });
+      setLabelSyncMode(saved.mode);
+    } catch (err) {
+      setSyncResult(`Error: ${(err as Error).message}`);
+      setSyncResultTheme('error');
+    } finally {
+      setSavingLabelSync(false);
+    }
+  };
+
+  /* ── Phone region change ── */
+  const handlePhoneRegionChange = async (region: string) => {
+    setSavingPhoneRegion(true);
+    try {
+      setPhoneRegion(await savePhoneRegion(region));
+    } catch (err) {
+      setSyncResult(`Error: ${(err as Error).message}`);
+      setSyncResultTheme('error');
+    } finally {
+      setSavingPhoneRegion(false);
+    }
+  };
+
   /* ── Retry a single failed event (triggers full sync as proxy) ── */
   const handleRetry = async () => {
     await handleFullSync();
@@ -279,6 +523,14 @@ export default function SyncDashboard({ connected }: Props): React.ReactElement
                   onChange={handleToggle}
                 />
               </Box>
+              <Button
+                size="small"
+                priority="secondary"
+                onClick={handleDryRun}
+                disabled={previewing || syncing}
+              >
+                {previewing ? 'Planning…' : 'Dry Run'}
+              </Button>
               <Button
                 size="small"
                 prefixIcon={syncing ? undefined : <Refresh />}
@@ -292,6 +544,63 @@ export default function SyncDashboard({ connected }: Props): React.ReactElement
         />
       </Card>
 
+      {/* Unfinished full sync */}
+      {run && ['running', 'paused', 'failed'].includes(run.status) && (
+        <Card>
+          <Card.Header
+            title="Full Sync Progress"
+            subtitle={`${RUN_PHASE_LABELS[run.phase]} · ${run.counters.total} processed · ${run.counters.synced} synced · ${run.counters.errors} errors`}
+            suffix={
+              <Box gap="8px" verticalAlign="middle">
+                <Badge
+                  size="small"
+                  skin={run.status === 'failed' ? 'danger' : run.status === 'paused' ? 'warning' : 'general'}
+                >
+                  {run.status}
+                </Badge>
+                {run.status === 'running' ? (
+                  <Button
+                    size="small"
+                    priority="secondary"
+                    prefixIcon={<Pause />}
+                    disabled={runBusy}
+                    onClick={() => handleRunAction(pauseFullSync)}
+                  >
+                    Pause
+                  </Button>
+                ) : (
+                  <Button
+                    size="small"
+                    priority="secondary"
+                    prefixIcon={<Play />}
+                    disabled={runBusy}
+                    onClick={() => handleRunAction(resumeFullSync)}
+                  >
+                    Resume
+                  </Button>
+                )}
+                <Button
+                  size="small"
+                  priority="secondary"
+                  skin="destructive"
+                  disabled={runBusy}
+                  onClick={() => handleRunAction(cancelFullSync)}
+                >
+                  Cancel
+                </Button>
+              </Box>
+            }
+          />
+          {run.lastError && (
+            <Card.Content>
+              <Text size="small" skin="error">
+                {run.lastError}
+              </Text>
+            </Card.Content>
+          )}
+        </Card>
+      )}
+
       {/* Statistics */}
       {stats && (
         <Card>
@@ -331,6 +640,228 @@ export default function SyncDashboard({ connected }: Props): React.ReactElement
         </Card>
       )}
 
+      {/* HubSpot API quota */}
+      {quota && (
+        <Card>
+          <Card.Header
+            title="HubSpot API Quota"
+            subtitle="Requests are paced to stay within your portal's limits"
+          />
+          <Card.Divider />
+          <Card.Content>
+            <StatisticsWidget
+              items={[
+                {
+                  value: `${quota.burstRemaining} / ${quota.burstLimit}`,
+                  description: `Available per ${Math.round(quota.burstIntervalMs / 1000)} s`,
+                },
+                {
+                  value:
+                    quota.dailyLimit !== null && quota.dailyRemaining !== null
+                      ? `${quota.dailyRemaining.toLocaleString()} / ${quota.dailyLimit.toLocaleString()}`
+                      : '—',
+                  description: 'Daily Remaining',
+                },
+                {
+                  value: String(quota.throttledRequests),
+                  description: 'Paced Requests',
+                },
+                {
+                  value: String(quota.rateLimitedResponses),
+                  description: 'Rate Limit Hits',
+                },
+              ]}
+            />
+          </Card.Content>
+        </Card>
+      )}
+
+      {/* Deletion handling */}
+      {deletionPolicy && (
+        <Card>
+          <Card.Header
+            title="Deletion Handling"
+            subtitle="What happens to the linked contact when one side is deleted"
+          />
+          <Card.Divider />
+          <Card.Content>
+            <Box gap="24px">
+              <Box width="50%">
+                <FormField label="When a Wix contact is deleted">
+                  <Dropdown
+                    size="small"
+                    selectedId={deletionPolicy.onWixDelete}
+                    options={WIX_DELETE_OPTIONS}
+                    disabled={savingPolicy}
+                    onSelect={(option) =>
+                      handlePolicyChange({ onWixDelete: option.id as WixDeletionAction })
+                    }
+                  />
+                </FormField>
+              </Box>
+              <Box width="50%">
+                <FormField label="When a HubSpot contact is deleted">
+                  <Dropdown
+                    size="small"
+                    selectedId={deletionPolicy.onHubSpotDelete}
+                    options={HUBSPOT_DELETE_OPTIONS}
+                    disabled={savingPolicy}
+                    onSelect={(option) =>
+                      handlePolicyChange({ onHubSpotDelete: option.id as HubSpotDeletionAction })
+                    }
+                  />
+                </FormField>
+              </Box>
+            </Box>
+          </Card.Content>
+        </Card>
+      )}
+
+      {/* Company sync */}
+      {companySync && (
+        <Card>
+          <Card.Header
+            title="Companies"
+            subtitle="Create HubSpot companies from Wix contacts and associate them"
+            suffix={
+              <ToggleSwitch
+                size="medium"
+                checked={companySync.enabled}
+                disabled={savingCompanySync}
+                onChange={() => handleCompanySyncChange({ enabled: !companySync.enabled })}
+              />
+            }
+          />
+          <Card.Divider />
+          <Card.Content>
+            <Box width="50%">
+              <FormField label="Match companies by">
+                <Dropdown
+                  size="small"
+                  selectedId={companySync.matchBy}
+                  options={COMPANY_MATCH_OPTIONS}
+                  disabled={savingCompanySync || !companySync.enabled}
+                  onSelect={(option) =>
+                    handleCompanySyncChange({ matchBy: option.id as CompanyMatchBy })
+                  }
+                />
+              </FormField>
+            </Box>
+          </Card.Content>
+        </Card>
+      )}
+
+      {/* Order sync */}
+      {orderSync && (
+        <Card>
+          <Card.Header
+            title="Orders"
+            subtitle="Create a HubSpot deal with line items for each Wix order"
+            suffix={
+              <ToggleSwitch
+                size="medium"
+                checked={orderSync.enabled}
+                disabled={savingOrderSync || pipelines.length === 0}
+                onChange={() => handleOrderSyncChange({ enabled: !orderSync.enabled })}
+              />
+            }
+          />
+          <Card.Divider />
+          <Card.Content>
+            <Box gap="SP4">
+              <Box width="50%">
+                <FormField label="Deal pipeline">
+                  <Dropdown
+                    size="small"
+                    placeholder="Select a pipeline"
+                    selectedId={orderSync.pipelineId || undefined}
+                    options={pipelines.map((p) => ({ id: p.id, value: p.label }))}
+                    disabled={savingOrderSync || pipelines.length === 0}
+                    onSelect={(option) => {
+                      const pipeline = pipelines.find((p) => p.id === option.id);
+                      handleOrderSyncChange({
+                        pipelineId: String(option.id),
+                        dealStage: pipeline?.stages[0]?.id ?? '',
+                      });
+                    }}
+                  />
+                </FormField>
+              </Box>
+              <Box width="50%">
+                <FormField label="Deal stage for new orders">
+                  <Dropdown
+                    size="small"
+                    placeholder="Select a stage"
+                    selectedId={orderSync.dealStage || undefined}
+                    options={(
+                      pipelines.find((p) => p.id === orderSync.pipelineId)?.stages ?? []
+                    ).map((s) => ({ id: s.id, value: s.label }))}
+                    disabled={savingOrderSync || !orderSync.pipelineId}
+                    onSelect={(option) => handleOrderSyncChange({ dealStage: String(option.id) })}
+                  />
+                </FormField>
+              </Box>
+            </Box>
+          </Card.Content>
+        </Card>
+      )}
+
+      {/* Label sync */}
+      {labelSyncMode && (
+        <Card>
+          <Card.Header
+            title="Labels"
+            subtitle="Show Wix contact labels in HubSpot, and apply HubSpot changes back to Wix"
+          />
+          <Card.Divider />
+          <Card.Content>
+            <Box width="50%">
+              <FormField label="Sync labels as">
+                <Dropdown
+                  size="small"
+                  selectedId={labelSyncMode}
+                  options={LABEL_SYNC_OPTIONS}
+                  disabled={savingLabelSync}
+                  onSelect={(option) => handleLabelSyncChange(option.id as LabelSyncMode)}
+                />
+              </FormField>
+            </Box>
+          </Card.Content>
+        </Card>
+      )}
+
+      {/* Phone numbers */}
+      {phoneRegion && (
+        <Card>
+          <Card.Header
+            title="Phone Numbers"
+            subtitle="Phone numbers typed without a country code are read as numbers from this country"
+          />
+          <Card.Divider />
+          <Card.Content>
+            <Box width="50%">
+              <FormField label="Default country">
+                <Dropdown
+                  size="small"
+                  selectedId={phoneRegion.region || ADDRESS_COUNTRY}
+                  options={[
+                    { id: ADDRESS_COUNTRY, value: "Contact's address country" },
+                    ...phoneRegion.regions.map((r) => ({ id: r, value: r })),
+                  ]}
+                  disabled={savingPhoneRegion}
+                  onSelect={(option) =>
+                    handlePhoneRegionChange(option.id === ADDRESS_COUNTRY ? '' : (option.id as string))
+                  }
+                />
+              </FormField>
+            </Box>
+          </Card.Content>
+        </Card>
+      )}
+
+      {/* Sync filters */}
+      {connected && <SyncFiltersCard />}
+
       {/* Recent Errors */}
       {recentErrors.length > 0 && (
         <Card>
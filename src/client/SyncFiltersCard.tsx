@@ -0,0 +1,373 @@
+// =============================================================================
+// SyncFiltersCard — rules that keep new contacts (test accounts, internal
+// addresses, members without consent) from being copied to the other system
+// =============================================================================
+import React, { useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Card,
+  CustomModalLayout,
+  Dropdown,
+  EmptyState,
+  FormField,
+  IconButton,
+  Input,
+  Modal,
+  Table,
+  Text,
+  TextButton,
+  ToggleSwitch,
+} from '@wix/design-system';
+import { Add, Delete, Edit } from '@wix/wix-ui-icons-common';
+import {
+  getSyncFilters,
+  createSyncFilter,
+  updateSyncFilter,
+  deleteSyncFilter,
+  ApiError,
+  SyncFilterConditionDto,
+  SyncFilterConditionKind,
+  SyncFilterDto,
+  SyncFilterInput,
+  SyncFilterOperator,
+  SyncFilterSide,
+} from './api';
+
+const SIDE_OPTIONS: Array<{ id: SyncFilterSide; value: string }> = [
+  { id: 'both', value: 'New contacts in Wix or HubSpot' },
+  { id: 'wix', value: 'New Wix contacts' },
+  { id: 'hubspot', value: 'New HubSpot contacts' },
+];
+
+const KIND_OPTIONS: Array<{ id: SyncFilterConditionKind; value: string }> = [
+  { id: 'email_domain', value: 'Email domain' },
+  { id: 'field', value: 'Field' },
+  { id: 'label', value: 'Label' },
+  { id: 'source', value: 'Source' },
+];
+
+const OPERATOR_OPTIONS: Array<{ id: SyncFilterOperator; value: string }> = [
+  { id: 'equals', value: 'is' },
+  { id: 'not_equals', value: 'is not' },
+  { id: 'contains', value: 'contains' },
+  { id: 'not_contains', value: 'does not contain' },
+  { id: 'ends_with', value: 'ends with' },
+  { id: 'is_empty', value: 'is empty' },
+  { id: 'is_not_empty', value: 'is not empty' },
+];
+
+const UNARY: SyncFilterOperator[] = ['is_empty', 'is_not_empty'];
+
+/** Example value shown in an empty value input */
+const VALUE_HINTS: Record<SyncFilterConditionKind, string> = {
+  email_domain: 'ourcompany.com',
+  field: 'Value',
+  label: 'custom.test-account',
+  source: 'WIX_SITE_MEMBERS',
+};
+
+const EMPTY_FILTER: SyncFilterInput = {
+  name: '',
+  side: 'both',
+  conditions: [{ kind: 'email_domain', operator: 'equals', value: '' }],
+  isActive: true,
+  order: 0,
+};
+
+/** One line per condition, e.g. "Email domain is ourcompany.com" */
+export function describeCondition(c: SyncFilterConditionDto): string {
+  const subject = c.kind === 'field' ? c.field : KIND_OPTIONS.find((k) => k.id === c.kind)?.value;
+  const operator = OPERATOR_OPTIONS.find((o) => o.id === c.operator)?.value;
+  return [subject, operator, UNARY.includes(c.operator) ? '' : c.value].filter(Boolean).join(' ');
+}
+
+/* ── Editor modal ── */
+function SyncFilterEditor({
+  filter,
+  onSave,
+  onClose,
+}: {
+  /** Filter being edited; `null` closes the editor */
+  filter: SyncFilterInput | null;
+  onSave: (filter: SyncFilterInput) => Promise<void>;
+  onClose: () => void;
+}): React.ReactElement {
+  const [draft, setDraft] = useState<SyncFilterInput>(EMPTY_FILTER);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Start from the chosen filter each time the editor opens
+  useEffect(() => {
+    if (filter) {
+      setDraft({ ...filter, conditions: filter.conditions.map((c) => ({ ...c })) });
+      setErrors([]);
+    }
+  }, [filter]);
+
+  const updateCondition = (index: number, patch: Partial<SyncFilterConditionDto>) => {
+    setDraft((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((c, i) => (i === index ? { ...c, ...patch } : c)),
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } catch (err) {
+      const details = err instanceof ApiError ? err.details : [];
+      setErrors(details.length ? details.map((d) => `${d.field}: ${d.message}`) : [(err as Error).message]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!filter} onRequestClose={onClose} shouldCloseOnOverlayClick>
+      <CustomModalLayout
+        title="Sync Filter"
+        subtitle="A new contact that meets every condition is not copied to the other system. Contacts that are already synced keep syncing."
+        primaryButtonText="Save Filter"
+        primaryButtonOnClick={handleSave}
+        primaryButtonProps={{ disabled: saving || !draft.name.trim() }}
+        secondaryButtonText="Cancel"
+        secondaryButtonOnClick={onClose}
+        onCloseButtonClick={onClose}
+        width="720px"
+      >
+        <Box direction="vertical" gap="12px">
+          <Box gap="12px">
+            <Box width="50%">
+              <FormField label="Name">
+                <Input
+                  size="small"
+                  value={draft.name}
+                  maxLength={100}
+                  placeholder="Internal addresses"
+                  onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                />
+              </FormField>
+            </Box>
+            <Box width="50%">
+              <FormField label="Applies to">
+                <Dropdown
+                  size="small"
+                  selectedId={draft.side}
+                  options={SIDE_OPTIONS}
+                  onSelect={(option) => setDraft((prev) => ({ ...prev, side: option.id as SyncFilterSide }))}
+                />
+              </FormField>
+            </Box>
+          </Box>
+
+          <Text size="small" weight="bold">
+            Skip the contact when all of these hold
+          </Text>
+          {draft.conditions.map((c, i) => (
+            <Box key={i} gap="8px" verticalAlign="middle">
+              <Box width="140px">
+                <Dropdown
+                  size="small"
+                  selectedId={c.kind}
+                  options={KIND_OPTIONS}
+                  onSelect={(option) => updateCondition(i, { kind: option.id as SyncFilterConditionKind })}
+                />
+              </Box>
+              {c.kind === 'field' && (
+                <Box width="140px">
+                  <Input
+                    size="small"
+                    placeholder="subscriptionStatus"
+                    value={c.field ?? ''}
+                    onChange={(e) => updateCondition(i, { field: e.target.value })}
+                  />
+                </Box>
+              )}
+              <Box width="150px">
+                <Dropdown
+                  size="small"
+                  selectedId={c.operator}
+                  options={OPERATOR_OPTIONS}
+                  onSelect={(option) => updateCondition(i, { operator: option.id as SyncFilterOperator })}
+                />
+              </Box>
+              <Box flexGrow={1}>
+                {!UNARY.includes(c.operator) && (
+                  <Input
+                    size="small"
+                    placeholder={VALUE_HINTS[c.kind]}
+                    value={c.value ?? ''}
+                    onChange={(e) => updateCondition(i, { value: e.target.value })}
+                  />
+                )}
+              </Box>
+              <IconButton
+                size="small"
+                priority="secondary"
+                disabled={draft.conditions.length === 1}
+                onClick={() =>
+                  setDraft((prev) => ({ ...prev, conditions: prev.conditions.filter((_, j) => j !== i) }))
+                }
+              >
+                <Delete />
+              </IconButton>
+            </Box>
+          ))}
+          <Box>
+            <Button
+              size="small"
+              priority="secondary"
+              prefixIcon={<Add />}
+              onClick={() =>
+                setDraft((prev) => ({
+                  ...prev,
+                  conditions: [...prev.conditions, { kind: 'field', field: '', operator: 'equals', value: '' }],
+                }))
+              }
+            >
+              Add Condition
+            </Button>
+          </Box>
+
+          <Text size="tiny" secondary>
+            Text is compared ignoring case. Wix fields include subscriptionStatus (SUBSCRIBED, UNSUBSCRIBED,
+            NOT_SET, PENDING); HubSpot fields are property names. Labels are Wix label keys, or label names in
+            HubSpot. Source is the Wix source type (e.g. WIX_SITE_MEMBERS) or HubSpot's record source (e.g. FORM).
+          </Text>
+          {errors.map((e, i) => (
+            <Text key={i} size="small" skin="error" tagName="div">
+              {e}
+            </Text>
+          ))}
+        </Box>
+      </CustomModalLayout>
+    </Modal>
+  );
+}
+
+/* ── Component ── */
+export default function SyncFiltersCard(): React.ReactElement {
+  const [filters, setFilters] = useState<SyncFilterDto[]>([]);
+  const [editing, setEditing] = useState<{ id: string | null; filter: SyncFilterInput } | null>(null);
+  const [error, setError] = useState('');
+
+  const load = () =>
+    getSyncFilters()
+      .then((res) => setFilters(res.filters))
+      .catch((err) => setError((err as Error).message));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const toInput = (f: SyncFilterDto): SyncFilterInput => ({
+    name: f.name,
+    side: f.side,
+    conditions: f.conditions,
+    isActive: f.isActive,
+    order: f.order,
+  });
+
+  const handleSave = async (filter: SyncFilterInput) => {
+    if (editing?.id) await updateSyncFilter(editing.id, filter);
+    else await createSyncFilter(filter);
+    setEditing(null);
+    await load();
+  };
+
+  const handleToggle = async (f: SyncFilterDto) => {
+    try {
+      await updateSyncFilter(f._id, { ...toInput(f), isActive: !f.isActive });
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (f: SyncFilterDto) => {
+    try {
+      await deleteSyncFilter(f._id);
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const columns = [
+    { title: 'Name', width: '24%', render: (f: SyncFilterDto) => <Text size="small">{f.name}</Text> },
+    {
+      title: 'Applies to',
+      width: '20%',
+      render: (f: SyncFilterDto) => (
+        <Badge size="small" skin="neutralLight">
+          {SIDE_OPTIONS.find((s) => s.id === f.side)?.value}
+        </Badge>
+      ),
+    },
+    {
+      title: 'Skips when',
+      width: '40%',
+      render: (f: SyncFilterDto) => (
+        <Box direction="vertical">
+          {f.conditions.map((c, i) => (
+            <Text key={i} size="small">
+              {describeCondition(c)}
+            </Text>
+          ))}
+        </Box>
+      ),
+    },
+    {
+      title: '',
+      width: '16%',
+      render: (f: SyncFilterDto) => (
+        <Box gap="8px" verticalAlign="middle" align="right">
+          <ToggleSwitch size="small" checked={f.isActive} onChange={() => handleToggle(f)} />
+          <IconButton size="small" priority="secondary" onClick={() => setEditing({ id: f._id, filter: toInput(f) })}>
+            <Edit />
+          </IconButton>
+          <IconButton size="small" priority="secondary" onClick={() => handleDelete(f)}>
+            <Delete />
+          </IconButton>
+        </Box>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <Card.Header
+        title="Sync Filters"
+        subtitle="Keep test accounts, internal addresses or contacts without consent out of the other system"
+        suffix={
+          <TextButton
+            size="small"
+            prefixIcon={<Add />}
+            onClick={() => setEditing({ id: null, filter: { ...EMPTY_FILTER, order: filters.length } })}
+          >
+            Add Filter
+          </TextButton>
+        }
+      />
+      <Card.Divider />
+      <Card.Content>
+        {error && (
+          <Text size="small" skin="error" tagName="div">
+            {error}
+          </Text>
+        )}
+        {filters.length === 0 ? (
+          <EmptyState title="No sync filters" subtitle="Every new contact is synced." />
+        ) : (
+          <Table data={filters} columns={columns}>
+            <Table.Content />
+          </Table>
+        )}
+      </Card.Content>
+      <SyncFilterEditor filter={editing?.filter ?? null} onSave={handleSave} onClose={() => setEditing(null)} />
+    </Card>
+  );
+}
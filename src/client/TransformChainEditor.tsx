@@ -0,0 +1,209 @@
+// =============================================================================
+// TransformChainEditor — modal editor for a mapping row's transform chain
+// =============================================================================
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  CustomModalLayout,
+  Dropdown,
+  IconButton,
+  Input,
+  Modal,
+  NumberInput,
+  Text,
+} from '@wix/design-system';
+import { Delete } from '@wix/wix-ui-icons-common';
+import { TransformStepDto } from './api';
+
+/* ── Constants ── */
+export const TRANSFORM_STEPS = [
+  { id: 'trim', value: 'Trim' },
+  { id: 'lowercase', value: 'Lowercase' },
+  { id: 'uppercase', value: 'Uppercase' },
+  { id: 'titlecase', value: 'Title Case' },
+  { id: 'phone_e164', value: 'Phone (E.164)' },
+  { id: 'phone_national', value: 'Phone (national in Wix)' },
+  { id: 'date', value: 'Date (ISO ↔ HubSpot date)' },
+  { id: 'regex_replace', value: 'Regex replace' },
+  { id: 'default_if_empty', value: 'Default if empty' },
+  { id: 'truncate', value: 'Truncate' },
+  { id: 'value_map', value: 'Value lookup' },
+];
+
+const STEP_LABELS = new Map(TRANSFORM_STEPS.map((s) => [s.id, s.value]));
+
+/** Short label for a chain, e.g. "Trim → Title Case" */
+export function describeChain(steps: TransformStepDto[] | undefined): string {
+  if (!steps?.length) return 'No steps';
+  return steps.map((s) => STEP_LABELS.get(s.type) ?? s.type).join(' → ');
+}
+
+/* ── value_map pairs are edited as "from=to, from=to" ── */
+function formatValueMap(pairs: TransformStepDto['valueMap']): string {
+  return (pairs ?? []).map((p) => `${p.from}=${p.to}`).join(', ');
+}
+
+function parseValueMap(text: string): Array<{ from: string; to: string }> {
+  return text
+    .split(',')
+    .map((pair) => pair.split('='))
+    .filter((parts) => parts.length === 2 && parts[0].trim())
+    .map(([from, to]) => ({ from: from.trim(), to: to.trim() }));
+}
+
+/* ── Draft step keeps the raw lookup text while typing ── */
+interface DraftStep extends TransformStepDto {
+  mapText?: string;
+}
+
+interface Props {
+  isOpen: boolean;
+  steps: TransformStepDto[];
+  onSave: (steps: TransformStepDto[]) => void;
+  onClose: () => void;
+}
+
+/* ── Component ── */
+export default function TransformChainEditor({
+  isOpen,
+  steps,
+  onSave,
+  onClose,
+}: Props): React.ReactElement {
+  const [draft, setDraft] = useState<DraftStep[]>([]);
+
+  // Start from the row's chain each time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(
+        steps.map((s) =>
+          s.type === 'value_map' ? { ...s, mapText: formatValueMap(s.valueMap) } : { ...s },
+        ),
+      );
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const updateStep = (index: number, patch: Partial<DraftStep>) => {
+    setDraft((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const addStep = (type: string) => {
+    setDraft((prev) => [...prev, type === 'value_map' ? { type, mapText: '' } : { type }]);
+  };
+
+  const removeStep = (index: number) => {
+    setDraft((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    onSave(
+      draft.map(({ mapText, ...step }) =>
+        step.type === 'value_map' ? { ...step, valueMap: parseValueMap(mapText ?? '') } : step,
+      ),
+    );
+  };
+
+  /* ── Per-step options ── */
+  const renderOptions = (step: DraftStep, index: number) => {
+    switch (step.type) {
+      case 'regex_replace':
+        return (
+          <Box gap="6px">
+            <Input
+              size="small"
+              placeholder="Pattern"
+              value={step.pattern ?? ''}
+              onChange={(e) => updateStep(index, { pattern: e.target.value })}
+            />
+            <Input
+              size="small"
+              placeholder="Replacement"
+              value={step.replacement ?? ''}
+              onChange={(e) => updateStep(index, { replacement: e.target.value })}
+            />
+            <Input
+              size="small"
+              placeholder="Flags (g)"
+              value={step.flags ?? ''}
+              onChange={(e) => updateStep(index, { flags: e.target.value || undefined })}
+            />
+          </Box>
+        );
+      case 'default_if_empty':
+        return (
+          <Input
+            size="small"
+            placeholder="Default value"
+            value={step.value ?? ''}
+            onChange={(e) => updateStep(index, { value: e.target.value })}
+          />
+        );
+      case 'truncate':
+        return (
+          <NumberInput
+            size="small"
+            placeholder="Max length"
+            min={1}
+            value={step.length}
+            onChange={(value) => updateStep(index, { length: value ?? undefined })}
+          />
+        );
+      case 'value_map':
+        return (
+          <Input
+            size="small"
+            placeholder="Wix value=HubSpot value, …"
+            value={step.mapText ?? ''}
+            onChange={(e) => updateStep(index, { mapText: e.target.value })}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onRequestClose={onClose} shouldCloseOnOverlayClick>
+      <CustomModalLayout
+        title="Transform Steps"
+        subtitle="Applied in order after the row's transform. Dates, lookups and national phone numbers are reversed for HubSpot → Wix."
+        primaryButtonText="Apply"
+        primaryButtonOnClick={handleSave}
+        secondaryButtonText="Cancel"
+        secondaryButtonOnClick={onClose}
+        onCloseButtonClick={onClose}
+        width="640px"
+      >
+        <Box direction="vertical" gap="12px">
+          {draft.length === 0 && (
+            <Text size="small" secondary>
+              No steps yet.
+            </Text>
+          )}
+          {draft.map((step, i) => (
+            <Box key={i} gap="12px" verticalAlign="middle">
+              <Box width="150px">
+                <Text size="small" weight="bold">
+                  {i + 1}. {STEP_LABELS.get(step.type) ?? step.type}
+                </Text>
+              </Box>
+              <Box flexGrow={1}>{renderOptions(step, i)}</Box>
+              <IconButton size="small" priority="secondary" onClick={() => removeStep(i)}>
+                <Delete />
+              </IconButton>
+            </Box>
+          ))}
+          <Box width="240px">
+            <Dropdown
+              size="small"
+              placeholder="Add step…"
+              options={TRANSFORM_STEPS}
+              onSelect={(option) => addStep(option.id as string)}
+            />
+          </Box>
+        </Box>
+      </CustomModalLayout>
+    </Modal>
+  );
+}
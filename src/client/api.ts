@@ -63,7 +63,17 @@ function getInstanceToken(): string {
   return token;
 }
 
-async function api<T = unknown>(path: string, opts: ApiOptions = {}): Promise<T> {
+/** A failed request; `details` carries the server's validation findings */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public details: MappingValidationDto[] = [],
+  ) {
+    super(message);
+  }
+}
+
+async function request(path: string, opts: ApiOptions = {}): Promise<Response> {
   const token = getInstanceToken();
   const res = await fetch(`${BASE}${path}`, {
     method: opts.method || 'GET',
@@ -78,10 +88,19 @@ async function api<T = unknown>(path: string, opts: ApiOptions = {}): Promise<T>
 
   if (!res.ok) {
     const err = await res.json().catch(() => ({ error: res.statusText }));
-    throw new Error(err.error || `API ${res.status}`);
+    throw new ApiError(err.error || `API ${res.status}`, Array.isArray(err.details) ? err.details : []);
   }
 
-  return res.json();
+  return res;
+}
+
+async function api<T = unknown>(path: string, opts: ApiOptions = {}): Promise<T> {
+  return (await request(path, opts)).json();
+}
+
+/** For endpoints that answer with a file rather than JSON */
+async function apiText(path: string, opts: ApiOptions = {}): Promise<string> {
+  return (await request(path, opts)).text();
 }
 
 /* ── Connection ── */
@@ -97,12 +116,39 @@ export const disconnectHubspot = () =>
   api<{ ok: boolean }>('/connection/disconnect', { method: 'POST' });
 
 /* ── Field Mappings ── */
+export interface TransformStepDto {
+  type: string;
+  pattern?: string;
+  replacement?: string;
+  flags?: string;
+  value?: string;
+  length?: number;
+  valueMap?: Array<{ from: string; to: string }>;
+}
+
+/** Several Wix fields ↔ one HubSpot property */
+export interface CompositeMappingDto {
+  wixFields: string[];
+  template?: string;
+  delimiter?: string;
+  splitPattern?: string;
+}
+
 export interface FieldMappingDto {
   _id: string;
   wixField: string;
   hubspotField: string;
   direction: string;
   transform: string;
+  /** Transform chain applied after `transform` */
+  transforms?: TransformStepDto[];
+  /** Wix value ↔ HubSpot option pairs for an enumeration property */
+  optionMap?: Array<{ wixValue: string; hubspotValue: string }>;
+  /** HubSpot option for Wix values without a pair */
+  optionFallback?: string;
+  /** Set when several Wix fields map to `hubspotField` */
+  composite?: CompositeMappingDto;
+  conflictStrategy: string;
   isDefault: boolean;
   isActive: boolean;
 }
@@ -110,11 +156,35 @@ export interface FieldMappingDto {
 export const getFieldMappings = () =>
   api<{ mappings: FieldMappingDto[] }>('/field-mappings');
 
-export const createFieldMapping = (body: Partial<FieldMappingDto>) =>
-  api<{ mapping: FieldMappingDto }>('/field-mappings', { method: 'POST', body });
+/** Validation finding; `severity: 'warning'` does not block saving */
+export interface MappingValidationDto {
+  field: string;
+  message: string;
+  severity?: 'warning';
+}
+
+/** A HubSpot property created together with a mapping */
+export interface CreatedPropertyDto {
+  name: string;
+  label: string;
+  type: string;
+  fieldType: string;
+}
+
+/** With `createProperty`, `hubspotField` is created in HubSpot in the same step */
+export const createFieldMapping = (
+  body: Partial<FieldMappingDto> & { createProperty?: { label?: string } },
+) =>
+  api<{ mapping: FieldMappingDto; warnings: MappingValidationDto[]; property?: CreatedPropertyDto }>(
+    '/field-mappings',
+    { method: 'POST', body },
+  );
 
 export const updateFieldMapping = (id: string, body: Partial<FieldMappingDto>) =>
-  api<{ mapping: FieldMappingDto }>(`/field-mappings/${id}`, { method: 'PUT', body });
+  api<{ mapping: FieldMappingDto; warnings: MappingValidationDto[] }>(`/field-mappings/${id}`, {
+    method: 'PUT',
+    body,
+  });
 
 export const deleteFieldMapping = (id: string) =>
   api<{ ok: boolean }>(`/field-mappings/${id}`, { method: 'DELETE' });
@@ -125,27 +195,226 @@ export const resetFieldMappings = () =>
 export const saveFieldMappingsBulk = (
   mappings: Array<Partial<FieldMappingDto>>,
 ) =>
-  api<{ mappings: FieldMappingDto[] }>('/field-mappings/bulk', {
+  api<{ mappings: FieldMappingDto[]; warnings: MappingValidationDto[] }>('/field-mappings/bulk', {
     method: 'POST',
     body: { mappings },
   });
 
-export const getHubspotProperties = () =>
-  api<{ properties: Array<{ value: string; label: string; type: string }> }>(
-    '/field-mappings/hubspot-properties',
+/** An edited, possibly unsaved rule from the mapping table */
+export type DraftMappingRuleDto = Pick<
+  FieldMappingDto,
+  | 'wixField'
+  | 'hubspotField'
+  | 'direction'
+  | 'transform'
+  | 'transforms'
+  | 'optionMap'
+  | 'optionFallback'
+  | 'composite'
+  | 'conflictStrategy'
+  | 'isActive'
+>;
+
+/* ── Live preview against a synced contact ── */
+export interface FieldDecisionDto {
+  field: string;
+  strategy: string;
+  /** `false` when the conflict strategy keeps the target's value */
+  applied: boolean;
+  reason: string;
+}
+
+export interface MappingPreviewSideDto {
+  /** Values the rules produce, keyed by target field */
+  props: Record<string, string>;
+  /** Current target values of the same fields */
+  current: Record<string, string>;
+  conflict: { winner: 'wix' | 'hubspot'; reason: string };
+  fields: FieldDecisionDto[];
+  warnings: Array<{ field: string; message: string }>;
+}
+
+export interface ContactMappingPreviewDto {
+  wixContactId: string;
+  hubspotContactId: string;
+  wix: Record<string, string>;
+  hubspot: Record<string, string>;
+  wixToHubSpot: MappingPreviewSideDto;
+  hubSpotToWix: MappingPreviewSideDto;
+}
+
+/** Maps one synced contact with the given rules; nothing is written */
+export const previewContactMapping = (wixContactId: string, rules: DraftMappingRuleDto[]) =>
+  api<{ preview: ContactMappingPreviewDto }>('/field-mappings/preview', {
+    method: 'POST',
+    body: { wixContactId, rules },
+  });
+
+/* ── Mapping version history ── */
+export interface MappingVersionSummaryDto {
+  version: number;
+  author: string;
+  comment: string;
+  ruleCount: number;
+  /** Version this one restored, when created by a rollback */
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+export interface MappingDiffDto {
+  added: Array<Partial<FieldMappingDto>>;
+  removed: Array<Partial<FieldMappingDto>>;
+  changed: Array<{
+    wixField: string;
+    hubspotField: string;
+    changes: Array<{ setting: string; before: unknown; after: unknown }>;
+  }>;
+}
+
+export const getMappingVersions = (page = 1) =>
+  api<{ versions: MappingVersionSummaryDto[]; total: number; pages: number }>(
+    `/field-mappings/versions?page=${page}`,
+  );
+
+export const diffMappingVersions = (from: number, to: number) =>
+  api<{ from: number; to: number; diff: MappingDiffDto }>(
+    `/field-mappings/versions/diff?from=${from}&to=${to}`,
   );
 
+export const rollbackMappings = (version: number, comment?: string) =>
+  api<{ mappings: FieldMappingDto[]; version: MappingVersionSummaryDto }>(
+    `/field-mappings/versions/${version}/rollback`,
+    { method: 'POST', body: comment ? { comment } : {} },
+  );
+
+/* ── Config import / export (Module 19) ── */
+export type ConfigFormat = 'json' | 'yaml';
+
+export interface ConfigImportPreviewDto {
+  /** `true` when the document can be imported */
+  ok: boolean;
+  errors: MappingValidationDto[];
+  warnings: MappingValidationDto[];
+  changes: {
+    /** `null` when the document has no field mappings */
+    fieldMappings: MappingDiffDto | null;
+    formMappings: Array<{ wixFormId: string; before: string; after: string }>;
+    settings: Array<{ setting: string; before: unknown; after: unknown }>;
+  };
+}
+
+/** Mappings, form mappings, widget form and sync settings as a document */
+export const exportConfig = (format: ConfigFormat) => apiText(`/config/export?format=${format}`);
+
+/** Validates a document against this site; `format` is detected when omitted */
+export const previewConfigImport = (document: string, format?: ConfigFormat) =>
+  api<{ preview: ConfigImportPreviewDto }>('/config/import/preview', {
+    method: 'POST',
+    body: { document, format },
+  });
+
+export const importConfig = (document: string, format?: ConfigFormat, comment?: string) =>
+  api<{ preview: ConfigImportPreviewDto; mappings: FieldMappingDto[] }>('/config/import', {
+    method: 'POST',
+    body: { document, format, ...(comment ? { comment } : {}) },
+  });
+
+export interface HubSpotPropertyDto {
+  value: string;
+  label: string;
+  type: string;
+  /** Allowed values of an enumeration property */
+  options?: Array<{ value: string; label: string }>;
+}
+
+export const getHubspotProperties = () =>
+  api<{ properties: HubSpotPropertyDto[] }>('/field-mappings/hubspot-properties');
+
 export const getWixFields = () =>
   api<{ fields: Array<{ value: string; label: string; type: string }> }>(
     '/field-mappings/wix-fields',
   );
 
 /* ── Sync ── */
+export type SyncRunStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface SyncRunDto {
+  _id: string;
+  status: SyncRunStatus;
+  phase: 'wix_to_hubspot' | 'hubspot_to_wix' | 'done';
+  counters: { synced: number; skipped: number; errors: number; total: number };
+  lastError: string;
+  startedAt: string;
+  finishedAt: string | null;
+  updatedAt: string;
+}
+
 export const triggerFullSync = () =>
-  api<{ synced: number; skipped: number; errors: number }>('/sync/full', {
+  api<{
+    runId: string;
+    status: SyncRunStatus;
+    synced: number;
+    skipped: number;
+    errors: number;
+    total: number;
+  }>('/sync/full', {
     method: 'POST',
   });
 
+export interface DryRunChangeDto {
+  scenario: string;
+  action: 'create' | 'update' | 'skip';
+  target: 'wix' | 'hubspot';
+  wixContactId: string;
+  hubspotContactId: string;
+  before: Record<string, string>;
+  after: Record<string, string>;
+  reason?: string;
+}
+
+export interface DryRunReportDto {
+  instanceId: string;
+  generatedAt: string;
+  customRules: boolean;
+  status: 'completed' | 'failed';
+  summary: { create: number; update: number; skip: number; errors: number; total: number };
+  changes: DryRunChangeDto[];
+}
+
+/** Plan a full sync without writing — pass `rules` to preview unsaved mappings */
+export const dryRunFullSync = (rules?: DraftMappingRuleDto[]) =>
+  api<DryRunReportDto>('/sync/dry-run', {
+    method: 'POST',
+    body: rules ? { rules } : {},
+  });
+
+/** Save a JSON payload as a file download in the browser */
+export function downloadJson(filename: string, data: unknown): void {
+  downloadText(filename, JSON.stringify(data, null, 2), 'application/json');
+}
+
+/** Save text as a file download in the browser */
+export function downloadText(filename: string, text: string, type: string): void {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const getSyncRun = () => api<{ run: SyncRunDto | null }>('/sync/run');
+
+export const pauseFullSync = () =>
+  api<{ run: SyncRunDto }>('/sync/pause', { method: 'POST' });
+
+export const resumeFullSync = () =>
+  api<{ run: SyncRunDto }>('/sync/resume', { method: 'POST' });
+
+export const cancelFullSync = () =>
+  api<{ run: SyncRunDto }>('/sync/cancel', { method: 'POST' });
+
 export const toggleSync = () =>
   api<{ syncEnabled: boolean }>('/sync/toggle', { method: 'POST' });
 
@@ -178,6 +447,129 @@ export const getSyncStats = () =>
     lastSyncAt: string | null;
   }>('/sync/stats');
 
+/** HubSpot API quota usage of the connected portal */
+export interface HubSpotQuotaDto {
+  burstLimit: number;
+  burstRemaining: number;
+  burstIntervalMs: number;
+  /** `null` when HubSpot does not report a daily limit */
+  dailyLimit: number | null;
+  dailyRemaining: number | null;
+  throttledRequests: number;
+  rateLimitedResponses: number;
+  reportedAt: string | null;
+}
+
+export const getHubSpotQuota = () => api<{ quota: HubSpotQuotaDto }>('/sync/quota');
+
+export type WixDeletionAction = 'ignore' | 'mirror_delete' | 'flag_hubspot_property';
+export type HubSpotDeletionAction = 'ignore' | 'mirror_delete' | 'archive_wix_label';
+
+export interface DeletionPolicy {
+  onWixDelete: WixDeletionAction;
+  onHubSpotDelete: HubSpotDeletionAction;
+}
+
+export const getDeletionPolicy = () => api<DeletionPolicy>('/sync/deletion-policy');
+
+export const saveDeletionPolicy = (policy: DeletionPolicy) =>
+  api<DeletionPolicy>('/sync/deletion-policy', { method: 'PUT', body: policy });
+
+export type CompanyMatchBy = 'domain' | 'name';
+
+export interface CompanySyncSettings {
+  enabled: boolean;
+  matchBy: CompanyMatchBy;
+}
+
+export const getCompanySync = () => api<CompanySyncSettings>('/sync/company-sync');
+
+export const saveCompanySync = (settings: CompanySyncSettings) =>
+  api<CompanySyncSettings>('/sync/company-sync', { method: 'PUT', body: settings });
+
+export interface OrderSyncSettings {
+  enabled: boolean;
+  pipelineId: string;
+  dealStage: string;
+}
+
+export interface DealPipelineDto {
+  id: string;
+  label: string;
+  stages: Array<{ id: string; label: string }>;
+}
+
+export const getOrderSync = () => api<OrderSyncSettings>('/sync/order-sync');
+
+export const saveOrderSync = (settings: OrderSyncSettings) =>
+  api<OrderSyncSettings>('/sync/order-sync', { method: 'PUT', body: settings });
+
+export const getDealPipelines = () => api<DealPipelineDto[]>('/sync/order-sync/pipelines');
+
+export type LabelSyncMode = 'off' | 'property' | 'lists';
+
+export interface LabelSyncSettings {
+  mode: LabelSyncMode;
+}
+
+export const getLabelSync = () => api<LabelSyncSettings>('/sync/label-sync');
+
+export const saveLabelSync = (settings: LabelSyncSettings) =>
+  api<LabelSyncSettings>('/sync/label-sync', { method: 'PUT', body: settings });
+
+export interface PhoneRegionSettings {
+  /** ISO country code; '' uses each contact's address country */
+  region: string;
+  /** Regions national phone numbers can be read for */
+  regions: string[];
+}
+
+export const getPhoneRegion = () => api<PhoneRegionSettings>('/sync/phone-region');
+
+export const savePhoneRegion = (region: string) =>
+  api<PhoneRegionSettings>('/sync/phone-region', { method: 'PUT', body: { region } });
+
+/* ── Sync filters ── */
+export type SyncFilterSide = 'wix' | 'hubspot' | 'both';
+export type SyncFilterConditionKind = 'field' | 'label' | 'email_domain' | 'source';
+export type SyncFilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'ends_with'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface SyncFilterConditionDto {
+  kind: SyncFilterConditionKind;
+  field?: string;
+  operator: SyncFilterOperator;
+  value?: string;
+}
+
+export interface SyncFilterDto {
+  _id: string;
+  name: string;
+  side: SyncFilterSide;
+  conditions: SyncFilterConditionDto[];
+  isActive: boolean;
+  order: number;
+}
+
+export type SyncFilterInput = Omit<SyncFilterDto, '_id'>;
+
+export const getSyncFilters = () => api<{ filters: SyncFilterDto[] }>('/sync-filters');
+
+export const createSyncFilter = (filter: SyncFilterInput) =>
+  api<{ filter: SyncFilterDto }>('/sync-filters', { method: 'POST', body: filter });
+
+export const updateSyncFilter = (id: string, filter: SyncFilterInput) =>
+  api<{ filter: SyncFilterDto }>(`/sync-filters/${id}`, { method: 'PUT', body: filter });
+
+export const deleteSyncFilter = (id: string) =>
+  api<{ ok: boolean }>(`/sync-filters/${id}`, { method: 'DELETE' });
+
 /* ── Contacts ── */
 export interface SyncedContact {
   wixContactId: string;
@@ -0,0 +1,181 @@
+// =============================================================================
+// Circuit Breaker Tests (Module 21)
+// =============================================================================
+// Tests: isOutageFailure, guardCall (open / fail fast / half-open probe),
+//        isCircuitOpen, getCircuitStatus
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../config', () => ({
+  __esModule: true,
+  default: { circuitFailureThreshold: 3, circuitCooldownMs: 60_000 },
+}));
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  guardCall,
+  isCircuitOpen,
+  isOutageFailure,
+  getCircuitStatus,
+  resetCircuitBreakers,
+  CircuitOpenError,
+} from '../services/circuitBreaker';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const serverError = () => Object.assign(new Error('Request failed with status code 503'), {
+  response: { status: 503 },
+});
+
+/** Runs `count` failing HubSpot calls for inst-1 */
+async function failCalls(count: number, err: () => unknown = serverError): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await guardCall('inst-1', 'hubspot', async () => {
+      throw err();
+    }).catch(() => undefined);
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  resetCircuitBreakers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// isOutageFailure
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('isOutageFailure', () => {
+  it('should count 5xx responses from either API', () => {
+    expect(isOutageFailure({ response: { status: 502 } })).toBe(true);
+    expect(isOutageFailure({ statusCode: 500, response: { message: 'Internal' } })).toBe(true);
+  });
+
+  it('should count requests that got no answer', () => {
+    expect(isOutageFailure(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isOutageFailure({ isAxiosError: true, message: 'timeout' })).toBe(true);
+  });
+
+  it('should not count answers that prove the API is up', () => {
+    expect(isOutageFailure({ response: { status: 400 } })).toBe(false);
+    expect(isOutageFailure({ statusCode: 404 })).toBe(false);
+    expect(isOutageFailure(new Error('HubSpot not connected'))).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// guardCall
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('guardCall', () => {
+  it('should open after the configured number of outage failures in a row', async () => {
+    await failCalls(2);
+    expect(isCircuitOpen('inst-1')).toBe(false);
+
+    await failCalls(1);
+    expect(isCircuitOpen('inst-1')).toBe(true);
+  });
+
+  it('should fail fast without calling the API while open', async () => {
+    await failCalls(3);
+    const call = jest.fn();
+
+    await expect(guardCall('inst-1', 'hubspot', call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('should reset the count on a success or a client error', async () => {
+    await failCalls(2);
+    await guardCall('inst-1', 'hubspot', async () => 'ok');
+    await failCalls(2);
+    await failCalls(1, () => ({ response: { status: 404 } }));
+    await failCalls(2);
+
+    expect(isCircuitOpen('inst-1')).toBe(false);
+  });
+
+  it('should keep installations and APIs apart', async () => {
+    await failCalls(3);
+
+    await expect(guardCall('inst-2', 'hubspot', async () => 'ok')).resolves.toBe('ok');
+    await expect(guardCall('inst-1', 'wix', async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should close once a probe succeeds after the cooldown', async () => {
+    await failCalls(3);
+    jest.advanceTimersByTime(60_000);
+    expect(isCircuitOpen('inst-1')).toBe(false);
+
+    await expect(guardCall('inst-1', 'hubspot', async () => 'ok')).resolves.toBe('ok');
+    expect(getCircuitStatus('inst-1').hubspot.state).toBe('closed');
+  });
+
+  it('should reopen for another cooldown when the probe fails', async () => {
+    await failCalls(3);
+    jest.advanceTimersByTime(60_000);
+
+    await failCalls(1);
+
+    expect(isCircuitOpen('inst-1')).toBe(true);
+    expect(getCircuitStatus('inst-1').hubspot.retryAt).toBe('2026-01-01T00:02:00.000Z');
+  });
+
+  it('should let only one probe through at a time', async () => {
+    await failCalls(3);
+    jest.advanceTimersByTime(60_000);
+
+    let finishProbe: (v: string) => void = () => undefined;
+    const probe = guardCall('inst-1', 'hubspot', () => new Promise<string>((r) => (finishProbe = r)));
+
+    await expect(guardCall('inst-1', 'hubspot', async () => 'ok')).rejects.toBeInstanceOf(CircuitOpenError);
+    finishProbe('ok');
+    await expect(probe).resolves.toBe('ok');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// getCircuitStatus
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('getCircuitStatus', () => {
+  it('should report closed breakers for an installation never seen', () => {
+    expect(getCircuitStatus('inst-9')).toEqual({
+      hubspot: { state: 'closed', consecutiveFailures: 0, openedAt: null, retryAt: null, lastError: '' },
+      wix: { state: 'closed', consecutiveFailures: 0, openedAt: null, retryAt: null, lastError: '' },
+    });
+  });
+
+  it('should report when an open breaker will let a probe through', async () => {
+    await failCalls(3);
+
+    expect(getCircuitStatus('inst-1').hubspot).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      openedAt: '2026-01-01T00:00:00.000Z',
+      retryAt: '2026-01-01T00:01:00.000Z',
+      lastError: 'Request failed with status code 503',
+    });
+  });
+});
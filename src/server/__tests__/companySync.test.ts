@@ -0,0 +1,241 @@
+// =============================================================================
+// Company Sync Tests (Module 15)
+// =============================================================================
+// Tests: deriveCompanyDomain, resolveCompanyTarget, syncContactCompany
+//        (disabled mode, mapping hit, HubSpot search hit, create, concurrent
+//        mapping, deleted company)
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockMappingFindOne = jest.fn();
+const mockMappingFindOneAndUpdate = jest.fn();
+const mockMappingDeleteOne = jest.fn();
+jest.mock('../models/CompanyMapping', () => ({
+  __esModule: true,
+  default: {
+    findOne: (...args: any[]) => mockMappingFindOne(...args),
+    findOneAndUpdate: (...args: any[]) => mockMappingFindOneAndUpdate(...args),
+    deleteOne: (...args: any[]) => mockMappingDeleteOne(...args),
+  },
+}));
+
+const mockFindCompany = jest.fn();
+const mockCreateCompany = jest.fn();
+const mockAssociate = jest.fn();
+const mockArchiveCompany = jest.fn();
+jest.mock('../services/hubspotCompanies', () => ({
+  __esModule: true,
+  findCompany: (...args: any[]) => mockFindCompany(...args),
+  createCompany: (...args: any[]) => mockCreateCompany(...args),
+  associateContactWithCompany: (...args: any[]) => mockAssociate(...args),
+  archiveCompany: (...args: any[]) => mockArchiveCompany(...args),
+}));
+
+// The real flattener is used; it has no I/O
+jest.mock('../models/FieldMapping', () => ({
+  __esModule: true,
+  default: {},
+  DEFAULT_FIELD_MAPPINGS: [],
+}));
+
+import {
+  deriveCompanyDomain,
+  resolveCompanyTarget,
+  syncContactCompany,
+} from '../services/companySync';
+import { IInstallation } from '../models/Installation';
+
+function makeInstallation(companySync = { enabled: true, matchBy: 'domain' }): IInstallation {
+  return { instanceId: 'inst-1', companySync } as unknown as IInstallation;
+}
+
+const WIX_CONTACT = {
+  info: {
+    company: 'Acme Corp',
+    emails: [{ email: 'jane@acme.com' }],
+  },
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockMappingFindOne.mockResolvedValue(null);
+  mockFindCompany.mockResolvedValue(null);
+  mockCreateCompany.mockResolvedValue({ id: 'co-new', properties: {} });
+  mockMappingFindOneAndUpdate.mockImplementation((_filter: any, update: any) =>
+    Promise.resolve({ _id: 'm-1', ...update.$setOnInsert }),
+  );
+  mockAssociate.mockResolvedValue(undefined);
+  mockArchiveCompany.mockResolvedValue(undefined);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// deriveCompanyDomain / resolveCompanyTarget
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('deriveCompanyDomain', () => {
+  it('prefers the website host without www', () => {
+    expect(deriveCompanyDomain({ website: 'https://www.Acme.com/about', email: 'a@other.io' }))
+      .toBe('acme.com');
+  });
+
+  it('accepts a website without a scheme', () => {
+    expect(deriveCompanyDomain({ website: 'acme.com' })).toBe('acme.com');
+  });
+
+  it('falls back to the email domain', () => {
+    expect(deriveCompanyDomain({ website: 'not a url', email: 'jane@Acme.com' })).toBe('acme.com');
+  });
+
+  it('ignores free mailbox providers', () => {
+    expect(deriveCompanyDomain({ email: 'jane@gmail.com' })).toBe('');
+  });
+});
+
+describe('resolveCompanyTarget', () => {
+  it('keys by domain and names the company from the company field', () => {
+    expect(resolveCompanyTarget({ company: 'Acme Corp', email: 'jane@acme.com' }, 'domain'))
+      .toEqual({ key: 'acme.com', properties: { name: 'Acme Corp', domain: 'acme.com' } });
+  });
+
+  it('keys by the normalised company name', () => {
+    expect(resolveCompanyTarget({ company: '  Acme   Corp ' }, 'name'))
+      .toEqual({ key: 'acme corp', properties: { name: 'Acme Corp' } });
+  });
+
+  it('returns null when the match value is missing', () => {
+    expect(resolveCompanyTarget({ company: 'Acme' }, 'domain')).toBeNull();
+    expect(resolveCompanyTarget({ email: 'jane@acme.com' }, 'name')).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// syncContactCompany
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('syncContactCompany', () => {
+  it('does nothing when company sync is disabled', async () => {
+    const installation = makeInstallation({ enabled: false, matchBy: 'domain' });
+
+    await expect(syncContactCompany(installation, 'hs-1', WIX_CONTACT)).resolves.toBeNull();
+    expect(mockMappingFindOne).not.toHaveBeenCalled();
+  });
+
+  it('uses the stored mapping without searching HubSpot', async () => {
+    mockMappingFindOne.mockResolvedValue({ _id: 'm-1', hubspotCompanyId: 'co-1' });
+
+    const result = await syncContactCompany(makeInstallation(), 'hs-1', WIX_CONTACT);
+
+    expect(result).toEqual({ hubspotCompanyId: 'co-1', action: 'linked' });
+    expect(mockFindCompany).not.toHaveBeenCalled();
+    expect(mockAssociate).toHaveBeenCalledWith('inst-1', 'hs-1', 'co-1');
+  });
+
+  it('links to an existing HubSpot company found by domain and remembers it', async () => {
+    mockFindCompany.mockResolvedValue({ id: 'co-2', properties: {} });
+
+    const result = await syncContactCompany(makeInstallation(), 'hs-1', WIX_CONTACT);
+
+    expect(mockFindCompany).toHaveBeenCalledWith('inst-1', 'domain', 'acme.com');
+    expect(mockCreateCompany).not.toHaveBeenCalled();
+    expect(mockMappingFindOneAndUpdate).toHaveBeenCalledWith(
+      { instanceId: 'inst-1', matchBy: 'domain', companyKey: 'acme.com' },
+      expect.objectContaining({ $setOnInsert: expect.objectContaining({ hubspotCompanyId: 'co-2' }) }),
+      { upsert: true, new: true },
+    );
+    expect(result).toEqual({ hubspotCompanyId: 'co-2', action: 'linked' });
+  });
+
+  it('creates the company when HubSpot has none', async () => {
+    const result = await syncContactCompany(makeInstallation(), 'hs-1', WIX_CONTACT);
+
+    expect(mockCreateCompany).toHaveBeenCalledWith('inst-1', { name: 'Acme Corp', domain: 'acme.com' });
+    expect(result).toEqual({ hubspotCompanyId: 'co-new', action: 'created' });
+    expect(mockAssociate).toHaveBeenCalledWith('inst-1', 'hs-1', 'co-new');
+  });
+
+  it('searches by the original company name in name mode', async () => {
+    await syncContactCompany(makeInstallation({ enabled: true, matchBy: 'name' }), 'hs-1', WIX_CONTACT);
+
+    expect(mockFindCompany).toHaveBeenCalledWith('inst-1', 'name', 'Acme Corp');
+  });
+
+  it('associates with the company a concurrent sync mapped first', async () => {
+    mockMappingFindOneAndUpdate.mockResolvedValue({ _id: 'm-1', hubspotCompanyId: 'co-first' });
+
+    const result = await syncContactCompany(makeInstallation(), 'hs-1', WIX_CONTACT);
+
+    expect(result).toEqual({ hubspotCompanyId: 'co-first', action: 'linked' });
+    expect(mockAssociate).toHaveBeenCalledWith('inst-1', 'hs-1', 'co-first');
+    expect(mockArchiveCompany).toHaveBeenCalledWith('inst-1', 'co-new');
+  });
+
+  it('does not archive an existing company when a concurrent sync mapped another first', async () => {
+    mockFindCompany.mockResolvedValue({ id: 'co-found', properties: {} });
+    mockMappingFindOneAndUpdate.mockResolvedValue({ _id: 'm-1', hubspotCompanyId: 'co-first' });
+
+    await syncContactCompany(makeInstallation(), 'hs-1', WIX_CONTACT);
+
+    expect(mockArchiveCompany).not.toHaveBeenCalled();
+  });
+
+  it('still associates when the duplicate company cannot be archived', async () => {
+    mockMappingFindOneAndUpdate.mockResolvedValue({ _id: 'm-1', hubspotCompanyId: 'co-first' });
+    mockArchiveCompany.mockRejectedValue(new Error('HubSpot 500'));
+
+    const result = await syncContactCompany(makeInstallation(), 'hs-1', WIX_CONTACT);
+
+    expect(result?.hubspotCompanyId).toBe('co-first');
+    expect(mockAssociate).toHaveBeenCalledWith('inst-1', 'hs-1', 'co-first');
+  });
+
+  it('re-reads the mapping after a duplicate-key race', async () => {
+    mockMappingFindOneAndUpdate.mockRejectedValue(Object.assign(new Error('dup'), { code: 11000 }));
+    mockMappingFindOne
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ _id: 'm-1', hubspotCompanyId: 'co-first' });
+
+    const result = await syncContactCompany(makeInstallation(), 'hs-1', WIX_CONTACT);
+
+    expect(result?.hubspotCompanyId).toBe('co-first');
+  });
+
+  it('drops a mapping whose company was deleted and resolves again', async () => {
+    mockMappingFindOne
+      .mockResolvedValueOnce({ _id: 'm-stale', hubspotCompanyId: 'co-gone' })
+      .mockResolvedValueOnce(null);
+    mockAssociate
+      .mockRejectedValueOnce({ response: { status: 404 } })
+      .mockResolvedValueOnce(undefined);
+
+    const result = await syncContactCompany(makeInstallation(), 'hs-1', WIX_CONTACT);
+
+    expect(mockMappingDeleteOne).toHaveBeenCalledWith({ _id: 'm-stale' });
+    expect(result).toEqual({ hubspotCompanyId: 'co-new', action: 'created' });
+  });
+
+  it('skips contacts without a company domain', async () => {
+    const result = await syncContactCompany(makeInstallation(), 'hs-1', {
+      info: { emails: [{ email: 'jane@gmail.com' }] },
+    });
+
+    expect(result).toBeNull();
+    expect(mockCreateCompany).not.toHaveBeenCalled();
+  });
+});
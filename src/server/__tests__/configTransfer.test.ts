@@ -0,0 +1,489 @@
+// =============================================================================
+// Config Transfer Tests (Module 19)
+// =============================================================================
+// Tests: exportConfig, serializeConfig / parseConfig round trips and layout
+//        errors, previewConfigImport checks against the target portal,
+//        applyConfigImport
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockRulesFind = jest.fn();
+jest.mock('../models/FieldMapping', () => ({
+  __esModule: true,
+  default: { find: (...args: any[]) => mockRulesFind(...args) },
+  DEFAULT_FIELD_MAPPINGS: [],
+}));
+
+const mockFormAggregate = jest.fn();
+const mockFormDistinct = jest.fn();
+const mockFormUpdateMany = jest.fn();
+jest.mock('../models/FormSubmission', () => ({
+  __esModule: true,
+  default: {
+    aggregate: (...args: any[]) => mockFormAggregate(...args),
+    distinct: (...args: any[]) => mockFormDistinct(...args),
+    updateMany: (...args: any[]) => mockFormUpdateMany(...args),
+  },
+}));
+
+const mockLoadRules = jest.fn();
+const mockLoadWixKeys = jest.fn();
+jest.mock('../services/fieldMappingEngine', () => ({
+  ...jest.requireActual('../services/fieldMappingEngine'),
+  loadMappingRules: (...args: any[]) => mockLoadRules(...args),
+  loadWixExtendedFieldKeys: (...args: any[]) => mockLoadWixKeys(...args),
+}));
+
+const mockReplaceRules = jest.fn();
+const mockRecordVersion = jest.fn();
+jest.mock('../services/mappingVersions', () => ({
+  ...jest.requireActual('../services/mappingVersions'),
+  replaceMappingRules: (...args: any[]) => mockReplaceRules(...args),
+  recordMappingVersion: (...args: any[]) => mockRecordVersion(...args),
+}));
+
+const mockFetchProperties = jest.fn();
+const mockCreateProperty = jest.fn();
+jest.mock('../services/hubspotProperties', () => ({
+  __esModule: true,
+  fetchCustomProperties: (...args: any[]) => mockFetchProperties(...args),
+  createCustomProperty: (...args: any[]) => mockCreateProperty(...args),
+  WIX_DELETED_PROPERTY: { name: 'wix_contact_deleted' },
+}));
+
+const mockListPipelines = jest.fn();
+jest.mock('../services/hubspotDeals', () => ({
+  __esModule: true,
+  listDealPipelines: (...args: any[]) => mockListPipelines(...args),
+}));
+
+const mockEnableLabelProperty = jest.fn();
+jest.mock('../services/labelSync', () => ({
+  __esModule: true,
+  enableLabelProperty: (...args: any[]) => mockEnableLabelProperty(...args),
+}));
+
+const mockListForms = jest.fn();
+jest.mock('../services/hubspotService', () => ({
+  __esModule: true,
+  listForms: (...args: any[]) => mockListForms(...args),
+}));
+
+import {
+  exportConfig,
+  serializeConfig,
+  parseConfig,
+  previewConfigImport,
+  applyConfigImport,
+  ConfigDocument,
+  CONFIG_DOCUMENT_KIND,
+  CONFIG_SCHEMA_VERSION,
+} from '../services/configTransfer';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fixtures
+// ─────────────────────────────────────────────────────────────────────────────
+
+function storedRule(overrides: Record<string, unknown> = {}) {
+  return {
+    _id: 'fm-1',
+    instanceId: 'inst-1',
+    wixField: 'firstName',
+    hubspotField: 'firstname',
+    direction: 'bidirectional',
+    transform: 'none',
+    transforms: [],
+    optionMap: [],
+    conflictStrategy: 'newest_wins',
+    isDefault: true,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+function makeInstallation(overrides: Record<string, unknown> = {}): any {
+  return {
+    instanceId: 'inst-1',
+    connected: true,
+    hubspotPortalId: '12345',
+    hubspotAccessToken: 'secret-token',
+    syncEnabled: true,
+    widgetFormId: 'form-a',
+    deletionPolicy: { onWixDelete: 'ignore', onHubSpotDelete: 'ignore' },
+    companySync: { enabled: false, matchBy: 'domain' },
+    labelSync: { mode: 'off' },
+    orderSync: { enabled: false, pipelineId: '', dealStage: '' },
+    phoneRegion: '',
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+function document(overrides: Partial<ConfigDocument> = {}): ConfigDocument {
+  return { kind: CONFIG_DOCUMENT_KIND, schemaVersion: CONFIG_SCHEMA_VERSION, ...overrides } as ConfigDocument;
+}
+
+const PORTAL_PROPERTIES = [
+  { value: 'firstname', label: 'First Name', type: 'string' },
+  { value: 'company', label: 'Company', type: 'string' },
+  { value: 'jobtitle', label: 'Job Title', type: 'string' },
+];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockRulesFind.mockResolvedValue([storedRule()]);
+  mockLoadRules.mockResolvedValue([storedRule()]);
+  mockLoadWixKeys.mockResolvedValue(new Set());
+  mockFormAggregate.mockResolvedValue([]);
+  mockFormDistinct.mockResolvedValue(['wix-form-1']);
+  mockFetchProperties.mockResolvedValue(PORTAL_PROPERTIES);
+  mockListForms.mockResolvedValue([
+    { id: 'form-a', name: 'Contact us' },
+    { id: 'form-b', name: 'Newsletter' },
+  ]);
+  mockListPipelines.mockResolvedValue([{ id: 'default', label: 'Sales', stages: [{ id: 'won', label: 'Won' }] }]);
+  mockRecordVersion.mockResolvedValue({ version: 2 });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// exportConfig / serializeConfig / parseConfig
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('exportConfig', () => {
+  it('exports rules, form mappings, widget and settings without connection details', async () => {
+    mockLoadRules.mockResolvedValue([
+      storedRule(),
+      storedRule({ wixField: 'company', hubspotField: 'company', isDefault: false, transform: 'trim' }),
+    ]);
+    mockFormAggregate.mockResolvedValue([
+      { _id: 'wix-form-1', wixFormName: 'Contact', hubspotFormGuid: 'form-b' },
+    ]);
+
+    const doc = await exportConfig(makeInstallation({ phoneRegion: 'GB' }));
+
+    expect(doc).toEqual(
+      expect.objectContaining({
+        kind: CONFIG_DOCUMENT_KIND,
+        schemaVersion: CONFIG_SCHEMA_VERSION,
+        fieldMappings: [
+          {
+            wixField: 'firstName',
+            hubspotField: 'firstname',
+            direction: 'bidirectional',
+            transform: 'none',
+            conflictStrategy: 'newest_wins',
+          },
+          {
+            wixField: 'company',
+            hubspotField: 'company',
+            direction: 'bidirectional',
+            transform: 'trim',
+            conflictStrategy: 'newest_wins',
+          },
+        ],
+        formMappings: [{ wixFormId: 'wix-form-1', wixFormName: 'Contact', hubspotFormGuid: 'form-b' }],
+        widget: { formId: 'form-a' },
+      }),
+    );
+    expect(doc.sync).toEqual(expect.objectContaining({ syncEnabled: true, phoneRegion: 'GB' }));
+    expect(JSON.stringify(doc)).not.toMatch(/secret-token|12345|inst-1/);
+  });
+});
+
+describe('parseConfig', () => {
+  it.each(['json', 'yaml'] as const)('reads back an exported %s document', async (format) => {
+    const doc = await exportConfig(makeInstallation());
+
+    const parsed = parseConfig(serializeConfig(doc, format), format);
+
+    expect(parsed).toEqual({ ok: true, document: doc });
+  });
+
+  it('writes YAML in block style', async () => {
+    const text = serializeConfig(await exportConfig(makeInstallation()), 'yaml');
+
+    expect(text).toMatch(/^kind: wix-hubspot-config$/m);
+    expect(text).toMatch(/^ {2}- wixField: firstName$/m);
+  });
+
+  it('fills in defaults for optional rule settings', () => {
+    const parsed = parseConfig(
+      'kind: wix-hubspot-config\nschemaVersion: 1\nfieldMappings:\n  - hubspotField: company\n    wixField: company\n    direction: wix_to_hubspot\n',
+      'yaml',
+    );
+
+    expect(parsed.ok && parsed.document.fieldMappings).toEqual([
+      { wixField: 'company', hubspotField: 'company', direction: 'wix_to_hubspot', transform: 'none' },
+    ]);
+  });
+
+  it('reports syntax errors', () => {
+    const parsed = parseConfig('{ "kind": ', 'json');
+
+    expect(parsed.ok).toBe(false);
+    expect(!parsed.ok && parsed.errors[0]).toEqual(
+      expect.objectContaining({ field: 'document', message: expect.stringContaining('Not valid JSON') }),
+    );
+  });
+
+  it('reports layout errors with their document path', () => {
+    const parsed = parseConfig(
+      JSON.stringify({
+        kind: CONFIG_DOCUMENT_KIND,
+        schemaVersion: 1,
+        fieldMappings: [{ wixField: 'company', hubspotFeild: 'company', direction: 'sideways' }],
+      }),
+      'json',
+    );
+
+    expect(!parsed.ok && parsed.errors.map((e) => e.field)).toEqual(
+      expect.arrayContaining(['fieldMappings[0].hubspotField', 'fieldMappings[0].direction', 'fieldMappings[0]']),
+    );
+  });
+
+  it('rejects other documents and newer versions', () => {
+    const other = parseConfig('kind: something-else\nschemaVersion: 1\n', 'yaml');
+    const newer = parseConfig(`kind: ${CONFIG_DOCUMENT_KIND}\nschemaVersion: 2\n`, 'yaml');
+
+    expect(!other.ok && other.errors[0].field).toBe('kind');
+    expect(!newer.ok && newer.errors[0].message).toMatch(/newer than this app supports/);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// previewConfigImport
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('previewConfigImport', () => {
+  it('lists rule, form mapping and setting changes', async () => {
+    mockFormAggregate.mockResolvedValue([{ _id: 'wix-form-1', wixFormName: 'Contact', hubspotFormGuid: 'form-a' }]);
+
+    const preview = await previewConfigImport(
+      makeInstallation(),
+      document({
+        fieldMappings: [
+          { wixField: 'firstName', hubspotField: 'firstname', direction: 'bidirectional', transform: 'trim' },
+          { wixField: 'jobTitle', hubspotField: 'jobtitle', direction: 'wix_to_hubspot', transform: 'none' },
+        ],
+        formMappings: [{ wixFormId: 'wix-form-1', hubspotFormGuid: 'form-b' }],
+        widget: { formId: 'form-b' },
+        sync: { companySync: { enabled: true, matchBy: 'name' }, syncEnabled: true, phoneRegion: 'gb' },
+      }),
+    );
+
+    expect(preview.ok).toBe(true);
+    expect(preview.errors).toEqual([]);
+    expect(preview.changes.fieldMappings?.added.map((r) => r.wixField)).toEqual(['jobTitle']);
+    expect(preview.changes.fieldMappings?.changed[0].changes).toEqual([
+      { setting: 'transform', before: 'none', after: 'trim' },
+    ]);
+    expect(preview.changes.formMappings).toEqual([{ wixFormId: 'wix-form-1', before: 'form-a', after: 'form-b' }]);
+    expect(preview.changes.settings).toEqual([
+      { setting: 'widget.formId', before: 'form-a', after: 'form-b' },
+      {
+        setting: 'sync.companySync',
+        before: { enabled: false, matchBy: 'domain' },
+        after: { enabled: true, matchBy: 'name' },
+      },
+      { setting: 'sync.phoneRegion', before: '', after: 'GB' },
+    ]);
+  });
+
+  it('validates rules against the portal properties', async () => {
+    const preview = await previewConfigImport(
+      makeInstallation(),
+      document({
+        fieldMappings: [
+          { wixField: 'company', hubspotField: 'company_size', direction: 'wix_to_hubspot', transform: 'none' },
+        ],
+      }),
+    );
+
+    expect(preview.ok).toBe(false);
+    expect(preview.errors).toEqual([
+      expect.objectContaining({
+        field: 'fieldMappings[0].hubspotField',
+        message: expect.stringContaining('"company_size" does not exist'),
+      }),
+    ]);
+  });
+
+  it('checks forms and deal stages against the portal', async () => {
+    const preview = await previewConfigImport(
+      makeInstallation(),
+      document({
+        formMappings: [{ wixFormId: 'wix-form-2', hubspotFormGuid: 'form-x' }],
+        widget: { formId: 'form-y' },
+        sync: { orderSync: { enabled: true, pipelineId: 'default', dealStage: 'lost' } },
+      }),
+    );
+
+    expect(preview.errors.map((e) => e.field)).toEqual([
+      'formMappings[0].hubspotFormGuid',
+      'widget.formId',
+      'sync.orderSync.dealStage',
+    ]);
+    expect(preview.warnings).toEqual([
+      expect.objectContaining({ field: 'formMappings[0].wixFormId', message: expect.stringContaining('no submissions') }),
+    ]);
+  });
+
+  it('skips HubSpot checks with a warning while disconnected, but rejects settings that need HubSpot', async () => {
+    const preview = await previewConfigImport(
+      makeInstallation({ connected: false }),
+      document({
+        fieldMappings: [
+          { wixField: 'company', hubspotField: 'anything', direction: 'wix_to_hubspot', transform: 'none' },
+        ],
+        sync: { labelSync: { mode: 'lists' }, phoneRegion: 'XX' },
+      }),
+    );
+
+    expect(mockFetchProperties).not.toHaveBeenCalled();
+    expect(preview.warnings.map((w) => w.field)).toEqual(['document']);
+    expect(preview.errors.map((e) => e.field)).toEqual(['sync.phoneRegion', 'sync.labelSync.mode']);
+  });
+
+  it('carries on without form checks when HubSpot forms cannot be listed', async () => {
+    mockListForms.mockRejectedValue(new Error('403 FORBIDDEN'));
+
+    const preview = await previewConfigImport(makeInstallation(), document({ widget: { formId: 'form-z' } }));
+
+    expect(preview.ok).toBe(true);
+    expect(preview.warnings[0].message).toMatch(/Could not list HubSpot forms/);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// applyConfigImport
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('applyConfigImport', () => {
+  it('replaces the rules, maps forms, saves settings and records a version', async () => {
+    const installation = makeInstallation();
+
+    const result = await applyConfigImport(
+      installation,
+      document({
+        fieldMappings: [
+          { wixField: 'firstName', hubspotField: 'firstname', direction: 'bidirectional', transform: 'trim' },
+          { wixField: 'company', hubspotField: 'company', direction: 'wix_to_hubspot', transform: 'none' },
+        ],
+        formMappings: [{ wixFormId: 'wix-form-1', hubspotFormGuid: 'form-b' }],
+        sync: {
+          syncEnabled: false,
+          deletionPolicy: { onWixDelete: 'flag_hubspot_property', onHubSpotDelete: 'ignore' },
+          phoneRegion: 'de',
+        },
+      }),
+      { author: 'user-1' },
+    );
+
+    expect(result.applied).toBe(true);
+    expect(mockReplaceRules).toHaveBeenCalledWith('inst-1', [
+      expect.objectContaining({ wixField: 'firstName', transform: 'trim', isDefault: true, isActive: true }),
+      expect.objectContaining({ wixField: 'company', conflictStrategy: 'newest_wins', isDefault: false }),
+    ]);
+    expect(mockFormUpdateMany).toHaveBeenCalledWith(
+      { instanceId: 'inst-1', wixFormId: 'wix-form-1' },
+      { hubspotFormGuid: 'form-b' },
+    );
+    expect(mockCreateProperty).toHaveBeenCalledWith('inst-1', { name: 'wix_contact_deleted' });
+    expect(installation).toEqual(
+      expect.objectContaining({
+        syncEnabled: false,
+        phoneRegion: 'DE',
+        deletionPolicy: { onWixDelete: 'flag_hubspot_property', onHubSpotDelete: 'ignore' },
+        widgetFormId: 'form-a',
+      }),
+    );
+    expect(installation.save).toHaveBeenCalled();
+    expect(mockRecordVersion).toHaveBeenCalledWith('inst-1', {
+      author: 'user-1',
+      comment: 'Imported configuration',
+    });
+  });
+
+  it('sets label property mode up after the rules are in place', async () => {
+    const order: string[] = [];
+    mockReplaceRules.mockImplementation(async () => order.push('rules'));
+    mockEnableLabelProperty.mockImplementation(async () => order.push('label property'));
+
+    await applyConfigImport(
+      makeInstallation(),
+      document({
+        fieldMappings: [{ wixField: 'labelIds', hubspotField: 'company', direction: 'bidirectional', transform: 'none' }],
+        sync: { labelSync: { mode: 'property' } },
+      }),
+      { author: 'user-1', comment: 'From the template site' },
+    );
+
+    expect(order).toEqual(['rules', 'label property']);
+    expect(mockRecordVersion).toHaveBeenCalledWith('inst-1', { author: 'user-1', comment: 'From the template site' });
+  });
+
+  it('leaves out sections the document does not have', async () => {
+    const installation = makeInstallation();
+
+    await applyConfigImport(installation, document({ widget: { formId: 'form-b' } }), { author: 'user-1' });
+
+    expect(installation.widgetFormId).toBe('form-b');
+    expect(mockReplaceRules).not.toHaveBeenCalled();
+    expect(mockFormUpdateMany).not.toHaveBeenCalled();
+    expect(mockRecordVersion).not.toHaveBeenCalled();
+  });
+
+  it('changes nothing when the document has errors', async () => {
+    const installation = makeInstallation();
+
+    const result = await applyConfigImport(
+      installation,
+      document({
+        fieldMappings: [{ wixField: 'company', hubspotField: 'nope', direction: 'wix_to_hubspot', transform: 'none' }],
+        widget: { formId: 'form-b' },
+      }),
+      { author: 'user-1' },
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.preview.errors).toHaveLength(1);
+    expect(mockReplaceRules).not.toHaveBeenCalled();
+    expect(installation.save).not.toHaveBeenCalled();
+    expect(installation.widgetFormId).toBe('form-a');
+  });
+
+  it('keeps the existing rules when the document maps one pair twice', async () => {
+    const result = await applyConfigImport(
+      makeInstallation(),
+      document({
+        fieldMappings: [
+          { wixField: 'company', hubspotField: 'company', direction: 'wix_to_hubspot', transform: 'none' },
+          { wixField: 'company', hubspotField: 'company', direction: 'hubspot_to_wix', transform: 'none' },
+        ],
+      }),
+      { author: 'user-1' },
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.preview.errors[0].message).toContain('Duplicate mapping');
+    expect(mockReplaceRules).not.toHaveBeenCalled();
+    expect(mockRecordVersion).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,8 @@
 // =============================================================================
 // Deduplication Guard Tests (Module 5-A)
 // =============================================================================
-// Tests: registerSyncId, isSyncEcho, extractSyncId, clearMemoryCache,
-//        memoryCacheSize
+// Tests: registerSyncId, isSyncEcho, extractSyncId, deletionSyncId,
+//        clearMemoryCache, memoryCacheSize
 // =============================================================================
 
 process.env.ENCRYPTION_KEY = 'a'.repeat(64);
@@ -19,9 +19,9 @@ jest.mock('../models/SyncDedupeLog', () => {
   return {
     __esModule: true,
     default: {
-      create: jest.fn(async (doc: any) => {
-        store.set(doc.syncId, doc);
-        return doc;
+      updateOne: jest.fn(async (filter: any, update: any) => {
+        store.set(filter.syncId, { ...store.get(filter.syncId), ...filter, ...update.$set });
+        return { acknowledged: true };
       }),
       findOne: jest.fn((query: any) => ({
         lean: jest.fn(async () => store.get(query.syncId) ?? null),
@@ -45,6 +45,7 @@ import {
   registerSyncId,
   isSyncEcho,
   extractSyncId,
+  deletionSyncId,
   clearMemoryCache,
   memoryCacheSize,
 } from '../services/dedupeGuard';
@@ -75,16 +76,34 @@ describe('registerSyncId', () => {
 
   it('should persist the syncId to the database', async () => {
     await registerSyncId('inst-1', 'hubspot', 'c-1', 'db-test-id');
-    expect(SyncDedupeLog.create).toHaveBeenCalledWith(
-      expect.objectContaining({
-        syncId: 'db-test-id',
-        instanceId: 'inst-1',
-        side: 'hubspot',
-        contactId: 'c-1',
-      }),
+    expect(SyncDedupeLog.updateOne).toHaveBeenCalledWith(
+      { syncId: 'db-test-id' },
+      {
+        $set: expect.objectContaining({
+          instanceId: 'inst-1',
+          side: 'hubspot',
+          contactId: 'c-1',
+        }),
+      },
+      { upsert: true },
     );
   });
 
+  it('should refresh the expiry when the same syncId is registered again', async () => {
+    const store = (SyncDedupeLog as any)._store;
+    await registerSyncId('inst-1', 'wix', 'c-1', 'repeat-id');
+    const firstExpiry = store.get('repeat-id').expiresAt.getTime();
+
+    jest.spyOn(Date, 'now').mockReturnValue(firstExpiry);
+    try {
+      await registerSyncId('inst-1', 'wix', 'c-1', 'repeat-id');
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    expect(store.get('repeat-id').expiresAt.getTime()).toBeGreaterThan(firstExpiry);
+  });
+
   it('should store the syncId in the in-memory cache', async () => {
     const id = await registerSyncId('inst-1', 'hubspot', 'c-1');
     expect(memoryCacheSize()).toBe(1);
@@ -169,6 +188,19 @@ describe('extractSyncId', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// deletionSyncId
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('deletionSyncId', () => {
+  it('should not treat one site\'s deletion as an echo on another site', async () => {
+    await registerSyncId('inst-1', 'wix', 'c-1', deletionSyncId('inst-1', 'wix', 'c-1'));
+
+    expect(await isSyncEcho(deletionSyncId('inst-1', 'wix', 'c-1'))).toBe(true);
+    expect(await isSyncEcho(deletionSyncId('inst-2', 'wix', 'c-1'))).toBe(false);
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // clearMemoryCache / memoryCacheSize
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,160 @@
+// =============================================================================
+// Delta Sync Scheduler Tests (Module 14)
+// =============================================================================
+// Tests: triggerDeltaSync (overlap guard), runScheduledDeltaSyncs (eligible
+//        installations, failure isolation), start/stop lifecycle
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockConfig = { deltaSyncIntervalMs: 900_000 };
+jest.mock('../config', () => ({
+  __esModule: true,
+  default: mockConfig,
+}));
+
+const mockInstallationFind = jest.fn();
+jest.mock('../models/Installation', () => ({
+  __esModule: true,
+  default: { find: (...args: any[]) => mockInstallationFind(...args) },
+}));
+
+const mockRunDeltaSync = jest.fn();
+jest.mock('../services/syncOrchestrator', () => ({
+  __esModule: true,
+  runDeltaSync: (...args: any[]) => mockRunDeltaSync(...args),
+}));
+
+import {
+  triggerDeltaSync,
+  isDeltaSyncRunning,
+  runScheduledDeltaSyncs,
+  startDeltaSyncScheduler,
+  stopDeltaSyncScheduler,
+  isDeltaSyncSchedulerRunning,
+} from '../services/deltaSyncScheduler';
+
+const RESULT = { synced: 1, skipped: 0, errors: 0, total: 1, durationMs: 5, cursors: {} };
+
+function makeInstallation(instanceId: string): any {
+  return { instanceId, connected: true, syncEnabled: true };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockRunDeltaSync.mockResolvedValue(RESULT);
+  mockConfig.deltaSyncIntervalMs = 900_000;
+});
+
+afterEach(() => {
+  stopDeltaSyncScheduler();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// triggerDeltaSync
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('triggerDeltaSync', () => {
+  it('runs the delta sync and returns its result', async () => {
+    const installation = makeInstallation('inst-1');
+
+    const result = await triggerDeltaSync(installation);
+
+    expect(result).toBe(RESULT);
+    expect(mockRunDeltaSync).toHaveBeenCalledWith(installation);
+    expect(isDeltaSyncRunning('inst-1')).toBe(false);
+  });
+
+  it('returns null while a run for the same installation is in progress', async () => {
+    let release!: () => void;
+    mockRunDeltaSync.mockImplementationOnce(
+      () => new Promise((resolve) => { release = () => resolve(RESULT); }),
+    );
+    const installation = makeInstallation('inst-1');
+
+    const first = triggerDeltaSync(installation);
+    expect(isDeltaSyncRunning('inst-1')).toBe(true);
+    await expect(triggerDeltaSync(installation)).resolves.toBeNull();
+
+    release();
+    await expect(first).resolves.toBe(RESULT);
+    expect(mockRunDeltaSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the guard when the run throws', async () => {
+    mockRunDeltaSync.mockRejectedValueOnce(new Error('boom'));
+
+    await expect(triggerDeltaSync(makeInstallation('inst-1'))).rejects.toThrow('boom');
+    expect(isDeltaSyncRunning('inst-1')).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// runScheduledDeltaSyncs
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('runScheduledDeltaSyncs', () => {
+  it('syncs every connected installation with sync enabled', async () => {
+    mockInstallationFind.mockResolvedValue([makeInstallation('inst-1'), makeInstallation('inst-2')]);
+
+    const count = await runScheduledDeltaSyncs();
+
+    expect(mockInstallationFind).toHaveBeenCalledWith({ connected: true, syncEnabled: true });
+    expect(count).toBe(2);
+    expect(mockRunDeltaSync).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps going when one installation fails', async () => {
+    mockInstallationFind.mockResolvedValue([makeInstallation('inst-1'), makeInstallation('inst-2')]);
+    mockRunDeltaSync.mockRejectedValueOnce(new Error('HubSpot down'));
+
+    const count = await runScheduledDeltaSyncs();
+
+    expect(count).toBe(1);
+    expect(mockRunDeltaSync).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns 0 when the installation lookup fails', async () => {
+    mockInstallationFind.mockRejectedValue(new Error('Mongo down'));
+
+    await expect(runScheduledDeltaSyncs()).resolves.toBe(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lifecycle
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('startDeltaSyncScheduler / stopDeltaSyncScheduler', () => {
+  it('starts and stops the interval', () => {
+    startDeltaSyncScheduler();
+    expect(isDeltaSyncSchedulerRunning()).toBe(true);
+
+    stopDeltaSyncScheduler();
+    expect(isDeltaSyncSchedulerRunning()).toBe(false);
+  });
+
+  it('does not start when the interval is 0', () => {
+    mockConfig.deltaSyncIntervalMs = 0;
+
+    startDeltaSyncScheduler();
+
+    expect(isDeltaSyncSchedulerRunning()).toBe(false);
+  });
+});
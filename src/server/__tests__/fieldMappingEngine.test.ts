@@ -1,7 +1,8 @@
 // =============================================================================
 // Field Mapping Engine Tests (Module 6)
 // =============================================================================
-// Tests: wixToHubSpot, hubSpotToWix, applyTransform, validateRules,
+// Tests: wixToHubSpot, hubSpotToWix, applyTransform, applyTransformChain,
+//        applyOptionMap, combineFields, splitValue, validateRules,
 //        flattenWixContact, isUndeletableDefault, getWixFieldRegistry
 // =============================================================================
 
@@ -20,6 +21,7 @@ jest.mock('../models/FieldMapping', () => {
     deleteMany: jest.fn().mockResolvedValue({}),
     insertMany: jest.fn().mockResolvedValue([]),
     bulkWrite: jest.fn().mockResolvedValue({}),
+    updateOne: jest.fn().mockResolvedValue({}),
   };
 
   // Re-export DEFAULT_FIELD_MAPPINGS from the real module
@@ -46,6 +48,12 @@ jest.mock('../services/hubspotProperties', () => ({
   fetchCustomProperties: jest.fn().mockResolvedValue([]),
 }));
 
+const mockListWixExtendedFields = jest.fn();
+jest.mock('../services/wixContacts', () => ({
+  __esModule: true,
+  listWixExtendedFields: (...args: any[]) => mockListWixExtendedFields(...args),
+}));
+
 jest.mock('../utils/logger', () => ({
   __esModule: true,
   default: {
@@ -58,12 +66,21 @@ jest.mock('../utils/logger', () => ({
 
 import {
   applyTransform,
+  applyTransformChain,
+  applyOptionMap,
+  indexPropertyOptions,
+  combineFields,
+  splitValue,
+  isValidationWarning,
   wixToHubSpot,
   hubSpotToWix,
   validateRules,
   flattenWixContact,
   isUndeletableDefault,
   getWixFieldRegistry,
+  loadWixFieldRegistry,
+  loadWixExtendedFieldKeys,
+  pickExtendedFields,
   clearAllRulesCache,
   loadMappingRules,
   saveMappingRules,
@@ -71,6 +88,7 @@ import {
   invalidateRulesCache,
 } from '../services/fieldMappingEngine';
 import { IFieldMapping } from '../models/FieldMapping';
+import { IInstallation } from '../models/Installation';
 
 beforeEach(() => {
   clearAllRulesCache();
@@ -103,15 +121,50 @@ describe('applyTransform', () => {
   });
 
   it('should convert phone to E.164 (US number without country code)', () => {
-    expect(applyTransform('(555) 123-4567', 'phone_e164')).toBe('+15551234567');
+    expect(applyTransform('(555) 123-4567', 'phone_e164', { phoneRegion: 'US' })).toBe('+15551234567');
   });
 
   it('should convert phone to E.164 (US number with country code)', () => {
-    expect(applyTransform('15551234567', 'phone_e164')).toBe('+15551234567');
+    expect(applyTransform('15551234567', 'phone_e164', { phoneRegion: 'US' })).toBe('+15551234567');
   });
 
   it('should convert phone with dashes', () => {
-    expect(applyTransform('555-123-4567', 'phone_e164')).toBe('+15551234567');
+    expect(applyTransform('555-123-4567', 'phone_e164', { phoneRegion: 'US' })).toBe('+15551234567');
+  });
+
+  it('should read national numbers in the given region', () => {
+    expect(applyTransform('07911 123456', 'phone_e164', { phoneRegion: 'GB' })).toBe('+447911123456');
+    expect(applyTransform('030 1234567', 'phone_e164', { phoneRegion: 'DE' })).toBe('+49301234567');
+    expect(applyTransform('0803 123 4567', 'phone_e164', { phoneRegion: 'NG' })).toBe('+2348031234567');
+  });
+
+  it('should keep the country code of international numbers', () => {
+    expect(applyTransform('+44 7911 123456', 'phone_e164', { phoneRegion: 'US' })).toBe('+447911123456');
+    expect(applyTransform('0049 30 1234567', 'phone_e164', { phoneRegion: 'GB' })).toBe('+49301234567');
+    expect(applyTransform('+44 (0)20 7946 0958', 'phone_e164')).toBe('+442079460958');
+  });
+
+  it('should report a national number without a region instead of guessing', () => {
+    const warn = jest.fn();
+    expect(applyTransform('07911 123456', 'phone_e164', { warn })).toBe('');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('no country code'));
+  });
+
+  it('should report a number that does not fit the region', () => {
+    const warn = jest.fn();
+    expect(applyTransform('12345', 'phone_e164', { phoneRegion: 'GB', warn })).toBe('');
+    expect(applyTransform('call me', 'phone_e164', { phoneRegion: 'GB', warn })).toBe('');
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0][0]).not.toContain('12345');
+  });
+
+  it('should format phone_national in the region', () => {
+    expect(applyTransform('+447911123456', 'phone_national', { phoneRegion: 'GB' })).toBe('07911123456');
+    expect(applyTransform('+15551234567', 'phone_national', { phoneRegion: 'US' })).toBe('(555) 123-4567');
+  });
+
+  it('should keep foreign numbers in E.164 for phone_national', () => {
+    expect(applyTransform('+49301234567', 'phone_national', { phoneRegion: 'GB' })).toBe('+49301234567');
   });
 
   it('should return empty string for undefined value', () => {
@@ -127,6 +180,60 @@ describe('applyTransform', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// applyTransformChain
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('applyTransformChain', () => {
+  it('should run the steps in order', () => {
+    const steps = [{ type: 'trim' as const }, { type: 'titlecase' as const }];
+    expect(applyTransformChain('  jane MARY-ann  ', steps, 'wix_to_hubspot')).toBe('Jane Mary-Ann');
+  });
+
+  it('should write E.164 to HubSpot and the national format to Wix for phone_national', () => {
+    const steps = [{ type: 'phone_national' as const }];
+    const context = { phoneRegion: 'DE' };
+    expect(applyTransformChain('030 1234567', steps, 'wix_to_hubspot', context)).toBe('+49301234567');
+    expect(applyTransformChain('+49301234567', steps, 'hubspot_to_wix', context)).toBe('0301234567');
+  });
+
+  it('should convert a Wix ISO date to HubSpot midnight-UTC millis and back', () => {
+    const steps = [{ type: 'date' as const }];
+    const millis = String(Date.UTC(1990, 4, 17));
+    expect(applyTransformChain('1990-05-17', steps, 'wix_to_hubspot')).toBe(millis);
+    expect(applyTransformChain('1990-05-17T15:30:00Z', steps, 'wix_to_hubspot')).toBe(millis);
+    expect(applyTransformChain(millis, steps, 'hubspot_to_wix')).toBe('1990-05-17');
+  });
+
+  it('should drop an unparseable date', () => {
+    expect(applyTransformChain('not a date', [{ type: 'date' }], 'wix_to_hubspot')).toBe('');
+  });
+
+  it('should apply a regex replace (global by default)', () => {
+    const steps = [{ type: 'regex_replace' as const, pattern: '\\s+', replacement: '-' }];
+    expect(applyTransformChain('a  b c', steps, 'wix_to_hubspot')).toBe('a-b-c');
+  });
+
+  it('should fill an empty value with the default and leave others alone', () => {
+    const steps = [{ type: 'default_if_empty' as const, value: 'Unknown' }];
+    expect(applyTransformChain(undefined, steps, 'wix_to_hubspot')).toBe('Unknown');
+    expect(applyTransformChain('Acme', steps, 'wix_to_hubspot')).toBe('Acme');
+  });
+
+  it('should truncate to the given length', () => {
+    expect(applyTransformChain('abcdef', [{ type: 'truncate', length: 3 }], 'wix_to_hubspot')).toBe('abc');
+  });
+
+  it('should look values up forwards and inverted for HubSpot → Wix', () => {
+    const steps = [
+      { type: 'value_map' as const, valueMap: [{ from: 'Gold', to: 'tier_1' }, { from: 'Silver', to: 'tier_2' }] },
+    ];
+    expect(applyTransformChain('Gold', steps, 'wix_to_hubspot')).toBe('tier_1');
+    expect(applyTransformChain('tier_2', steps, 'hubspot_to_wix')).toBe('Silver');
+    expect(applyTransformChain('Bronze', steps, 'wix_to_hubspot')).toBe('Bronze');
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // flattenWixContact
 // ─────────────────────────────────────────────────────────────────────────────
@@ -169,11 +276,28 @@ describe('flattenWixContact', () => {
     expect(flat.primaryEmail).toBe('jane@test.com');
   });
 
+  it('should join label keys with semicolons', () => {
+    const flat = flattenWixContact({
+      info: { labelKeys: { items: ['contacts.contacted', 'custom.vip'] } },
+    });
+    expect(flat.labelIds).toBe('contacts.contacted;custom.vip');
+  });
+
+  it('should read custom extended fields by their Wix key', () => {
+    const flat = flattenWixContact({
+      info: { extendedFields: { items: { 'custom.loyalty-tier': 'gold', 'custom.visits': 12, 'contacts.displayByFirstName': 'x' } } },
+    });
+    expect(flat['custom.loyalty-tier']).toBe('gold');
+    expect(flat['custom.visits']).toBe('12');
+    expect(flat['contacts.displayByFirstName']).toBeUndefined();
+  });
+
   it('should default missing fields to empty string', () => {
     const flat = flattenWixContact({});
     expect(flat.firstName).toBe('');
     expect(flat.lastName).toBe('');
     expect(flat.email).toBe('');
+    expect(flat.labelIds).toBe('');
   });
 });
 
@@ -219,10 +343,44 @@ describe('wixToHubSpot', () => {
         phones: [{ phone: '(555) 123-4567' }],
       },
     };
-    const hsProps = wixToHubSpot(wixContact, defaultRules);
+    const hsProps = wixToHubSpot(wixContact, defaultRules, { phoneRegion: 'US' });
     expect(hsProps.phone).toBe('+15551234567');
   });
 
+  it('should read phones in the address country when there is no default region', () => {
+    const wixContact = {
+      info: {
+        phones: [{ phone: '07911 123456' }],
+        addresses: [{ country: 'GB' }],
+      },
+    };
+    expect(wixToHubSpot(wixContact, defaultRules).phone).toBe('+447911123456');
+  });
+
+  it('should prefer the default phone region over the address country', () => {
+    const wixContact = {
+      info: {
+        phones: [{ phone: '030 1234567' }],
+        addresses: [{ country: 'GB' }],
+      },
+    };
+    expect(wixToHubSpot(wixContact, defaultRules, { phoneRegion: 'DE' }).phone).toBe('+49301234567');
+  });
+
+  it('should leave out unreadable phones and report them per field', () => {
+    const warnings: Array<{ field: string; message: string }> = [];
+    const wixContact = {
+      info: {
+        name: { first: 'John' },
+        phones: [{ phone: '07911 123456' }],
+      },
+    };
+    const hsProps = wixToHubSpot(wixContact, defaultRules, { warnings });
+    expect(hsProps.phone).toBeUndefined();
+    expect(hsProps.firstname).toBe('John');
+    expect(warnings).toEqual([{ field: 'phone', message: expect.any(String) }]);
+  });
+
   it('should not include fields with empty values', () => {
     const wixContact = {
       info: {
@@ -323,10 +481,25 @@ describe('hubSpotToWix', () => {
 
   it('should apply phone_e164 transform for HS→Wix phone', () => {
     const hs = { phone: '5551234567' };
-    const wix = hubSpotToWix(hs, defaultRules);
+    const wix = hubSpotToWix(hs, defaultRules, { phoneRegion: 'US' });
     expect(wix.primaryPhone).toBe('+15551234567');
   });
 
+  it('should write national phones to Wix with phone_national', () => {
+    const rules = [
+      { wixField: 'primaryPhone', hubspotField: 'phone', direction: 'bidirectional', transform: 'phone_national', isActive: true },
+    ] as unknown as IFieldMapping[];
+    expect(hubSpotToWix({ phone: '+447911123456' }, rules, { country: 'GB' }).primaryPhone).toBe('07911123456');
+    expect(wixToHubSpot({ primaryPhone: '07911 123456', country: 'GB' }, rules).phone).toBe('+447911123456');
+  });
+
+  it('should report unreadable HubSpot phones against the Wix field', () => {
+    const warnings: Array<{ field: string; message: string }> = [];
+    const wix = hubSpotToWix({ phone: '7911 123456' }, defaultRules, { warnings });
+    expect(wix.primaryPhone).toBeUndefined();
+    expect(warnings.map((w) => w.field)).toEqual(['primaryPhone']);
+  });
+
   it('should NOT apply wix_to_hubspot-only rules in reverse', () => {
     const oneWayRules = [
       {
@@ -360,11 +533,361 @@ describe('hubSpotToWix', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Transform chains in both directions
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('transform chains on rules', () => {
+  const rules = [
+    {
+      wixField: 'birthdate',
+      hubspotField: 'date_of_birth',
+      direction: 'bidirectional',
+      transform: 'none',
+      transforms: [{ type: 'date' }],
+      isActive: true,
+    },
+    {
+      wixField: 'company',
+      hubspotField: 'company',
+      direction: 'bidirectional',
+      transform: 'trim',
+      transforms: [{ type: 'default_if_empty', value: 'Unknown' }, { type: 'truncate', length: 4 }],
+      isActive: true,
+    },
+  ] as unknown as IFieldMapping[];
+
+  it('should apply the legacy transform then the chain Wix → HubSpot', () => {
+    const hs = wixToHubSpot({ info: { birthdate: '1990-05-17', company: '  Acme Corp ' } }, rules);
+    expect(hs.date_of_birth).toBe(String(Date.UTC(1990, 4, 17)));
+    expect(hs.company).toBe('Acme');
+  });
+
+  it('should write a default for an empty source value', () => {
+    const hs = wixToHubSpot({ info: {} }, rules);
+    expect(hs.company).toBe('Unkn');
+    expect(hs).not.toHaveProperty('date_of_birth');
+  });
+
+  it('should apply the chain HubSpot → Wix', () => {
+    const wix = hubSpotToWix({ date_of_birth: String(Date.UTC(1990, 4, 17)), company: 'Globex' }, rules);
+    expect(wix.birthdate).toBe('1990-05-17');
+    expect(wix.company).toBe('Glob');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Enumeration option mapping
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('applyOptionMap', () => {
+  const pairs = [
+    { wixValue: 'Customer', hubspotValue: 'customer' },
+    { wixValue: 'Client', hubspotValue: 'customer' },
+    { wixValue: 'Prospect', hubspotValue: 'lead' },
+  ];
+
+  it('should map a Wix value to its option, ignoring case', () => {
+    expect(applyOptionMap('client', pairs, undefined, 'wix_to_hubspot')).toBe('customer');
+  });
+
+  it('should keep a value that already is a paired option', () => {
+    expect(applyOptionMap('lead', pairs, 'other', 'wix_to_hubspot')).toBe('lead');
+  });
+
+  it('should use the fallback for an unpaired value, or send it unchanged', () => {
+    expect(applyOptionMap('Partner', pairs, 'other', 'wix_to_hubspot')).toBe('other');
+    expect(applyOptionMap('Partner', pairs, undefined, 'wix_to_hubspot')).toBe('Partner');
+  });
+
+  it('should map options back to the first paired Wix value', () => {
+    expect(applyOptionMap('customer', pairs, undefined, 'hubspot_to_wix')).toBe('Customer');
+    expect(applyOptionMap('evangelist', pairs, undefined, 'hubspot_to_wix')).toBe('evangelist');
+  });
+
+  it('should map multi-select values one by one', () => {
+    expect(applyOptionMap('Customer;Client;Prospect', pairs, undefined, 'wix_to_hubspot')).toBe('customer;lead');
+  });
+
+  it('should apply on rules in both directions', () => {
+    const rules = [
+      {
+        wixField: 'jobTitle',
+        hubspotField: 'hs_persona',
+        direction: 'bidirectional',
+        transform: 'none',
+        optionMap: [{ wixValue: 'CEO', hubspotValue: 'persona_1' }],
+        optionFallback: 'persona_9',
+        isActive: true,
+      },
+    ] as unknown as IFieldMapping[];
+
+    expect(wixToHubSpot({ info: { jobTitle: 'ceo' } }, rules).hs_persona).toBe('persona_1');
+    expect(wixToHubSpot({ info: { jobTitle: 'Intern' } }, rules).hs_persona).toBe('persona_9');
+    expect(hubSpotToWix({ hs_persona: 'persona_1' }, rules).jobTitle).toBe('CEO');
+  });
+});
+
+describe('indexPropertyOptions', () => {
+  it('should index the options of enumeration properties only', () => {
+    const index = indexPropertyOptions([
+      { value: 'lifecyclestage', label: 'Lifecycle', type: 'enumeration', options: [{ value: 'lead', label: 'Lead' }] },
+      { value: 'jobtitle', label: 'Job title', type: 'string' },
+    ]);
+    expect([...index.entries()]).toEqual([['lifecyclestage', ['lead']]]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Composite mappings
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('combineFields / splitValue', () => {
+  const address = { wixFields: ['street', 'city', 'postalCode'], template: '{street}, {city} {postalCode}' };
+
+  it('should combine fields with a template', () => {
+    const flat = { street: '1 Main St', city: 'Springfield', postalCode: '12345' };
+    expect(combineFields(flat, address)).toBe('1 Main St, Springfield 12345');
+  });
+
+  it('should tidy separators around empty fields', () => {
+    expect(combineFields({ street: '1 Main St', postalCode: '12345' }, address)).toBe('1 Main St, 12345');
+    expect(combineFields({ city: 'Springfield' }, address)).toBe('Springfield');
+    expect(combineFields({}, address)).toBe('');
+  });
+
+  it('should join fields with the delimiter when there is no template', () => {
+    const name = { wixFields: ['firstName', 'lastName'], delimiter: ' ' };
+    expect(combineFields({ firstName: 'Jane', lastName: 'Doe' }, name)).toBe('Jane Doe');
+  });
+
+  it('should split by reading the template back', () => {
+    expect(splitValue('1 Main St, Springfield 12345', address)).toEqual({
+      street: '1 Main St',
+      city: 'Springfield',
+      postalCode: '12345',
+    });
+  });
+
+  it('should split by delimiter, the last field taking the rest', () => {
+    const name = { wixFields: ['firstName', 'lastName'], delimiter: ' ' };
+    expect(splitValue('Mary Ann Smith', name)).toEqual({ firstName: 'Mary', lastName: 'Ann Smith' });
+    expect(splitValue('Cher', name)).toEqual({ firstName: 'Cher' });
+  });
+
+  it('should split by a regex with named or numbered groups', () => {
+    const named = { wixFields: ['firstName', 'lastName'], splitPattern: '^(?<lastName>[^,]+),\\s*(?<firstName>.+)$' };
+    expect(splitValue('Doe, Jane', named)).toEqual({ firstName: 'Jane', lastName: 'Doe' });
+
+    const numbered = { wixFields: ['firstName', 'lastName'], splitPattern: '^(\\S+)\\s+(.+)$' };
+    expect(splitValue('Jane van Doe', numbered)).toEqual({ firstName: 'Jane', lastName: 'van Doe' });
+    expect(splitValue('Jane', numbered)).toEqual({});
+  });
+
+  it('should combine Wix → HubSpot and split HubSpot → Wix on a rule', () => {
+    const rules = [
+      {
+        wixField: 'firstName+lastName',
+        hubspotField: 'full_name',
+        direction: 'bidirectional',
+        transform: 'trim',
+        composite: { wixFields: ['firstName', 'lastName'], template: '{firstName} {lastName}' },
+        isActive: true,
+      },
+    ] as unknown as IFieldMapping[];
+
+    expect(wixToHubSpot({ info: { name: { first: 'Jane', last: 'Doe' } } }, rules)).toEqual({ full_name: 'Jane Doe' });
+    expect(hubSpotToWix({ full_name: ' Jane  Doe ' }, rules)).toEqual({ firstName: 'Jane', lastName: 'Doe' });
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // validateRules — catches duplicates and invalid fields
 // ─────────────────────────────────────────────────────────────────────────────
 
 describe('validateRules', () => {
+  const customRule = [
+    { wixField: 'custom.loyalty-tier', hubspotField: 'loyalty_tier', direction: 'bidirectional' as const },
+  ];
+
+  it('should accept a custom field the site has', () => {
+    expect(validateRules(customRule, null, new Set(['custom.loyalty-tier']))).toHaveLength(0);
+  });
+
+  it('should reject a custom field the site does not have', () => {
+    const errors = validateRules(customRule, null, new Set(['custom.other']));
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain('does not exist on the site');
+  });
+
+  it('should skip the custom field check without the site schema', () => {
+    expect(validateRules(customRule)).toHaveLength(0);
+  });
+
+  it('should accept a valid transform chain', () => {
+    const rules = [
+      {
+        wixField: 'company',
+        hubspotField: 'company',
+        direction: 'bidirectional' as const,
+        transforms: [
+          { type: 'trim' as const },
+          { type: 'regex_replace' as const, pattern: '\\s+', replacement: ' ' },
+          { type: 'default_if_empty' as const, value: 'n/a' },
+          { type: 'truncate' as const, length: 50 },
+          { type: 'value_map' as const, valueMap: [{ from: 'a', to: 'b' }] },
+        ],
+      },
+    ];
+    expect(validateRules(rules)).toHaveLength(0);
+  });
+
+  it('should reject malformed transform steps', () => {
+    const rules = [
+      {
+        wixField: 'company',
+        hubspotField: 'company',
+        direction: 'bidirectional' as const,
+        transforms: [
+          { type: 'reverse' },
+          { type: 'regex_replace', pattern: '([a-z' },
+          { type: 'default_if_empty' },
+          { type: 'truncate', length: 0 },
+          { type: 'value_map', valueMap: [] },
+        ],
+      },
+    ] as any;
+    const errors = validateRules(rules);
+    expect(errors.map((e) => e.field)).toEqual([
+      'rules[0].transforms[0]',
+      'rules[0].transforms[1].pattern',
+      'rules[0].transforms[2].value',
+      'rules[0].transforms[3].length',
+      'rules[0].transforms[4].valueMap',
+    ]);
+  });
+
+  describe('composite rules', () => {
+    const composite = { wixFields: ['street', 'city', 'postalCode'], template: '{street}, {city} {postalCode}' };
+    const rule = { wixField: '', hubspotField: 'full_address', direction: 'bidirectional' as const, composite };
+
+    it('should accept known fields with a template that uses them', () => {
+      expect(validateRules([rule])).toHaveLength(0);
+    });
+
+    it('should reject fewer than two fields and unknown fields', () => {
+      expect(validateRules([{ ...rule, composite: { wixFields: ['street'] } }])[0].field).toBe(
+        'rules[0].composite.wixFields',
+      );
+      const errors = validateRules([
+        { ...rule, composite: { wixFields: ['street', 'planet'], delimiter: ', ' } },
+      ]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe('rules[0].composite.wixFields[1]');
+    });
+
+    it('should reject a template that does not match the fields', () => {
+      const errors = validateRules([
+        { ...rule, composite: { ...composite, template: '{street}, {town}' } },
+      ]);
+      expect(errors.map((e) => e.message)).toEqual([
+        'Template uses fields that are not in the mapping: town',
+        'Template does not use: city, postalCode',
+      ]);
+    });
+
+    it('should reject a template that cannot be split back for HubSpot → Wix', () => {
+      const unsplittable = { wixFields: ['city', 'postalCode'], template: '{city}{postalCode}' };
+      expect(validateRules([{ ...rule, composite: unsplittable }])[0].message).toContain('separator');
+      expect(validateRules([{ ...rule, direction: 'wix_to_hubspot' as const, composite: unsplittable }])).toHaveLength(0);
+    });
+
+    it('should reject a split pattern without a group per field', () => {
+      const errors = validateRules([{ ...rule, composite: { ...composite, splitPattern: '^(.+), (.+)$' } }]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe('Split pattern has 2 group(s) for 3 fields');
+    });
+
+    it('should detect a Wix field written by two rules HubSpot → Wix', () => {
+      const errors = validateRules([
+        rule,
+        { wixField: 'city', hubspotField: 'city', direction: 'bidirectional' as const },
+      ]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain('Duplicate target "city"');
+    });
+  });
+
+  describe('enumeration pairs', () => {
+    const options = new Map([['lifecyclestage', ['lead', 'customer', 'evangelist']]]);
+    const rule = {
+      wixField: 'company',
+      hubspotField: 'lifecyclestage',
+      direction: 'wix_to_hubspot' as const,
+      optionMap: [{ wixValue: 'Client', hubspotValue: 'customer' }],
+      optionFallback: 'lead',
+    };
+
+    it('should accept pairs and a fallback that are options', () => {
+      expect(validateRules([rule], null, null, options)).toHaveLength(0);
+    });
+
+    it('should reject pairs and fallbacks that are not options', () => {
+      const errors = validateRules(
+        [{ ...rule, optionMap: [{ wixValue: 'Client', hubspotValue: 'client' }], optionFallback: 'none' }],
+        null,
+        null,
+        options,
+      );
+      expect(errors.map((e) => e.field)).toEqual(['rules[0].optionMap', 'rules[0].optionFallback']);
+      expect(errors.some(isValidationWarning)).toBe(false);
+    });
+
+    it('should reject a Wix value paired twice, even without the options', () => {
+      const optionMap = [
+        { wixValue: 'Client', hubspotValue: 'customer' },
+        { wixValue: 'Client', hubspotValue: 'lead' },
+      ];
+      const errors = validateRules([{ ...rule, optionMap }]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain('paired more than once');
+    });
+
+    it('should warn about a missing fallback and unpaired options', () => {
+      const findings = validateRules(
+        [{ ...rule, direction: 'bidirectional' as const, optionFallback: undefined }],
+        null,
+        null,
+        options,
+      );
+      expect(findings).toHaveLength(2);
+      expect(findings.every(isValidationWarning)).toBe(true);
+      expect(findings[0].message).toContain('add pairs or a fallback');
+      expect(findings[1].message).toContain('lead, evangelist');
+    });
+
+    it('should warn when an enumeration property has no pairs at all', () => {
+      const findings = validateRules(
+        [{ wixField: 'company', hubspotField: 'lifecyclestage', direction: 'wix_to_hubspot' as const }],
+        null,
+        null,
+        options,
+      );
+      expect(findings).toHaveLength(1);
+      expect(isValidationWarning(findings[0])).toBe(true);
+    });
+  });
+
+  it('should reject a value map that cannot be inverted on a bidirectional rule', () => {
+    const valueMap = [{ from: 'Gold', to: 'vip' }, { from: 'Platinum', to: 'vip' }];
+    const rule = { wixField: 'company', hubspotField: 'company', transforms: [{ type: 'value_map' as const, valueMap }] };
+
+    const errors = validateRules([{ ...rule, direction: 'bidirectional' as const }]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain('cannot be mapped back to Wix');
+    expect(validateRules([{ ...rule, direction: 'wix_to_hubspot' as const }])).toHaveLength(0);
+  });
+
   it('should return no errors for valid rules', () => {
     const rules = [
       { wixField: 'firstName', hubspotField: 'firstname', direction: 'bidirectional' as const },
@@ -404,6 +927,17 @@ describe('validateRules', () => {
     expect(errors).toHaveLength(0);
   });
 
+  it('should reject the same pair mapped twice in opposite directions', () => {
+    const rules = [
+      { wixField: 'company', hubspotField: 'company', direction: 'wix_to_hubspot' as const },
+      { wixField: 'company', hubspotField: 'company', direction: 'hubspot_to_wix' as const },
+    ];
+    const errors = validateRules(rules);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe('rules[1]');
+    expect(errors[0].message).toContain('Duplicate mapping "company" ↔ "company"');
+  });
+
   it('should catch missing wixField', () => {
     const rules = [
       { wixField: '', hubspotField: 'firstname', direction: 'bidirectional' as const },
@@ -437,6 +971,26 @@ describe('validateRules', () => {
     expect(errors.some((e: any) => e.message.includes('does not exist'))).toBe(true);
   });
 
+  it('should accept every known conflict strategy', () => {
+    const rules = [
+      { wixField: 'firstName', hubspotField: 'firstname', direction: 'bidirectional' as const, conflictStrategy: 'source_of_truth_wix' as const },
+      { wixField: 'jobTitle', hubspotField: 'jobtitle', direction: 'bidirectional' as const, conflictStrategy: 'source_of_truth_hubspot' as const },
+      { wixField: 'company', hubspotField: 'company', direction: 'bidirectional' as const, conflictStrategy: 'never_overwrite_non_empty' as const },
+      { wixField: 'lastName', hubspotField: 'lastname', direction: 'bidirectional' as const, conflictStrategy: 'newest_wins' as const },
+    ];
+    expect(validateRules(rules)).toHaveLength(0);
+  });
+
+  it('should reject an unknown conflict strategy', () => {
+    const rules = [
+      { wixField: 'firstName', hubspotField: 'firstname', direction: 'bidirectional' as const, conflictStrategy: 'coin_flip' as any },
+    ];
+    const errors = validateRules(rules);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe('rules[0].conflictStrategy');
+    expect(errors[0].message).toContain('Unknown conflict strategy');
+  });
+
   it('should skip HubSpot property validation when list is null', () => {
     const rules = [
       { wixField: 'firstName', hubspotField: 'any_prop', direction: 'bidirectional' as const },
@@ -500,6 +1054,48 @@ describe('getWixFieldRegistry', () => {
     expect(a).not.toBe(b);
     expect(a).toEqual(b);
   });
+
+  it('should append custom extended fields', () => {
+    const fields = getWixFieldRegistry([
+      { key: 'custom.visits', displayName: 'Visits', dataType: 'NUMBER' },
+    ]);
+    expect(fields[fields.length - 1]).toEqual({
+      value: 'custom.visits',
+      label: 'Visits',
+      type: 'number',
+      description: 'Custom Wix contact field',
+    });
+  });
+});
+
+describe('loadWixFieldRegistry', () => {
+  const installation = { instanceId: 'inst-1' } as unknown as IInstallation;
+
+  it('should merge the site schema and cache it', async () => {
+    mockListWixExtendedFields.mockResolvedValue([
+      { key: 'custom.loyalty-tier', displayName: 'Loyalty tier', dataType: 'TEXT' },
+    ]);
+
+    const fields = await loadWixFieldRegistry(installation);
+    const keys = await loadWixExtendedFieldKeys(installation);
+
+    expect(fields.map((f) => f.value)).toContain('custom.loyalty-tier');
+    expect(keys).toEqual(new Set(['custom.loyalty-tier']));
+    expect(mockListWixExtendedFields).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the static registry when Wix fails', async () => {
+    mockListWixExtendedFields.mockRejectedValue(new Error('Wix API error 500'));
+
+    await expect(loadWixFieldRegistry(installation)).resolves.toEqual(getWixFieldRegistry());
+    await expect(loadWixExtendedFieldKeys(installation)).resolves.toBeNull();
+  });
+});
+
+describe('pickExtendedFields', () => {
+  it('should keep only custom field values', () => {
+    expect(pickExtendedFields({ firstName: 'Jo', 'custom.visits': '3' })).toEqual({ 'custom.visits': '3' });
+  });
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -628,6 +1224,60 @@ describe('saveMappingRules', () => {
     expect(FieldMapping.bulkWrite).toHaveBeenCalled(); // seedDefaultMappings
   });
 
+  it('should persist conflict strategies, defaulting to newest_wins', async () => {
+    const rules = [
+      { wixField: 'company', hubspotField: 'company', direction: 'bidirectional' as const, transform: 'none' as const, conflictStrategy: 'never_overwrite_non_empty' as const },
+      { wixField: 'jobTitle', hubspotField: 'jobtitle', direction: 'bidirectional' as const, transform: 'none' as const },
+    ];
+
+    await saveMappingRules('inst-save-cs', rules);
+
+    const insertedRules = FieldMapping.insertMany.mock.calls[0][0];
+    expect(insertedRules[0].conflictStrategy).toBe('never_overwrite_non_empty');
+    expect(insertedRules[1].conflictStrategy).toBe('newest_wins');
+  });
+
+  it('should persist transform chains, defaulting to an empty chain', async () => {
+    const chain = [{ type: 'trim' as const }, { type: 'truncate' as const, length: 10 }];
+    const rules = [
+      { wixField: 'company', hubspotField: 'company', direction: 'bidirectional' as const, transform: 'none' as const, transforms: chain },
+      { wixField: 'jobTitle', hubspotField: 'jobtitle', direction: 'bidirectional' as const, transform: 'none' as const },
+    ];
+
+    await saveMappingRules('inst-save-tc', rules);
+
+    const insertedRules = FieldMapping.insertMany.mock.calls[0][0];
+    expect(insertedRules[0].transforms).toEqual(chain);
+    expect(insertedRules[1].transforms).toEqual([]);
+  });
+
+  it('should name a composite rule after its Wix fields', async () => {
+    const composite = { wixFields: ['firstName', 'lastName'], delimiter: ' ' };
+    const rules = [
+      { wixField: '', hubspotField: 'full_name', direction: 'bidirectional' as const, transform: 'none' as const, composite },
+    ];
+
+    await saveMappingRules('inst-save-cp', rules);
+
+    const insertedRules = FieldMapping.insertMany.mock.calls[0][0];
+    expect(insertedRules[0]).toMatchObject({ wixField: 'firstName+lastName', composite });
+  });
+
+  it('should save with warnings and persist enumeration pairs', async () => {
+    const optionMap = [{ wixValue: 'Client', hubspotValue: 'customer' }];
+    const rules = [
+      { wixField: 'company', hubspotField: 'lifecyclestage', direction: 'wix_to_hubspot' as const, transform: 'none' as const, optionMap },
+    ];
+
+    const result = await saveMappingRules('inst-save-om', rules, null, null, new Map([['lifecyclestage', ['customer']]]));
+
+    expect(result.ok).toBe(true);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings![0].field).toBe('rules[0].optionFallback');
+    const insertedRules = FieldMapping.insertMany.mock.calls[0][0];
+    expect(insertedRules[0].optionMap).toEqual(optionMap);
+  });
+
   it('should skip inserting rules that match undeletable defaults', async () => {
     const rules = [
       // This is a default → should NOT be inserted
@@ -644,6 +1294,31 @@ describe('saveMappingRules', () => {
     expect(insertedRules[0].wixField).toBe('company');
   });
 
+  it('should apply the settings sent for an undeletable default to its row', async () => {
+    const rules = [
+      { wixField: 'primaryEmail', hubspotField: 'email', direction: 'wix_to_hubspot' as const, transform: 'lowercase' as const, conflictStrategy: 'source_of_truth_wix' as const },
+      { wixField: 'company', hubspotField: 'company', direction: 'bidirectional' as const, transform: 'none' as const },
+    ];
+
+    await saveMappingRules('inst-save-def', rules);
+
+    expect(FieldMapping.updateOne).toHaveBeenCalledTimes(1);
+    expect(FieldMapping.updateOne).toHaveBeenCalledWith(
+      { instanceId: 'inst-save-def', wixField: 'primaryEmail', hubspotField: 'email' },
+      {
+        $set: {
+          direction: 'wix_to_hubspot',
+          transform: 'lowercase',
+          transforms: [],
+          conflictStrategy: 'source_of_truth_wix',
+        },
+      },
+    );
+    expect(FieldMapping.bulkWrite.mock.invocationCallOrder[0]).toBeLessThan(
+      FieldMapping.updateOne.mock.invocationCallOrder[0],
+    );
+  });
+
   it('should not call insertMany when only default mappings are provided', async () => {
     const rules = [
       { wixField: 'primaryEmail', hubspotField: 'email', direction: 'bidirectional' as const, transform: 'lowercase' as const },
@@ -0,0 +1,267 @@
+// =============================================================================
+// Fake HubSpot API Tests (Module 22)
+// =============================================================================
+// Runs the real HubSpot client stack (Modules 1-A, 2-A, 2-B, 2-C, 2-G, 21)
+// against the in-process fake instead of mocking `hubspotClient`.
+// Tests: paging, 429 + Retry-After, batch partial failures, property
+//        validation, property provisioning, forms, OAuth token endpoint
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+// Base URLs are filled in once the fake is listening
+jest.mock('../config', () => ({
+  __esModule: true,
+  default: {
+    hubspotApiBase: '',
+    hubspotAppBase: '',
+    hubspotFormsBase: '',
+    hubspotClientId: 'test-hs-id',
+    hubspotClientSecret: 'test-hs-secret',
+    hubspotRedirectUri: 'http://localhost:3000/api/hubspot/callback',
+    hubspotBurstLimit: 100,
+    circuitFailureThreshold: 5,
+    circuitCooldownMs: 60_000,
+  },
+}));
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockStoreTokens = jest.fn();
+const mockClearTokens = jest.fn();
+jest.mock('../services/tokenManager', () => ({
+  getAccessToken: async () => 'test-access-token',
+  storeTokens: (...args: any[]) => mockStoreTokens(...args),
+  clearTokens: (...args: any[]) => mockClearTokens(...args),
+  storeSecret: jest.fn(),
+  getSecret: jest.fn(),
+  deleteSecret: jest.fn(),
+}));
+
+jest.mock('../models/Installation', () => ({
+  __esModule: true,
+  default: {
+    findOne: () => ({ select: () => ({ lean: async () => ({ hubspotPortalId: '12345678' }) }) }),
+  },
+}));
+
+import config from '../config';
+import {
+  startFakeHubSpot,
+  createFakeHubSpotStore,
+  seedContact,
+  failNext,
+  FakeHubSpot,
+} from '../fakes/hubspotFakeServer';
+import {
+  getContactByEmail,
+  createOrUpdateByEmail,
+  writeSyncTag,
+  searchContactsModifiedSince,
+  batchUpdateContacts,
+  batchUpsertContactsByEmail,
+} from '../services/hubspotContacts';
+import {
+  ensureRequiredProperties,
+  fetchCustomProperties,
+} from '../services/hubspotProperties';
+import { submitForm, listForms } from '../services/hubspotService';
+import { refreshAccessToken } from '../services/hubspotOAuth';
+import { resetRateLimiters } from '../services/hubspotRateLimiter';
+import { IInstallation } from '../models/Installation';
+
+let fake: FakeHubSpot;
+
+beforeAll(async () => {
+  fake = await startFakeHubSpot();
+  config.hubspotApiBase = fake.baseUrl;
+  config.hubspotAppBase = fake.baseUrl;
+  config.hubspotFormsBase = fake.baseUrl;
+});
+
+afterAll(async () => {
+  await fake.stop();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetRateLimiters();
+  // Start every test from an empty portal
+  Object.assign(fake.store, createFakeHubSpotStore());
+});
+
+/** How many times the fake served `route` */
+function callsTo(route: string): number {
+  return fake.store.requests.filter((r) => r === route).length;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Contacts
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('contacts', () => {
+  it('should create, then update, a contact matched by email', async () => {
+    const created = await createOrUpdateByEmail('inst-1', 'Ada@Example.com', { firstname: 'Ada' });
+    const updated = await createOrUpdateByEmail('inst-1', 'ada@example.com', { lastname: 'Lovelace' });
+
+    expect(created.action).toBe('created');
+    expect(updated.action).toBe('updated');
+    expect(updated.contact.id).toBe(created.contact.id);
+
+    const found = await getContactByEmail('inst-1', 'ADA@example.com', ['firstname', 'lastname']);
+    expect(found?.properties).toMatchObject({ email: 'ada@example.com', firstname: 'Ada', lastname: 'Lovelace' });
+  });
+
+  it('should page through every contact changed after a cursor, oldest first', async () => {
+    const first = seedContact(fake.store, { email: 'first@example.com' });
+    for (let i = 0; i < 230; i++) seedContact(fake.store, { email: `c${i}@example.com` });
+
+    const seen: string[] = [];
+    let after: string | undefined;
+    do {
+      const page = await searchContactsModifiedSince(
+        'inst-1',
+        new Date(first.properties.hs_lastmodifieddate),
+        [],
+        after,
+      );
+      seen.push(...page.contacts.map((c) => c.id));
+      after = page.after;
+    } while (after);
+
+    expect(seen).toHaveLength(230);
+    expect(seen).not.toContain(first.id);
+    expect(seen).toEqual([...seen].sort((a, b) => Number(a) - Number(b)));
+    expect(callsTo('POST /crm/v3/objects/contacts/search')).toBe(3);
+  });
+
+  it('should wait for Retry-After and retry a 429', async () => {
+    seedContact(fake.store, { email: 'ada@example.com' });
+    failNext(fake.store, 'POST /crm/v3/objects/contacts/search', { status: 429, retryAfterSeconds: 1 });
+
+    const found = await getContactByEmail('inst-1', 'ada@example.com');
+
+    expect(found?.properties.email).toBe('ada@example.com');
+    expect(callsTo('POST /crm/v3/objects/contacts/search')).toBe(2);
+  });
+
+  it('should reject unknown properties without retrying', async () => {
+    const err = await createOrUpdateByEmail('inst-1', 'ada@example.com', { favourite_colour: 'teal' })
+      .catch((e) => e);
+
+    expect(err.response.status).toBe(400);
+    expect(err.response.data.category).toBe('VALIDATION_ERROR');
+    expect(err.response.data.message).toContain('PROPERTY_DOESNT_EXIST');
+    expect(callsTo('POST /crm/v3/objects/contacts')).toBe(1);
+  });
+
+  it('should accept the sync tag once the required properties are provisioned', async () => {
+    const { contact } = await createOrUpdateByEmail('inst-1', 'ada@example.com', {});
+    await expect(writeSyncTag('inst-1', contact.id, 'tag-1')).rejects.toMatchObject({
+      response: { status: 400 },
+    });
+
+    await ensureRequiredProperties('inst-1');
+    await writeSyncTag('inst-1', contact.id, 'tag-1');
+
+    expect(fake.store.contacts.get(contact.id)?.properties.wix_sync_tag).toBe('tag-1');
+    expect((await fetchCustomProperties('inst-1')).map((p) => p.value)).toContain('wix_sync_tag');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Batch writes
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('batch writes', () => {
+  it('should report the inputs that failed when the rest were upserted', async () => {
+    seedContact(fake.store, { email: 'old@example.com' });
+
+    const result = await batchUpsertContactsByEmail('inst-1', [
+      { email: 'old@example.com', properties: { firstname: 'Old' } },
+      { email: 'new@example.com', properties: { firstname: 'New' } },
+      { email: 'bad@example.com', properties: { lifecyclestage: 'not-a-stage' } },
+    ]);
+
+    expect(result.contacts.map((c) => [c.properties.email, c.new])).toEqual([
+      ['old@example.com', false],
+      ['new@example.com', true],
+    ]);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ category: 'VALIDATION_ERROR', ids: ['bad@example.com'] }),
+    ]);
+    expect(result.errors[0].message).toContain('INVALID_OPTION');
+  });
+
+  it('should report contacts that no longer exist', async () => {
+    const kept = seedContact(fake.store, { email: 'kept@example.com' });
+
+    const result = await batchUpdateContacts('inst-1', [
+      { id: kept.id, properties: { firstname: 'Kept' } },
+      { id: '999', properties: { firstname: 'Gone' } },
+    ]);
+
+    expect(result.contacts.map((c) => c.id)).toEqual([kept.id]);
+    expect(result.errors).toEqual([expect.objectContaining({ category: 'OBJECT_NOT_FOUND', ids: ['999'] })]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Forms & OAuth
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('forms', () => {
+  const installation = { instanceId: 'inst-1', hubspotPortalId: '12345678' } as IInstallation;
+
+  it('should list forms and create the contact a submission names', async () => {
+    const [form] = await listForms(installation);
+
+    await submitForm(installation, form.id, [
+      { name: 'email', value: 'lead@example.com' },
+      { name: 'firstname', value: 'Lea' },
+    ], { pageUri: 'https://example.com/contact' });
+
+    expect(fake.store.submissions).toHaveLength(1);
+    expect([...fake.store.contacts.values()][0].properties).toMatchObject({
+      email: 'lead@example.com',
+      firstname: 'Lea',
+    });
+  });
+
+  it('should reject a submission to an unknown form', async () => {
+    await expect(submitForm(installation, 'no-such-form', [], {})).rejects.toMatchObject({
+      response: { status: 404 },
+    });
+  });
+});
+
+describe('OAuth token endpoint', () => {
+  it('should refresh an access token', async () => {
+    const tokens = await refreshAccessToken('inst-1', 'refresh-1');
+
+    expect(tokens.accessToken).toMatch(/^fake-access-/);
+    expect(tokens.refreshToken).toBe('refresh-1');
+    expect(mockStoreTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clear the tokens when the refresh token was revoked', async () => {
+    fake.store.revokedTokens.add('refresh-1');
+
+    await expect(refreshAccessToken('inst-1', 'refresh-1')).rejects.toThrow('reconnect');
+    expect(mockClearTokens).toHaveBeenCalledWith('inst-1');
+  });
+});
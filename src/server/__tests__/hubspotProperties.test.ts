@@ -0,0 +1,300 @@
+// =============================================================================
+// HubSpot Properties Tests (Module 2-C)
+// =============================================================================
+// Tests: property types inferred from Wix fields, createMappedProperty,
+//        archiveCustomProperty, and POST /api/field-mappings creating the
+//        property and the rule together
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Module 2-A — every HubSpot call goes through this client
+const mockClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+  patch: jest.fn(),
+  delete: jest.fn(),
+};
+jest.mock('../services/hubspotClient', () => ({
+  __esModule: true,
+  withRetry: (_instanceId: string, fn: (client: typeof mockClient) => unknown) => fn(mockClient),
+}));
+
+const mockInstallation: Record<string, unknown> = {};
+jest.mock('../utils/authMiddleware', () => ({
+  __esModule: true,
+  default: (req: any, _res: any, next: () => void) => {
+    req.instanceId = 'inst-1';
+    req.userId = 'user-1';
+    req.installation = mockInstallation;
+    next();
+  },
+}));
+
+const mockMappingCreate = jest.fn();
+jest.mock('../models/FieldMapping', () => ({
+  __esModule: true,
+  default: { create: (...args: any[]) => mockMappingCreate(...args) },
+  DEFAULT_FIELD_MAPPINGS: [],
+}));
+
+const mockLoadWixFieldRegistry = jest.fn();
+jest.mock('../services/fieldMappingEngine', () => ({
+  ...jest.requireActual('../services/fieldMappingEngine'),
+  loadWixFieldRegistry: (...args: any[]) => mockLoadWixFieldRegistry(...args),
+  loadWixExtendedFieldKeys: jest.fn().mockResolvedValue(null),
+  invalidateRulesCache: jest.fn(),
+}));
+
+const mockRecordVersion = jest.fn();
+jest.mock('../services/mappingVersions', () => ({
+  __esModule: true,
+  recordMappingVersion: (...args: any[]) => mockRecordVersion(...args),
+  MAX_VERSION_COMMENT_LENGTH: 500,
+}));
+
+jest.mock('../services/syncOrchestrator', () => ({
+  __esModule: true,
+  previewContactMapping: jest.fn(),
+}));
+
+const mockListSyncedLabelNames = jest.fn();
+jest.mock('../services/labelSync', () => ({
+  __esModule: true,
+  LABEL_FIELD: 'labelIds',
+  listSyncedLabelNames: (...args: any[]) => mockListSyncedLabelNames(...args),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import {
+  propertyForWixField,
+  createMappedProperty,
+  archiveCustomProperty,
+  isValidPropertyName,
+} from '../services/hubspotProperties';
+import fieldMappingRouter from '../routes/field-mapping';
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+}
+
+const BIRTHDATE = { value: 'birthdate', label: 'Birthdate', type: 'date' };
+const LABELS = { value: 'labelIds', label: 'Labels', type: 'array' };
+const COMPANY = { value: 'company', label: 'Company', type: 'string' };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  Object.assign(mockInstallation, { instanceId: 'inst-1', connected: true });
+  mockClient.get.mockRejectedValue(httpError(404));
+  mockClient.post.mockResolvedValue({ data: {} });
+  mockClient.delete.mockResolvedValue({ data: {} });
+  mockLoadWixFieldRegistry.mockResolvedValue([BIRTHDATE, LABELS, COMPANY]);
+  mockMappingCreate.mockImplementation(async (doc: Record<string, unknown>) => ({ _id: 'fm-1', ...doc }));
+  mockRecordVersion.mockResolvedValue({ version: 2 });
+  mockListSyncedLabelNames.mockResolvedValue(['VIP', 'Lead']);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Property definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('propertyForWixField', () => {
+  it.each([
+    [BIRTHDATE, 'date', 'date'],
+    [LABELS, 'enumeration', 'checkbox'],
+    [{ value: 'custom.score', label: 'Score', type: 'number' }, 'number', 'number'],
+    [COMPANY, 'string', 'text'],
+    [undefined, 'string', 'text'],
+  ])('types a property for %o as %s / %s', (field, type, fieldType) => {
+    const input = propertyForWixField(field, 'wix_value', 'Wix Value');
+
+    expect(input).toEqual(
+      expect.objectContaining({ name: 'wix_value', label: 'Wix Value', type, fieldType, groupName: 'wix_integration' }),
+    );
+  });
+
+  it('starts a multi-select without options', () => {
+    expect(propertyForWixField(LABELS, 'wix_tags', 'Tags').options).toEqual([]);
+    expect(propertyForWixField(COMPANY, 'wix_company', 'Company').options).toBeUndefined();
+  });
+
+  it('offers the given values as multi-select options', () => {
+    expect(propertyForWixField(LABELS, 'wix_tags', 'Tags', ['VIP', 'Lead']).options).toEqual([
+      { label: 'VIP', value: 'VIP', displayOrder: 0 },
+      { label: 'Lead', value: 'Lead', displayOrder: 1 },
+    ]);
+  });
+});
+
+describe('isValidPropertyName', () => {
+  it('accepts HubSpot internal names only', () => {
+    expect(isValidPropertyName('wix_birthdate_2')).toBe(true);
+    expect(isValidPropertyName('Wix Birthdate')).toBe(false);
+    expect(isValidPropertyName('2nd_phone')).toBe(false);
+    expect(isValidPropertyName(undefined)).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// createMappedProperty / archiveCustomProperty
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('createMappedProperty', () => {
+  it('creates the property in the wix_integration group', async () => {
+    const created = await createMappedProperty('inst-1', BIRTHDATE, 'wix_birthdate', 'Birthdate');
+
+    expect(created).toEqual(expect.objectContaining({ name: 'wix_birthdate', type: 'date' }));
+    expect(mockClient.post).toHaveBeenCalledWith(
+      '/crm/v3/properties/contacts',
+      expect.objectContaining({ name: 'wix_birthdate', type: 'date', fieldType: 'date', groupName: 'wix_integration' }),
+    );
+  });
+
+  it('returns null and creates nothing when the property exists', async () => {
+    mockClient.get.mockResolvedValue({ data: { name: 'company' } });
+
+    expect(await createMappedProperty('inst-1', COMPANY, 'company', 'Company')).toBeNull();
+    expect(mockClient.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('archiveCustomProperty', () => {
+  it('treats a property that is already gone as archived', async () => {
+    mockClient.delete.mockRejectedValue(httpError(404));
+
+    await expect(archiveCustomProperty('inst-1', 'wix_birthdate')).resolves.toBeUndefined();
+  });
+
+  it('rethrows other failures', async () => {
+    mockClient.delete.mockRejectedValue(httpError(500));
+
+    await expect(archiveCustomProperty('inst-1', 'wix_birthdate')).rejects.toThrow('500');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/field-mappings with createProperty
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('POST /api/field-mappings — createProperty', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/field-mappings', fieldMappingRouter);
+
+  const body = {
+    wixField: 'birthdate',
+    hubspotField: 'wix_birthdate',
+    direction: 'wix_to_hubspot',
+    createProperty: {},
+  };
+
+  it('creates the property, then the rule', async () => {
+    const res = await request(app).post('/api/field-mappings').send(body);
+
+    expect(res.status).toBe(201);
+    expect(res.body.property).toEqual(
+      expect.objectContaining({ name: 'wix_birthdate', label: 'Birthdate', type: 'date', fieldType: 'date' }),
+    );
+    expect(mockClient.post.mock.invocationCallOrder[0]).toBeLessThan(
+      mockMappingCreate.mock.invocationCallOrder[0],
+    );
+    expect(mockMappingCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ wixField: 'birthdate', hubspotField: 'wix_birthdate' }),
+    );
+  });
+
+  it('offers the site\'s labels on a property created for labels', async () => {
+    const res = await request(app)
+      .post('/api/field-mappings')
+      .send({ ...body, wixField: 'labelIds', hubspotField: 'wix_tags' });
+
+    expect(res.status).toBe(201);
+    expect(mockListSyncedLabelNames).toHaveBeenCalledWith(mockInstallation);
+    expect(mockClient.post).toHaveBeenCalledWith(
+      '/crm/v3/properties/contacts',
+      expect.objectContaining({
+        name: 'wix_tags',
+        type: 'enumeration',
+        options: [
+          { label: 'VIP', value: 'VIP', displayOrder: 0 },
+          { label: 'Lead', value: 'Lead', displayOrder: 1 },
+        ],
+      }),
+    );
+  });
+
+  it('uses the given label', async () => {
+    await request(app)
+      .post('/api/field-mappings')
+      .send({ ...body, createProperty: { label: 'Date of Birth' } });
+
+    expect(mockClient.post).toHaveBeenCalledWith(
+      '/crm/v3/properties/contacts',
+      expect.objectContaining({ label: 'Date of Birth' }),
+    );
+  });
+
+  it('archives the new property when the rule cannot be saved', async () => {
+    mockMappingCreate.mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+    const res = await request(app).post('/api/field-mappings').send(body);
+
+    expect(res.status).toBe(409);
+    expect(mockClient.delete).toHaveBeenCalledWith('/crm/v3/properties/contacts/wix_birthdate');
+  });
+
+  it('saves no rule when the property cannot be created', async () => {
+    mockClient.post.mockRejectedValue(httpError(400));
+
+    const res = await request(app).post('/api/field-mappings').send(body);
+
+    expect(res.status).toBe(500);
+    expect(mockMappingCreate).not.toHaveBeenCalled();
+  });
+
+  it('refuses a property that already exists', async () => {
+    mockClient.get.mockResolvedValue({ data: { name: 'wix_birthdate' } });
+
+    const res = await request(app).post('/api/field-mappings').send(body);
+
+    expect(res.status).toBe(409);
+    expect(mockMappingCreate).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{ hubspotField: 'Wix Birthdate' }, /lowercase letters/],
+    [{ createProperty: 'yes' }, /must be an object/],
+  ])('rejects %o', async (patch, message) => {
+    const res = await request(app).post('/api/field-mappings').send({ ...body, ...patch });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(message);
+    expect(mockClient.post).not.toHaveBeenCalled();
+  });
+
+  it('needs a HubSpot connection', async () => {
+    mockInstallation.connected = false;
+
+    const res = await request(app).post('/api/field-mappings').send(body);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('HubSpot not connected');
+  });
+});
@@ -0,0 +1,214 @@
+// =============================================================================
+// HubSpot Rate Limiter Tests (Module 2-G)
+// =============================================================================
+// Tests: portalKeyFor, acquireToken, recordResponse, attachRateLimiter,
+//        getQuotaUsage
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../config', () => ({
+  __esModule: true,
+  default: { hubspotBurstLimit: 3 },
+}));
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockInstallationFindOne = jest.fn();
+jest.mock('../models/Installation', () => ({
+  __esModule: true,
+  default: { findOne: (...args: any[]) => mockInstallationFindOne(...args) },
+}));
+
+import axios from 'axios';
+import {
+  portalKeyFor,
+  acquireToken,
+  recordResponse,
+  attachRateLimiter,
+  getQuotaUsage,
+  resetRateLimiters,
+} from '../services/hubspotRateLimiter';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function givenPortal(hubspotPortalId: string) {
+  mockInstallationFindOne.mockReturnValue({
+    select: () => ({ lean: async () => ({ hubspotPortalId }) }),
+  });
+}
+
+/** Resolves `promise` if it settles within the current tick queue */
+async function settled(promise: Promise<unknown>): Promise<boolean> {
+  let done = false;
+  promise.then(() => {
+    done = true;
+  });
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+  return done;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers();
+  resetRateLimiters();
+  givenPortal('12345');
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// portalKeyFor
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('portalKeyFor', () => {
+  it('should key installations by their HubSpot portal', async () => {
+    expect(await portalKeyFor('inst-1')).toBe('portal:12345');
+  });
+
+  it('should give an installation without a portal its own bucket', async () => {
+    givenPortal('');
+    expect(await portalKeyFor('inst-1')).toBe('instance:inst-1');
+  });
+
+  it('should cache the portal key', async () => {
+    await portalKeyFor('inst-1');
+    await portalKeyFor('inst-1');
+    expect(mockInstallationFindOne).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// acquireToken
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('acquireToken', () => {
+  it('should let a burst of up to the limit through immediately', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await settled(acquireToken('portal:1'))).toBe(true);
+    }
+  });
+
+  it('should make the next request wait until a token is refilled', async () => {
+    for (let i = 0; i < 3; i++) await acquireToken('portal:1');
+
+    const next = acquireToken('portal:1');
+    expect(await settled(next)).toBe(false);
+
+    // 3 tokens per 10 s → one token every ~3.3 s
+    await jest.advanceTimersByTimeAsync(3_400);
+    expect(await settled(next)).toBe(true);
+  });
+
+  it('should keep separate buckets per portal', async () => {
+    for (let i = 0; i < 3; i++) await acquireToken('portal:1');
+    expect(await settled(acquireToken('portal:2'))).toBe(true);
+  });
+
+  it('should count requests that had to wait', async () => {
+    for (let i = 0; i < 3; i++) await acquireToken('portal:12345');
+    const next = acquireToken('portal:12345');
+    await jest.advanceTimersByTimeAsync(3_400);
+    await next;
+
+    expect((await getQuotaUsage('inst-1')).throttledRequests).toBe(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// recordResponse
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('recordResponse', () => {
+  it('should adopt the limit and remaining count HubSpot reports', async () => {
+    recordResponse('portal:12345', 200, {
+      'x-hubspot-ratelimit-max': '110',
+      'x-hubspot-ratelimit-interval-milliseconds': '10000',
+      'x-hubspot-ratelimit-remaining': '2',
+    });
+
+    const usage = await getQuotaUsage('inst-1');
+    expect(usage.burstLimit).toBe(110);
+    expect(usage.burstRemaining).toBe(2);
+    expect(usage.reportedAt).not.toBeNull();
+  });
+
+  it('should report the daily quota when HubSpot sends it', async () => {
+    recordResponse('portal:12345', 200, {
+      'x-hubspot-ratelimit-daily': '250000',
+      'x-hubspot-ratelimit-daily-remaining': '249000',
+    });
+
+    const usage = await getQuotaUsage('inst-1');
+    expect(usage.dailyLimit).toBe(250000);
+    expect(usage.dailyRemaining).toBe(249000);
+  });
+
+  it('should ignore malformed headers', async () => {
+    recordResponse('portal:12345', 200, { 'x-hubspot-ratelimit-remaining': 'lots' });
+
+    const usage = await getQuotaUsage('inst-1');
+    expect(usage.burstRemaining).toBe(3);
+    expect(usage.reportedAt).toBeNull();
+  });
+
+  it('should empty the bucket on a 429', async () => {
+    recordResponse('portal:12345', 429, {});
+
+    const usage = await getQuotaUsage('inst-1');
+    expect(usage.burstRemaining).toBe(0);
+    expect(usage.rateLimitedResponses).toBe(1);
+    expect(await settled(acquireToken('portal:12345'))).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// attachRateLimiter
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('attachRateLimiter', () => {
+  it('should take a token per request and record the response headers', async () => {
+    const client = axios.create();
+    client.defaults.adapter = async (request: any) => ({
+      data: {},
+      status: 200,
+      statusText: 'OK',
+      headers: { 'x-hubspot-ratelimit-remaining': '1' },
+      config: request,
+    });
+    attachRateLimiter(client, 'portal:12345');
+
+    await client.get('/crm/v3/objects/contacts');
+
+    expect((await getQuotaUsage('inst-1')).burstRemaining).toBe(1);
+  });
+
+  it('should record rate-limited error responses', async () => {
+    const client = axios.create();
+    client.defaults.adapter = async (request: any) => {
+      const err: any = new Error('Request failed with status code 429');
+      err.response = { status: 429, headers: {}, config: request, data: {} };
+      throw err;
+    };
+    attachRateLimiter(client, 'portal:12345');
+
+    await expect(client.get('/crm/v3/objects/contacts')).rejects.toThrow('429');
+    expect((await getQuotaUsage('inst-1')).rateLimitedResponses).toBe(1);
+  });
+});
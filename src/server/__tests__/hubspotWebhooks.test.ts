@@ -6,9 +6,11 @@
 //   1. Valid HMAC-SHA256 signatures pass (verifySignature)
 //   2. Tampered / missing signatures are rejected in production
 //   3. Malformed events are dropped without crashing (Zod validation)
-//   4. Valid events are routed to the correct sync function
-//   5. contact.deletion removes the mapping
-//   6. Echo detection skips our own sync-tag changes
+//   4. Valid events are enqueued as the correct sync job type
+//   5. contact.deletion is enqueued for the deletion policy
+//   6. Sync-tag property changes are never enqueued
+//   7. A failed enqueue answers 500 so HubSpot redelivers
+//   8. contact.merge / contact.associationChange are enqueued
 // =============================================================================
 
 process.env.ENCRYPTION_KEY = 'a'.repeat(64);
@@ -41,30 +43,10 @@ jest.mock('../models/Installation', () => ({
   },
 }));
 
-const mockHandleHubSpotWebhook = jest.fn();
-jest.mock('../services/syncOrchestrator', () => ({
+const mockEnqueueSyncJob = jest.fn();
+jest.mock('../services/jobQueue', () => ({
   __esModule: true,
-  handleHubSpotWebhook: (...args: any[]) => mockHandleHubSpotWebhook(...args),
-}));
-
-const mockDeleteMapping = jest.fn();
-jest.mock('../services/mappingStore', () => ({
-  __esModule: true,
-  deleteMapping: (...args: any[]) => mockDeleteMapping(...args),
-}));
-
-const mockIsSyncEcho = jest.fn();
-const mockExtractSyncId = jest.fn();
-jest.mock('../services/dedupeGuard', () => ({
-  __esModule: true,
-  isSyncEcho: (...args: any[]) => mockIsSyncEcho(...args),
-  extractSyncId: (...args: any[]) => mockExtractSyncId(...args),
-}));
-
-const mockGetContactById = jest.fn();
-jest.mock('../services/hubspotContacts', () => ({
-  __esModule: true,
-  getContactById: (...args: any[]) => mockGetContactById(...args),
+  enqueueSyncJob: (...args: any[]) => mockEnqueueSyncJob(...args),
 }));
 
 // ── Now import the route + Express helpers ──────────────────────────────────
@@ -127,14 +109,7 @@ beforeEach(() => {
   jest.clearAllMocks();
   app = createApp();
   mockInstallationFindOne.mockResolvedValue(makeInstallation());
-  mockHandleHubSpotWebhook.mockResolvedValue({});
-  mockDeleteMapping.mockResolvedValue(undefined);
-  mockIsSyncEcho.mockResolvedValue(false);
-  mockExtractSyncId.mockReturnValue(undefined);
-  mockGetContactById.mockResolvedValue({
-    id: '100',
-    properties: { email: 'john@test.com' },
-  });
+  mockEnqueueSyncJob.mockResolvedValue({ _id: 'job-1' });
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -156,8 +131,8 @@ describe('HMAC-SHA256 signature verification', () => {
     expect(res.body).toEqual({ received: true });
   });
 
-  it('should still return 200 on tampered signature (processes async)', async () => {
-    // The route returns 200 immediately, signature check happens after.
+  it('should still return 200 on tampered signature outside production', async () => {
+    // Signature failures are only enforced when NODE_ENV=production.
     const body = JSON.stringify([makeEvent()]);
     const res = await request(app)
       .post('/api/webhooks/hubspot')
@@ -220,8 +195,8 @@ describe('Malformed event handling (Zod validation)', () => {
     // Give async processing a tick to complete
     await new Promise((r) => setTimeout(r, 50));
 
-    // The orchestrator should NOT have been called
-    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+    // Nothing should have been queued
+    expect(mockEnqueueSyncJob).not.toHaveBeenCalled();
   });
 
   it('should drop events with negative objectId', async () => {
@@ -237,7 +212,7 @@ describe('Malformed event handling (Zod validation)', () => {
 
     expect(res.status).toBe(200);
     await new Promise((r) => setTimeout(r, 50));
-    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+    expect(mockEnqueueSyncJob).not.toHaveBeenCalled();
   });
 
   it('should process valid events and drop malformed ones in same batch', async () => {
@@ -256,7 +231,7 @@ describe('Malformed event handling (Zod validation)', () => {
     await new Promise((r) => setTimeout(r, 100));
 
     // Only the valid event should trigger a call
-    expect(mockHandleHubSpotWebhook).toHaveBeenCalledTimes(1);
+    expect(mockEnqueueSyncJob).toHaveBeenCalledTimes(1);
   });
 });
 
@@ -265,7 +240,7 @@ describe('Malformed event handling (Zod validation)', () => {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 describe('Event routing', () => {
-  it('should route contact.creation to handleHubSpotWebhook with "created"', async () => {
+  it('should enqueue contact.creation as a hubspot_contact_created job', async () => {
     const event = makeEvent({ subscriptionType: 'contact.creation' });
     const body = JSON.stringify([event]);
 
@@ -277,16 +252,15 @@ describe('Event routing', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockHandleHubSpotWebhook).toHaveBeenCalledWith(
-      expect.objectContaining({ instanceId: 'inst-test-1' }),
-      '100', // objectId stringified
-      expect.any(Object), // properties
-      'created',
-      'hubspot_webhook',
-    );
+    expect(mockEnqueueSyncJob).toHaveBeenCalledWith({
+      instanceId: 'inst-test-1',
+      type: 'hubspot_contact_created',
+      contactId: '100', // objectId stringified
+      source: 'hubspot_webhook',
+    });
   });
 
-  it('should route contact.propertyChange to handleHubSpotWebhook with "updated"', async () => {
+  it('should enqueue contact.propertyChange as a hubspot_contact_updated job', async () => {
     const event = makeEvent({
       subscriptionType: 'contact.propertyChange',
       propertyName: 'firstname',
@@ -302,16 +276,15 @@ describe('Event routing', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockHandleHubSpotWebhook).toHaveBeenCalledWith(
-      expect.objectContaining({ instanceId: 'inst-test-1' }),
-      '100',
-      expect.any(Object),
-      'updated',
-      'hubspot_webhook',
-    );
+    expect(mockEnqueueSyncJob).toHaveBeenCalledWith({
+      instanceId: 'inst-test-1',
+      type: 'hubspot_contact_updated',
+      contactId: '100',
+      source: 'hubspot_webhook',
+    });
   });
 
-  it('should route contact.deletion to deleteMapping', async () => {
+  it('should enqueue contact.deletion as a hubspot_contact_deleted job', async () => {
     const event = makeEvent({
       subscriptionType: 'contact.deletion',
     });
@@ -325,12 +298,12 @@ describe('Event routing', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockDeleteMapping).toHaveBeenCalledWith(
-      'inst-test-1',
-      undefined,
-      '100',
-    );
-    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+    expect(mockEnqueueSyncJob).toHaveBeenCalledWith({
+      instanceId: 'inst-test-1',
+      type: 'hubspot_contact_deleted',
+      contactId: '100',
+      source: 'hubspot_webhook',
+    });
   });
 
   it('should skip sync-tag property changes (our own echo)', async () => {
@@ -349,20 +322,44 @@ describe('Event routing', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+    expect(mockEnqueueSyncJob).not.toHaveBeenCalled();
   });
-});
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// 5. Dedupe guard — echo detection
-// ═══════════════════════════════════════════════════════════════════════════════
+  it('should enqueue contact.merge as one job for the surviving record', async () => {
+    const event = makeEvent({
+      subscriptionType: 'contact.merge',
+      objectId: 100,
+      primaryObjectId: 100,
+      mergedObjectIds: [200, 300],
+      newObjectId: 400,
+    });
+    const body = JSON.stringify([event]);
+
+    await request(app)
+      .post('/api/webhooks/hubspot')
+      .set('Content-Type', 'application/json')
+      .set('x-hubspot-signature', sign(body))
+      .send(body);
 
-describe('Dedupe guard — echo detection', () => {
-  it('should skip events identified as our own sync echoes', async () => {
-    mockExtractSyncId.mockReturnValue('sync-id-from-tag');
-    mockIsSyncEcho.mockResolvedValue(true);
+    await new Promise((r) => setTimeout(r, 100));
 
-    const event = makeEvent({ subscriptionType: 'contact.creation' });
+    expect(mockEnqueueSyncJob).toHaveBeenCalledTimes(1);
+    expect(mockEnqueueSyncJob).toHaveBeenCalledWith({
+      instanceId: 'inst-test-1',
+      type: 'hubspot_contact_merged',
+      contactId: '400',
+      payload: { mergedIds: ['100', '200', '300'] },
+      source: 'hubspot_webhook',
+    });
+  });
+
+  it('should treat the primary record as the survivor when no new ID is given', async () => {
+    const event = makeEvent({
+      subscriptionType: 'contact.merge',
+      objectId: 100,
+      primaryObjectId: 100,
+      mergedObjectIds: [200],
+    });
     const body = JSON.stringify([event]);
 
     await request(app)
@@ -373,14 +370,44 @@ describe('Dedupe guard — echo detection', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+    expect(mockEnqueueSyncJob).toHaveBeenCalledWith(
+      expect.objectContaining({ contactId: '100', payload: { mergedIds: ['200'] } }),
+    );
   });
 
-  it('should process events that are NOT echoes', async () => {
-    mockExtractSyncId.mockReturnValue(undefined);
-    mockIsSyncEcho.mockResolvedValue(false);
+  it('should enqueue a contact association change as a hubspot_contact_updated job', async () => {
+    const { objectId: _objectId, ...event } = makeEvent({
+      subscriptionType: 'contact.associationChange',
+      associationType: 'CONTACT_TO_COMPANY',
+      fromObjectId: 100,
+      toObjectId: 900,
+      associationRemoved: false,
+    });
+    const body = JSON.stringify([event]);
 
-    const event = makeEvent({ subscriptionType: 'contact.creation' });
+    await request(app)
+      .post('/api/webhooks/hubspot')
+      .set('Content-Type', 'application/json')
+      .set('x-hubspot-signature', sign(body))
+      .send(body);
+
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(mockEnqueueSyncJob).toHaveBeenCalledWith({
+      instanceId: 'inst-test-1',
+      type: 'hubspot_contact_updated',
+      contactId: '100',
+      source: 'hubspot_webhook',
+    });
+  });
+
+  it('should skip association changes whose "from" side is not a contact', async () => {
+    const { objectId: _objectId, ...event } = makeEvent({
+      subscriptionType: 'contact.associationChange',
+      associationType: 'COMPANY_TO_CONTACT',
+      fromObjectId: 900,
+      toObjectId: 100,
+    });
     const body = JSON.stringify([event]);
 
     await request(app)
@@ -391,12 +418,12 @@ describe('Dedupe guard — echo detection', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockHandleHubSpotWebhook).toHaveBeenCalledTimes(1);
+    expect(mockEnqueueSyncJob).not.toHaveBeenCalled();
   });
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// 6. Edge cases
+// 5. Edge cases
 // ═══════════════════════════════════════════════════════════════════════════════
 
 describe('Edge cases', () => {
@@ -412,7 +439,7 @@ describe('Edge cases', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockHandleHubSpotWebhook).toHaveBeenCalledTimes(1);
+    expect(mockEnqueueSyncJob).toHaveBeenCalledTimes(1);
   });
 
   it('should skip events for disconnected installations', async () => {
@@ -431,7 +458,7 @@ describe('Edge cases', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+    expect(mockEnqueueSyncJob).not.toHaveBeenCalled();
   });
 
   it('should skip events for unknown portal IDs', async () => {
@@ -447,13 +474,17 @@ describe('Edge cases', () => {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+    expect(mockEnqueueSyncJob).not.toHaveBeenCalled();
   });
 
-  it('should handle contact not found after creation event gracefully', async () => {
-    mockGetContactById.mockResolvedValue(null);
+  it('should enqueue multiple events in one batch', async () => {
+    const events = [
+      makeEvent({ objectId: 1, subscriptionType: 'contact.creation' }),
+      makeEvent({ objectId: 2, subscriptionType: 'contact.creation' }),
+      makeEvent({ objectId: 3, subscriptionType: 'contact.creation' }),
+    ];
 
-    const body = JSON.stringify([makeEvent()]);
+    const body = JSON.stringify(events);
 
     await request(app)
       .post('/api/webhooks/hubspot')
@@ -461,33 +492,39 @@ describe('Edge cases', () => {
       .set('x-hubspot-signature', sign(body))
       .send(body);
 
-    await new Promise((r) => setTimeout(r, 100));
+    await new Promise((r) => setTimeout(r, 200));
 
-    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+    expect(mockEnqueueSyncJob).toHaveBeenCalledTimes(3);
   });
+});
 
-  it('should process multiple events concurrently', async () => {
-    const events = [
-      makeEvent({ objectId: 1, subscriptionType: 'contact.creation' }),
-      makeEvent({ objectId: 2, subscriptionType: 'contact.creation' }),
-      makeEvent({ objectId: 3, subscriptionType: 'contact.creation' }),
-    ];
+// ═══════════════════════════════════════════════════════════════════════════════
+// 6. Durable delivery — acknowledge only after enqueue
+// ═══════════════════════════════════════════════════════════════════════════════
 
-    mockGetContactById.mockImplementation(async (_inst: string, id: string) => ({
-      id,
-      properties: { email: `user${id}@test.com` },
-    }));
+describe('Durable delivery', () => {
+  it('should return 500 when a job cannot be queued so HubSpot retries', async () => {
+    mockEnqueueSyncJob.mockRejectedValue(new Error('Mongo unavailable'));
 
-    const body = JSON.stringify(events);
+    const body = JSON.stringify([makeEvent()]);
+    const res = await request(app)
+      .post('/api/webhooks/hubspot')
+      .set('Content-Type', 'application/json')
+      .set('x-hubspot-signature', sign(body))
+      .send(body);
 
+    expect(res.status).toBe(500);
+  });
+
+  it('should have queued the job before responding', async () => {
+    const body = JSON.stringify([makeEvent()]);
     await request(app)
       .post('/api/webhooks/hubspot')
       .set('Content-Type', 'application/json')
       .set('x-hubspot-signature', sign(body))
       .send(body);
 
-    await new Promise((r) => setTimeout(r, 200));
-
-    expect(mockHandleHubSpotWebhook).toHaveBeenCalledTimes(3);
+    // No wait — the job must already be persisted when the 200 arrives
+    expect(mockEnqueueSyncJob).toHaveBeenCalledTimes(1);
   });
 });
@@ -95,11 +95,19 @@ jest.mock('../models/FieldMapping', () => {
   return { __esModule: true, default: actual, DEFAULT_FIELD_MAPPINGS: actual.DEFAULT_FIELD_MAPPINGS };
 });
 
+jest.mock('../models/FieldMappingVersion', () => ({
+  __esModule: true,
+  default: {
+    findOne: jest.fn().mockReturnValue({ sort: jest.fn().mockResolvedValue(null) }),
+    create: jest.fn().mockResolvedValue({}),
+  },
+}));
+
 jest.mock('../models/SyncDedupeLog', () => ({
   __esModule: true,
   default: {
     findOne: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(null) }),
-    create: jest.fn().mockResolvedValue({}),
+    updateOne: jest.fn().mockResolvedValue({}),
     deleteMany: jest.fn().mockResolvedValue({}),
   },
 }));
@@ -125,6 +133,21 @@ jest.mock('../models/SyncError', () => ({
   default: { create: jest.fn().mockResolvedValue({}) },
 }));
 
+jest.mock('../models/SyncJob', () => ({
+  __esModule: true,
+  default: { create: jest.fn().mockResolvedValue({ _id: 'job-1' }) },
+}));
+
+jest.mock('../models/LabelListMapping', () => ({
+  __esModule: true,
+  default: { find: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('../models/SyncFilter', () => ({
+  __esModule: true,
+  default: { find: jest.fn(() => ({ sort: jest.fn().mockResolvedValue([]) })) },
+}));
+
 // ── Mock services ───────────────────────────────────────────────────────────
 jest.mock('../services/cleanupScheduler', () => ({
   __esModule: true,
@@ -132,6 +155,25 @@ jest.mock('../services/cleanupScheduler', () => ({
   stopCleanupScheduler: jest.fn(),
 }));
 
+jest.mock('../services/jobQueue', () => ({
+  __esModule: true,
+  enqueueSyncJob: jest.fn().mockResolvedValue({ _id: 'job-1' }),
+  startJobWorker: jest.fn(),
+  stopJobWorker: jest.fn(),
+  getQueueStats: jest.fn().mockResolvedValue({ pending: 0, leased: 0, completed: 0, dead: 0 }),
+  listDeadJobs: jest.fn().mockResolvedValue([]),
+  retryDeadJob: jest.fn().mockResolvedValue(false),
+}));
+
+jest.mock('../services/deltaSyncScheduler', () => ({
+  __esModule: true,
+  startDeltaSyncScheduler: jest.fn(),
+  stopDeltaSyncScheduler: jest.fn(),
+  triggerDeltaSync: jest.fn().mockResolvedValue(null),
+  isDeltaSyncRunning: jest.fn().mockReturnValue(false),
+  isDeltaSyncSchedulerRunning: jest.fn().mockReturnValue(false),
+}));
+
 jest.mock('../services/hubspotService', () => ({
   __esModule: true,
   createContact: jest.fn(),
@@ -192,6 +234,10 @@ jest.mock('../services/syncOrchestrator', () => ({
   onHubSpotContactCreated: jest.fn(),
   onHubSpotContactUpdated: jest.fn(),
   runFullSync: jest.fn(),
+  pauseFullSync: jest.fn(),
+  resumeFullSync: jest.fn(),
+  cancelFullSync: jest.fn(),
+  getLatestSyncRun: jest.fn(),
   handleWixWebhook: jest.fn(),
   handleHubSpotWebhook: jest.fn(),
 }));
@@ -314,6 +360,66 @@ describe('Auth-protected routes (no token)', () => {
     expect(res.status).toBe(401);
   });
 
+  it('POST /api/sync/dry-run should return 401', async () => {
+    const res = await request(app).post('/api/sync/dry-run');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('POST /api/sync/pause should return 401', async () => {
+    const res = await request(app).post('/api/sync/pause');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('GET /api/sync/order-sync should return 401', async () => {
+    const res = await request(app).get('/api/sync/order-sync');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('GET /api/field-mappings/versions should return 401', async () => {
+    const res = await request(app).get('/api/field-mappings/versions');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('POST /api/field-mappings/preview should return 401', async () => {
+    const res = await request(app).post('/api/field-mappings/preview').send({ wixContactId: 'wix-1' });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('GET /api/config/export should return 401', async () => {
+    const res = await request(app).get('/api/config/export');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('POST /api/config/import should return 401', async () => {
+    const res = await request(app).post('/api/config/import').send({ document: '{}' });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('GET /api/sync-filters should return 401', async () => {
+    const res = await request(app).get('/api/sync-filters');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('GET /api/sync/quota should return 401', async () => {
+    const res = await request(app).get('/api/sync/quota');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('GET /api/sync/label-sync should return 401', async () => {
+    const res = await request(app).get('/api/sync/label-sync');
+
+    expect(res.status).toBe(401);
+  });
+
   it('GET /api/widget/config should return 401', async () => {
     const res = await request(app).get('/api/widget/config');
 
@@ -353,4 +459,12 @@ describe('Webhook routes', () => {
     // May return 200 or 400 depending on validation, but not 404
     expect(res.status).not.toBe(404);
   });
+
+  it('POST /api/webhooks/wix-orders should acknowledge unhandled events', async () => {
+    const res = await request(app)
+      .post('/api/webhooks/wix-orders')
+      .send({ instanceId: 'inst-1', eventType: 'wix.ecom.v1.order_updated', data: {} });
+
+    expect(res.status).toBe(200);
+  });
 });
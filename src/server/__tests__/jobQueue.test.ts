@@ -0,0 +1,625 @@
+// =============================================================================
+// Durable Sync Job Queue Tests (Module 13)
+// =============================================================================
+// Tests: computeBackoffMs, isPermanentFailure, enqueueSyncJob, processJob
+//        (dispatch + echo skip), failJob (retry vs dead-letter), leaseNextJob
+//        (per-contact serialisation), parkJob / replayParkedJobs / pollOnce
+//        (degraded mode)
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockJobCreate = jest.fn();
+const mockJobFind = jest.fn();
+const mockJobExists = jest.fn();
+const mockJobFindOneAndUpdate = jest.fn();
+const mockJobUpdateOne = jest.fn();
+const mockJobUpdateMany = jest.fn();
+const mockJobDistinct = jest.fn();
+jest.mock('../models/SyncJob', () => ({
+  __esModule: true,
+  default: {
+    create: (...args: any[]) => mockJobCreate(...args),
+    find: (...args: any[]) => mockJobFind(...args),
+    exists: (...args: any[]) => mockJobExists(...args),
+    findOneAndUpdate: (...args: any[]) => mockJobFindOneAndUpdate(...args),
+    updateOne: (...args: any[]) => mockJobUpdateOne(...args),
+    updateMany: (...args: any[]) => mockJobUpdateMany(...args),
+    distinct: (...args: any[]) => mockJobDistinct(...args),
+  },
+}));
+
+const mockSyncErrorCreate = jest.fn();
+jest.mock('../models/SyncError', () => ({
+  __esModule: true,
+  default: { create: (...args: any[]) => mockSyncErrorCreate(...args) },
+}));
+
+const mockInstallationFindOne = jest.fn();
+jest.mock('../models/Installation', () => ({
+  __esModule: true,
+  default: { findOne: (...args: any[]) => mockInstallationFindOne(...args) },
+}));
+
+const mockHandleWixWebhook = jest.fn();
+const mockHandleHubSpotWebhook = jest.fn();
+const mockOnWixContactDeleted = jest.fn();
+const mockOnHubSpotContactDeleted = jest.fn();
+const mockOnHubSpotContactsMerged = jest.fn();
+jest.mock('../services/syncOrchestrator', () => ({
+  __esModule: true,
+  handleWixWebhook: (...args: any[]) => mockHandleWixWebhook(...args),
+  handleHubSpotWebhook: (...args: any[]) => mockHandleHubSpotWebhook(...args),
+  onWixContactDeleted: (...args: any[]) => mockOnWixContactDeleted(...args),
+  onHubSpotContactDeleted: (...args: any[]) => mockOnHubSpotContactDeleted(...args),
+  onHubSpotContactsMerged: (...args: any[]) => mockOnHubSpotContactsMerged(...args),
+}));
+
+const mockSyncWixOrder = jest.fn();
+jest.mock('../services/orderSync', () => ({
+  __esModule: true,
+  syncWixOrder: (...args: any[]) => mockSyncWixOrder(...args),
+}));
+
+const mockGetContactById = jest.fn();
+jest.mock('../services/hubspotContacts', () => ({
+  __esModule: true,
+  getContactById: (...args: any[]) => mockGetContactById(...args),
+}));
+
+const mockLoadMappingRules = jest.fn();
+jest.mock('../services/fieldMappingEngine', () => ({
+  __esModule: true,
+  loadMappingRules: (...args: any[]) => mockLoadMappingRules(...args),
+}));
+
+const mockLoadSyncFilters = jest.fn();
+jest.mock('../services/syncFilters', () => ({
+  __esModule: true,
+  loadSyncFilters: (...args: any[]) => mockLoadSyncFilters(...args),
+  filterProperties: jest.requireActual('../services/syncFilters').filterProperties,
+}));
+
+const mockIsSyncEcho = jest.fn();
+const mockExtractSyncId = jest.fn();
+jest.mock('../services/dedupeGuard', () => ({
+  __esModule: true,
+  isSyncEcho: (...args: any[]) => mockIsSyncEcho(...args),
+  extractSyncId: (...args: any[]) => mockExtractSyncId(...args),
+}));
+
+const mockIsCircuitOpen = jest.fn();
+jest.mock('../services/circuitBreaker', () => ({
+  __esModule: true,
+  CircuitOpenError: jest.requireActual('../services/circuitBreaker').CircuitOpenError,
+  isCircuitOpen: (...args: any[]) => mockIsCircuitOpen(...args),
+}));
+
+const mockFindByWixId = jest.fn();
+const mockFindByHubSpotId = jest.fn();
+jest.mock('../services/mappingStore', () => ({
+  __esModule: true,
+  findByWixId: (...args: any[]) => mockFindByWixId(...args),
+  findByHubSpotId: (...args: any[]) => mockFindByHubSpotId(...args),
+}));
+
+import {
+  computeBackoffMs,
+  isPermanentFailure,
+  enqueueSyncJob,
+  processJob,
+  failJob,
+  leaseNextJob,
+  parkJob,
+  replayParkedJobs,
+  pollOnce,
+} from '../services/jobQueue';
+import { CircuitOpenError } from '../services/circuitBreaker';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function makeJob(overrides: Record<string, any> = {}): any {
+  return {
+    _id: 'job-1',
+    instanceId: 'inst-1',
+    type: 'wix_contact_created',
+    contactId: 'wix-1',
+    contactKey: 'wix:wix-1',
+    payload: { contact: { _id: 'wix-1' } },
+    source: 'wix_webhook',
+    attempts: 1,
+    maxAttempts: 5,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+/** Chainable stub for `SyncJob.find(...).sort().limit().select().lean()` */
+function findChain(result: any[]) {
+  const chain: any = {};
+  chain.sort = jest.fn(() => chain);
+  chain.limit = jest.fn(() => chain);
+  chain.select = jest.fn(() => chain);
+  chain.lean = jest.fn(async () => result);
+  return chain;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockInstallationFindOne.mockResolvedValue({
+    instanceId: 'inst-1',
+    connected: true,
+    syncEnabled: true,
+  });
+  mockIsSyncEcho.mockResolvedValue(false);
+  mockExtractSyncId.mockReturnValue(undefined);
+  mockFindByWixId.mockResolvedValue(null);
+  mockFindByHubSpotId.mockResolvedValue(null);
+  mockLoadMappingRules.mockResolvedValue([]);
+  mockLoadSyncFilters.mockResolvedValue([]);
+  mockHandleWixWebhook.mockResolvedValue({});
+  mockHandleHubSpotWebhook.mockResolvedValue({});
+  mockJobUpdateOne.mockResolvedValue({ modifiedCount: 1 });
+  mockSyncErrorCreate.mockResolvedValue({});
+  mockIsCircuitOpen.mockReturnValue(false);
+  mockJobDistinct.mockResolvedValue([]);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// computeBackoffMs / isPermanentFailure
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('computeBackoffMs', () => {
+  it('should double the delay on each attempt', () => {
+    expect(computeBackoffMs(1)).toBe(30_000);
+    expect(computeBackoffMs(2)).toBe(60_000);
+    expect(computeBackoffMs(3)).toBe(120_000);
+  });
+
+  it('should cap the delay at 30 minutes', () => {
+    expect(computeBackoffMs(20)).toBe(30 * 60 * 1000);
+  });
+});
+
+describe('isPermanentFailure', () => {
+  it('should treat 4xx responses as permanent', () => {
+    expect(isPermanentFailure({ response: { status: 400 } })).toBe(true);
+    expect(isPermanentFailure({ statusCode: 404 })).toBe(true);
+  });
+
+  it('should treat 408, 429, 5xx and network errors as retryable', () => {
+    expect(isPermanentFailure({ response: { status: 408 } })).toBe(false);
+    expect(isPermanentFailure({ response: { status: 429 } })).toBe(false);
+    expect(isPermanentFailure({ response: { status: 503 } })).toBe(false);
+    expect(isPermanentFailure(new Error('ECONNRESET'))).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// enqueueSyncJob
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('enqueueSyncJob', () => {
+  it('should persist a pending job keyed by side + contact ID', async () => {
+    mockJobCreate.mockResolvedValue({ _id: 'job-1' });
+
+    await enqueueSyncJob({
+      instanceId: 'inst-1',
+      type: 'hubspot_contact_updated',
+      contactId: '100',
+      source: 'hubspot_webhook',
+    });
+
+    expect(mockJobCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        instanceId: 'inst-1',
+        type: 'hubspot_contact_updated',
+        contactId: '100',
+        contactKey: 'hubspot:100',
+        payload: {},
+      }),
+    );
+  });
+
+  it('should key order jobs by order ID', async () => {
+    mockJobCreate.mockResolvedValue({ _id: 'job-1' });
+
+    await enqueueSyncJob({
+      instanceId: 'inst-1',
+      type: 'wix_order_created',
+      contactId: 'order-1',
+      payload: { order: { _id: 'order-1' } },
+      source: 'wix_webhook',
+    });
+
+    expect(mockJobCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ contactKey: 'order:order-1' }),
+    );
+  });
+
+  it('should park the job while the installation circuit is open', async () => {
+    mockIsCircuitOpen.mockReturnValue(true);
+    mockJobCreate.mockResolvedValue({ _id: 'job-1', status: 'parked' });
+
+    await enqueueSyncJob({
+      instanceId: 'inst-1',
+      type: 'wix_contact_updated',
+      contactId: 'wix-1',
+      source: 'wix_webhook',
+    });
+
+    expect(mockIsCircuitOpen).toHaveBeenCalledWith('inst-1');
+    expect(mockJobCreate).toHaveBeenCalledWith(expect.objectContaining({ status: 'parked' }));
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// processJob — dispatch to the orchestrator
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('processJob', () => {
+  it('should dispatch Wix jobs to handleWixWebhook', async () => {
+    await processJob(makeJob({ type: 'wix_contact_updated' }));
+
+    expect(mockHandleWixWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ instanceId: 'inst-1' }),
+      'wix-1',
+      { _id: 'wix-1' },
+      'updated',
+      'wix_webhook',
+    );
+  });
+
+  it('should fetch the latest HubSpot contact and dispatch it', async () => {
+    mockGetContactById.mockResolvedValue({ id: '100', properties: { email: 'a@b.com' } });
+
+    await processJob(
+      makeJob({
+        type: 'hubspot_contact_created',
+        contactId: '100',
+        contactKey: 'hubspot:100',
+        payload: {},
+        source: 'hubspot_webhook',
+      }),
+    );
+
+    expect(mockGetContactById).toHaveBeenCalledWith('inst-1', '100', expect.any(Array));
+    expect(mockHandleHubSpotWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ instanceId: 'inst-1' }),
+      '100',
+      { email: 'a@b.com' },
+      'created',
+      'hubspot_webhook',
+    );
+  });
+
+  it('should also fetch every mapped HubSpot property', async () => {
+    mockLoadMappingRules.mockResolvedValue([{ hubspotField: 'wix_labels' }, { hubspotField: 'email' }]);
+    mockGetContactById.mockResolvedValue({ id: '100', properties: {} });
+
+    await processJob(makeJob({ type: 'hubspot_contact_updated', contactId: '100', payload: {} }));
+
+    const fetched: string[] = mockGetContactById.mock.calls[0][2];
+    expect(fetched).toContain('wix_labels');
+    expect(fetched.filter((p) => p === 'email')).toHaveLength(1);
+  });
+
+  it('should also fetch the HubSpot properties the sync filters read', async () => {
+    mockLoadSyncFilters.mockResolvedValue([
+      {
+        side: 'both',
+        conditions: [
+          { kind: 'field', field: 'hs_marketable_status', operator: 'equals', value: 'false' },
+          { kind: 'source', operator: 'equals', value: 'IMPORT' },
+        ],
+      },
+    ]);
+    mockGetContactById.mockResolvedValue({ id: '100', properties: {} });
+
+    await processJob(makeJob({ type: 'hubspot_contact_created', contactId: '100', payload: {} }));
+
+    const fetched: string[] = mockGetContactById.mock.calls[0][2];
+    expect(fetched).toEqual(expect.arrayContaining(['hs_marketable_status', 'hs_object_source']));
+  });
+
+  it('should dispatch deletion jobs without fetching the contact', async () => {
+    await processJob(makeJob({ type: 'hubspot_contact_deleted', contactId: '100', payload: {} }));
+
+    expect(mockOnHubSpotContactDeleted).toHaveBeenCalledWith(
+      expect.objectContaining({ instanceId: 'inst-1' }),
+      '100',
+      'wix_webhook',
+    );
+    expect(mockGetContactById).not.toHaveBeenCalled();
+  });
+
+  it('should dispatch merge jobs and queue an update of the surviving record', async () => {
+    mockOnHubSpotContactsMerged.mockResolvedValue({ action: 'merge' });
+    mockJobCreate.mockResolvedValue({ _id: 'job-2' });
+
+    await processJob(
+      makeJob({
+        type: 'hubspot_contact_merged',
+        contactId: '400',
+        contactKey: 'hubspot:400',
+        payload: { mergedIds: ['100', '200'] },
+        source: 'hubspot_webhook',
+      }),
+    );
+
+    expect(mockOnHubSpotContactsMerged).toHaveBeenCalledWith(
+      expect.objectContaining({ instanceId: 'inst-1' }),
+      '400',
+      ['100', '200'],
+      'hubspot_webhook',
+    );
+    expect(mockJobCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'hubspot_contact_updated', contactId: '400', contactKey: 'hubspot:400' }),
+    );
+  });
+
+  it('should not queue an update when no merged record was linked', async () => {
+    mockOnHubSpotContactsMerged.mockResolvedValue({ action: 'skip' });
+
+    await processJob(makeJob({ type: 'hubspot_contact_merged', contactId: '400', payload: { mergedIds: ['100'] } }));
+
+    expect(mockJobCreate).not.toHaveBeenCalled();
+  });
+
+  it('should dispatch order jobs to order sync', async () => {
+    await processJob(
+      makeJob({
+        type: 'wix_order_created',
+        contactId: 'order-1',
+        contactKey: 'order:order-1',
+        payload: { order: { _id: 'order-1' } },
+      }),
+    );
+
+    expect(mockSyncWixOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ instanceId: 'inst-1' }),
+      { _id: 'order-1' },
+    );
+    expect(mockHandleWixWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should skip jobs identified as our own sync echoes', async () => {
+    mockExtractSyncId.mockReturnValue('sync-id');
+    mockIsSyncEcho.mockResolvedValue(true);
+
+    await processJob(makeJob());
+
+    expect(mockHandleWixWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should skip HubSpot jobs whose contact no longer exists', async () => {
+    mockGetContactById.mockResolvedValue(null);
+
+    await processJob(makeJob({ type: 'hubspot_contact_updated', contactId: '100' }));
+
+    expect(mockHandleHubSpotWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should drop jobs for installations with sync disabled', async () => {
+    mockInstallationFindOne.mockResolvedValue({ instanceId: 'inst-1', connected: true, syncEnabled: false });
+
+    await processJob(makeJob());
+
+    expect(mockHandleWixWebhook).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// failJob — retry vs dead-letter
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('failJob', () => {
+  it('should reschedule a retryable failure with back-off', async () => {
+    const before = Date.now();
+    const status = await failJob(makeJob({ attempts: 2 }), new Error('timeout'));
+
+    expect(status).toBe('pending');
+    const update = mockJobUpdateOne.mock.calls[0][1].$set;
+    expect(update.status).toBe('pending');
+    expect(update.runAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+    expect(mockSyncErrorCreate).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter once attempts are exhausted and record a SyncError', async () => {
+    const status = await failJob(makeJob({ attempts: 5 }), new Error('still failing'));
+
+    expect(status).toBe('dead');
+    expect(mockJobUpdateOne.mock.calls[0][1].$set.status).toBe('dead');
+    expect(mockSyncErrorCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        instanceId: 'inst-1',
+        type: 'contact_sync',
+        referenceId: 'wix-1',
+        error: 'still failing',
+      }),
+    );
+  });
+
+  it('should record dead-lettered order jobs as order_sync errors', async () => {
+    await failJob(
+      makeJob({ type: 'wix_order_created', contactId: 'order-1', attempts: 5 }),
+      new Error('Order buyer has not been synced to HubSpot yet'),
+    );
+
+    expect(mockSyncErrorCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'order_sync', referenceId: 'order-1' }),
+    );
+  });
+
+  it('should dead-letter permanent failures immediately', async () => {
+    const err = Object.assign(new Error('Bad request'), { response: { status: 400 } });
+    const status = await failJob(makeJob({ attempts: 1 }), err);
+
+    expect(status).toBe('dead');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// leaseNextJob — per-contact serialisation
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('leaseNextJob', () => {
+  it('should claim the first candidate with no blocking job', async () => {
+    const leased = makeJob({ status: 'leased' });
+    mockJobFind.mockReturnValue(findChain([makeJob()]));
+    mockJobExists.mockResolvedValue(null);
+    mockJobFindOneAndUpdate.mockResolvedValue(leased);
+
+    const job = await leaseNextJob();
+
+    expect(job).toBe(leased);
+    const update = mockJobFindOneAndUpdate.mock.calls[0][1];
+    expect(update.$set.status).toBe('leased');
+    expect(update.$inc).toEqual({ attempts: 1 });
+  });
+
+  it('should skip a candidate whose contact already has a job in flight', async () => {
+    mockJobFind.mockReturnValue(
+      findChain([
+        makeJob({ _id: 'a', contactKey: 'wix:busy' }),
+        makeJob({ _id: 'b', contactKey: 'wix:free' }),
+      ]),
+    );
+    mockJobExists.mockImplementation(async (q: any) =>
+      q.contactKey === 'wix:busy' ? { _id: 'other' } : null,
+    );
+    mockJobFindOneAndUpdate.mockImplementation(async (q: any) => ({ _id: q._id }));
+
+    const job = await leaseNextJob();
+
+    expect(job?._id).toBe('b');
+    expect(mockJobFindOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip contacts already running in this process', async () => {
+    mockJobFind.mockReturnValue(findChain([makeJob()]));
+
+    const job = await leaseNextJob(new Set(['inst-1:wix:wix-1']));
+
+    expect(job).toBeNull();
+    expect(mockJobExists).not.toHaveBeenCalled();
+  });
+
+  it('should hold a HubSpot job while the linked Wix contact has a job in flight', async () => {
+    mockJobFind.mockReturnValue(findChain([makeJob({ contactKey: 'hubspot:100' })]));
+    mockFindByHubSpotId.mockResolvedValue({ wixContactId: 'wix-1', hubspotContactId: '100' });
+    mockJobExists.mockImplementation(async (q: any) =>
+      q.contactKey.$in?.includes('wix:wix-1') ? { _id: 'wix-job' } : null,
+    );
+
+    expect(await leaseNextJob()).toBeNull();
+    expect(mockFindByHubSpotId).toHaveBeenCalledWith('inst-1', '100');
+    expect(mockJobExists.mock.calls[0][0].contactKey).toEqual({ $in: ['hubspot:100', 'wix:wix-1'] });
+    expect(mockJobFindOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should skip a Wix job whose linked HubSpot contact is running in this process', async () => {
+    mockJobFind.mockReturnValue(findChain([makeJob()]));
+    mockFindByWixId.mockResolvedValue({ wixContactId: 'wix-1', hubspotContactId: '100' });
+
+    expect(await leaseNextJob(new Set(['inst-1:hubspot:100']))).toBeNull();
+    expect(mockJobExists).not.toHaveBeenCalled();
+  });
+
+  it('should return null when nothing is runnable', async () => {
+    mockJobFind.mockReturnValue(findChain([]));
+
+    expect(await leaseNextJob()).toBeNull();
+  });
+
+  it('should not overtake an older parked job for the same contact', async () => {
+    mockJobFind.mockReturnValue(findChain([makeJob()]));
+    mockJobExists.mockResolvedValue({ _id: 'parked-older' });
+
+    expect(await leaseNextJob()).toBeNull();
+    expect(mockJobExists.mock.calls[0][0].$or).toContainEqual({
+      status: { $in: ['pending', 'parked'] },
+      createdAt: { $lt: makeJob().createdAt },
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Degraded mode — parking and replay
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('parkJob', () => {
+  it('should park the job without spending an attempt', async () => {
+    await parkJob(makeJob({ attempts: 3 }), 'HubSpot circuit open');
+
+    const update = mockJobUpdateOne.mock.calls[0][1];
+    expect(update.$set).toEqual(expect.objectContaining({ status: 'parked', lastError: 'HubSpot circuit open' }));
+    expect(update.$inc).toEqual({ attempts: -1 });
+  });
+});
+
+describe('replayParkedJobs', () => {
+  it('should release parked jobs of installations whose circuit is no longer open', async () => {
+    mockJobDistinct.mockResolvedValue(['inst-1', 'inst-2']);
+    mockIsCircuitOpen.mockImplementation((id: string) => id === 'inst-2');
+    mockJobUpdateMany.mockResolvedValue({ modifiedCount: 3 });
+
+    const released = await replayParkedJobs();
+
+    expect(released).toBe(3);
+    expect(mockJobUpdateMany).toHaveBeenCalledTimes(1);
+    expect(mockJobUpdateMany).toHaveBeenCalledWith(
+      { instanceId: 'inst-1', status: 'parked' },
+      { $set: { status: 'pending', runAt: expect.any(Date) } },
+    );
+  });
+});
+
+describe('pollOnce', () => {
+  /** Lets the jobs started by pollOnce run to completion */
+  const drain = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should park a job whose call hit an open circuit instead of failing it', async () => {
+    mockJobFind.mockReturnValueOnce(findChain([makeJob()])).mockReturnValue(findChain([]));
+    mockJobExists.mockResolvedValue(null);
+    mockJobFindOneAndUpdate.mockResolvedValue(makeJob({ status: 'leased' }));
+    mockHandleWixWebhook.mockRejectedValue(
+      new CircuitOpenError('inst-1', 'hubspot', new Date('2026-01-01T00:01:00Z')),
+    );
+
+    await pollOnce();
+    await drain();
+
+    expect(mockJobUpdateOne.mock.calls[0][1].$set.status).toBe('parked');
+    expect(mockSyncErrorCreate).not.toHaveBeenCalled();
+  });
+
+  it('should park leased jobs without running them while the circuit is open', async () => {
+    mockJobFind.mockReturnValueOnce(findChain([makeJob()])).mockReturnValue(findChain([]));
+    mockJobExists.mockResolvedValue(null);
+    mockJobFindOneAndUpdate.mockResolvedValue(makeJob({ status: 'leased' }));
+    mockIsCircuitOpen.mockReturnValue(true);
+
+    await pollOnce();
+    await drain();
+
+    expect(mockHandleWixWebhook).not.toHaveBeenCalled();
+    expect(mockJobUpdateOne.mock.calls[0][1].$set.status).toBe('parked');
+  });
+});
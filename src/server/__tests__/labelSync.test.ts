@@ -0,0 +1,411 @@
+// =============================================================================
+// Label Sync Tests (Module 17)
+// =============================================================================
+// Tests: mergeLabelKeys, mapLabelsToHubSpot (property / off mode),
+//        mapLabelsToWix (resolve, create missing, dry run),
+//        ensureLabelOptions (option cache), pushLabelsToLists (create list,
+//        add, remove), pullLabelsFromLists (add/remove with echo sync ID),
+//        pullListMemberships (membership-only changes, baseline, failures)
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockListMappingFindOne = jest.fn();
+const mockListMappingFindOneAndUpdate = jest.fn();
+const mockListMappingFind = jest.fn();
+const mockListMappingUpdateOne = jest.fn();
+jest.mock('../models/LabelListMapping', () => ({
+  __esModule: true,
+  default: {
+    findOne: (...args: any[]) => mockListMappingFindOne(...args),
+    findOneAndUpdate: (...args: any[]) => mockListMappingFindOneAndUpdate(...args),
+    find: (...args: any[]) => mockListMappingFind(...args),
+    updateOne: (...args: any[]) => mockListMappingUpdateOne(...args),
+  },
+}));
+
+const mockListWixLabels = jest.fn();
+const mockFindOrCreateWixLabel = jest.fn();
+const mockUpdateWixContactLabels = jest.fn();
+jest.mock('../services/wixContacts', () => ({
+  __esModule: true,
+  listWixLabels: (...args: any[]) => mockListWixLabels(...args),
+  findOrCreateWixLabel: (...args: any[]) => mockFindOrCreateWixLabel(...args),
+  updateWixContactLabels: (...args: any[]) => mockUpdateWixContactLabels(...args),
+}));
+
+const mockAddPropertyOptions = jest.fn();
+jest.mock('../services/hubspotProperties', () => ({
+  __esModule: true,
+  addPropertyOptions: (...args: any[]) => mockAddPropertyOptions(...args),
+}));
+
+const mockFindListByName = jest.fn();
+const mockCreateStaticList = jest.fn();
+const mockGetContactListIds = jest.fn();
+const mockAddToList = jest.fn();
+const mockRemoveFromList = jest.fn();
+const mockGetListMemberIds = jest.fn();
+jest.mock('../services/hubspotLists', () => ({
+  __esModule: true,
+  findListByName: (...args: any[]) => mockFindListByName(...args),
+  createStaticList: (...args: any[]) => mockCreateStaticList(...args),
+  getContactListIds: (...args: any[]) => mockGetContactListIds(...args),
+  addToList: (...args: any[]) => mockAddToList(...args),
+  removeFromList: (...args: any[]) => mockRemoveFromList(...args),
+  getListMemberIds: (...args: any[]) => mockGetListMemberIds(...args),
+}));
+
+const mockFindByHubSpotId = jest.fn();
+jest.mock('../services/mappingStore', () => ({
+  __esModule: true,
+  findByHubSpotId: (...args: any[]) => mockFindByHubSpotId(...args),
+}));
+
+const mockRegisterSyncId = jest.fn();
+jest.mock('../services/dedupeGuard', () => ({
+  __esModule: true,
+  registerSyncId: (...args: any[]) => mockRegisterSyncId(...args),
+}));
+
+import {
+  mergeLabelKeys,
+  mapLabelsToHubSpot,
+  mapLabelsToWix,
+  ensureLabelOptions,
+  pushLabelsToLists,
+  pullLabelsFromLists,
+  pullListMemberships,
+  invalidateLabelCatalogue,
+} from '../services/labelSync';
+import { IInstallation } from '../models/Installation';
+import { IFieldMapping } from '../models/FieldMapping';
+import { LabelSyncMode } from '../types';
+
+function makeInstallation(mode: LabelSyncMode, instanceId = 'inst-1'): IInstallation {
+  return { instanceId, labelSync: { mode } } as unknown as IInstallation;
+}
+
+const LABEL_RULE = {
+  wixField: 'labelIds',
+  hubspotField: 'wix_labels',
+  direction: 'bidirectional',
+  transform: 'none',
+  conflictStrategy: 'newest_wins',
+  isActive: true,
+} as unknown as IFieldMapping;
+
+const WIX_CONTACT = {
+  info: { labelKeys: { items: ['contacts.contacted', 'custom.vip', 'custom.newsletter'] } },
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  invalidateLabelCatalogue('inst-1');
+  mockListWixLabels.mockResolvedValue([
+    { key: 'contacts.contacted', displayName: 'Contacted', labelType: 'SYSTEM' },
+    { key: 'custom.vip', displayName: 'VIP', labelType: 'USER_DEFINED' },
+    { key: 'custom.newsletter', displayName: 'Newsletter; weekly', labelType: 'USER_DEFINED' },
+  ]);
+  mockFindOrCreateWixLabel.mockImplementation((_i: any, name: string) =>
+    Promise.resolve(`custom.${name.toLowerCase()}`),
+  );
+  mockUpdateWixContactLabels.mockResolvedValue(true);
+  mockAddPropertyOptions.mockResolvedValue(1);
+  mockListMappingFindOne.mockResolvedValue(null);
+  mockListMappingFindOneAndUpdate.mockImplementation((filter: any, update: any) =>
+    Promise.resolve({ ...filter, hubspotListId: update.$setOnInsert.hubspotListId }),
+  );
+  mockListMappingFind.mockResolvedValue([]);
+  mockFindListByName.mockResolvedValue(null);
+  mockCreateStaticList.mockResolvedValue('list-new');
+  mockGetContactListIds.mockResolvedValue([]);
+  mockAddToList.mockResolvedValue(undefined);
+  mockRemoveFromList.mockResolvedValue(undefined);
+  mockRegisterSyncId.mockResolvedValue('sync-1');
+  mockGetListMemberIds.mockResolvedValue([]);
+  mockListMappingUpdateOne.mockResolvedValue({ modifiedCount: 1 });
+  mockFindByHubSpotId.mockImplementation((_i: string, id: string) =>
+    Promise.resolve({ wixContactId: `wix-${id}`, hubspotContactId: id }),
+  );
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// mergeLabelKeys
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('mergeLabelKeys', () => {
+  it('keeps system labels and replaces user-defined ones', () => {
+    expect(
+      mergeLabelKeys(['contacts.contacted', 'custom.old'], ['custom.vip', 'custom.vip']),
+    ).toEqual(['contacts.contacted', 'custom.vip']);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Property mode
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('mapLabelsToHubSpot', () => {
+  it('writes the names of the user-defined labels', async () => {
+    const props = await mapLabelsToHubSpot(
+      makeInstallation('property'),
+      WIX_CONTACT,
+      { email: 'a@b.com', wix_labels: 'contacts.contacted;custom.vip;custom.newsletter' },
+      [LABEL_RULE],
+    );
+
+    expect(props).toEqual({ email: 'a@b.com', wix_labels: 'VIP;Newsletter, weekly' });
+  });
+
+  it('drops the label property outside property mode', async () => {
+    const props = await mapLabelsToHubSpot(
+      makeInstallation('lists'),
+      WIX_CONTACT,
+      { email: 'a@b.com', wix_labels: 'custom.vip' },
+      [LABEL_RULE],
+    );
+
+    expect(props).toEqual({ email: 'a@b.com' });
+    expect(mockListWixLabels).not.toHaveBeenCalled();
+  });
+});
+
+describe('mapLabelsToWix', () => {
+  it('resolves label names to keys, case-insensitively', async () => {
+    const props = await mapLabelsToWix(
+      makeInstallation('property'),
+      { wix_labels: 'vip;Newsletter, weekly' },
+      { labelIds: 'vip;Newsletter, weekly' },
+      [LABEL_RULE],
+      true,
+    );
+
+    expect(props.labelIds).toBe('custom.vip;custom.newsletter');
+    expect(mockFindOrCreateWixLabel).not.toHaveBeenCalled();
+  });
+
+  it('creates a Wix label for a name it does not know', async () => {
+    const props = await mapLabelsToWix(
+      makeInstallation('property'),
+      { wix_labels: 'VIP;Partner' },
+      {},
+      [LABEL_RULE],
+      true,
+    );
+
+    expect(mockFindOrCreateWixLabel).toHaveBeenCalledWith(expect.anything(), 'Partner');
+    expect(props.labelIds).toBe('custom.vip;custom.partner');
+  });
+
+  it('does not create labels in a dry run', async () => {
+    const props = await mapLabelsToWix(
+      makeInstallation('property'),
+      { wix_labels: 'Partner' },
+      {},
+      [LABEL_RULE],
+      false,
+    );
+
+    expect(mockFindOrCreateWixLabel).not.toHaveBeenCalled();
+    expect(props.labelIds).toBe('Partner');
+  });
+});
+
+describe('ensureLabelOptions', () => {
+  it('adds options once and remembers them', async () => {
+    const installation = makeInstallation('property', 'inst-options');
+    const props = { wix_labels: 'VIP;Partner' };
+
+    await ensureLabelOptions(installation, props, [LABEL_RULE]);
+    await ensureLabelOptions(installation, props, [LABEL_RULE]);
+
+    expect(mockAddPropertyOptions).toHaveBeenCalledTimes(1);
+    expect(mockAddPropertyOptions).toHaveBeenCalledWith('inst-options', 'wix_labels', [
+      'VIP',
+      'Partner',
+    ]);
+  });
+
+  it('does nothing outside property mode', async () => {
+    await ensureLabelOptions(makeInstallation('off'), { wix_labels: 'VIP' }, [LABEL_RULE]);
+
+    expect(mockAddPropertyOptions).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lists mode
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('pushLabelsToLists', () => {
+  it('creates a list for a new label and adds the contact', async () => {
+    mockListMappingFindOne.mockImplementation((filter: any) =>
+      Promise.resolve(
+        filter.labelKey === 'custom.newsletter'
+          ? { labelKey: 'custom.newsletter', hubspotListId: 'list-news' }
+          : null,
+      ),
+    );
+    mockListMappingFind.mockResolvedValue([
+      { labelKey: 'custom.vip', hubspotListId: 'list-new' },
+      { labelKey: 'custom.newsletter', hubspotListId: 'list-news' },
+    ]);
+    mockGetContactListIds.mockResolvedValue(['list-news']);
+
+    const changed = await pushLabelsToLists(makeInstallation('lists'), 'hs-1', WIX_CONTACT);
+
+    expect(changed).toBe(true);
+    expect(mockCreateStaticList).toHaveBeenCalledWith('inst-1', 'Wix: VIP');
+    expect(mockCreateStaticList).toHaveBeenCalledTimes(1);
+    expect(mockAddToList).toHaveBeenCalledWith('inst-1', 'list-new', ['hs-1']);
+    expect(mockRemoveFromList).not.toHaveBeenCalled();
+  });
+
+  it('reuses a list of the same name created earlier', async () => {
+    mockFindListByName.mockResolvedValue('list-existing');
+
+    await pushLabelsToLists(makeInstallation('lists'), 'hs-1', {
+      info: { labelKeys: { items: ['custom.vip'] } },
+    });
+
+    expect(mockCreateStaticList).not.toHaveBeenCalled();
+    expect(mockListMappingFindOneAndUpdate).toHaveBeenCalledWith(
+      { instanceId: 'inst-1', labelKey: 'custom.vip' },
+      { $setOnInsert: { instanceId: 'inst-1', labelKey: 'custom.vip', hubspotListId: 'list-existing' } },
+      { upsert: true, new: true },
+    );
+  });
+
+  it('removes the contact from the list of a label it lost', async () => {
+    mockListMappingFind.mockResolvedValue([{ labelKey: 'custom.vip', hubspotListId: 'list-vip' }]);
+    mockGetContactListIds.mockResolvedValue(['list-vip']);
+
+    const changed = await pushLabelsToLists(makeInstallation('lists'), 'hs-1', { info: {} });
+
+    expect(changed).toBe(true);
+    expect(mockRemoveFromList).toHaveBeenCalledWith('inst-1', 'list-vip', ['hs-1']);
+  });
+
+  it('does nothing outside lists mode', async () => {
+    await expect(
+      pushLabelsToLists(makeInstallation('property'), 'hs-1', WIX_CONTACT),
+    ).resolves.toBe(false);
+    expect(mockGetContactListIds).not.toHaveBeenCalled();
+  });
+});
+
+describe('pullLabelsFromLists', () => {
+  it('labels the Wix contact to match its HubSpot list memberships', async () => {
+    mockListMappingFind.mockResolvedValue([
+      { labelKey: 'custom.vip', hubspotListId: 'list-vip' },
+      { labelKey: 'custom.newsletter', hubspotListId: 'list-news' },
+    ]);
+    mockGetContactListIds.mockResolvedValue(['list-vip', 'list-unrelated']);
+
+    const changed = await pullLabelsFromLists(makeInstallation('lists'), 'wix-1', 'hs-1');
+
+    expect(changed).toBe(true);
+    expect(mockRegisterSyncId).toHaveBeenCalledWith('inst-1', 'wix', 'wix-1');
+    expect(mockUpdateWixContactLabels).toHaveBeenCalledWith(
+      expect.anything(),
+      'wix-1',
+      { add: ['custom.vip'], remove: ['custom.newsletter'] },
+      'sync-1',
+    );
+  });
+
+  it('does nothing when no label has a list yet', async () => {
+    await expect(pullLabelsFromLists(makeInstallation('lists'), 'wix-1', 'hs-1')).resolves.toBe(false);
+    expect(mockUpdateWixContactLabels).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// pullListMemberships
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('pullListMemberships', () => {
+  const VIP_LIST = { _id: 'llm-1', labelKey: 'custom.vip', hubspotListId: 'list-vip', memberIds: ['hs-1', 'hs-2'] };
+
+  beforeEach(() => {
+    mockListMappingFind.mockResolvedValue([VIP_LIST]);
+  });
+
+  it('labels a contact added to a list and unlabels one removed, with no property change', async () => {
+    mockGetListMemberIds.mockResolvedValue(['hs-1', 'hs-3']);
+    mockGetContactListIds.mockImplementation((_i: string, id: string) =>
+      Promise.resolve(id === 'hs-3' ? ['list-vip'] : []),
+    );
+
+    const pass = await pullListMemberships(makeInstallation('lists'));
+
+    expect(mockUpdateWixContactLabels).toHaveBeenCalledTimes(2);
+    expect(mockUpdateWixContactLabels).toHaveBeenCalledWith(
+      expect.anything(), 'wix-hs-3', { add: ['custom.vip'], remove: [] }, 'sync-1',
+    );
+    expect(mockUpdateWixContactLabels).toHaveBeenCalledWith(
+      expect.anything(), 'wix-hs-2', { add: [], remove: ['custom.vip'] }, 'sync-1',
+    );
+    expect(mockListMappingUpdateOne).toHaveBeenCalledWith(
+      { _id: 'llm-1' },
+      { $set: { memberIds: ['hs-1', 'hs-3'] } },
+    );
+    expect(pass).toEqual({ updated: 2, failed: 0 });
+  });
+
+  it('touches no contact when the memberships are unchanged', async () => {
+    mockGetListMemberIds.mockResolvedValue(['hs-1', 'hs-2']);
+
+    const pass = await pullListMemberships(makeInstallation('lists'));
+
+    expect(mockFindByHubSpotId).not.toHaveBeenCalled();
+    expect(mockUpdateWixContactLabels).not.toHaveBeenCalled();
+    expect(pass).toEqual({ updated: 0, failed: 0 });
+  });
+
+  it('keeps the old membership of a contact that failed, so the next pass retries it', async () => {
+    mockGetListMemberIds.mockResolvedValue(['hs-1', 'hs-3']);
+    mockUpdateWixContactLabels.mockImplementation((_i: any, wixId: string) =>
+      wixId === 'wix-hs-3' ? Promise.reject(new Error('Wix 503')) : Promise.resolve(true),
+    );
+
+    const pass = await pullListMemberships(makeInstallation('lists'));
+
+    expect(pass).toEqual({ updated: 1, failed: 1 });
+    expect(mockListMappingUpdateOne).toHaveBeenCalledWith({ _id: 'llm-1' }, { $set: { memberIds: ['hs-1'] } });
+  });
+
+  it('skips contacts that are not synced to Wix', async () => {
+    mockGetListMemberIds.mockResolvedValue(['hs-1', 'hs-2', 'hs-9']);
+    mockFindByHubSpotId.mockResolvedValue(null);
+
+    const pass = await pullListMemberships(makeInstallation('lists'));
+
+    expect(mockUpdateWixContactLabels).not.toHaveBeenCalled();
+    expect(pass).toEqual({ updated: 0, failed: 0 });
+  });
+
+  it('does nothing outside lists mode', async () => {
+    await pullListMemberships(makeInstallation('property'));
+
+    expect(mockListMappingFind).not.toHaveBeenCalled();
+    expect(mockGetListMemberIds).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,301 @@
+// =============================================================================
+// Mapping Versions Tests (Module 18)
+// =============================================================================
+// Tests: recordMappingVersion (numbering, snapshot shape, racing saves),
+//        listMappingVersions, diffMappingVersions, rollbackToVersion
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockRulesFind = jest.fn();
+const mockRulesDeleteMany = jest.fn();
+const mockRulesInsertMany = jest.fn();
+jest.mock('../models/FieldMapping', () => ({
+  __esModule: true,
+  default: {
+    find: (...args: any[]) => mockRulesFind(...args),
+    deleteMany: (...args: any[]) => mockRulesDeleteMany(...args),
+    insertMany: (...args: any[]) => mockRulesInsertMany(...args),
+  },
+  DEFAULT_FIELD_MAPPINGS: [],
+}));
+
+const mockVersionFindOne = jest.fn();
+const mockVersionFind = jest.fn();
+const mockVersionCreate = jest.fn();
+const mockVersionCount = jest.fn();
+jest.mock('../models/FieldMappingVersion', () => ({
+  __esModule: true,
+  default: {
+    findOne: (...args: any[]) => mockVersionFindOne(...args),
+    find: (...args: any[]) => mockVersionFind(...args),
+    create: (...args: any[]) => mockVersionCreate(...args),
+    countDocuments: (...args: any[]) => mockVersionCount(...args),
+  },
+}));
+
+const mockSeedDefaults = jest.fn();
+const mockInvalidate = jest.fn();
+const mockLoadRules = jest.fn();
+jest.mock('../services/fieldMappingEngine', () => ({
+  __esModule: true,
+  seedDefaultMappings: (...args: any[]) => mockSeedDefaults(...args),
+  invalidateRulesCache: (...args: any[]) => mockInvalidate(...args),
+  loadMappingRules: (...args: any[]) => mockLoadRules(...args),
+}));
+
+import {
+  recordMappingVersion,
+  listMappingVersions,
+  diffMappingVersions,
+  rollbackToVersion,
+  UNKNOWN_AUTHOR,
+} from '../services/mappingVersions';
+import { MappingSnapshotRule } from '../models/FieldMappingVersion';
+
+/** `findOne(...).sort(...)` resolving to the given latest version */
+function latestVersion(version: number | null) {
+  return { sort: jest.fn().mockResolvedValue(version === null ? null : { version }) };
+}
+
+function rule(overrides: Partial<MappingSnapshotRule> = {}): MappingSnapshotRule {
+  return {
+    wixField: 'firstName',
+    hubspotField: 'firstname',
+    direction: 'bidirectional',
+    transform: 'none',
+    transforms: [],
+    optionMap: [],
+    conflictStrategy: 'newest_wins',
+    isDefault: true,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+const STORED_RULE = {
+  _id: 'fm-1',
+  instanceId: 'inst-1',
+  ...rule({ isDefault: false, wixField: 'company', hubspotField: 'company' }),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockRulesFind.mockResolvedValue([STORED_RULE]);
+  mockVersionFindOne.mockReturnValue(latestVersion(null));
+  mockVersionCreate.mockImplementation((doc: any) => Promise.resolve(doc));
+  mockLoadRules.mockResolvedValue([STORED_RULE]);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// recordMappingVersion
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('recordMappingVersion', () => {
+  it('numbers the first version 1 and snapshots the rules without Mongo fields', async () => {
+    const version = await recordMappingVersion('inst-1', { author: 'user-1', comment: 'First' });
+
+    expect(version).toEqual(
+      expect.objectContaining({ instanceId: 'inst-1', version: 1, author: 'user-1', comment: 'First' }),
+    );
+    expect(mockVersionCreate.mock.calls[0][0].rules).toEqual([
+      rule({ isDefault: false, wixField: 'company', hubspotField: 'company' }),
+    ]);
+  });
+
+  it('follows the latest version and records an unknown author', async () => {
+    mockVersionFindOne.mockReturnValue(latestVersion(7));
+
+    await recordMappingVersion('inst-1', {});
+
+    expect(mockVersionCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ version: 8, author: UNKNOWN_AUTHOR, comment: '', restoredFrom: null }),
+    );
+  });
+
+  it('takes the next number when a concurrent save claimed it', async () => {
+    mockVersionFindOne.mockReturnValueOnce(latestVersion(2)).mockReturnValueOnce(latestVersion(3));
+    mockVersionCreate
+      .mockRejectedValueOnce(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }))
+      .mockImplementationOnce((doc: any) => Promise.resolve(doc));
+
+    const version = await recordMappingVersion('inst-1', { author: 'user-1' });
+
+    expect(version.version).toBe(4);
+    expect(mockVersionCreate).toHaveBeenCalledTimes(2);
+  });
+
+  it('rethrows other errors', async () => {
+    mockVersionCreate.mockRejectedValue(new Error('db down'));
+
+    await expect(recordMappingVersion('inst-1', {})).rejects.toThrow('db down');
+    expect(mockVersionCreate).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// listMappingVersions
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('listMappingVersions', () => {
+  it('lists newest first with a rule count instead of the rules', async () => {
+    const createdAt = new Date('2026-01-01T00:00:00Z');
+    const limit = jest.fn().mockResolvedValue([
+      { version: 2, author: 'u', comment: 'c', rules: [rule(), rule()], restoredFrom: 1, createdAt },
+    ]);
+    const skip = jest.fn().mockReturnValue({ limit });
+    const sort = jest.fn().mockReturnValue({ skip });
+    mockVersionFind.mockReturnValue({ sort });
+    mockVersionCount.mockResolvedValue(21);
+
+    const result = await listMappingVersions('inst-1', 2, 20);
+
+    expect(sort).toHaveBeenCalledWith({ version: -1 });
+    expect(skip).toHaveBeenCalledWith(20);
+    expect(result).toEqual({
+      versions: [{ version: 2, author: 'u', comment: 'c', ruleCount: 2, restoredFrom: 1, createdAt }],
+      total: 21,
+      pages: 2,
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// diffMappingVersions
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('diffMappingVersions', () => {
+  it('reports added, removed and changed rules', () => {
+    const from = [
+      rule(),
+      rule({ wixField: 'company', hubspotField: 'company', isDefault: false }),
+      rule({ wixField: 'city', hubspotField: 'city', isDefault: false }),
+    ];
+    const to = [
+      rule({ transform: 'trim', conflictStrategy: 'source_of_truth_wix' }),
+      rule({ wixField: 'company', hubspotField: 'company', isDefault: false }),
+      rule({ wixField: 'jobTitle', hubspotField: 'jobtitle', isDefault: false }),
+    ];
+
+    const diff = diffMappingVersions(from, to);
+
+    expect(diff.added.map((r) => r.wixField)).toEqual(['jobTitle']);
+    expect(diff.removed.map((r) => r.wixField)).toEqual(['city']);
+    expect(diff.changed).toEqual([
+      {
+        wixField: 'firstName',
+        hubspotField: 'firstname',
+        changes: [
+          { setting: 'transform', before: 'none', after: 'trim' },
+          { setting: 'conflictStrategy', before: 'newest_wins', after: 'source_of_truth_wix' },
+        ],
+      },
+    ]);
+  });
+
+  it('treats missing optional settings as empty', () => {
+    const { transforms, optionMap, ...bare } = rule();
+    expect(transforms).toEqual([]);
+    expect(optionMap).toEqual([]);
+
+    const diff = diffMappingVersions([bare as MappingSnapshotRule], [rule({ optionFallback: '' })]);
+
+    expect(diff).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('compares transform chains and composites by value', () => {
+    const composite = { wixFields: ['firstName', 'lastName'], delimiter: ' ' };
+    const base = rule({ wixField: 'firstName+lastName', hubspotField: 'full_name', composite });
+
+    const diff = diffMappingVersions(
+      [base],
+      [{ ...base, composite: { ...composite, delimiter: ', ' }, transforms: [{ type: 'trim' }] }],
+    );
+
+    expect(diff.changed[0].changes.map((c) => c.setting)).toEqual(['transforms', 'composite']);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// rollbackToVersion
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('rollbackToVersion', () => {
+  it('restores the snapshot and records it as a new version', async () => {
+    const snapshot = [rule(), rule({ wixField: 'city', hubspotField: 'city', isDefault: false })];
+    mockVersionFindOne
+      .mockResolvedValueOnce({ version: 3, rules: snapshot })
+      .mockReturnValueOnce(latestVersion(5));
+
+    const result = await rollbackToVersion('inst-1', 3, { author: 'user-1' });
+
+    expect(mockRulesDeleteMany).toHaveBeenCalledWith({ instanceId: 'inst-1' });
+    expect(mockRulesInsertMany).toHaveBeenCalledWith(snapshot.map((r) => ({ ...r, instanceId: 'inst-1' })));
+    expect(mockSeedDefaults).toHaveBeenCalledWith('inst-1');
+    expect(mockInvalidate).toHaveBeenCalledWith('inst-1');
+    expect(mockVersionCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        version: 6,
+        author: 'user-1',
+        comment: 'Rolled back to version 3',
+        restoredFrom: 3,
+      }),
+    );
+    expect(result?.rules).toEqual([STORED_RULE]);
+    expect(result?.version.version).toBe(6);
+  });
+
+  it('keeps the caller comment', async () => {
+    mockVersionFindOne
+      .mockResolvedValueOnce({ version: 1, rules: [rule()] })
+      .mockReturnValueOnce(latestVersion(1));
+
+    await rollbackToVersion('inst-1', 1, { author: 'user-1', comment: 'Undo the address split' });
+
+    expect(mockVersionCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ comment: 'Undo the address split' }),
+    );
+  });
+
+  it('puts the previous rules back when the restored set cannot be inserted', async () => {
+    mockVersionFindOne.mockResolvedValueOnce({ version: 3, rules: [rule(), rule()] });
+    mockRulesInsertMany
+      .mockRejectedValueOnce(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }))
+      .mockResolvedValueOnce([]);
+
+    await expect(rollbackToVersion('inst-1', 3, { author: 'user-1' })).rejects.toThrow('E11000');
+
+    expect(mockRulesInsertMany).toHaveBeenLastCalledWith([
+      { ...rule({ isDefault: false, wixField: 'company', hubspotField: 'company' }), instanceId: 'inst-1' },
+    ]);
+    expect(mockSeedDefaults).toHaveBeenCalledWith('inst-1');
+    expect(mockInvalidate).toHaveBeenCalledWith('inst-1');
+    expect(mockVersionCreate).not.toHaveBeenCalled();
+  });
+
+  it('returns null and changes nothing for an unknown version', async () => {
+    mockVersionFindOne.mockResolvedValueOnce(null);
+
+    expect(await rollbackToVersion('inst-1', 42, { author: 'user-1' })).toBeNull();
+    expect(mockRulesDeleteMany).not.toHaveBeenCalled();
+    expect(mockVersionCreate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,296 @@
+// =============================================================================
+// Order Sync Tests (Module 16)
+// =============================================================================
+// Tests: normaliseWixOrder (eCommerce + legacy Stores shapes),
+//        buildDealProperties, buildLineItems, syncWixOrder (disabled mode,
+//        create, already synced, deal reuse, line-item resume, unsynced
+//        buyer, guest)
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockMappingFindOne = jest.fn();
+const mockMappingCreate = jest.fn();
+const mockMappingUpdateOne = jest.fn();
+jest.mock('../models/OrderMapping', () => ({
+  __esModule: true,
+  default: {
+    findOne: (...args: any[]) => mockMappingFindOne(...args),
+    create: (...args: any[]) => mockMappingCreate(...args),
+    updateOne: (...args: any[]) => mockMappingUpdateOne(...args),
+  },
+}));
+
+const mockFindByWixId = jest.fn();
+jest.mock('../services/mappingStore', () => ({
+  __esModule: true,
+  findByWixId: (...args: any[]) => mockFindByWixId(...args),
+}));
+
+const mockCreateDeal = jest.fn();
+const mockCreateLineItems = jest.fn();
+const mockEnsureOrderIdProperty = jest.fn();
+const mockFindDealByOrderId = jest.fn();
+jest.mock('../services/hubspotDeals', () => ({
+  __esModule: true,
+  createDeal: (...args: any[]) => mockCreateDeal(...args),
+  createLineItems: (...args: any[]) => mockCreateLineItems(...args),
+  ensureOrderIdProperty: (...args: any[]) => mockEnsureOrderIdProperty(...args),
+  findDealByOrderId: (...args: any[]) => mockFindDealByOrderId(...args),
+  WIX_ORDER_ID_PROPERTY: 'wix_order_id',
+}));
+
+import {
+  normaliseWixOrder,
+  buildDealProperties,
+  buildLineItems,
+  syncWixOrder,
+} from '../services/orderSync';
+import { IInstallation } from '../models/Installation';
+import { WixOrder } from '../types';
+
+function makeInstallation(
+  orderSync = { enabled: true, pipelineId: 'default', dealStage: 'closedwon' },
+): IInstallation {
+  return { instanceId: 'inst-1', hubspotPortalId: 'portal-1', orderSync } as unknown as IInstallation;
+}
+
+const ECOM_ORDER: WixOrder = {
+  _id: 'order-1',
+  number: '10023',
+  _createdDate: '2026-03-01T10:00:00.000Z',
+  buyerInfo: { contactId: 'wix-1', email: 'jane@acme.com' },
+  priceSummary: { total: { amount: '59.90' } },
+  lineItems: [
+    {
+      productName: { original: 'Mug' },
+      quantity: 2,
+      price: { amount: '19.95' },
+      physicalProperties: { sku: 'MUG-01' },
+    },
+    { productName: { original: 'Gift wrap' }, quantity: 1, price: { amount: '20' } },
+  ],
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockMappingFindOne.mockResolvedValue(null);
+  mockFindByWixId.mockResolvedValue({ wixContactId: 'wix-1', hubspotContactId: 'hs-1' });
+  mockCreateDeal.mockResolvedValue({ id: 'deal-1', properties: {} });
+  mockFindDealByOrderId.mockResolvedValue(null);
+  mockMappingCreate.mockImplementation((doc: any) => Promise.resolve({ _id: 'm-1', ...doc }));
+  mockMappingUpdateOne.mockResolvedValue({ modifiedCount: 1 });
+  mockCreateLineItems.mockImplementation((_i: string, _d: string, items: any[]) =>
+    Promise.resolve(items.length),
+  );
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// normaliseWixOrder / payload builders
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('normaliseWixOrder', () => {
+  it('reads an eCommerce order', () => {
+    expect(normaliseWixOrder(ECOM_ORDER)).toEqual({
+      id: 'order-1',
+      number: '10023',
+      buyerContactId: 'wix-1',
+      total: '59.9',
+      createdDate: '2026-03-01T10:00:00.000Z',
+      lines: [
+        { name: 'Mug', quantity: 2, price: '19.95', sku: 'MUG-01' },
+        { name: 'Gift wrap', quantity: 1, price: '20', sku: '' },
+      ],
+    });
+  });
+
+  it('reads a legacy Wix Stores order', () => {
+    const order = normaliseWixOrder({
+      id: 'order-2',
+      number: 7,
+      dateCreated: '2026-03-02T00:00:00.000Z',
+      buyerInfo: { contactId: 'wix-2' },
+      totals: { total: '12.50' },
+      lineItems: [{ name: 'Poster', quantity: 1, price: '12.50', sku: 'P-1' }],
+    });
+
+    expect(order).toMatchObject({
+      id: 'order-2',
+      number: '7',
+      total: '12.5',
+      lines: [{ name: 'Poster', quantity: 1, price: '12.5', sku: 'P-1' }],
+    });
+  });
+
+  it('returns null for an order without an ID', () => {
+    expect(normaliseWixOrder({ number: '1' })).toBeNull();
+  });
+});
+
+describe('buildDealProperties / buildLineItems', () => {
+  it('builds the deal in the configured pipeline and stage', () => {
+    const order = normaliseWixOrder(ECOM_ORDER)!;
+
+    expect(buildDealProperties(order, 'default', 'closedwon')).toEqual({
+      dealname: 'Wix order #10023',
+      amount: '59.9',
+      pipeline: 'default',
+      dealstage: 'closedwon',
+      closedate: '2026-03-01T10:00:00.000Z',
+      wix_order_id: 'order-1',
+    });
+  });
+
+  it('builds one line item per order line, with the SKU when present', () => {
+    const order = normaliseWixOrder(ECOM_ORDER)!;
+
+    expect(buildLineItems(order)).toEqual([
+      { name: 'Mug', quantity: '2', price: '19.95', hs_sku: 'MUG-01' },
+      { name: 'Gift wrap', quantity: '1', price: '20' },
+    ]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// syncWixOrder
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('syncWixOrder', () => {
+  it('does nothing when order sync is disabled', async () => {
+    const installation = makeInstallation({ enabled: false, pipelineId: 'default', dealStage: 'x' });
+
+    await expect(syncWixOrder(installation, ECOM_ORDER)).resolves.toBeNull();
+    expect(mockMappingFindOne).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without a configured stage', async () => {
+    const installation = makeInstallation({ enabled: true, pipelineId: 'default', dealStage: '' });
+
+    await expect(syncWixOrder(installation, ECOM_ORDER)).resolves.toBeNull();
+    expect(mockCreateDeal).not.toHaveBeenCalled();
+  });
+
+  it('creates a deal for the buyer, its line items and the mapping', async () => {
+    const result = await syncWixOrder(makeInstallation(), ECOM_ORDER);
+
+    expect(mockFindByWixId).toHaveBeenCalledWith('inst-1', 'wix-1');
+    expect(mockEnsureOrderIdProperty).toHaveBeenCalledWith('inst-1', 'portal-1');
+    expect(mockFindDealByOrderId).toHaveBeenCalledWith('inst-1', 'order-1');
+    expect(mockCreateDeal).toHaveBeenCalledWith(
+      'inst-1',
+      expect.objectContaining({ dealname: 'Wix order #10023', dealstage: 'closedwon' }),
+      'hs-1',
+    );
+    expect(mockMappingCreate).toHaveBeenCalledWith({
+      instanceId: 'inst-1',
+      wixOrderId: 'order-1',
+      hubspotDealId: 'deal-1',
+    });
+    expect(mockCreateLineItems).toHaveBeenCalledWith('inst-1', 'deal-1', expect.any(Array), expect.any(Function));
+    expect(mockMappingUpdateOne).toHaveBeenCalledWith(
+      { _id: 'm-1' },
+      { $set: { lineItemsSynced: true } },
+    );
+    expect(result).toEqual({ hubspotDealId: 'deal-1', action: 'created', lineItems: 2 });
+  });
+
+  it('skips an order that is already fully synced', async () => {
+    mockMappingFindOne.mockResolvedValue({ _id: 'm-1', hubspotDealId: 'deal-1', lineItemsSynced: true });
+
+    const result = await syncWixOrder(makeInstallation(), ECOM_ORDER);
+
+    expect(result).toEqual({ hubspotDealId: 'deal-1', action: 'skipped', lineItems: 0 });
+    expect(mockCreateDeal).not.toHaveBeenCalled();
+    expect(mockCreateLineItems).not.toHaveBeenCalled();
+  });
+
+  it('only adds the line items when a previous attempt stopped after the deal', async () => {
+    mockMappingFindOne.mockResolvedValue({ _id: 'm-1', hubspotDealId: 'deal-1', lineItemsSynced: false });
+
+    await syncWixOrder(makeInstallation(), ECOM_ORDER);
+
+    expect(mockCreateDeal).not.toHaveBeenCalled();
+    expect(mockCreateLineItems).toHaveBeenCalledWith('inst-1', 'deal-1', expect.any(Array), expect.any(Function));
+  });
+
+  it('reuses the deal of an attempt that stopped before saving the mapping', async () => {
+    mockFindDealByOrderId.mockResolvedValue({ id: 'deal-7', properties: { wix_order_id: 'order-1' } });
+
+    const result = await syncWixOrder(makeInstallation(), ECOM_ORDER);
+
+    expect(mockCreateDeal).not.toHaveBeenCalled();
+    expect(mockMappingCreate).toHaveBeenCalledWith(expect.objectContaining({ hubspotDealId: 'deal-7' }));
+    expect(result?.hubspotDealId).toBe('deal-7');
+  });
+
+  it('records line-item progress after each batch', async () => {
+    mockCreateLineItems.mockImplementation(
+      async (_i: string, _d: string, items: any[], onChunk: (n: number) => Promise<void>) => {
+        await onChunk(items.length);
+        return items.length;
+      },
+    );
+
+    await syncWixOrder(makeInstallation(), ECOM_ORDER);
+
+    expect(mockMappingUpdateOne).toHaveBeenCalledWith({ _id: 'm-1' }, { $set: { lineItemsCreated: 2 } });
+  });
+
+  it('creates only the line items a failed attempt had not written', async () => {
+    const lineItems = Array.from({ length: 150 }, (_, i) => ({
+      productName: { original: `Item ${i}` },
+      quantity: 1,
+      price: { amount: '1' },
+    }));
+    mockMappingFindOne.mockResolvedValue({
+      _id: 'm-1',
+      hubspotDealId: 'deal-1',
+      lineItemsCreated: 100,
+      lineItemsSynced: false,
+    });
+    mockCreateLineItems.mockImplementation(
+      async (_i: string, _d: string, items: any[], onChunk: (n: number) => Promise<void>) => {
+        await onChunk(items.length);
+        return items.length;
+      },
+    );
+
+    const result = await syncWixOrder(makeInstallation(), { ...ECOM_ORDER, lineItems });
+
+    const created = mockCreateLineItems.mock.calls[0][2];
+    expect(created).toHaveLength(50);
+    expect(created[0].name).toBe('Item 100');
+    expect(mockMappingUpdateOne).toHaveBeenCalledWith({ _id: 'm-1' }, { $set: { lineItemsCreated: 150 } });
+    expect(result?.lineItems).toBe(50);
+  });
+
+  it('throws so the job retries when the buyer has not been synced yet', async () => {
+    mockFindByWixId.mockResolvedValue(null);
+
+    await expect(syncWixOrder(makeInstallation(), ECOM_ORDER)).rejects.toThrow(/not been synced/);
+    expect(mockCreateDeal).not.toHaveBeenCalled();
+  });
+
+  it('creates an unassociated deal for an order without a buyer contact', async () => {
+    await syncWixOrder(makeInstallation(), { ...ECOM_ORDER, buyerInfo: {} });
+
+    expect(mockFindByWixId).not.toHaveBeenCalled();
+    expect(mockCreateDeal).toHaveBeenCalledWith('inst-1', expect.any(Object), undefined);
+  });
+});
@@ -0,0 +1,328 @@
+// =============================================================================
+// Sync Filter Tests (Module 20)
+// =============================================================================
+// Tests: contact subjects, condition operators, first-match evaluation,
+//        HubSpot properties to fetch, validation and the /api/sync-filters
+//        routes
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../utils/authMiddleware', () => ({
+  __esModule: true,
+  default: (req: any, _res: any, next: () => void) => {
+    req.instanceId = 'inst-1';
+    next();
+  },
+}));
+
+const mockFind = jest.fn();
+const mockCreate = jest.fn();
+const mockFindOneAndUpdate = jest.fn();
+const mockFindOneAndDelete = jest.fn();
+jest.mock('../models/SyncFilter', () => ({
+  __esModule: true,
+  default: {
+    find: (...args: any[]) => mockFind(...args),
+    create: (...args: any[]) => mockCreate(...args),
+    findOneAndUpdate: (...args: any[]) => mockFindOneAndUpdate(...args),
+    findOneAndDelete: (...args: any[]) => mockFindOneAndDelete(...args),
+  },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import {
+  wixFilterSubject,
+  hubSpotFilterSubject,
+  conditionHolds,
+  findMatchingFilter,
+  filterProperties,
+  loadSyncFilters,
+  invalidateSyncFiltersCache,
+  validateSyncFilter,
+  FilterSubject,
+} from '../services/syncFilters';
+import syncFilterRouter from '../routes/sync-filters';
+
+const WIX_MEMBER = {
+  info: {
+    name: { first: 'Jane' },
+    emails: { items: [{ email: 'Jane@OurCompany.com' }] },
+    labelKeys: { items: ['custom.test-account', 'contacts.contacted-me'] },
+  },
+  primaryEmail: { email: 'jane@ourcompany.com', subscriptionStatus: 'NOT_SET' },
+  source: { sourceType: 'WIX_SITE_MEMBERS' },
+};
+
+function subject(overrides: Partial<FilterSubject> = {}): FilterSubject {
+  return { side: 'wix', fields: {}, email: '', labels: [], source: '', ...overrides };
+}
+
+function filter(overrides: Record<string, unknown> = {}): any {
+  return {
+    _id: 'f-1',
+    name: 'Internal',
+    side: 'both',
+    isActive: true,
+    conditions: [{ kind: 'email_domain', operator: 'equals', value: 'ourcompany.com' }],
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Subjects
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('wixFilterSubject', () => {
+  it('reads fields, consent, labels and source from a Wix contact', () => {
+    const s = wixFilterSubject(WIX_MEMBER);
+
+    expect(s.side).toBe('wix');
+    expect(s.email).toBe('Jane@OurCompany.com');
+    expect(s.fields).toEqual(expect.objectContaining({ firstName: 'Jane', subscriptionStatus: 'NOT_SET' }));
+    expect(s.labels).toEqual(['custom.test-account', 'contacts.contacted-me']);
+    expect(s.source).toBe('WIX_SITE_MEMBERS');
+  });
+});
+
+describe('hubSpotFilterSubject', () => {
+  it('reads labels from the properties labelIds rules map to', () => {
+    const rules: any[] = [{ wixField: 'labelIds', hubspotField: 'wix_labels', isActive: true }];
+
+    const s = hubSpotFilterSubject(
+      { email: 'a@b.com', wix_labels: 'VIP;Test Account', hs_object_source: 'FORM' },
+      rules,
+    );
+
+    expect(s).toEqual(expect.objectContaining({ side: 'hubspot', email: 'a@b.com', source: 'FORM' }));
+    expect(s.labels).toEqual(['VIP', 'Test Account']);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conditions
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('conditionHolds', () => {
+  const s = subject({
+    fields: { subscriptionStatus: 'NOT_SET', company: '' },
+    email: 'jane@mail.ourcompany.com',
+    labels: ['custom.test-account'],
+    source: 'WIX_SITE_MEMBERS',
+  });
+
+  it.each([
+    [{ kind: 'field', field: 'subscriptionStatus', operator: 'not_equals', value: 'subscribed' }, true],
+    [{ kind: 'field', field: 'company', operator: 'is_empty' }, true],
+    [{ kind: 'field', field: 'unknownField', operator: 'is_not_empty' }, false],
+    [{ kind: 'email_domain', operator: 'equals', value: '@ourcompany.com' }, false],
+    [{ kind: 'email_domain', operator: 'ends_with', value: 'ourcompany.com' }, true],
+    [{ kind: 'label', operator: 'equals', value: 'custom.test-account' }, true],
+    [{ kind: 'label', operator: 'not_contains', value: 'test' }, false],
+    [{ kind: 'label', operator: 'is_empty' }, false],
+    [{ kind: 'source', operator: 'contains', value: 'members' }, true],
+  ])('%o → %s', (condition, expected) => {
+    expect(conditionHolds(condition as any, s)).toBe(expected);
+  });
+});
+
+describe('findMatchingFilter', () => {
+  const internal = subject({ email: 'jane@ourcompany.com', source: 'WIX_SITE_MEMBERS' });
+
+  it('returns the first filter whose conditions all hold', () => {
+    const first = filter({
+      _id: 'f-1',
+      conditions: [
+        { kind: 'email_domain', operator: 'equals', value: 'ourcompany.com' },
+        { kind: 'source', operator: 'equals', value: 'ADMIN' },
+      ],
+    });
+    const second = filter({ _id: 'f-2' });
+    const third = filter({ _id: 'f-3' });
+
+    expect(findMatchingFilter([first, second, third], internal)?._id).toBe('f-2');
+  });
+
+  it('skips inactive filters, filters for the other side and filters without conditions', () => {
+    expect(
+      findMatchingFilter(
+        [filter({ isActive: false }), filter({ side: 'hubspot' }), filter({ conditions: [] })],
+        internal,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('filterProperties', () => {
+  it('lists the HubSpot properties read by filters that apply to HubSpot', () => {
+    expect(
+      filterProperties([
+        filter({ side: 'wix', conditions: [{ kind: 'field', field: 'subscriptionStatus', operator: 'is_empty' }] }),
+        filter({
+          side: 'hubspot',
+          conditions: [
+            { kind: 'field', field: 'hs_marketable_status', operator: 'equals', value: 'false' },
+            { kind: 'source', operator: 'equals', value: 'IMPORT' },
+          ],
+        }),
+      ]),
+    ).toEqual(['hs_marketable_status', 'hs_object_source']);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Loading and validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('loadSyncFilters', () => {
+  it('caches filters until invalidated', async () => {
+    mockFind.mockReturnValue({ sort: jest.fn().mockResolvedValue([filter()]) });
+
+    await loadSyncFilters('inst-cache');
+    await loadSyncFilters('inst-cache');
+    expect(mockFind).toHaveBeenCalledTimes(1);
+    expect(mockFind).toHaveBeenCalledWith({ instanceId: 'inst-cache', isActive: true });
+
+    invalidateSyncFiltersCache('inst-cache');
+    await loadSyncFilters('inst-cache');
+    expect(mockFind).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('validateSyncFilter', () => {
+  it('cleans a valid filter and fills in defaults', () => {
+    const { filter: clean, errors } = validateSyncFilter({
+      name: ' Test accounts ',
+      conditions: [
+        { kind: 'label', operator: 'equals', value: ' custom.test-account ' },
+        { kind: 'field', field: 'company', operator: 'is_empty', value: 'ignored' },
+      ],
+    });
+
+    expect(errors).toEqual([]);
+    expect(clean).toEqual({
+      name: 'Test accounts',
+      side: 'both',
+      isActive: true,
+      order: 0,
+      conditions: [
+        { kind: 'label', operator: 'equals', value: 'custom.test-account' },
+        { kind: 'field', field: 'company', operator: 'is_empty' },
+      ],
+    });
+  });
+
+  it.each([
+    [{ name: '' }, 'name'],
+    [{ side: 'neither' }, 'side'],
+    [{ conditions: [] }, 'conditions'],
+    [{ conditions: [{ kind: 'phone', operator: 'equals', value: 'x' }] }, 'conditions[0].kind'],
+    [{ conditions: [{ kind: 'field', operator: 'equals', value: 'x' }] }, 'conditions[0].field'],
+    [{ conditions: [{ kind: 'source', operator: 'matches', value: 'x' }] }, 'conditions[0].operator'],
+    [{ conditions: [{ kind: 'email_domain', operator: 'equals' }] }, 'conditions[0].value'],
+  ])('rejects %o', (patch, field) => {
+    const { filter: clean, errors } = validateSyncFilter({
+      name: 'Internal',
+      conditions: [{ kind: 'email_domain', operator: 'equals', value: 'ourcompany.com' }],
+      ...patch,
+    });
+
+    expect(clean).toBeNull();
+    expect(errors.map((e) => e.field)).toContain(field);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /api/sync-filters
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('/api/sync-filters', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sync-filters', syncFilterRouter);
+
+  const body = {
+    name: 'Internal',
+    conditions: [{ kind: 'email_domain', operator: 'equals', value: 'ourcompany.com' }],
+  };
+
+  it('lists filters in evaluation order', async () => {
+    const sort = jest.fn().mockResolvedValue([filter()]);
+    mockFind.mockReturnValue({ sort });
+
+    const res = await request(app).get('/api/sync-filters');
+
+    expect(res.status).toBe(200);
+    expect(res.body.filters).toHaveLength(1);
+    expect(mockFind).toHaveBeenCalledWith({ instanceId: 'inst-1' });
+    expect(sort).toHaveBeenCalledWith({ order: 1, createdAt: 1 });
+  });
+
+  it('creates a filter for the installation', async () => {
+    mockCreate.mockImplementation(async (doc: Record<string, unknown>) => ({ _id: 'f-9', ...doc }));
+
+    const res = await request(app).post('/api/sync-filters').send(body);
+
+    expect(res.status).toBe(201);
+    expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ instanceId: 'inst-1', name: 'Internal' }));
+  });
+
+  it('rejects an invalid filter with details', async () => {
+    const res = await request(app).post('/api/sync-filters').send({ ...body, conditions: [] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual([expect.objectContaining({ field: 'conditions' })]);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('replaces a filter of the installation only', async () => {
+    mockFindOneAndUpdate.mockResolvedValue(filter());
+
+    const res = await request(app).put('/api/sync-filters/f-1').send({ ...body, isActive: false });
+
+    expect(res.status).toBe(200);
+    expect(mockFindOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'f-1', instanceId: 'inst-1' },
+      expect.objectContaining({ isActive: false }),
+      { new: true },
+    );
+  });
+
+  it('answers 404 for an unknown filter', async () => {
+    mockFindOneAndUpdate.mockResolvedValue(null);
+    mockFindOneAndDelete.mockResolvedValue(null);
+
+    expect((await request(app).put('/api/sync-filters/nope').send(body)).status).toBe(404);
+    expect((await request(app).delete('/api/sync-filters/nope')).status).toBe(404);
+  });
+
+  it('deletes a filter', async () => {
+    mockFindOneAndDelete.mockResolvedValue(filter());
+
+    const res = await request(app).delete('/api/sync-filters/f-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ ok: true });
+  });
+});
@@ -51,6 +51,7 @@ jest.mock('../config', () => ({
     nodeEnv: 'test',
     encryptionKey: 'a'.repeat(64),
     jwtSecret: 'test-jwt-secret',
+    syncBatchSize: 50,
   },
 }));
 
@@ -61,6 +62,12 @@ jest.mock('../models/SyncEvent', () => ({
   },
 }));
 
+const mockSyncErrorCreate = jest.fn();
+jest.mock('../models/SyncError', () => ({
+  __esModule: true,
+  default: { create: (...args: any[]) => mockSyncErrorCreate(...args) },
+}));
+
 jest.mock('../models/Installation', () => ({
   __esModule: true,
   default: {
@@ -68,28 +75,57 @@ jest.mock('../models/Installation', () => ({
   },
 }));
 
+// Full-sync checkpoints
+const mockSyncRunFindOne = jest.fn();
+const mockSyncRunCreate = jest.fn();
+const mockSyncRunFindOneAndUpdate = jest.fn();
+const mockSyncRunUpdateOne = jest.fn();
+const mockSyncRunFindById = jest.fn();
+jest.mock('../models/SyncRun', () => ({
+  __esModule: true,
+  default: {
+    findOne: (...args: any[]) => ({ sort: () => mockSyncRunFindOne(...args) }),
+    create: (...args: any[]) => mockSyncRunCreate(...args),
+    findOneAndUpdate: (...args: any[]) => mockSyncRunFindOneAndUpdate(...args),
+    updateOne: (...args: any[]) => mockSyncRunUpdateOne(...args),
+    findById: (...args: any[]) => ({
+      select: () => ({ lean: () => mockSyncRunFindById(...args) }),
+    }),
+  },
+}));
+
 // Module 2 — HubSpot Service (facade)
 const mockCreateContact = jest.fn();
 const mockUpdateContact = jest.fn();
 const mockFindContactByEmail = jest.fn();
 
+const mockDeleteContact = jest.fn();
 jest.mock('../services/hubspotService', () => ({
   __esModule: true,
   createContact: (...args: any[]) => mockCreateContact(...args),
   updateContact: (...args: any[]) => mockUpdateContact(...args),
   findContactByEmail: (...args: any[]) => mockFindContactByEmail(...args),
+  deleteContact: (...args: any[]) => mockDeleteContact(...args),
 }));
 
 // Module 2-B — HubSpot Contacts
 const mockGetContactById = jest.fn();
 const mockWriteSyncTag = jest.fn().mockResolvedValue(undefined);
 const mockBatchReadContacts = jest.fn();
+const mockSearchContactsModifiedSince = jest.fn();
+const mockBatchUpdateContacts = jest.fn();
+const mockBatchUpsertContactsByEmail = jest.fn();
 
 jest.mock('../services/hubspotContacts', () => ({
   __esModule: true,
   getContactById: (...args: any[]) => mockGetContactById(...args),
   writeSyncTag: (...args: any[]) => mockWriteSyncTag(...args),
   batchReadContacts: (...args: any[]) => mockBatchReadContacts(...args),
+  searchContactsModifiedSince: (...args: any[]) => mockSearchContactsModifiedSince(...args),
+  batchUpdateContacts: (...args: any[]) => mockBatchUpdateContacts(...args),
+  batchUpsertContactsByEmail: (...args: any[]) => mockBatchUpsertContactsByEmail(...args),
+  SEARCH_RESULT_WINDOW: 10_000,
+  BATCH_WRITE_LIMIT: 100,
 }));
 
 // Module 2-C — HubSpot Client (withRetry for Phase 2 of full sync)
@@ -103,12 +139,20 @@ jest.mock('../services/hubspotClient', () => ({
 const mockCreateOrUpdateWixContact = jest.fn();
 const mockGetWixContactById = jest.fn();
 const mockListWixContacts = jest.fn();
+const mockListWixContactsUpdatedSince = jest.fn();
 
+const mockDeleteWixContact = jest.fn();
+const mockLabelWixContact = jest.fn();
+const mockMergeWixContacts = jest.fn();
 jest.mock('../services/wixContacts', () => ({
   __esModule: true,
   createOrUpdateWixContact: (...args: any[]) => mockCreateOrUpdateWixContact(...args),
   getWixContactById: (...args: any[]) => mockGetWixContactById(...args),
   listWixContacts: (...args: any[]) => mockListWixContacts(...args),
+  listWixContactsUpdatedSince: (...args: any[]) => mockListWixContactsUpdatedSince(...args),
+  deleteWixContact: (...args: any[]) => mockDeleteWixContact(...args),
+  labelWixContact: (...args: any[]) => mockLabelWixContact(...args),
+  mergeWixContacts: (...args: any[]) => mockMergeWixContacts(...args),
 }));
 
 // Module 4 — Mapping Store
@@ -116,18 +160,27 @@ const mockFindByWixId = jest.fn();
 const mockFindByHubSpotId = jest.fn();
 const mockUpsertMapping = jest.fn();
 
+const mockDeleteMapping = jest.fn();
+const mockRelinkHubSpotId = jest.fn();
 jest.mock('../services/mappingStore', () => ({
   __esModule: true,
   findByWixId: (...args: any[]) => mockFindByWixId(...args),
   findByHubSpotId: (...args: any[]) => mockFindByHubSpotId(...args),
   upsertMapping: (...args: any[]) => mockUpsertMapping(...args),
+  deleteMapping: (...args: any[]) => mockDeleteMapping(...args),
+  relinkHubSpotId: (...args: any[]) => mockRelinkHubSpotId(...args),
 }));
 
 // Module 5-A — Dedupe Guard
 const mockRegisterSyncId = jest.fn();
+const mockIsSyncEcho = jest.fn();
 jest.mock('../services/dedupeGuard', () => ({
   __esModule: true,
   registerSyncId: (...args: any[]) => mockRegisterSyncId(...args),
+  isSyncEcho: (...args: any[]) => mockIsSyncEcho(...args),
+  extractSyncId: (data: any, side: string) =>
+    side === 'hubspot' ? data?.properties?.wix_sync_tag : data?.syncTag,
+  deletionSyncId: (instanceId: string, side: string, id: string) => `delete:${instanceId}:${side}:${id}`,
 }));
 
 // Module 5-B — Idempotency Checker
@@ -135,11 +188,13 @@ const mockComputeHash = jest.fn();
 const mockShouldSkipWrite = jest.fn();
 const mockUpdateHash = jest.fn();
 
+const mockClearHashesForContact = jest.fn();
 jest.mock('../services/idempotencyChecker', () => ({
   __esModule: true,
   computeHash: (...args: any[]) => mockComputeHash(...args),
   shouldSkipWrite: (...args: any[]) => mockShouldSkipWrite(...args),
   updateHash: (...args: any[]) => mockUpdateHash(...args),
+  clearHashesForContact: (...args: any[]) => mockClearHashesForContact(...args),
 }));
 
 // Module 6 — Field Mapping Engine
@@ -154,6 +209,45 @@ jest.mock('../services/fieldMappingEngine', () => ({
   wixToHubSpot: (...args: any[]) => mockWixToHubSpot(...args),
   hubSpotToWix: (...args: any[]) => mockHubSpotToWix(...args),
   flattenWixContact: (...args: any[]) => mockFlattenWixContact(...args),
+  pickExtendedFields: jest.requireActual('../services/fieldMappingEngine').pickExtendedFields,
+  ruleWixFields: jest.requireActual('../services/fieldMappingEngine').ruleWixFields,
+}));
+
+// Module 15 — Company Sync
+const mockSyncContactCompany = jest.fn();
+jest.mock('../services/companySync', () => ({
+  __esModule: true,
+  syncContactCompany: (...args: any[]) => mockSyncContactCompany(...args),
+}));
+
+// Module 17 — Label Sync (pure helpers kept real)
+const mockMapLabelsToHubSpot = jest.fn();
+const mockMapLabelsToWix = jest.fn();
+const mockEnsureLabelOptions = jest.fn();
+const mockPushLabelsToLists = jest.fn();
+const mockPullLabelsFromLists = jest.fn();
+const mockPullListMemberships = jest.fn();
+jest.mock('../services/labelSync', () => {
+  const actual = jest.requireActual('../services/labelSync');
+  return {
+    __esModule: true,
+    LABEL_FIELD: actual.LABEL_FIELD,
+    splitLabels: actual.splitLabels,
+    mergeLabelKeys: actual.mergeLabelKeys,
+    mapLabelsToHubSpot: (...args: any[]) => mockMapLabelsToHubSpot(...args),
+    mapLabelsToWix: (...args: any[]) => mockMapLabelsToWix(...args),
+    ensureLabelOptions: (...args: any[]) => mockEnsureLabelOptions(...args),
+    pushLabelsToLists: (...args: any[]) => mockPushLabelsToLists(...args),
+    pullLabelsFromLists: (...args: any[]) => mockPullLabelsFromLists(...args),
+    pullListMemberships: (...args: any[]) => mockPullListMemberships(...args),
+  };
+});
+
+// Module 20 — Sync Filters (matching kept real)
+const mockLoadSyncFilters = jest.fn();
+jest.mock('../services/syncFilters', () => ({
+  ...jest.requireActual('../services/syncFilters'),
+  loadSyncFilters: (...args: any[]) => mockLoadSyncFilters(...args),
 }));
 
 import {
@@ -161,14 +255,36 @@ import {
   onWixContactUpdated,
   onHubSpotContactCreated,
   onHubSpotContactUpdated,
+  onWixContactDeleted,
+  onHubSpotContactDeleted,
+  onHubSpotContactsMerged,
   runFullSync,
+  pauseFullSync,
+  cancelFullSync,
+  resumeFullSync,
+  runDeltaSync,
   handleWixWebhook,
   handleHubSpotWebhook,
+  previewContactMapping,
 } from '../services/syncOrchestrator';
 import { IInstallation } from '../models/Installation';
+import SyncEvent from '../models/SyncEvent';
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
 
+function makeSyncRun(overrides: Record<string, unknown> = {}): any {
+  return {
+    _id: 'run-1',
+    status: 'running',
+    phase: 'wix_to_hubspot',
+    wixOffset: 0,
+    hubspotAfter: '',
+    counters: { synced: 0, skipped: 0, errors: 0, total: 0 },
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
 function makeInstallation(overrides: Partial<IInstallation> = {}): IInstallation {
   return {
     instanceId: 'inst-test-1',
@@ -192,19 +308,45 @@ beforeEach(() => {
 
   // Default mocks
   mockLoadMappingRules.mockResolvedValue([]);
+  mockLoadSyncFilters.mockResolvedValue([]);
   mockWixToHubSpot.mockReturnValue({ email: 'john@test.com', firstname: 'John' });
   mockHubSpotToWix.mockReturnValue({ email: 'john@test.com', firstName: 'John' });
+  mockFlattenWixContact.mockReturnValue({});
   mockComputeHash.mockReturnValue('hash-abc-123');
   mockShouldSkipWrite.mockResolvedValue(false);
   mockUpdateHash.mockResolvedValue(undefined);
   mockRegisterSyncId.mockResolvedValue('sync-uuid-001');
   mockFindByWixId.mockResolvedValue(null);
   mockFindByHubSpotId.mockResolvedValue(null);
+  mockIsSyncEcho.mockResolvedValue(false);
+  mockDeleteMapping.mockResolvedValue(true);
+  mockClearHashesForContact.mockResolvedValue(undefined);
+  mockSyncContactCompany.mockResolvedValue(null);
+  mockMapLabelsToHubSpot.mockImplementation(async (_i: any, _w: any, props: any) => props);
+  mockMapLabelsToWix.mockImplementation(async (_i: any, _h: any, props: any) => props);
+  mockEnsureLabelOptions.mockResolvedValue(undefined);
+  mockPushLabelsToLists.mockResolvedValue(false);
+  mockPullLabelsFromLists.mockResolvedValue(false);
+  mockPullListMemberships.mockResolvedValue({ updated: 0, failed: 0 });
   mockUpsertMapping.mockResolvedValue({
     instanceId: 'inst-test-1',
     wixContactId: 'wix-1',
     hubspotContactId: 'hs-1',
   });
+  mockSyncErrorCreate.mockResolvedValue({});
+  // Batch endpoints accept every input: upserts create hs-new-N, updates echo the ID
+  mockBatchUpsertContactsByEmail.mockImplementation(async (_id: string, inputs: any[]) => ({
+    contacts: inputs.map((input, i) => ({
+      id: `hs-new-${i + 1}`,
+      properties: { email: input.email },
+      new: true,
+    })),
+    errors: [],
+  }));
+  mockBatchUpdateContacts.mockImplementation(async (_id: string, inputs: any[]) => ({
+    contacts: inputs.map((input) => ({ id: input.id, properties: {} })),
+    errors: [],
+  }));
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -229,6 +371,55 @@ describe('onWixContactCreated', () => {
     );
   });
 
+  it('should map phones with the installation phone region and report unreadable values', async () => {
+    const installation = makeInstallation({ phoneRegion: 'GB' });
+    const warning = { field: 'phone', message: 'Phone number could not be read' };
+    mockWixToHubSpot.mockImplementation((_data, _rules, options) => {
+      options.warnings.push(warning);
+      return { email: 'john@test.com' };
+    });
+    mockFindContactByEmail.mockResolvedValue(null);
+    mockCreateContact.mockResolvedValue({ id: 'hs-new-1', properties: {} });
+
+    const result = await onWixContactCreated(installation, 'wix-1', {});
+
+    expect(mockWixToHubSpot).toHaveBeenCalledWith({}, expect.anything(), expect.objectContaining({ phoneRegion: 'GB' }));
+    expect(result.warnings).toEqual([warning]);
+    expect(SyncEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'success', details: { warnings: [warning] } }),
+    );
+  });
+
+  it('should link the HubSpot contact to its company', async () => {
+    const installation = makeInstallation();
+    const wixData = { info: { company: 'Acme' } };
+    mockFindContactByEmail.mockResolvedValue(null);
+    mockCreateContact.mockResolvedValue({ id: 'hs-new-1', properties: {} });
+
+    await onWixContactCreated(installation, 'wix-1', wixData);
+
+    expect(mockSyncContactCompany).toHaveBeenCalledWith(installation, 'hs-new-1', wixData);
+  });
+
+  it('should not fail the contact sync when company sync fails', async () => {
+    mockFindContactByEmail.mockResolvedValue(null);
+    mockCreateContact.mockResolvedValue({ id: 'hs-new-1', properties: {} });
+    mockSyncContactCompany.mockRejectedValue(new Error('companies scope missing'));
+
+    const result = await onWixContactCreated(makeInstallation(), 'wix-1', {});
+
+    expect(result.action).toBe('create');
+    expect(mockUpsertMapping).toHaveBeenCalled();
+    expect(mockSyncErrorCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'contact_sync',
+        referenceId: 'wix-1',
+        payload: { wixContactId: 'wix-1', hubspotContactId: 'hs-new-1', source: 'company_sync' },
+        error: 'companies scope missing',
+      }),
+    );
+  });
+
   it('should save the mapping after creating the HubSpot contact', async () => {
     const installation = makeInstallation();
     mockFindContactByEmail.mockResolvedValue(null);
@@ -506,6 +697,268 @@ describe('onHubSpotContactUpdated', () => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// Per-field conflict strategies (Scenarios 2 & 4)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('per-field conflict strategies', () => {
+  const ownershipRules = [
+    { wixField: 'primaryEmail', hubspotField: 'email', conflictStrategy: 'source_of_truth_wix' },
+    { wixField: 'firstName', hubspotField: 'firstname', conflictStrategy: 'source_of_truth_wix' },
+    { wixField: 'lastName', hubspotField: 'lastname', conflictStrategy: 'source_of_truth_wix' },
+    { wixField: 'jobTitle', hubspotField: 'jobtitle', conflictStrategy: 'source_of_truth_hubspot' },
+    { wixField: 'company', hubspotField: 'company', conflictStrategy: 'never_overwrite_non_empty' },
+  ];
+
+  function lastLoggedEvent(): Record<string, any> {
+    const calls = (SyncEvent.create as jest.Mock).mock.calls;
+    return calls[calls.length - 1][0];
+  }
+
+  beforeEach(() => {
+    mockLoadMappingRules.mockResolvedValue(ownershipRules);
+    mockShouldSkipWrite.mockResolvedValue(false);
+    mockUpdateContact.mockResolvedValue({ id: 'hs-1', properties: {} });
+    mockCreateOrUpdateWixContact.mockResolvedValue({ contactId: 'wix-1', action: 'updated' });
+    mockFindByWixId.mockResolvedValue({
+      instanceId: 'inst-test-1',
+      wixContactId: 'wix-1',
+      hubspotContactId: 'hs-1',
+    });
+    mockFindByHubSpotId.mockResolvedValue({
+      instanceId: 'inst-test-1',
+      wixContactId: 'wix-1',
+      hubspotContactId: 'hs-1',
+    });
+  });
+
+  it('writes Wix-owned fields even when HubSpot is newer (wix→hs)', async () => {
+    mockWixToHubSpot.mockReturnValue({
+      email: 'john@test.com',
+      firstname: 'John',
+      jobtitle: 'Engineer',
+    });
+    mockGetContactById.mockResolvedValue({
+      id: 'hs-1',
+      properties: { email: 'old@test.com', firstname: 'Jon', jobtitle: 'CTO' },
+      updatedAt: '2026-06-01T00:00:00Z',
+    });
+
+    const result = await onWixContactUpdated(makeInstallation(), 'wix-1', {
+      _updatedDate: '2025-01-01T00:00:00Z',
+    });
+
+    expect(result.action).toBe('update');
+    expect(mockGetContactById).toHaveBeenCalledWith(
+      'inst-test-1',
+      'hs-1',
+      ['email', 'firstname', 'jobtitle'],
+    );
+    expect(mockUpdateContact).toHaveBeenCalledWith(expect.anything(), 'hs-1', {
+      email: 'john@test.com',
+      firstname: 'John',
+    });
+  });
+
+  it('records every field decision in SyncEvent.details', async () => {
+    mockWixToHubSpot.mockReturnValue({ firstname: 'John', jobtitle: 'Engineer' });
+    mockGetContactById.mockResolvedValue({
+      id: 'hs-1',
+      properties: { firstname: 'Jon', jobtitle: 'CTO' },
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    await onWixContactUpdated(makeInstallation(), 'wix-1', {
+      _updatedDate: '2026-01-01T00:00:00Z',
+    });
+
+    const event = lastLoggedEvent();
+    expect(event.action).toBe('update');
+    expect(event.details.conflict.winner).toBe('wix');
+    expect(event.details.fields).toEqual([
+      expect.objectContaining({ field: 'firstname', strategy: 'source_of_truth_wix', applied: true }),
+      expect.objectContaining({ field: 'jobtitle', strategy: 'source_of_truth_hubspot', applied: false }),
+    ]);
+  });
+
+  it('skips with details when no field survives the merge', async () => {
+    mockWixToHubSpot.mockReturnValue({ jobtitle: 'Engineer', company: 'Acme' });
+    mockGetContactById.mockResolvedValue({
+      id: 'hs-1',
+      properties: { jobtitle: 'CTO', company: 'Globex' },
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    const result = await onWixContactUpdated(makeInstallation(), 'wix-1', {
+      _updatedDate: '2026-01-01T00:00:00Z',
+    });
+
+    expect(result.action).toBe('skip');
+    expect(mockUpdateContact).not.toHaveBeenCalled();
+    const event = lastLoggedEvent();
+    expect(event.status).toBe('skipped');
+    expect(event.details.fields).toHaveLength(2);
+  });
+
+  it('fills an empty target under never_overwrite_non_empty', async () => {
+    mockWixToHubSpot.mockReturnValue({ company: 'Acme' });
+    mockGetContactById.mockResolvedValue({
+      id: 'hs-1',
+      properties: { company: '' },
+      updatedAt: '2026-06-01T00:00:00Z',
+    });
+
+    const result = await onWixContactUpdated(makeInstallation(), 'wix-1', {
+      _updatedDate: '2025-01-01T00:00:00Z',
+    });
+
+    expect(result.action).toBe('update');
+    expect(mockUpdateContact).toHaveBeenCalledWith(expect.anything(), 'hs-1', { company: 'Acme' });
+  });
+
+  it('writes HubSpot-owned fields to Wix even when Wix is newer (hs→wix)', async () => {
+    mockHubSpotToWix.mockReturnValue({ firstName: 'Johnny', jobTitle: 'CTO' });
+    mockGetWixContactById.mockResolvedValue({
+      _id: 'wix-1',
+      _updatedDate: '2026-12-01T00:00:00Z',
+    });
+
+    const result = await onHubSpotContactUpdated(makeInstallation(), 'hs-1', {
+      firstname: 'Johnny',
+      jobtitle: 'CTO',
+      hs_lastmodifieddate: '2025-01-01T00:00:00Z',
+    });
+
+    expect(result.action).toBe('update');
+    expect(mockCreateOrUpdateWixContact).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ jobTitle: 'CTO', firstName: undefined }),
+      expect.anything(),
+      'wix-1',
+    );
+  });
+
+  it('keeps the current Wix first name when only the last name is applied', async () => {
+    mockLoadMappingRules.mockResolvedValue([
+      { wixField: 'firstName', hubspotField: 'firstname', conflictStrategy: 'source_of_truth_wix' },
+      { wixField: 'lastName', hubspotField: 'lastname', conflictStrategy: 'newest_wins' },
+    ]);
+    mockHubSpotToWix.mockReturnValue({ firstName: 'Johnny', lastName: 'Smith' });
+    mockGetWixContactById.mockResolvedValue({
+      _id: 'wix-1',
+      _updatedDate: '2025-01-01T00:00:00Z',
+    });
+    mockFlattenWixContact.mockReturnValue({ firstName: 'John', lastName: 'Smyth' });
+
+    await onHubSpotContactUpdated(makeInstallation(), 'hs-1', {
+      firstname: 'Johnny',
+      lastname: 'Smith',
+      hs_lastmodifieddate: '2026-01-01T00:00:00Z',
+    });
+
+    expect(mockCreateOrUpdateWixContact).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ firstName: 'John', lastName: 'Smith' }),
+      expect.anything(),
+      'wix-1',
+    );
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Label sync (Module 17) — Scenarios 1–4
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('label sync', () => {
+  const mapping = { instanceId: 'inst-test-1', wixContactId: 'wix-1', hubspotContactId: 'hs-1' };
+
+  it('should add label options before creating the HubSpot contact', async () => {
+    mockMapLabelsToHubSpot.mockResolvedValue({ email: 'john@test.com', wix_labels: 'VIP' });
+    mockFindContactByEmail.mockResolvedValue(null);
+    mockCreateContact.mockResolvedValue({ id: 'hs-new-1', properties: {} });
+
+    await onWixContactCreated(makeInstallation(), 'wix-1', {});
+
+    expect(mockEnsureLabelOptions).toHaveBeenCalledWith(
+      expect.anything(),
+      { email: 'john@test.com', wix_labels: 'VIP' },
+      [],
+    );
+    expect(mockEnsureLabelOptions.mock.invocationCallOrder[0]).toBeLessThan(
+      mockCreateContact.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('should push list memberships for a new HubSpot contact', async () => {
+    const installation = makeInstallation();
+    const wixData = { info: { labelKeys: { items: ['custom.vip'] } } };
+    mockFindContactByEmail.mockResolvedValue(null);
+    mockCreateContact.mockResolvedValue({ id: 'hs-new-1', properties: {} });
+
+    await onWixContactCreated(installation, 'wix-1', wixData);
+
+    expect(mockPushLabelsToLists).toHaveBeenCalledWith(installation, 'hs-new-1', wixData);
+  });
+
+  it('should reconcile list memberships even when the properties are unchanged', async () => {
+    mockFindByWixId.mockResolvedValue(mapping);
+    mockShouldSkipWrite.mockResolvedValue(true);
+
+    const result = await onWixContactUpdated(makeInstallation(), 'wix-1', {});
+
+    expect(result.action).toBe('skip');
+    expect(mockPushLabelsToLists).toHaveBeenCalledWith(expect.anything(), 'hs-1', {});
+  });
+
+  it('should pull labels from lists for an existing Wix contact', async () => {
+    mockFindByHubSpotId.mockResolvedValue(mapping);
+    mockShouldSkipWrite.mockResolvedValue(true);
+
+    await onHubSpotContactUpdated(makeInstallation(), 'hs-1', { firstname: 'John' });
+
+    expect(mockPullLabelsFromLists).toHaveBeenCalledWith(expect.anything(), 'wix-1', 'hs-1');
+  });
+
+  it('should not touch lists in a dry run', async () => {
+    mockFindByWixId.mockResolvedValue(mapping);
+    mockShouldSkipWrite.mockResolvedValue(true);
+
+    await onWixContactUpdated(makeInstallation(), 'wix-1', {}, 'manual', { changes: [] });
+
+    expect(mockPushLabelsToLists).not.toHaveBeenCalled();
+  });
+
+  it('should keep system labels when applying HubSpot labels to Wix', async () => {
+    mockFindByHubSpotId.mockResolvedValue(mapping);
+    mockMapLabelsToWix.mockResolvedValue({ labelIds: 'custom.vip' });
+    mockGetWixContactById.mockResolvedValue({ _id: 'wix-1', _updatedDate: '2025-01-01T00:00:00Z' });
+    mockFlattenWixContact.mockReturnValue({ labelIds: 'contacts.contacted;custom.old' });
+    mockCreateOrUpdateWixContact.mockResolvedValue({ contactId: 'wix-1', action: 'updated' });
+
+    await onHubSpotContactUpdated(makeInstallation(), 'hs-1', {
+      wix_labels: 'VIP',
+      hs_lastmodifieddate: '2026-06-01T00:00:00Z',
+    });
+
+    expect(mockCreateOrUpdateWixContact).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ labelKeys: ['contacts.contacted', 'custom.vip'] }),
+      expect.anything(),
+      'wix-1',
+    );
+  });
+
+  it('should not fail the contact sync when list sync fails', async () => {
+    mockCreateOrUpdateWixContact.mockResolvedValue({ contactId: 'wix-new-1', action: 'created' });
+    mockPullLabelsFromLists.mockRejectedValue(new Error('lists scope missing'));
+
+    const result = await onHubSpotContactCreated(makeInstallation(), 'hs-1', { email: 'a@b.com' });
+
+    expect(result.action).toBe('create');
+    expect(mockUpsertMapping).toHaveBeenCalled();
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Scenario 3 — HubSpot Contact Created → creates Wix contact
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -533,6 +986,19 @@ describe('onHubSpotContactCreated', () => {
     );
   });
 
+  it('should write mapped custom fields to the Wix contact', async () => {
+    mockHubSpotToWix.mockReturnValue({ email: 'john@test.com', 'custom.loyalty-tier': 'gold' });
+    mockCreateOrUpdateWixContact.mockResolvedValue({ contactId: 'wix-new-1', action: 'created' });
+
+    await onHubSpotContactCreated(makeInstallation(), 'hs-1', { loyalty_tier: 'gold' });
+
+    expect(mockCreateOrUpdateWixContact).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ extendedFields: { 'custom.loyalty-tier': 'gold' } }),
+      expect.anything(),
+    );
+  });
+
   it('should delegate to onHubSpotContactUpdated when mapping already exists', async () => {
     const installation = makeInstallation();
 
@@ -640,6 +1106,74 @@ describe('onHubSpotContactCreated', () => {
 // Scenario 1 — Error path
 // ═══════════════════════════════════════════════════════════════════════════════
 
+describe('sync filters', () => {
+  const internal = {
+    _id: 'filter-1',
+    name: 'Internal addresses',
+    side: 'both',
+    isActive: true,
+    conditions: [{ kind: 'email_domain', operator: 'equals', value: 'ourcompany.com' }],
+  };
+
+  it('should keep a matching Wix contact out of HubSpot and log the filter', async () => {
+    mockLoadSyncFilters.mockResolvedValue([internal]);
+    mockFlattenWixContact.mockReturnValue({ email: 'jane@ourcompany.com' });
+
+    const result = await onWixContactCreated(makeInstallation(), 'wix-1', {});
+
+    expect(result).toEqual({ action: 'skip', source: 'wix_webhook', wixContactId: 'wix-1', hubspotContactId: '' });
+    expect(mockFindContactByEmail).not.toHaveBeenCalled();
+    expect(mockCreateContact).not.toHaveBeenCalled();
+    expect(SyncEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'skip',
+        status: 'skipped',
+        details: { reason: 'sync_filter', filterRuleId: 'filter-1', filterName: 'Internal addresses' },
+      }),
+    );
+  });
+
+  it('should keep a matching HubSpot contact out of Wix', async () => {
+    mockLoadSyncFilters.mockResolvedValue([
+      { ...internal, conditions: [{ kind: 'source', operator: 'equals', value: 'import' }] },
+    ]);
+
+    const result = await onHubSpotContactCreated(makeInstallation(), 'hs-1', {
+      email: 'john@test.com',
+      hs_object_source: 'IMPORT',
+    });
+
+    expect(result.action).toBe('skip');
+    expect(mockMapLabelsToWix).not.toHaveBeenCalled();
+    expect(mockCreateOrUpdateWixContact).not.toHaveBeenCalled();
+    expect(SyncEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({ hubspotContactId: 'hs-1', details: expect.objectContaining({ filterRuleId: 'filter-1' }) }),
+    );
+  });
+
+  it('should ignore filters meant for the other system', async () => {
+    mockLoadSyncFilters.mockResolvedValue([{ ...internal, side: 'wix' }]);
+    mockCreateOrUpdateWixContact.mockResolvedValue({ contactId: 'wix-new-1', action: 'created' });
+
+    const result = await onHubSpotContactCreated(makeInstallation(), 'hs-1', { email: 'jane@ourcompany.com' });
+
+    expect(result.action).toBe('create');
+  });
+
+  it('should plan the skip in a dry run without logging it', async () => {
+    mockLoadSyncFilters.mockResolvedValue([internal]);
+    mockFlattenWixContact.mockReturnValue({ email: 'jane@ourcompany.com' });
+    const plan = { changes: [] as any[] };
+
+    await onWixContactCreated(makeInstallation(), 'wix-1', {}, 'manual', plan);
+
+    expect(plan.changes).toEqual([
+      expect.objectContaining({ action: 'skip', target: 'hubspot', reason: 'Excluded by sync filter "Internal addresses"' }),
+    ]);
+    expect(SyncEvent.create).not.toHaveBeenCalled();
+  });
+});
+
 describe('onWixContactCreated — error paths', () => {
   it('should throw and log when createContact fails', async () => {
     const installation = makeInstallation();
@@ -768,47 +1302,349 @@ describe('onHubSpotContactUpdated — error paths', () => {
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// Full Sync — runFullSync
+// Scenario 5 — Wix Contact Deleted → applies deletion policy
 // ═══════════════════════════════════════════════════════════════════════════════
 
-describe('runFullSync', () => {
+describe('onWixContactDeleted', () => {
+  const mapping = { instanceId: 'inst-test-1', wixContactId: 'wix-1', hubspotContactId: 'hs-1' };
+
   beforeEach(() => {
-    // Default: listWixContacts returns empty, withRetry returns empty HubSpot page
-    mockListWixContacts.mockResolvedValue({ contacts: [], total: 0 });
-    mockWithRetry.mockResolvedValue({ data: { results: [], paging: {} } });
+    mockDeleteContact.mockResolvedValue(undefined);
+    mockUpdateContact.mockResolvedValue({ id: 'hs-1', properties: {} });
   });
 
-  it('should return zeroes when no contacts exist', async () => {
-    const installation = makeInstallation();
+  it('should only remove the mapping under the default "ignore" policy', async () => {
+    mockFindByWixId.mockResolvedValue(mapping);
 
-    const result = await runFullSync(installation);
+    const result = await onWixContactDeleted(makeInstallation(), 'wix-1');
 
-    expect(result.synced).toBe(0);
-    expect(result.skipped).toBe(0);
-    expect(result.errors).toBe(0);
-    expect(result.total).toBe(0);
-    expect(result.durationMs).toBeGreaterThanOrEqual(0);
-    expect(installation.save).toHaveBeenCalled();
+    expect(result.action).toBe('delete');
+    expect(mockDeleteMapping).toHaveBeenCalledWith('inst-test-1', 'wix-1', 'hs-1');
+    expect(mockDeleteContact).not.toHaveBeenCalled();
+    expect(mockUpdateContact).not.toHaveBeenCalled();
   });
 
-  it('should create new HubSpot contacts for unmapped Wix contacts', async () => {
-    const installation = makeInstallation();
-    mockFindByWixId.mockResolvedValue(null);
-    mockFindContactByEmail.mockResolvedValue(null);
-    mockCreateContact.mockResolvedValue({ id: 'hs-new-1', properties: {} });
+  it('should delete the HubSpot contact under "mirror_delete" and register the echo ID', async () => {
+    mockFindByWixId.mockResolvedValue(mapping);
+    const installation = makeInstallation({
+      deletionPolicy: { onWixDelete: 'mirror_delete', onHubSpotDelete: 'ignore' },
+    } as Partial<IInstallation>);
 
-    mockListWixContacts.mockResolvedValue({
-      contacts: [
-        { id: 'wix-1', _id: 'wix-1', info: { name: { first: 'John' }, emails: [{ email: 'john@test.com' }] } },
-      ],
-      total: 1,
-    });
+    await onWixContactDeleted(installation, 'wix-1');
 
-    const result = await runFullSync(installation);
+    expect(mockRegisterSyncId).toHaveBeenCalledWith('inst-test-1', 'hubspot', 'hs-1', 'delete:inst-test-1:hubspot:hs-1');
+    expect(mockDeleteContact).toHaveBeenCalledWith(installation, 'hs-1');
+  });
 
-    expect(result.synced).toBe(1);
+  it('should tolerate a HubSpot contact that is already gone', async () => {
+    mockFindByWixId.mockResolvedValue(mapping);
+    mockDeleteContact.mockRejectedValue({ response: { status: 404 }, message: 'Not found' });
+
+    const result = await onWixContactDeleted(
+      makeInstallation({
+        deletionPolicy: { onWixDelete: 'mirror_delete', onHubSpotDelete: 'ignore' },
+      } as Partial<IInstallation>),
+      'wix-1',
+    );
+
+    expect(result.action).toBe('delete');
+    expect(mockDeleteMapping).toHaveBeenCalled();
+  });
+
+  it('should flag the HubSpot contact under "flag_hubspot_property"', async () => {
+    mockFindByWixId.mockResolvedValue(mapping);
+    const installation = makeInstallation({
+      deletionPolicy: { onWixDelete: 'flag_hubspot_property', onHubSpotDelete: 'ignore' },
+    } as Partial<IInstallation>);
+
+    await onWixContactDeleted(installation, 'wix-1');
+
+    expect(mockUpdateContact).toHaveBeenCalledWith(installation, 'hs-1', {
+      wix_contact_deleted: 'true',
+      wix_sync_tag: 'sync-uuid-001',
+    });
+    expect(mockDeleteContact).not.toHaveBeenCalled();
+  });
+
+  it('should skip deletions that we propagated ourselves', async () => {
+    mockIsSyncEcho.mockResolvedValue(true);
+
+    const result = await onWixContactDeleted(makeInstallation(), 'wix-1');
+
+    expect(result.action).toBe('skip');
+    expect(mockIsSyncEcho).toHaveBeenCalledWith('delete:inst-test-1:wix:wix-1');
+    expect(mockDeleteMapping).not.toHaveBeenCalled();
+  });
+
+  it('should keep the mapping when propagation fails so the job can retry', async () => {
+    mockFindByWixId.mockResolvedValue(mapping);
+    mockDeleteContact.mockRejectedValue(new Error('HubSpot down'));
+
+    await expect(
+      onWixContactDeleted(
+        makeInstallation({
+          deletionPolicy: { onWixDelete: 'mirror_delete', onHubSpotDelete: 'ignore' },
+        } as Partial<IInstallation>),
+        'wix-1',
+      ),
+    ).rejects.toThrow('HubSpot down');
+    expect(mockDeleteMapping).not.toHaveBeenCalled();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Scenario 6 — HubSpot Contact Deleted → applies deletion policy
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('onHubSpotContactDeleted', () => {
+  const mapping = { instanceId: 'inst-test-1', wixContactId: 'wix-1', hubspotContactId: 'hs-1' };
+
+  beforeEach(() => {
+    mockDeleteWixContact.mockResolvedValue(undefined);
+    mockLabelWixContact.mockResolvedValue(undefined);
+  });
+
+  it('should skip when no mapping exists', async () => {
+    const result = await onHubSpotContactDeleted(makeInstallation(), 'hs-1');
+
+    expect(result.action).toBe('skip');
+    expect(mockDeleteMapping).not.toHaveBeenCalled();
+  });
+
+  it('should delete the Wix contact under "mirror_delete" and register the echo ID', async () => {
+    mockFindByHubSpotId.mockResolvedValue(mapping);
+    const installation = makeInstallation({
+      deletionPolicy: { onWixDelete: 'ignore', onHubSpotDelete: 'mirror_delete' },
+    } as Partial<IInstallation>);
+
+    const result = await onHubSpotContactDeleted(installation, 'hs-1');
+
+    expect(result.action).toBe('delete');
+    expect(mockRegisterSyncId).toHaveBeenCalledWith('inst-test-1', 'wix', 'wix-1', 'delete:inst-test-1:wix:wix-1');
+    expect(mockDeleteWixContact).toHaveBeenCalledWith(installation, 'wix-1');
+    expect(mockDeleteMapping).toHaveBeenCalledWith('inst-test-1', 'wix-1', 'hs-1');
+  });
+
+  it('should label the Wix contact under "archive_wix_label"', async () => {
+    mockFindByHubSpotId.mockResolvedValue(mapping);
+    const installation = makeInstallation({
+      deletionPolicy: { onWixDelete: 'ignore', onHubSpotDelete: 'archive_wix_label' },
+    } as Partial<IInstallation>);
+
+    await onHubSpotContactDeleted(installation, 'hs-1');
+
+    expect(mockLabelWixContact).toHaveBeenCalledWith(
+      installation,
+      'wix-1',
+      'Deleted in HubSpot',
+      'sync-uuid-001',
+    );
+    expect(mockDeleteWixContact).not.toHaveBeenCalled();
+  });
+
+  it('should skip deletions that we propagated ourselves', async () => {
+    mockIsSyncEcho.mockResolvedValue(true);
+
+    const result = await onHubSpotContactDeleted(makeInstallation(), 'hs-1');
+
+    expect(result.action).toBe('skip');
+    expect(mockIsSyncEcho).toHaveBeenCalledWith('delete:inst-test-1:hubspot:hs-1');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Scenario 7 — HubSpot Contacts Merged
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('onHubSpotContactsMerged', () => {
+  function mappingFor(wixContactId: string, hubspotContactId: string, lastSyncedAt = new Date('2024-01-01')) {
+    return { instanceId: 'inst-test-1', wixContactId, hubspotContactId, lastSyncedAt };
+  }
+
+  /** Resolves findByHubSpotId from a table of HubSpot ID → mapping */
+  function givenMappings(mappings: Record<string, ReturnType<typeof mappingFor>>) {
+    mockFindByHubSpotId.mockImplementation(async (_i: string, id: string) => mappings[id] ?? null);
+  }
+
+  function mergeEventDetails(): any {
+    const call = (SyncEvent.create as jest.Mock).mock.calls.find(([e]) => e.action === 'merge');
+    return call?.[0];
+  }
+
+  beforeEach(() => {
+    mockMergeWixContacts.mockResolvedValue({ id: 'wix-1' });
+    mockLabelWixContact.mockResolvedValue(undefined);
+    mockRelinkHubSpotId.mockResolvedValue(mappingFor('wix-1', 'hs-new'));
+  });
+
+  it('should skip when none of the records is linked', async () => {
+    const result = await onHubSpotContactsMerged(makeInstallation(), 'hs-1', ['hs-2']);
+
+    expect(result.action).toBe('skip');
+    expect(mockRelinkHubSpotId).not.toHaveBeenCalled();
+    expect(SyncEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should repoint the mapping of a merged-away record to the survivor', async () => {
+    givenMappings({ 'hs-2': mappingFor('wix-1', 'hs-2') });
+
+    const result = await onHubSpotContactsMerged(makeInstallation(), 'hs-1', ['hs-2']);
+
+    expect(result).toEqual(
+      expect.objectContaining({ action: 'merge', wixContactId: 'wix-1', hubspotContactId: 'hs-1' }),
+    );
+    expect(mockRelinkHubSpotId).toHaveBeenCalledWith('inst-test-1', 'hs-2', 'hs-1', expect.any(String));
+    expect(mockDeleteMapping).not.toHaveBeenCalled();
+    expect(mockMergeWixContacts).not.toHaveBeenCalled();
+    expect(mockClearHashesForContact).toHaveBeenCalledWith('inst-test-1', 'hs-1');
+    expect(mockClearHashesForContact).toHaveBeenCalledWith('inst-test-1', 'hs-2');
+  });
+
+  it('should keep the Wix contact linked to the survivor and merge the duplicates into it', async () => {
+    const installation = makeInstallation();
+    givenMappings({
+      'hs-1': mappingFor('wix-1', 'hs-1', new Date('2023-01-01')),
+      'hs-2': mappingFor('wix-2', 'hs-2', new Date('2024-06-01')),
+    });
+
+    await onHubSpotContactsMerged(installation, 'hs-1', ['hs-2']);
+
+    expect(mockDeleteMapping).toHaveBeenCalledWith('inst-test-1', 'wix-2', 'hs-2');
+    expect(mockRelinkHubSpotId).not.toHaveBeenCalled();
+    expect(mockRegisterSyncId).toHaveBeenCalledWith('inst-test-1', 'wix', 'wix-2', 'delete:inst-test-1:wix:wix-2');
+    expect(mockMergeWixContacts).toHaveBeenCalledWith(installation, 'wix-1', ['wix-2']);
+
+    const event = mergeEventDetails();
+    expect(event.status).toBe('success');
+    expect(event.details.decision).toEqual({
+      survivingHubSpotId: 'hs-1',
+      mergedHubSpotIds: ['hs-2'],
+      keptWixContactId: 'wix-1',
+      keptBecause: 'linked_to_survivor',
+      duplicates: [{ wixContactId: 'wix-2', hubspotContactId: 'hs-2', outcome: 'merged' }],
+    });
+  });
+
+  it('should relink the most recently synced contact and unlink the duplicate once merged', async () => {
+    givenMappings({
+      'hs-2': mappingFor('wix-2', 'hs-2', new Date('2023-01-01')),
+      'hs-3': mappingFor('wix-3', 'hs-3', new Date('2024-06-01')),
+    });
+
+    await onHubSpotContactsMerged(makeInstallation(), 'hs-new', ['hs-2', 'hs-3']);
+
+    expect(mockRelinkHubSpotId).toHaveBeenCalledWith('inst-test-1', 'hs-3', 'hs-new', expect.any(String));
+    expect(mockDeleteMapping).toHaveBeenCalledWith('inst-test-1', 'wix-2', 'hs-2');
+    expect(mockMergeWixContacts.mock.invocationCallOrder[0]).toBeLessThan(
+      mockDeleteMapping.mock.invocationCallOrder[0],
+    );
+    expect(mergeEventDetails().details.decision).toEqual(
+      expect.objectContaining({ keptWixContactId: 'wix-3', keptBecause: 'most_recently_synced' }),
+    );
+  });
+
+  it('should label the duplicates when Wix refuses the merge', async () => {
+    const installation = makeInstallation();
+    givenMappings({ 'hs-1': mappingFor('wix-1', 'hs-1'), 'hs-2': mappingFor('wix-2', 'hs-2') });
+    mockMergeWixContacts.mockRejectedValue(new Error('Site members cannot be merged'));
+
+    await onHubSpotContactsMerged(installation, 'hs-1', ['hs-2']);
+
+    expect(mockLabelWixContact).toHaveBeenCalledWith(installation, 'wix-2', 'Merged in HubSpot', 'sync-uuid-001');
+    expect(mergeEventDetails().details.decision.duplicates).toEqual([
+      { wixContactId: 'wix-2', hubspotContactId: 'hs-2', outcome: 'labelled' },
+    ]);
+  });
+
+  it('should record a failed merge and keep the duplicate linked when it cannot be reconciled', async () => {
+    givenMappings({ 'hs-1': mappingFor('wix-1', 'hs-1'), 'hs-2': mappingFor('wix-2', 'hs-2') });
+    mockMergeWixContacts.mockRejectedValue(new Error('Site members cannot be merged'));
+    mockLabelWixContact.mockRejectedValue(new Error('Wix unavailable'));
+
+    await expect(onHubSpotContactsMerged(makeInstallation(), 'hs-1', ['hs-2'])).rejects.toThrow(
+      '1 Wix duplicate(s) could not be merged or labelled',
+    );
+
+    expect(mockDeleteMapping).not.toHaveBeenCalled();
+    const event = mergeEventDetails();
+    expect(event.status).toBe('failed');
+    expect(event.details.decision.duplicates[0]).toEqual(
+      expect.objectContaining({ outcome: 'failed', error: 'Wix unavailable' }),
+    );
+  });
+
+  it('should keep a duplicate linked when relinking the kept contact fails', async () => {
+    givenMappings({
+      'hs-2': mappingFor('wix-2', 'hs-2', new Date('2023-01-01')),
+      'hs-3': mappingFor('wix-3', 'hs-3', new Date('2024-06-01')),
+    });
+    mockRelinkHubSpotId.mockRejectedValue(new Error('Database error during relink'));
+
+    await expect(onHubSpotContactsMerged(makeInstallation(), 'hs-new', ['hs-2', 'hs-3'])).rejects.toThrow(
+      'Database error during relink',
+    );
+
+    expect(mockDeleteMapping).not.toHaveBeenCalled();
+    expect(mockMergeWixContacts).not.toHaveBeenCalled();
+  });
+
+  it('should log a failed merge and rethrow when the mapping store fails', async () => {
+    givenMappings({ 'hs-2': mappingFor('wix-1', 'hs-2') });
+    mockRelinkHubSpotId.mockRejectedValue(new Error('Database error during relink'));
+
+    await expect(onHubSpotContactsMerged(makeInstallation(), 'hs-1', ['hs-2'])).rejects.toThrow(
+      'Database error during relink',
+    );
+    expect(mergeEventDetails().status).toBe('failed');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Full Sync — runFullSync
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('runFullSync', () => {
+  beforeEach(() => {
+    // Default: listWixContacts returns empty, withRetry returns empty HubSpot page
+    mockListWixContacts.mockResolvedValue({ contacts: [], total: 0 });
+    mockWithRetry.mockResolvedValue({ data: { results: [], paging: {} } });
+    mockSyncRunFindOne.mockResolvedValue(null);
+    mockSyncRunCreate.mockResolvedValue(makeSyncRun());
+    mockSyncRunUpdateOne.mockResolvedValue({ matchedCount: 1 });
+  });
+
+  it('should return zeroes when no contacts exist', async () => {
+    const installation = makeInstallation();
+
+    const result = await runFullSync(installation);
+
+    expect(result.synced).toBe(0);
+    expect(result.skipped).toBe(0);
+    expect(result.errors).toBe(0);
+    expect(result.total).toBe(0);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    expect(installation.save).toHaveBeenCalled();
+  });
+
+  it('should create new HubSpot contacts for unmapped Wix contacts', async () => {
+    const installation = makeInstallation();
+    mockFindByWixId.mockResolvedValue(null);
+
+    mockListWixContacts.mockResolvedValue({
+      contacts: [
+        { id: 'wix-1', _id: 'wix-1', info: { name: { first: 'John' }, emails: [{ email: 'john@test.com' }] } },
+      ],
+      total: 1,
+    });
+
+    const result = await runFullSync(installation);
+
+    expect(result.synced).toBe(1);
     expect(result.total).toBeGreaterThanOrEqual(1);
     expect(result.errors).toBe(0);
+    expect(mockUpsertMapping).toHaveBeenCalledWith(
+      expect.objectContaining({ wixContactId: 'wix-1', hubspotContactId: 'hs-new-1' }),
+    );
   });
 
   it('should skip contacts that are already up-to-date', async () => {
@@ -837,8 +1673,7 @@ describe('runFullSync', () => {
   it('should count errors for contacts that fail to sync', async () => {
     const installation = makeInstallation();
     mockFindByWixId.mockResolvedValue(null);
-    mockFindContactByEmail.mockResolvedValue(null);
-    mockCreateContact.mockRejectedValue(new Error('HubSpot down'));
+    mockBatchUpsertContactsByEmail.mockRejectedValue(new Error('HubSpot down'));
 
     mockListWixContacts.mockResolvedValue({
       contacts: [{ id: 'wix-1', _id: 'wix-1' }],
@@ -877,11 +1712,7 @@ describe('runFullSync', () => {
   it('should handle multiple contacts in a single page', async () => {
     const installation = makeInstallation();
     mockFindByWixId.mockResolvedValue(null);
-    mockFindContactByEmail.mockResolvedValue(null);
-    mockCreateContact
-      .mockResolvedValueOnce({ id: 'hs-1', properties: {} })
-      .mockResolvedValueOnce({ id: 'hs-2', properties: {} })
-      .mockResolvedValueOnce({ id: 'hs-3', properties: {} });
+    mockWixToHubSpot.mockImplementation((wc: any) => ({ email: wc.info.emails[0].email }));
 
     mockListWixContacts.mockResolvedValue({
       contacts: [
@@ -897,6 +1728,831 @@ describe('runFullSync', () => {
     expect(result.synced).toBeGreaterThanOrEqual(3);
     expect(result.total).toBeGreaterThanOrEqual(3);
     expect(result.errors).toBe(0);
+    expect(mockBatchUpsertContactsByEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start a new SyncRun and mark it completed', async () => {
+    const result = await runFullSync(makeInstallation());
+
+    expect(mockSyncRunCreate).toHaveBeenCalledWith({ instanceId: 'inst-test-1' });
+    expect(result.runId).toBe('run-1');
+    expect(result.status).toBe('completed');
+    expect(mockSyncRunUpdateOne).toHaveBeenLastCalledWith(
+      { _id: 'run-1', status: 'running' },
+      { $set: expect.objectContaining({ status: 'completed', phase: 'done' }) },
+    );
+  });
+
+  it('should checkpoint the Wix offset after each page', async () => {
+    mockListWixContacts.mockResolvedValue({
+      contacts: [{ info: {} }, { info: {} }],
+      total: 2,
+    });
+
+    await runFullSync(makeInstallation());
+
+    expect(mockSyncRunUpdateOne).toHaveBeenCalledWith(
+      { _id: 'run-1', status: 'running' },
+      {
+        $set: {
+          wixOffset: 2,
+          counters: { synced: 0, skipped: 0, errors: 2, total: 2 },
+        },
+      },
+    );
+  });
+
+  it('should resume Phase 1 from the stored offset with stored counters', async () => {
+    const run = makeSyncRun({
+      status: 'paused',
+      wixOffset: 300,
+      counters: { synced: 250, skipped: 40, errors: 10, total: 300 },
+    });
+    mockSyncRunFindOne.mockResolvedValue(run);
+    mockSyncRunFindOneAndUpdate.mockResolvedValue({ ...run, status: 'running' });
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(mockSyncRunCreate).not.toHaveBeenCalled();
+    expect(mockListWixContacts).toHaveBeenCalledWith(expect.anything(), 100, 300);
+    expect(result.total).toBe(300);
+    expect(result.synced).toBe(250);
+  });
+
+  it('should resume Phase 2 from the stored HubSpot cursor', async () => {
+    const run = makeSyncRun({ status: 'failed', phase: 'hubspot_to_wix', hubspotAfter: 'cursor-7' });
+    mockSyncRunFindOne.mockResolvedValue(run);
+    mockSyncRunFindOneAndUpdate.mockResolvedValue({ ...run, status: 'running' });
+    const client = { get: jest.fn().mockResolvedValue({ data: { results: [] } }) };
+    mockWithRetry.mockImplementation((_id: string, fn: any) => fn(client));
+
+    await runFullSync(makeInstallation());
+
+    expect(mockListWixContacts).not.toHaveBeenCalled();
+    expect(client.get).toHaveBeenCalledWith('/crm/v3/objects/contacts', {
+      params: expect.objectContaining({ after: 'cursor-7' }),
+    });
+  });
+
+  it('should do nothing while a live run already owns the installation', async () => {
+    mockSyncRunFindOne.mockResolvedValue(makeSyncRun());
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(result.runId).toBe('');
+    expect(result.status).toBe('running');
+    expect(mockListWixContacts).not.toHaveBeenCalled();
+  });
+
+  it('should take over a stale running run', async () => {
+    const run = makeSyncRun({ updatedAt: new Date(Date.now() - 60 * 60 * 1000) });
+    mockSyncRunFindOne.mockResolvedValue(run);
+    mockSyncRunFindOneAndUpdate.mockResolvedValue(run);
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(mockSyncRunFindOneAndUpdate).toHaveBeenCalled();
+    expect(result.status).toBe('completed');
+  });
+
+  it('should stop at the next checkpoint once the run is paused', async () => {
+    const installation = makeInstallation();
+    mockListWixContacts.mockResolvedValue({
+      contacts: Array.from({ length: 100 }, () => ({ info: {} })),
+      total: 200,
+    });
+    mockSyncRunUpdateOne.mockResolvedValue({ matchedCount: 0 });
+    mockSyncRunFindById.mockResolvedValue({ status: 'paused' });
+
+    const result = await runFullSync(installation);
+
+    expect(result.status).toBe('paused');
+    expect(mockListWixContacts).toHaveBeenCalledTimes(1);
+    expect(mockWithRetry).not.toHaveBeenCalled();
+    expect(installation.save).not.toHaveBeenCalled();
+  });
+
+  it('should mark the run failed at the saved offset when a Wix page fails', async () => {
+    const installation = makeInstallation();
+    mockListWixContacts
+      .mockResolvedValueOnce({ contacts: Array.from({ length: 100 }, () => ({ info: {} })), total: 300 })
+      .mockRejectedValueOnce(new Error('Wix unavailable'));
+
+    const result = await runFullSync(installation);
+
+    expect(result.status).toBe('failed');
+    expect(mockWithRetry).not.toHaveBeenCalled();
+    const updates = mockSyncRunUpdateOne.mock.calls.map((c: any[]) => c[1].$set);
+    expect(updates).toContainEqual(expect.objectContaining({ wixOffset: 100 }));
+    expect(updates).not.toContainEqual(expect.objectContaining({ phase: 'hubspot_to_wix' }));
+    expect(updates[updates.length - 1]).toEqual(
+      expect.objectContaining({ status: 'failed', lastError: 'Wix unavailable' }),
+    );
+    expect(installation.save).not.toHaveBeenCalled();
+  });
+
+  it('should retry the failed Wix page when the run is resumed', async () => {
+    const run = makeSyncRun({ status: 'failed', wixOffset: 100 });
+    mockSyncRunFindOne.mockResolvedValue(run);
+    mockSyncRunFindOneAndUpdate.mockResolvedValue({ ...run, status: 'running' });
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(mockListWixContacts).toHaveBeenCalledWith(expect.anything(), 100, 100);
+    expect(result.status).toBe('completed');
+  });
+
+  it('should mark the run failed when Phase 2 throws', async () => {
+    const installation = makeInstallation();
+    mockWithRetry.mockRejectedValue(new Error('HubSpot down'));
+
+    const result = await runFullSync(installation);
+
+    expect(result.status).toBe('failed');
+    expect(mockSyncRunUpdateOne).toHaveBeenLastCalledWith(
+      { _id: 'run-1', status: 'running' },
+      { $set: expect.objectContaining({ status: 'failed', lastError: 'HubSpot down' }) },
+    );
+    expect(installation.save).not.toHaveBeenCalled();
+  });
+});
+
+describe('runFullSync — batched HubSpot writes', () => {
+  const page = (...ids: string[]) => ({
+    contacts: ids.map((id) => ({ id, info: { emails: [{ email: `${id}@test.com` }] } })),
+    total: ids.length,
+  });
+
+  beforeEach(() => {
+    mockWithRetry.mockResolvedValue({ data: { results: [], paging: {} } });
+    mockSyncRunFindOne.mockResolvedValue(null);
+    mockSyncRunCreate.mockResolvedValue(makeSyncRun());
+    mockSyncRunUpdateOne.mockResolvedValue({ matchedCount: 1 });
+    mockFindByWixId.mockResolvedValue(null);
+    mockWixToHubSpot.mockImplementation((wc: any) => ({ email: wc.info.emails[0].email, firstname: 'John' }));
+    mockRegisterSyncId.mockImplementation(async (_i: string, _s: string, _c: string, id?: string) => id ?? 'sync-uuid-001');
+  });
+
+  it('should upsert new contacts by email in one call, tagged for echo suppression', async () => {
+    mockListWixContacts.mockResolvedValue(page('wix-1', 'wix-2'));
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(result.synced).toBe(2);
+    expect(mockFindContactByEmail).not.toHaveBeenCalled();
+    expect(mockCreateContact).not.toHaveBeenCalled();
+    expect(mockBatchUpsertContactsByEmail).toHaveBeenCalledTimes(1);
+    const [, inputs] = mockBatchUpsertContactsByEmail.mock.calls[0];
+    expect(inputs.map((i: any) => i.email)).toEqual(['wix-1@test.com', 'wix-2@test.com']);
+
+    const tag = inputs[0].properties.wix_sync_tag;
+    expect(tag).toEqual(expect.any(String));
+    expect(mockRegisterSyncId).toHaveBeenCalledWith('inst-test-1', 'hubspot', 'hs-new-1', tag);
+    expect(mockWriteSyncTag).not.toHaveBeenCalled();
+    expect(mockUpsertMapping).toHaveBeenCalledWith(
+      expect.objectContaining({
+        wixContactId: 'wix-2',
+        hubspotContactId: 'hs-new-2',
+        syncOperationId: inputs[1].properties.wix_sync_tag,
+      }),
+    );
+  });
+
+  it('should send changed mapped contacts through batch update', async () => {
+    mockListWixContacts.mockResolvedValue(page('wix-1'));
+    mockFindByWixId.mockResolvedValue({ instanceId: 'inst-test-1', wixContactId: 'wix-1', hubspotContactId: 'hs-1' });
+    mockGetContactById.mockResolvedValue({ id: 'hs-1', properties: {}, updatedAt: '2025-01-01T00:00:00Z' });
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(result.synced).toBe(1);
+    expect(mockUpdateContact).not.toHaveBeenCalled();
+    expect(mockBatchUpdateContacts).toHaveBeenCalledWith('inst-test-1', [
+      { id: 'hs-1', properties: expect.objectContaining({ firstname: 'John', wix_sync_tag: expect.any(String) }) },
+    ]);
+    expect(SyncEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'update', status: 'success', hubspotContactId: 'hs-1' }),
+    );
+  });
+
+  it('should log a failed event and a SyncError for each contact HubSpot rejects', async () => {
+    mockListWixContacts.mockResolvedValue(page('wix-1', 'wix-2'));
+    mockBatchUpsertContactsByEmail.mockResolvedValue({
+      contacts: [{ id: 'hs-1', properties: { email: 'wix-1@test.com' }, new: true }],
+      errors: [{ message: 'Property "phone" is invalid', category: 'VALIDATION_ERROR', ids: ['wix-2@test.com'] }],
+    });
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(result.synced).toBe(1);
+    expect(result.errors).toBe(1);
+    expect(SyncEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({ wixContactId: 'wix-2', status: 'failed', error: 'Property "phone" is invalid' }),
+    );
+    expect(mockSyncErrorCreate).toHaveBeenCalledTimes(1);
+    expect(mockSyncErrorCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'contact_sync',
+        referenceId: 'wix-2',
+        email: 'wix-2@test.com',
+        error: 'Property "phone" is invalid',
+      }),
+    );
+    expect(mockUpsertMapping).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry contacts one by one when HubSpot rejects the whole batch', async () => {
+    mockListWixContacts.mockResolvedValue(page('wix-1', 'wix-2'));
+    const rejected = Object.assign(new Error('Request failed with status code 400'), {
+      response: { status: 400 },
+    });
+    mockBatchUpsertContactsByEmail
+      .mockRejectedValueOnce(rejected)
+      .mockRejectedValueOnce(rejected)
+      .mockResolvedValueOnce({
+        contacts: [{ id: 'hs-2', properties: { email: 'wix-2@test.com' }, new: false }],
+        errors: [],
+      });
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(mockBatchUpsertContactsByEmail).toHaveBeenCalledTimes(3);
+    expect(mockBatchUpsertContactsByEmail.mock.calls[1][1]).toHaveLength(1);
+    expect(result.synced).toBe(1);
+    expect(result.errors).toBe(1);
+    expect(mockSyncErrorCreate).toHaveBeenCalledWith(expect.objectContaining({ referenceId: 'wix-1' }));
+    expect(SyncEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({ wixContactId: 'wix-2', action: 'update', status: 'success' }),
+    );
+  });
+
+  it('should split a page into calls of syncBatchSize contacts', async () => {
+    const ids = Array.from({ length: 60 }, (_, i) => `wix-${i}`);
+    mockListWixContacts.mockResolvedValue(page(...ids));
+
+    const result = await runFullSync(makeInstallation());
+
+    expect(mockBatchUpsertContactsByEmail.mock.calls.map(([, inputs]) => inputs.length)).toEqual([50, 10]);
+    expect(result.synced).toBe(60);
+  });
+
+  it('should flush the page before checkpointing it', async () => {
+    mockListWixContacts.mockResolvedValue(page('wix-1'));
+
+    await runFullSync(makeInstallation());
+
+    expect(mockSyncRunUpdateOne).toHaveBeenCalledWith(
+      { _id: 'run-1', status: 'running' },
+      { $set: { wixOffset: 1, counters: { synced: 1, skipped: 0, errors: 0, total: 1 } } },
+    );
+  });
+});
+
+describe('pauseFullSync / cancelFullSync / resumeFullSync', () => {
+  it('pauses only a running run', async () => {
+    mockSyncRunFindOneAndUpdate.mockResolvedValue(makeSyncRun({ status: 'paused' }));
+
+    const run = await pauseFullSync('inst-test-1');
+
+    expect(run?.status).toBe('paused');
+    expect(mockSyncRunFindOneAndUpdate).toHaveBeenCalledWith(
+      { instanceId: 'inst-test-1', status: 'running' },
+      { $set: { status: 'paused' } },
+      expect.anything(),
+    );
+  });
+
+  it('cancels any unfinished run', async () => {
+    mockSyncRunFindOneAndUpdate.mockResolvedValue(null);
+
+    await expect(cancelFullSync('inst-test-1')).resolves.toBeNull();
+    expect(mockSyncRunFindOneAndUpdate).toHaveBeenCalledWith(
+      { instanceId: 'inst-test-1', status: { $in: ['running', 'paused', 'failed'] } },
+      { $set: { status: 'cancelled', finishedAt: expect.any(Date) } },
+      expect.anything(),
+    );
+  });
+
+  it('returns null when there is nothing to resume', async () => {
+    mockSyncRunFindOne.mockResolvedValue(null);
+
+    await expect(resumeFullSync(makeInstallation())).resolves.toBeNull();
+    expect(mockSyncRunFindOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('restarts a paused run in the background', async () => {
+    const run = makeSyncRun({ status: 'paused', wixOffset: 100 });
+    mockSyncRunFindOne.mockResolvedValue(run);
+    mockSyncRunFindOneAndUpdate.mockResolvedValue({ ...run, status: 'running' });
+    mockSyncRunUpdateOne.mockResolvedValue({ matchedCount: 1 });
+    mockListWixContacts.mockResolvedValue({ contacts: [] });
+    mockWithRetry.mockResolvedValue({ data: { results: [] } });
+
+    const resumed = await resumeFullSync(makeInstallation());
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(resumed).toBe(run);
+    expect(mockListWixContacts).toHaveBeenCalledWith(expect.anything(), 100, 100);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Dry run — planned changes, no writes
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function expectNoWrites(): void {
+  expect(mockCreateContact).not.toHaveBeenCalled();
+  expect(mockUpdateContact).not.toHaveBeenCalled();
+  expect(mockCreateOrUpdateWixContact).not.toHaveBeenCalled();
+  expect(mockRegisterSyncId).not.toHaveBeenCalled();
+  expect(mockUpsertMapping).not.toHaveBeenCalled();
+  expect(mockUpdateHash).not.toHaveBeenCalled();
+  expect(SyncEvent.create).not.toHaveBeenCalled();
+}
+
+describe('dry run — scenario handlers', () => {
+  const MAPPING = { instanceId: 'inst-test-1', wixContactId: 'wix-1', hubspotContactId: 'hs-1' };
+
+  it('plans a HubSpot create for a new Wix contact', async () => {
+    const plan = { changes: [] as any[] };
+    mockFindContactByEmail.mockResolvedValue(null);
+
+    const result = await onWixContactCreated(makeInstallation(), 'wix-1', {}, 'manual', plan);
+
+    expect(result.action).toBe('create');
+    expect(plan.changes).toEqual([
+      expect.objectContaining({
+        scenario: 'wix_contact_created',
+        action: 'create',
+        target: 'hubspot',
+        before: {},
+        after: { email: 'john@test.com', firstname: 'John' },
+      }),
+    ]);
+    expectNoWrites();
+  });
+
+  it('plans a link-by-email as an update with the current values', async () => {
+    const plan = { changes: [] as any[] };
+    mockFindContactByEmail.mockResolvedValue({
+      id: 'hs-9',
+      properties: { email: 'john@test.com', firstname: 'Johnny' },
+    });
+
+    await onWixContactCreated(makeInstallation(), 'wix-1', {}, 'manual', plan);
+
+    expect(plan.changes[0]).toMatchObject({
+      action: 'update',
+      hubspotContactId: 'hs-9',
+      before: { email: 'john@test.com', firstname: 'Johnny' },
+      reason: 'Linked to existing HubSpot contact by email',
+    });
+    expectNoWrites();
+  });
+
+  it('plans an idempotency skip for an unchanged Wix contact', async () => {
+    const plan = { changes: [] as any[] };
+    mockFindByWixId.mockResolvedValue(MAPPING);
+    mockShouldSkipWrite.mockResolvedValue(true);
+
+    const result = await onWixContactUpdated(makeInstallation(), 'wix-1', {}, 'manual', plan);
+
+    expect(result.action).toBe('skip');
+    expect(plan.changes[0]).toMatchObject({ action: 'skip', reason: 'Unchanged since the last sync' });
+    expectNoWrites();
+  });
+
+  it('plans the merged fields of a Wix update with conflict decisions', async () => {
+    const plan = { changes: [] as any[] };
+    mockFindByWixId.mockResolvedValue(MAPPING);
+    mockGetContactById.mockResolvedValue({
+      id: 'hs-1',
+      properties: { email: 'john@test.com', firstname: 'Jon' },
+      updatedAt: '2025-01-01T00:00:00Z',
+    });
+
+    await onWixContactUpdated(
+      makeInstallation(), 'wix-1', { _updatedDate: '2026-01-01T00:00:00Z' }, 'manual', plan,
+    );
+
+    expect(plan.changes[0]).toMatchObject({
+      scenario: 'wix_contact_updated',
+      action: 'update',
+      before: { email: 'john@test.com', firstname: 'Jon' },
+      after: { email: 'john@test.com', firstname: 'John' },
+      conflict: { winner: 'wix' },
+    });
+    expect(plan.changes[0].fields).toHaveLength(2);
+    expectNoWrites();
+  });
+
+  it('plans a Wix create for a new HubSpot contact', async () => {
+    const plan = { changes: [] as any[] };
+
+    const result = await onHubSpotContactCreated(
+      makeInstallation(), 'hs-1', { firstname: 'John' }, 'manual', plan,
+    );
+
+    expect(result.action).toBe('create');
+    expect(plan.changes[0]).toMatchObject({
+      scenario: 'hubspot_contact_created',
+      target: 'wix',
+      after: { email: 'john@test.com', firstName: 'John' },
+    });
+    expectNoWrites();
+  });
+
+  it('plans a conflict skip for a HubSpot update that loses', async () => {
+    const plan = { changes: [] as any[] };
+    mockFindByHubSpotId.mockResolvedValue(MAPPING);
+    mockGetWixContactById.mockResolvedValue({ id: 'wix-1', _updatedDate: '2026-06-01T00:00:00Z' });
+
+    const result = await onHubSpotContactUpdated(
+      makeInstallation(),
+      'hs-1',
+      { firstname: 'John', hs_lastmodifieddate: '2025-01-01T00:00:00Z' },
+      'manual',
+      plan,
+    );
+
+    expect(result.action).toBe('skip');
+    expect(plan.changes[0]).toMatchObject({
+      scenario: 'hubspot_contact_updated',
+      action: 'skip',
+      after: {},
+      conflict: { winner: 'wix' },
+    });
+    expectNoWrites();
+  });
+
+  it('maps with the plan rules instead of the saved ones', async () => {
+    const rules = [{ wixField: 'email', hubspotField: 'email' }] as any;
+    const plan = { rules, changes: [] as any[] };
+    mockFindContactByEmail.mockResolvedValue(null);
+
+    await onWixContactCreated(makeInstallation(), 'wix-1', {}, 'manual', plan);
+
+    expect(mockLoadMappingRules).not.toHaveBeenCalled();
+    expect(mockWixToHubSpot).toHaveBeenCalledWith({}, rules, expect.objectContaining({ warnings: [] }));
+  });
+});
+
+describe('runFullSync — dry run', () => {
+  beforeEach(() => {
+    mockListWixContacts.mockResolvedValue({ contacts: [], total: 0 });
+    mockWithRetry.mockResolvedValue({ data: { results: [], paging: {} } });
+  });
+
+  it('returns a report and leaves the SyncRun and installation alone', async () => {
+    const installation = makeInstallation();
+    mockFindContactByEmail.mockResolvedValue(null);
+    mockListWixContacts.mockResolvedValue({ contacts: [{ id: 'wix-1' }], total: 1 });
+    mockWithRetry.mockResolvedValue({
+      data: { results: [{ id: 'hs-5', properties: { firstname: 'Ann' } }] },
+    });
+
+    const result = await runFullSync(installation, { dryRun: true });
+
+    expect(result.status).toBe('completed');
+    expect(result.report).toMatchObject({
+      instanceId: 'inst-test-1',
+      customRules: false,
+      status: 'completed',
+      summary: { create: 2, update: 0, skip: 0, errors: 0, total: 2 },
+    });
+    expect(result.report!.changes.map((c) => c.target)).toEqual(['hubspot', 'wix']);
+    expect(mockSyncRunCreate).not.toHaveBeenCalled();
+    expect(mockSyncRunUpdateOne).not.toHaveBeenCalled();
+    expect(installation.save).not.toHaveBeenCalled();
+    expectNoWrites();
+  });
+
+  it('does not plan a Wix create for a HubSpot contact Phase 1 linked by email', async () => {
+    mockFindContactByEmail.mockResolvedValue({ id: 'hs-5', properties: {} });
+    mockListWixContacts.mockResolvedValue({ contacts: [{ id: 'wix-1' }], total: 1 });
+    mockWithRetry.mockResolvedValue({ data: { results: [{ id: 'hs-5', properties: {} }] } });
+
+    const result = await runFullSync(makeInstallation(), { dryRun: true });
+
+    expect(result.report!.changes).toHaveLength(1);
+    expect(result.report!.summary).toMatchObject({ update: 1, skip: 1 });
+  });
+
+  it('reports a failed HubSpot read as a partial report', async () => {
+    mockWithRetry.mockRejectedValue(new Error('HubSpot down'));
+
+    const result = await runFullSync(makeInstallation(), { dryRun: true });
+
+    expect(result.report!.status).toBe('failed');
+    expect(mockSyncRunUpdateOne).not.toHaveBeenCalled();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Delta Sync — runDeltaSync
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('runDeltaSync', () => {
+  const wixCursor = new Date('2026-01-01T00:00:00Z');
+  const hsCursor = new Date('2026-01-02T00:00:00Z');
+
+  beforeEach(() => {
+    mockListWixContactsUpdatedSince.mockResolvedValue({ contacts: [], total: 0 });
+    mockSearchContactsModifiedSince.mockResolvedValue({ contacts: [] });
+  });
+
+  it('queries both sides from the stored cursors and advances them', async () => {
+    const installation = makeInstallation({
+      syncCursors: { wixUpdatedAfter: wixCursor, hubspotModifiedAfter: hsCursor },
+    } as any);
+
+    const before = Date.now();
+    const result = await runDeltaSync(installation);
+
+    expect(mockListWixContactsUpdatedSince).toHaveBeenCalledWith(installation, wixCursor, 100, 0);
+    expect(mockSearchContactsModifiedSince).toHaveBeenCalledWith(
+      'inst-test-1',
+      hsCursor,
+      expect.arrayContaining(['email', 'wix_sync_tag']),
+      undefined,
+      false,
+    );
+    expect(result.cursors.wixUpdatedAfter!.getTime()).toBeGreaterThan(wixCursor.getTime());
+    expect(result.cursors.wixUpdatedAfter!.getTime()).toBeLessThanOrEqual(before);
+    expect(result.cursors.hubspotModifiedAfter).toEqual(result.cursors.wixUpdatedAfter);
+    expect(installation.syncCursors).toBe(result.cursors);
+    expect(installation.save).toHaveBeenCalled();
+  });
+
+  it('falls back to lastSyncAt when no cursor has been stored yet', async () => {
+    const lastSyncAt = new Date('2025-12-31T00:00:00Z');
+    const installation = makeInstallation({ lastSyncAt });
+
+    await runDeltaSync(installation);
+
+    expect(mockListWixContactsUpdatedSince).toHaveBeenCalledWith(installation, lastSyncAt, 100, 0);
+    expect(mockSearchContactsModifiedSince.mock.calls[0][1]).toBe(lastSyncAt);
+  });
+
+  it('routes changed contacts to the create and update scenarios', async () => {
+    mockListWixContactsUpdatedSince.mockResolvedValue({
+      contacts: [{ id: 'wix-1' }],
+      total: 1,
+    });
+    mockFindByWixId.mockResolvedValue(null);
+
+    mockSearchContactsModifiedSince.mockResolvedValue({
+      contacts: [
+        { id: 'hs-1', properties: { firstname: 'Jane', hs_lastmodifieddate: '2026-01-03T00:00:00Z' } },
+      ],
+    });
+    mockFindByHubSpotId.mockResolvedValue({
+      instanceId: 'inst-test-1',
+      wixContactId: 'wix-9',
+      hubspotContactId: 'hs-1',
+    });
+    mockGetWixContactById.mockResolvedValue({ _id: 'wix-9', _updatedDate: '2025-01-01T00:00:00Z' });
+    mockCreateOrUpdateWixContact.mockResolvedValue({ contactId: 'wix-9', action: 'updated' });
+
+    const result = await runDeltaSync(makeInstallation());
+
+    expect(mockBatchUpsertContactsByEmail).toHaveBeenCalled();
+    expect(mockCreateOrUpdateWixContact).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.anything(),
+      'wix-9',
+    );
+    expect(result.synced).toBe(2);
+    expect(result.total).toBe(2);
+  });
+
+  it('skips contacts carrying one of our own sync tags', async () => {
+    mockSearchContactsModifiedSince.mockResolvedValue({
+      contacts: [{ id: 'hs-1', properties: { wix_sync_tag: 'sync-uuid-001' } }],
+    });
+    mockIsSyncEcho.mockImplementation(async (id?: string) => id === 'sync-uuid-001');
+
+    const result = await runDeltaSync(makeInstallation());
+
+    expect(result.skipped).toBe(1);
+    expect(mockFindByHubSpotId).not.toHaveBeenCalled();
+  });
+
+  it('restarts the HubSpot search from the last timestamp once the window is exhausted', async () => {
+    mockFindByHubSpotId.mockResolvedValue(null);
+    mockCreateOrUpdateWixContact.mockResolvedValue({ contactId: 'wix-new', action: 'created' });
+    mockSearchContactsModifiedSince
+      .mockResolvedValueOnce({
+        contacts: [{ id: 'hs-1', properties: { hs_lastmodifieddate: '2026-02-01T00:00:00Z' } }],
+        after: '10000',
+      })
+      .mockResolvedValueOnce({ contacts: [] });
+
+    await runDeltaSync(makeInstallation({
+      syncCursors: { wixUpdatedAfter: wixCursor, hubspotModifiedAfter: hsCursor },
+    } as any));
+
+    expect(mockSearchContactsModifiedSince).toHaveBeenCalledTimes(2);
+    const [, since, , after, inclusive] = mockSearchContactsModifiedSince.mock.calls[1];
+    expect(since).toEqual(new Date('2026-02-01T00:00:00Z'));
+    expect(after).toBeUndefined();
+    expect(inclusive).toBe(true);
+  });
+
+  it('keeps a cursor in place when its phase fails', async () => {
+    mockListWixContactsUpdatedSince.mockRejectedValue(new Error('Wix 503'));
+    const installation = makeInstallation({
+      syncCursors: { wixUpdatedAfter: wixCursor, hubspotModifiedAfter: hsCursor },
+    } as any);
+
+    const result = await runDeltaSync(installation);
+
+    expect(result.cursors.wixUpdatedAfter).toBe(wixCursor);
+    expect(result.cursors.hubspotModifiedAfter!.getTime()).toBeGreaterThan(hsCursor.getTime());
+  });
+
+  it('holds the Wix cursor before a contact whose batched write failed, and retries it next run', async () => {
+    const contact = (id: string, updatedDate: string) => ({
+      id,
+      updatedDate,
+      info: { emails: [{ email: `${id}@test.com` }] },
+    });
+    mockFindByWixId.mockResolvedValue(null);
+    mockWixToHubSpot.mockImplementation((wc: any) => ({ email: wc.info.emails[0].email }));
+    mockListWixContactsUpdatedSince.mockResolvedValueOnce({
+      contacts: [contact('wix-1', '2026-01-05T00:00:00.000Z'), contact('wix-2', '2026-01-06T00:00:00.000Z')],
+      total: 2,
+    });
+    mockBatchUpsertContactsByEmail.mockRejectedValueOnce(new Error('HubSpot down'));
+    const installation = makeInstallation({
+      syncCursors: { wixUpdatedAfter: wixCursor, hubspotModifiedAfter: hsCursor },
+    } as any);
+
+    const first = await runDeltaSync(installation);
+
+    expect(first.errors).toBe(2);
+    expect(first.cursors.wixUpdatedAfter).toEqual(new Date('2026-01-04T23:59:59.999Z'));
+
+    mockListWixContactsUpdatedSince.mockResolvedValueOnce({
+      contacts: [contact('wix-1', '2026-01-05T00:00:00.000Z')],
+      total: 1,
+    });
+
+    const second = await runDeltaSync(installation);
+
+    expect(mockListWixContactsUpdatedSince).toHaveBeenLastCalledWith(
+      installation,
+      new Date('2026-01-04T23:59:59.999Z'),
+      100,
+      0,
+    );
+    expect(second.synced).toBe(1);
+    expect(second.cursors.wixUpdatedAfter!.getTime()).toBeGreaterThan(Date.parse('2026-01-05T00:00:00Z'));
+  });
+
+  it('labels Wix contacts whose HubSpot list memberships alone changed', async () => {
+    mockPullListMemberships.mockResolvedValue({ updated: 2, failed: 1 });
+    const installation = makeInstallation();
+
+    const result = await runDeltaSync(installation);
+
+    expect(mockPullListMemberships).toHaveBeenCalledWith(installation);
+    expect(result.synced).toBe(2);
+    expect(result.errors).toBe(1);
+  });
+
+  it('holds the HubSpot cursor before the earliest contact that failed', async () => {
+    mockSearchContactsModifiedSince.mockResolvedValue({
+      contacts: [
+        { id: 'hs-1', properties: { hs_lastmodifieddate: '2026-01-03T00:00:00.000Z' } },
+        { id: 'hs-2', properties: { hs_lastmodifieddate: '2026-01-04T00:00:00.000Z' } },
+        { id: 'hs-3', properties: { hs_lastmodifieddate: '2026-01-05T00:00:00.000Z' } },
+      ],
+    });
+    mockFindByHubSpotId.mockImplementation(async (_instanceId: string, id: string) => {
+      if (id !== 'hs-1') throw new Error('Mongo timeout');
+      return null;
+    });
+    mockCreateOrUpdateWixContact.mockResolvedValue({ contactId: 'wix-new', action: 'created' });
+
+    const result = await runDeltaSync(makeInstallation({
+      syncCursors: { wixUpdatedAfter: wixCursor, hubspotModifiedAfter: hsCursor },
+    } as any));
+
+    expect(result.errors).toBe(2);
+    expect(result.cursors.hubspotModifiedAfter).toEqual(new Date('2026-01-03T23:59:59.999Z'));
+    expect(result.cursors.wixUpdatedAfter!.getTime()).toBeGreaterThan(wixCursor.getTime());
+  });
+
+  it('stops holding the cursor for a contact that keeps failing, and records it', async () => {
+    mockSearchContactsModifiedSince.mockResolvedValue({
+      contacts: [{ id: 'hs-1', properties: { hs_lastmodifieddate: '2026-01-03T00:00:00.000Z' } }],
+    });
+    mockFindByHubSpotId.mockRejectedValue(new Error('Mongo timeout'));
+    const installation = makeInstallation({
+      syncCursors: { wixUpdatedAfter: wixCursor, hubspotModifiedAfter: hsCursor },
+    } as any);
+    const held = new Date('2026-01-02T23:59:59.999Z');
+
+    const first = await runDeltaSync(installation);
+    const second = await runDeltaSync(installation);
+
+    expect(first.cursors.hubspotModifiedAfter).toEqual(held);
+    expect(second.cursors.hubspotModifiedAfter).toEqual(held);
+    expect(second.cursors.heldBack).toEqual({ 'hubspot:hs-1': 2 });
+    expect(mockSyncErrorCreate).not.toHaveBeenCalled();
+
+    const third = await runDeltaSync(installation);
+
+    expect(third.errors).toBe(1);
+    expect(third.cursors.hubspotModifiedAfter!.getTime()).toBeGreaterThan(Date.parse('2026-01-03T00:00:00Z'));
+    expect(third.cursors.heldBack).toEqual({});
+    expect(mockSyncErrorCreate).toHaveBeenCalledTimes(1);
+    expect(mockSyncErrorCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        instanceId: 'inst-test-1',
+        type: 'contact_sync',
+        referenceId: 'hs-1',
+        error: 'Mongo timeout',
+        retryCount: 3,
+      }),
+    );
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Mapping Preview — one synced contact under draft rules
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('previewContactMapping', () => {
+  const rules = [
+    { wixField: 'firstName', hubspotField: 'firstname', direction: 'bidirectional', isActive: true, conflictStrategy: 'newest_wins' },
+    { wixField: 'company', hubspotField: 'company', direction: 'bidirectional', isActive: true, conflictStrategy: 'never_overwrite_non_empty' },
+  ] as any[];
+
+  beforeEach(() => {
+    mockFindByWixId.mockResolvedValue({ instanceId: 'inst-test-1', wixContactId: 'wix-1', hubspotContactId: 'hs-1' });
+    mockGetWixContactById.mockResolvedValue({ id: 'wix-1', _updatedDate: '2026-01-02T00:00:00Z' });
+    mockFlattenWixContact.mockReturnValue({ firstName: 'Jon', company: 'Acme' });
+    mockGetContactById.mockResolvedValue({
+      id: 'hs-1',
+      properties: { firstname: 'John', company: 'Acme Ltd', country: 'GB' },
+      updatedAt: '2026-01-01T00:00:00Z',
+    });
+    mockWixToHubSpot.mockReturnValue({ firstname: 'Jon', company: 'Acme' });
+    mockHubSpotToWix.mockReturnValue({ firstName: 'John', company: 'Acme Ltd' });
+  });
+
+  it('shows both sides and what each direction would write', async () => {
+    const preview = await previewContactMapping(makeInstallation({ phoneRegion: 'DE' }), 'wix-1', rules);
+
+    expect(mockGetContactById).toHaveBeenCalledWith('inst-test-1', 'hs-1', ['firstname', 'company', 'country']);
+    expect(mockHubSpotToWix).toHaveBeenCalledWith(
+      { firstname: 'John', company: 'Acme Ltd', country: 'GB' },
+      rules,
+      expect.objectContaining({ phoneRegion: 'DE', country: 'GB' }),
+    );
+    expect(preview).toEqual(
+      expect.objectContaining({
+        wixContactId: 'wix-1',
+        hubspotContactId: 'hs-1',
+        wix: { firstName: 'Jon', company: 'Acme' },
+        hubspot: { firstname: 'John', company: 'Acme Ltd' },
+      }),
+    );
+
+    // Wix is newer: its first name wins, but HubSpot's company is kept
+    expect(preview!.wixToHubSpot.props).toEqual({ firstname: 'Jon', company: 'Acme' });
+    expect(preview!.wixToHubSpot.current).toEqual({ firstname: 'John', company: 'Acme Ltd' });
+    expect(preview!.wixToHubSpot.conflict.winner).toBe('wix');
+    expect(preview!.wixToHubSpot.fields).toEqual([
+      expect.objectContaining({ field: 'firstname', strategy: 'newest_wins', applied: true }),
+      expect.objectContaining({ field: 'company', strategy: 'never_overwrite_non_empty', applied: false }),
+    ]);
+    expect(preview!.hubSpotToWix.fields).toEqual([
+      expect.objectContaining({ field: 'firstName', applied: false }),
+      expect.objectContaining({ field: 'company', applied: false }),
+    ]);
+  });
+
+  it('never writes anything or creates Wix labels', async () => {
+    await previewContactMapping(makeInstallation(), 'wix-1', rules);
+
+    expect(mockMapLabelsToWix).toHaveBeenCalledWith(expect.anything(), expect.anything(), expect.anything(), rules, false);
+    expect(mockUpdateContact).not.toHaveBeenCalled();
+    expect(mockCreateOrUpdateWixContact).not.toHaveBeenCalled();
+    expect(mockUpsertMapping).not.toHaveBeenCalled();
+    expect(mockShouldSkipWrite).not.toHaveBeenCalled();
+    expect(SyncEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('returns null for a contact that is not synced or no longer exists', async () => {
+    mockFindByWixId.mockResolvedValueOnce(null);
+    expect(await previewContactMapping(makeInstallation(), 'wix-2', rules)).toBeNull();
+
+    mockGetContactById.mockResolvedValueOnce(null);
+    expect(await previewContactMapping(makeInstallation(), 'wix-1', rules)).toBeNull();
   });
 });
 
@@ -22,18 +22,18 @@ describe('Type definitions compile correctly', () => {
   });
 
   it('should accept valid FieldTransform values', () => {
-    const transforms: FieldTransform[] = ['none', 'trim', 'lowercase', 'uppercase', 'phone_e164'];
-    expect(transforms).toHaveLength(5);
+    const transforms: FieldTransform[] = ['none', 'trim', 'lowercase', 'uppercase', 'phone_e164', 'phone_national'];
+    expect(transforms).toHaveLength(6);
   });
 
   it('should accept valid SyncSource values', () => {
-    const sources: SyncSource[] = ['wix_webhook', 'hubspot_webhook', 'initial_sync', 'manual'];
-    expect(sources).toHaveLength(4);
+    const sources: SyncSource[] = ['wix_webhook', 'hubspot_webhook', 'initial_sync', 'delta_sync', 'manual'];
+    expect(sources).toHaveLength(5);
   });
 
   it('should accept valid SyncAction values', () => {
-    const actions: SyncAction[] = ['create', 'update', 'delete', 'skip'];
-    expect(actions).toHaveLength(4);
+    const actions: SyncAction[] = ['create', 'update', 'delete', 'merge', 'skip'];
+    expect(actions).toHaveLength(5);
   });
 
   it('should create a valid FlatContact', () => {
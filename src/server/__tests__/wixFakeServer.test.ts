@@ -0,0 +1,274 @@
+// =============================================================================
+// Fake Wix Contacts API Tests (Module 23)
+// =============================================================================
+// Runs the real Wix contacts wrapper (Module 3-A) against the in-process
+// fake, and the real Wix webhook route against the webhooks it sends.
+// Tests: create / get / query, revision conflicts, extended fields,
+//        signed webhooks + sync tag round trip, OAuth token endpoint
+// =============================================================================
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.WIX_APP_ID = 'test-wix-app-id';
+process.env.WIX_APP_SECRET = 'test-wix-app-secret';
+process.env.HUBSPOT_CLIENT_ID = 'test-hs-id';
+process.env.HUBSPOT_CLIENT_SECRET = 'test-hs-secret';
+process.env.HUBSPOT_REDIRECT_URI = 'http://localhost:3000/api/hubspot/callback';
+
+// Base URLs are filled in once the fake is listening; `production` makes
+// the webhook route verify signatures
+jest.mock('../config', () => ({
+  __esModule: true,
+  default: {
+    nodeEnv: 'production',
+    wixApiBase: '',
+    wixAuthBase: '',
+    wixAppId: 'test-wix-app-id',
+    wixAppSecret: 'test-wix-app-secret',
+    wixWebhookPublicKey: '',
+    circuitFailureThreshold: 5,
+    circuitCooldownMs: 60_000,
+  },
+}));
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../models/Installation', () => ({
+  __esModule: true,
+  default: { findOne: async () => ({ connected: true, syncEnabled: true }) },
+}));
+
+const mockEnqueueSyncJob = jest.fn();
+jest.mock('../services/jobQueue', () => ({
+  enqueueSyncJob: (...args: any[]) => mockEnqueueSyncJob(...args),
+}));
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import express from 'express';
+import config from '../config';
+import wixWebhookRoutes from '../routes/wix-webhooks';
+import {
+  startFakeWix,
+  createFakeWixStore,
+  seedWixContact,
+  editWixContact,
+  flushWixWebhooks,
+  FakeWix,
+} from '../fakes/wixFakeServer';
+import {
+  getWixContactById,
+  getWixContactByEmail,
+  createOrUpdateWixContact,
+  deleteWixContact,
+  listWixContactsUpdatedSince,
+  listWixExtendedFields,
+  SyncMetadata,
+} from '../services/wixContacts';
+import { extractSyncId } from '../services/dedupeGuard';
+import { IInstallation } from '../models/Installation';
+
+const installation = { instanceId: 'inst-1', refreshToken: 'wix-refresh-1' } as IInstallation;
+
+const syncMeta: SyncMetadata = { hubspotContactId: 'hs-1', syncTagId: 'sync-tag-1', syncSource: 'hubspot' };
+
+let fake: FakeWix;
+let receiver: http.Server;
+let webhookUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/webhooks/wix', wixWebhookRoutes);
+  receiver = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => receiver.once('listening', resolve));
+  webhookUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/api/webhooks/wix`;
+
+  fake = await startFakeWix();
+  config.wixApiBase = fake.baseUrl;
+  config.wixAuthBase = fake.baseUrl;
+});
+
+afterAll(async () => {
+  await fake.stop();
+  receiver.closeAllConnections();
+  await new Promise((resolve) => receiver.close(resolve));
+});
+
+beforeEach(async () => {
+  // Let the previous test's webhooks land before the mocks are cleared
+  await flushWixWebhooks(fake.store);
+  jest.clearAllMocks();
+  // Start every test from an empty site that sends webhooks to the receiver
+  Object.assign(fake.store, createFakeWixStore({
+    instanceId: 'inst-1',
+    webhookUrl,
+    webhookSecret: 'test-wix-app-secret',
+  }));
+});
+
+/** How many times the fake served `route` */
+function callsTo(route: string): number {
+  return fake.store.requests.filter((r) => r === route).length;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Contacts
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('contacts', () => {
+  it('should create a contact with the sync fields and find it by email', async () => {
+    const { contactId, action } = await createOrUpdateWixContact(
+      installation,
+      { email: 'Ada@Example.com', firstName: 'Ada' },
+      syncMeta,
+    );
+
+    const found = await getWixContactByEmail(installation, 'ADA@example.com');
+    const byId = await getWixContactById(installation, contactId);
+
+    expect(action).toBe('created');
+    expect(found?.id).toBe(contactId);
+    expect(byId?.info?.extendedFields?.items).toMatchObject({
+      'custom.hubspot_contact_id': 'hs-1',
+      'custom.wix_sync_tag': 'sync-tag-1',
+      'custom.wix_sync_source': 'hubspot',
+    });
+  });
+
+  it('should retry a patch without a revision using the current one', async () => {
+    const seeded = seedWixContact(fake.store, { emails: [{ email: 'ada@example.com' }] });
+
+    const result = await createOrUpdateWixContact(installation, { firstName: 'Ada' }, syncMeta, seeded.id);
+
+    expect(result.action).toBe('updated');
+    expect(callsTo(`PATCH /contacts/v4/contacts/${seeded.id}`)).toBe(2);
+    expect(fake.store.contacts.get(seeded.id)).toMatchObject({ revision: 2, info: { name: { first: 'Ada' } } });
+  });
+
+  it('should refuse a patch made from a stale revision', async () => {
+    const seeded = seedWixContact(fake.store, { emails: [{ email: 'ada@example.com' }] });
+    editWixContact(fake.store, seeded.id, { company: 'Owner Edit Ltd' });
+
+    const res = await axios.patch(
+      `${fake.baseUrl}/contacts/v4/contacts/${seeded.id}`,
+      { info: { company: 'Stale Write' }, revision: 1 },
+      { headers: { Authorization: 'token' }, validateStatus: () => true },
+    );
+
+    expect(res.status).toBe(409);
+    expect(res.data.details.applicationError.code).toBe('REVISION_MISMATCH');
+    expect(fake.store.contacts.get(seeded.id)?.info.company).toBe('Owner Edit Ltd');
+  });
+
+  it('should fall back to core fields on a site without the sync fields', async () => {
+    Object.assign(fake.store, createFakeWixStore({ syncFields: false }));
+
+    const { contactId } = await createOrUpdateWixContact(installation, { email: 'ada@example.com' }, syncMeta);
+
+    expect(callsTo('POST /contacts/v4/contacts')).toBe(2);
+    expect(fake.store.contacts.get(contactId)?.info.extendedFields).toBeUndefined();
+  });
+
+  it('should list only the site owner\'s own extended fields', async () => {
+    fake.store.extendedFields.set('custom.loyalty-tier', {
+      key: 'custom.loyalty-tier',
+      displayName: 'Loyalty tier',
+      dataType: 'TEXT',
+      fieldType: 'USER_DEFINED',
+    });
+
+    expect(await listWixExtendedFields(installation)).toEqual([
+      { key: 'custom.loyalty-tier', displayName: 'Loyalty tier', dataType: 'TEXT' },
+    ]);
+  });
+
+  it('should list contacts updated after a cursor, oldest change first', async () => {
+    const first = seedWixContact(fake.store, { emails: [{ email: 'a@example.com' }] });
+    const second = seedWixContact(fake.store, { emails: [{ email: 'b@example.com' }] });
+    const third = seedWixContact(fake.store, { emails: [{ email: 'c@example.com' }] });
+    editWixContact(fake.store, second.id, { company: 'Later' });
+
+    const page = await listWixContactsUpdatedSince(installation, new Date(first.updatedDate));
+
+    expect(page.total).toBe(2);
+    expect(page.contacts.map((c) => c.id)).toEqual([third.id, second.id]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Webhooks
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('webhooks', () => {
+  it('should deliver a signed contact_created webhook carrying our sync tag', async () => {
+    const { contactId } = await createOrUpdateWixContact(installation, { email: 'ada@example.com' }, syncMeta);
+    await flushWixWebhooks(fake.store);
+
+    expect(fake.store.deliveries).toEqual([
+      { eventType: 'wix.contacts.v4.contact_created', contactId, status: 200 },
+    ]);
+    const job = mockEnqueueSyncJob.mock.calls[0][0];
+    expect(job).toMatchObject({ instanceId: 'inst-1', type: 'wix_contact_created', contactId });
+    // The echo of our own write is recognisable as such (Module 5)
+    expect(extractSyncId(job.payload.contact, 'wix')).toBe('sync-tag-1');
+  });
+
+  it('should send contact_updated for an edit made on Wix, without a sync tag', async () => {
+    const seeded = seedWixContact(fake.store, { emails: [{ email: 'ada@example.com' }] });
+
+    editWixContact(fake.store, seeded.id, { company: 'Acme' });
+    await flushWixWebhooks(fake.store);
+
+    const job = mockEnqueueSyncJob.mock.calls[0][0];
+    expect(job).toMatchObject({ type: 'wix_contact_updated', contactId: seeded.id });
+    expect(extractSyncId(job.payload.contact, 'wix')).toBeUndefined();
+  });
+
+  it('should send contact_deleted when a contact is deleted', async () => {
+    const seeded = seedWixContact(fake.store, { emails: [{ email: 'ada@example.com' }] });
+
+    await deleteWixContact(installation, seeded.id);
+    await flushWixWebhooks(fake.store);
+
+    expect(mockEnqueueSyncJob).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'wix_contact_deleted', contactId: seeded.id }),
+    );
+  });
+
+  it('should be rejected by the receiver when signed with the wrong secret', async () => {
+    fake.store.webhookSecret = 'some-other-secret';
+    const seeded = seedWixContact(fake.store, { emails: [{ email: 'ada@example.com' }] });
+
+    editWixContact(fake.store, seeded.id, { company: 'Acme' });
+    await flushWixWebhooks(fake.store);
+
+    expect(fake.store.deliveries[0].status).toBe(401);
+    expect(mockEnqueueSyncJob).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OAuth
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('OAuth token endpoint', () => {
+  it('should refuse a revoked refresh token', async () => {
+    fake.store.revokedTokens.add('wix-refresh-revoked');
+    const revoked = { instanceId: 'inst-revoked', refreshToken: 'wix-refresh-revoked' } as IInstallation;
+
+    await expect(getWixContactById(revoked, 'any')).rejects.toMatchObject({
+      statusCode: 400,
+      response: { error: 'invalid_grant' },
+    });
+  });
+});
@@ -51,8 +51,11 @@ import {
   saveMappingRules,
   validateRules,
   getWixFieldRegistry,
+  loadWixFieldRegistry,
+  loadWixExtendedFieldKeys,
   seedDefaultMappings,
   invalidateRulesCache,
+  indexPropertyOptions,
   ValidationError,
 } from '../services/fieldMappingEngine';
 
@@ -61,11 +64,15 @@ import { ensureRequiredProperties } from '../services/hubspotProperties';
 import { registerWebhookSubscriptions } from '../services/hubspotWebhookRegistration';
 import { runFullSync } from '../services/syncOrchestrator';
 import { countMappings } from '../services/mappingStore';
+import { recordMappingVersion } from '../services/mappingVersions';
+import { getCircuitStatus, isCircuitOpen } from '../services/circuitBreaker';
 
 // ── Model imports ──
 import Installation from '../models/Installation';
 import FieldMapping, { DEFAULT_FIELD_MAPPINGS } from '../models/FieldMapping';
 import SyncEvent from '../models/SyncEvent';
+import SyncJob from '../models/SyncJob';
+import { CompositeMapping, OptionMapEntry, TransformStep } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // 1. getOAuthUrl — Build the HubSpot authorization URL
@@ -244,11 +251,14 @@ export const loadFieldMappings = webMethod(
  * Validates a set of field mapping rules, then replaces all custom mappings
  * with the new set. Default mappings are preserved.
  *
- * Returns either the saved rules or a list of validation errors (never both).
+ * Returns either the saved rules (with any non-blocking warnings) or a list
+ * of validation errors (never both). A successful save is recorded in the
+ * mapping's version history.
  *
  * @param instanceId — Wix site instance
  * @param rules      — Array of mapping rules to save
- * @returns          — `{ ok: true, mappings }` or `{ ok: false, errors }`
+ * @param comment    — Optional note for the version history
+ * @returns          — `{ ok: true, mappings, warnings }` or `{ ok: false, errors }`
  */
 export const saveFieldMappings = webMethod(
   Permissions.Admin,
@@ -259,9 +269,15 @@ export const saveFieldMappings = webMethod(
       hubspotField: string;
       direction: string;
       transform: string;
+      transforms?: TransformStep[];
+      optionMap?: OptionMapEntry[];
+      optionFallback?: string;
+      composite?: CompositeMapping;
+      conflictStrategy?: string;
     }>,
+    comment?: string,
   ): Promise<
-    | { ok: true; mappings: any[] }
+    | { ok: true; mappings: any[]; warnings: ValidationError[] }
     | { ok: false; errors: ValidationError[] }
   > => {
     try {
@@ -271,23 +287,40 @@ export const saveFieldMappings = webMethod(
 
       // Optionally validate against real HubSpot properties
       let hsPropertyNames: Set<string> | null = null;
+      let hsOptions: Map<string, string[]> | null = null;
       const installation = await Installation.findOne({ instanceId });
       if (installation?.connected) {
         try {
           const hsProps = await fetchCustomProperties(instanceId);
           hsPropertyNames = new Set(hsProps.map((p) => p.value));
+          hsOptions = indexPropertyOptions(hsProps);
         } catch {
           // If we can't fetch HS properties, skip that validation layer
         }
       }
 
-      const result = await saveMappingRules(instanceId, rules as any, hsPropertyNames);
+      const wixFieldKeys = installation ? await loadWixExtendedFieldKeys(installation) : null;
+
+      const result = await saveMappingRules(
+        instanceId,
+        rules as any,
+        hsPropertyNames,
+        wixFieldKeys,
+        hsOptions,
+      );
 
       if (!result.ok) {
         return { ok: false, errors: result.errors ?? [] };
       }
 
-      return { ok: true, mappings: result.rules ?? [] };
+      // The rules are saved — a failed snapshot must not report the save as failed
+      await recordMappingVersion(instanceId, {
+        comment: comment || `Saved ${rules.length} mapping${rules.length !== 1 ? 's' : ''}`,
+      }).catch((err) =>
+        logger.error('Record field mapping version failed', { instanceId, error: (err as Error).message }),
+      );
+
+      return { ok: true, mappings: result.rules ?? [], warnings: result.warnings ?? [] };
     } catch (err) {
       logger.error('saveFieldMappings failed', { instanceId });
       sanitizeError(err);
@@ -299,16 +332,19 @@ export const saveFieldMappings = webMethod(
 // 7. getAvailableWixFields — List mappable Wix contact fields
 // ─────────────────────────────────────────────────────────────────────────────
 /**
- * Returns every Wix contact field that can be mapped to a HubSpot property.
+ * Returns every Wix contact field that can be mapped to a HubSpot property,
+ * including the site's custom extended fields.
  * Each field includes a human-readable label, type, and description.
  *
- * @returns — `{ fields: FieldOption[] }`
+ * @param instanceId — Wix site instance
+ * @returns          — `{ fields: FieldOption[] }`
  */
 export const getAvailableWixFields = webMethod(
   Permissions.Admin,
-  async (): Promise<{ fields: Array<{ value: string; label: string }> }> => {
+  async (instanceId: string): Promise<{ fields: Array<{ value: string; label: string }> }> => {
     try {
-      return { fields: getWixFieldRegistry() };
+      const installation = await Installation.findOne({ instanceId });
+      return { fields: installation ? await loadWixFieldRegistry(installation) : getWixFieldRegistry() };
     } catch (err) {
       logger.error('getAvailableWixFields failed');
       sanitizeError(err);
@@ -354,6 +390,8 @@ export const getAvailableHubSpotProperties = webMethod(
  *   - Average sync duration
  *   - Whether sync is enabled
  *   - Last sync timestamp
+ *   - Circuit breaker state per API, and the changes parked while a
+ *     circuit is open (`degraded` is `true` while they are being parked)
  *
  * @param instanceId — Wix site instance
  * @returns          — Sync status summary object
@@ -364,13 +402,14 @@ export const getSyncStatusSummary = webMethod(
     try {
       const installation = await Installation.findOne({ instanceId });
 
-      const [totalMappings, totalEvents, recentEvents] = await Promise.all([
+      const [totalMappings, totalEvents, recentEvents, parkedJobs] = await Promise.all([
         countMappings(instanceId),
         SyncEvent.countDocuments({ instanceId }),
         SyncEvent.find({ instanceId })
           .sort({ createdAt: -1 })
           .limit(100)
           .select('status action duration createdAt error'),
+        SyncJob.countDocuments({ instanceId, status: 'parked' }),
       ]);
 
       const successCount = recentEvents.filter((e) => e.status === 'success').length;
@@ -391,6 +430,9 @@ export const getSyncStatusSummary = webMethod(
         avgDuration,
         syncEnabled: installation?.syncEnabled ?? false,
         lastSyncAt: installation?.lastSyncAt ?? null,
+        degraded: isCircuitOpen(instanceId),
+        circuit: getCircuitStatus(instanceId),
+        parkedJobs,
       };
     } catch (err) {
       logger.error('getSyncStatusSummary failed', { instanceId });
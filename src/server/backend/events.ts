@@ -7,19 +7,16 @@
 //
 // Key design decisions:
 //   • `.then()` / `.catch()` instead of `await` — Wix event hooks must return
-//     quickly; the sync work runs asynchronously in the background.
+//     quickly. The hook only enqueues a durable job (Module 13); the job
+//     worker runs the sync with retries, so a crash mid-sync loses nothing.
 //   • Sanitised error logging — `sanitizeMessage` strips PII / tokens so
 //     server logs never leak sensitive data.
 //   • Installation lookup — each event carries an `instanceId` that is
-//     resolved to the full Installation document before calling the
-//     sync orchestrator.
+//     resolved to the full Installation document before the job is queued.
 // =============================================================================
 
 import Installation, { IInstallation } from '../models/Installation';
-import {
-  onWixContactCreated as syncContactCreated,
-  onWixContactUpdated as syncContactUpdated,
-} from '../services/syncOrchestrator';
+import { enqueueSyncJob } from '../services/jobQueue';
 import { sanitizeMessage } from '../utils/sanitizeError';
 import logger from '../utils/logger';
 
@@ -63,9 +60,9 @@ async function resolveInstallation(
 /**
  * Triggered by the Wix platform when a new CRM contact is created.
  *
- * Kicks off a background sync to HubSpot using `.then()` (not `await`)
- * so the event handler returns immediately — Wix event hooks have a
- * tight execution budget.
+ * Queues a durable sync job using `.then()` (not `await`) so the event
+ * handler returns immediately — Wix event hooks have a tight execution
+ * budget.
  *
  * @param event — Wix CRM contact-created event payload
  */
@@ -90,28 +87,24 @@ export function wixCrm_onContactCreated(event: {
   }
 
   resolveInstallation(instanceId, 'wixCrm_onContactCreated')
-    .then((installation) => {
+    .then(async (installation) => {
       if (!installation) return;
 
-      syncContactCreated(installation, contactId, contactData, 'wix_webhook')
-        .then((result) => {
-          logger.info('wixCrm_onContactCreated: sync complete', {
-            instanceId,
-            wixContactId: contactId,
-            action: result.action,
-            hubspotContactId: result.hubspotContactId,
-          });
-        })
-        .catch((err: unknown) => {
-          logger.error('wixCrm_onContactCreated: sync failed', {
-            instanceId,
-            wixContactId: contactId,
-            error: sanitizeMessage((err as Error).message ?? String(err)),
-          });
-        });
+      const job = await enqueueSyncJob({
+        instanceId,
+        type: 'wix_contact_created',
+        contactId,
+        payload: { contact: contactData },
+        source: 'wix_webhook',
+      });
+      logger.debug('wixCrm_onContactCreated: sync job queued', {
+        instanceId,
+        wixContactId: contactId,
+        jobId: String(job._id),
+      });
     })
     .catch((err: unknown) => {
-      logger.error('wixCrm_onContactCreated: installation lookup failed', {
+      logger.error('wixCrm_onContactCreated: failed to queue sync', {
         instanceId,
         wixContactId: contactId,
         error: sanitizeMessage((err as Error).message ?? String(err)),
@@ -122,8 +115,8 @@ export function wixCrm_onContactCreated(event: {
 /**
  * Triggered by the Wix platform when an existing CRM contact is updated.
  *
- * Same fire-and-forget pattern as `wixCrm_onContactCreated` — resolves
- * the installation, then runs the sync in a `.then()` chain.
+ * Same pattern as `wixCrm_onContactCreated` — resolves the installation,
+ * then queues the sync job in a `.then()` chain.
  *
  * @param event — Wix CRM contact-updated event payload
  */
@@ -148,28 +141,24 @@ export function wixCrm_onContactUpdated(event: {
   }
 
   resolveInstallation(instanceId, 'wixCrm_onContactUpdated')
-    .then((installation) => {
+    .then(async (installation) => {
       if (!installation) return;
 
-      syncContactUpdated(installation, contactId, contactData, 'wix_webhook')
-        .then((result) => {
-          logger.info('wixCrm_onContactUpdated: sync complete', {
-            instanceId,
-            wixContactId: contactId,
-            action: result.action,
-            hubspotContactId: result.hubspotContactId,
-          });
-        })
-        .catch((err: unknown) => {
-          logger.error('wixCrm_onContactUpdated: sync failed', {
-            instanceId,
-            wixContactId: contactId,
-            error: sanitizeMessage((err as Error).message ?? String(err)),
-          });
-        });
+      const job = await enqueueSyncJob({
+        instanceId,
+        type: 'wix_contact_updated',
+        contactId,
+        payload: { contact: contactData },
+        source: 'wix_webhook',
+      });
+      logger.debug('wixCrm_onContactUpdated: sync job queued', {
+        instanceId,
+        wixContactId: contactId,
+        jobId: String(job._id),
+      });
     })
     .catch((err: unknown) => {
-      logger.error('wixCrm_onContactUpdated: installation lookup failed', {
+      logger.error('wixCrm_onContactUpdated: failed to queue sync', {
         instanceId,
         wixContactId: contactId,
         error: sanitizeMessage((err as Error).message ?? String(err)),
@@ -11,14 +11,30 @@ export interface AppConfig {
   wixAppId: string;
   wixAppSecret: string;
   wixWebhookPublicKey: string;
+  wixApiBase: string;
+  wixAuthBase: string;
+  wixFake: boolean;
+  wixFakePort: number;
   hubspotClientId: string;
   hubspotClientSecret: string;
   hubspotRedirectUri: string;
   hubspotScopes: string[];
+  hubspotBurstLimit: number;
+  hubspotApiBase: string;
+  hubspotAppBase: string;
+  hubspotFormsBase: string;
+  hubspotFake: boolean;
+  hubspotFakePort: number;
   mongodbUri: string;
   jwtSecret: string;
   syncDedupeWindowMs: number;
   syncBatchSize: number;
+  jobPollIntervalMs: number;
+  jobConcurrency: number;
+  jobMaxAttempts: number;
+  deltaSyncIntervalMs: number;
+  circuitFailureThreshold: number;
+  circuitCooldownMs: number;
 }
 
 const config: AppConfig = {
@@ -31,6 +47,15 @@ const config: AppConfig = {
   wixAppSecret: process.env.WIX_APP_SECRET ?? '',
   wixWebhookPublicKey: process.env.WIX_WEBHOOK_PUBLIC_KEY ?? '',
 
+  // Wix hosts — REST API and OAuth token exchange
+  wixApiBase: process.env.WIX_API_BASE ?? 'https://www.wixapis.com',
+  wixAuthBase: process.env.WIX_AUTH_BASE ?? 'https://www.wix.com',
+
+  // In-process fake Wix API (never in production); overrides both hosts above
+  // and sends signed contact webhooks to this server
+  wixFake: process.env.WIX_FAKE === 'true',
+  wixFakePort: parseInt(process.env.WIX_FAKE_PORT ?? '3102', 10),
+
   // HubSpot
   hubspotClientId: process.env.HUBSPOT_CLIENT_ID ?? '',
   hubspotClientSecret: process.env.HUBSPOT_CLIENT_SECRET ?? '',
@@ -46,6 +71,18 @@ const config: AppConfig = {
     'oauth',
   ],
 
+  // HubSpot API throttling — requests per 10 s until HubSpot's headers say otherwise
+  hubspotBurstLimit: parseInt(process.env.HUBSPOT_BURST_LIMIT ?? '100', 10),
+
+  // HubSpot hosts — API, OAuth consent page and form submissions
+  hubspotApiBase: process.env.HUBSPOT_API_BASE ?? 'https://api.hubapi.com',
+  hubspotAppBase: process.env.HUBSPOT_APP_BASE ?? 'https://app.hubspot.com',
+  hubspotFormsBase: process.env.HUBSPOT_FORMS_BASE ?? 'https://api.hsforms.com',
+
+  // In-process fake HubSpot API (never in production); overrides the three hosts above
+  hubspotFake: process.env.HUBSPOT_FAKE === 'true',
+  hubspotFakePort: parseInt(process.env.HUBSPOT_FAKE_PORT ?? '3101', 10),
+
   // MongoDB
   mongodbUri: process.env.MONGODB_URI ?? 'mongodb://localhost:27017/wix-hubspot-integration',
 
@@ -55,6 +92,18 @@ const config: AppConfig = {
   // Sync engine
   syncDedupeWindowMs: parseInt(process.env.SYNC_DEDUPE_WINDOW_MS ?? '30000', 10),
   syncBatchSize: parseInt(process.env.SYNC_BATCH_SIZE ?? '50', 10),
+
+  // Durable job queue (webhook-driven sync)
+  jobPollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS ?? '1000', 10),
+  jobConcurrency: parseInt(process.env.JOB_CONCURRENCY ?? '4', 10),
+  jobMaxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS ?? '5', 10),
+
+  // Scheduled delta sync (safety net for missed webhooks; 0 disables)
+  deltaSyncIntervalMs: parseInt(process.env.DELTA_SYNC_INTERVAL_MS ?? '900000', 10),
+
+  // Circuit breaker — outage failures in a row before an API is skipped, and for how long
+  circuitFailureThreshold: parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD ?? '5', 10),
+  circuitCooldownMs: parseInt(process.env.CIRCUIT_COOLDOWN_MS ?? '60000', 10),
 };
 
 // Validate critical vars at startup
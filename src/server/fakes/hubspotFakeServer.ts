@@ -0,0 +1,938 @@
+// =============================================================================
+// Module 22: Fake HubSpot API
+// =============================================================================
+// An in-process stand-in for the parts of HubSpot this app talks to, backed
+// by an in-memory store. Tests start it on a random port and point
+// `config.hubspotApiBase` at it, so the real client stack — rate limiter,
+// retries, circuit breaker, paging, batch handling — runs end to end.
+// `npm run dev:offline` (HUBSPOT_FAKE=true) starts it next to the server.
+//
+//   1. createFakeHubSpotStore — an empty portal with HubSpot's default properties
+//   2. seedContact / failNext — arrange contacts and faults for a test
+//   3. createFakeHubSpotApp   — Express app serving a store
+//   4. startFakeHubSpot       — listen on a port, resolve the base URL
+//
+// Endpoints:
+//   • POST /oauth/v1/token, GET /oauth/v1/access-tokens/:token,
+//     GET /oauth/authorize (consents at once and redirects back)
+//   • /crm/v3/objects/contacts — list (paged), get, create, update, archive
+//   • POST /crm/v3/objects/contacts/search — filters, one sort, paging
+//   • POST /crm/v3/objects/contacts/batch/{read,update,upsert} — 207 when
+//     only some inputs fail
+//   • /crm/v3/properties/contacts (+ /groups) — list, get, create, update, archive
+//   • GET /marketing/v3/forms, POST /submissions/v3/integration/submit/…
+//
+// Writes are validated like HubSpot does: unknown and read-only properties,
+// invalid enumeration options and malformed emails are a VALIDATION_ERROR.
+// With `burstLimit` set, responses carry the X-HubSpot-RateLimit-* headers
+// and requests over the limit get a 429 with Retry-After.
+//
+// Never started in production.
+// =============================================================================
+import crypto from 'crypto';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import express, { NextFunction, Request, Response } from 'express';
+
+/* ── Constants ── */
+
+/** HubSpot's burst window */
+const BURST_INTERVAL_MS = 10_000;
+
+/** Max inputs per batch call and results per list page */
+const MAX_PAGE_SIZE = 100;
+
+/** Search refuses to page past this many results */
+const SEARCH_RESULT_WINDOW = 10_000;
+
+/** Returned with every contact, whatever properties were asked for */
+const ALWAYS_RETURNED = ['createdate', 'hs_object_id', 'lastmodifieddate'];
+
+/** Returned when no properties were asked for */
+const DEFAULT_RETURNED = ['email', 'firstname', 'lastname', ...ALWAYS_RETURNED];
+
+const PROPERTY_TYPES = new Set(['string', 'number', 'date', 'datetime', 'enumeration', 'bool']);
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface FakeContact {
+  id: string;
+  properties: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FakeProperty {
+  name: string;
+  label: string;
+  type: string;
+  fieldType: string;
+  groupName: string;
+  description: string;
+  displayOrder: number;
+  hasUniqueValue: boolean;
+  hidden: boolean;
+  calculated: boolean;
+  externalOptions: boolean;
+  hubspotDefined: boolean;
+  modificationMetadata: { readOnlyValue: boolean; readOnlyDefinition: boolean; archivable: boolean };
+  options: Array<{ label: string; value: string; displayOrder?: number; hidden?: boolean }>;
+}
+
+export interface FakeFormSubmission {
+  formGuid: string;
+  fields: Array<{ name: string; value: string }>;
+  context: Record<string, unknown>;
+  submittedAt: string;
+}
+
+/** A canned error response, served instead of the real handler */
+export interface FakeFault {
+  status: number;
+  /** Sent as the Retry-After header (seconds) */
+  retryAfterSeconds?: number;
+  /** Defaults to a HubSpot-style error body */
+  body?: unknown;
+}
+
+export interface FakeHubSpotStore {
+  portalId: number;
+  contacts: Map<string, FakeContact>;
+  properties: Map<string, FakeProperty>;
+  propertyGroups: Set<string>;
+  forms: Array<{ id: string; name: string }>;
+  submissions: FakeFormSubmission[];
+  /** Access and refresh tokens that must be refused */
+  revokedTokens: Set<string>;
+  /** Every request served, as `METHOD /path` — for asserting call counts */
+  requests: string[];
+  /** Requests per 10 s; `null` sends no rate-limit headers and never throttles */
+  burstLimit: number | null;
+  /** @internal */
+  faults: Array<{ route: string | RegExp; fault: FakeFault; remaining: number }>;
+  /** @internal */
+  recentRequests: number[];
+  /** @internal */
+  nextId: number;
+  /** @internal — last timestamp handed out, so every write gets a later one */
+  clock: number;
+}
+
+export interface FakeHubSpot {
+  /** e.g. `http://127.0.0.1:51234` — use as `config.hubspotApiBase` */
+  baseUrl: string;
+  store: FakeHubSpotStore;
+  stop(): Promise<void>;
+}
+
+/** One entry of HubSpot's "Property values were not valid" list */
+interface PropertyError {
+  isValid: false;
+  message: string;
+  error: string;
+  name: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Store
+// ─────────────────────────────────────────────────────────────────────────────
+
+function property(
+  name: string,
+  label: string,
+  overrides: Partial<FakeProperty> = {},
+): FakeProperty {
+  return {
+    name,
+    label,
+    type: 'string',
+    fieldType: 'text',
+    groupName: 'contactinformation',
+    description: '',
+    displayOrder: -1,
+    hasUniqueValue: false,
+    hidden: false,
+    calculated: false,
+    externalOptions: false,
+    hubspotDefined: false,
+    modificationMetadata: { readOnlyValue: false, readOnlyDefinition: true, archivable: false },
+    options: [],
+    ...overrides,
+  };
+}
+
+/** HubSpot-defined system property: read-only, not archivable */
+function systemProperty(name: string, label: string, type = 'datetime'): FakeProperty {
+  return property(name, label, {
+    type,
+    fieldType: type === 'number' ? 'number' : 'date',
+    hubspotDefined: true,
+    modificationMetadata: { readOnlyValue: true, readOnlyDefinition: true, archivable: false },
+  });
+}
+
+/**
+ * Creates an empty portal that knows HubSpot's default contact properties
+ * and has one form.
+ */
+export function createFakeHubSpotStore(
+  options: { portalId?: number; burstLimit?: number | null } = {},
+): FakeHubSpotStore {
+  const lifecycleStages = ['subscriber', 'lead', 'marketingqualifiedlead', 'salesqualifiedlead', 'opportunity', 'customer', 'evangelist', 'other'];
+  const defaults = [
+    property('email', 'Email'),
+    property('firstname', 'First Name'),
+    property('lastname', 'Last Name'),
+    property('phone', 'Phone Number', { fieldType: 'phonenumber' }),
+    property('mobilephone', 'Mobile Phone Number', { fieldType: 'phonenumber' }),
+    property('company', 'Company Name'),
+    property('jobtitle', 'Job Title'),
+    property('website', 'Website URL'),
+    property('address', 'Street Address'),
+    property('city', 'City'),
+    property('state', 'State/Region'),
+    property('zip', 'Postal Code'),
+    property('country', 'Country/Region'),
+    property('date_of_birth', 'Date of birth', { type: 'date', fieldType: 'date' }),
+    property('lifecyclestage', 'Lifecycle Stage', {
+      type: 'enumeration',
+      fieldType: 'radio',
+      options: lifecycleStages.map((value, i) => ({ value, label: value, displayOrder: i })),
+    }),
+    systemProperty('hs_object_id', 'Record ID', 'number'),
+    systemProperty('createdate', 'Create Date'),
+    systemProperty('lastmodifieddate', 'Last Modified Date'),
+    systemProperty('hs_lastmodifieddate', 'Object last modified date/time'),
+  ];
+
+  return {
+    portalId: options.portalId ?? 12345678,
+    contacts: new Map(),
+    properties: new Map(defaults.map((p) => [p.name, p])),
+    propertyGroups: new Set(['contactinformation']),
+    forms: [{ id: 'fake-form-0000-0000-000000000001', name: 'Contact us' }],
+    submissions: [],
+    revokedTokens: new Set(),
+    requests: [],
+    burstLimit: options.burstLimit ?? null,
+    faults: [],
+    recentRequests: [],
+    nextId: 1,
+    clock: 0,
+  };
+}
+
+/** A timestamp later than every one handed out before */
+function tick(store: FakeHubSpotStore): string {
+  store.clock = Math.max(Date.now(), store.clock + 1);
+  return new Date(store.clock).toISOString();
+}
+
+function findByEmail(store: FakeHubSpotStore, email: string): FakeContact | undefined {
+  const wanted = email.toLowerCase().trim();
+  for (const contact of store.contacts.values()) {
+    if (contact.properties.email?.toLowerCase() === wanted) return contact;
+  }
+  return undefined;
+}
+
+function insertContact(store: FakeHubSpotStore, properties: Record<string, string>): FakeContact {
+  const id = String(store.nextId++);
+  const now = tick(store);
+  const contact: FakeContact = {
+    id,
+    properties: {
+      ...properties,
+      ...(properties.email ? { email: properties.email.toLowerCase().trim() } : {}),
+      hs_object_id: id,
+      createdate: now,
+      lastmodifieddate: now,
+      hs_lastmodifieddate: now,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+  store.contacts.set(id, contact);
+  return contact;
+}
+
+function updateContact(store: FakeHubSpotStore, contact: FakeContact, properties: Record<string, string>): void {
+  const now = tick(store);
+  Object.assign(contact.properties, properties, { lastmodifieddate: now, hs_lastmodifieddate: now });
+  if (properties.email) contact.properties.email = properties.email.toLowerCase().trim();
+  contact.updatedAt = now;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Arrange
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Adds a contact without validating its properties */
+export function seedContact(store: FakeHubSpotStore, properties: Record<string, string>): FakeContact {
+  return insertContact(store, properties);
+}
+
+/**
+ * Serves `fault` instead of the next `times` requests matching `route`.
+ *
+ * @param route — `'POST /crm/v3/objects/contacts/search'`, or a RegExp
+ *                tested against that form
+ */
+export function failNext(
+  store: FakeHubSpotStore,
+  route: string | RegExp,
+  fault: FakeFault,
+  times = 1,
+): void {
+  store.faults.push({ route, fault, remaining: times });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation & serialisation
+// ─────────────────────────────────────────────────────────────────────────────
+
+function hubspotError(category: string, message: string, extra: Record<string, unknown> = {}) {
+  return { status: 'error', message, correlationId: crypto.randomUUID(), category, ...extra };
+}
+
+/** Checks property values the way HubSpot does before a write */
+function validateProperties(store: FakeHubSpotStore, properties: unknown): PropertyError[] {
+  if (!properties || typeof properties !== 'object') {
+    return [{ isValid: false, message: 'properties must be an object', error: 'INVALID_INPUT', name: 'properties' }];
+  }
+
+  const errors: PropertyError[] = [];
+  for (const [name, raw] of Object.entries(properties as Record<string, unknown>)) {
+    const def = store.properties.get(name);
+    const value = raw === null || raw === undefined ? '' : String(raw);
+
+    if (!def) {
+      errors.push({ isValid: false, message: `Property "${name}" does not exist`, error: 'PROPERTY_DOESNT_EXIST', name });
+    } else if (def.modificationMetadata.readOnlyValue) {
+      errors.push({ isValid: false, message: `${name} is a read only property; its value cannot be set.`, error: 'READ_ONLY_VALUE', name });
+    } else if (value && def.type === 'enumeration') {
+      const allowed = def.options.map((o) => o.value);
+      const values = def.fieldType === 'checkbox' ? value.split(';') : [value];
+      const invalid = values.find((v) => !allowed.includes(v));
+      if (invalid !== undefined) {
+        errors.push({
+          isValid: false,
+          message: `${invalid} was not one of the allowed options: [${allowed.join(', ')}]`,
+          error: 'INVALID_OPTION',
+          name,
+        });
+      }
+    } else if (value && def.type === 'number' && Number.isNaN(Number(value))) {
+      errors.push({ isValid: false, message: `${value} is not a valid number`, error: 'INVALID_DECIMAL', name });
+    } else if (value && name === 'email' && !EMAIL_PATTERN.test(value)) {
+      errors.push({ isValid: false, message: `Email address ${value} is invalid`, error: 'INVALID_EMAIL', name });
+    }
+  }
+  return errors;
+}
+
+function validationError(errors: PropertyError[], extra: Record<string, unknown> = {}) {
+  return hubspotError('VALIDATION_ERROR', `Property values were not valid: ${JSON.stringify(errors)}`, extra);
+}
+
+function asStrings(properties: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([k, v]) => [k, v === null || v === undefined ? '' : String(v)]),
+  );
+}
+
+/** `?properties=a,b` or `?properties=a&properties=b` */
+function requestedProperties(query: unknown): string[] {
+  const list = ([] as unknown[]).concat(query ?? []);
+  return list.flatMap((p) => String(p).split(',')).map((p) => p.trim()).filter(Boolean);
+}
+
+/** A contact as HubSpot returns it — unset requested properties are `null` */
+function toApiContact(contact: FakeContact, requested: string[] = []) {
+  const names = requested.length ? [...new Set([...requested, ...ALWAYS_RETURNED])] : DEFAULT_RETURNED;
+  return {
+    id: contact.id,
+    properties: Object.fromEntries(names.map((n) => [n, contact.properties[n] ?? null])),
+    createdAt: contact.createdAt,
+    updatedAt: contact.updatedAt,
+    archived: false,
+  };
+}
+
+function pageSize(raw: unknown, fallback: number): number {
+  const n = parseInt(String(raw ?? ''), 10);
+  return Number.isInteger(n) && n > 0 ? Math.min(n, MAX_PAGE_SIZE) : fallback;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Search
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SearchFilter {
+  propertyName: string;
+  operator: string;
+  value?: unknown;
+  values?: unknown[];
+}
+
+/** Numbers and dates compare numerically, everything else case-insensitively */
+function comparable(value: string): number | string {
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value))) return Date.parse(value);
+  return value.toLowerCase();
+}
+
+function matchesFilter(contact: FakeContact, filter: SearchFilter): boolean {
+  const actual = contact.properties[filter.propertyName];
+  const has = actual !== undefined && actual !== '';
+
+  switch (filter.operator) {
+    case 'HAS_PROPERTY':
+      return has;
+    case 'NOT_HAS_PROPERTY':
+      return !has;
+    case 'IN':
+      return has && (filter.values ?? []).some((v) => comparable(String(v)) === comparable(actual));
+    case 'NOT_IN':
+      return !has || !(filter.values ?? []).some((v) => comparable(String(v)) === comparable(actual));
+  }
+
+  if (!has) return filter.operator === 'NEQ';
+  const a = comparable(actual);
+  const b = comparable(String(filter.value ?? ''));
+  switch (filter.operator) {
+    case 'EQ': return a === b;
+    case 'NEQ': return a !== b;
+    case 'GT': return a > b;
+    case 'GTE': return a >= b;
+    case 'LT': return a < b;
+    case 'LTE': return a <= b;
+    case 'CONTAINS_TOKEN': return String(a).includes(String(b).replace(/\*/g, ''));
+    default: return false;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Middleware
+// ─────────────────────────────────────────────────────────────────────────────
+
+function recordRequest(store: FakeHubSpotStore) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    store.requests.push(`${req.method} ${req.path}`);
+    next();
+  };
+}
+
+function injectFaults(store: FakeHubSpotStore) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = `${req.method} ${req.path}`;
+    const entry = store.faults.find((f) =>
+      typeof f.route === 'string' ? f.route === key : f.route.test(key),
+    );
+    if (!entry) return next();
+
+    entry.remaining--;
+    if (entry.remaining <= 0) store.faults.splice(store.faults.indexOf(entry), 1);
+
+    const { status, retryAfterSeconds, body } = entry.fault;
+    if (retryAfterSeconds !== undefined) res.setHeader('Retry-After', String(retryAfterSeconds));
+    res.status(status).json(
+      body ?? (status === 429
+        ? hubspotError('RATE_LIMITS', 'You have reached your ten_secondly_rolling limit.', { policyName: 'TEN_SECONDLY_ROLLING' })
+        : hubspotError(status >= 500 ? 'INTERNAL_ERROR' : 'VALIDATION_ERROR', `Injected ${status}`)),
+    );
+  };
+}
+
+function requireBearer(store: FakeHubSpotStore) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = /^Bearer (.+)$/.exec(req.get('authorization') ?? '')?.[1];
+    if (!token) {
+      return res.status(401).json(hubspotError('INVALID_AUTHENTICATION', 'Authentication credentials not found.'));
+    }
+    if (store.revokedTokens.has(token)) {
+      return res.status(401).json(hubspotError('EXPIRED_AUTHENTICATION', 'The OAuth token used to make this call expired.'));
+    }
+    next();
+  };
+}
+
+/** Sliding 10 s window, reported the way HubSpot reports it */
+function enforceBurstLimit(store: FakeHubSpotStore) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const limit = store.burstLimit;
+    if (!limit) return next();
+
+    const now = Date.now();
+    store.recentRequests = store.recentRequests.filter((t) => now - t < BURST_INTERVAL_MS);
+    res.setHeader('X-HubSpot-RateLimit-Max', String(limit));
+    res.setHeader('X-HubSpot-RateLimit-Interval-Milliseconds', String(BURST_INTERVAL_MS));
+
+    if (store.recentRequests.length >= limit) {
+      const waitMs = store.recentRequests[0] + BURST_INTERVAL_MS - now;
+      res.setHeader('X-HubSpot-RateLimit-Remaining', '0');
+      res.setHeader('Retry-After', String(Math.max(1, Math.ceil(waitMs / 1000))));
+      return res.status(429).json(
+        hubspotError('RATE_LIMITS', 'You have reached your ten_secondly_rolling limit.', { policyName: 'TEN_SECONDLY_ROLLING' }),
+      );
+    }
+
+    store.recentRequests.push(now);
+    res.setHeader('X-HubSpot-RateLimit-Remaining', String(limit - store.recentRequests.length));
+    next();
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Express app
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Builds the fake API over `store` without listening */
+export function createFakeHubSpotApp(store: FakeHubSpotStore): express.Express {
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+  app.use(express.urlencoded({ extended: true }));
+  app.use(recordRequest(store));
+  app.use(injectFaults(store));
+
+  /* ── OAuth ── */
+
+  app.get('/oauth/authorize', (req, res) => {
+    const redirectUri = String(req.query.redirect_uri ?? '');
+    if (!redirectUri) return res.status(400).json(hubspotError('VALIDATION_ERROR', 'redirect_uri is required'));
+
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', `fake-code-${crypto.randomUUID()}`);
+    if (req.query.state) target.searchParams.set('state', String(req.query.state));
+    res.redirect(target.toString());
+  });
+
+  app.post('/oauth/v1/token', (req, res) => {
+    const params = { ...req.query, ...(req.body ?? {}) } as Record<string, string | undefined>;
+    if (!params.client_id || !params.client_secret) {
+      return res.status(400).json({ status: 'BAD_CLIENT_ID', message: 'missing or invalid client_id / client_secret' });
+    }
+    if (params.grant_type === 'authorization_code' && !params.code) {
+      return res.status(400).json({ status: 'BAD_AUTH_CODE', message: 'missing or invalid auth code' });
+    }
+    if (params.grant_type === 'refresh_token'
+      && (!params.refresh_token || store.revokedTokens.has(params.refresh_token))) {
+      return res.status(400).json({ status: 'BAD_REFRESH_TOKEN', message: 'missing or unknown refresh token' });
+    }
+    if (params.grant_type !== 'authorization_code' && params.grant_type !== 'refresh_token') {
+      return res.status(400).json({ status: 'BAD_GRANT_TYPE', message: 'unsupported grant_type' });
+    }
+
+    res.json({
+      token_type: 'bearer',
+      access_token: `fake-access-${crypto.randomUUID()}`,
+      refresh_token: params.refresh_token ?? `fake-refresh-${crypto.randomUUID()}`,
+      expires_in: 1800,
+    });
+  });
+
+  app.get('/oauth/v1/access-tokens/:token', (req, res) => {
+    if (store.revokedTokens.has(req.params.token)) {
+      return res.status(404).json({ status: 'error', message: 'Access token not found' });
+    }
+    res.json({
+      token: req.params.token,
+      hub_id: store.portalId,
+      app_id: 1,
+      token_type: 'access',
+      expires_in: 1800,
+      scopes: ['oauth', 'crm.objects.contacts.read', 'crm.objects.contacts.write', 'crm.schemas.contacts.read', 'crm.schemas.contacts.write', 'forms'],
+    });
+  });
+
+  /* ── Form submissions (unauthenticated, like the real integration endpoint) ── */
+
+  app.post('/submissions/v3/integration/submit/:portalId/:formGuid', (req, res) => {
+    const form = store.forms.find((f) => f.id === req.params.formGuid);
+    if (String(store.portalId) !== req.params.portalId || !form) {
+      return res.status(404).json({ status: 'error', message: 'Form not found', errors: [] });
+    }
+
+    const fields = req.body?.fields;
+    if (!Array.isArray(fields)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'The request is not valid',
+        errors: [{ message: "Error in 'fields'. Required", errorType: 'REQUIRED_FIELD' }],
+      });
+    }
+
+    const values = asStrings(Object.fromEntries(
+      fields.map((f: { name?: unknown; value?: unknown }) => [String(f?.name ?? ''), f?.value]),
+    ));
+    if (values.email && !EMAIL_PATTERN.test(values.email)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'The request is not valid',
+        errors: [{ message: "Error in 'fields.email'. Invalid email address", errorType: 'INVALID_EMAIL' }],
+      });
+    }
+
+    store.submissions.push({
+      formGuid: form.id,
+      fields: Object.entries(values).map(([name, value]) => ({ name, value })),
+      context: req.body?.context ?? {},
+      submittedAt: tick(store),
+    });
+
+    // Like HubSpot, a submission with an email creates or updates the contact
+    if (values.email) {
+      const known = Object.fromEntries(
+        Object.entries(values).filter(([name]) => store.properties.get(name)?.modificationMetadata.readOnlyValue === false),
+      );
+      const existing = findByEmail(store, values.email);
+      if (existing) updateContact(store, existing, known);
+      else insertContact(store, known);
+    }
+
+    res.json({ inlineMessage: 'Thanks for submitting the form.' });
+  });
+
+  /* ── Everything below needs a Bearer token ── */
+
+  app.use(['/crm', '/marketing'], requireBearer(store), enforceBurstLimit(store));
+
+  app.get('/marketing/v3/forms', (_req, res) => {
+    res.json({ results: store.forms.map((f) => ({ ...f, formType: 'hubspot', archived: false })) });
+  });
+
+  /* ── Contacts: search & batch (before the `/:id` routes) ── */
+
+  app.post('/crm/v3/objects/contacts/search', (req, res) => {
+    const { filterGroups = [], sorts = [], properties = [], limit, after } = req.body ?? {};
+    const offset = after ? parseInt(String(after), 10) : 0;
+    if (!Number.isInteger(offset) || offset < 0 || offset >= SEARCH_RESULT_WINDOW) {
+      return res.status(400).json(
+        hubspotError('VALIDATION_ERROR', `after must be between 0 and ${SEARCH_RESULT_WINDOW - 1}`),
+      );
+    }
+
+    let matches = [...store.contacts.values()].filter((c) =>
+      (filterGroups as Array<{ filters?: SearchFilter[] }>).length === 0
+      || (filterGroups as Array<{ filters?: SearchFilter[] }>).some((g) => (g.filters ?? []).every((f) => matchesFilter(c, f))),
+    );
+
+    const sort = (sorts as Array<{ propertyName?: string; direction?: string }>)[0];
+    matches = matches.sort((x, y) => {
+      if (!sort?.propertyName) return Number(x.id) - Number(y.id);
+      const a = comparable(x.properties[sort.propertyName] ?? '');
+      const b = comparable(y.properties[sort.propertyName] ?? '');
+      const order = a < b ? -1 : a > b ? 1 : Number(x.id) - Number(y.id);
+      return sort.direction === 'DESCENDING' ? -order : order;
+    });
+
+    const size = pageSize(limit, 10);
+    const page = matches.slice(offset, offset + size);
+    const next = offset + size < matches.length ? String(offset + size) : undefined;
+    res.json({
+      total: matches.length,
+      results: page.map((c) => toApiContact(c, properties)),
+      ...(next ? { paging: { next: { after: next } } } : {}),
+    });
+  });
+
+  /** Rejects a batch HubSpot would reject as a whole; `true` when it did */
+  function rejectBatch(inputs: unknown, res: Response): boolean {
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      res.status(400).json(hubspotError('VALIDATION_ERROR', 'inputs must be a non-empty array'));
+      return true;
+    }
+    if (inputs.length > MAX_PAGE_SIZE) {
+      res.status(400).json(hubspotError('VALIDATION_ERROR', `Batch input limit of ${MAX_PAGE_SIZE} exceeded`));
+      return true;
+    }
+    return false;
+  }
+
+  /** 200 when every input worked, 207 with `errors` when only some did */
+  function batchResponse(res: Response, startedAt: string, results: unknown[], errors: unknown[]) {
+    res.status(errors.length ? 207 : 200).json({
+      status: 'COMPLETE',
+      results,
+      ...(errors.length ? { numErrors: errors.length, errors } : {}),
+      startedAt,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  app.post('/crm/v3/objects/contacts/batch/read', (req, res) => {
+    const { inputs, properties = [] } = req.body ?? {};
+    if (rejectBatch(inputs, res)) return;
+
+    const startedAt = new Date().toISOString();
+    const ids = (inputs as Array<{ id?: unknown }>).map((i) => String(i?.id ?? ''));
+    const found = ids.map((id) => store.contacts.get(id)).filter((c): c is FakeContact => !!c);
+    const missing = ids.filter((id) => !store.contacts.has(id));
+    batchResponse(
+      res,
+      startedAt,
+      found.map((c) => toApiContact(c, properties)),
+      missing.length
+        ? [{
+            status: 'error',
+            category: 'OBJECT_NOT_FOUND',
+            message: 'Could not get some CONTACT objects, they may be deleted or not exist.',
+            context: { ids: missing },
+          }]
+        : [],
+    );
+  });
+
+  app.post('/crm/v3/objects/contacts/batch/update', (req, res) => {
+    const inputs = req.body?.inputs;
+    if (rejectBatch(inputs, res)) return;
+
+    const startedAt = new Date().toISOString();
+    const results: unknown[] = [];
+    const errors: unknown[] = [];
+    const missing: string[] = [];
+
+    for (const input of inputs as Array<{ id?: unknown; properties?: Record<string, unknown> }>) {
+      const id = String(input?.id ?? '');
+      const contact = store.contacts.get(id);
+      if (!contact) {
+        missing.push(id);
+        continue;
+      }
+      const invalid = validateProperties(store, input.properties);
+      if (invalid.length) {
+        errors.push({ ...validationError(invalid), context: { ids: [id] } });
+        continue;
+      }
+      const props = asStrings(input.properties ?? {});
+      updateContact(store, contact, props);
+      results.push(toApiContact(contact, Object.keys(props)));
+    }
+
+    if (missing.length) {
+      errors.push({
+        status: 'error',
+        category: 'OBJECT_NOT_FOUND',
+        message: 'Could not update some CONTACT objects, they may be deleted or not exist.',
+        context: { ids: missing },
+      });
+    }
+    batchResponse(res, startedAt, results, errors);
+  });
+
+  app.post('/crm/v3/objects/contacts/batch/upsert', (req, res) => {
+    const inputs = req.body?.inputs;
+    if (rejectBatch(inputs, res)) return;
+
+    const typed = inputs as Array<{ idProperty?: unknown; id?: unknown; properties?: Record<string, unknown> }>;
+    if (typed.some((i) => i?.idProperty !== 'email')) {
+      return res.status(400).json(hubspotError('VALIDATION_ERROR', 'The fake only upserts by idProperty "email"'));
+    }
+    const emails = typed.map((i) => String(i.id ?? '').toLowerCase().trim());
+    if (new Set(emails).size !== emails.length) {
+      return res.status(400).json(hubspotError('VALIDATION_ERROR', 'Duplicate IDs found in batch input'));
+    }
+
+    const startedAt = new Date().toISOString();
+    const results: unknown[] = [];
+    const errors: unknown[] = [];
+
+    typed.forEach((input, i) => {
+      const email = emails[i];
+      const props = { ...(input.properties ?? {}), email };
+      const invalid = validateProperties(store, props);
+      if (invalid.length) {
+        errors.push({ ...validationError(invalid), context: { ids: [email] } });
+        return;
+      }
+      const existing = findByEmail(store, email);
+      const contact = existing ?? insertContact(store, asStrings(props));
+      if (existing) updateContact(store, existing, asStrings(props));
+      results.push({ ...toApiContact(contact, Object.keys(props)), new: !existing });
+    });
+
+    batchResponse(res, startedAt, results, errors);
+  });
+
+  /* ── Contacts: CRUD ── */
+
+  app.get('/crm/v3/objects/contacts', (req, res) => {
+    const after = parseInt(String(req.query.after ?? '0'), 10) || 0;
+    const size = pageSize(req.query.limit, 10);
+    const ordered = [...store.contacts.values()]
+      .filter((c) => Number(c.id) > after)
+      .sort((x, y) => Number(x.id) - Number(y.id));
+    const page = ordered.slice(0, size);
+    const requested = requestedProperties(req.query.properties);
+    res.json({
+      results: page.map((c) => toApiContact(c, requested)),
+      ...(ordered.length > size ? { paging: { next: { after: page[page.length - 1].id } } } : {}),
+    });
+  });
+
+  app.get('/crm/v3/objects/contacts/:id', (req, res) => {
+    const contact = req.query.idProperty === 'email'
+      ? findByEmail(store, req.params.id)
+      : store.contacts.get(req.params.id);
+    if (!contact) return res.status(404).json(hubspotError('OBJECT_NOT_FOUND', 'resource not found'));
+    res.json(toApiContact(contact, requestedProperties(req.query.properties)));
+  });
+
+  app.post('/crm/v3/objects/contacts', (req, res) => {
+    const properties = req.body?.properties;
+    const invalid = validateProperties(store, properties);
+    if (invalid.length) return res.status(400).json(validationError(invalid));
+
+    const props = asStrings(properties);
+    const existing = props.email ? findByEmail(store, props.email) : undefined;
+    if (existing) {
+      return res.status(409).json(hubspotError('CONFLICT', `Contact already exists. Existing ID: ${existing.id}`));
+    }
+    res.status(201).json(toApiContact(insertContact(store, props), Object.keys(props)));
+  });
+
+  app.patch('/crm/v3/objects/contacts/:id', (req, res) => {
+    const contact = store.contacts.get(req.params.id);
+    if (!contact) return res.status(404).json(hubspotError('OBJECT_NOT_FOUND', 'resource not found'));
+
+    const properties = req.body?.properties;
+    const invalid = validateProperties(store, properties);
+    if (invalid.length) return res.status(400).json(validationError(invalid));
+
+    const props = asStrings(properties);
+    const owner = props.email ? findByEmail(store, props.email) : undefined;
+    if (owner && owner.id !== contact.id) {
+      return res.status(409).json(hubspotError('CONFLICT', `Contact already exists. Existing ID: ${owner.id}`));
+    }
+    updateContact(store, contact, props);
+    res.json(toApiContact(contact, Object.keys(props)));
+  });
+
+  app.delete('/crm/v3/objects/contacts/:id', (req, res) => {
+    store.contacts.delete(req.params.id);
+    res.status(204).end();
+  });
+
+  /* ── Properties ── */
+
+  app.get('/crm/v3/properties/contacts', (_req, res) => {
+    res.json({ results: [...store.properties.values()] });
+  });
+
+  app.post('/crm/v3/properties/contacts/groups', (req, res) => {
+    const { name, label } = req.body ?? {};
+    if (!name || !label) return res.status(400).json(hubspotError('VALIDATION_ERROR', 'name and label are required'));
+    if (store.propertyGroups.has(name)) {
+      return res.status(409).json(hubspotError('OBJECT_ALREADY_EXISTS', `A property group named '${name}' already exists.`));
+    }
+    store.propertyGroups.add(name);
+    res.status(201).json({ name, label, displayOrder: req.body.displayOrder ?? -1, archived: false });
+  });
+
+  app.get('/crm/v3/properties/contacts/:name', (req, res) => {
+    const def = store.properties.get(req.params.name);
+    if (!def) return res.status(404).json(hubspotError('OBJECT_NOT_FOUND', `Unable to find property ${req.params.name}`));
+    res.json(def);
+  });
+
+  app.post('/crm/v3/properties/contacts', (req, res) => {
+    const input = req.body ?? {};
+    const problems = [
+      !/^[a-z][a-z0-9_]*$/.test(String(input.name ?? '')) && 'name must be lower-case letters, digits and underscores',
+      !input.label && 'label is required',
+      !PROPERTY_TYPES.has(input.type) && `type must be one of ${[...PROPERTY_TYPES].join(', ')}`,
+      !input.fieldType && 'fieldType is required',
+      input.type === 'enumeration' && !Array.isArray(input.options) && 'enumeration properties need options',
+      input.groupName && !store.propertyGroups.has(input.groupName) && `property group ${input.groupName} does not exist`,
+    ].filter(Boolean);
+    if (problems.length) return res.status(400).json(hubspotError('VALIDATION_ERROR', problems.join('; ')));
+
+    if (store.properties.has(input.name)) {
+      return res.status(409).json(hubspotError('OBJECT_ALREADY_EXISTS', `Property named '${input.name}' already exists.`));
+    }
+
+    const def = property(input.name, input.label, {
+      type: input.type,
+      fieldType: input.fieldType,
+      groupName: input.groupName || 'contactinformation',
+      description: input.description ?? '',
+      displayOrder: input.displayOrder ?? -1,
+      hasUniqueValue: !!input.hasUniqueValue,
+      options: input.options ?? [],
+      modificationMetadata: { readOnlyValue: false, readOnlyDefinition: false, archivable: true },
+    });
+    store.properties.set(def.name, def);
+    res.status(201).json(def);
+  });
+
+  app.patch('/crm/v3/properties/contacts/:name', (req, res) => {
+    const def = store.properties.get(req.params.name);
+    if (!def) return res.status(404).json(hubspotError('OBJECT_NOT_FOUND', `Unable to find property ${req.params.name}`));
+    if (def.modificationMetadata.readOnlyDefinition) {
+      return res.status(400).json(hubspotError('VALIDATION_ERROR', `${def.name} is a HubSpot-defined property and cannot be changed`));
+    }
+
+    const { label, description, options, groupName, displayOrder, hidden } = req.body ?? {};
+    Object.assign(def, Object.fromEntries(
+      Object.entries({ label, description, options, groupName, displayOrder, hidden }).filter(([, v]) => v !== undefined),
+    ));
+    res.json(def);
+  });
+
+  app.delete('/crm/v3/properties/contacts/:name', (req, res) => {
+    const def = store.properties.get(req.params.name);
+    if (!def) return res.status(404).json(hubspotError('OBJECT_NOT_FOUND', `Unable to find property ${req.params.name}`));
+    if (!def.modificationMetadata.archivable) {
+      return res.status(400).json(hubspotError('VALIDATION_ERROR', `${def.name} cannot be archived`));
+    }
+    store.properties.delete(def.name);
+    res.status(204).end();
+  });
+
+  /* ── Anything else ── */
+
+  app.use((req, res) => {
+    res.status(404).json(hubspotError('OBJECT_NOT_FOUND', `The fake HubSpot API has no ${req.method} ${req.path}`));
+  });
+
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(400).json(hubspotError('VALIDATION_ERROR', `Invalid input: ${err.message}`));
+  });
+
+  return app;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Start / stop
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Starts the fake on localhost.
+ *
+ * @param options.port  — `0` (default) picks a free port
+ * @param options.store — Start from an existing store instead of an empty one
+ * @returns             — The base URL, the store, and `stop()`
+ */
+export async function startFakeHubSpot(
+  options: { port?: number; store?: FakeHubSpotStore } = {},
+): Promise<FakeHubSpot> {
+  const store = options.store ?? createFakeHubSpotStore();
+  const server = createFakeHubSpotApp(store).listen(options.port ?? 0, '127.0.0.1');
+  await once(server, 'listening');
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    store,
+    stop: () =>
+      new Promise<void>((resolve, reject) => {
+        // Keep-alive sockets from Node's global agent would hold close() open
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
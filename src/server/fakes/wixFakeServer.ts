@@ -0,0 +1,664 @@
+// =============================================================================
+// Module 23: Fake Wix Contacts API
+// =============================================================================
+// An in-process stand-in for the Wix Contacts v4 REST API and the Wix OAuth
+// token endpoint, backed by an in-memory store. Like Wix, it sends a signed
+// contact webhook after every write — including the app's own — so
+// loop-prevention (Module 5) can be tested end to end without a Wix site.
+// `npm run dev:offline` (WIX_FAKE=true) starts it next to the server.
+//
+//   1. createFakeWixStore — an empty site with the integration's extended fields
+//   2. seedWixContact / editWixContact / failNext — arrange a test
+//   3. flushWixWebhooks   — wait until every webhook has been delivered
+//   4. createFakeWixApp   — Express app serving a store
+//   5. startFakeWix       — listen on a port, resolve the base URL
+//
+// Endpoints:
+//   • POST /oauth/access — authorization_code and refresh_token grants
+//   • POST /contacts/v4/contacts/query — filter ($eq, $ne, $gt, $gte, $lt,
+//     $lte, $in, $hasSome, $exists, $startsWith, $and, $or, $not), sort, paging
+//   • /contacts/v4/contacts — get, create, patch, delete
+//   • /contacts/v4/labels, /contacts/v4/extended-fields — list, find-or-create
+//
+// A patch must carry the contact's current revision; a missing or stale
+// one is a 409 REVISION_MISMATCH, like a concurrent edit on Wix. Unknown
+// extended fields are rejected with EXTENDED_FIELD_NOT_FOUND.
+//
+// Webhooks use the payload the receiver (routes/wix-webhooks.ts) reads and
+// an `x-wix-signature` HMAC like utils/wixSignature.ts verifies.
+//
+// Never started in production.
+// =============================================================================
+import crypto from 'crypto';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import express, { NextFunction, Request, Response } from 'express';
+
+/* ── Constants ── */
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+
+/** Extended fields the integration writes (see wixContacts.ts) */
+const SYNC_FIELD_KEYS = ['custom.hubspot_contact_id', 'custom.wix_sync_tag', 'custom.wix_sync_source'];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface FakeWixContact {
+  id: string;
+  /** Bumped by every write */
+  revision: number;
+  createdDate: string;
+  updatedDate: string;
+  primaryInfo: { email?: string; phone?: string };
+  /** Stored in the v4 shape — `emails: { items: [...] }` and so on */
+  info: Record<string, any>;
+}
+
+export interface FakeWixLabel {
+  key: string;
+  displayName: string;
+  labelType: 'USER_DEFINED' | 'SYSTEM';
+}
+
+export interface FakeWixExtendedField {
+  key: string;
+  displayName: string;
+  dataType: 'TEXT' | 'NUMBER' | 'DATE' | 'URL';
+  fieldType: 'USER_DEFINED' | 'SYSTEM';
+}
+
+export interface FakeWixWebhookDelivery {
+  eventType: string;
+  contactId: string;
+  /** HTTP status the receiver answered, `0` if it could not be reached */
+  status: number;
+}
+
+/** A canned error response, served instead of the real handler */
+export interface FakeWixFault {
+  status: number;
+  /** Defaults to a Wix-style error body */
+  body?: unknown;
+}
+
+export interface FakeWixStore {
+  /** Sent as `instanceId` in every webhook */
+  instanceId: string;
+  contacts: Map<string, FakeWixContact>;
+  labels: Map<string, FakeWixLabel>;
+  extendedFields: Map<string, FakeWixExtendedField>;
+  /** Access and refresh tokens that must be refused */
+  revokedTokens: Set<string>;
+  /** Every request served, as `METHOD /path` — for asserting call counts */
+  requests: string[];
+  /** Where contact webhooks go; `null` sends none */
+  webhookUrl: string | null;
+  /** HMAC key of `x-wix-signature` */
+  webhookSecret: string;
+  deliveries: FakeWixWebhookDelivery[];
+  /** @internal */
+  faults: Array<{ route: string | RegExp; fault: FakeWixFault; remaining: number }>;
+  /** @internal */
+  pending: Set<Promise<void>>;
+  /** @internal — last timestamp handed out, so every write gets a later one */
+  clock: number;
+}
+
+export interface FakeWix {
+  /** e.g. `http://127.0.0.1:51234` — use as `config.wixApiBase` and `config.wixAuthBase` */
+  baseUrl: string;
+  store: FakeWixStore;
+  stop(): Promise<void>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Store
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates an empty site.
+ *
+ * @param options.syncFields — `false` leaves out the integration's extended
+ *                             fields, as on a site where they were never created
+ */
+export function createFakeWixStore(
+  options: {
+    instanceId?: string;
+    webhookUrl?: string | null;
+    webhookSecret?: string;
+    syncFields?: boolean;
+  } = {},
+): FakeWixStore {
+  const fields: FakeWixExtendedField[] = [
+    { key: 'contacts.displayByFirstName', displayName: 'Display Name (start with first)', dataType: 'TEXT', fieldType: 'SYSTEM' },
+    ...(options.syncFields === false ? [] : SYNC_FIELD_KEYS).map((key): FakeWixExtendedField => ({
+      key,
+      displayName: key.slice('custom.'.length),
+      dataType: 'TEXT',
+      fieldType: 'USER_DEFINED',
+    })),
+  ];
+
+  return {
+    instanceId: options.instanceId ?? 'fake-instance',
+    contacts: new Map(),
+    labels: new Map(),
+    extendedFields: new Map(fields.map((f) => [f.key, f])),
+    revokedTokens: new Set(),
+    requests: [],
+    webhookUrl: options.webhookUrl ?? null,
+    webhookSecret: options.webhookSecret ?? '',
+    deliveries: [],
+    faults: [],
+    pending: new Set(),
+    clock: 0,
+  };
+}
+
+/** A timestamp later than every one handed out before */
+function tick(store: FakeWixStore): string {
+  store.clock = Math.max(Date.now(), store.clock + 1);
+  return new Date(store.clock).toISOString();
+}
+
+/** Accepts `[...]` or `{ items: [...] }`, returns `{ items: [...] }` */
+function itemList(value: unknown): { items: any[] } {
+  const items = Array.isArray(value) ? value : (value as { items?: unknown })?.items;
+  return { items: Array.isArray(items) ? items.map((i) => ({ ...i })) : [] };
+}
+
+/** Replaces the fields present in `info`; extended fields are merged key by key */
+function applyInfo(contact: FakeWixContact, info: Record<string, any>): void {
+  for (const [key, value] of Object.entries(info)) {
+    if (value === undefined) continue;
+    if (key === 'emails') {
+      contact.info.emails = itemList(value);
+      for (const e of contact.info.emails.items) e.email = String(e.email ?? '').toLowerCase().trim();
+    } else if (key === 'phones' || key === 'addresses') {
+      contact.info[key] = itemList(value);
+    } else if (key === 'labelKeys') {
+      contact.info.labelKeys = { items: [...itemList(value).items] };
+    } else if (key === 'extendedFields') {
+      contact.info.extendedFields = {
+        items: { ...(contact.info.extendedFields?.items ?? {}), ...((value as { items?: object })?.items ?? {}) },
+      };
+    } else {
+      contact.info[key] = value;
+    }
+  }
+  contact.primaryInfo = {
+    ...(contact.info.emails?.items?.[0]?.email ? { email: contact.info.emails.items[0].email } : {}),
+    ...(contact.info.phones?.items?.[0]?.phone ? { phone: contact.info.phones.items[0].phone } : {}),
+  };
+}
+
+function insertContact(store: FakeWixStore, info: Record<string, any>): FakeWixContact {
+  const now = tick(store);
+  const contact: FakeWixContact = {
+    id: crypto.randomUUID(),
+    revision: 1,
+    createdDate: now,
+    updatedDate: now,
+    primaryInfo: {},
+    info: {},
+  };
+  applyInfo(contact, info);
+  store.contacts.set(contact.id, contact);
+  return contact;
+}
+
+function updateContact(store: FakeWixStore, contact: FakeWixContact, info: Record<string, any>): void {
+  applyInfo(contact, info);
+  contact.revision++;
+  contact.updatedDate = tick(store);
+}
+
+function findByEmail(store: FakeWixStore, email: string): FakeWixContact | undefined {
+  const wanted = email.toLowerCase().trim();
+  for (const contact of store.contacts.values()) {
+    if (contact.primaryInfo.email === wanted) return contact;
+  }
+  return undefined;
+}
+
+/** A contact as Wix returns it */
+function toApiContact(contact: FakeWixContact) {
+  return JSON.parse(JSON.stringify({ ...contact, source: { sourceType: 'OTHER' } }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Webhooks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Sends one contact webhook, the way the receiver expects it */
+function emitContactEvent(
+  store: FakeWixStore,
+  event: 'created' | 'updated' | 'deleted',
+  contact: FakeWixContact,
+): void {
+  if (!store.webhookUrl) return;
+
+  const eventType = `wix.contacts.v4.contact_${event}`;
+  const body = JSON.stringify({
+    eventType,
+    instanceId: store.instanceId,
+    data: event === 'deleted'
+      ? { contactId: contact.id }
+      : { contact: { ...toApiContact(contact), _id: contact.id } },
+  });
+  const signature = crypto.createHmac('sha256', store.webhookSecret).update(body).digest('base64');
+
+  const delivery = axios
+    .post(store.webhookUrl, body, {
+      headers: { 'Content-Type': 'application/json', 'x-wix-signature': signature },
+      timeout: 10_000,
+      validateStatus: () => true,
+    })
+    .then((res) => res.status, () => 0)
+    .then((status) => {
+      store.deliveries.push({ eventType, contactId: contact.id, status });
+    });
+
+  store.pending.add(delivery);
+  delivery.finally(() => store.pending.delete(delivery));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Arrange
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Adds a contact without validating it or sending a webhook */
+export function seedWixContact(store: FakeWixStore, info: Record<string, any>): FakeWixContact {
+  return insertContact(store, info);
+}
+
+/**
+ * Changes a contact the way the site owner would in the Wix dashboard —
+ * no revision check, and a `contact_updated` webhook is sent.
+ */
+export function editWixContact(store: FakeWixStore, contactId: string, info: Record<string, any>): FakeWixContact {
+  const contact = store.contacts.get(contactId);
+  if (!contact) throw new Error(`No fake Wix contact ${contactId}`);
+  updateContact(store, contact, info);
+  emitContactEvent(store, 'updated', contact);
+  return contact;
+}
+
+/**
+ * Serves `fault` instead of the next `times` requests matching `route`.
+ *
+ * @param route — `'PATCH /contacts/v4/contacts/<id>'`, or a RegExp tested
+ *                against that form
+ */
+export function failNext(store: FakeWixStore, route: string | RegExp, fault: FakeWixFault, times = 1): void {
+  store.faults.push({ route, fault, remaining: times });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Flush webhooks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Resolves once every webhook sent so far has been answered */
+export async function flushWixWebhooks(store: FakeWixStore): Promise<void> {
+  while (store.pending.size) {
+    await Promise.all([...store.pending]);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation & query
+// ─────────────────────────────────────────────────────────────────────────────
+
+function wixError(status: number, code: string, description: string, data: Record<string, unknown> = {}) {
+  return {
+    status,
+    body: { message: `${code}: ${description}`, details: { applicationError: { code, description, data } } },
+  };
+}
+
+/** Problems Wix would reject a write of `info` for, or `null` */
+function validateInfo(store: FakeWixStore, info: unknown) {
+  if (!info || typeof info !== 'object') return wixError(400, 'INVALID_ARGUMENT', 'info is required');
+
+  const { extendedFields, labelKeys, emails } = info as Record<string, any>;
+  for (const key of Object.keys(extendedFields?.items ?? {})) {
+    if (!store.extendedFields.has(key)) {
+      return wixError(400, 'EXTENDED_FIELD_NOT_FOUND', `Extended field ${key} does not exist`, { key });
+    }
+  }
+  for (const key of itemList(labelKeys).items) {
+    if (!store.labels.has(key)) return wixError(400, 'LABEL_NOT_FOUND', `Label ${key} does not exist`, { key });
+  }
+  for (const e of itemList(emails).items) {
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(String(e?.email ?? ''))) {
+      return wixError(400, 'INVALID_ARGUMENT', 'info.emails contains an invalid email');
+    }
+  }
+  return null;
+}
+
+/**
+ * Every value at a dotted path. Arrays are flattened and `{ items: [...] }`
+ * lists are looked through, so `info.emails.email` finds every email.
+ */
+function valuesAt(value: unknown, path: string[]): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value.flatMap((v) => valuesAt(v, path));
+  if (path.length === 0) return [value];
+
+  const [head, ...rest] = path;
+  const obj = value as Record<string, unknown>;
+  if (!(head in obj) && Array.isArray(obj.items)) return valuesAt(obj.items, path);
+  return valuesAt(obj[head], rest);
+}
+
+function comparable(value: unknown): number | string {
+  if (typeof value === 'number') return value;
+  const s = String(value);
+  if (/^\d{4}-\d{2}-\d{2}T/.test(s) && !Number.isNaN(Date.parse(s))) return Date.parse(s);
+  return s.toLowerCase();
+}
+
+function matchesFilter(contact: unknown, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    if (field === '$and') return (condition as any[]).every((f) => matchesFilter(contact, f));
+    if (field === '$or') return (condition as any[]).some((f) => matchesFilter(contact, f));
+    if (field === '$not') return !matchesFilter(contact, condition);
+
+    const values = valuesAt(contact, field.split('.')).map(comparable);
+    const operators = condition && typeof condition === 'object' && !Array.isArray(condition)
+      ? condition
+      : { $eq: condition };
+
+    return Object.entries(operators).every(([op, expected]: [string, any]) => {
+      const list = ([] as unknown[]).concat(expected).map(comparable);
+      const target = comparable(expected);
+      switch (op) {
+        case '$eq': return values.some((v) => v === target);
+        case '$ne': return !values.some((v) => v === target);
+        case '$gt': return values.some((v) => v > target);
+        case '$gte': return values.some((v) => v >= target);
+        case '$lt': return values.some((v) => v < target);
+        case '$lte': return values.some((v) => v <= target);
+        case '$in':
+        case '$hasSome': return values.some((v) => list.includes(v));
+        case '$exists': return (values.length > 0) === !!expected;
+        case '$startsWith': return values.some((v) => String(v).startsWith(String(target)));
+        default: throw new Error(`Unsupported filter operator ${op}`);
+      }
+    });
+  });
+}
+
+function paging(query: Record<string, unknown>) {
+  const limit = parseInt(String(query['paging.limit'] ?? ''), 10);
+  const offset = parseInt(String(query['paging.offset'] ?? ''), 10);
+  return {
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+    offset: Number.isInteger(offset) && offset > 0 ? offset : 0,
+  };
+}
+
+function slug(displayName: string): string {
+  return displayName.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Middleware
+// ─────────────────────────────────────────────────────────────────────────────
+
+function recordRequest(store: FakeWixStore) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    store.requests.push(`${req.method} ${req.path}`);
+    next();
+  };
+}
+
+function injectFaults(store: FakeWixStore) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = `${req.method} ${req.path}`;
+    const entry = store.faults.find((f) =>
+      typeof f.route === 'string' ? f.route === key : f.route.test(key),
+    );
+    if (!entry) return next();
+
+    entry.remaining--;
+    if (entry.remaining <= 0) store.faults.splice(store.faults.indexOf(entry), 1);
+
+    const { status, body } = entry.fault;
+    res.status(status).json(body ?? wixError(status, status >= 500 ? 'INTERNAL' : 'INVALID_ARGUMENT', `Injected ${status}`).body);
+  };
+}
+
+/** Wix sends the bare access token, without a `Bearer` prefix */
+function requireToken(store: FakeWixStore) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = req.get('authorization');
+    if (!token) {
+      const err = wixError(401, 'UNAUTHENTICATED', 'Missing access token');
+      return res.status(err.status).json(err.body);
+    }
+    if (store.revokedTokens.has(token)) {
+      const err = wixError(403, 'PERMISSION_DENIED', 'The access token has expired');
+      return res.status(err.status).json(err.body);
+    }
+    next();
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Express app
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Builds the fake API over `store` without listening */
+export function createFakeWixApp(store: FakeWixStore): express.Express {
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+  app.use(recordRequest(store));
+  app.use(injectFaults(store));
+
+  function send(res: Response, err: { status: number; body: unknown }) {
+    res.status(err.status).json(err.body);
+  }
+
+  /* ── OAuth ── */
+
+  app.post('/oauth/access', (req, res) => {
+    const { grant_type, client_id, client_secret, code, refresh_token } = req.body ?? {};
+    if (!client_id || !client_secret) {
+      return res.status(400).json({ error: 'invalid_client', message: 'client_id and client_secret are required' });
+    }
+    if (grant_type === 'authorization_code' ? !code
+      : grant_type === 'refresh_token' ? !refresh_token || store.revokedTokens.has(refresh_token)
+        : true) {
+      return res.status(400).json({ error: 'invalid_grant', message: `Invalid ${grant_type ?? 'grant'}` });
+    }
+
+    res.json({
+      access_token: `fake-wix-access-${crypto.randomUUID()}`,
+      refresh_token: refresh_token ?? `fake-wix-refresh-${crypto.randomUUID()}`,
+      expires_in: 300,
+    });
+  });
+
+  /* ── Everything below needs an access token ── */
+
+  app.use('/contacts', requireToken(store));
+
+  /* ── Contacts ── */
+
+  app.post('/contacts/v4/contacts/query', (req, res) => {
+    const { filter = {}, sort = [], paging: page = {} } = req.body?.query ?? {};
+    const limit = Math.min(Math.max(parseInt(page.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(page.offset, 10) || 0, 0);
+
+    let matches: unknown[];
+    try {
+      matches = [...store.contacts.values()].map(toApiContact).filter((c) => matchesFilter(c, filter));
+    } catch (err) {
+      return send(res, wixError(400, 'INVALID_ARGUMENT', (err as Error).message));
+    }
+
+    // Wix lists the newest contacts first unless told otherwise
+    const [{ fieldName = 'createdDate', order = 'DESC' } = {}] = sort as Array<{ fieldName?: string; order?: string }>;
+    matches.sort((x: any, y: any) => {
+      const a = comparable(valuesAt(x, fieldName.split('.'))[0] ?? '');
+      const b = comparable(valuesAt(y, fieldName.split('.'))[0] ?? '');
+      const cmp = a < b ? -1 : a > b ? 1 : x.id < y.id ? -1 : 1;
+      return order === 'DESC' ? -cmp : cmp;
+    });
+
+    const contacts = matches.slice(offset, offset + limit);
+    res.json({
+      contacts,
+      pagingMetadata: { count: contacts.length, offset, total: matches.length, tooManyToCount: false },
+    });
+  });
+
+  app.get('/contacts/v4/contacts/:id', (req, res) => {
+    const contact = store.contacts.get(req.params.id);
+    if (!contact) return send(res, wixError(404, 'CONTACT_NOT_FOUND', `Contact ${req.params.id} not found`));
+    res.json({ contact: toApiContact(contact) });
+  });
+
+  app.post('/contacts/v4/contacts', (req, res) => {
+    const { info, allowDuplicates } = req.body ?? {};
+    const invalid = validateInfo(store, info);
+    if (invalid) return send(res, invalid);
+
+    const email = itemList(info.emails).items[0]?.email;
+    const duplicate = email && !allowDuplicates ? findByEmail(store, email) : undefined;
+    if (duplicate) {
+      return send(res, wixError(409, 'DUPLICATE_CONTACT_EXISTS', 'A contact with this email already exists', {
+        duplicateContactId: duplicate.id,
+      }));
+    }
+
+    const contact = insertContact(store, info);
+    res.json({ contact: toApiContact(contact) });
+    emitContactEvent(store, 'created', contact);
+  });
+
+  app.patch('/contacts/v4/contacts/:id', (req, res) => {
+    const contact = store.contacts.get(req.params.id);
+    if (!contact) return send(res, wixError(404, 'CONTACT_NOT_FOUND', `Contact ${req.params.id} not found`));
+
+    const { info, revision } = req.body ?? {};
+    if (Number(revision) !== contact.revision) {
+      return send(res, wixError(409, 'REVISION_MISMATCH', `Contact is at revision ${contact.revision}, got ${revision ?? 'none'}`, {
+        currentRevision: contact.revision,
+      }));
+    }
+    const invalid = validateInfo(store, info);
+    if (invalid) return send(res, invalid);
+
+    updateContact(store, contact, info);
+    res.json({ contact: toApiContact(contact) });
+    emitContactEvent(store, 'updated', contact);
+  });
+
+  app.delete('/contacts/v4/contacts/:id', (req, res) => {
+    const contact = store.contacts.get(req.params.id);
+    if (!contact) return send(res, wixError(404, 'CONTACT_NOT_FOUND', `Contact ${req.params.id} not found`));
+
+    store.contacts.delete(contact.id);
+    res.json({});
+    emitContactEvent(store, 'deleted', contact);
+  });
+
+  /* ── Labels ── */
+
+  app.get('/contacts/v4/labels', (req, res) => {
+    const { limit, offset } = paging(req.query);
+    const labels = [...store.labels.values()];
+    res.json({
+      labels: labels.slice(offset, offset + limit),
+      pagingMetadata: { count: Math.max(Math.min(limit, labels.length - offset), 0), offset, total: labels.length },
+    });
+  });
+
+  app.post('/contacts/v4/labels', (req, res) => {
+    const displayName = String(req.body?.displayName ?? '').trim();
+    if (!displayName) return send(res, wixError(400, 'INVALID_ARGUMENT', 'displayName is required'));
+
+    const existing = [...store.labels.values()].find((l) => l.displayName === displayName);
+    const label = existing ?? { key: `custom.${slug(displayName)}`, displayName, labelType: 'USER_DEFINED' as const };
+    store.labels.set(label.key, label);
+    res.json({ label, newLabel: !existing });
+  });
+
+  /* ── Extended fields ── */
+
+  app.get('/contacts/v4/extended-fields', (req, res) => {
+    const { limit, offset } = paging(req.query);
+    const fields = [...store.extendedFields.values()];
+    res.json({
+      fields: fields.slice(offset, offset + limit),
+      pagingMetadata: { count: Math.max(Math.min(limit, fields.length - offset), 0), offset, total: fields.length },
+    });
+  });
+
+  app.post('/contacts/v4/extended-fields', (req, res) => {
+    const displayName = String(req.body?.displayName ?? '').trim();
+    if (!displayName) return send(res, wixError(400, 'INVALID_ARGUMENT', 'displayName is required'));
+
+    const existing = [...store.extendedFields.values()].find((f) => f.displayName === displayName);
+    const field: FakeWixExtendedField = existing ?? {
+      key: `custom.${slug(displayName)}`,
+      displayName,
+      dataType: req.body?.dataType ?? 'TEXT',
+      fieldType: 'USER_DEFINED',
+    };
+    store.extendedFields.set(field.key, field);
+    res.json({ field, newField: !existing });
+  });
+
+  /* ── Anything else ── */
+
+  app.use((req, res) => {
+    send(res, wixError(404, 'NOT_FOUND', `The fake Wix API has no ${req.method} ${req.path}`));
+  });
+
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    send(res, wixError(400, 'INVALID_ARGUMENT', `Invalid input: ${err.message}`));
+  });
+
+  return app;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Start / stop
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Starts the fake on localhost.
+ *
+ * @param options.port  — `0` (default) picks a free port
+ * @param options.store — Start from an existing store instead of an empty one
+ * @returns             — The base URL, the store, and `stop()`
+ */
+export async function startFakeWix(
+  options: { port?: number; store?: FakeWixStore } = {},
+): Promise<FakeWix> {
+  const store = options.store ?? createFakeWixStore();
+  const server = createFakeWixApp(store).listen(options.port ?? 0, '127.0.0.1');
+  await once(server, 'listening');
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    store,
+    stop: async () => {
+      await flushWixWebhooks(store);
+      await new Promise<void>((resolve, reject) => {
+        // Keep-alive sockets from Node's global agent would hold close() open
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
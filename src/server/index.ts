@@ -12,13 +12,18 @@ import {
   startCleanupScheduler,
   stopCleanupScheduler,
 } from './services/cleanupScheduler';
+import { startJobWorker, stopJobWorker } from './services/jobQueue';
+import { startDeltaSyncScheduler, stopDeltaSyncScheduler } from './services/deltaSyncScheduler';
 
 // Routes
 import hubspotOauthRoutes from './routes/hubspot-oauth';
 import wixWebhookRoutes from './routes/wix-webhooks';
+import wixOrderWebhookRoutes from './routes/wix-order-webhooks';
 import hubspotWebhookRoutes from './routes/hubspot-webhooks';
 import fieldMappingRoutes from './routes/field-mapping';
+import configTransferRoutes from './routes/config-transfer';
 import syncRoutes from './routes/sync';
+import syncFilterRoutes from './routes/sync-filters';
 import connectionRoutes from './routes/connection';
 import formRoutes from './routes/forms';
 import backendMethodRoutes from './routes/backend-methods';
@@ -26,6 +31,9 @@ import widgetRoutes from './routes/widget';
 
 const app = express();
 
+/** Site the dashboard shortcuts sign in as, and the fake Wix API reports */
+const DEV_INSTANCE_ID = '191db8e3-9470-4d60-b1ad-25831ea43cc3';
+
 /* ── Global middleware ── */
 app.use(cors({
   origin: true,
@@ -71,8 +79,11 @@ app.use((req, _res, next) => {
 /* ── API routes ── */
 app.use('/api/hubspot', hubspotOauthRoutes);
 app.use('/api/webhooks/wix', wixWebhookRoutes);
+app.use('/api/webhooks/wix-orders', wixOrderWebhookRoutes);
 app.use('/api/webhooks/hubspot', hubspotWebhookRoutes);
 app.use('/api/field-mappings', fieldMappingRoutes);
+app.use('/api/config', configTransferRoutes);
+app.use('/api/sync-filters', syncFilterRoutes);
 app.use('/api/sync', syncRoutes);
 app.use('/api/connection', connectionRoutes);
 app.use('/api/forms', formRoutes);
@@ -106,7 +117,7 @@ app.get('/', (req, res) => {
   // Default: show a simple status page with a link to the dashboard
   const jwt = require('jsonwebtoken');
   const dashboardToken = jwt.sign(
-    { instanceId: '191db8e3-9470-4d60-b1ad-25831ea43cc3' },
+    { instanceId: DEV_INSTANCE_ID },
     config.jwtSecret,
     { expiresIn: '2h' },
   );
@@ -214,7 +225,8 @@ app.get('/api/wix/install', async (req, res) => {
     // If Wix sent an authorization code, exchange it for tokens
     if (code) {
       try {
-        const https = await import('https');
+        const tokenUrl = `${config.wixAuthBase}/oauth/access`;
+        const transport = tokenUrl.startsWith('http:') ? await import('http') : await import('https');
         const tokenData = await new Promise<any>((resolve, reject) => {
           const body = JSON.stringify({
             grant_type: 'authorization_code',
@@ -222,8 +234,8 @@ app.get('/api/wix/install', async (req, res) => {
             client_secret: config.wixAppSecret,
             code,
           });
-          const req = https.request(
-            'https://www.wix.com/oauth/access',
+          const req = transport.request(
+            tokenUrl,
             {
               method: 'POST',
               headers: {
@@ -291,7 +303,7 @@ app.get('/api/wix/install', async (req, res) => {
 app.get('/dashboard', (_req, res) => {
   const jwt = require('jsonwebtoken');
   const dashboardToken = jwt.sign(
-    { instanceId: '191db8e3-9470-4d60-b1ad-25831ea43cc3' },
+    { instanceId: DEV_INSTANCE_ID },
     config.jwtSecret,
     { expiresIn: '2h' },
   );
@@ -321,12 +333,45 @@ app.use(
 /* ── Start ── */
 async function start(): Promise<void> {
   try {
+    // Module 22: Offline development against the in-process fake HubSpot API
+    if (config.hubspotFake && config.nodeEnv !== 'production') {
+      const { startFakeHubSpot } = await import('./fakes/hubspotFakeServer');
+      const fake = await startFakeHubSpot({ port: config.hubspotFakePort });
+      config.hubspotApiBase = fake.baseUrl;
+      config.hubspotAppBase = fake.baseUrl;
+      config.hubspotFormsBase = fake.baseUrl;
+      logger.warn(`Using the fake HubSpot API at ${fake.baseUrl}`);
+    }
+
+    // Module 23: Offline development against the in-process fake Wix API,
+    // which sends its contact webhooks back to this server
+    if (config.wixFake && config.nodeEnv !== 'production') {
+      const { startFakeWix, createFakeWixStore } = await import('./fakes/wixFakeServer');
+      const fake = await startFakeWix({
+        port: config.wixFakePort,
+        store: createFakeWixStore({
+          instanceId: DEV_INSTANCE_ID,
+          webhookUrl: `http://127.0.0.1:${config.port}/api/webhooks/wix`,
+          webhookSecret: config.wixWebhookPublicKey || config.wixAppSecret,
+        }),
+      });
+      config.wixApiBase = fake.baseUrl;
+      config.wixAuthBase = fake.baseUrl;
+      logger.warn(`Using the fake Wix API at ${fake.baseUrl}`);
+    }
+
     await mongoose.connect(config.mongodbUri);
     logger.info('MongoDB connected');
 
     // Module 5-C: Start periodic SyncDedupeLog cleanup (every 10 min)
     startCleanupScheduler();
 
+    // Module 13: Start the durable sync job worker
+    startJobWorker();
+
+    // Module 14: Start the periodic delta sync (missed-webhook safety net)
+    startDeltaSyncScheduler();
+
     app.listen(config.port, () => {
       logger.info(`Server running on port ${config.port} [${config.nodeEnv}]`);
     });
@@ -336,13 +381,17 @@ async function start(): Promise<void> {
   }
 }
 
-// Graceful shutdown — stop scheduler before exit
+// Graceful shutdown — stop schedulers before exit
 process.on('SIGTERM', () => {
   stopCleanupScheduler();
+  stopJobWorker();
+  stopDeltaSyncScheduler();
   mongoose.disconnect().catch(() => {});
 });
 process.on('SIGINT', () => {
   stopCleanupScheduler();
+  stopJobWorker();
+  stopDeltaSyncScheduler();
   mongoose.disconnect().catch(() => {});
 });
 
@@ -0,0 +1,46 @@
+// =============================================================================
+// CompanyMapping Model — Links a company key ↔ HubSpot company ID
+// =============================================================================
+// Collection name: HubSpotCompanyMapping
+//
+// The key is the normalised domain or company name a Wix contact resolved
+// to (see companySync). One mapping per key keeps every contact of the same
+// company pointed at the same HubSpot company instead of creating duplicates.
+// =============================================================================
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { CompanyMatchBy } from '../types';
+
+export interface ICompanyMapping extends Document {
+  instanceId: string;
+  /** How `companyKey` was derived */
+  matchBy: CompanyMatchBy;
+  /** Normalised domain (`acme.com`) or lower-cased company name */
+  companyKey: string;
+  hubspotCompanyId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const companyMappingSchema = new Schema<ICompanyMapping>(
+  {
+    instanceId: { type: String, required: true },
+    matchBy: {
+      type: String,
+      enum: ['domain', 'name'] satisfies CompanyMatchBy[],
+      required: true,
+    },
+    companyKey: { type: String, required: true },
+    hubspotCompanyId: { type: String, required: true },
+  },
+  { timestamps: true, collection: 'HubSpotCompanyMapping' },
+);
+
+// One HubSpot company per key — switching matchBy starts a separate key space
+companyMappingSchema.index({ instanceId: 1, matchBy: 1, companyKey: 1 }, { unique: true });
+companyMappingSchema.index({ instanceId: 1, hubspotCompanyId: 1 });
+
+const CompanyMapping: Model<ICompanyMapping> = mongoose.model<ICompanyMapping>(
+  'CompanyMapping',
+  companyMappingSchema,
+);
+export default CompanyMapping;
@@ -2,7 +2,15 @@
 // FieldMapping Model — Configurable mapping rules per installation
 // =============================================================================
 import mongoose, { Document, Schema, Model } from 'mongoose';
-import { FieldTransform, SyncDirection } from '../types';
+import {
+  CompositeMapping,
+  ConflictStrategy,
+  FieldTransform,
+  OptionMapEntry,
+  SyncDirection,
+  TransformStep,
+  TransformStepType,
+} from '../types';
 
 export interface IFieldMapping extends Document {
   instanceId: string;
@@ -10,12 +18,49 @@ export interface IFieldMapping extends Document {
   hubspotField: string;
   direction: SyncDirection;
   transform: FieldTransform;
+  transforms: TransformStep[];
+  optionMap: OptionMapEntry[];
+  optionFallback?: string;
+  composite?: CompositeMapping;
+  conflictStrategy: ConflictStrategy;
   isDefault: boolean;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const transformStepSchema = new Schema<TransformStep>(
+  {
+    type: {
+      type: String,
+      required: true,
+      enum: [
+        'trim',
+        'lowercase',
+        'uppercase',
+        'titlecase',
+        'phone_e164',
+        'phone_national',
+        'date',
+        'regex_replace',
+        'default_if_empty',
+        'truncate',
+        'value_map',
+      ] satisfies TransformStepType[],
+    },
+    pattern: { type: String },
+    replacement: { type: String },
+    flags: { type: String },
+    value: { type: String },
+    length: { type: Number },
+    valueMap: {
+      type: [{ from: { type: String, required: true }, to: { type: String, required: true }, _id: false }],
+      default: undefined,
+    },
+  },
+  { _id: false },
+);
+
 const fieldMappingSchema = new Schema<IFieldMapping>(
   {
     instanceId: { type: String, required: true, index: true },
@@ -28,9 +73,43 @@ const fieldMappingSchema = new Schema<IFieldMapping>(
     },
     transform: {
       type: String,
-      enum: ['none', 'lowercase', 'uppercase', 'trim', 'phone_e164'] satisfies FieldTransform[],
+      enum: ['none', 'lowercase', 'uppercase', 'trim', 'phone_e164', 'phone_national'] satisfies FieldTransform[],
       default: 'none' as FieldTransform,
     },
+    transforms: { type: [transformStepSchema], default: [] },
+    optionMap: {
+      type: [
+        {
+          wixValue: { type: String, required: true },
+          hubspotValue: { type: String, required: true },
+          _id: false,
+        },
+      ],
+      default: [],
+    },
+    optionFallback: { type: String },
+    composite: {
+      type: new Schema<CompositeMapping>(
+        {
+          wixFields: { type: [String], required: true },
+          template: { type: String },
+          delimiter: { type: String },
+          splitPattern: { type: String },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+    conflictStrategy: {
+      type: String,
+      enum: [
+        'newest_wins',
+        'source_of_truth_wix',
+        'source_of_truth_hubspot',
+        'never_overwrite_non_empty',
+      ] satisfies ConflictStrategy[],
+      default: 'newest_wins' as ConflictStrategy,
+    },
     isDefault: { type: Boolean, default: false },
     isActive: { type: Boolean, default: true },
   },
@@ -0,0 +1,61 @@
+// =============================================================================
+// FieldMappingVersion Model — Immutable snapshot of an installation's rules
+// =============================================================================
+// Every change to the field mapping records the complete rule set as it
+// stood afterwards, numbered 1, 2, 3… per installation. Versions are never
+// edited; a rollback restores an old snapshot and records it as a new
+// version.
+// =============================================================================
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { FieldMappingRule } from '../types';
+
+/** One rule as captured in a snapshot */
+export interface MappingSnapshotRule extends FieldMappingRule {
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+export interface IFieldMappingVersion extends Document {
+  instanceId: string;
+  /** 1-based, increasing per installation */
+  version: number;
+  /** Wix user who made the change, or the caller for non-dashboard saves */
+  author: string;
+  comment: string;
+  rules: MappingSnapshotRule[];
+  /** Version whose rules this one restored, when created by a rollback */
+  restoredFrom: number | null;
+  createdAt: Date;
+}
+
+const fieldMappingVersionSchema = new Schema<IFieldMappingVersion>(
+  {
+    instanceId: { type: String, required: true },
+    version: { type: Number, required: true },
+    author: { type: String, default: '' },
+    comment: { type: String, default: '' },
+    // Stored as captured — a snapshot must not change when the rule schema does
+    rules: { type: Schema.Types.Mixed, default: [] },
+    restoredFrom: { type: Number, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+fieldMappingVersionSchema.index({ instanceId: 1, version: -1 }, { unique: true });
+
+/* ── Versions are immutable ── */
+fieldMappingVersionSchema.pre('save', function (next) {
+  next(this.isNew ? undefined : new Error('Field mapping versions cannot be modified'));
+});
+
+for (const op of ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'] as const) {
+  fieldMappingVersionSchema.pre(op, function (next) {
+    next(new Error('Field mapping versions cannot be modified'));
+  });
+}
+
+const FieldMappingVersion: Model<IFieldMappingVersion> = mongoose.model<IFieldMappingVersion>(
+  'FieldMappingVersion',
+  fieldMappingVersionSchema,
+);
+export default FieldMappingVersion;
@@ -3,6 +3,17 @@
 // =============================================================================
 import mongoose, { Document, Schema, Model } from 'mongoose';
 import { encryptTokens, decryptTokens } from '../utils/tokenEncryption';
+import {
+  CompanyMatchBy,
+  CompanySyncSettings,
+  DeletionPolicy,
+  HubSpotDeletionAction,
+  LabelSyncMode,
+  LabelSyncSettings,
+  OrderSyncSettings,
+  SyncCursors,
+  WixDeletionAction,
+} from '../types';
 
 /* ── Interfaces ── */
 export interface IInstallation extends Document {
@@ -17,6 +28,21 @@ export interface IInstallation extends Document {
   syncEnabled: boolean;
   lastSyncAt: Date | null;
   widgetFormId: string;
+  /** How contact deletions propagate to the other system */
+  deletionPolicy: DeletionPolicy;
+  /** How far each side has been pulled by delta sync */
+  syncCursors: SyncCursors;
+  /** Whether contacts are linked to HubSpot companies, and how they are matched */
+  companySync: CompanySyncSettings;
+  /** How Wix contact labels are represented in HubSpot */
+  labelSync: LabelSyncSettings;
+  /** Whether Wix orders become HubSpot deals, and where they land */
+  orderSync: OrderSyncSettings;
+  /**
+   * ISO 3166-1 alpha-2 region used to read phone numbers written without a
+   * country code; `''` falls back to each contact's address country
+   */
+  phoneRegion: string;
   createdAt: Date;
   updatedAt: Date;
   /** Virtual getter: decrypts tokens on the fly */
@@ -37,6 +63,44 @@ const installationSchema = new Schema<IInstallation>(
     syncEnabled: { type: Boolean, default: true },
     lastSyncAt: { type: Date, default: null },
     widgetFormId: { type: String, default: '' },
+    deletionPolicy: {
+      onWixDelete: {
+        type: String,
+        enum: ['ignore', 'mirror_delete', 'flag_hubspot_property'] satisfies WixDeletionAction[],
+        default: 'ignore',
+      },
+      onHubSpotDelete: {
+        type: String,
+        enum: ['ignore', 'mirror_delete', 'archive_wix_label'] satisfies HubSpotDeletionAction[],
+        default: 'ignore',
+      },
+    },
+    syncCursors: {
+      wixUpdatedAfter: { type: Date, default: null },
+      hubspotModifiedAfter: { type: Date, default: null },
+      heldBack: { type: Schema.Types.Mixed, default: {} },
+    },
+    companySync: {
+      enabled: { type: Boolean, default: false },
+      matchBy: {
+        type: String,
+        enum: ['domain', 'name'] satisfies CompanyMatchBy[],
+        default: 'domain',
+      },
+    },
+    labelSync: {
+      mode: {
+        type: String,
+        enum: ['off', 'property', 'lists'] satisfies LabelSyncMode[],
+        default: 'off',
+      },
+    },
+    orderSync: {
+      enabled: { type: Boolean, default: false },
+      pipelineId: { type: String, default: '' },
+      dealStage: { type: String, default: '' },
+    },
+    phoneRegion: { type: String, default: '' },
   },
   { timestamps: true },
 );
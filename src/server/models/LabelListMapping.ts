@@ -0,0 +1,43 @@
+// =============================================================================
+// LabelListMapping Model — Links a Wix label key ↔ HubSpot static list ID
+// =============================================================================
+// Collection name: HubSpotLabelListMapping
+//
+// Written by labelSync in `lists` mode the first time a label is pushed.
+// Only labels with a mapping are reconciled in the HubSpot → Wix direction,
+// so lists created by hand in HubSpot never strip labels from Wix contacts.
+// `memberIds` holds the list's members as of the last membership pass, so
+// the next pass can tell who joined or left the list since.
+// =============================================================================
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export interface ILabelListMapping extends Document {
+  instanceId: string;
+  /** Wix label key, e.g. `custom.vip` */
+  labelKey: string;
+  hubspotListId: string;
+  /** HubSpot contacts in the list at the last membership pass */
+  memberIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const labelListMappingSchema = new Schema<ILabelListMapping>(
+  {
+    instanceId: { type: String, required: true },
+    labelKey: { type: String, required: true },
+    hubspotListId: { type: String, required: true },
+    memberIds: { type: [String], default: [] },
+  },
+  { timestamps: true, collection: 'HubSpotLabelListMapping' },
+);
+
+// One list per label
+labelListMappingSchema.index({ instanceId: 1, labelKey: 1 }, { unique: true });
+labelListMappingSchema.index({ instanceId: 1, hubspotListId: 1 });
+
+const LabelListMapping: Model<ILabelListMapping> = mongoose.model<ILabelListMapping>(
+  'LabelListMapping',
+  labelListMappingSchema,
+);
+export default LabelListMapping;
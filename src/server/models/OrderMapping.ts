@@ -0,0 +1,45 @@
+// =============================================================================
+// OrderMapping Model — Links a Wix order ID ↔ HubSpot deal ID
+// =============================================================================
+// Collection name: HubSpotDealMapping
+//
+// Written by orderSync as soon as the deal exists, so a redelivered order
+// event (or a retried job) never creates a second deal. `lineItemsCreated`
+// counts the line items written so far, batch by batch, and
+// `lineItemsSynced` records that all of them are; a retry after a failure
+// in between only creates the missing line items.
+// =============================================================================
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export interface IOrderMapping extends Document {
+  instanceId: string;
+  wixOrderId: string;
+  hubspotDealId: string;
+  /** Order lines already created as line items, in order */
+  lineItemsCreated: number;
+  /** `true` once the order's line items are attached to the deal */
+  lineItemsSynced: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const orderMappingSchema = new Schema<IOrderMapping>(
+  {
+    instanceId: { type: String, required: true },
+    wixOrderId: { type: String, required: true },
+    hubspotDealId: { type: String, required: true },
+    lineItemsCreated: { type: Number, default: 0 },
+    lineItemsSynced: { type: Boolean, default: false },
+  },
+  { timestamps: true, collection: 'HubSpotDealMapping' },
+);
+
+// One deal per order
+orderMappingSchema.index({ instanceId: 1, wixOrderId: 1 }, { unique: true });
+orderMappingSchema.index({ instanceId: 1, hubspotDealId: 1 });
+
+const OrderMapping: Model<IOrderMapping> = mongoose.model<IOrderMapping>(
+  'OrderMapping',
+  orderMappingSchema,
+);
+export default OrderMapping;
@@ -9,7 +9,7 @@ import mongoose, { Document, Schema, Model } from 'mongoose';
 
 export interface ISyncError extends Document {
   instanceId: string;
-  /** What kind of operation failed: 'form_submission' | 'contact_sync' */
+  /** What kind of operation failed: 'form_submission' | 'contact_sync' | 'order_sync' */
   type: string;
   /** The ID of the original record (submission ID, contact ID, etc.) */
   referenceId: string;
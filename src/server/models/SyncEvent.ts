@@ -22,12 +22,12 @@ const syncEventSchema = new Schema<ISyncEvent>(
     instanceId: { type: String, required: true, index: true },
     source: {
       type: String,
-      enum: ['wix_webhook', 'hubspot_webhook', 'manual', 'initial_sync'] satisfies SyncSource[],
+      enum: ['wix_webhook', 'hubspot_webhook', 'manual', 'initial_sync', 'delta_sync'] satisfies SyncSource[],
       required: true,
     },
     action: {
       type: String,
-      enum: ['create', 'update', 'delete', 'skip'] satisfies SyncAction[],
+      enum: ['create', 'update', 'delete', 'merge', 'skip'] satisfies SyncAction[],
       required: true,
     },
     wixContactId: { type: String, default: '' },
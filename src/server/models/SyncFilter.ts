@@ -0,0 +1,74 @@
+// =============================================================================
+// SyncFilter Model — Per-installation rules that keep contacts out of sync
+// =============================================================================
+// Evaluated by Module 20 before a newly created contact is copied to the
+// other system. A filter matches when ALL of its conditions hold; the first
+// active match (lowest `order`) excludes the contact.
+// =============================================================================
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import {
+  SyncFilterCondition,
+  SyncFilterConditionKind,
+  SyncFilterOperator,
+  SyncFilterSide,
+} from '../types';
+
+export interface ISyncFilter extends Document {
+  instanceId: string;
+  name: string;
+  /** System whose new contacts the filter inspects */
+  side: SyncFilterSide;
+  conditions: SyncFilterCondition[];
+  isActive: boolean;
+  /** Evaluation order, ascending */
+  order: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const conditionSchema = new Schema<SyncFilterCondition>(
+  {
+    kind: {
+      type: String,
+      required: true,
+      enum: ['field', 'label', 'email_domain', 'source'] satisfies SyncFilterConditionKind[],
+    },
+    field: { type: String },
+    operator: {
+      type: String,
+      required: true,
+      enum: [
+        'equals',
+        'not_equals',
+        'contains',
+        'not_contains',
+        'ends_with',
+        'is_empty',
+        'is_not_empty',
+      ] satisfies SyncFilterOperator[],
+    },
+    value: { type: String },
+  },
+  { _id: false },
+);
+
+const syncFilterSchema = new Schema<ISyncFilter>(
+  {
+    instanceId: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+    side: {
+      type: String,
+      enum: ['wix', 'hubspot', 'both'] satisfies SyncFilterSide[],
+      default: 'both' as SyncFilterSide,
+    },
+    conditions: { type: [conditionSchema], default: [] },
+    isActive: { type: Boolean, default: true },
+    order: { type: Number, default: 0 },
+  },
+  { timestamps: true },
+);
+
+syncFilterSchema.index({ instanceId: 1, order: 1 });
+
+const SyncFilter: Model<ISyncFilter> = mongoose.model<ISyncFilter>('SyncFilter', syncFilterSchema);
+export default SyncFilter;
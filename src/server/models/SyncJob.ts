@@ -0,0 +1,117 @@
+// =============================================================================
+// SyncJob Model — Durable queue of pending contact-sync work
+// =============================================================================
+// Every inbound contact change (Wix webhook, HubSpot webhook, Wix CRM event
+// hook) is persisted here BEFORE it is acknowledged. A worker loop leases
+// jobs one at a time, runs the matching orchestrator scenario and marks the
+// job completed — or schedules a retry with exponential back-off.
+//
+// Lifecycle:
+//   pending ──lease──▶ leased ──ok──▶ completed
+//      ▲                  │
+//      └──── retry ───────┤
+//      │                  └──attempts exhausted──▶ dead
+//      │                  │
+//      └──── replay ◀── parked ◀──circuit open (Module 21)
+//
+// A lease that expires (process crashed mid-job) makes the job eligible
+// again, so nothing is lost on restart. A job is `parked` instead of
+// attempted while the installation's HubSpot or Wix circuit is open, and
+// goes back to `pending` once the circuit lets calls through again.
+// =============================================================================
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { SyncJobType, SyncSource } from '../types';
+
+export type SyncJobStatus = 'pending' | 'leased' | 'completed' | 'dead' | 'parked';
+
+export interface ISyncJob extends Document {
+  instanceId: string;
+  type: SyncJobType;
+
+  /** Contact ID on the side that triggered the job (order ID for order jobs) */
+  contactId: string;
+
+  /**
+   * Serialisation key ("wix:<id>", "hubspot:<id>" or "order:<id>"). Jobs
+   * sharing a key never run concurrently and are processed in creation order.
+   */
+  contactKey: string;
+
+  /** Scenario input (e.g. the raw Wix contact from the webhook) */
+  payload: Record<string, unknown>;
+
+  source: SyncSource;
+  status: SyncJobStatus;
+
+  /** Number of times the job has been leased */
+  attempts: number;
+  maxAttempts: number;
+
+  /** Earliest time the job may be leased */
+  runAt: Date;
+
+  /** Worker that currently holds the lease */
+  leaseOwner: string;
+  leaseExpiresAt: Date | null;
+
+  lastError: string;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const syncJobSchema = new Schema<ISyncJob>(
+  {
+    instanceId: { type: String, required: true },
+    type: {
+      type: String,
+      enum: [
+        'wix_contact_created',
+        'wix_contact_updated',
+        'wix_contact_deleted',
+        'hubspot_contact_created',
+        'hubspot_contact_updated',
+        'hubspot_contact_deleted',
+        'hubspot_contact_merged',
+        'wix_order_created',
+      ] satisfies SyncJobType[],
+      required: true,
+    },
+    contactId: { type: String, required: true },
+    contactKey: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, default: {} },
+    source: {
+      type: String,
+      enum: ['wix_webhook', 'hubspot_webhook', 'manual', 'initial_sync', 'delta_sync'] satisfies SyncSource[],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'leased', 'completed', 'dead', 'parked'] satisfies SyncJobStatus[],
+      default: 'pending',
+    },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 5 },
+    runAt: { type: Date, default: Date.now },
+    leaseOwner: { type: String, default: '' },
+    leaseExpiresAt: { type: Date, default: null },
+    lastError: { type: String, default: '' },
+    completedAt: { type: Date, default: null },
+  },
+  { timestamps: true, collection: 'sync_jobs' },
+);
+
+// Worker scan — next runnable jobs in order
+syncJobSchema.index({ status: 1, runAt: 1 });
+
+// Per-contact serialisation checks
+syncJobSchema.index({ instanceId: 1, contactKey: 1, status: 1, createdAt: 1 });
+
+// Dashboard — dead-letter listing
+syncJobSchema.index({ instanceId: 1, status: 1, updatedAt: -1 });
+
+// TTL index — completed jobs are purged after 7 days (null is never expired)
+syncJobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const SyncJob: Model<ISyncJob> = mongoose.model<ISyncJob>('SyncJob', syncJobSchema);
+export default SyncJob;
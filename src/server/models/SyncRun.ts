@@ -0,0 +1,86 @@
+// =============================================================================
+// SyncRun Model — Checkpointed progress of a full sync
+// =============================================================================
+// A full sync pages through every Wix contact and then every HubSpot
+// contact. After each page the run stores where it got to, so a crash,
+// restart or pause resumes from the last checkpoint instead of contact 0.
+//
+// Lifecycle:
+//   running ──page──▶ running ──last page──▶ completed
+//      │  ▲
+//      │  └──resume── paused / failed / stale running (crashed process)
+//      └──pause──▶ paused        any unfinished ──cancel──▶ cancelled
+// =============================================================================
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type SyncRunStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+/** Which half of the full sync the run is in */
+export type SyncRunPhase = 'wix_to_hubspot' | 'hubspot_to_wix' | 'done';
+
+export interface SyncRunCounters {
+  synced: number;
+  skipped: number;
+  errors: number;
+  total: number;
+}
+
+export interface ISyncRun extends Document {
+  instanceId: string;
+  status: SyncRunStatus;
+  phase: SyncRunPhase;
+
+  /** Wix contacts already processed in Phase 1 (query offset) */
+  wixOffset: number;
+
+  /** HubSpot paging cursor for the next Phase 2 page ('' = first page) */
+  hubspotAfter: string;
+
+  /** Running totals, carried across resumes */
+  counters: SyncRunCounters;
+
+  lastError: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  createdAt: Date;
+
+  /** Bumped on every checkpoint — a stale `running` run belongs to a dead process */
+  updatedAt: Date;
+}
+
+const syncRunSchema = new Schema<ISyncRun>(
+  {
+    instanceId: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['running', 'paused', 'completed', 'cancelled', 'failed'] satisfies SyncRunStatus[],
+      default: 'running',
+    },
+    phase: {
+      type: String,
+      enum: ['wix_to_hubspot', 'hubspot_to_wix', 'done'] satisfies SyncRunPhase[],
+      default: 'wix_to_hubspot',
+    },
+    wixOffset: { type: Number, default: 0 },
+    hubspotAfter: { type: String, default: '' },
+    counters: {
+      synced: { type: Number, default: 0 },
+      skipped: { type: Number, default: 0 },
+      errors: { type: Number, default: 0 },
+      total: { type: Number, default: 0 },
+    },
+    lastError: { type: String, default: '' },
+    startedAt: { type: Date, default: Date.now },
+    finishedAt: { type: Date, default: null },
+  },
+  { timestamps: true, collection: 'sync_runs' },
+);
+
+// Latest run per installation (resume lookup, dashboard)
+syncRunSchema.index({ instanceId: 1, createdAt: -1 });
+
+// TTL index — finished runs are purged after 30 days (null is never expired)
+syncRunSchema.index({ finishedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+const SyncRun: Model<ISyncRun> = mongoose.model<ISyncRun>('SyncRun', syncRunSchema);
+export default SyncRun;
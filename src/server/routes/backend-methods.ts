@@ -131,7 +131,7 @@ router.post('/field-mappings', async (req: Request, res: Response) => {
 
 /* ── 7. Get Available Wix Fields ── */
 router.get('/wix-fields', async (req: Request, res: Response) => {
-  await callMethod(req, res, getAvailableWixFields, []);
+  await callMethod(req, res, getAvailableWixFields, [req.instanceId!]);
 });
 
 /* ── 8. Get Available HubSpot Properties ── */
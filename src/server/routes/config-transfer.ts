@@ -0,0 +1,132 @@
+// =============================================================================
+// Config Transfer Routes — Module 19: export / import an installation's setup
+// =============================================================================
+//   GET  /export          — download the setup as JSON or YAML (`format`)
+//   POST /import/preview  — validate a document and list what it would change
+//   POST /import          — validate and apply a document
+//
+// Import bodies: { document: string, format?: 'json' | 'yaml', comment? }.
+// Without `format`, a document starting with `{` is read as JSON.
+// =============================================================================
+import { Router, Request, Response } from 'express';
+import authMiddleware from '../utils/authMiddleware';
+import {
+  exportConfig,
+  serializeConfig,
+  parseConfig,
+  previewConfigImport,
+  applyConfigImport,
+  CONFIG_FORMATS,
+  ConfigFormat,
+  ParseConfigResult,
+} from '../services/configTransfer';
+import { loadMappingRules } from '../services/fieldMappingEngine';
+import { MAX_VERSION_COMMENT_LENGTH } from '../services/mappingVersions';
+import logger from '../utils/logger';
+
+const router = Router();
+router.use(authMiddleware);
+
+/** Largest accepted document — far above any real mapping */
+const MAX_DOCUMENT_LENGTH = 1_000_000;
+
+const CONTENT_TYPES: Record<ConfigFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/yaml',
+};
+
+/** Parses an import body, or sends the 400 and returns `null` */
+function readDocument(req: Request, res: Response): ParseConfigResult | null {
+  const { document, format } = req.body ?? {};
+  if (typeof document !== 'string' || !document.trim()) {
+    res.status(400).json({ error: 'document is required' });
+    return null;
+  }
+  if (document.length > MAX_DOCUMENT_LENGTH) {
+    res.status(400).json({ error: `document must be at most ${MAX_DOCUMENT_LENGTH} characters` });
+    return null;
+  }
+  if (format !== undefined && !CONFIG_FORMATS.includes(format)) {
+    res.status(400).json({ error: `format must be one of: ${CONFIG_FORMATS.join(', ')}` });
+    return null;
+  }
+  const parsed = parseConfig(document, format ?? (document.trimStart().startsWith('{') ? 'json' : 'yaml'));
+  if (!parsed.ok) {
+    res.status(400).json({ error: 'Invalid document', details: parsed.errors });
+    return null;
+  }
+  return parsed;
+}
+
+/* ── Export ── */
+router.get('/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    const format = (req.query.format as ConfigFormat | undefined) ?? 'json';
+    if (!CONFIG_FORMATS.includes(format)) {
+      res.status(400).json({ error: `format must be one of: ${CONFIG_FORMATS.join(', ')}` });
+      return;
+    }
+
+    const document = await exportConfig(req.installation);
+    const stamp = document.exportedAt!.replace(/[:.]/g, '-');
+    res.setHeader('Content-Type', `${CONTENT_TYPES[format]}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="hubspot-config-${stamp}.${format}"`);
+    res.send(serializeConfig(document, format));
+  } catch (err) {
+    logger.error('Config export error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to export configuration' });
+  }
+});
+
+/* ── Preview an import (writes nothing) ── */
+router.post('/import/preview', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    const parsed = readDocument(req, res);
+    if (!parsed?.ok) return;
+
+    res.json({ preview: await previewConfigImport(req.installation, parsed.document) });
+  } catch (err) {
+    logger.error('Config import preview error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to preview import' });
+  }
+});
+
+/* ── Apply an import ── */
+router.post('/import', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    const { comment } = req.body ?? {};
+    if (comment !== undefined && (typeof comment !== 'string' || comment.length > MAX_VERSION_COMMENT_LENGTH)) {
+      res.status(400).json({ error: `comment must be a string of at most ${MAX_VERSION_COMMENT_LENGTH} characters` });
+      return;
+    }
+    const parsed = readDocument(req, res);
+    if (!parsed?.ok) return;
+
+    const { preview, applied } = await applyConfigImport(req.installation, parsed.document, {
+      author: req.userId,
+      comment,
+    });
+    if (!applied) {
+      res.status(400).json({ error: 'Validation failed', details: preview.errors, preview });
+      return;
+    }
+    res.json({ preview, mappings: await loadMappingRules(req.instanceId!) });
+  } catch (err) {
+    logger.error('Config import error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to import configuration' });
+  }
+});
+
+export default router;
@@ -2,23 +2,119 @@
 // Field Mapping Routes — CRUD for per-installation field mapping rules
 // =============================================================================
 import { Router, Request, Response } from 'express';
-import FieldMapping, { DEFAULT_FIELD_MAPPINGS } from '../models/FieldMapping';
-import { fetchCustomProperties } from '../services/hubspotProperties';
+import FieldMapping, { DEFAULT_FIELD_MAPPINGS, IFieldMapping } from '../models/FieldMapping';
+import {
+  fetchCustomProperties,
+  createMappedProperty,
+  archiveCustomProperty,
+  isValidPropertyName,
+  CreatePropertyInput,
+} from '../services/hubspotProperties';
 import {
   loadMappingRules,
   saveMappingRules,
   validateRules,
-  getWixFieldRegistry,
+  loadWixFieldRegistry,
+  loadWixExtendedFieldKeys,
   seedDefaultMappings,
   invalidateRulesCache,
   isUndeletableDefault,
+  isValidConflictStrategy,
+  isValidationWarning,
+  indexPropertyOptions,
+  compositeWixField,
+  ValidationError,
 } from '../services/fieldMappingEngine';
+import {
+  recordMappingVersion,
+  listMappingVersions,
+  getMappingVersion,
+  diffMappingVersions,
+  rollbackToVersion,
+  MAX_VERSION_COMMENT_LENGTH,
+} from '../services/mappingVersions';
+import { previewContactMapping } from '../services/syncOrchestrator';
+import { LABEL_FIELD, listSyncedLabelNames } from '../services/labelSync';
+import { CompositeMapping, OptionMapEntry, TransformStep } from '../types';
 import authMiddleware from '../utils/authMiddleware';
 import logger from '../utils/logger';
 
 const router = Router();
 router.use(authMiddleware);
 
+/** Longest label accepted for a property created from the mapping table */
+const MAX_PROPERTY_LABEL_LENGTH = 100;
+
+/** Option values of the portal's enumeration properties; `null` skips those checks */
+async function loadHubSpotOptions(req: Request): Promise<Map<string, string[]> | null> {
+  if (!req.installation?.connected) return null;
+  try {
+    return indexPropertyOptions(await fetchCustomProperties(req.instanceId!));
+  } catch {
+    return null;
+  }
+}
+
+/** `null` when a version comment is acceptable, else the 400 message */
+function commentError(comment: unknown): string | null {
+  if (comment === undefined) return null;
+  if (typeof comment !== 'string') return 'comment must be a string';
+  if (comment.length > MAX_VERSION_COMMENT_LENGTH) {
+    return `comment must be at most ${MAX_VERSION_COMMENT_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Module 18 — records the rules as they now stand. The save has already
+ * happened, so a failure here is logged rather than failing the request.
+ */
+async function recordVersion(req: Request, comment: string): Promise<void> {
+  try {
+    await recordMappingVersion(req.instanceId!, { author: req.userId, comment });
+  } catch (err) {
+    logger.error('Record field mapping version error', {
+      instanceId: req.instanceId,
+      error: (err as Error).message,
+    });
+  }
+}
+
+/** `null` when a mapping may create its HubSpot property, else the 400 message */
+function newPropertyError(req: Request, hubspotField: unknown, createProperty: unknown): string | null {
+  if (!req.installation?.connected) return 'HubSpot not connected';
+  if (typeof createProperty !== 'object' || createProperty === null || Array.isArray(createProperty)) {
+    return 'createProperty must be an object';
+  }
+  const { label } = createProperty as { label?: unknown };
+  if (label !== undefined && (typeof label !== 'string' || label.length > MAX_PROPERTY_LABEL_LENGTH)) {
+    return `createProperty.label must be a string of at most ${MAX_PROPERTY_LABEL_LENGTH} characters`;
+  }
+  if (!isValidPropertyName(hubspotField)) {
+    return 'hubspotField must start with a letter and contain only lowercase letters, digits and underscores';
+  }
+  return null;
+}
+
+/** Undoes a property created for a rule that was then not saved; failures are logged */
+async function archiveNewProperty(req: Request, propertyName: string): Promise<void> {
+  try {
+    await archiveCustomProperty(req.instanceId!, propertyName);
+  } catch (err) {
+    logger.error('Archive new HubSpot property error', {
+      instanceId: req.instanceId,
+      propertyName,
+      error: (err as Error).message,
+    });
+  }
+}
+
+/** Positive integer version number from a route or query parameter */
+function parseVersion(value: unknown): number | null {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
 /* ── List mappings (uses Module 6 cached loader) ── */
 router.get('/', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -33,35 +129,114 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
 /* ── Create mapping (with Module 6 validation) ── */
 router.post('/', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { wixField, hubspotField, direction, transform } = req.body;
-    if (!wixField || !hubspotField) {
+    const {
+      wixField,
+      hubspotField,
+      direction,
+      transform,
+      transforms,
+      optionMap,
+      optionFallback,
+      composite,
+      conflictStrategy,
+      comment,
+      createProperty,
+    } = req.body;
+    if ((!wixField && !composite) || !hubspotField) {
       res.status(400).json({ error: 'wixField and hubspotField are required' });
       return;
     }
+    const badComment = commentError(comment);
+    if (badComment) {
+      res.status(400).json({ error: badComment });
+      return;
+    }
+    if (createProperty !== undefined) {
+      const badProperty = newPropertyError(req, hubspotField, createProperty);
+      if (badProperty) {
+        res.status(400).json({ error: badProperty });
+        return;
+      }
+    }
 
     // Module 6 — validate the single rule
-    const errors = validateRules(
-      [{ wixField, hubspotField, direction: direction || 'bidirectional', transform }],
+    const wixFieldKeys = req.installation ? await loadWixExtendedFieldKeys(req.installation) : null;
+    const findings = validateRules(
+      [
+        {
+          wixField,
+          hubspotField,
+          direction: direction || 'bidirectional',
+          transform,
+          transforms,
+          optionMap,
+          optionFallback,
+          composite,
+          conflictStrategy,
+        },
+      ],
+      null,
+      wixFieldKeys,
+      await loadHubSpotOptions(req),
     );
+    const errors = findings.filter((f) => !isValidationWarning(f));
     if (errors.length > 0) {
       res.status(400).json({ error: 'Validation failed', details: errors });
       return;
     }
 
-    const mapping = await FieldMapping.create({
-      instanceId: req.instanceId!,
-      wixField,
-      hubspotField,
-      direction: direction || 'bidirectional',
-      transform: transform || 'none',
-      isDefault: false,
-      isActive: true,
-    });
+    // Module 2-C — the property first, so the rule never points at nothing
+    let property: CreatePropertyInput | null = null;
+    if (createProperty !== undefined) {
+      const registry = composite ? [] : await loadWixFieldRegistry(req.installation!);
+      const source = registry.find((f) => f.value === wixField);
+      // A label property offers the site's labels — HubSpot rejects values
+      // a multi-select has no option for
+      const options = source?.value === LABEL_FIELD ? await listSyncedLabelNames(req.installation!) : [];
+      property = await createMappedProperty(
+        req.instanceId!,
+        source,
+        hubspotField,
+        createProperty.label?.trim() || source?.label || hubspotField,
+        options,
+      );
+      if (!property) {
+        res.status(409).json({ error: `HubSpot property "${hubspotField}" already exists` });
+        return;
+      }
+    }
+
+    let mapping;
+    try {
+      mapping = await FieldMapping.create({
+        instanceId: req.instanceId!,
+        wixField: composite ? compositeWixField(composite) : wixField,
+        hubspotField,
+        direction: direction || 'bidirectional',
+        transform: transform || 'none',
+        transforms: transforms ?? [],
+        optionMap: optionMap ?? [],
+        optionFallback: optionFallback || undefined,
+        composite,
+        conflictStrategy: conflictStrategy || 'newest_wins',
+        isDefault: false,
+        isActive: true,
+      });
+    } catch (err) {
+      // The rule could not be saved, so the property created for it goes too
+      if (property) await archiveNewProperty(req, property.name);
+      throw err;
+    }
 
     // Invalidate cached rules
     invalidateRulesCache(req.instanceId!);
+    await recordVersion(req, comment || `Added ${mapping.wixField} → ${mapping.hubspotField}`);
 
-    res.status(201).json({ mapping });
+    res.status(201).json({
+      mapping,
+      warnings: findings.filter(isValidationWarning),
+      ...(property ? { property } : {}),
+    });
   } catch (err) {
     if ((err as any).code === 11000) {
       res.status(409).json({ error: 'This field mapping already exists' });
@@ -75,10 +250,75 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
 /* ── Update mapping ── */
 router.put('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { direction, transform, isActive } = req.body;
+    const {
+      direction,
+      transform,
+      transforms,
+      optionMap,
+      optionFallback,
+      composite,
+      conflictStrategy,
+      isActive,
+      comment,
+    } = req.body;
+    if (conflictStrategy !== undefined && !isValidConflictStrategy(conflictStrategy)) {
+      res.status(400).json({ error: `Unknown conflict strategy: "${conflictStrategy}"` });
+      return;
+    }
+    const badComment = commentError(comment);
+    if (badComment) {
+      res.status(400).json({ error: badComment });
+      return;
+    }
+    let warnings: ValidationError[] = [];
+    if (
+      transforms !== undefined ||
+      optionMap !== undefined ||
+      optionFallback !== undefined ||
+      composite !== undefined
+    ) {
+      // Value maps, fallbacks and splits depend on the direction, so validate against the rule as updated
+      const existing = await FieldMapping.findOne({ _id: req.params.id, instanceId: req.instanceId! });
+      if (!existing) {
+        res.status(404).json({ error: 'Mapping not found' });
+        return;
+      }
+      const findings = validateRules(
+        [
+          {
+            wixField: existing.wixField,
+            hubspotField: existing.hubspotField,
+            direction: direction ?? existing.direction,
+            transforms: transforms ?? existing.transforms,
+            optionMap: optionMap ?? existing.optionMap,
+            optionFallback: optionFallback ?? existing.optionFallback,
+            composite: composite ?? existing.composite,
+          },
+        ],
+        null,
+        req.installation ? await loadWixExtendedFieldKeys(req.installation) : null,
+        await loadHubSpotOptions(req),
+      );
+      const errors = findings.filter((f) => !isValidationWarning(f));
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Validation failed', details: errors });
+        return;
+      }
+      warnings = findings.filter(isValidationWarning);
+    }
     const mapping = await FieldMapping.findOneAndUpdate(
       { _id: req.params.id, instanceId: req.instanceId! },
-      { direction, transform, isActive },
+      {
+        direction,
+        transform,
+        transforms,
+        optionMap,
+        optionFallback,
+        // A composite rule's wixField names its fields, so it follows them
+        ...(composite ? { composite, wixField: compositeWixField(composite) } : {}),
+        conflictStrategy,
+        isActive,
+      },
       { new: true },
     );
     if (!mapping) {
@@ -87,7 +327,8 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
     }
     // Invalidate cached rules
     invalidateRulesCache(req.instanceId!);
-    res.json({ mapping });
+    await recordVersion(req, comment || `Updated ${mapping.wixField} → ${mapping.hubspotField}`);
+    res.json({ mapping, warnings });
   } catch (err) {
     logger.error('Update field mapping error', { error: (err as Error).message });
     res.status(500).json({ error: 'Failed to update mapping' });
@@ -108,13 +349,14 @@ router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
     }
     if (isUndeletableDefault(existing.wixField, existing.hubspotField)) {
       res.status(403).json({
-        error: 'This default mapping cannot be deleted. You can only change its direction or transform.',
+        error: 'This default mapping cannot be deleted. You can only change its direction, transform or conflict strategy.',
       });
       return;
     }
 
     await existing.deleteOne();
     invalidateRulesCache(req.instanceId!);
+    await recordVersion(req, `Removed ${existing.wixField} → ${existing.hubspotField}`);
     res.json({ ok: true });
   } catch (err) {
     logger.error('Delete field mapping error', { error: (err as Error).message });
@@ -130,6 +372,7 @@ router.post('/reset', async (req: Request, res: Response): Promise<void> => {
     // Ensure the 4 undeletable defaults exist
     await seedDefaultMappings(req.instanceId!);
     invalidateRulesCache(req.instanceId!);
+    await recordVersion(req, 'Reset to defaults');
     const mappings = await loadMappingRules(req.instanceId!, true);
     res.json({ mappings, message: 'Reset to defaults' });
   } catch (err) {
@@ -153,9 +396,18 @@ router.get('/hubspot-properties', async (req: Request, res: Response): Promise<v
   }
 });
 
-/* ── Available Wix contact fields (Module 6 registry) ── */
-router.get('/wix-fields', (_req: Request, res: Response): void => {
-  res.json({ fields: getWixFieldRegistry() });
+/* ── Available Wix contact fields (Module 6 registry + custom fields) ── */
+router.get('/wix-fields', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    res.json({ fields: await loadWixFieldRegistry(req.installation) });
+  } catch (err) {
+    logger.error('List Wix fields error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch Wix fields' });
+  }
 });
 
 /* ── Bulk save — validate & replace all custom rules at once ── */
@@ -166,36 +418,175 @@ router.post('/bulk', async (req: Request, res: Response): Promise<void> => {
       hubspotField: string;
       direction: string;
       transform: string;
+      transforms?: TransformStep[];
+      optionMap?: OptionMapEntry[];
+      optionFallback?: string;
+      composite?: CompositeMapping;
+      conflictStrategy?: string;
     }> = req.body.rules;
 
     if (!Array.isArray(rules)) {
       res.status(400).json({ error: 'rules[] array is required' });
       return;
     }
+    const { comment } = req.body;
+    const badComment = commentError(comment);
+    if (badComment) {
+      res.status(400).json({ error: badComment });
+      return;
+    }
 
     // Optionally validate against real HubSpot properties
     let hsPropertyNames: Set<string> | null = null;
+    let hsOptions: Map<string, string[]> | null = null;
     if (req.installation?.connected) {
       const hsProps = await fetchCustomProperties(req.instanceId!);
       hsPropertyNames = new Set(hsProps.map((p) => p.value));
+      hsOptions = indexPropertyOptions(hsProps);
     }
 
+    const wixFieldKeys = req.installation ? await loadWixExtendedFieldKeys(req.installation) : null;
+
     const result = await saveMappingRules(
       req.instanceId!,
       rules as any,
       hsPropertyNames,
+      wixFieldKeys,
+      hsOptions,
     );
 
     if (!result.ok) {
       res.status(400).json({ error: 'Validation failed', details: result.errors });
       return;
     }
+    await recordVersion(req, comment || `Saved ${rules.length} mapping${rules.length !== 1 ? 's' : ''}`);
 
-    res.json({ mappings: result.rules });
+    res.json({ mappings: result.rules, warnings: result.warnings ?? [] });
   } catch (err) {
     logger.error('Bulk save field mappings error', { error: (err as Error).message });
     res.status(500).json({ error: 'Failed to save mappings' });
   }
 });
 
+/* ── Live preview — map one synced contact with draft rules (writes nothing) ── */
+router.post('/preview', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation?.connected) {
+      res.status(400).json({ error: 'HubSpot not connected' });
+      return;
+    }
+    const { wixContactId, rules: draft } = req.body ?? {};
+    if (typeof wixContactId !== 'string' || !wixContactId) {
+      res.status(400).json({ error: 'wixContactId is required' });
+      return;
+    }
+
+    let rules: IFieldMapping[];
+    if (draft === undefined) {
+      rules = await loadMappingRules(req.instanceId!);
+    } else {
+      if (!Array.isArray(draft)) {
+        res.status(400).json({ error: 'rules must be an array' });
+        return;
+      }
+      const errors = validateRules(draft, null, await loadWixExtendedFieldKeys(req.installation)).filter(
+        (e) => !isValidationWarning(e),
+      );
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Validation failed', details: errors });
+        return;
+      }
+      // Unsaved documents, so schema defaults apply exactly as on save
+      rules = draft.map((r: Record<string, unknown>) => new FieldMapping({ ...r, instanceId: req.instanceId }));
+    }
+
+    const preview = await previewContactMapping(req.installation, wixContactId, rules);
+    if (!preview) {
+      res.status(404).json({ error: 'Synced contact not found' });
+      return;
+    }
+    res.json({ preview });
+  } catch (err) {
+    logger.error('Field mapping preview error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to preview mappings' });
+  }
+});
+
+/* ── Version history (Module 18) ── */
+router.get('/versions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+    res.json(await listMappingVersions(req.instanceId!, page, limit));
+  } catch (err) {
+    logger.error('List field mapping versions error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch mapping versions' });
+  }
+});
+
+/* ── Diff two versions ── */
+router.get('/versions/diff', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const from = parseVersion(req.query.from);
+    const to = parseVersion(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ error: 'from and to must be version numbers' });
+      return;
+    }
+    const [older, newer] = await Promise.all([
+      getMappingVersion(req.instanceId!, from),
+      getMappingVersion(req.instanceId!, to),
+    ]);
+    if (!older || !newer) {
+      res.status(404).json({ error: `Version ${older ? to : from} not found` });
+      return;
+    }
+    res.json({ from, to, diff: diffMappingVersions(older.rules, newer.rules) });
+  } catch (err) {
+    logger.error('Diff field mapping versions error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to diff mapping versions' });
+  }
+});
+
+/* ── One version with its rules ── */
+router.get('/versions/:version', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const number = parseVersion(req.params.version);
+    const version = number === null ? null : await getMappingVersion(req.instanceId!, number);
+    if (!version) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    res.json({ version });
+  } catch (err) {
+    logger.error('Get field mapping version error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch mapping version' });
+  }
+});
+
+/* ── Roll back to a version (recorded as a new version) ── */
+router.post('/versions/:version/rollback', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const number = parseVersion(req.params.version);
+    const { comment } = req.body ?? {};
+    const badComment = commentError(comment);
+    if (badComment) {
+      res.status(400).json({ error: badComment });
+      return;
+    }
+    const result =
+      number === null
+        ? null
+        : await rollbackToVersion(req.instanceId!, number, { author: req.userId, comment });
+    if (!result) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    res.json({ mappings: result.rules, version: result.version });
+  } catch (err) {
+    logger.error('Roll back field mappings error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to roll back mappings' });
+  }
+});
+
 export default router;
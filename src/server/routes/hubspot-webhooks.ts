@@ -4,18 +4,20 @@
 // POST /api/webhooks/hubspot
 //
 // Receives contact-change events from HubSpot, validates the HMAC-SHA256
-// signature, parses each event through a Zod schema, and routes valid events
-// to the Module 7 sync orchestrator.
+// signature, parses each event through a Zod schema, and enqueues valid
+// events on the Module 13 durable job queue. The job worker then runs the
+// Module 7 sync orchestrator.
 //
 // Key design decisions:
 //   • Signature verification uses `crypto.timingSafeEqual` to prevent timing
 //     attacks. The signature value itself is NEVER logged.
 //   • Events are validated individually via Zod. Malformed ones are dropped
 //     with a warning log — one bad event does not crash the batch.
-//   • All valid events are processed concurrently with `Promise.allSettled`
+//   • All valid events are enqueued concurrently with `Promise.allSettled`
 //     so one failure does not block others.
-//   • The 200 response is returned BEFORE processing begins. HubSpot expects
-//     a fast response and will retry if we are slow.
+//   • The 200 response is returned only AFTER every event is persisted.
+//     Enqueueing is a single insert, so this stays fast; if any insert
+//     fails we answer 500 and HubSpot redelivers the batch.
 // =============================================================================
 
 import { Router, Request, Response } from 'express';
@@ -23,10 +25,7 @@ import crypto from 'crypto';
 import { z } from 'zod';
 import config from '../config';
 import Installation from '../models/Installation';
-import { handleHubSpotWebhook } from '../services/syncOrchestrator';
-import { deleteMapping } from '../services/mappingStore';
-import { isSyncEcho, extractSyncId } from '../services/dedupeGuard';
-import { getContactById } from '../services/hubspotContacts';
+import { enqueueSyncJob } from '../services/jobQueue';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -35,9 +34,12 @@ const router = Router();
 // Zod schema — validates a single HubSpot webhook event
 // ─────────────────────────────────────────────────────────────────────────────
 
+const HubSpotObjectId = z.number({ coerce: true }).int().positive();
+
 const HubSpotWebhookEventSchema = z.object({
   subscriptionType: z.string().min(1),
-  objectId: z.number({ coerce: true }).int().positive(),
+  // Absent on associationChange events, which carry from/to IDs instead
+  objectId: HubSpotObjectId.optional(),
   portalId: z.number({ coerce: true }).int().positive(),
   appId: z.number({ coerce: true }).optional(),
   attemptNumber: z.number().optional(),
@@ -48,6 +50,18 @@ const HubSpotWebhookEventSchema = z.object({
   propertyValue: z.string().optional(),
   changeSource: z.string().optional(),
   sourceId: z.string().optional(),
+  // contact.merge
+  primaryObjectId: HubSpotObjectId.optional(),
+  mergedObjectIds: z.array(HubSpotObjectId).optional(),
+  newObjectId: HubSpotObjectId.optional(),
+  // contact.associationChange
+  associationType: z.string().optional(),
+  fromObjectId: HubSpotObjectId.optional(),
+  toObjectId: HubSpotObjectId.optional(),
+  associationRemoved: z.boolean().optional(),
+}).refine((e) => e.objectId !== undefined || e.fromObjectId !== undefined, {
+  message: 'objectId or fromObjectId is required',
+  path: ['objectId'],
 });
 
 type ValidatedEvent = z.infer<typeof HubSpotWebhookEventSchema>;
@@ -90,28 +104,13 @@ function verifySignature(
   return crypto.timingSafeEqual(sigBuf, expBuf);
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Properties we fetch for every contact involved in a webhook
-// ─────────────────────────────────────────────────────────────────────────────
-
-const CONTACT_PROPERTIES: readonly string[] = [
-  'firstname',
-  'lastname',
-  'email',
-  'phone',
-  'company',
-  'jobtitle',
-  'wix_sync_tag',
-  'hs_lastmodifieddate',
-];
-
 // ─────────────────────────────────────────────────────────────────────────────
 // Process a single validated event
 // ─────────────────────────────────────────────────────────────────────────────
 
 async function processEvent(event: ValidatedEvent): Promise<void> {
   const portalId = String(event.portalId);
-  const objectId = String(event.objectId);
+  const objectId = String(event.objectId ?? event.fromObjectId);
   const subscriptionType = event.subscriptionType;
 
   // Look up installation by HubSpot portal ID
@@ -129,36 +128,13 @@ async function processEvent(event: ValidatedEvent): Promise<void> {
   switch (subscriptionType) {
     // ─── Contact Created ──────────────────────────────────────────────
     case 'contact.creation': {
-      const fullContact = await getContactById(instanceId, objectId, [
-        ...CONTACT_PROPERTIES,
-      ]);
-
-      if (!fullContact) {
-        logger.warn('HubSpot webhook: contact not found after creation event', {
-          instanceId,
-          hubspotContactId: objectId,
-        });
-        return;
-      }
-
-      // Module 5 — Dedupe guard: is this our own echo?
-      const syncId = extractSyncId(fullContact, 'hubspot');
-      if (await isSyncEcho(syncId)) {
-        logger.debug('HubSpot creation webhook is our own echo — skipping', {
-          instanceId,
-          hubspotContactId: objectId,
-          syncId: syncId?.slice(0, 8),
-        });
-        return;
-      }
-
-      await handleHubSpotWebhook(
-        installation,
-        objectId,
-        fullContact.properties,
-        'created',
-        'hubspot_webhook',
-      );
+      // Module 13 — the worker fetches the contact and runs the dedupe guard
+      await enqueueSyncJob({
+        instanceId,
+        type: 'hubspot_contact_created',
+        contactId: objectId,
+        source: 'hubspot_webhook',
+      });
       break;
     }
 
@@ -173,45 +149,64 @@ async function processEvent(event: ValidatedEvent): Promise<void> {
         return;
       }
 
-      const fullContact = await getContactById(instanceId, objectId, [
-        ...CONTACT_PROPERTIES,
-      ]);
+      await enqueueSyncJob({
+        instanceId,
+        type: 'hubspot_contact_updated',
+        contactId: objectId,
+        source: 'hubspot_webhook',
+      });
+      break;
+    }
 
-      if (!fullContact) {
-        logger.warn('HubSpot webhook: contact not found after property change', {
-          instanceId,
-          hubspotContactId: objectId,
-        });
-        return;
-      }
+    // ─── Contact Deleted ──────────────────────────────────────────────
+    case 'contact.deletion': {
+      // The worker applies the installation's deletion policy (Scenario 6)
+      await enqueueSyncJob({
+        instanceId,
+        type: 'hubspot_contact_deleted',
+        contactId: objectId,
+        source: 'hubspot_webhook',
+      });
+      break;
+    }
+
+    // ─── Contacts Merged ──────────────────────────────────────────────
+    case 'contact.merge': {
+      // HubSpot may give the merged record a new ID; otherwise the
+      // primary survives. Every other ID named in the event is gone.
+      const survivingId = String(event.newObjectId ?? event.primaryObjectId ?? event.objectId);
+      const mergedIds = [event.primaryObjectId, ...(event.mergedObjectIds ?? []), event.objectId]
+        .filter((id): id is number => id !== undefined)
+        .map(String)
+        .filter((id, i, all) => id !== survivingId && all.indexOf(id) === i);
+
+      // The worker repoints the mapping and reconciles Wix (Scenario 7)
+      await enqueueSyncJob({
+        instanceId,
+        type: 'hubspot_contact_merged',
+        contactId: survivingId,
+        payload: { mergedIds },
+        source: 'hubspot_webhook',
+      });
+      break;
+    }
 
-      // Module 5 — Dedupe guard
-      const syncId = extractSyncId(fullContact, 'hubspot');
-      if (await isSyncEcho(syncId)) {
-        logger.debug('HubSpot property-change webhook is our own echo — skipping', {
+    // ─── Contact Association Changed ──────────────────────────────────
+    case 'contact.associationChange': {
+      // CONTACT_TO_COMPANY etc. — the contact is on the "from" side
+      if (!event.associationType?.startsWith('CONTACT_TO_') || event.fromObjectId === undefined) {
+        logger.debug('Skipping association change not owned by a contact', {
           instanceId,
-          hubspotContactId: objectId,
-          syncId: syncId?.slice(0, 8),
+          associationType: event.associationType,
         });
         return;
       }
 
-      await handleHubSpotWebhook(
-        installation,
-        objectId,
-        fullContact.properties,
-        'updated',
-        'hubspot_webhook',
-      );
-      break;
-    }
-
-    // ─── Contact Deleted ──────────────────────────────────────────────
-    case 'contact.deletion': {
-      await deleteMapping(instanceId, undefined, objectId);
-      logger.info('HubSpot contact deleted, mapping removed', {
+      await enqueueSyncJob({
         instanceId,
-        hubspotContactId: objectId,
+        type: 'hubspot_contact_updated',
+        contactId: String(event.fromObjectId),
+        source: 'hubspot_webhook',
       });
       break;
     }
@@ -226,12 +221,8 @@ async function processEvent(event: ValidatedEvent): Promise<void> {
 // ─────────────────────────────────────────────────────────────────────────────
 
 router.post('/', async (req: Request, res: Response): Promise<void> => {
-  // ── Step 1: Respond immediately ────────────────────────────────────
-  // HubSpot expects a 2xx within a few seconds; processing happens after.
-  res.status(200).json({ received: true });
-
   try {
-    // ── Step 2: Verify HMAC-SHA256 signature ─────────────────────────
+    // ── Step 1: Verify HMAC-SHA256 signature ─────────────────────────
     const signature = req.headers['x-hubspot-signature'] as string | undefined;
     // Use the raw body buffer stashed by the express.json verify callback
     const rawBody: Buffer | string =
@@ -243,6 +234,7 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
         logger.warn('Invalid HubSpot webhook signature — request rejected', {
           ip: req.ip,
         });
+        res.status(401).json({ error: 'Invalid signature' });
         return;
       }
       logger.debug(
@@ -250,12 +242,12 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       );
     }
 
-    // ── Step 3: Parse the array of events ────────────────────────────
+    // ── Step 2: Parse the array of events ────────────────────────────
     const rawEvents: unknown[] = Array.isArray(req.body)
       ? req.body
       : [req.body];
 
-    // ── Step 4: Validate each event with Zod ─────────────────────────
+    // ── Step 3: Validate each event with Zod ─────────────────────────
     const validEvents: ValidatedEvent[] = [];
 
     for (let i = 0; i < rawEvents.length; i++) {
@@ -275,22 +267,24 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
 
     if (validEvents.length === 0) {
       logger.debug('No valid HubSpot webhook events after Zod validation');
+      res.status(200).json({ received: true });
       return;
     }
 
-    // ── Step 5: Process all events concurrently ──────────────────────
+    // ── Step 4: Enqueue all events concurrently ──────────────────────
     const results = await Promise.allSettled(
       validEvents.map((event) => processEvent(event)),
     );
 
-    // Log any failures (successes are logged inside the orchestrator)
+    let failed = 0;
     for (let i = 0; i < results.length; i++) {
       const result = results[i];
       if (result.status === 'rejected') {
+        failed++;
         const event = validEvents[i];
-        logger.error('HubSpot webhook event processing failed', {
+        logger.error('HubSpot webhook event could not be queued', {
           subscriptionType: event.subscriptionType,
-          objectId: event.objectId,
+          objectId: event.objectId ?? event.fromObjectId,
           portalId: event.portalId,
           error:
             (result.reason as Error)?.message ?? String(result.reason),
@@ -298,16 +292,23 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       }
     }
 
-    logger.debug('HubSpot webhook batch processed', {
+    logger.debug('HubSpot webhook batch queued', {
       total: rawEvents.length,
       valid: validEvents.length,
-      succeeded: results.filter((r) => r.status === 'fulfilled').length,
-      failed: results.filter((r) => r.status === 'rejected').length,
+      failed,
     });
+
+    // ── Step 5: Acknowledge — or ask HubSpot to redeliver ────────────
+    if (failed > 0) {
+      res.status(500).json({ error: 'Failed to queue some events' });
+      return;
+    }
+    res.status(200).json({ received: true });
   } catch (err) {
     logger.error('HubSpot webhook top-level error', {
       error: (err as Error).message,
     });
+    res.status(500).json({ error: 'Webhook processing failed' });
   }
 });
 
@@ -0,0 +1,90 @@
+// =============================================================================
+// Sync Filter Routes — Module 20: rules that keep new contacts out of sync
+// =============================================================================
+//   GET    /      — the installation's filters, in evaluation order
+//   POST   /      — create a filter
+//   PUT    /:id   — replace a filter
+//   DELETE /:id   — remove a filter
+//
+// Filter bodies: { name, side?, conditions[], isActive?, order? } — see
+// validateSyncFilter for the accepted conditions.
+// =============================================================================
+import { Router, Request, Response } from 'express';
+import SyncFilter from '../models/SyncFilter';
+import { validateSyncFilter, invalidateSyncFiltersCache } from '../services/syncFilters';
+import authMiddleware from '../utils/authMiddleware';
+import logger from '../utils/logger';
+
+const router = Router();
+router.use(authMiddleware);
+
+/* ── List filters ── */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const filters = await SyncFilter.find({ instanceId: req.instanceId! }).sort({ order: 1, createdAt: 1 });
+    res.json({ filters });
+  } catch (err) {
+    logger.error('List sync filters error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch sync filters' });
+  }
+});
+
+/* ── Create filter ── */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { filter, errors } = validateSyncFilter(req.body);
+    if (!filter) {
+      res.status(400).json({ error: 'Validation failed', details: errors });
+      return;
+    }
+    const created = await SyncFilter.create({ ...filter, instanceId: req.instanceId! });
+    invalidateSyncFiltersCache(req.instanceId!);
+    res.status(201).json({ filter: created });
+  } catch (err) {
+    logger.error('Create sync filter error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to create sync filter' });
+  }
+});
+
+/* ── Replace filter ── */
+router.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { filter, errors } = validateSyncFilter(req.body);
+    if (!filter) {
+      res.status(400).json({ error: 'Validation failed', details: errors });
+      return;
+    }
+    const updated = await SyncFilter.findOneAndUpdate(
+      { _id: req.params.id, instanceId: req.instanceId! },
+      filter,
+      { new: true },
+    );
+    if (!updated) {
+      res.status(404).json({ error: 'Sync filter not found' });
+      return;
+    }
+    invalidateSyncFiltersCache(req.instanceId!);
+    res.json({ filter: updated });
+  } catch (err) {
+    logger.error('Update sync filter error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to update sync filter' });
+  }
+});
+
+/* ── Delete filter ── */
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await SyncFilter.findOneAndDelete({ _id: req.params.id, instanceId: req.instanceId! });
+    if (!deleted) {
+      res.status(404).json({ error: 'Sync filter not found' });
+      return;
+    }
+    invalidateSyncFiltersCache(req.instanceId!);
+    res.json({ ok: true });
+  } catch (err) {
+    logger.error('Delete sync filter error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to delete sync filter' });
+  }
+});
+
+export default router;
@@ -3,17 +3,42 @@
 // =============================================================================
 import { Router, Request, Response } from 'express';
 import authMiddleware from '../utils/authMiddleware';
-import { runFullSync } from '../services/syncOrchestrator';
+import {
+  runFullSync,
+  pauseFullSync,
+  resumeFullSync,
+  cancelFullSync,
+  getLatestSyncRun,
+} from '../services/syncOrchestrator';
 import SyncEvent from '../models/SyncEvent';
+import FieldMapping, { IFieldMapping } from '../models/FieldMapping';
 import ContactMapping from '../models/ContactMapping';
 import { countMappings } from '../services/mappingStore';
 import { batchReadContacts } from '../services/hubspotContacts';
 import { withRetry } from '../services/hubspotClient';
+import { getQuotaUsage } from '../services/hubspotRateLimiter';
+import { getQueueStats, listDeadJobs, retryDeadJob } from '../services/jobQueue';
+import {
+  triggerDeltaSync,
+  isDeltaSyncRunning,
+  isDeltaSyncSchedulerRunning,
+} from '../services/deltaSyncScheduler';
+import { createCustomProperty, WIX_DELETED_PROPERTY } from '../services/hubspotProperties';
+import { listDealPipelines } from '../services/hubspotDeals';
+import { enableLabelProperty } from '../services/labelSync';
+import { isSupportedPhoneRegion, SUPPORTED_PHONE_REGIONS } from '../utils/phoneNumbers';
+import { validateRules, loadWixExtendedFieldKeys } from '../services/fieldMappingEngine';
 import logger from '../utils/logger';
+import { CompanyMatchBy, HubSpotDeletionAction, LabelSyncMode, WixDeletionAction } from '../types';
 
 const router = Router();
 router.use(authMiddleware);
 
+const WIX_DELETION_ACTIONS: WixDeletionAction[] = ['ignore', 'mirror_delete', 'flag_hubspot_property'];
+const HUBSPOT_DELETION_ACTIONS: HubSpotDeletionAction[] = ['ignore', 'mirror_delete', 'archive_wix_label'];
+const COMPANY_MATCH_MODES: CompanyMatchBy[] = ['domain', 'name'];
+const LABEL_SYNC_MODES: LabelSyncMode[] = ['off', 'property', 'lists'];
+
 /* ── Trigger full sync ── */
 router.post('/full', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -22,6 +47,10 @@ router.post('/full', async (req: Request, res: Response): Promise<void> => {
       return;
     }
     const result = await runFullSync(req.installation);
+    if (!result.runId) {
+      res.status(409).json({ error: 'A full sync is already running' });
+      return;
+    }
     res.json(result);
   } catch (err) {
     logger.error('Full sync error', { error: (err as Error).message });
@@ -29,6 +58,149 @@ router.post('/full', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/*
+ * ── Dry-run full sync ──
+ * Plans the full sync without writing anything and returns the diff report
+ * as a JSON download. Pass `rules` to preview an unsaved mapping change.
+ */
+router.post('/dry-run', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation?.connected) {
+      res.status(400).json({ error: 'HubSpot not connected' });
+      return;
+    }
+
+    let rules: IFieldMapping[] | undefined;
+    if (req.body?.rules !== undefined) {
+      if (!Array.isArray(req.body.rules)) {
+        res.status(400).json({ error: 'rules must be an array' });
+        return;
+      }
+      const errors = validateRules(
+        req.body.rules,
+        null,
+        await loadWixExtendedFieldKeys(req.installation),
+      );
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Validation failed', details: errors });
+        return;
+      }
+      // Unsaved documents, so schema defaults apply exactly as on save
+      rules = req.body.rules.map(
+        (r: Record<string, unknown>) => new FieldMapping({ ...r, instanceId: req.instanceId }),
+      );
+    }
+
+    const result = await runFullSync(req.installation, { dryRun: true, rules });
+    const stamp = result.report!.generatedAt.replace(/[:.]/g, '-');
+    res.setHeader('Content-Disposition', `attachment; filename="sync-dry-run-${stamp}.json"`);
+    res.json(result.report);
+  } catch (err) {
+    logger.error('Dry-run sync error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Dry run failed' });
+  }
+});
+
+/* ── Full sync progress (latest checkpointed run) ── */
+router.get('/run', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const run = await getLatestSyncRun(req.instanceId!);
+    res.json({ run });
+  } catch (err) {
+    logger.error('Sync run fetch error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch sync run' });
+  }
+});
+
+/* ── Pause the running full sync at its next checkpoint ── */
+router.post('/pause', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const run = await pauseFullSync(req.instanceId!);
+    if (!run) {
+      res.status(409).json({ error: 'No full sync is running' });
+      return;
+    }
+    res.json({ run });
+  } catch (err) {
+    logger.error('Pause sync error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to pause sync' });
+  }
+});
+
+/* ── Resume a paused or failed full sync (runs in the background) ── */
+router.post('/resume', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation?.connected) {
+      res.status(400).json({ error: 'HubSpot not connected' });
+      return;
+    }
+    const run = await resumeFullSync(req.installation);
+    if (!run) {
+      res.status(409).json({ error: 'No paused or failed full sync to resume' });
+      return;
+    }
+    res.status(202).json({ run });
+  } catch (err) {
+    logger.error('Resume sync error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to resume sync' });
+  }
+});
+
+/* ── Cancel the unfinished full sync ── */
+router.post('/cancel', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const run = await cancelFullSync(req.instanceId!);
+    if (!run) {
+      res.status(409).json({ error: 'No full sync to cancel' });
+      return;
+    }
+    res.json({ run });
+  } catch (err) {
+    logger.error('Cancel sync error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to cancel sync' });
+  }
+});
+
+/* ── Trigger delta sync (only contacts changed since the last run) ── */
+router.post('/delta', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation?.connected) {
+      res.status(400).json({ error: 'HubSpot not connected' });
+      return;
+    }
+    const result = await triggerDeltaSync(req.installation);
+    if (!result) {
+      res.status(409).json({ error: 'A delta sync is already running' });
+      return;
+    }
+    res.json(result);
+  } catch (err) {
+    logger.error('Delta sync error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Sync failed' });
+  }
+});
+
+/* ── Delta sync cursors & scheduler state ── */
+router.get('/delta', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    res.json({
+      cursors: {
+        wixUpdatedAfter: req.installation.syncCursors?.wixUpdatedAfter ?? null,
+        hubspotModifiedAfter: req.installation.syncCursors?.hubspotModifiedAfter ?? null,
+      },
+      running: isDeltaSyncRunning(req.installation.instanceId),
+      schedulerRunning: isDeltaSyncSchedulerRunning(),
+    });
+  } catch (err) {
+    logger.error('Delta sync status error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch delta sync status' });
+  }
+});
+
 /* ── Toggle sync on/off ── */
 router.post('/toggle', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -45,6 +217,270 @@ router.post('/toggle', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/* ── Deletion policy — how deletes propagate between systems ── */
+router.get('/deletion-policy', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    res.json({
+      onWixDelete: req.installation.deletionPolicy?.onWixDelete ?? 'ignore',
+      onHubSpotDelete: req.installation.deletionPolicy?.onHubSpotDelete ?? 'ignore',
+    });
+  } catch (err) {
+    logger.error('Deletion policy fetch error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch deletion policy' });
+  }
+});
+
+router.put('/deletion-policy', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const installation = req.installation;
+    if (!installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+
+    const { onWixDelete, onHubSpotDelete } = req.body as {
+      onWixDelete?: WixDeletionAction;
+      onHubSpotDelete?: HubSpotDeletionAction;
+    };
+    if (!onWixDelete || !WIX_DELETION_ACTIONS.includes(onWixDelete)) {
+      res.status(400).json({ error: `onWixDelete must be one of: ${WIX_DELETION_ACTIONS.join(', ')}` });
+      return;
+    }
+    if (!onHubSpotDelete || !HUBSPOT_DELETION_ACTIONS.includes(onHubSpotDelete)) {
+      res.status(400).json({ error: `onHubSpotDelete must be one of: ${HUBSPOT_DELETION_ACTIONS.join(', ')}` });
+      return;
+    }
+
+    // The flag property must exist before we can write it
+    if (onWixDelete === 'flag_hubspot_property') {
+      if (!installation.connected) {
+        res.status(400).json({ error: 'HubSpot not connected' });
+        return;
+      }
+      await createCustomProperty(installation.instanceId, WIX_DELETED_PROPERTY);
+    }
+
+    installation.deletionPolicy = { onWixDelete, onHubSpotDelete };
+    await installation.save();
+
+    res.json(installation.deletionPolicy);
+  } catch (err) {
+    logger.error('Deletion policy save error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to save deletion policy' });
+  }
+});
+
+/* ── Company sync settings ── */
+router.get('/company-sync', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    res.json({
+      enabled: req.installation.companySync?.enabled ?? false,
+      matchBy: req.installation.companySync?.matchBy ?? 'domain',
+    });
+  } catch (err) {
+    logger.error('Company sync settings fetch error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch company sync settings' });
+  }
+});
+
+router.put('/company-sync', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const installation = req.installation;
+    if (!installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+
+    const { enabled, matchBy } = req.body as { enabled?: boolean; matchBy?: CompanyMatchBy };
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be a boolean' });
+      return;
+    }
+    if (!matchBy || !COMPANY_MATCH_MODES.includes(matchBy)) {
+      res.status(400).json({ error: `matchBy must be one of: ${COMPANY_MATCH_MODES.join(', ')}` });
+      return;
+    }
+
+    installation.companySync = { enabled, matchBy };
+    await installation.save();
+
+    res.json(installation.companySync);
+  } catch (err) {
+    logger.error('Company sync settings save error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to save company sync settings' });
+  }
+});
+
+/* ── Order sync settings ── */
+router.get('/order-sync', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    res.json({
+      enabled: req.installation.orderSync?.enabled ?? false,
+      pipelineId: req.installation.orderSync?.pipelineId ?? '',
+      dealStage: req.installation.orderSync?.dealStage ?? '',
+    });
+  } catch (err) {
+    logger.error('Order sync settings fetch error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch order sync settings' });
+  }
+});
+
+/* ── Deal pipelines + stages for the order sync picker ── */
+router.get('/order-sync/pipelines', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation?.connected) {
+      res.status(400).json({ error: 'HubSpot not connected' });
+      return;
+    }
+    res.json(await listDealPipelines(req.instanceId!));
+  } catch (err) {
+    logger.error('Deal pipelines fetch error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch deal pipelines' });
+  }
+});
+
+router.put('/order-sync', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const installation = req.installation;
+    if (!installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+
+    const { enabled, pipelineId = '', dealStage = '' } = req.body as {
+      enabled?: boolean;
+      pipelineId?: string;
+      dealStage?: string;
+    };
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be a boolean' });
+      return;
+    }
+    if (typeof pipelineId !== 'string' || typeof dealStage !== 'string') {
+      res.status(400).json({ error: 'pipelineId and dealStage must be strings' });
+      return;
+    }
+
+    // Deals need somewhere to land — check the stage exists in the pipeline
+    if (enabled) {
+      if (!installation.connected) {
+        res.status(400).json({ error: 'HubSpot not connected' });
+        return;
+      }
+      const pipelines = await listDealPipelines(installation.instanceId);
+      const pipeline = pipelines.find((p) => p.id === pipelineId);
+      if (!pipeline || !pipeline.stages.some((s) => s.id === dealStage)) {
+        res.status(400).json({ error: 'dealStage must be a stage of the selected pipeline' });
+        return;
+      }
+    }
+
+    installation.orderSync = { enabled, pipelineId, dealStage };
+    await installation.save();
+
+    res.json(installation.orderSync);
+  } catch (err) {
+    logger.error('Order sync settings save error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to save order sync settings' });
+  }
+});
+
+/* ── Label sync settings ── */
+router.get('/label-sync', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    res.json({ mode: req.installation.labelSync?.mode ?? 'off' });
+  } catch (err) {
+    logger.error('Label sync settings fetch error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch label sync settings' });
+  }
+});
+
+router.put('/label-sync', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const installation = req.installation;
+    if (!installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+
+    const { mode } = req.body as { mode?: LabelSyncMode };
+    if (!mode || !LABEL_SYNC_MODES.includes(mode)) {
+      res.status(400).json({ error: `mode must be one of: ${LABEL_SYNC_MODES.join(', ')}` });
+      return;
+    }
+    if (mode !== 'off' && !installation.connected) {
+      res.status(400).json({ error: 'HubSpot not connected' });
+      return;
+    }
+
+    // Property mode needs the multi-select property and a labelIds rule
+    if (mode === 'property') await enableLabelProperty(installation);
+
+    installation.labelSync = { mode };
+    await installation.save();
+
+    res.json(installation.labelSync);
+  } catch (err) {
+    logger.error('Label sync settings save error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to save label sync settings' });
+  }
+});
+
+/* ── Default phone region ── */
+router.get('/phone-region', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+    res.json({ region: req.installation.phoneRegion ?? '', regions: SUPPORTED_PHONE_REGIONS });
+  } catch (err) {
+    logger.error('Phone region fetch error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch phone region' });
+  }
+});
+
+router.put('/phone-region', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const installation = req.installation;
+    if (!installation) {
+      res.status(404).json({ error: 'Installation not found' });
+      return;
+    }
+
+    // '' clears the default: each contact's address country is used instead
+    const { region } = req.body as { region?: string };
+    if (typeof region !== 'string' || (region !== '' && !isSupportedPhoneRegion(region))) {
+      res.status(400).json({ error: `region must be '' or one of: ${SUPPORTED_PHONE_REGIONS.join(', ')}` });
+      return;
+    }
+
+    installation.phoneRegion = region.toUpperCase();
+    await installation.save();
+
+    res.json({ region: installation.phoneRegion, regions: SUPPORTED_PHONE_REGIONS });
+  } catch (err) {
+    logger.error('Phone region save error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to save phone region' });
+  }
+});
+
 /* ── Sync history (paginated) ── */
 router.get('/history', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -100,6 +536,46 @@ router.get('/stats', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/* ── Job queue status — counts per status + dead-lettered jobs ── */
+router.get('/queue', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const instanceId = req.instanceId!;
+    const [stats, deadJobs] = await Promise.all([
+      getQueueStats(instanceId),
+      listDeadJobs(instanceId),
+    ]);
+    res.json({ stats, deadJobs });
+  } catch (err) {
+    logger.error('Job queue status error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch job queue status' });
+  }
+});
+
+/* ── HubSpot API quota usage of the connected portal ── */
+router.get('/quota', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ quota: await getQuotaUsage(req.instanceId!) });
+  } catch (err) {
+    logger.error('HubSpot quota error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to fetch HubSpot quota usage' });
+  }
+});
+
+/* ── Re-queue a dead-lettered job ── */
+router.post('/queue/:id/retry', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requeued = await retryDeadJob(req.instanceId!, req.params.id);
+    if (!requeued) {
+      res.status(404).json({ error: 'Dead job not found' });
+      return;
+    }
+    res.json({ requeued: true });
+  } catch (err) {
+    logger.error('Job retry error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Failed to retry job' });
+  }
+});
+
 /* ── Preview HubSpot contacts (dev/test helper) ── */
 router.get('/hubspot-preview', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -0,0 +1,90 @@
+// =============================================================================
+// Wix Order Webhook Routes — Receive Wix Stores / eCommerce order events
+// =============================================================================
+// POST /api/webhooks/wix-orders  — Wix sends order created/approved
+//
+// Orders are persisted on the Module 13 job queue before the 200 is sent;
+// the worker runs Module 16 order sync, which turns each order into a
+// HubSpot deal. Events for installations without order sync are dropped.
+// =============================================================================
+import { Router, Request, Response } from 'express';
+import config from '../config';
+import Installation from '../models/Installation';
+import { enqueueSyncJob } from '../services/jobQueue';
+import { verifyWixSignature } from '../utils/wixSignature';
+import logger from '../utils/logger';
+import { WixOrder } from '../types';
+
+const router = Router();
+
+/** Events that mean "a new order exists"; order sync is idempotent per order */
+const ORDER_CREATED_EVENTS = new Set([
+  'wix.ecom.v1.order_created',
+  'wix.ecom.v1.order_approved',
+  'wix.stores.v2.order_paid',
+  'order/created',
+]);
+
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rawBody = JSON.stringify(req.body);
+    const signature = req.headers['x-wix-signature'] as string | undefined;
+
+    // Verify signature in production
+    if (config.nodeEnv === 'production' && !verifyWixSignature(rawBody, signature)) {
+      logger.warn('Invalid Wix order webhook signature');
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    const { data, instanceId, eventType } = req.body as {
+      data?: any;
+      instanceId?: string;
+      eventType?: string;
+    };
+
+    if (!instanceId || !eventType) {
+      logger.warn('Wix order webhook missing instanceId or eventType');
+      res.status(200).json({ ok: true });
+      return;
+    }
+
+    if (!ORDER_CREATED_EVENTS.has(eventType)) {
+      logger.debug('Unhandled Wix order eventType', { eventType });
+      res.status(200).json({ ok: true });
+      return;
+    }
+
+    const installation = await Installation.findOne({ instanceId });
+    if (!installation?.connected || !installation.syncEnabled || !installation.orderSync?.enabled) {
+      logger.debug('Wix order webhook ignored (not connected or order sync disabled)', { instanceId });
+      res.status(200).json({ ok: true });
+      return;
+    }
+
+    const order: WixOrder | undefined = data?.order ?? data?.entity ?? data;
+    const orderId = order?._id ?? order?.id ?? '';
+
+    if (!orderId) {
+      logger.warn('Wix order webhook: no order ID found', { eventType });
+      res.status(200).json({ ok: true });
+      return;
+    }
+
+    await enqueueSyncJob({
+      instanceId,
+      type: 'wix_order_created',
+      contactId: String(orderId),
+      payload: { order },
+      source: 'wix_webhook',
+    });
+
+    res.status(200).json({ ok: true });
+  } catch (err) {
+    // A non-2xx makes Wix redeliver the event
+    logger.error('Wix order webhook processing error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Webhook processing failed' });
+  }
+});
+
+export default router;
@@ -2,32 +2,20 @@
 // Wix Webhook Routes — Receive Wix contact-change events
 // =============================================================================
 // POST /api/webhooks/wix  — Wix sends contact created/updated/deleted
+//
+// Every event is persisted on the Module 13 job queue before the 200 is
+// sent; the job worker does the actual sync (including deletion policy).
 // =============================================================================
 import { Router, Request, Response } from 'express';
-import crypto from 'crypto';
 import config from '../config';
 import Installation from '../models/Installation';
-import { handleWixWebhook } from '../services/syncOrchestrator';
-import { deleteMapping } from '../services/mappingStore';
-import { isSyncEcho, extractSyncId } from '../services/dedupeGuard';
+import { enqueueSyncJob } from '../services/jobQueue';
+import { verifyWixSignature } from '../utils/wixSignature';
 import logger from '../utils/logger';
 
 const router = Router();
 
-/** Verify Wix webhook signature (HMAC-SHA256) */
-function verifyWixSignature(body: string, signature: string | undefined): boolean {
-  if (!signature) return false;
-  const expected = crypto
-    .createHmac('sha256', config.wixWebhookPublicKey || config.wixAppSecret)
-    .update(body)
-    .digest('base64');
-  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
-}
-
 router.post('/', async (req: Request, res: Response): Promise<void> => {
-  // Acknowledge immediately (Wix expects <3 s response)
-  res.status(200).json({ ok: true });
-
   try {
     const rawBody = JSON.stringify(req.body);
     const signature = req.headers['x-wix-signature'] as string | undefined;
@@ -35,6 +23,7 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
     // Verify signature in production
     if (config.nodeEnv === 'production' && !verifyWixSignature(rawBody, signature)) {
       logger.warn('Invalid Wix webhook signature');
+      res.status(401).json({ error: 'Invalid signature' });
       return;
     }
 
@@ -46,12 +35,14 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
 
     if (!instanceId || !eventType) {
       logger.warn('Wix webhook missing instanceId or eventType');
+      res.status(200).json({ ok: true });
       return;
     }
 
     const installation = await Installation.findOne({ instanceId });
     if (!installation?.connected || !installation.syncEnabled) {
       logger.debug('Wix webhook ignored (not connected or sync disabled)', { instanceId });
+      res.status(200).json({ ok: true });
       return;
     }
 
@@ -60,58 +51,58 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
 
     if (!contactId) {
       logger.warn('Wix webhook: no contact ID found', { eventType });
+      res.status(200).json({ ok: true });
       return;
     }
 
     switch (eventType) {
       case 'wix.contacts.v4.contact_created':
       case 'contact/created': {
-        // Module 5 — Dedupe guard: check if this webhook was triggered
-        // by our own write to Wix. If so, skip processing.
-        const syncIdCreate = extractSyncId(contactData, 'wix');
-        if (await isSyncEcho(syncIdCreate)) {
-          logger.debug('Wix webhook is our own echo — skipping', {
-            instanceId,
-            contactId,
-            syncId: syncIdCreate?.slice(0, 8),
-          });
-          break;
-        }
-
-        await handleWixWebhook(installation, contactId, contactData, 'created', 'wix_webhook');
+        // Module 13 — persist before acknowledging; the worker runs the
+        // Module 5 dedupe guard and the orchestrator.
+        await enqueueSyncJob({
+          instanceId,
+          type: 'wix_contact_created',
+          contactId,
+          payload: { contact: contactData },
+          source: 'wix_webhook',
+        });
         break;
       }
 
       case 'wix.contacts.v4.contact_updated':
       case 'contact/updated': {
-        // Module 5 — Dedupe guard
-        const syncIdUpdate = extractSyncId(contactData, 'wix');
-        if (await isSyncEcho(syncIdUpdate)) {
-          logger.debug('Wix webhook is our own echo — skipping', {
-            instanceId,
-            contactId,
-            syncId: syncIdUpdate?.slice(0, 8),
-          });
-          break;
-        }
-
-        await handleWixWebhook(installation, contactId, contactData, 'updated', 'wix_webhook');
+        await enqueueSyncJob({
+          instanceId,
+          type: 'wix_contact_updated',
+          contactId,
+          payload: { contact: contactData },
+          source: 'wix_webhook',
+        });
         break;
       }
 
       case 'wix.contacts.v4.contact_deleted':
       case 'contact/deleted': {
-        // Remove mapping via Module 4 mapping store (evicts cache too)
-        await deleteMapping(instanceId, contactId);
-        logger.info('Wix contact deleted, mapping removed', { instanceId, contactId });
+        // The worker applies the installation's deletion policy (Scenario 5)
+        await enqueueSyncJob({
+          instanceId,
+          type: 'wix_contact_deleted',
+          contactId,
+          source: 'wix_webhook',
+        });
         break;
       }
 
       default:
         logger.debug('Unhandled Wix eventType', { eventType });
     }
+
+    res.status(200).json({ ok: true });
   } catch (err) {
+    // A non-2xx makes Wix redeliver the event
     logger.error('Wix webhook processing error', { error: (err as Error).message });
+    res.status(500).json({ error: 'Webhook processing failed' });
   }
 });
 
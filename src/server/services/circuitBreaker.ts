@@ -0,0 +1,256 @@
+// =============================================================================
+// Module 21: Circuit Breaker
+// =============================================================================
+// One breaker per installation and upstream API, wrapped around `withRetry`
+// (Module 2-A) and `wixApi` (Module 3-A). During an outage every call would
+// otherwise spend its whole retry budget before failing; an open breaker
+// fails it immediately with a CircuitOpenError instead.
+//
+//   closed ──N outage failures in a row──▶ open ──cooldown──▶ half_open
+//     ▲                                      ▲                     │
+//     └──────────── probe succeeds ──────────┴──── probe fails ────┘
+//
+//   1. guardCall        — run one API call through the breaker
+//   2. isCircuitOpen    — whether an installation's changes must be parked
+//   3. getCircuitStatus — both breakers of an installation, for the dashboard
+//
+// Only outages count: HTTP 5xx and network errors / timeouts. Any other
+// answer — including a 4xx — proves the API is reachable and resets the
+// count. After the cooldown a single probe call is let through; every other
+// call keeps failing fast until it returns.
+//
+// While a breaker is open the job queue (Module 13) parks incoming changes
+// instead of attempting them, and replays them once the cooldown is over.
+// Breakers are in-memory, one set per process.
+// =============================================================================
+import config from '../config';
+import logger from '../utils/logger';
+
+/* ── Constants ── */
+
+/** Used when `config.circuitFailureThreshold` is unset or invalid */
+const DEFAULT_FAILURE_THRESHOLD = 5;
+
+/** Used when `config.circuitCooldownMs` is unset or invalid */
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+/** Error codes of requests that never got an answer */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CircuitService = 'hubspot' | 'wix';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface Breaker {
+  state: CircuitState;
+  /** Outage failures since the last success */
+  consecutiveFailures: number;
+  /** When the breaker last opened (ms) */
+  openedAt: number | null;
+  /** A half-open probe call is in flight */
+  probing: boolean;
+  lastError: string;
+}
+
+/** One breaker as shown on the dashboard */
+export interface CircuitSnapshot {
+  /** `open` also while the cooldown is over but no probe has run yet */
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  /** When a probe will be let through; `null` unless open */
+  retryAt: string | null;
+  lastError: string;
+}
+
+/** Thrown instead of calling an API whose breaker is open */
+export class CircuitOpenError extends Error {
+  public readonly service: CircuitService;
+  public readonly instanceId: string;
+  /** Earliest time a probe call is let through */
+  public readonly retryAt: Date;
+
+  constructor(instanceId: string, service: CircuitService, retryAt: Date) {
+    super(`${service === 'hubspot' ? 'HubSpot' : 'Wix'} circuit open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.service = service;
+    this.instanceId = instanceId;
+    this.retryAt = retryAt;
+
+    // Maintain proper prototype chain
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Breakers
+// ─────────────────────────────────────────────────────────────────────────────
+
+const breakers = new Map<string, Breaker>();
+
+function failureThreshold(): number {
+  return config.circuitFailureThreshold > 0 ? config.circuitFailureThreshold : DEFAULT_FAILURE_THRESHOLD;
+}
+
+function cooldownMs(): number {
+  return config.circuitCooldownMs > 0 ? config.circuitCooldownMs : DEFAULT_COOLDOWN_MS;
+}
+
+function breakerFor(instanceId: string, service: CircuitService): Breaker {
+  const key = `${service}:${instanceId}`;
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = { state: 'closed', consecutiveFailures: 0, openedAt: null, probing: false, lastError: '' };
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+function retryAtOf(breaker: Breaker): number {
+  return (breaker.openedAt ?? 0) + cooldownMs();
+}
+
+/**
+ * `true` for failures that mean the API is down rather than that it
+ * refused the request: HTTP 5xx from either API, or no answer at all.
+ */
+export function isOutageFailure(err: unknown): boolean {
+  if (err instanceof CircuitOpenError) return false;
+  const e = err as { response?: { status?: unknown }; statusCode?: unknown; code?: unknown; isAxiosError?: boolean };
+  const status = typeof e?.response?.status === 'number' ? e.response.status : e?.statusCode;
+  if (typeof status === 'number') return status >= 500;
+  return NETWORK_ERROR_CODES.has(String(e?.code ?? '')) || e?.isAxiosError === true;
+}
+
+function recordSuccess(instanceId: string, service: CircuitService, breaker: Breaker): void {
+  if (breaker.state !== 'closed') {
+    logger.info('Circuit closed — API reachable again', { instanceId, service });
+  }
+  breaker.state = 'closed';
+  breaker.consecutiveFailures = 0;
+  breaker.openedAt = null;
+  breaker.lastError = '';
+}
+
+function recordOutage(instanceId: string, service: CircuitService, breaker: Breaker, err: unknown): void {
+  breaker.consecutiveFailures++;
+  breaker.lastError = (err as Error)?.message ?? String(err);
+
+  if (breaker.state === 'half_open' || breaker.consecutiveFailures >= failureThreshold()) {
+    breaker.state = 'open';
+    breaker.openedAt = Date.now();
+    logger.warn('Circuit opened — failing fast until the cooldown is over', {
+      instanceId,
+      service,
+      consecutiveFailures: breaker.consecutiveFailures,
+      retryAt: new Date(retryAtOf(breaker)).toISOString(),
+      error: breaker.lastError,
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Guard a call
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Runs `call` unless the breaker is open, and records how it went.
+ *
+ * @param instanceId — Wix site instance the call is made for
+ * @param service    — API the call goes to
+ * @param call       — The call, including its own retries
+ * @throws           — CircuitOpenError while open, else whatever `call` throws
+ */
+export async function guardCall<T>(
+  instanceId: string,
+  service: CircuitService,
+  call: () => Promise<T>,
+): Promise<T> {
+  const breaker = breakerFor(instanceId, service);
+
+  let probe = false;
+  if (breaker.state !== 'closed') {
+    if (breaker.probing || Date.now() < retryAtOf(breaker)) {
+      throw new CircuitOpenError(instanceId, service, new Date(retryAtOf(breaker)));
+    }
+    breaker.state = 'half_open';
+    breaker.probing = true;
+    probe = true;
+    logger.info('Circuit half-open — sending a probe call', { instanceId, service });
+  }
+
+  try {
+    const result = await call();
+    recordSuccess(instanceId, service, breaker);
+    return result;
+  } catch (err) {
+    if (isOutageFailure(err)) recordOutage(instanceId, service, breaker, err);
+    else recordSuccess(instanceId, service, breaker);
+    throw err;
+  } finally {
+    if (probe) breaker.probing = false;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Degraded mode check
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * `true` while either breaker of the installation is open and cooling down —
+ * new work for it should be parked rather than attempted. Turns `false` once
+ * a probe may be sent, so parked work is released to make that probe.
+ */
+export function isCircuitOpen(instanceId: string): boolean {
+  const now = Date.now();
+  return (['hubspot', 'wix'] as const).some((service) => {
+    const breaker = breakers.get(`${service}:${instanceId}`);
+    return breaker?.state === 'open' && now < retryAtOf(breaker);
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Status
+// ─────────────────────────────────────────────────────────────────────────────
+
+function snapshot(breaker: Breaker | undefined): CircuitSnapshot {
+  if (!breaker) {
+    return { state: 'closed', consecutiveFailures: 0, openedAt: null, retryAt: null, lastError: '' };
+  }
+  return {
+    state: breaker.state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    openedAt: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : null,
+    retryAt: breaker.state === 'open' ? new Date(retryAtOf(breaker)).toISOString() : null,
+    lastError: breaker.lastError,
+  };
+}
+
+/** Both breakers of an installation */
+export function getCircuitStatus(instanceId: string): Record<CircuitService, CircuitSnapshot> {
+  return {
+    hubspot: snapshot(breakers.get(`hubspot:${instanceId}`)),
+    wix: snapshot(breakers.get(`wix:${instanceId}`)),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities (exposed for testing)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Close and forget every breaker */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
@@ -0,0 +1,251 @@
+// =============================================================================
+// Module 15: Company Sync
+// =============================================================================
+// Optional per-installation mode (`installation.companySync`). After a Wix
+// contact is written to HubSpot, the contact's company is upserted as a
+// HubSpot Company and the two are associated:
+//
+//   1. deriveCompanyDomain    — website host, else the email's domain
+//   2. resolveCompanyTarget   — normalised key + properties for a contact
+//   3. syncContactCompany     — find-or-create the company, then associate
+//
+// Companies are matched either by `domain` or by `name`. The
+// HubSpotCompanyMapping collection remembers which HubSpot company each key
+// resolved to, so contacts of the same company never create duplicates and
+// repeat syncs skip the HubSpot search.
+// =============================================================================
+import CompanyMapping, { ICompanyMapping } from '../models/CompanyMapping';
+import { IInstallation } from '../models/Installation';
+import { flattenWixContact } from './fieldMappingEngine';
+import {
+  findCompany,
+  createCompany,
+  associateContactWithCompany,
+  archiveCompany,
+} from './hubspotCompanies';
+import logger from '../utils/logger';
+import { CompanyMatchBy, FlatContact } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Domain derivation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Mailbox providers whose domain says nothing about the contact's company */
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'aol.com',
+  'icloud.com',
+  'me.com',
+  'mail.com',
+  'gmx.com',
+  'gmx.de',
+  'web.de',
+  'proton.me',
+  'protonmail.com',
+  'yandex.com',
+  'zoho.com',
+]);
+
+/** Lower-cases a host name and drops a leading `www.` */
+function normaliseDomain(host: string): string {
+  return host.trim().toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Derives a company domain for a contact: the host of its `website`, or
+ * else the domain of its email address unless that is a free mailbox
+ * provider.
+ *
+ * @param contact — Flattened Wix contact
+ * @returns       — Domain such as `acme.com`, or `''` if none can be derived
+ */
+export function deriveCompanyDomain(contact: FlatContact): string {
+  const website = contact.website?.trim();
+  if (website) {
+    try {
+      const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+      if (url.hostname.includes('.')) return normaliseDomain(url.hostname);
+    } catch {
+      // Not a URL — fall back to the email domain
+    }
+  }
+
+  const emailDomain = contact.email?.split('@')[1];
+  if (emailDomain) {
+    const domain = normaliseDomain(emailDomain);
+    if (!FREE_EMAIL_DOMAINS.has(domain)) return domain;
+  }
+
+  return '';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Company key
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CompanyTarget {
+  /** Normalised match value — the HubSpotCompanyMapping key */
+  key: string;
+  /** Properties for a newly created company */
+  properties: Record<string, string>;
+}
+
+/**
+ * Works out which company a contact belongs to under the given match mode.
+ *
+ * @param contact — Flattened Wix contact
+ * @param matchBy — `domain` (website or email) or `name` (company field)
+ * @returns       — The company target, or `null` if the contact has none
+ */
+export function resolveCompanyTarget(
+  contact: FlatContact,
+  matchBy: CompanyMatchBy,
+): CompanyTarget | null {
+  const name = contact.company?.trim().replace(/\s+/g, ' ') ?? '';
+  const domain = deriveCompanyDomain(contact);
+
+  if (matchBy === 'name') {
+    if (!name) return null;
+    return {
+      key: name.toLowerCase(),
+      properties: { name, ...(domain ? { domain } : {}) },
+    };
+  }
+
+  if (!domain) return null;
+  return { key: domain, properties: { name: name || domain, domain } };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Upsert + associate
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CompanySyncResult {
+  hubspotCompanyId: string;
+  /** `created` if the company was new to HubSpot, otherwise `linked` */
+  action: 'created' | 'linked';
+}
+
+/** `true` for a MongoDB duplicate-key error */
+function isDuplicateKey(err: unknown): boolean {
+  return (err as { code?: number })?.code === 11000;
+}
+
+/**
+ * Stores the company a key resolved to. If another sync stored one first
+ * (two contacts of a new company at once), the earlier mapping wins so
+ * both contacts end up on the same company.
+ */
+async function saveCompanyMapping(
+  instanceId: string,
+  matchBy: CompanyMatchBy,
+  companyKey: string,
+  hubspotCompanyId: string,
+): Promise<ICompanyMapping | null> {
+  const filter = { instanceId, matchBy, companyKey };
+  try {
+    return await CompanyMapping.findOneAndUpdate(
+      filter,
+      { $setOnInsert: { ...filter, hubspotCompanyId } },
+      { upsert: true, new: true },
+    );
+  } catch (err) {
+    if (!isDuplicateKey(err)) throw err;
+    return CompanyMapping.findOne(filter);
+  }
+}
+
+/** Archives a company created by a sync that lost the mapping race; best-effort */
+async function archiveDuplicateCompany(instanceId: string, companyId: string): Promise<void> {
+  try {
+    await archiveCompany(instanceId, companyId);
+  } catch (err) {
+    logger.warn('Company sync: could not archive duplicate company', {
+      instanceId,
+      hubspotCompanyId: companyId,
+      error: (err as Error).message,
+    });
+  }
+}
+
+/**
+ * Finds or creates the HubSpot company for a Wix contact and associates it
+ * with the contact's HubSpot counterpart. Does nothing when company sync is
+ * disabled for the installation or the contact has no company to match.
+ *
+ * Lookup order: HubSpotCompanyMapping → HubSpot search by `matchBy` →
+ * create. A mapping whose company was deleted in HubSpot is dropped and the
+ * lookup runs again.
+ *
+ * @param installation     — Connected installation
+ * @param hubspotContactId — HubSpot contact the Wix contact was synced to
+ * @param wixContactData   — Raw Wix contact (nested or flat)
+ * @returns                — The associated company, or `null` if skipped
+ */
+export async function syncContactCompany(
+  installation: IInstallation,
+  hubspotContactId: string,
+  wixContactData: Record<string, any>,
+): Promise<CompanySyncResult | null> {
+  const settings = installation.companySync;
+  if (!settings?.enabled) return null;
+
+  const instanceId = installation.instanceId;
+  const matchBy = settings.matchBy ?? 'domain';
+  const target = resolveCompanyTarget(flattenWixContact(wixContactData), matchBy);
+  if (!target) {
+    logger.debug('Company sync: contact has no company to match', { instanceId, matchBy });
+    return null;
+  }
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    let action: CompanySyncResult['action'] = 'linked';
+    let mapping: ICompanyMapping | null = await CompanyMapping.findOne({
+      instanceId,
+      matchBy,
+      companyKey: target.key,
+    });
+
+    if (!mapping) {
+      const existing = await findCompany(instanceId, matchBy, target.properties[matchBy]);
+      const companyId = existing
+        ? existing.id
+        : (await createCompany(instanceId, target.properties)).id;
+      if (!existing) action = 'created';
+
+      mapping = await saveCompanyMapping(instanceId, matchBy, target.key, companyId);
+      if (mapping && mapping.hubspotCompanyId !== companyId) {
+        logger.warn('Company sync: concurrent sync mapped this company first', {
+          instanceId,
+          hubspotCompanyId: mapping.hubspotCompanyId,
+          duplicateCompanyId: companyId,
+        });
+        // The company this sync created lost the race — don't leave it behind
+        if (action === 'created') await archiveDuplicateCompany(instanceId, companyId);
+        action = 'linked';
+      }
+      if (!mapping) throw new Error('Company mapping could not be saved');
+    }
+
+    try {
+      await associateContactWithCompany(instanceId, hubspotContactId, mapping.hubspotCompanyId);
+      return { hubspotCompanyId: mapping.hubspotCompanyId, action };
+    } catch (err: any) {
+      if (err?.response?.status !== 404 || attempt > 0) throw err;
+      // The mapped company no longer exists in HubSpot — forget it, retry
+      logger.info('Company sync: mapped company is gone, re-resolving', {
+        instanceId,
+        hubspotCompanyId: mapping.hubspotCompanyId,
+      });
+      await CompanyMapping.deleteOne({ _id: mapping._id });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,565 @@
+// =============================================================================
+// Module 19: Config Transfer
+// =============================================================================
+// Copies an installation's setup to other sites as a versioned JSON or YAML
+// document: the active field mapping rules, Wix form → HubSpot form
+// mappings, the widget's form and the sync settings. Connection details
+// (tokens, portal ID) are never exported.
+//
+//   1. exportConfig        — the installation's setup as a document
+//   2. serializeConfig     — document → JSON / YAML text
+//   3. parseConfig         — JSON / YAML text → checked document
+//   4. previewConfigImport — validate a document against the target site and
+//                            its HubSpot portal, and list what it would change
+//   5. applyConfigImport   — validate again, then apply
+//
+// Every section of an imported document is optional; a section left out
+// keeps the target's current setup. A section that is present replaces it
+// (the rules replace all rules, defaults included).
+// =============================================================================
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import FieldMapping from '../models/FieldMapping';
+import FormSubmission from '../models/FormSubmission';
+import { IInstallation } from '../models/Installation';
+import { MappingSnapshotRule } from '../models/FieldMappingVersion';
+import {
+  loadMappingRules,
+  loadWixExtendedFieldKeys,
+  validateRules,
+  isValidationWarning,
+  isUndeletableDefault,
+  indexPropertyOptions,
+  compositeWixField,
+  ValidationError,
+} from './fieldMappingEngine';
+import {
+  diffMappingVersions,
+  recordMappingVersion,
+  replaceMappingRules,
+  snapshotRule,
+  MappingDiff,
+  VersionAuthor,
+} from './mappingVersions';
+import { createCustomProperty, fetchCustomProperties, WIX_DELETED_PROPERTY } from './hubspotProperties';
+import { listDealPipelines } from './hubspotDeals';
+import { enableLabelProperty } from './labelSync';
+import * as hubspotService from './hubspotService';
+import { isSupportedPhoneRegion, SUPPORTED_PHONE_REGIONS } from '../utils/phoneNumbers';
+import logger from '../utils/logger';
+import { ConflictStrategy, TransformStep } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** `kind` of every config document */
+export const CONFIG_DOCUMENT_KIND = 'wix-hubspot-config';
+
+/** Document layout version — bump when the layout changes incompatibly */
+export const CONFIG_SCHEMA_VERSION = 1;
+
+export type ConfigFormat = 'json' | 'yaml';
+export const CONFIG_FORMATS: ConfigFormat[] = ['json', 'yaml'];
+
+/** Version comment recorded for an import that carries rules */
+const IMPORT_COMMENT = 'Imported configuration';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Document schema
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Layout only — rule contents are checked by validateRules, settings against
+// the target portal in previewConfigImport. Unknown keys are rejected so a
+// typo in a hand-edited document is not silently dropped.
+
+const ruleSchema = z
+  .object({
+    // Optional for composite rules, whose wixField is derived
+    wixField: z.string().default(''),
+    hubspotField: z.string(),
+    direction: z.enum(['bidirectional', 'wix_to_hubspot', 'hubspot_to_wix']),
+    transform: z.enum(['none', 'trim', 'lowercase', 'uppercase', 'phone_e164', 'phone_national']).default('none'),
+    transforms: z
+      .array(
+        z
+          .object({
+            type: z.string(),
+            pattern: z.string().optional(),
+            replacement: z.string().optional(),
+            flags: z.string().optional(),
+            value: z.string().optional(),
+            length: z.number().optional(),
+            valueMap: z.array(z.object({ from: z.string(), to: z.string() }).strict()).optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+    optionMap: z.array(z.object({ wixValue: z.string(), hubspotValue: z.string() }).strict()).optional(),
+    optionFallback: z.string().optional(),
+    composite: z
+      .object({
+        wixFields: z.array(z.string()),
+        template: z.string().optional(),
+        delimiter: z.string().optional(),
+        splitPattern: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    conflictStrategy: z.string().optional(),
+  })
+  .strict();
+
+const settingsSchema = z
+  .object({
+    syncEnabled: z.boolean().optional(),
+    deletionPolicy: z
+      .object({
+        onWixDelete: z.enum(['ignore', 'mirror_delete', 'flag_hubspot_property']),
+        onHubSpotDelete: z.enum(['ignore', 'mirror_delete', 'archive_wix_label']),
+      })
+      .strict()
+      .optional(),
+    companySync: z.object({ enabled: z.boolean(), matchBy: z.enum(['domain', 'name']) }).strict().optional(),
+    labelSync: z.object({ mode: z.enum(['off', 'property', 'lists']) }).strict().optional(),
+    orderSync: z
+      .object({ enabled: z.boolean(), pipelineId: z.string().default(''), dealStage: z.string().default('') })
+      .strict()
+      .optional(),
+    phoneRegion: z.string().optional(),
+  })
+  .strict();
+
+const configDocumentSchema = z
+  .object({
+    kind: z.literal(CONFIG_DOCUMENT_KIND),
+    schemaVersion: z.literal(CONFIG_SCHEMA_VERSION),
+    exportedAt: z.string().optional(),
+    fieldMappings: z.array(ruleSchema).optional(),
+    formMappings: z
+      .array(
+        z
+          .object({
+            wixFormId: z.string().min(1),
+            wixFormName: z.string().optional(),
+            hubspotFormGuid: z.string().min(1),
+          })
+          .strict(),
+      )
+      .optional(),
+    widget: z.object({ formId: z.string() }).strict().optional(),
+    sync: settingsSchema.optional(),
+  })
+  .strict();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ConfigDocument = z.infer<typeof configDocumentSchema>;
+export type ConfigRule = z.infer<typeof ruleSchema>;
+export type ConfigSettings = z.infer<typeof settingsSchema>;
+
+export type ParseConfigResult = { ok: true; document: ConfigDocument } | { ok: false; errors: ValidationError[] };
+
+/** A Wix form whose HubSpot form would change */
+export interface FormMappingChange {
+  wixFormId: string;
+  before: string;
+  after: string;
+}
+
+/** A setting whose value would change; `setting` is its document path */
+export interface ConfigSettingChange {
+  setting: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ImportPreview {
+  /** `true` when the document can be applied */
+  ok: boolean;
+  errors: ValidationError[];
+  warnings: ValidationError[];
+  changes: {
+    /** `null` when the document has no rules */
+    fieldMappings: MappingDiff | null;
+    formMappings: FormMappingChange[];
+    settings: ConfigSettingChange[];
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** `fieldMappings.2.hubspotField` → `fieldMappings[2].hubspotField` */
+function documentPath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (out, part) => (typeof part === 'number' ? `${out}[${part}]` : out ? `${out}.${part}` : part),
+    '',
+  );
+}
+
+/** The sync settings as stored, with the defaults the settings routes report */
+function currentSettings(installation: IInstallation): Required<ConfigSettings> {
+  return {
+    syncEnabled: installation.syncEnabled ?? true,
+    deletionPolicy: {
+      onWixDelete: installation.deletionPolicy?.onWixDelete ?? 'ignore',
+      onHubSpotDelete: installation.deletionPolicy?.onHubSpotDelete ?? 'ignore',
+    },
+    companySync: {
+      enabled: installation.companySync?.enabled ?? false,
+      matchBy: installation.companySync?.matchBy ?? 'domain',
+    },
+    labelSync: { mode: installation.labelSync?.mode ?? 'off' },
+    orderSync: {
+      enabled: installation.orderSync?.enabled ?? false,
+      pipelineId: installation.orderSync?.pipelineId ?? '',
+      dealStage: installation.orderSync?.dealStage ?? '',
+    },
+    phoneRegion: installation.phoneRegion ?? '',
+  };
+}
+
+/** Wix form ID → mapped HubSpot form GUID (latest submission wins) */
+async function loadFormMappings(
+  instanceId: string,
+): Promise<Array<{ wixFormId: string; wixFormName: string; hubspotFormGuid: string }>> {
+  const rows: Array<{ _id: string; wixFormName: string; hubspotFormGuid: string }> = await FormSubmission.aggregate([
+    { $match: { instanceId, hubspotFormGuid: { $ne: '' } } },
+    { $sort: { createdAt: -1 } },
+    {
+      $group: {
+        _id: '$wixFormId',
+        wixFormName: { $first: '$wixFormName' },
+        hubspotFormGuid: { $first: '$hubspotFormGuid' },
+      },
+    },
+    { $sort: { _id: 1 } },
+  ]);
+  return rows.map((r) => ({ wixFormId: r._id, wixFormName: r.wixFormName, hubspotFormGuid: r.hubspotFormGuid }));
+}
+
+/** A document rule as stored: derived wixField, empty lists filled in */
+function toSnapshotRule(rule: ConfigRule): MappingSnapshotRule {
+  const wixField = rule.composite ? compositeWixField(rule.composite) : rule.wixField;
+  return {
+    wixField,
+    hubspotField: rule.hubspotField,
+    direction: rule.direction,
+    transform: rule.transform,
+    transforms: (rule.transforms ?? []) as TransformStep[],
+    optionMap: rule.optionMap ?? [],
+    ...(rule.optionFallback ? { optionFallback: rule.optionFallback } : {}),
+    ...(rule.composite ? { composite: rule.composite } : {}),
+    conflictStrategy: (rule.conflictStrategy || 'newest_wins') as ConflictStrategy,
+    isDefault: isUndeletableDefault(wixField, rule.hubspotField),
+    isActive: true,
+  };
+}
+
+/** A stored rule as exported, leaving out empty settings */
+function toConfigRule(rule: MappingSnapshotRule): ConfigRule {
+  return {
+    wixField: rule.wixField,
+    hubspotField: rule.hubspotField,
+    direction: rule.direction,
+    transform: rule.transform,
+    ...(rule.transforms?.length ? { transforms: rule.transforms } : {}),
+    ...(rule.optionMap?.length ? { optionMap: rule.optionMap } : {}),
+    ...(rule.optionFallback ? { optionFallback: rule.optionFallback } : {}),
+    ...(rule.composite ? { composite: rule.composite } : {}),
+    conflictStrategy: rule.conflictStrategy ?? 'newest_wins',
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1–3. Export, serialise and parse
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Exports an installation's setup. */
+export async function exportConfig(installation: IInstallation): Promise<ConfigDocument> {
+  const rules = await loadMappingRules(installation.instanceId, true);
+  const formMappings = await loadFormMappings(installation.instanceId);
+
+  return {
+    kind: CONFIG_DOCUMENT_KIND,
+    schemaVersion: CONFIG_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    fieldMappings: rules.map((r) => toConfigRule(snapshotRule(r))),
+    formMappings,
+    widget: { formId: installation.widgetFormId ?? '' },
+    sync: currentSettings(installation),
+  };
+}
+
+/** Writes a document as pretty-printed JSON or block-style YAML. */
+export function serializeConfig(document: ConfigDocument, format: ConfigFormat): string {
+  if (format === 'json') return `${JSON.stringify(document, null, 2)}\n`;
+  return yaml.dump(document, { schema: yaml.JSON_SCHEMA, lineWidth: -1, noRefs: true });
+}
+
+/**
+ * Reads a document and checks its layout. Contents are checked by
+ * {@link previewConfigImport}.
+ *
+ * @param text   — The document
+ * @param format — How it is written
+ * @returns      — The document, or errors with the path of each problem
+ */
+export function parseConfig(text: string, format: ConfigFormat): ParseConfigResult {
+  let raw: unknown;
+  try {
+    raw = format === 'json' ? JSON.parse(text) : yaml.load(text, { schema: yaml.JSON_SCHEMA });
+  } catch (err) {
+    return { ok: false, errors: [{ field: 'document', message: `Not valid ${format.toUpperCase()}: ${(err as Error).message}` }] };
+  }
+
+  const version = (raw as { schemaVersion?: unknown } | null)?.schemaVersion;
+  if (typeof version === 'number' && version > CONFIG_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: 'schemaVersion',
+          message: `Document version ${version} is newer than this app supports (${CONFIG_SCHEMA_VERSION})`,
+        },
+      ],
+    };
+  }
+
+  const parsed = configDocumentSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      errors: parsed.error.issues.map((issue) => ({
+        field: documentPath(issue.path) || 'document',
+        message: issue.message,
+      })),
+    };
+  }
+  return { ok: true, document: parsed.data };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Preview
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Validates a document against the target installation — the rules with
+ * {@link validateRules} against the portal's properties and the site's
+ * custom fields, HubSpot forms and deal stages against the portal — and
+ * lists what applying it would change. Nothing is written.
+ *
+ * Checks that need HubSpot are skipped, with a warning, while it is not
+ * connected; settings that only work connected are errors.
+ *
+ * @param installation — Target installation
+ * @param document     — Parsed document
+ */
+export async function previewConfigImport(
+  installation: IInstallation,
+  document: ConfigDocument,
+): Promise<ImportPreview> {
+  const { instanceId, connected } = installation;
+  const findings: ValidationError[] = [];
+  const preview: ImportPreview = {
+    ok: false,
+    errors: [],
+    warnings: [],
+    changes: { fieldMappings: null, formMappings: [], settings: [] },
+  };
+
+  if (!connected && (document.fieldMappings || document.formMappings?.length || document.widget?.formId)) {
+    findings.push({
+      field: 'document',
+      message: 'HubSpot is not connected — HubSpot properties and forms were not checked',
+      severity: 'warning',
+    });
+  }
+
+  /* ── Field mapping rules ── */
+  if (document.fieldMappings) {
+    const rules = document.fieldMappings.map(toSnapshotRule);
+    const properties = connected ? await fetchCustomProperties(instanceId) : null;
+    const ruleFindings = validateRules(
+      rules,
+      properties ? new Set(properties.map((p) => p.value)) : null,
+      await loadWixExtendedFieldKeys(installation),
+      properties ? indexPropertyOptions(properties) : null,
+    );
+    findings.push(...ruleFindings.map((f) => ({ ...f, field: f.field.replace(/^rules\[/, 'fieldMappings[') })));
+
+    const current = await FieldMapping.find({ instanceId });
+    preview.changes.fieldMappings = diffMappingVersions(current.map(snapshotRule), rules);
+  }
+
+  /* ── HubSpot forms (form mappings and widget) ── */
+  let hubspotFormIds: Set<string> | null = null;
+  if (connected && (document.formMappings?.length || document.widget?.formId)) {
+    try {
+      hubspotFormIds = new Set((await hubspotService.listForms(installation)).map((f) => f.id));
+    } catch {
+      findings.push({
+        field: 'document',
+        message: 'Could not list HubSpot forms (is the forms scope granted?) — form IDs were not checked',
+        severity: 'warning',
+      });
+    }
+  }
+
+  if (document.formMappings) {
+    const current = new Map((await loadFormMappings(instanceId)).map((f) => [f.wixFormId, f.hubspotFormGuid]));
+    const submittedForms = new Set<string>(await FormSubmission.distinct('wixFormId', { instanceId }));
+
+    document.formMappings.forEach((f, i) => {
+      if (hubspotFormIds && !hubspotFormIds.has(f.hubspotFormGuid)) {
+        findings.push({
+          field: `formMappings[${i}].hubspotFormGuid`,
+          message: `HubSpot form "${f.hubspotFormGuid}" does not exist in the connected portal`,
+        });
+      }
+      // Form mappings live on the submissions, so a form nobody submitted yet has nothing to map
+      if (!submittedForms.has(f.wixFormId)) {
+        findings.push({
+          field: `formMappings[${i}].wixFormId`,
+          message: `Wix form "${f.wixFormName || f.wixFormId}" has no submissions on this site yet — nothing to map`,
+          severity: 'warning',
+        });
+      }
+      const before = current.get(f.wixFormId) ?? '';
+      if (before !== f.hubspotFormGuid) {
+        preview.changes.formMappings.push({ wixFormId: f.wixFormId, before, after: f.hubspotFormGuid });
+      }
+    });
+  }
+
+  if (document.widget) {
+    const { formId } = document.widget;
+    if (formId && hubspotFormIds && !hubspotFormIds.has(formId)) {
+      findings.push({ field: 'widget.formId', message: `HubSpot form "${formId}" does not exist in the connected portal` });
+    }
+    if (formId !== (installation.widgetFormId ?? '')) {
+      preview.changes.settings.push({ setting: 'widget.formId', before: installation.widgetFormId ?? '', after: formId });
+    }
+  }
+
+  /* ── Sync settings ── */
+  if (document.sync) {
+    const { deletionPolicy, labelSync, orderSync, phoneRegion } = document.sync;
+
+    if (phoneRegion !== undefined && phoneRegion !== '' && !isSupportedPhoneRegion(phoneRegion)) {
+      findings.push({
+        field: 'sync.phoneRegion',
+        message: `phoneRegion must be '' or one of: ${SUPPORTED_PHONE_REGIONS.join(', ')}`,
+      });
+    }
+    if (!connected && deletionPolicy?.onWixDelete === 'flag_hubspot_property') {
+      findings.push({ field: 'sync.deletionPolicy.onWixDelete', message: 'HubSpot not connected' });
+    }
+    if (!connected && labelSync && labelSync.mode !== 'off') {
+      findings.push({ field: 'sync.labelSync.mode', message: 'HubSpot not connected' });
+    }
+    if (orderSync?.enabled) {
+      // Pipeline and stage IDs are per portal — the stage must exist in this one
+      if (!connected) {
+        findings.push({ field: 'sync.orderSync', message: 'HubSpot not connected' });
+      } else {
+        const pipeline = (await listDealPipelines(instanceId)).find((p) => p.id === orderSync.pipelineId);
+        if (!pipeline || !pipeline.stages.some((s) => s.id === orderSync.dealStage)) {
+          findings.push({
+            field: 'sync.orderSync.dealStage',
+            message: 'dealStage must be a stage of the selected pipeline in the connected portal',
+          });
+        }
+      }
+    }
+
+    const current = currentSettings(installation);
+    for (const key of Object.keys(document.sync) as Array<keyof ConfigSettings>) {
+      const after = key === 'phoneRegion' ? phoneRegion?.toUpperCase() : document.sync[key];
+      if (after !== undefined && JSON.stringify(after) !== JSON.stringify(current[key])) {
+        preview.changes.settings.push({ setting: `sync.${key}`, before: current[key], after });
+      }
+    }
+  }
+
+  preview.errors = findings.filter((f) => !isValidationWarning(f));
+  preview.warnings = findings.filter(isValidationWarning);
+  preview.ok = preview.errors.length === 0;
+  return preview;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Apply
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Validates a document as {@link previewConfigImport} does and, when it has
+ * no errors, applies it. New rules are recorded as a mapping version
+ * (Module 18).
+ *
+ * @param installation — Target installation
+ * @param document     — Parsed document
+ * @param by           — Author and optional version comment
+ * @returns            — The preview, and whether the document was applied
+ */
+export async function applyConfigImport(
+  installation: IInstallation,
+  document: ConfigDocument,
+  by: VersionAuthor,
+): Promise<{ preview: ImportPreview; applied: boolean }> {
+  const preview = await previewConfigImport(installation, document);
+  if (!preview.ok) return { preview, applied: false };
+
+  const { instanceId } = installation;
+
+  if (document.fieldMappings) {
+    await replaceMappingRules(instanceId, document.fieldMappings.map(toSnapshotRule));
+  }
+
+  for (const f of document.formMappings ?? []) {
+    await FormSubmission.updateMany({ instanceId, wixFormId: f.wixFormId }, { hubspotFormGuid: f.hubspotFormGuid });
+  }
+
+  if (document.widget) installation.widgetFormId = document.widget.formId;
+
+  if (document.sync) {
+    const { syncEnabled, deletionPolicy, companySync, labelSync, orderSync, phoneRegion } = document.sync;
+    if (syncEnabled !== undefined) installation.syncEnabled = syncEnabled;
+    if (deletionPolicy) {
+      // The flag property must exist before we can write it
+      if (deletionPolicy.onWixDelete === 'flag_hubspot_property') {
+        await createCustomProperty(instanceId, WIX_DELETED_PROPERTY);
+      }
+      installation.deletionPolicy = deletionPolicy;
+    }
+    if (companySync) installation.companySync = companySync;
+    if (labelSync) {
+      // After the rules, so an imported labelIds rule is kept
+      if (labelSync.mode === 'property') await enableLabelProperty(installation);
+      installation.labelSync = labelSync;
+    }
+    if (orderSync) installation.orderSync = orderSync;
+    if (phoneRegion !== undefined) installation.phoneRegion = phoneRegion.toUpperCase();
+  }
+  await installation.save();
+
+  if (document.fieldMappings) {
+    // The import has happened — a failed history entry is only logged
+    try {
+      await recordMappingVersion(instanceId, { author: by.author, comment: by.comment || IMPORT_COMMENT });
+    } catch (err) {
+      logger.error('Record field mapping version error', { instanceId, error: (err as Error).message });
+    }
+  }
+
+  logger.info('Configuration imported', {
+    instanceId,
+    sections: Object.keys(document).filter((k) => !['kind', 'schemaVersion', 'exportedAt'].includes(k)),
+    rules: document.fieldMappings?.length ?? 0,
+  });
+  return { preview, applied: true };
+}
@@ -6,6 +6,7 @@
 //   1. registerSyncId   — Store a sync UUID in memory + SyncDedupeLog
 //   2. isSyncEcho       — Check whether a sync UUID was generated by us
 //   3. extractSyncId    — Pull the sync UUID out of webhook / contact data
+//   4. deletionSyncId   — Deterministic ID for deletions we propagate
 //
 // In-memory set: LRUCache (max 1 000 entries, 5-minute TTL).
 // Persistent:    SyncDedupeLog MongoDB collection (5-minute TTL index).
@@ -60,14 +61,13 @@ export async function registerSyncId(
   // Memory first — this is the fast path for isSyncEcho
   recentSyncIds.set(id, true);
 
-  // Persist to DB (non-blocking — fire-and-forget with error logging)
-  SyncDedupeLog.create({
-    syncId: id,
-    instanceId,
-    side,
-    contactId,
-    expiresAt: new Date(Date.now() + EXPIRY_MS),
-  }).catch((err) => {
+  // Persist to DB (non-blocking — fire-and-forget with error logging).
+  // Upserted so a deterministic ID registered again gets a fresh expiry
+  SyncDedupeLog.updateOne(
+    { syncId: id },
+    { $set: { instanceId, side, contactId, expiresAt: new Date(Date.now() + EXPIRY_MS) } },
+    { upsert: true },
+  ).catch((err) => {
     logger.warn('Failed to persist SyncDedupeLog entry', {
       syncId: id,
       instanceId,
@@ -158,6 +158,31 @@ export function extractSyncId(
   );
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Deletion sync ID
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Deletion webhooks carry no contact data, so there is no sync tag to
+ * extract. Instead, both the writer and the webhook handler derive the
+ * same deterministic ID from the deleted contact. It is scoped to the
+ * installation, since two sites can hold the same contact ID.
+ *
+ * Register it (via `registerSyncId`) before deleting a contact, and check
+ * it with `isSyncEcho` when the deletion webhook arrives.
+ *
+ * @param instanceId — Wix site instance deleting the contact
+ * @param side       — Platform the contact is deleted from
+ * @param contactId  — Contact ID on that platform
+ */
+export function deletionSyncId(
+  instanceId: string,
+  side: 'wix' | 'hubspot',
+  contactId: string,
+): string {
+  return `delete:${instanceId}:${side}:${contactId}`;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Utilities (exposed for testing / admin)
 // ─────────────────────────────────────────────────────────────────────────────
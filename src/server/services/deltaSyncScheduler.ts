@@ -0,0 +1,144 @@
+// =============================================================================
+// Module 14: Delta Sync Scheduler
+// =============================================================================
+// Webhooks are the primary sync trigger, but deliveries can be lost (app
+// downtime, HubSpot retries exhausted, Wix outages). This scheduler runs
+// Module 7's `runDeltaSync` for every connected installation on a fixed
+// interval, pulling only contacts modified since each installation's
+// cursors, so anything a webhook missed is caught on the next tick.
+//
+//   1. triggerDeltaSync          — run one installation (no overlapping runs)
+//   2. runScheduledDeltaSyncs    — one tick over all eligible installations
+//   3. startDeltaSyncScheduler / stopDeltaSyncScheduler — lifecycle
+//
+// The interval comes from `config.deltaSyncIntervalMs`; 0 disables it.
+// =============================================================================
+import config from '../config';
+import Installation, { IInstallation } from '../models/Installation';
+import { runDeltaSync, DeltaSyncResult } from './syncOrchestrator';
+import logger from '../utils/logger';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Single-installation trigger
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Instance IDs with a delta sync currently running in this process. */
+const running = new Set<string>();
+
+/**
+ * Runs a delta sync for one installation unless one is already running
+ * for it (scheduled and manual triggers share this guard).
+ *
+ * @param installation — Connected installation to sync
+ * @returns            — The result, or `null` if a run was already in progress
+ */
+export async function triggerDeltaSync(
+  installation: IInstallation,
+): Promise<DeltaSyncResult | null> {
+  const instanceId = installation.instanceId;
+  if (running.has(instanceId)) {
+    logger.debug('Delta sync already running — skipping', { instanceId });
+    return null;
+  }
+
+  running.add(instanceId);
+  try {
+    return await runDeltaSync(installation);
+  } finally {
+    running.delete(instanceId);
+  }
+}
+
+/** Returns `true` if a delta sync is running for the installation. */
+export function isDeltaSyncRunning(instanceId: string): boolean {
+  return running.has(instanceId);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Scheduler tick
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Guards against overlapping ticks when a sweep outlasts the interval. */
+let ticking = false;
+
+/**
+ * Runs a delta sync for every connected installation with sync enabled.
+ * Installations are processed one at a time to keep API usage smooth.
+ *
+ * @returns — Number of installations synced during this tick
+ */
+export async function runScheduledDeltaSyncs(): Promise<number> {
+  if (ticking) return 0;
+  ticking = true;
+  let count = 0;
+  try {
+    const installations = await Installation.find({ connected: true, syncEnabled: true });
+    for (const installation of installations) {
+      try {
+        const result = await triggerDeltaSync(installation);
+        if (result) count++;
+      } catch (err) {
+        logger.error('Scheduled delta sync failed', {
+          instanceId: installation.instanceId,
+          error: (err as Error).message,
+        });
+      }
+    }
+  } catch (err) {
+    logger.error('Delta sync scheduler tick failed', { error: (err as Error).message });
+  } finally {
+    ticking = false;
+  }
+  return count;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Lifecycle
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Interval handle — used to stop the scheduler on shutdown. */
+let intervalHandle: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Starts the periodic delta sync.
+ *
+ * Call once at app boot after connecting to MongoDB. Calling it again
+ * while running, or with `deltaSyncIntervalMs` set to 0, is a no-op.
+ */
+export function startDeltaSyncScheduler(): void {
+  if (intervalHandle) {
+    logger.debug('Delta sync scheduler already running — skipping start');
+    return;
+  }
+  if (config.deltaSyncIntervalMs <= 0) {
+    logger.info('Delta sync scheduler disabled (DELTA_SYNC_INTERVAL_MS=0)');
+    return;
+  }
+
+  logger.info('Starting delta sync scheduler', { intervalMs: config.deltaSyncIntervalMs });
+
+  intervalHandle = setInterval(() => {
+    runScheduledDeltaSyncs().catch(() => {
+      /* logged inside */
+    });
+  }, config.deltaSyncIntervalMs);
+
+  // Allow the process to exit even if the timer is still scheduled
+  if (intervalHandle && typeof intervalHandle === 'object' && 'unref' in intervalHandle) {
+    intervalHandle.unref();
+  }
+}
+
+/** Stops the scheduler. A sweep already in progress is left to finish. */
+export function stopDeltaSyncScheduler(): void {
+  if (intervalHandle) {
+    clearInterval(intervalHandle);
+    intervalHandle = null;
+    logger.info('Delta sync scheduler stopped');
+  }
+}
+
+/** Returns `true` if the scheduler is currently running. */
+export function isDeltaSyncSchedulerRunning(): boolean {
+  return intervalHandle !== null;
+}
@@ -13,18 +13,37 @@
 //   5. validateRules          — catch duplicates, unknown fields, etc.
 //   6. getWixFieldRegistry    — mappable Wix fields with labels (for UI)
 //   7. applyTransform         — apply a single FieldTransform
+//      applyTransformChain    — apply a rule's transform chain in one direction
 //   8. flattenWixContact      — normalise nested Wix contact → FlatContact
 //   9. seedDefaultMappings    — ensure the 4 undeletable defaults exist
 //  10. invalidateRulesCache   — force a fresh load on the next call
+//  11. loadWixFieldRegistry   — registry + the site's custom extended fields
+//  12. applyOptionMap         — map a value onto enumeration options
+//  13. indexPropertyOptions   — option values per HubSpot enumeration property
+//  14. combineFields / splitValue — composite (several Wix fields ↔ one
+//      HubSpot property) mappings
+//  15. ruleWixFields          — the Wix fields a rule reads and writes
+//
+// Custom extended fields are mapped by their Wix key (`custom.*`) and are
+// read from / written to `info.extendedFields.items`.
 // =============================================================================
 import FieldMapping, { IFieldMapping, DEFAULT_FIELD_MAPPINGS } from '../models/FieldMapping';
+import { IInstallation } from '../models/Installation';
 import { fetchCustomProperties } from './hubspotProperties';
+import { listWixExtendedFields, WixExtendedField } from './wixContacts';
 import logger from '../utils/logger';
+import { formatE164, formatNational, parsePhoneNumber, resolvePhoneRegion } from '../utils/phoneNumbers';
 import {
+  CompositeMapping,
+  ConflictStrategy,
   FlatContact,
   FieldTransform,
   SyncDirection,
   FieldOption,
+  MappingWarning,
+  OptionMapEntry,
+  TransformStep,
+  TransformStepType,
 } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -34,6 +53,12 @@ import {
 /** Cache TTL — 30 seconds */
 const RULES_CACHE_TTL_MS = 30_000;
 
+/** Extended-field schema cache TTL — 5 minutes */
+const EXTENDED_FIELDS_CACHE_TTL_MS = 5 * 60_000;
+
+/** Key prefix of Wix custom extended fields */
+const EXTENDED_FIELD_PREFIX = 'custom.';
+
 /**
  * The four default mappings that always apply and can never be deleted.
  * Stored as a set of composite keys for fast lookup.
@@ -80,22 +105,128 @@ const WIX_FIELD_REGISTRY: FieldOption[] = [
 
   // ── Extended fields (Wix custom fields) ──
   { value: 'locale',       label: 'Locale',         type: 'string', description: 'e.g. en-US' },
-  { value: 'labelIds',     label: 'Labels',         type: 'array',  description: 'Wix contact label IDs' },
+  { value: 'labelIds',     label: 'Labels',         type: 'array',  description: 'Wix contact label keys (synced as label names)' },
 ];
 
 /** Valid Wix field names — used for fast validation */
 const VALID_WIX_FIELDS = new Set(WIX_FIELD_REGISTRY.map((f) => f.value));
 
+/** Per-field conflict strategies accepted on a mapping rule */
+const VALID_CONFLICT_STRATEGIES = new Set<ConflictStrategy>([
+  'newest_wins',
+  'source_of_truth_wix',
+  'source_of_truth_hubspot',
+  'never_overwrite_non_empty',
+]);
+
+/** Transform chain step types accepted on a mapping rule */
+const VALID_TRANSFORM_STEPS = new Set<TransformStepType>([
+  'trim',
+  'lowercase',
+  'uppercase',
+  'titlecase',
+  'phone_e164',
+  'phone_national',
+  'date',
+  'regex_replace',
+  'default_if_empty',
+  'truncate',
+  'value_map',
+]);
+
+/** Flags accepted on a `regex_replace` step */
+const VALID_REGEX_FLAGS = /^[gimsu]*$/;
+
+/** Check whether a value is a known {@link ConflictStrategy} */
+export function isValidConflictStrategy(value: unknown): value is ConflictStrategy {
+  return typeof value === 'string' && VALID_CONFLICT_STRATEGIES.has(value as ConflictStrategy);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 6. Get Wix Field Registry (for UI dropdowns)
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Registry type of a Wix extended field data type */
+const EXTENDED_FIELD_TYPES: Record<string, string> = {
+  TEXT: 'string',
+  URL: 'string',
+  NUMBER: 'number',
+  DATE: 'date',
+};
+
+/** `true` for a Wix custom extended field key (`custom.*`) */
+export function isWixExtendedField(wixField: string): boolean {
+  return wixField.startsWith(EXTENDED_FIELD_PREFIX);
+}
+
+/** The custom extended field values in a flat Wix field object */
+export function pickExtendedFields(props: FlatContact): Record<string, string> {
+  const items: Record<string, string> = {};
+  for (const [key, value] of Object.entries(props)) {
+    if (isWixExtendedField(key) && value !== undefined) items[key] = value;
+  }
+  return items;
+}
+
 /**
  * Returns every mappable Wix contact field with a human-readable label.
  * Used by the dashboard UI to populate field-picker dropdowns.
+ *
+ * @param extendedFields — The site's custom fields, appended after the
+ *                         static registry
+ */
+export function getWixFieldRegistry(extendedFields: WixExtendedField[] = []): FieldOption[] {
+  return [
+    ...WIX_FIELD_REGISTRY,
+    ...extendedFields.map((f) => ({
+      value: f.key,
+      label: f.displayName || f.key,
+      type: EXTENDED_FIELD_TYPES[f.dataType] ?? 'string',
+      description: 'Custom Wix contact field',
+    })),
+  ];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 11. Load Wix Field Registry (static + extended fields)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const extendedFieldsCache = new Map<string, { fields: WixExtendedField[]; expiresAt: number }>();
+
+/** The site's custom fields (cached), or `null` if Wix cannot be reached */
+async function loadExtendedFields(installation: IInstallation): Promise<WixExtendedField[] | null> {
+  const instanceId = installation.instanceId;
+  const cached = extendedFieldsCache.get(instanceId);
+  if (cached && Date.now() < cached.expiresAt) return cached.fields;
+
+  try {
+    const fields = await listWixExtendedFields(installation);
+    extendedFieldsCache.set(instanceId, { fields, expiresAt: Date.now() + EXTENDED_FIELDS_CACHE_TTL_MS });
+    return fields;
+  } catch (err) {
+    logger.warn('Wix extended fields unavailable', { instanceId, error: (err as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Returns the static registry merged with the site's custom extended
+ * fields, fetched from the Wix Contacts extended fields API and cached for
+ * five minutes. If Wix cannot be reached, the static registry is returned.
+ *
+ * @param installation — Installation whose site schema is read
+ */
+export async function loadWixFieldRegistry(installation: IInstallation): Promise<FieldOption[]> {
+  return getWixFieldRegistry((await loadExtendedFields(installation)) ?? []);
+}
+
+/**
+ * Keys of the site's custom extended fields, for `validateRules`. `null`
+ * (skip the check) if Wix cannot be reached.
  */
-export function getWixFieldRegistry(): FieldOption[] {
-  return [...WIX_FIELD_REGISTRY];
+export async function loadWixExtendedFieldKeys(installation: IInstallation): Promise<Set<string> | null> {
+  const fields = await loadExtendedFields(installation);
+  return fields ? new Set(fields.map((f) => f.key)) : null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -154,26 +285,58 @@ export function invalidateRulesCache(instanceId: string): void {
 /** Clear the entire rules cache (for testing). */
 export function clearAllRulesCache(): void {
   rulesCache.clear();
+  extendedFieldsCache.clear();
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // 7. Apply Transform
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** What a transform knows about the contact, and where it reports problems */
+export interface TransformContext {
+  /** ISO 3166-1 alpha-2 region for phone numbers without a country code */
+  phoneRegion?: string;
+  /** Called with a PII-free message when a value can't be converted */
+  warn?: (message: string) => void;
+}
+
+/**
+ * Reads a phone number in the context's region and formats it as E.164 or
+ * in the region's national format. Unreadable numbers are reported and
+ * become `''` so they are never written.
+ */
+function convertPhone(value: string, format: 'e164' | 'national', context: TransformContext): string {
+  const phone = parsePhoneNumber(value, context.phoneRegion);
+  if (!phone) {
+    context.warn?.(
+      context.phoneRegion
+        ? `Phone number could not be read as an international or ${context.phoneRegion} number`
+        : 'Phone number has no country code, and neither a default phone region nor an address country is set',
+    );
+    return '';
+  }
+  return format === 'e164' ? formatE164(phone) : formatNational(phone, context.phoneRegion);
+}
+
 /**
  * Applies a single {@link FieldTransform} to a value.
  *
- * | Transform   | Effect                              |
- * |-------------|-------------------------------------|
- * | `none`      | Pass through unchanged              |
- * | `trim`      | Remove leading/trailing whitespace  |
- * | `lowercase` | Convert to lower case               |
- * | `uppercase` | Convert to UPPER CASE               |
- * | `phone_e164`| Strip non-digits, prefix with +1    |
+ * | Transform        | Effect                                      |
+ * |------------------|---------------------------------------------|
+ * | `none`           | Pass through unchanged                      |
+ * | `trim`           | Remove leading/trailing whitespace          |
+ * | `lowercase`      | Convert to lower case                       |
+ * | `uppercase`      | Convert to UPPER CASE                       |
+ * | `phone_e164`     | E.164, reading national numbers in `context.phoneRegion` |
+ * | `phone_national` | `context.phoneRegion`'s national format     |
+ *
+ * Phone numbers that can't be read are reported to `context.warn` and
+ * become `''`.
  */
 export function applyTransform(
   value: string | undefined,
   transform: FieldTransform,
+  context: TransformContext = {},
 ): string {
   if (value === undefined || value === null || value === '') return '';
   switch (transform) {
@@ -183,16 +346,311 @@ export function applyTransform(
       return value.toUpperCase();
     case 'trim':
       return value.trim();
-    case 'phone_e164': {
-      const digits = value.replace(/\D/g, '');
-      return digits.startsWith('1') ? `+${digits}` : `+1${digits}`;
-    }
+    case 'phone_e164':
+      return convertPhone(value, 'e164', context);
+    case 'phone_national':
+      return convertPhone(value, 'national', context);
     case 'none':
     default:
       return value;
   }
 }
 
+/** The direction a transform chain is being applied in */
+export type TransformDirection = Exclude<SyncDirection, 'bidirectional'>;
+
+/**
+ * Reads a Wix ISO date or a HubSpot epoch-millis date and writes it in the
+ * target's format: midnight-UTC epoch millis for HubSpot, `YYYY-MM-DD` for
+ * Wix. Unparseable input becomes `''` so it is never written.
+ */
+function convertDate(value: string, direction: TransformDirection): string {
+  const ms = /^-?\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(ms)) return '';
+  const date = new Date(ms);
+  if (direction === 'hubspot_to_wix') return date.toISOString().slice(0, 10);
+  return String(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/** Looks a value up in a `value_map` table, inverted for HubSpot → Wix */
+function lookUpValue(
+  value: string,
+  valueMap: TransformStep['valueMap'],
+  direction: TransformDirection,
+): string {
+  for (const { from, to } of valueMap ?? []) {
+    const [key, result] = direction === 'wix_to_hubspot' ? [from, to] : [to, from];
+    if (key === value) return result;
+  }
+  return value;
+}
+
+/** Applies one chain step; empty input only reaches `default_if_empty` */
+function applyTransformStep(
+  value: string,
+  step: TransformStep,
+  direction: TransformDirection,
+  context: TransformContext,
+): string {
+  if (step.type === 'default_if_empty') return value === '' ? step.value ?? '' : value;
+  if (value === '') return '';
+
+  switch (step.type) {
+    case 'titlecase':
+      return value
+        .toLowerCase()
+        .replace(/(^|[\s-])(\p{L})/gu, (_m, sep: string, ch: string) => sep + ch.toUpperCase());
+    case 'date':
+      return convertDate(value, direction);
+    case 'regex_replace':
+      try {
+        return value.replace(new RegExp(step.pattern ?? '', step.flags ?? 'g'), step.replacement ?? '');
+      } catch {
+        // Saved rules are validated; an invalid pattern passes the value through
+        return value;
+      }
+    case 'truncate':
+      return step.length && step.length > 0 ? value.slice(0, step.length) : value;
+    case 'value_map':
+      return lookUpValue(value, step.valueMap, direction);
+    case 'phone_national':
+      // HubSpot stores E.164; only Wix gets the national format
+      return convertPhone(value, direction === 'wix_to_hubspot' ? 'e164' : 'national', context);
+    default:
+      return applyTransform(value, step.type, context);
+  }
+}
+
+/** A rule's full chain: the legacy single `transform` first, then `transforms` */
+function transformChainOf(rule: Pick<IFieldMapping, 'transform' | 'transforms'>): TransformStep[] {
+  const chain = rule.transforms ?? [];
+  return rule.transform && rule.transform !== 'none' ? [{ type: rule.transform }, ...chain] : chain;
+}
+
+/**
+ * Runs a transform chain over a value, step by step in the order written.
+ * `date`, `value_map` and `phone_national` steps are direction-aware (see
+ * {@link TransformStep}); the rest behave the same both ways.
+ *
+ * @param value     — Source value (`undefined` is treated as empty)
+ * @param steps     — Chain to apply
+ * @param direction — Which way the value is flowing
+ * @param context   — Phone region and warning sink for this contact
+ * @returns         — Transformed value; `''` means "nothing to write"
+ */
+export function applyTransformChain(
+  value: string | undefined,
+  steps: TransformStep[],
+  direction: TransformDirection,
+  context: TransformContext = {},
+): string {
+  return steps.reduce((acc, step) => applyTransformStep(acc, step, direction, context), value ?? '');
+}
+
+/** Per-contact options for {@link wixToHubSpot} and {@link hubSpotToWix} */
+export interface MappingOptions {
+  /** Installation's default phone region (`installation.phoneRegion`) */
+  phoneRegion?: string;
+  /** Contact's address country, used when there is no default phone region */
+  country?: string;
+  /** Collects the values that could not be converted and were left out */
+  warnings?: MappingWarning[];
+}
+
+/** Transform context for one rule of one contact */
+function ruleContext(field: string, phoneRegion: string | undefined, options: MappingOptions): TransformContext {
+  return {
+    phoneRegion,
+    warn: (message) => options.warnings?.push({ field, message }),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 12. Enumeration option mapping
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Maps one value; see {@link applyOptionMap} */
+function mapOption(
+  value: string,
+  optionMap: OptionMapEntry[],
+  fallback: string | undefined,
+  direction: TransformDirection,
+): string {
+  if (direction === 'hubspot_to_wix') {
+    return optionMap.find((p) => p.hubspotValue === value)?.wixValue ?? value;
+  }
+
+  const folded = value.trim().toLowerCase();
+  const pair =
+    optionMap.find((p) => p.wixValue === value) ??
+    optionMap.find((p) => p.wixValue.trim().toLowerCase() === folded);
+  if (pair) return pair.hubspotValue;
+  if (optionMap.some((p) => p.hubspotValue === value)) return value;
+  return fallback || value;
+}
+
+/**
+ * Maps a value through a rule's enumeration pairs. Multi-select values
+ * (`a;b`) are mapped one by one.
+ *
+ * Wix → HubSpot: a paired Wix value (case-insensitive) becomes its option, a
+ * value that already is one of the paired options is kept, anything else
+ * becomes `fallback` — or is sent unchanged when there is no fallback.
+ * HubSpot → Wix: an option becomes the first Wix value paired with it;
+ * unpaired options are copied unchanged.
+ *
+ * @param value     — Value after the rule's transform chain
+ * @param optionMap — The rule's Wix value ↔ HubSpot option pairs
+ * @param fallback  — HubSpot option for unpaired Wix values
+ * @param direction — Which way the value is flowing
+ */
+export function applyOptionMap(
+  value: string,
+  optionMap: OptionMapEntry[],
+  fallback: string | undefined,
+  direction: TransformDirection,
+): string {
+  if (value === '' || (optionMap.length === 0 && !fallback)) return value;
+  const mapped = value
+    .split(';')
+    .map((part) => mapOption(part, optionMap, fallback, direction))
+    .filter((part) => part !== '');
+  return [...new Set(mapped)].join(';');
+}
+
+/**
+ * Indexes the option values of every enumeration property, for
+ * {@link validateRules}.
+ *
+ * @param properties — HubSpot properties from `fetchCustomProperties`
+ */
+export function indexPropertyOptions(properties: FieldOption[]): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const property of properties) {
+    if (property.options) index.set(property.value, property.options.map((o) => o.value));
+  }
+  return index;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 14. Composite mappings
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** `{field}` placeholders in a composite template */
+const TEMPLATE_PLACEHOLDER = /\{([^}]+)\}/g;
+
+/** Default separator when a composite rule has no template or delimiter */
+const DEFAULT_COMPOSITE_DELIMITER = ' ';
+
+/** `wixField` of a composite rule: its fields joined with `+` */
+export function compositeWixField(composite: CompositeMapping): string {
+  return composite.wixFields.join('+');
+}
+
+/** The Wix fields a rule reads and writes — several for a composite rule */
+export function ruleWixFields(rule: { wixField: string; composite?: CompositeMapping }): string[] {
+  return rule.composite?.wixFields?.length ? rule.composite.wixFields : [rule.wixField];
+}
+
+/** Field names used by a template, in order */
+function templateFields(template: string): string[] {
+  return [...template.matchAll(TEMPLATE_PLACEHOLDER)].map((m) => m[1]);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex that reads a template back: each placeholder becomes a group, a
+ * whitespace-only separator matches any whitespace and other separators
+ * tolerate extra or missing spaces.
+ */
+function templatePattern(template: string): RegExp {
+  const pieces = template.split(/\{[^}]+\}/);
+  const source = pieces
+    .map((literal, i) => {
+      const text = /^\s+$/.test(literal)
+        ? '\\s+'
+        : escapeRegExp(literal).replace(/\s+/g, '\\s*');
+      return i < pieces.length - 1 ? `${text}(.*?)` : text;
+    })
+    .join('');
+  return new RegExp(`^\\s*${source}\\s*$`);
+}
+
+/**
+ * Combines a contact's Wix fields into one HubSpot value. Separators left
+ * around empty fields are tidied away, so a missing city gives
+ * `"1 Main St, 12345"` rather than `"1 Main St,  12345"`.
+ *
+ * @param flat      — Flattened Wix contact
+ * @param composite — The rule's composite settings
+ * @returns         — Combined value, `''` when every field is empty
+ */
+export function combineFields(flat: FlatContact, composite: CompositeMapping): string {
+  const values = composite.wixFields.map((f) => (flat[f] ?? '').trim());
+  if (values.every((v) => v === '')) return '';
+
+  if (!composite.template) {
+    return values.filter(Boolean).join(composite.delimiter ?? DEFAULT_COMPOSITE_DELIMITER);
+  }
+  return composite.template
+    .replace(TEMPLATE_PLACEHOLDER, (_m, field: string) => (flat[field] ?? '').trim())
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,;])/g, '$1')
+    .replace(/([,;])(?:\s*[,;])+/g, '$1')
+    .replace(/^[\s,;]+|[\s,;]+$/g, '');
+}
+
+/**
+ * Splits one HubSpot value into the rule's Wix fields (see
+ * {@link CompositeMapping} for the order of split methods). Fields that end
+ * up empty are left out; a value the pattern or template does not match
+ * gives `{}`.
+ *
+ * @param value     — HubSpot value after the rule's transform chain
+ * @param composite — The rule's composite settings
+ */
+export function splitValue(value: string, composite: CompositeMapping): FlatContact {
+  const { wixFields } = composite;
+  const parts: FlatContact = {};
+  if (value === '') return parts;
+
+  const assign = (field: string, part: string | undefined) => {
+    const trimmed = part?.trim();
+    if (trimmed) parts[field] = trimmed;
+  };
+
+  if (composite.splitPattern || (composite.template && !composite.delimiter)) {
+    let match: RegExpExecArray | null;
+    try {
+      match = composite.splitPattern
+        ? new RegExp(composite.splitPattern).exec(value)
+        : templatePattern(composite.template!).exec(value);
+    } catch {
+      // Saved rules are validated; an invalid pattern writes nothing
+      return parts;
+    }
+    if (!match) return parts;
+
+    const order = composite.splitPattern ? wixFields : templateFields(composite.template!);
+    if (match.groups && wixFields.some((f) => match!.groups![f] !== undefined)) {
+      for (const field of wixFields) assign(field, match.groups[field]);
+    } else {
+      order.forEach((field, i) => assign(field, match![i + 1]));
+    }
+    return parts;
+  }
+
+  const delimiter = composite.delimiter || DEFAULT_COMPOSITE_DELIMITER;
+  const pieces = value.split(delimiter);
+  wixFields.forEach((field, i) => {
+    assign(field, i < wixFields.length - 1 ? pieces[i] : pieces.slice(i).join(delimiter));
+  });
+  return parts;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 8. Flatten a Wix contact object → FlatContact
 // ─────────────────────────────────────────────────────────────────────────────
@@ -208,7 +666,17 @@ export function flattenWixContact(wc: Record<string, any>): FlatContact {
   const addr = wc.info?.addresses?.items?.[0] ?? wc.info?.addresses?.[0] ?? {};
   const emailVal = wc.info?.emails?.items?.[0]?.email ?? wc.info?.emails?.[0]?.email ?? wc.primaryInfo?.email ?? wc.primaryEmail ?? '';
   const phoneVal = wc.info?.phones?.items?.[0]?.phone ?? wc.info?.phones?.[0]?.phone ?? wc.primaryPhone ?? '';
+  const labelKeys = wc.info?.labelKeys?.items ?? wc.labelKeys?.items ?? wc.labelKeys;
+
+  // Custom extended fields keep their Wix key; values are stringified
+  const extended: FlatContact = {};
+  const extendedItems: Record<string, unknown> = wc.info?.extendedFields?.items ?? {};
+  for (const [key, value] of Object.entries(extendedItems)) {
+    if (isWixExtendedField(key) && value !== null && value !== undefined) extended[key] = String(value);
+  }
+
   return {
+    ...extended,
     firstName:    wc.info?.name?.first      ?? wc.firstName    ?? '',
     lastName:     wc.info?.name?.last       ?? wc.lastName     ?? '',
     primaryEmail: emailVal,
@@ -223,6 +691,7 @@ export function flattenWixContact(wc: Record<string, any>): FlatContact {
     country:      addr.country               ?? wc.country      ?? '',
     website:      wc.info?.urls?.[0]?.url    ?? wc.website      ?? '',
     locale:       wc.info?.locale            ?? wc.locale       ?? '',
+    labelIds:     Array.isArray(labelKeys) ? labelKeys.join(';') : '',
 
     // Legacy compat aliases used by the sync engine
     email: emailVal,
@@ -238,27 +707,44 @@ export function flattenWixContact(wc: Record<string, any>): FlatContact {
  * Converts a Wix contact into HubSpot properties using the given rules.
  *
  * Only rules whose direction is `'bidirectional'` or `'wix_to_hubspot'`
- * are applied.
+ * are applied. A composite rule first combines its Wix fields. Each value
+ * runs through the rule's transform chain and then its enumeration pairs;
+ * values that end up empty are left out.
+ *
+ * Phone numbers are read in the installation's default phone region, else
+ * the contact's address country; unreadable ones go to `options.warnings`.
  *
  * @param wixContact — Raw Wix contact object (nested or flat)
  * @param rules      — Active mapping rules for this instance
+ * @param options    — Default phone region and warning sink
  * @returns          — Flat HubSpot properties object
  */
 export function wixToHubSpot(
   wixContact: Record<string, any>,
   rules: IFieldMapping[],
+  options: MappingOptions = {},
 ): FlatContact {
   const flat = flattenWixContact(wixContact);
+  const phoneRegion = resolvePhoneRegion(options.phoneRegion, options.country, flat.country);
   const result: FlatContact = {};
 
   for (const rule of rules) {
     if (!rule.isActive) continue;
     if (rule.direction !== 'bidirectional' && rule.direction !== 'wix_to_hubspot') continue;
 
-    const raw = flat[rule.wixField];
-    if (raw !== undefined && raw !== '') {
-      result[rule.hubspotField] = applyTransform(raw, rule.transform);
-    }
+    const source = rule.composite ? combineFields(flat, rule.composite) : flat[rule.wixField];
+    const value = applyOptionMap(
+      applyTransformChain(
+        source,
+        transformChainOf(rule),
+        'wix_to_hubspot',
+        ruleContext(rule.hubspotField, phoneRegion, options),
+      ),
+      rule.optionMap ?? [],
+      rule.optionFallback,
+      'wix_to_hubspot',
+    );
+    if (value !== '') result[rule.hubspotField] = value;
   }
 
   return result;
@@ -273,26 +759,40 @@ export function wixToHubSpot(
  * given rules.
  *
  * Only rules whose direction is `'bidirectional'` or `'hubspot_to_wix'`
- * are applied.
+ * are applied. The transform chain and enumeration pairs run in their
+ * HubSpot → Wix sense; a composite rule splits the value into its fields.
+ * Phone numbers are read as in {@link wixToHubSpot}; pass the Wix contact's
+ * address country as `options.country` when the caller has it.
  *
  * @param hubspotProps — Flat HubSpot properties object (`{ firstname: "…", … }`)
  * @param rules        — Active mapping rules for this instance
+ * @param options      — Default phone region, address country and warning sink
  * @returns            — Flat Wix field object
  */
 export function hubSpotToWix(
   hubspotProps: FlatContact,
   rules: IFieldMapping[],
+  options: MappingOptions = {},
 ): FlatContact {
+  const phoneRegion = resolvePhoneRegion(options.phoneRegion, options.country);
   const result: FlatContact = {};
 
   for (const rule of rules) {
     if (!rule.isActive) continue;
     if (rule.direction !== 'bidirectional' && rule.direction !== 'hubspot_to_wix') continue;
 
-    const raw = hubspotProps[rule.hubspotField];
-    if (raw !== undefined && raw !== '') {
-      result[rule.wixField] = applyTransform(raw, rule.transform);
+    const transformed = applyTransformChain(
+      hubspotProps[rule.hubspotField],
+      transformChainOf(rule),
+      'hubspot_to_wix',
+      ruleContext(rule.wixField, phoneRegion, options),
+    );
+    if (rule.composite) {
+      Object.assign(result, splitValue(transformed, rule.composite));
+      continue;
     }
+    const value = applyOptionMap(transformed, rule.optionMap ?? [], undefined, 'hubspot_to_wix');
+    if (value !== '') result[rule.wixField] = value;
   }
 
   return result;
@@ -302,25 +802,47 @@ export function hubSpotToWix(
 // 5. Validation
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** A single validation error. */
+/** A single validation error, or a warning that does not block saving. */
 export interface ValidationError {
   field: string;
   message: string;
+  severity?: 'warning';
 }
 
+/** `true` for a {@link ValidationError} that only warns */
+export function isValidationWarning(error: ValidationError): boolean {
+  return error.severity === 'warning';
+}
+
+/** Longest list of unpaired options quoted in a warning */
+const MAX_LISTED_OPTIONS = 10;
+
 /**
  * Validates a set of mapping rules and returns any errors found.
  *
  * Checks:
  *   1. Duplicate HubSpot property in the same effective direction.
- *   2. Wix field name does not exist in the field registry.
+ *   2. Wix field name does not exist in the field registry, or is a
+ *      custom extended field (`custom.*`) the site does not have
+ *      (requires the `wixExtendedFields` list — pass `null` to skip).
  *   3. HubSpot property name does not exist in the portal
  *      (requires the `hubspotProperties` list — pass `null` to skip).
- *   4. Missing required fields (wixField, hubspotField).
+ *   4. Missing required fields (wixField — or `composite` — and hubspotField).
+ *   5. Transform chain steps: known type and the options each type needs
+ *      (see {@link validateTransformChain}).
+ *   6. Enumeration pairs: well-formed, and — with `hubspotOptions` — paired
+ *      to real options, plus warnings for values that have no pair
+ *      (see {@link validateOptionMap}).
+ *   7. Composite rules: known Wix fields and a template / split that fits
+ *      them (see {@link validateComposite}).
+ *   8. The same Wix field + HubSpot property pair in two rules, in any
+ *      directions — only one rule per pair can be stored.
  *
  * @param rules              — Array of rules to validate
  * @param hubspotProperties  — Known HS property names (pass null to skip HS check)
- * @returns                  — Array of validation errors (empty = valid)
+ * @param wixExtendedFields  — Known Wix custom field keys (pass null to skip)
+ * @param hubspotOptions     — Option values per enumeration property (pass null to skip)
+ * @returns                  — Errors and warnings; valid when no entry is an error
  */
 export function validateRules(
   rules: Array<{
@@ -328,36 +850,56 @@ export function validateRules(
     hubspotField: string;
     direction: SyncDirection;
     transform?: FieldTransform;
+    transforms?: TransformStep[];
+    optionMap?: OptionMapEntry[];
+    optionFallback?: string;
+    composite?: CompositeMapping;
+    conflictStrategy?: ConflictStrategy;
   }>,
   hubspotProperties: Set<string> | null = null,
+  wixExtendedFields: Set<string> | null = null,
+  hubspotOptions: Map<string, string[]> | null = null,
 ): ValidationError[] {
   const errors: ValidationError[] = [];
 
   // Track HubSpot properties per effective direction for duplicate detection
   const seenWixToHs = new Set<string>();
   const seenHsToWix = new Set<string>();
+  // Pairs already used — stored rules are unique per Wix field + HubSpot property
+  const seenPairs = new Set<string>();
 
   for (let i = 0; i < rules.length; i++) {
     const r = rules[i];
     const prefix = `rules[${i}]`;
 
-    // Missing fields
-    if (!r.wixField) {
+    // Missing fields (a composite rule names its Wix fields in `composite`)
+    if (!r.wixField && !r.composite) {
       errors.push({ field: prefix, message: 'wixField is required' });
     }
     if (!r.hubspotField) {
       errors.push({ field: prefix, message: 'hubspotField is required' });
     }
-    if (!r.wixField || !r.hubspotField) continue;
+    if ((!r.wixField && !r.composite) || !r.hubspotField) continue;
 
     // Unknown Wix field
-    if (!VALID_WIX_FIELDS.has(r.wixField)) {
+    if (r.composite) {
+      errors.push(...validateComposite(r.composite, r.direction, wixExtendedFields, `${prefix}.composite`));
+    } else {
+      const unknown = checkWixField(r.wixField, wixExtendedFields, `${prefix}.wixField`);
+      if (unknown) errors.push(unknown);
+    }
+
+    // Unknown conflict strategy (omitted = newest_wins)
+    if (r.conflictStrategy && !VALID_CONFLICT_STRATEGIES.has(r.conflictStrategy)) {
       errors.push({
-        field: `${prefix}.wixField`,
-        message: `Unknown Wix field: "${r.wixField}". Valid fields: ${[...VALID_WIX_FIELDS].join(', ')}`,
+        field: `${prefix}.conflictStrategy`,
+        message: `Unknown conflict strategy: "${r.conflictStrategy}". Valid strategies: ${[...VALID_CONFLICT_STRATEGIES].join(', ')}`,
       });
     }
 
+    errors.push(...validateTransformChain(r.transforms, r.direction, `${prefix}.transforms`));
+    errors.push(...validateOptionMap(r, hubspotOptions?.get(r.hubspotField) ?? null, prefix));
+
     // Unknown HubSpot property (only if list was provided)
     if (hubspotProperties && !hubspotProperties.has(r.hubspotField)) {
       errors.push({
@@ -366,6 +908,17 @@ export function validateRules(
       });
     }
 
+    // The same pair twice, whatever the directions, cannot be stored
+    const pair = `${r.wixField}\u0000${r.hubspotField}`;
+    if (seenPairs.has(pair)) {
+      errors.push({
+        field: prefix,
+        message: `Duplicate mapping "${r.wixField}" ↔ "${r.hubspotField}" — a pair can only be mapped once; use direction "bidirectional" to sync both ways`,
+      });
+      continue;
+    }
+    seenPairs.add(pair);
+
     // Duplicate HubSpot property per direction
     const effectiveDirections: string[] = [];
     if (r.direction === 'wix_to_hubspot' || r.direction === 'bidirectional') {
@@ -376,20 +929,270 @@ export function validateRules(
     }
 
     for (const dir of effectiveDirections) {
-      const targetProp = dir === 'wix_to_hubspot' ? r.hubspotField : r.wixField;
+      const targetProps = dir === 'wix_to_hubspot' ? [r.hubspotField] : ruleWixFields(r);
       const set = dir === 'wix_to_hubspot' ? seenWixToHs : seenHsToWix;
 
-      if (set.has(targetProp)) {
+      for (const targetProp of targetProps) {
+        if (set.has(targetProp)) {
+          errors.push({
+            field: `${prefix}.${dir === 'wix_to_hubspot' ? 'hubspotField' : 'wixField'}`,
+            message: `Duplicate target "${targetProp}" in ${dir} direction — a property can only be mapped once per direction`,
+          });
+        } else {
+          set.add(targetProp);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Error for a Wix field that is not in the registry or not on the site */
+function checkWixField(
+  wixField: string,
+  wixExtendedFields: Set<string> | null,
+  path: string,
+): ValidationError | null {
+  if (isWixExtendedField(wixField)) {
+    return wixExtendedFields && !wixExtendedFields.has(wixField)
+      ? { field: path, message: `Wix custom field "${wixField}" does not exist on the site` }
+      : null;
+  }
+  return VALID_WIX_FIELDS.has(wixField)
+    ? null
+    : { field: path, message: `Unknown Wix field: "${wixField}". Valid fields: ${[...VALID_WIX_FIELDS].join(', ')}` };
+}
+
+/**
+ * Validates a composite rule:
+ *   • at least two distinct, known Wix fields (labels cannot be combined)
+ *   • a template only uses those fields, and uses each of them
+ *   • a split pattern compiles and has a group for every field
+ *   • when the rule runs HubSpot → Wix, a template without a split pattern
+ *     or delimiter has a separator between every pair of fields
+ */
+function validateComposite(
+  composite: CompositeMapping,
+  direction: SyncDirection,
+  wixExtendedFields: Set<string> | null,
+  prefix: string,
+): ValidationError[] {
+  const { wixFields, template, splitPattern, delimiter } = composite;
+  if (!Array.isArray(wixFields) || wixFields.length < 2) {
+    return [{ field: `${prefix}.wixFields`, message: 'A composite mapping needs at least two Wix fields' }];
+  }
+
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+  wixFields.forEach((field, j) => {
+    const path = `${prefix}.wixFields[${j}]`;
+    const unknown = checkWixField(field, wixExtendedFields, path);
+    if (unknown) errors.push(unknown);
+    else if (field === 'labelIds') {
+      errors.push({ field: path, message: 'Labels cannot be part of a composite mapping' });
+    }
+    if (seen.has(field)) errors.push({ field: path, message: `Wix field "${field}" is listed twice` });
+    seen.add(field);
+  });
+
+  if (template) {
+    const used = templateFields(template);
+    const unknown = used.filter((f) => !seen.has(f));
+    const unused = wixFields.filter((f) => !used.includes(f));
+    if (unknown.length > 0) {
+      errors.push({
+        field: `${prefix}.template`,
+        message: `Template uses fields that are not in the mapping: ${unknown.join(', ')}`,
+      });
+    }
+    if (unused.length > 0) {
+      errors.push({ field: `${prefix}.template`, message: `Template does not use: ${unused.join(', ')}` });
+    }
+    if (direction !== 'wix_to_hubspot' && !splitPattern && !delimiter && /\}\{/.test(template)) {
+      errors.push({
+        field: `${prefix}.template`,
+        message: 'Template needs a separator between fields to be split back into Wix — or add a split pattern',
+      });
+    }
+  }
+
+  if (splitPattern) {
+    try {
+      const groups = new RegExp(`${splitPattern}|`).exec('')!.length - 1;
+      if (groups < wixFields.length) {
         errors.push({
-          field: `${prefix}.${dir === 'wix_to_hubspot' ? 'hubspotField' : 'wixField'}`,
-          message: `Duplicate target "${targetProp}" in ${dir} direction — a property can only be mapped once per direction`,
+          field: `${prefix}.splitPattern`,
+          message: `Split pattern has ${groups} group(s) for ${wixFields.length} fields`,
         });
-      } else {
-        set.add(targetProp);
       }
+    } catch (err) {
+      errors.push({ field: `${prefix}.splitPattern`, message: `Invalid regex: ${(err as Error).message}` });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates a rule's transform chain:
+ *   • every step has a known type
+ *   • `regex_replace` has a pattern that compiles with its flags
+ *   • `default_if_empty` has a non-empty `value`
+ *   • `truncate` has a positive integer `length`
+ *   • `value_map` has at least one pair, no repeated `from` and — when the
+ *     rule runs HubSpot → Wix — no repeated `to`, so the inverse is defined
+ */
+function validateTransformChain(
+  steps: unknown,
+  direction: SyncDirection,
+  prefix: string,
+): ValidationError[] {
+  if (steps === undefined || steps === null) return [];
+  if (!Array.isArray(steps)) return [{ field: prefix, message: 'transforms must be an array' }];
+
+  const errors: ValidationError[] = [];
+  steps.forEach((step: TransformStep, i) => {
+    const field = `${prefix}[${i}]`;
+    if (!step || !VALID_TRANSFORM_STEPS.has(step.type)) {
+      errors.push({
+        field,
+        message: `Unknown transform step: "${step?.type}". Valid steps: ${[...VALID_TRANSFORM_STEPS].join(', ')}`,
+      });
+      return;
+    }
+
+    switch (step.type) {
+      case 'regex_replace': {
+        if (!step.pattern || typeof step.pattern !== 'string') {
+          errors.push({ field: `${field}.pattern`, message: 'regex_replace requires a pattern' });
+          break;
+        }
+        if (step.flags !== undefined && !VALID_REGEX_FLAGS.test(step.flags)) {
+          errors.push({ field: `${field}.flags`, message: `Unsupported regex flags: "${step.flags}"` });
+          break;
+        }
+        try {
+          new RegExp(step.pattern, step.flags ?? 'g');
+        } catch (err) {
+          errors.push({ field: `${field}.pattern`, message: `Invalid regex: ${(err as Error).message}` });
+        }
+        break;
+      }
+      case 'default_if_empty':
+        if (typeof step.value !== 'string' || step.value === '') {
+          errors.push({ field: `${field}.value`, message: 'default_if_empty requires a value' });
+        }
+        break;
+      case 'truncate':
+        if (!Number.isInteger(step.length) || (step.length as number) <= 0) {
+          errors.push({ field: `${field}.length`, message: 'truncate requires a positive whole length' });
+        }
+        break;
+      case 'value_map': {
+        const pairs = step.valueMap;
+        if (!Array.isArray(pairs) || pairs.length === 0) {
+          errors.push({ field: `${field}.valueMap`, message: 'value_map requires at least one pair' });
+          break;
+        }
+        const froms = new Set<string>();
+        const tos = new Set<string>();
+        for (const pair of pairs) {
+          if (typeof pair?.from !== 'string' || typeof pair?.to !== 'string') {
+            errors.push({ field: `${field}.valueMap`, message: 'value_map pairs need a string "from" and "to"' });
+            break;
+          }
+          if (froms.has(pair.from)) {
+            errors.push({ field: `${field}.valueMap`, message: `Duplicate value_map key "${pair.from}"` });
+          }
+          if (direction !== 'wix_to_hubspot' && tos.has(pair.to)) {
+            errors.push({
+              field: `${field}.valueMap`,
+              message: `Value "${pair.to}" is mapped more than once, so it cannot be mapped back to Wix`,
+            });
+          }
+          froms.add(pair.from);
+          tos.add(pair.to);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+  return errors;
+}
+
+/**
+ * Validates a rule's enumeration pairs. Always checks their shape and that
+ * no Wix value is paired twice. With the property's `options`:
+ *   • errors for pairs or a fallback that are not options of the property
+ *   • a warning when Wix → HubSpot has no fallback, since unpaired Wix
+ *     values are sent unchanged and HubSpot rejects non-options
+ *   • a warning listing options with no pair when HubSpot → Wix applies
+ */
+function validateOptionMap(
+  rule: {
+    hubspotField: string;
+    direction: SyncDirection;
+    optionMap?: OptionMapEntry[];
+    optionFallback?: string;
+  },
+  options: string[] | null,
+  prefix: string,
+): ValidationError[] {
+  const pairs = rule.optionMap ?? [];
+  if (!Array.isArray(pairs)) return [{ field: `${prefix}.optionMap`, message: 'optionMap must be an array' }];
+
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+  for (const pair of pairs) {
+    if (!pair?.wixValue || !pair?.hubspotValue) {
+      errors.push({ field: `${prefix}.optionMap`, message: 'Each value pair needs a Wix value and a HubSpot option' });
+      return errors;
+    }
+    if (seen.has(pair.wixValue)) {
+      errors.push({ field: `${prefix}.optionMap`, message: `Wix value "${pair.wixValue}" is paired more than once` });
+    }
+    seen.add(pair.wixValue);
+  }
+  if (!options) return errors;
+
+  const allowed = new Set(options);
+  for (const pair of pairs) {
+    if (!allowed.has(pair.hubspotValue)) {
+      errors.push({
+        field: `${prefix}.optionMap`,
+        message: `"${pair.hubspotValue}" is not an option of HubSpot property "${rule.hubspotField}"`,
+      });
     }
   }
+  if (rule.optionFallback && !allowed.has(rule.optionFallback)) {
+    errors.push({
+      field: `${prefix}.optionFallback`,
+      message: `Fallback "${rule.optionFallback}" is not an option of HubSpot property "${rule.hubspotField}"`,
+    });
+  }
 
+  if (rule.direction !== 'hubspot_to_wix' && !rule.optionFallback) {
+    errors.push({
+      field: `${prefix}.optionFallback`,
+      message: `Wix values without a pair are sent unchanged and HubSpot rejects any that are not options of "${rule.hubspotField}" — add pairs or a fallback`,
+      severity: 'warning',
+    });
+  }
+  if (rule.direction !== 'wix_to_hubspot') {
+    const paired = new Set(pairs.map((p) => p.hubspotValue));
+    const unpaired = options.filter((o) => !paired.has(o));
+    if (unpaired.length > 0) {
+      const listed = unpaired.slice(0, MAX_LISTED_OPTIONS).join(', ');
+      const more = unpaired.length > MAX_LISTED_OPTIONS ? ` and ${unpaired.length - MAX_LISTED_OPTIONS} more` : '';
+      errors.push({
+        field: `${prefix}.optionMap`,
+        message: `HubSpot options without a Wix value are copied to Wix unchanged: ${listed}${more}`,
+        severity: 'warning',
+      });
+    }
+  }
   return errors;
 }
 
@@ -402,39 +1205,54 @@ export interface SaveRulesInput {
   hubspotField: string;
   direction: SyncDirection;
   transform: FieldTransform;
+  transforms?: TransformStep[];
+  optionMap?: OptionMapEntry[];
+  optionFallback?: string;
+  composite?: CompositeMapping;
+  conflictStrategy?: ConflictStrategy;
 }
 
 export interface SaveRulesResult {
   ok: boolean;
   rules?: IFieldMapping[];
   errors?: ValidationError[];
+  /** Non-blocking findings, e.g. enumeration values without a pair */
+  warnings?: ValidationError[];
 }
 
 /**
  * Replaces all non-default mapping rules for an instance with a new set.
  *
  * Steps:
- *   1. Validate the incoming rules (duplicates, unknown fields).
+ *   1. Validate the incoming rules (duplicates, unknown fields); warnings
+ *      are returned with the result but do not block the save.
  *   2. Delete existing custom (non-default) rules.
  *   3. Insert new custom rules.
- *   4. Ensure the 4 undeletable defaults still exist.
+ *   4. Ensure the 4 undeletable defaults still exist, and apply the
+ *      direction, transforms and conflict strategy sent for any of them.
  *   5. Invalidate the in-memory rules cache.
  *
  * @param instanceId          — Wix site instance
  * @param incoming            — New rules to save
  * @param hubspotPropertyNames — Known HS property names (for validation)
+ * @param wixExtendedFieldKeys — Known Wix custom field keys (for validation)
+ * @param hubspotOptions       — Option values per enumeration property (for validation)
  * @returns                   — Result with either the saved rules or errors
  */
 export async function saveMappingRules(
   instanceId: string,
   incoming: SaveRulesInput[],
   hubspotPropertyNames: Set<string> | null = null,
+  wixExtendedFieldKeys: Set<string> | null = null,
+  hubspotOptions: Map<string, string[]> | null = null,
 ): Promise<SaveRulesResult> {
   // Validate
-  const validationErrors = validateRules(incoming, hubspotPropertyNames);
+  const findings = validateRules(incoming, hubspotPropertyNames, wixExtendedFieldKeys, hubspotOptions);
+  const validationErrors = findings.filter((f) => !isValidationWarning(f));
   if (validationErrors.length > 0) {
     return { ok: false, errors: validationErrors };
   }
+  const warnings = findings.filter(isValidationWarning);
 
   try {
     // Remove custom rules (keep defaults)
@@ -450,10 +1268,15 @@ export async function saveMappingRules(
       await FieldMapping.insertMany(
         customRules.map((r) => ({
           instanceId,
-          wixField: r.wixField,
+          wixField: r.composite ? compositeWixField(r.composite) : r.wixField,
           hubspotField: r.hubspotField,
           direction: r.direction,
           transform: r.transform,
+          transforms: r.transforms ?? [],
+          optionMap: r.optionMap ?? [],
+          composite: r.composite,
+          optionFallback: r.optionFallback || undefined,
+          conflictStrategy: r.conflictStrategy || 'newest_wins',
           isDefault: false,
           isActive: true,
         })),
@@ -463,12 +1286,27 @@ export async function saveMappingRules(
     // Ensure defaults exist
     await seedDefaultMappings(instanceId);
 
+    // Defaults can't be replaced, but their settings can change
+    for (const r of incoming.filter((r) => isUndeletableDefault(r.wixField, r.hubspotField))) {
+      await FieldMapping.updateOne(
+        { instanceId, wixField: r.wixField, hubspotField: r.hubspotField },
+        {
+          $set: {
+            direction: r.direction,
+            transform: r.transform,
+            transforms: r.transforms ?? [],
+            conflictStrategy: r.conflictStrategy || 'newest_wins',
+          },
+        },
+      );
+    }
+
     // Invalidate cache
     invalidateRulesCache(instanceId);
 
     // Return the full set
     const rules = await loadMappingRules(instanceId, true);
-    return { ok: true, rules };
+    return { ok: true, rules, warnings };
   } catch (err) {
     logger.error('saveMappingRules failed', {
       instanceId,
@@ -503,6 +1341,7 @@ export async function seedDefaultMappings(instanceId: string): Promise<void> {
           hubspotField: d.hubspotField,
           direction: d.direction,
           transform: d.transform,
+          conflictStrategy: 'newest_wins' as ConflictStrategy,
           isDefault: true,
           isActive: true,
         },
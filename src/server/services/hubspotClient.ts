@@ -4,6 +4,10 @@
 // createHubSpotClient(instanceId)
 //   → Returns a fresh Axios instance with a valid Bearer token.
 //     NEVER reuse across requests — the token may have been refreshed.
+//     Every instance draws from its portal's shared token bucket
+//     (Module 2-G), so requests are throttled before they hit a 429.
+//     The host is `config.hubspotApiBase` (HUBSPOT_API_BASE), so tests and
+//     offline development can point it at the fake server (Module 22).
 //
 // withRetry(instanceId, fn)
 //   → Wraps any HubSpot API call with automatic retry for:
@@ -11,13 +15,17 @@
 //       • HTTP 5xx (server err)  — exponential back-off: 1 s → 2 s → 4 s
 //     Client errors (4xx except 429) are NEVER retried — they're the
 //     caller's fault and retrying won't fix them.
+//     The whole retry loop runs inside the installation's HubSpot circuit
+//     breaker (Module 21): during an outage it fails fast instead.
 // =============================================================================
 import axios, { AxiosInstance, AxiosError, AxiosResponse } from 'axios';
 import { getAccessToken } from './tokenManager';
+import { portalKeyFor, attachRateLimiter } from './hubspotRateLimiter';
+import { guardCall } from './circuitBreaker';
+import config from '../config';
 import logger from '../utils/logger';
 
 /* ── Constants ── */
-const HUBSPOT_API_BASE = 'https://api.hubapi.com';
 const DEFAULT_TIMEOUT_MS = 15_000;
 
 /** Maximum number of retry attempts (applies to both 429 and 5xx) */
@@ -38,8 +46,11 @@ const BACKOFF_BASE_MS = 1_000;
  * automatically refreshed by Module 1's `getAccessToken()` if it is
  * within 5 minutes of expiry.
  *
+ * Requests made with the instance wait for a token from the portal's
+ * rate limiter, and its responses keep that limiter up to date.
+ *
  * @param instanceId — Wix site instance whose token should be used
- * @returns          — A ready-to-use Axios instance pointed at HUBSPOT_API_BASE
+ * @returns          — A ready-to-use Axios instance pointed at `config.hubspotApiBase`
  */
 export async function createHubSpotClient(
   instanceId: string,
@@ -47,14 +58,16 @@ export async function createHubSpotClient(
 ): Promise<AxiosInstance> {
   const accessToken = await getAccessToken(instanceId, forceRefresh);
 
-  return axios.create({
-    baseURL: HUBSPOT_API_BASE,
+  const client = axios.create({
+    baseURL: config.hubspotApiBase,
     timeout: DEFAULT_TIMEOUT_MS,
     headers: {
       Authorization: `Bearer ${accessToken}`,
       'Content-Type': 'application/json',
     },
   });
+  attachRateLimiter(client, await portalKeyFor(instanceId));
+  return client;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -75,6 +88,9 @@ export async function createHubSpotClient(
  * If the token expires mid-retry (401), a fresh client is built and the
  * call is retried once.
  *
+ * While the installation's HubSpot circuit is open, the call is not made
+ * and a `CircuitOpenError` is thrown at once.
+ *
  * @param instanceId — Wix site instance (needed for token refresh on 401)
  * @param fn         — The API call to execute. Receives an Axios instance.
  * @returns          — The Axios response from the successful call
@@ -82,6 +98,14 @@ export async function createHubSpotClient(
 export async function withRetry<T = any>(
   instanceId: string,
   fn: (client: AxiosInstance) => Promise<AxiosResponse<T>>,
+): Promise<AxiosResponse<T>> {
+  return guardCall(instanceId, 'hubspot', () => retryLoop(instanceId, fn));
+}
+
+/** The retry policy of {@link withRetry}, outside the circuit breaker */
+async function retryLoop<T>(
+  instanceId: string,
+  fn: (client: AxiosInstance) => Promise<AxiosResponse<T>>,
 ): Promise<AxiosResponse<T>> {
   let lastError: Error | undefined;
 
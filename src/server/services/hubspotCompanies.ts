@@ -0,0 +1,128 @@
+// =============================================================================
+// Module 2-D: HubSpot Companies Wrapper
+// =============================================================================
+// Four functions that cover the company operations used by company sync:
+//
+//   1. findCompany                  — search a company by domain or name
+//   2. createCompany                — create a new company
+//   3. associateContactWithCompany  — link a contact to a company (v4 API)
+//   4. archiveCompany               — archive a company we created
+//
+// All functions use the Module 2-A `withRetry` helper so rate-limit (429)
+// and server errors (5xx) are handled transparently.
+// =============================================================================
+import { AxiosResponse } from 'axios';
+import { withRetry } from './hubspotClient';
+import logger from '../utils/logger';
+import { CompanyMatchBy, HubSpotCompany } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Find a company by domain or name
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Searches HubSpot for a company whose `domain` or `name` equals `value`.
+ * Returns the oldest match, so repeated lookups settle on the same company
+ * if the portal already holds duplicates.
+ *
+ * @param instanceId  — Wix site instance
+ * @param matchBy     — Company property to match on
+ * @param value       — Domain (lower-case, no `www.`) or company name
+ * @returns           — The matching company, or `null`
+ */
+export async function findCompany(
+  instanceId: string,
+  matchBy: CompanyMatchBy,
+  value: string,
+): Promise<HubSpotCompany | null> {
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.post('/crm/v3/objects/companies/search', {
+      filterGroups: [
+        {
+          filters: [{ propertyName: matchBy, operator: 'EQ', value }],
+        },
+      ],
+      sorts: [{ propertyName: 'createdate', direction: 'ASCENDING' }],
+      properties: ['name', 'domain'],
+      limit: 1,
+    }),
+  );
+
+  const results = res.data?.results;
+  if (!results || results.length === 0) return null;
+  return results[0] as HubSpotCompany;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Create a company
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a HubSpot company.
+ *
+ * @param instanceId  — Wix site instance
+ * @param properties  — Company properties (`name`, `domain`)
+ * @returns           — The created company
+ */
+export async function createCompany(
+  instanceId: string,
+  properties: Record<string, string>,
+): Promise<HubSpotCompany> {
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.post('/crm/v3/objects/companies', { properties }),
+  );
+
+  logger.info('HubSpot company created', {
+    instanceId,
+    hubspotCompanyId: res.data?.id,
+  });
+
+  return res.data as HubSpotCompany;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Associate a contact with a company
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates the default (unlabelled) contact → company association through
+ * the v4 associations API. The call is idempotent: associating an already
+ * linked pair is a no-op on HubSpot's side.
+ *
+ * @param instanceId  — Wix site instance
+ * @param contactId   — HubSpot contact ID
+ * @param companyId   — HubSpot company ID
+ */
+export async function associateContactWithCompany(
+  instanceId: string,
+  contactId: string,
+  companyId: string,
+): Promise<void> {
+  await withRetry(instanceId, (client) =>
+    client.put(
+      `/crm/v4/objects/contacts/${contactId}/associations/default/companies/${companyId}`,
+    ),
+  );
+
+  logger.debug('HubSpot contact associated with company', {
+    instanceId,
+    hubspotContactId: contactId,
+    hubspotCompanyId: companyId,
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Archive a company
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Archives a HubSpot company (it stays restorable in HubSpot's recycle bin).
+ *
+ * @param instanceId  — Wix site instance
+ * @param companyId   — HubSpot company ID
+ */
+export async function archiveCompany(instanceId: string, companyId: string): Promise<void> {
+  await withRetry(instanceId, (client) => client.delete(`/crm/v3/objects/companies/${companyId}`));
+
+  logger.info('HubSpot company archived', { instanceId, hubspotCompanyId: companyId });
+}
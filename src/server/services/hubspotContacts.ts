@@ -1,13 +1,16 @@
 // =============================================================================
 // Module 2-B: HubSpot Contacts Wrapper
 // =============================================================================
-// Five functions that cover every contact operation the integration needs:
+// Functions that cover every contact operation the integration needs:
 //
 //   1. getContactById       — fetch a single contact by HubSpot ID
 //   2. getContactByEmail    — search for a contact by email address
 //   3. createOrUpdateByEmail — upsert: check by email → update or create
 //   4. writeSyncTag         — stamp a UUID on the contact after our own write
 //   5. batchReadContacts    — fetch up to 100 contacts in one call
+//   6. searchContactsModifiedSince — page contacts changed after a cursor
+//   7. batchUpdateContacts  — update up to 100 contacts by ID in one call
+//   8. batchUpsertContactsByEmail — create-or-update up to 100 contacts by email
 //
 // All functions use the Module 2-A `withRetry` helper so rate-limit (429)
 // and server errors (5xx) are handled transparently. Client errors (4xx)
@@ -16,7 +19,7 @@
 import { AxiosResponse } from 'axios';
 import { withRetry } from './hubspotClient';
 import logger from '../utils/logger';
-import { HubSpotContact } from '../types';
+import { FlatContact, HubSpotContact } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // 1. Get a contact by HubSpot ID
@@ -245,3 +248,166 @@ export async function batchReadContacts(
 
   return contacts;
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 6. Search contacts modified after a cursor
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * HubSpot's search API refuses to page past this many results for a single
+ * query. Callers that reach it must restart from the last seen timestamp.
+ */
+export const SEARCH_RESULT_WINDOW = 10_000;
+
+/**
+ * Returns one page of contacts whose `hs_lastmodifieddate` is after `since`,
+ * oldest change first. Used by delta sync to pull only what changed.
+ *
+ * @param instanceId  — Wix site instance
+ * @param since       — Lower bound; `null` matches every contact
+ * @param properties  — Properties to return (hs_lastmodifieddate is always included)
+ * @param after       — Paging cursor from the previous page
+ * @param inclusive   — Use GTE instead of GT (when resuming at a window boundary)
+ * @returns           — The page of contacts and the cursor for the next one
+ */
+export async function searchContactsModifiedSince(
+  instanceId: string,
+  since: Date | null,
+  properties: string[] = [],
+  after?: string,
+  inclusive = false,
+): Promise<{ contacts: HubSpotContact[]; after?: string }> {
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.post('/crm/v3/objects/contacts/search', {
+      filterGroups: since
+        ? [
+            {
+              filters: [
+                {
+                  propertyName: 'hs_lastmodifieddate',
+                  operator: inclusive ? 'GTE' : 'GT',
+                  value: String(since.getTime()),
+                },
+              ],
+            },
+          ]
+        : [],
+      sorts: [{ propertyName: 'hs_lastmodifieddate', direction: 'ASCENDING' }],
+      properties: [...new Set(['hs_lastmodifieddate', ...properties])],
+      limit: 100,
+      ...(after ? { after } : {}),
+    }),
+  );
+
+  return {
+    contacts: (res.data?.results ?? []) as HubSpotContact[],
+    after: res.data?.paging?.next?.after,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 7–8. Batch writes
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** HubSpot accepts at most this many inputs per batch call */
+export const BATCH_WRITE_LIMIT = 100;
+
+/** One entry of a batch response's `errors` array */
+export interface BatchWriteError {
+  message: string;
+  category?: string;
+  /** Inputs the error applies to — contact IDs, or emails for an upsert */
+  ids: string[];
+}
+
+/**
+ * Outcome of a batch write. HubSpot answers 207 when only some inputs
+ * failed; the failed ones are listed in `errors`, the rest in `contacts`.
+ */
+export interface BatchWriteResult {
+  /** Written contacts; `new` is set by upserts that created the contact */
+  contacts: Array<HubSpotContact & { new?: boolean }>;
+  errors: BatchWriteError[];
+}
+
+function toBatchWriteResult(data: any): BatchWriteResult {
+  return {
+    contacts: (data?.results ?? []) as BatchWriteResult['contacts'],
+    errors: ((data?.errors ?? []) as any[]).map((e) => ({
+      message: e?.message ?? 'Unknown HubSpot error',
+      category: e?.category,
+      ids: ([] as unknown[]).concat(e?.context?.ids ?? e?.context?.id ?? []).map(String),
+    })),
+  };
+}
+
+function assertBatchSize(fn: string, count: number): void {
+  if (count > BATCH_WRITE_LIMIT) {
+    throw new Error(`${fn}: max ${BATCH_WRITE_LIMIT} inputs per call, received ${count}`);
+  }
+}
+
+/**
+ * Updates up to 100 contacts in one call.
+ *
+ * @param instanceId — Wix site instance
+ * @param inputs     — Contact IDs with the properties to write
+ * @throws           — If more than 100 inputs are passed, or HubSpot rejects the whole batch
+ */
+export async function batchUpdateContacts(
+  instanceId: string,
+  inputs: Array<{ id: string; properties: FlatContact }>,
+): Promise<BatchWriteResult> {
+  if (inputs.length === 0) return { contacts: [], errors: [] };
+  assertBatchSize('batchUpdateContacts', inputs.length);
+
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.post('/crm/v3/objects/contacts/batch/update', { inputs }),
+  );
+  const result = toBatchWriteResult(res.data);
+
+  logger.debug('Batch updated contacts', {
+    instanceId,
+    requested: inputs.length,
+    updated: result.contacts.length,
+    errors: result.errors.length,
+  });
+  return result;
+}
+
+/**
+ * Creates or updates up to 100 contacts in one call, matched by email.
+ * The email is always written too, so every result can be matched back to
+ * its input by `properties.email`.
+ *
+ * @param instanceId — Wix site instance
+ * @param inputs     — Emails with the properties to write (emails must be unique)
+ * @throws           — If more than 100 inputs are passed, or HubSpot rejects the whole batch
+ */
+export async function batchUpsertContactsByEmail(
+  instanceId: string,
+  inputs: Array<{ email: string; properties: FlatContact }>,
+): Promise<BatchWriteResult> {
+  if (inputs.length === 0) return { contacts: [], errors: [] };
+  assertBatchSize('batchUpsertContactsByEmail', inputs.length);
+
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.post('/crm/v3/objects/contacts/batch/upsert', {
+      inputs: inputs.map(({ email, properties }) => {
+        const id = email.toLowerCase().trim();
+        return { idProperty: 'email', id, properties: { ...properties, email: id } };
+      }),
+    }),
+  );
+  const result = toBatchWriteResult(res.data);
+
+  logger.debug('Batch upserted contacts', {
+    instanceId,
+    requested: inputs.length,
+    created: result.contacts.filter((c) => c.new).length,
+    updated: result.contacts.filter((c) => !c.new).length,
+    errors: result.errors.length,
+  });
+  return result;
+}
+
@@ -0,0 +1,212 @@
+// =============================================================================
+// Module 2-E: HubSpot Deals Wrapper
+// =============================================================================
+// Functions that cover the deal operations used by order sync:
+//
+//   1. listDealPipelines     — deal pipelines and their stages (dashboard picker)
+//   2. createDeal            — create a deal, optionally associated to a contact
+//   3. createLineItems       — batch-create line items attached to a deal
+//   4. ensureOrderIdProperty — the unique `wix_order_id` deal property
+//   5. findDealByOrderId     — the deal created for a Wix order, if any
+//
+// Associations are sent inline with the create call, so a deal is never left
+// without its contact and a line item never without its deal.
+//
+// All functions use the Module 2-A `withRetry` helper so rate-limit (429)
+// and server errors (5xx) are handled transparently.
+// =============================================================================
+import { AxiosResponse, AxiosError } from 'axios';
+import { withRetry } from './hubspotClient';
+import logger from '../utils/logger';
+import { HubSpotDeal, HubSpotPipeline } from '../types';
+
+/** HubSpot-defined association type IDs */
+const DEAL_TO_CONTACT_ASSOCIATION = 3;
+const LINE_ITEM_TO_DEAL_ASSOCIATION = 20;
+
+/** HubSpot batch endpoints accept at most 100 inputs per call */
+const BATCH_LIMIT = 100;
+
+/**
+ * Deal property holding the Wix order a deal was created from. It is a
+ * unique-value property, so HubSpot refuses a second deal for one order.
+ */
+export const WIX_ORDER_ID_PROPERTY = 'wix_order_id';
+
+/** Portals known to have the order ID property, keyed `instanceId:portalId` */
+const orderIdPropertyReady = new Set<string>();
+
+/** Inline association of the created object to `id` */
+function associationTo(id: string, associationTypeId: number) {
+  return {
+    to: { id },
+    types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId }],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. List deal pipelines
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Lists the portal's deal pipelines with their stages, both in HubSpot's
+ * display order.
+ *
+ * @param instanceId  — Wix site instance
+ * @returns           — Pipelines with `id`/`label` stages
+ */
+export async function listDealPipelines(instanceId: string): Promise<HubSpotPipeline[]> {
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.get('/crm/v3/pipelines/deals'),
+  );
+
+  const byOrder = (a: { displayOrder?: number }, b: { displayOrder?: number }) =>
+    (a.displayOrder ?? 0) - (b.displayOrder ?? 0);
+
+  return ((res.data?.results ?? []) as any[])
+    .filter((p) => !p.archived)
+    .sort(byOrder)
+    .map((p) => ({
+      id: String(p.id),
+      label: String(p.label ?? p.id),
+      stages: ((p.stages ?? []) as any[])
+        .filter((s) => !s.archived)
+        .sort(byOrder)
+        .map((s) => ({ id: String(s.id), label: String(s.label ?? s.id) })),
+    }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Create a deal
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a HubSpot deal.
+ *
+ * @param instanceId  — Wix site instance
+ * @param properties  — Deal properties (`dealname`, `amount`, `pipeline`, …)
+ * @param contactId   — HubSpot contact to associate, if any
+ * @returns           — The created deal
+ */
+export async function createDeal(
+  instanceId: string,
+  properties: Record<string, string>,
+  contactId?: string,
+): Promise<HubSpotDeal> {
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.post('/crm/v3/objects/deals', {
+      properties,
+      associations: contactId
+        ? [associationTo(contactId, DEAL_TO_CONTACT_ASSOCIATION)]
+        : [],
+    }),
+  );
+
+  logger.info('HubSpot deal created', {
+    instanceId,
+    hubspotDealId: res.data?.id,
+    associated: !!contactId,
+  });
+
+  return res.data as HubSpotDeal;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Create line items
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates line items attached to a deal, in batches of 100.
+ *
+ * @param instanceId  — Wix site instance
+ * @param dealId      — HubSpot deal the line items belong to
+ * @param items       — Line item properties (`name`, `quantity`, `price`, …)
+ * @param onChunk     — Awaited after each batch with the number created so
+ *                      far, so a caller can record progress
+ * @returns           — Number of line items created
+ */
+export async function createLineItems(
+  instanceId: string,
+  dealId: string,
+  items: Array<Record<string, string>>,
+  onChunk?: (created: number) => Promise<void>,
+): Promise<number> {
+  let created = 0;
+
+  for (let i = 0; i < items.length; i += BATCH_LIMIT) {
+    const inputs = items.slice(i, i + BATCH_LIMIT).map((properties) => ({
+      properties,
+      associations: [associationTo(dealId, LINE_ITEM_TO_DEAL_ASSOCIATION)],
+    }));
+
+    const res: AxiosResponse = await withRetry(instanceId, (client) =>
+      client.post('/crm/v3/objects/line_items/batch/create', { inputs }),
+    );
+    created += res.data?.results?.length ?? inputs.length;
+    if (onChunk) await onChunk(created);
+  }
+
+  logger.debug('HubSpot line items created', { instanceId, hubspotDealId: dealId, count: created });
+  return created;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Order ID property
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Makes sure the portal has the unique {@link WIX_ORDER_ID_PROPERTY} deal
+ * property. Checked once per portal per process; an existing property
+ * (409 Conflict) is fine.
+ *
+ * @param instanceId  — Wix site instance
+ * @param portalId    — Connected HubSpot portal
+ */
+export async function ensureOrderIdProperty(instanceId: string, portalId: string): Promise<void> {
+  const key = `${instanceId}:${portalId}`;
+  if (orderIdPropertyReady.has(key)) return;
+
+  try {
+    await withRetry(instanceId, (client) =>
+      client.post('/crm/v3/properties/deals', {
+        name: WIX_ORDER_ID_PROPERTY,
+        label: 'Wix Order ID',
+        type: 'string',
+        fieldType: 'text',
+        groupName: 'dealinformation',
+        description: 'ID of the Wix order this deal was created from, set by the Wix–HubSpot integration.',
+        hasUniqueValue: true,
+      }),
+    );
+    logger.info('HubSpot deal property created', { instanceId, propertyName: WIX_ORDER_ID_PROPERTY });
+  } catch (err) {
+    if ((err as AxiosError).response?.status !== 409) throw err;
+  }
+  orderIdPropertyReady.add(key);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Find the deal of an order
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Looks up the deal created for a Wix order by {@link WIX_ORDER_ID_PROPERTY}.
+ * Search results lag writes by a few seconds; the unique property covers
+ * that gap.
+ *
+ * @param instanceId  — Wix site instance
+ * @param wixOrderId  — Wix order ID
+ * @returns           — The deal, or `null` if none was created yet
+ */
+export async function findDealByOrderId(instanceId: string, wixOrderId: string): Promise<HubSpotDeal | null> {
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.post('/crm/v3/objects/deals/search', {
+      filterGroups: [
+        { filters: [{ propertyName: WIX_ORDER_ID_PROPERTY, operator: 'EQ', value: wixOrderId }] },
+      ],
+      properties: [WIX_ORDER_ID_PROPERTY],
+      limit: 1,
+    }),
+  );
+  return (res.data?.results?.[0] as HubSpotDeal | undefined) ?? null;
+}
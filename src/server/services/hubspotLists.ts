@@ -0,0 +1,149 @@
+// =============================================================================
+// Module 2-F: HubSpot Lists Wrapper
+// =============================================================================
+// The static-list operations used by label sync in `lists` mode:
+//
+//   1. findListByName      — look up a contact list by its exact name
+//   2. createStaticList    — create a manual (static) contact list
+//   3. getContactListIds   — lists a contact is currently a member of
+//   4. addToList / removeFromList — change list memberships
+//   5. getListMemberIds    — every contact in a list
+//
+// All functions use the Module 2-A `withRetry` helper so rate-limit (429)
+// and server errors (5xx) are handled transparently.
+// =============================================================================
+import { AxiosResponse } from 'axios';
+import { withRetry } from './hubspotClient';
+import logger from '../utils/logger';
+
+/** HubSpot object type ID for contacts */
+const CONTACT_OBJECT_TYPE = '0-1';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Find a list by name
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Finds a contact list by name.
+ *
+ * @param instanceId  — Wix site instance
+ * @param name        — Exact list name
+ * @returns           — The list ID, or `null` if no list has that name
+ */
+export async function findListByName(instanceId: string, name: string): Promise<string | null> {
+  try {
+    const res: AxiosResponse = await withRetry(instanceId, (client) =>
+      client.get(
+        `/crm/v3/lists/object-type-id/${CONTACT_OBJECT_TYPE}/name/${encodeURIComponent(name)}`,
+      ),
+    );
+    const listId = res.data?.list?.listId;
+    return listId ? String(listId) : null;
+  } catch (err: any) {
+    if (err?.response?.status === 404) return null;
+    throw err;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Create a static list
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a static contact list — one whose members are only changed
+ * explicitly, never by filters.
+ *
+ * @param instanceId  — Wix site instance
+ * @param name        — List name (unique per portal)
+ * @returns           — The new list ID
+ */
+export async function createStaticList(instanceId: string, name: string): Promise<string> {
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.post('/crm/v3/lists', {
+      name,
+      objectTypeId: CONTACT_OBJECT_TYPE,
+      processingType: 'MANUAL',
+    }),
+  );
+
+  const listId = String(res.data?.list?.listId ?? '');
+  logger.info('HubSpot static list created', { instanceId, hubspotListId: listId });
+  return listId;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. A contact's list memberships
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Returns the IDs of every list the contact belongs to.
+ *
+ * @param instanceId  — Wix site instance
+ * @param contactId   — HubSpot contact ID
+ */
+export async function getContactListIds(instanceId: string, contactId: string): Promise<string[]> {
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.get(`/crm/v3/lists/records/${CONTACT_OBJECT_TYPE}/${contactId}/memberships`),
+  );
+  return ((res.data?.results ?? []) as Array<{ listId: string | number }>).map((m) =>
+    String(m.listId),
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Change memberships
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Adds contacts to a static list. Already-members are ignored by HubSpot. */
+export async function addToList(
+  instanceId: string,
+  listId: string,
+  contactIds: string[],
+): Promise<void> {
+  await withRetry(instanceId, (client) =>
+    client.put(`/crm/v3/lists/${listId}/memberships/add`, contactIds),
+  );
+  logger.debug('Contacts added to HubSpot list', { instanceId, hubspotListId: listId, count: contactIds.length });
+}
+
+/** Removes contacts from a static list. Non-members are ignored by HubSpot. */
+export async function removeFromList(
+  instanceId: string,
+  listId: string,
+  contactIds: string[],
+): Promise<void> {
+  await withRetry(instanceId, (client) =>
+    client.put(`/crm/v3/lists/${listId}/memberships/remove`, contactIds),
+  );
+  logger.debug('Contacts removed from HubSpot list', { instanceId, hubspotListId: listId, count: contactIds.length });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. A list's members
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Members per memberships page — HubSpot's maximum */
+const MEMBERSHIP_PAGE_SIZE = 250;
+
+/**
+ * Returns the IDs of every contact in a list, following the paging cursor.
+ *
+ * @param instanceId  — Wix site instance
+ * @param listId      — HubSpot list ID
+ */
+export async function getListMemberIds(instanceId: string, listId: string): Promise<string[]> {
+  const ids: string[] = [];
+  let after: string | undefined;
+  do {
+    const res: AxiosResponse = await withRetry(instanceId, (client) =>
+      client.get(`/crm/v3/lists/${listId}/memberships`, {
+        params: { limit: MEMBERSHIP_PAGE_SIZE, ...(after ? { after } : {}) },
+      }),
+    );
+    for (const m of (res.data?.results ?? []) as Array<{ recordId: string | number }>) {
+      ids.push(String(m.recordId));
+    }
+    after = res.data?.paging?.next?.after;
+  } while (after);
+  return ids;
+}
@@ -25,9 +25,11 @@ import {
 } from './tokenManager';
 
 /* ── Constants ── */
-const HUBSPOT_AUTH_URL = 'https://app.hubspot.com/oauth/authorize';
-const HUBSPOT_TOKEN_URL = 'https://api.hubapi.com/oauth/v1/token';
-const TOKEN_INFO_URL = 'https://api.hubapi.com/oauth/v1/access-tokens';
+
+/** Hosts come from config, which may point them at the fake server (Module 22) */
+const hubspotAuthUrl = (): string => `${config.hubspotAppBase}/oauth/authorize`;
+const hubspotTokenUrl = (): string => `${config.hubspotApiBase}/oauth/v1/token`;
+const tokenInfoUrl = (): string => `${config.hubspotApiBase}/oauth/v1/access-tokens`;
 
 // Minimum scopes — contacts read+write, schemas read+write, base oauth
 const SCOPES = [
@@ -38,6 +40,21 @@ const SCOPES = [
   'oauth',
 ];
 
+// Requested but not required — only the optional company, order and label
+// list sync need them, so portals that decline can still connect. Line
+// items fall under `e-commerce`; order sync creates its `wix_order_id` deal
+// property with `crm.schemas.deals.write`.
+const OPTIONAL_SCOPES = [
+  'crm.objects.companies.read',
+  'crm.objects.companies.write',
+  'crm.objects.deals.read',
+  'crm.objects.deals.write',
+  'crm.schemas.deals.write',
+  'e-commerce',
+  'crm.lists.read',
+  'crm.lists.write',
+];
+
 /** Key prefix for the temporary CSRF state value in Wix Secrets */
 const STATE_SECRET_KEY = (instanceId: string): string =>
   `hubspot_oauth_state_${instanceId}`;
@@ -71,10 +88,11 @@ export async function getAuthorizationUrl(instanceId: string): Promise<string> {
     client_id: config.hubspotClientId,
     redirect_uri: config.hubspotRedirectUri,
     scope: SCOPES.join(' '),
+    optional_scope: OPTIONAL_SCOPES.join(' '),
     state: statePayload,
   });
 
-  const url = `${HUBSPOT_AUTH_URL}?${params.toString()}`;
+  const url = `${hubspotAuthUrl()}?${params.toString()}`;
 
   logger.info('HubSpot authorization URL generated', { instanceId });
   // NOTE: URL itself contains no tokens — safe to log at debug level
@@ -136,7 +154,7 @@ export async function handleCallback(
   let expiresIn: number;
 
   try {
-    const { data } = await axios.post(HUBSPOT_TOKEN_URL, null, {
+    const { data } = await axios.post(hubspotTokenUrl(), null, {
       params: {
         grant_type: 'authorization_code',
         client_id: config.hubspotClientId,
@@ -160,7 +178,7 @@ export async function handleCallback(
   let portalId: string;
   try {
     const { data: tokenInfo } = await axios.get(
-      `${TOKEN_INFO_URL}/${accessToken}`,
+      `${tokenInfoUrl()}/${accessToken}`,
       { timeout: 10_000 },
     );
     portalId = String(tokenInfo.hub_id);
@@ -219,7 +237,7 @@ export async function refreshAccessToken(
   expiresAt: Date;
 }> {
   try {
-    const { data } = await axios.post(HUBSPOT_TOKEN_URL, null, {
+    const { data } = await axios.post(hubspotTokenUrl(), null, {
       params: {
         grant_type: 'refresh_token',
         client_id: config.hubspotClientId,
@@ -1,7 +1,7 @@
 // =============================================================================
 // Module 2-C: HubSpot Properties Wrapper
 // =============================================================================
-// Three functions that manage custom contact properties in HubSpot:
+// Functions that manage custom contact properties in HubSpot:
 //
 //   1. fetchCustomProperties     — list all custom properties, filtering out
 //                                   internal read-only ones
@@ -10,6 +10,10 @@
 //                                   • wix_contact_id   (Wix Contact ID)
 //                                   • wix_sync_tag     (Sync Tag UUID)
 //                                   • wix_last_sync_at (Last Sync Timestamp)
+//   4. addPropertyOptions        — append missing options to an enumeration
+//   5. createMappedProperty      — create the property a new mapping rule
+//                                   writes to, typed after its Wix field
+//   6. archiveCustomProperty     — archive a property we created
 //
 // All functions use the Module 2-A `withRetry` helper for 429 / 5xx handling.
 // =============================================================================
@@ -43,6 +47,8 @@ interface HubSpotProperty {
   hidden: boolean;
   displayOrder: number;
   hasUniqueValue: boolean;
+  /** Allowed values of an enumeration property */
+  options?: Array<{ label: string; value: string; hidden?: boolean }>;
 }
 
 /** Input for creating a new custom property */
@@ -99,6 +105,42 @@ const REQUIRED_PROPERTIES: CreatePropertyInput[] = [
   },
 ];
 
+/**
+ * Flag written on a HubSpot contact when its Wix counterpart is deleted and
+ * the installation's deletion policy is `flag_hubspot_property`. Created on
+ * demand when that policy is selected, not by `ensureRequiredProperties`.
+ */
+export const WIX_DELETED_PROPERTY: CreatePropertyInput = {
+  name: 'wix_contact_deleted',
+  label: 'Wix Contact Deleted',
+  type: 'enumeration',
+  fieldType: 'booleancheckbox',
+  groupName: WIX_PROPERTY_GROUP,
+  description:
+    'Set to true by the Wix–HubSpot integration when the linked Wix contact has been deleted.',
+  hasUniqueValue: false,
+  options: [
+    { label: 'Yes', value: 'true', displayOrder: 0 },
+    { label: 'No', value: 'false', displayOrder: 1 },
+  ],
+};
+
+/**
+ * Multi-select holding a contact's Wix label names. Created when label sync
+ * is switched to `property` mode; its options grow as new labels are synced.
+ */
+export const WIX_LABELS_PROPERTY: CreatePropertyInput = {
+  name: 'wix_labels',
+  label: 'Wix Labels',
+  type: 'enumeration',
+  fieldType: 'checkbox',
+  groupName: WIX_PROPERTY_GROUP,
+  description:
+    'Labels of the linked Wix contact. Kept in sync by the Wix–HubSpot integration.',
+  hasUniqueValue: false,
+  options: [],
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 1. Fetch custom contact properties (filtered)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -108,7 +150,8 @@ const REQUIRED_PROPERTIES: CreatePropertyInput[] = [
  * internal, read-only, and HubSpot-defined system properties.
  *
  * The returned list is useful for the field-mapping UI — it shows only
- * properties that can actually be written to by the integration.
+ * properties that can actually be written to by the integration, with the
+ * allowed options of enumeration properties for value mapping.
  *
  * @param instanceId — Wix site instance
  * @returns          — Array of writable custom properties
@@ -146,6 +189,13 @@ export async function fetchCustomProperties(
     label: p.label,
     type: p.type,
     description: p.description,
+    ...(p.type === 'enumeration'
+      ? {
+          options: (p.options ?? [])
+            .filter((o) => !o.hidden)
+            .map((o) => ({ value: o.value, label: o.label })),
+        }
+      : {}),
   }));
 }
 
@@ -262,6 +312,169 @@ export async function ensureRequiredProperties(
   logger.info('All required HubSpot properties are in place', { instanceId });
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Add options to an enumeration property
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Makes sure an enumeration property offers every given value as an
+ * option, appending the missing ones. HubSpot rejects contact writes whose
+ * enumeration values are not options, so call this before writing.
+ *
+ * @param instanceId   — Wix site instance
+ * @param propertyName — Enumeration contact property
+ * @param values       — Option values (also used as their labels)
+ * @returns            — Number of options added
+ */
+export async function addPropertyOptions(
+  instanceId: string,
+  propertyName: string,
+  values: string[],
+): Promise<number> {
+  if (values.length === 0) return 0;
+
+  const res: AxiosResponse = await withRetry(instanceId, (client) =>
+    client.get(`/crm/v3/properties/contacts/${propertyName}`),
+  );
+  const options = (res.data?.options ?? []) as Array<{
+    label: string;
+    value: string;
+    displayOrder?: number;
+  }>;
+
+  const known = new Set(options.map((o) => o.value));
+  const missing = [...new Set(values)].filter((v) => !known.has(v));
+  if (missing.length === 0) return 0;
+
+  await withRetry(instanceId, (client) =>
+    client.patch(`/crm/v3/properties/contacts/${propertyName}`, {
+      options: [
+        ...options,
+        ...missing.map((value, i) => ({
+          label: value,
+          value,
+          displayOrder: options.length + i,
+        })),
+      ],
+    }),
+  );
+
+  logger.info('HubSpot property options added', {
+    instanceId,
+    propertyName,
+    added: missing.length,
+  });
+  return missing.length;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Create the property for a mapping rule
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** HubSpot internal property names: lowercase, digits and `_`, starting with a letter */
+const PROPERTY_NAME_PATTERN = /^[a-z][a-z0-9_]{0,99}$/;
+
+/** `true` when `name` can be used as a new HubSpot property's internal name */
+export function isValidPropertyName(name: unknown): name is string {
+  return typeof name === 'string' && PROPERTY_NAME_PATTERN.test(name);
+}
+
+/** HubSpot type for each Wix field registry type; anything else is text */
+const PROPERTY_TYPES: Record<string, Pick<CreatePropertyInput, 'type' | 'fieldType'>> = {
+  date: { type: 'date', fieldType: 'date' },
+  array: { type: 'enumeration', fieldType: 'checkbox' },
+  number: { type: 'number', fieldType: 'number' },
+  string: { type: 'string', fieldType: 'text' },
+};
+
+/**
+ * Property definition for values mapped from a Wix field. Dates become a
+ * date picker, arrays (e.g. labels) a multi-select offering `options`,
+ * numbers a number and everything else — composites included — text.
+ *
+ * @param wixField — Registry entry of the mapped Wix field; `undefined` for
+ *                   a composite or unknown field
+ * @param name     — Internal name of the new property
+ * @param label    — Display label of the new property
+ * @param options  — Values a multi-select starts with (ignored otherwise)
+ */
+export function propertyForWixField(
+  wixField: FieldOption | undefined,
+  name: string,
+  label: string,
+  options: string[] = [],
+): CreatePropertyInput {
+  const { type, fieldType } = PROPERTY_TYPES[wixField?.type ?? 'string'] ?? PROPERTY_TYPES.string;
+  return {
+    name,
+    label,
+    type,
+    fieldType,
+    groupName: WIX_PROPERTY_GROUP,
+    description: wixField
+      ? `Synced from the Wix contact field "${wixField.label}" by the Wix–HubSpot integration.`
+      : 'Synced from Wix by the Wix–HubSpot integration.',
+    hasUniqueValue: false,
+    ...(type === 'enumeration'
+      ? { options: options.map((value, i) => ({ label: value, value, displayOrder: i })) }
+      : {}),
+  };
+}
+
+/**
+ * Creates the contact property a new mapping rule writes to, in the
+ * `wix_integration` group. Unlike {@link createCustomProperty}, an existing
+ * property is reported rather than accepted, so the caller knows whether
+ * it owns the property (and may archive it again).
+ *
+ * @param instanceId — Wix site instance
+ * @param wixField   — Registry entry of the mapped Wix field, for the type
+ * @param name       — Internal name of the new property
+ * @param label      — Display label of the new property
+ * @param options    — Values a multi-select starts with
+ * @returns          — The created definition, or `null` if the property already exists
+ */
+export async function createMappedProperty(
+  instanceId: string,
+  wixField: FieldOption | undefined,
+  name: string,
+  label: string,
+  options: string[] = [],
+): Promise<CreatePropertyInput | null> {
+  if (await propertyExists(instanceId, name)) return null;
+
+  const input = propertyForWixField(wixField, name, label, options);
+  await ensurePropertyGroup(instanceId);
+  await createCustomProperty(instanceId, input);
+  return input;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 6. Archive a custom contact property
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Archives a contact property. A property that is already gone (404) counts
+ * as archived.
+ *
+ * @param instanceId   — Wix site instance
+ * @param propertyName — Property to archive
+ */
+export async function archiveCustomProperty(
+  instanceId: string,
+  propertyName: string,
+): Promise<void> {
+  try {
+    await withRetry(instanceId, (client) =>
+      client.delete(`/crm/v3/properties/contacts/${propertyName}`),
+    );
+    logger.info('Custom HubSpot property archived', { instanceId, propertyName });
+  } catch (err: any) {
+    if ((err as AxiosError)?.response?.status === 404) return;
+    throw err;
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Internal helpers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,288 @@
+// =============================================================================
+// Module 2-G: HubSpot Rate Limiter
+// =============================================================================
+// A token bucket per HubSpot portal, shared by every client that
+// `createHubSpotClient` builds. Requests wait for a token BEFORE they are
+// sent, so a full sync stays under the burst limit instead of discovering
+// it through 429s.
+//
+//   1. portalKeyFor     — resolve the bucket key of an installation
+//   2. acquireToken     — wait (FIFO) until the portal may send a request
+//   3. recordResponse   — fold HubSpot's rate-limit headers into the bucket
+//   4. attachRateLimiter — wire 2 + 3 into an Axios instance
+//   5. getQuotaUsage    — current usage for the dashboard
+//
+// The bucket starts at `config.hubspotBurstLimit` requests per 10 s and is
+// corrected by every response:
+//   • X-HubSpot-RateLimit-Max / -Interval-Milliseconds — the real limit
+//   • X-HubSpot-RateLimit-Remaining — tokens are capped at what HubSpot
+//     says is left, which also accounts for other apps and processes
+//     using the same portal
+//   • X-HubSpot-RateLimit-Daily / -Daily-Remaining — reported only
+//     (HubSpot omits them for OAuth apps)
+// A 429 empties the bucket so concurrent callers back off together;
+// `withRetry` still honours the Retry-After of the request that got it.
+//
+// Buckets are in-memory, one set per process.
+// =============================================================================
+import { AxiosInstance, AxiosResponse } from 'axios';
+import config from '../config';
+import Installation from '../models/Installation';
+import { LRUCache } from '../utils/lruCache';
+import logger from '../utils/logger';
+
+/* ── Constants ── */
+
+/** HubSpot's burst window */
+const DEFAULT_INTERVAL_MS = 10_000;
+
+/** Used when `config.hubspotBurstLimit` is unset or invalid */
+const DEFAULT_BURST_LIMIT = 100;
+
+const HEADER_MAX = 'x-hubspot-ratelimit-max';
+const HEADER_INTERVAL = 'x-hubspot-ratelimit-interval-milliseconds';
+const HEADER_REMAINING = 'x-hubspot-ratelimit-remaining';
+const HEADER_DAILY = 'x-hubspot-ratelimit-daily';
+const HEADER_DAILY_REMAINING = 'x-hubspot-ratelimit-daily-remaining';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface Bucket {
+  /** Requests allowed per interval */
+  capacity: number;
+  intervalMs: number;
+  /** Tokens available now (fractional while refilling) */
+  tokens: number;
+  refilledAt: number;
+  /** Tail of the FIFO of callers waiting for a token */
+  queue: Promise<void>;
+  dailyLimit: number | null;
+  dailyRemaining: number | null;
+  /** Requests that had to wait for a token */
+  throttled: number;
+  /** 429 responses seen */
+  rateLimited: number;
+  /** Last time HubSpot reported its limits (ms) */
+  reportedAt: number | null;
+}
+
+/** Quota usage of one portal, as shown on the dashboard */
+export interface QuotaUsage {
+  /** Requests allowed per burst window */
+  burstLimit: number;
+  /** Requests that can be sent right now */
+  burstRemaining: number;
+  burstIntervalMs: number;
+  /** `null` when HubSpot does not report a daily limit (OAuth apps) */
+  dailyLimit: number | null;
+  dailyRemaining: number | null;
+  /** Requests delayed by the limiter since the process started */
+  throttledRequests: number;
+  /** 429 responses since the process started */
+  rateLimitedResponses: number;
+  /** When HubSpot last reported its limits, `null` if it never has */
+  reportedAt: string | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Buckets
+// ─────────────────────────────────────────────────────────────────────────────
+
+const buckets = new Map<string, Bucket>();
+
+function burstLimit(): number {
+  return config.hubspotBurstLimit > 0 ? config.hubspotBurstLimit : DEFAULT_BURST_LIMIT;
+}
+
+function bucketFor(portalKey: string): Bucket {
+  let bucket = buckets.get(portalKey);
+  if (!bucket) {
+    const capacity = burstLimit();
+    bucket = {
+      capacity,
+      intervalMs: DEFAULT_INTERVAL_MS,
+      tokens: capacity,
+      refilledAt: Date.now(),
+      queue: Promise.resolve(),
+      dailyLimit: null,
+      dailyRemaining: null,
+      throttled: 0,
+      rateLimited: 0,
+      reportedAt: null,
+    };
+    buckets.set(portalKey, bucket);
+  }
+  return bucket;
+}
+
+/** Adds the tokens earned since the last refill */
+function refill(bucket: Bucket): void {
+  const now = Date.now();
+  const earned = ((now - bucket.refilledAt) * bucket.capacity) / bucket.intervalMs;
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + earned);
+  bucket.refilledAt = now;
+}
+
+/** Reads a non-negative integer header, `null` if absent or malformed */
+function numericHeader(headers: Record<string, unknown>, name: string): number | null {
+  const raw = headers[name];
+  if (raw === undefined || raw === null || raw === '') return null;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Portal key
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** instanceId → bucket key; portals do not change while connected */
+const portalKeys = new LRUCache<string, string>(500, 5 * 60 * 1000);
+
+/**
+ * Resolves the bucket an installation draws from. HubSpot limits apply per
+ * portal, so two Wix sites connected to the same portal share one bucket.
+ * An installation without a portal ID gets a bucket of its own.
+ */
+export async function portalKeyFor(instanceId: string): Promise<string> {
+  const cached = portalKeys.get(instanceId);
+  if (cached) return cached;
+
+  const installation = await Installation.findOne({ instanceId }).select('hubspotPortalId').lean();
+  const key = installation?.hubspotPortalId
+    ? `portal:${installation.hubspotPortalId}`
+    : `instance:${instanceId}`;
+  portalKeys.set(instanceId, key);
+  return key;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Acquire a token
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolves once the portal may send one more request. Callers are served
+ * in arrival order, so a long full sync cannot starve webhook jobs.
+ */
+export function acquireToken(portalKey: string): Promise<void> {
+  const bucket = bucketFor(portalKey);
+
+  const turn = bucket.queue.then(async () => {
+    refill(bucket);
+    if (bucket.tokens < 1) {
+      bucket.throttled++;
+      while (bucket.tokens < 1) {
+        await sleep(Math.ceil(((1 - bucket.tokens) * bucket.intervalMs) / bucket.capacity));
+        refill(bucket);
+      }
+    }
+    bucket.tokens -= 1;
+  });
+
+  bucket.queue = turn;
+  return turn;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Record a response
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Updates the portal's bucket from a HubSpot response — successful or not.
+ *
+ * @param status  — HTTP status of the response
+ * @param headers — Response headers (lower-case names, as Node delivers them)
+ */
+export function recordResponse(portalKey: string, status: number, headers: unknown): void {
+  const bucket = bucketFor(portalKey);
+  const h = (headers ?? {}) as Record<string, unknown>;
+  refill(bucket);
+
+  const max = numericHeader(h, HEADER_MAX);
+  const interval = numericHeader(h, HEADER_INTERVAL);
+  if (max && interval) {
+    if (max !== bucket.capacity || interval !== bucket.intervalMs) {
+      logger.debug('HubSpot burst limit reported', { portalKey, max, intervalMs: interval });
+    }
+    bucket.capacity = max;
+    bucket.intervalMs = interval;
+    bucket.tokens = Math.min(bucket.tokens, max);
+  }
+
+  const remaining = numericHeader(h, HEADER_REMAINING);
+  if (remaining !== null) bucket.tokens = Math.min(bucket.tokens, remaining);
+
+  const daily = numericHeader(h, HEADER_DAILY);
+  const dailyRemaining = numericHeader(h, HEADER_DAILY_REMAINING);
+  if (daily !== null) bucket.dailyLimit = daily;
+  if (dailyRemaining !== null) bucket.dailyRemaining = dailyRemaining;
+
+  if (max !== null || remaining !== null || daily !== null) bucket.reportedAt = Date.now();
+
+  if (status === 429) {
+    bucket.rateLimited++;
+    bucket.tokens = 0;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Axios wiring
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Makes every request of `client` wait for a token of `portalKey`, and
+ * every response (including errors) update that bucket.
+ */
+export function attachRateLimiter(client: AxiosInstance, portalKey: string): void {
+  client.interceptors.request.use(async (request) => {
+    await acquireToken(portalKey);
+    return request;
+  });
+
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      recordResponse(portalKey, response.status, response.headers);
+      return response;
+    },
+    (err) => {
+      if (err?.response) recordResponse(portalKey, err.response.status, err.response.headers);
+      return Promise.reject(err);
+    },
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Quota usage
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Current quota usage of the installation's portal */
+export async function getQuotaUsage(instanceId: string): Promise<QuotaUsage> {
+  const bucket = bucketFor(await portalKeyFor(instanceId));
+  refill(bucket);
+
+  return {
+    burstLimit: bucket.capacity,
+    burstRemaining: Math.floor(bucket.tokens),
+    burstIntervalMs: bucket.intervalMs,
+    dailyLimit: bucket.dailyLimit,
+    dailyRemaining: bucket.dailyRemaining,
+    throttledRequests: bucket.throttled,
+    rateLimitedResponses: bucket.rateLimited,
+    reportedAt: bucket.reportedAt ? new Date(bucket.reportedAt).toISOString() : null,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities (exposed for testing)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Forget every bucket and cached portal key */
+export function resetRateLimiters(): void {
+  buckets.clear();
+  portalKeys.clear();
+}
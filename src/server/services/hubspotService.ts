@@ -20,6 +20,7 @@ import {
 } from './hubspotContacts';
 import { fetchCustomProperties } from './hubspotProperties';
 import { IInstallation } from '../models/Installation';
+import config from '../config';
 import logger from '../utils/logger';
 import { FlatContact, FieldOption, HubSpotContact } from '../types';
 
@@ -131,7 +132,7 @@ export async function submitForm(
 ): Promise<void> {
   const { default: axios } = await import('axios');
   await axios.post(
-    `https://api.hsforms.com/submissions/v3/integration/submit/${installation.hubspotPortalId}/${formGuid}`,
+    `${config.hubspotFormsBase}/submissions/v3/integration/submit/${installation.hubspotPortalId}/${formGuid}`,
     {
       fields,
       context: {
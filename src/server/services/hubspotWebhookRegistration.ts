@@ -9,6 +9,8 @@
 //   1. contact.creation       — a new contact was created
 //   2. contact.propertyChange — any contact property was modified
 //   3. contact.deletion       — a contact was deleted (for mapping cleanup)
+//   4. contact.merge          — contacts were merged (mapping repointing)
+//   5. contact.associationChange — a company / deal association changed
 //
 // HubSpot Webhooks API docs:
 //   https://developers.hubspot.com/docs/api/webhooks
@@ -21,8 +23,6 @@ import config from '../config';
 import logger from '../utils/logger';
 
 /* ── Constants ── */
-const HUBSPOT_API_BASE = 'https://api.hubapi.com';
-
 /** The webhook subscriptions we need to create */
 const REQUIRED_SUBSCRIPTIONS: SubscriptionInput[] = [
   {
@@ -53,10 +53,23 @@ const REQUIRED_SUBSCRIPTIONS: SubscriptionInput[] = [
     subscriptionType: 'contact.propertyChange',
     propertyName: 'jobtitle',
   },
+  {
+    // Label sync in `property` mode (Module 17)
+    subscriptionType: 'contact.propertyChange',
+    propertyName: 'wix_labels',
+  },
   {
     subscriptionType: 'contact.deletion',
     propertyName: undefined,
   },
+  {
+    subscriptionType: 'contact.merge',
+    propertyName: undefined,
+  },
+  {
+    subscriptionType: 'contact.associationChange',
+    propertyName: undefined,
+  },
 ];
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -123,7 +136,7 @@ function buildDevClient() {
   }
 
   return axios.create({
-    baseURL: HUBSPOT_API_BASE,
+    baseURL: config.hubspotApiBase,
     timeout: 15_000,
     headers: {
       'Content-Type': 'application/json',
@@ -0,0 +1,693 @@
+// =============================================================================
+// Module 13: Durable Sync Job Queue
+// =============================================================================
+// Replaces fire-and-forget webhook processing with a MongoDB-backed queue.
+// Webhook routes and Wix event hooks only ENQUEUE work; a worker loop
+// started from `index.ts` does the actual syncing.
+//
+//   1. enqueueSyncJob  — persist a contact change as a pending job
+//   2. leaseNextJob    — atomically claim the next runnable job
+//   3. processJob      — run the matching Module 7 scenario (or Module 16
+//                        order sync)
+//   4. completeJob / failJob / parkJob — finish, retry with back-off,
+//                        dead-letter, or park during an outage
+//   5. startJobWorker / stopJobWorker — worker lifecycle; every tick also
+//                        replays parked jobs (replayParkedJobs)
+//   6. getQueueStats / listDeadJobs / retryDeadJob — dashboard helpers
+//
+// Guarantees:
+//   • Leasing — a leased job carries an expiry. If the process dies before
+//     finishing, the lease lapses and another worker picks the job up.
+//   • Per-contact serialisation — jobs for the same contact ("wix:<id>" or
+//     "hubspot:<id>") never run concurrently and run in creation order,
+//     so a stale payload can never overwrite a newer one. A linked pair
+//     counts as one contact: the Wix and HubSpot sides wait for each
+//     other. Order jobs are serialised per order ("order:<id>").
+//   • Exponential retry — 30 s, 1 min, 2 min, … capped at 30 min.
+//   • Dead-letter — once `maxAttempts` is reached (or the failure is a
+//     permanent 4xx), the job is parked as `dead` and a SyncError record
+//     is written so the failure is visible and retryable.
+//   • Degraded mode — while an installation's HubSpot or Wix circuit is
+//     open (Module 21), its jobs are `parked` instead of attempted and keep
+//     their attempt budget; they replay once the circuit lets calls through.
+// =============================================================================
+import crypto from 'crypto';
+import os from 'os';
+import config from '../config';
+import Installation from '../models/Installation';
+import SyncJob, { ISyncJob, SyncJobStatus } from '../models/SyncJob';
+import SyncError from '../models/SyncError';
+import {
+  handleWixWebhook,
+  handleHubSpotWebhook,
+  onWixContactDeleted,
+  onHubSpotContactDeleted,
+  onHubSpotContactsMerged,
+} from './syncOrchestrator';
+import { syncWixOrder } from './orderSync';
+import { getContactById } from './hubspotContacts';
+import { loadMappingRules } from './fieldMappingEngine';
+import { loadSyncFilters, filterProperties } from './syncFilters';
+import { isSyncEcho, extractSyncId } from './dedupeGuard';
+import { findByWixId, findByHubSpotId } from './mappingStore';
+import { CircuitOpenError, isCircuitOpen } from './circuitBreaker';
+import logger from '../utils/logger';
+import { SyncJobType, SyncSource, WixOrder } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** How long a worker may hold a job before it is considered abandoned */
+const LEASE_DURATION_MS = 2 * 60 * 1000;
+
+/** First retry delay; doubles on every subsequent attempt */
+const RETRY_BASE_MS = 30_000;
+
+/** Upper bound for the retry delay */
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+/** How many runnable jobs are inspected per lease attempt */
+const LEASE_SCAN_LIMIT = 25;
+
+/**
+ * Properties fetched for every HubSpot contact a job touches, plus every
+ * mapped one and those the sync filters read
+ */
+const HUBSPOT_CONTACT_PROPERTIES: readonly string[] = [
+  'firstname',
+  'lastname',
+  'email',
+  'phone',
+  'company',
+  'jobtitle',
+  'wix_sync_tag',
+  'hs_lastmodifieddate',
+];
+
+/** Identifies this process in `leaseOwner` */
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Enqueue
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EnqueueJobInput {
+  instanceId: string;
+  type: SyncJobType;
+  contactId: string;
+  payload?: Record<string, unknown>;
+  source: SyncSource;
+}
+
+/** Build the serialisation key for a job type + contact (or order) ID */
+function contactKeyFor(type: SyncJobType, contactId: string): string {
+  if (type === 'wix_order_created') return `order:${contactId}`;
+  return type.startsWith('wix_') ? `wix:${contactId}` : `hubspot:${contactId}`;
+}
+
+/**
+ * Persists a contact change as a pending job — or a parked one while the
+ * installation's circuit is open.
+ *
+ * Callers should await this BEFORE acknowledging the inbound event — once
+ * it resolves, the change survives a process restart.
+ *
+ * @returns — The created job document
+ */
+export async function enqueueSyncJob(input: EnqueueJobInput): Promise<ISyncJob> {
+  const job = await SyncJob.create({
+    status: (isCircuitOpen(input.instanceId) ? 'parked' : 'pending') satisfies SyncJobStatus,
+    instanceId: input.instanceId,
+    type: input.type,
+    contactId: input.contactId,
+    contactKey: contactKeyFor(input.type, input.contactId),
+    payload: input.payload ?? {},
+    source: input.source,
+    maxAttempts: config.jobMaxAttempts,
+    runAt: new Date(),
+  });
+
+  logger.debug('Sync job enqueued', {
+    instanceId: input.instanceId,
+    jobId: String(job._id),
+    type: input.type,
+    status: job.status,
+  });
+
+  return job;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Lease
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Key of the other side of a linked contact pair — `hubspot:<id>` for a
+ * linked `wix:<id>` and vice versa — or `null` when the contact is not
+ * linked (or the key is an order's).
+ */
+async function pairKeyFor(instanceId: string, contactKey: string): Promise<string | null> {
+  const sep = contactKey.indexOf(':');
+  const side = contactKey.slice(0, sep);
+  const id = contactKey.slice(sep + 1);
+  if (side === 'wix') {
+    const mapping = await findByWixId(instanceId, id);
+    return mapping ? `hubspot:${mapping.hubspotContactId}` : null;
+  }
+  if (side === 'hubspot') {
+    const mapping = await findByHubSpotId(instanceId, id);
+    return mapping ? `wix:${mapping.wixContactId}` : null;
+  }
+  return null;
+}
+
+/**
+ * Atomically claims the next runnable job, honouring per-contact
+ * serialisation.
+ *
+ * A job is runnable when it is `pending` and due, or `leased` with an
+ * expired lease. It is skipped if another job for the same contact is
+ * still in flight, or if an OLDER pending or parked job for that contact
+ * exists. The other side of a linked pair counts as the same contact, so
+ * a Wix and a HubSpot change to one pair never run at once.
+ *
+ * @param busyKeys — Contact keys currently being processed in this process
+ * @returns        — The leased job, or `null` if nothing is runnable
+ */
+export async function leaseNextJob(
+  busyKeys: ReadonlySet<string> = new Set(),
+): Promise<ISyncJob | null> {
+  const now = new Date();
+  const runnable = {
+    $or: [
+      { status: 'pending', runAt: { $lte: now } },
+      { status: 'leased', leaseExpiresAt: { $lte: now } },
+    ],
+  };
+
+  const candidates = await SyncJob.find(runnable)
+    .sort({ runAt: 1, createdAt: 1 })
+    .limit(LEASE_SCAN_LIMIT)
+    .select('_id instanceId contactKey createdAt')
+    .lean();
+
+  for (const candidate of candidates) {
+    const { instanceId, contactKey } = candidate;
+    if (busyKeys.has(`${instanceId}:${contactKey}`)) continue;
+
+    const pairKey = await pairKeyFor(instanceId, contactKey);
+    if (pairKey && busyKeys.has(`${instanceId}:${pairKey}`)) continue;
+
+    const blocker = await SyncJob.exists({
+      _id: { $ne: candidate._id },
+      instanceId,
+      contactKey: pairKey ? { $in: [contactKey, pairKey] } : contactKey,
+      $or: [
+        { status: 'leased', leaseExpiresAt: { $gt: now } },
+        { status: { $in: ['pending', 'parked'] }, createdAt: { $lt: candidate.createdAt } },
+      ],
+    });
+    if (blocker) continue;
+
+    const leased = await SyncJob.findOneAndUpdate(
+      { _id: candidate._id, ...runnable },
+      {
+        $set: {
+          status: 'leased' satisfies SyncJobStatus,
+          leaseOwner: WORKER_ID,
+          leaseExpiresAt: new Date(now.getTime() + LEASE_DURATION_MS),
+        },
+        $inc: { attempts: 1 },
+      },
+      { new: true },
+    );
+
+    // Another worker may have won the race — try the next candidate
+    if (leased) return leased;
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Process — dispatch to the Module 7 scenarios
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Runs a leased job against the sync orchestrator.
+ *
+ * Loop prevention (Module 5) happens here rather than in the webhook
+ * routes so that a retried job is re-checked with fresh data.
+ *
+ * @throws — Whatever the orchestrator throws; the caller decides on retry
+ */
+export async function processJob(job: ISyncJob): Promise<void> {
+  const { instanceId, contactId } = job;
+
+  const installation = await Installation.findOne({ instanceId });
+  if (!installation?.connected || !installation.syncEnabled) {
+    logger.debug('Sync job dropped (not connected or sync disabled)', {
+      instanceId,
+      jobId: String(job._id),
+    });
+    return;
+  }
+
+  switch (job.type) {
+    case 'wix_contact_created':
+    case 'wix_contact_updated': {
+      const contactData = (job.payload.contact ?? {}) as Record<string, any>;
+
+      // Module 5 — Dedupe guard: was this change caused by our own write?
+      const syncId = extractSyncId(contactData, 'wix');
+      if (await isSyncEcho(syncId)) {
+        logger.debug('Wix sync job is our own echo — skipping', {
+          instanceId,
+          contactId,
+          syncId: syncId?.slice(0, 8),
+        });
+        return;
+      }
+
+      await handleWixWebhook(
+        installation,
+        contactId,
+        contactData,
+        job.type === 'wix_contact_created' ? 'created' : 'updated',
+        job.source,
+      );
+      return;
+    }
+
+    case 'hubspot_contact_created':
+    case 'hubspot_contact_updated': {
+      // Always fetch the latest state — the job may be minutes old
+      const rules = await loadMappingRules(instanceId);
+      const fullContact = await getContactById(instanceId, contactId, [
+        ...new Set([
+          ...HUBSPOT_CONTACT_PROPERTIES,
+          ...rules.map((r) => r.hubspotField),
+          ...filterProperties(await loadSyncFilters(instanceId)),
+        ]),
+      ]);
+
+      if (!fullContact) {
+        logger.warn('HubSpot sync job: contact no longer exists', {
+          instanceId,
+          hubspotContactId: contactId,
+        });
+        return;
+      }
+
+      const syncId = extractSyncId(fullContact, 'hubspot');
+      if (await isSyncEcho(syncId)) {
+        logger.debug('HubSpot sync job is our own echo — skipping', {
+          instanceId,
+          hubspotContactId: contactId,
+          syncId: syncId?.slice(0, 8),
+        });
+        return;
+      }
+
+      await handleHubSpotWebhook(
+        installation,
+        contactId,
+        fullContact.properties,
+        job.type === 'hubspot_contact_created' ? 'created' : 'updated',
+        job.source,
+      );
+      return;
+    }
+
+    // Deletions carry no contact data — echo detection happens inside the
+    // orchestrator via `deletionSyncId`
+    case 'wix_contact_deleted':
+      await onWixContactDeleted(installation, contactId, job.source);
+      return;
+
+    case 'hubspot_contact_deleted':
+      await onHubSpotContactDeleted(installation, contactId, job.source);
+      return;
+
+    // `contactId` is the surviving record; the merged-away IDs ride along
+    case 'hubspot_contact_merged': {
+      const mergedIds = (job.payload.mergedIds ?? []) as string[];
+      const result = await onHubSpotContactsMerged(installation, contactId, mergedIds, job.source);
+
+      // Bring the kept Wix contact up to date with the merged record
+      if (result.action === 'merge') {
+        await enqueueSyncJob({
+          instanceId,
+          type: 'hubspot_contact_updated',
+          contactId,
+          source: job.source,
+        });
+      }
+      return;
+    }
+
+    // Module 16 — `contactId` holds the Wix order ID
+    case 'wix_order_created':
+      await syncWixOrder(installation, (job.payload.order ?? {}) as WixOrder);
+      return;
+
+    default:
+      logger.warn('Unknown sync job type', { jobId: String(job._id), type: job.type });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Complete / fail
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Delay before the next attempt: 30 s × 2^(attempts − 1), capped at 30 min.
+ *
+ * @param attempts — Attempts made so far (≥ 1)
+ */
+export function computeBackoffMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(RETRY_BASE_MS * Math.pow(2, exponent), RETRY_MAX_MS);
+}
+
+/**
+ * Returns `true` for failures that retrying cannot fix — HTTP 4xx from
+ * either API, except 408 (timeout) and 429 (rate limit).
+ */
+export function isPermanentFailure(err: unknown): boolean {
+  const e = err as { response?: { status?: number }; statusCode?: number };
+  const status = e?.response?.status ?? e?.statusCode;
+  if (status === undefined) return false;
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+/** Mark a job as successfully processed. */
+export async function completeJob(job: ISyncJob): Promise<void> {
+  await SyncJob.updateOne(
+    { _id: job._id, leaseOwner: WORKER_ID },
+    {
+      $set: {
+        status: 'completed' satisfies SyncJobStatus,
+        completedAt: new Date(),
+        leaseOwner: '',
+        leaseExpiresAt: null,
+        lastError: '',
+      },
+    },
+  );
+}
+
+/**
+ * Records a failed attempt. Schedules a retry with exponential back-off,
+ * or moves the job to the dead-letter state when attempts are exhausted
+ * or the failure is permanent.
+ *
+ * @returns — The status the job was moved to
+ */
+export async function failJob(
+  job: ISyncJob,
+  err: unknown,
+): Promise<SyncJobStatus> {
+  const message = (err as Error)?.message ?? String(err);
+  const dead = job.attempts >= job.maxAttempts || isPermanentFailure(err);
+
+  if (!dead) {
+    const delay = computeBackoffMs(job.attempts);
+    await SyncJob.updateOne(
+      { _id: job._id, leaseOwner: WORKER_ID },
+      {
+        $set: {
+          status: 'pending' satisfies SyncJobStatus,
+          runAt: new Date(Date.now() + delay),
+          leaseOwner: '',
+          leaseExpiresAt: null,
+          lastError: message,
+        },
+      },
+    );
+    logger.warn('Sync job failed — retry scheduled', {
+      instanceId: job.instanceId,
+      jobId: String(job._id),
+      attempt: job.attempts,
+      retryInMs: delay,
+      error: message,
+    });
+    return 'pending';
+  }
+
+  await SyncJob.updateOne(
+    { _id: job._id, leaseOwner: WORKER_ID },
+    {
+      $set: {
+        status: 'dead' satisfies SyncJobStatus,
+        leaseOwner: '',
+        leaseExpiresAt: null,
+        lastError: message,
+      },
+    },
+  );
+
+  // Surface the dead-lettered change alongside other sync failures
+  try {
+    await SyncError.create({
+      instanceId: job.instanceId,
+      type: job.type === 'wix_order_created' ? 'order_sync' : 'contact_sync',
+      referenceId: job.contactId,
+      payload: { jobId: String(job._id), jobType: job.type, source: job.source },
+      error: message,
+      retryCount: job.attempts,
+      lastRetryAt: new Date(),
+    });
+  } catch (recordErr) {
+    logger.error('Failed to record dead-lettered sync job', {
+      jobId: String(job._id),
+      error: (recordErr as Error).message,
+    });
+  }
+
+  logger.error('Sync job moved to dead-letter', {
+    instanceId: job.instanceId,
+    jobId: String(job._id),
+    type: job.type,
+    attempts: job.attempts,
+    error: message,
+  });
+  return 'dead';
+}
+
+/**
+ * Parks a job while its installation's circuit is open. The lease that
+ * brought it here is not counted as an attempt.
+ */
+export async function parkJob(job: ISyncJob, reason: string): Promise<void> {
+  await SyncJob.updateOne(
+    { _id: job._id, leaseOwner: WORKER_ID },
+    {
+      $set: {
+        status: 'parked' satisfies SyncJobStatus,
+        leaseOwner: '',
+        leaseExpiresAt: null,
+        lastError: reason,
+      },
+      $inc: { attempts: -1 },
+    },
+  );
+  logger.info('Sync job parked — circuit open', {
+    instanceId: job.instanceId,
+    jobId: String(job._id),
+    type: job.type,
+  });
+}
+
+/**
+ * Returns parked jobs to the queue for every installation whose circuit
+ * is no longer open. If the first of them fails again the circuit reopens
+ * and the rest are parked again without losing an attempt.
+ *
+ * @returns — Number of jobs released
+ */
+export async function replayParkedJobs(): Promise<number> {
+  const instanceIds: string[] = await SyncJob.distinct('instanceId', { status: 'parked' });
+
+  let released = 0;
+  for (const instanceId of instanceIds) {
+    if (isCircuitOpen(instanceId)) continue;
+    const res = await SyncJob.updateMany(
+      { instanceId, status: 'parked' },
+      { $set: { status: 'pending' satisfies SyncJobStatus, runAt: new Date() } },
+    );
+    if (res.modifiedCount > 0) {
+      logger.info('Replaying parked sync jobs', { instanceId, count: res.modifiedCount });
+      released += res.modifiedCount;
+    }
+  }
+  return released;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Worker loop
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Interval handle — used to stop the worker on shutdown. */
+let intervalHandle: ReturnType<typeof setInterval> | null = null;
+
+/** Guards against overlapping ticks when a lease scan is slow. */
+let ticking = false;
+
+/** "<instanceId>:<contactKey>" of jobs currently running in this process. */
+const inFlight = new Set<string>();
+
+/**
+ * Run one job end-to-end: process → complete, fail → retry / dead, or
+ * park it while the installation's circuit is open.
+ */
+async function runJob(job: ISyncJob): Promise<void> {
+  const key = `${job.instanceId}:${job.contactKey}`;
+  inFlight.add(key);
+  try {
+    if (isCircuitOpen(job.instanceId)) {
+      await parkJob(job, 'Circuit open');
+      return;
+    }
+    await processJob(job);
+    await completeJob(job);
+  } catch (err) {
+    const record = err instanceof CircuitOpenError ? parkJob(job, err.message) : failJob(job, err);
+    await record.catch((updateErr) =>
+      logger.error('Failed to record sync job failure', {
+        jobId: String(job._id),
+        error: (updateErr as Error).message,
+      }),
+    );
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * One worker tick: lease jobs until the concurrency limit is reached or
+ * nothing is runnable. Leased jobs run in the background.
+ */
+export async function pollOnce(): Promise<number> {
+  if (ticking) return 0;
+  ticking = true;
+  let started = 0;
+  try {
+    await replayParkedJobs();
+    while (inFlight.size < config.jobConcurrency) {
+      const job = await leaseNextJob(inFlight);
+      if (!job) break;
+      started++;
+      runJob(job).catch(() => {
+        /* logged inside */
+      });
+    }
+  } catch (err) {
+    logger.error('Sync job worker tick failed', { error: (err as Error).message });
+  } finally {
+    ticking = false;
+  }
+  return started;
+}
+
+/**
+ * Starts the background worker loop.
+ *
+ * Call once at app boot after connecting to MongoDB. Calling it again
+ * while running is a no-op.
+ */
+export function startJobWorker(): void {
+  if (intervalHandle) {
+    logger.debug('Sync job worker already running — skipping start');
+    return;
+  }
+
+  logger.info('Starting sync job worker', {
+    workerId: WORKER_ID,
+    pollIntervalMs: config.jobPollIntervalMs,
+    concurrency: config.jobConcurrency,
+  });
+
+  intervalHandle = setInterval(() => {
+    pollOnce().catch(() => {
+      /* logged inside */
+    });
+  }, config.jobPollIntervalMs);
+
+  // Allow the process to exit even if the timer is still scheduled
+  if (intervalHandle && typeof intervalHandle === 'object' && 'unref' in intervalHandle) {
+    intervalHandle.unref();
+  }
+}
+
+/**
+ * Stops the worker loop. Jobs already running are left to finish; any
+ * that are cut off by process exit are re-leased after their lease expires.
+ */
+export function stopJobWorker(): void {
+  if (intervalHandle) {
+    clearInterval(intervalHandle);
+    intervalHandle = null;
+    logger.info('Sync job worker stopped');
+  }
+}
+
+/** Returns `true` if the worker loop is currently running. */
+export function isJobWorkerRunning(): boolean {
+  return intervalHandle !== null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 6. Dashboard helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type QueueStats = Record<SyncJobStatus, number>;
+
+/** Job counts per status for an installation. */
+export async function getQueueStats(instanceId: string): Promise<QueueStats> {
+  const rows: Array<{ _id: SyncJobStatus; count: number }> = await SyncJob.aggregate([
+    { $match: { instanceId } },
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+
+  const stats: QueueStats = { pending: 0, leased: 0, completed: 0, dead: 0, parked: 0 };
+  for (const row of rows) {
+    stats[row._id] = row.count;
+  }
+  return stats;
+}
+
+/** Most recent dead-lettered jobs for an installation. */
+export async function listDeadJobs(
+  instanceId: string,
+  limit = 50,
+): Promise<ISyncJob[]> {
+  return SyncJob.find({ instanceId, status: 'dead' })
+    .sort({ updatedAt: -1 })
+    .limit(limit)
+    .select('-payload');
+}
+
+/**
+ * Moves a dead job back to `pending` with a fresh attempt budget.
+ *
+ * @returns — `true` if a dead job was found and re-queued
+ */
+export async function retryDeadJob(
+  instanceId: string,
+  jobId: string,
+): Promise<boolean> {
+  const res = await SyncJob.updateOne(
+    { _id: jobId, instanceId, status: 'dead' },
+    {
+      $set: {
+        status: 'pending' satisfies SyncJobStatus,
+        attempts: 0,
+        runAt: new Date(),
+        lastError: '',
+      },
+    },
+  );
+  return res.modifiedCount > 0;
+}
@@ -0,0 +1,519 @@
+// =============================================================================
+// Module 17: Label Sync
+// =============================================================================
+// Represents Wix contact labels in HubSpot, per `installation.labelSync.mode`:
+//
+//   • property — labels travel through a `labelIds` field mapping rule into a
+//     multi-select (checkbox) property, `wix_labels` by default. Wix stores
+//     label KEYS; HubSpot stores label NAMES, so the orchestrator converts at
+//     the boundary:
+//       1. mapLabelsToHubSpot  — label keys → names (Wix → HubSpot)
+//       2. ensureLabelOptions  — add unseen names as property options
+//       3. mapLabelsToWix      — names → keys, creating missing labels
+//   • lists — one static HubSpot list ("Wix: <label>") per label:
+//       4. pushLabelsToLists   — make list memberships match the Wix labels
+//       5. pullLabelsFromLists — make Wix labels match the list memberships
+//       7. pullListMemberships — run 5 for every contact that joined or left
+//                                a list since the last pass
+//
+// 6. enableLabelProperty sets property mode up: the property and the rule.
+//
+// Joining or leaving a static list is not a property change, so no contact
+// webhook reports it. Step 5 runs for contacts whose properties changed;
+// step 7 runs on every delta sync (Module 14 schedule) to catch the rest.
+//
+// Only user-defined labels (`custom.*` keys) are synced; system and app
+// labels stay on the Wix contact untouched. The label catalogue is cached
+// per installation for five minutes.
+// =============================================================================
+import LabelListMapping, { ILabelListMapping } from '../models/LabelListMapping';
+import { IInstallation } from '../models/Installation';
+import FieldMapping, { IFieldMapping } from '../models/FieldMapping';
+import { listWixLabels, findOrCreateWixLabel, updateWixContactLabels } from './wixContacts';
+import { addPropertyOptions, createCustomProperty, WIX_LABELS_PROPERTY } from './hubspotProperties';
+import {
+  findListByName,
+  createStaticList,
+  getContactListIds,
+  addToList,
+  removeFromList,
+  getListMemberIds,
+} from './hubspotLists';
+import { findByHubSpotId } from './mappingStore';
+import { registerSyncId } from './dedupeGuard';
+import { flattenWixContact, invalidateRulesCache } from './fieldMappingEngine';
+import logger from '../utils/logger';
+import { FlatContact } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Wix registry field that carries a contact's label keys */
+export const LABEL_FIELD = 'labelIds';
+
+/** Separator of multi-select values — HubSpot's, reused for `labelIds` */
+const LABEL_SEPARATOR = ';';
+
+/** Prefix of the HubSpot lists created in `lists` mode */
+export const LABEL_LIST_PREFIX = 'Wix: ';
+
+/** Label catalogue cache TTL — 5 minutes */
+const CATALOGUE_TTL_MS = 5 * 60_000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** `true` for labels created by the site owner (or by us) */
+export function isSyncedLabel(key: string): boolean {
+  return key.startsWith('custom.');
+}
+
+/** Splits a `;`-separated multi-select value */
+export function splitLabels(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(LABEL_SEPARATOR)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/** A label name as a HubSpot option value — the separator is not allowed */
+function toOptionValue(name: string): string {
+  return name.replace(/;/g, ',').trim();
+}
+
+/**
+ * Keeps a contact's system and app labels and replaces its user-defined
+ * ones with `syncedKeys`.
+ *
+ * @param currentKeys — Labels the Wix contact has now
+ * @param syncedKeys  — User-defined labels it should have
+ */
+export function mergeLabelKeys(currentKeys: string[], syncedKeys: string[]): string[] {
+  return [...currentKeys.filter((key) => !isSyncedLabel(key)), ...new Set(syncedKeys)];
+}
+
+/** Active `labelIds` rules that write in the given direction */
+function labelRules(rules: IFieldMapping[], to: 'hubspot' | 'wix'): IFieldMapping[] {
+  const direction = to === 'hubspot' ? 'wix_to_hubspot' : 'hubspot_to_wix';
+  return rules.filter(
+    (r) =>
+      r.isActive &&
+      r.wixField === LABEL_FIELD &&
+      (r.direction === 'bidirectional' || r.direction === direction),
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Label catalogue (key ↔ name)
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface LabelCatalogue {
+  nameByKey: Map<string, string>;
+  /** Keyed by lower-cased option value */
+  keyByName: Map<string, string>;
+}
+
+const catalogueCache = new Map<string, { catalogue: LabelCatalogue; expiresAt: number }>();
+
+/**
+ * Loads the site's user-defined labels. A cached catalogue is refreshed
+ * early if it is missing one of `requiredKeys` (a label created since).
+ */
+async function loadLabelCatalogue(
+  installation: IInstallation,
+  requiredKeys: string[] = [],
+): Promise<LabelCatalogue> {
+  const cached = catalogueCache.get(installation.instanceId);
+  if (
+    cached &&
+    cached.expiresAt > Date.now() &&
+    requiredKeys.every((key) => cached.catalogue.nameByKey.has(key))
+  ) {
+    return cached.catalogue;
+  }
+
+  const catalogue: LabelCatalogue = { nameByKey: new Map(), keyByName: new Map() };
+  for (const label of await listWixLabels(installation)) {
+    if (!isSyncedLabel(label.key)) continue;
+    const name = toOptionValue(label.displayName);
+    catalogue.nameByKey.set(label.key, name);
+    catalogue.keyByName.set(name.toLowerCase(), label.key);
+  }
+
+  catalogueCache.set(installation.instanceId, {
+    catalogue,
+    expiresAt: Date.now() + CATALOGUE_TTL_MS,
+  });
+  return catalogue;
+}
+
+/** Force a fresh label catalogue on the next call */
+export function invalidateLabelCatalogue(instanceId: string): void {
+  catalogueCache.delete(instanceId);
+}
+
+/**
+ * Names of the site's user-defined labels — the options a label property
+ * should start with.
+ */
+export async function listSyncedLabelNames(installation: IInstallation): Promise<string[]> {
+  const catalogue = await loadLabelCatalogue(installation);
+  return [...catalogue.nameByKey.values()];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Wix → HubSpot (property mode)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Replaces the label keys that `wixToHubSpot` copied into label properties
+ * with the labels' names. Outside `property` mode, label rules are dropped.
+ *
+ * @param installation   — Connected installation
+ * @param wixContactData — Raw Wix contact the props were mapped from
+ * @param props          — Output of `wixToHubSpot`
+ * @param rules          — Active mapping rules
+ * @returns              — A copy of `props` with label names
+ */
+export async function mapLabelsToHubSpot(
+  installation: IInstallation,
+  wixContactData: Record<string, any>,
+  props: FlatContact,
+  rules: IFieldMapping[],
+): Promise<FlatContact> {
+  const rulesOut = labelRules(rules, 'hubspot');
+  if (rulesOut.length === 0) return props;
+
+  const next: FlatContact = { ...props };
+  for (const rule of rulesOut) delete next[rule.hubspotField];
+  if (installation.labelSync?.mode !== 'property') return next;
+
+  const keys = splitLabels(flattenWixContact(wixContactData)[LABEL_FIELD]).filter(isSyncedLabel);
+  if (keys.length === 0) return next;
+
+  const catalogue = await loadLabelCatalogue(installation, keys);
+  const names = keys
+    .map((key) => catalogue.nameByKey.get(key))
+    .filter((name): name is string => !!name);
+  if (names.length === 0) return next;
+
+  for (const rule of rulesOut) next[rule.hubspotField] = names.join(LABEL_SEPARATOR);
+  return next;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Property options
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Option values known to exist, per instance + property — skips the GET */
+const knownOptions = new Map<string, Set<string>>();
+
+/**
+ * Adds any label name about to be written that the target property does not
+ * offer yet. Call before the HubSpot write; a no-op outside `property` mode.
+ *
+ * @param installation — Connected installation
+ * @param props        — Properties about to be written
+ * @param rules        — Active mapping rules
+ */
+export async function ensureLabelOptions(
+  installation: IInstallation,
+  props: FlatContact,
+  rules: IFieldMapping[],
+): Promise<void> {
+  if (installation.labelSync?.mode !== 'property') return;
+
+  for (const rule of labelRules(rules, 'hubspot')) {
+    const values = splitLabels(props[rule.hubspotField]);
+    const cacheKey = `${installation.instanceId}:${rule.hubspotField}`;
+    const known = knownOptions.get(cacheKey) ?? new Set<string>();
+    if (values.every((v) => known.has(v))) continue;
+
+    await addPropertyOptions(installation.instanceId, rule.hubspotField, values);
+    values.forEach((v) => known.add(v));
+    knownOptions.set(cacheKey, known);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. HubSpot → Wix (property mode)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolves the label names of a HubSpot label property to Wix label keys
+ * and stores them `;`-separated under `labelIds`. Outside `property` mode,
+ * `labelIds` is dropped.
+ *
+ * @param installation  — Connected installation
+ * @param hubspotProps  — HubSpot contact properties the props were mapped from
+ * @param props         — Output of `hubSpotToWix`
+ * @param rules         — Active mapping rules
+ * @param createMissing — Create Wix labels for unknown names (off in a dry
+ *                        run, where unknown names are kept as-is)
+ * @returns             — A copy of `props` with label keys
+ */
+export async function mapLabelsToWix(
+  installation: IInstallation,
+  hubspotProps: FlatContact,
+  props: FlatContact,
+  rules: IFieldMapping[],
+  createMissing: boolean,
+): Promise<FlatContact> {
+  const rulesIn = labelRules(rules, 'wix');
+  if (rulesIn.length === 0) return props;
+
+  const next: FlatContact = { ...props };
+  delete next[LABEL_FIELD];
+  if (installation.labelSync?.mode !== 'property') return next;
+
+  const names = splitLabels(hubspotProps[rulesIn[0].hubspotField]);
+  if (names.length === 0) return next;
+
+  const catalogue = await loadLabelCatalogue(installation);
+  const keys: string[] = [];
+  let created = false;
+  for (const name of names) {
+    const key = catalogue.keyByName.get(name.toLowerCase());
+    if (key) {
+      keys.push(key);
+    } else if (createMissing) {
+      keys.push(await findOrCreateWixLabel(installation, name));
+      created = true;
+    } else {
+      keys.push(name);
+    }
+  }
+  if (created) invalidateLabelCatalogue(installation.instanceId);
+
+  next[LABEL_FIELD] = keys.join(LABEL_SEPARATOR);
+  return next;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Wix → HubSpot (lists mode)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** `true` for a MongoDB duplicate-key error */
+function isDuplicateKey(err: unknown): boolean {
+  return (err as { code?: number })?.code === 11000;
+}
+
+/** Finds or creates the static list for a label and remembers it */
+async function ensureLabelList(
+  instanceId: string,
+  labelKey: string,
+  labelName: string,
+): Promise<ILabelListMapping | null> {
+  const filter = { instanceId, labelKey };
+  const existing = await LabelListMapping.findOne(filter);
+  if (existing) return existing;
+
+  const listName = `${LABEL_LIST_PREFIX}${labelName}`;
+  const hubspotListId =
+    (await findListByName(instanceId, listName)) ?? (await createStaticList(instanceId, listName));
+
+  try {
+    return await LabelListMapping.findOneAndUpdate(
+      filter,
+      { $setOnInsert: { ...filter, hubspotListId } },
+      { upsert: true, new: true },
+    );
+  } catch (err) {
+    if (!isDuplicateKey(err)) throw err;
+    return LabelListMapping.findOne(filter);
+  }
+}
+
+/**
+ * Adds the HubSpot contact to the list of every label its Wix counterpart
+ * has (creating lists as needed) and removes it from the lists of labels
+ * it no longer has. A no-op outside `lists` mode.
+ *
+ * @param installation     — Connected installation
+ * @param hubspotContactId — HubSpot counterpart of the Wix contact
+ * @param wixContactData   — Raw Wix contact (nested or flat)
+ * @returns                — `true` if any membership changed
+ */
+export async function pushLabelsToLists(
+  installation: IInstallation,
+  hubspotContactId: string,
+  wixContactData: Record<string, any>,
+): Promise<boolean> {
+  if (installation.labelSync?.mode !== 'lists') return false;
+  const instanceId = installation.instanceId;
+
+  const keys = splitLabels(flattenWixContact(wixContactData)[LABEL_FIELD]).filter(isSyncedLabel);
+  if (keys.length > 0) {
+    const catalogue = await loadLabelCatalogue(installation, keys);
+    for (const key of keys) {
+      const name = catalogue.nameByKey.get(key);
+      if (name) await ensureLabelList(instanceId, key, name);
+    }
+  }
+
+  const mappings = await LabelListMapping.find({ instanceId });
+  if (mappings.length === 0) return false;
+
+  const wanted = new Set(keys);
+  const memberOf = new Set(await getContactListIds(instanceId, hubspotContactId));
+  let changed = false;
+
+  for (const mapping of mappings) {
+    const isMember = memberOf.has(mapping.hubspotListId);
+    if (wanted.has(mapping.labelKey) && !isMember) {
+      await addToList(instanceId, mapping.hubspotListId, [hubspotContactId]);
+      changed = true;
+    } else if (!wanted.has(mapping.labelKey) && isMember) {
+      await removeFromList(instanceId, mapping.hubspotListId, [hubspotContactId]);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. HubSpot → Wix (lists mode)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Labels the Wix contact with every label whose list the HubSpot contact is
+ * in, and removes the labels whose list it is not in. Only labels with a
+ * list mapping are touched. A no-op outside `lists` mode.
+ *
+ * The write carries a registered sync ID, so its Wix webhook is skipped as
+ * our own echo.
+ *
+ * @param installation     — Connected installation
+ * @param wixContactId     — Wix counterpart of the HubSpot contact
+ * @param hubspotContactId — HubSpot contact whose lists are read
+ * @returns                — `true` if the Wix contact's labels changed
+ */
+export async function pullLabelsFromLists(
+  installation: IInstallation,
+  wixContactId: string,
+  hubspotContactId: string,
+): Promise<boolean> {
+  if (installation.labelSync?.mode !== 'lists') return false;
+  const instanceId = installation.instanceId;
+
+  const mappings = await LabelListMapping.find({ instanceId });
+  if (mappings.length === 0) return false;
+
+  const memberOf = new Set(await getContactListIds(instanceId, hubspotContactId));
+  const add = mappings.filter((m) => memberOf.has(m.hubspotListId)).map((m) => m.labelKey);
+  const remove = mappings.filter((m) => !memberOf.has(m.hubspotListId)).map((m) => m.labelKey);
+
+  const syncId = await registerSyncId(instanceId, 'wix', wixContactId);
+  const changed = await updateWixContactLabels(installation, wixContactId, { add, remove }, syncId);
+
+  if (changed) {
+    logger.debug('Wix labels updated from HubSpot lists', { instanceId, wixContactId, hubspotContactId });
+  }
+  return changed;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 6. Property mode set-up
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Prepares property mode: creates the multi-select property, seeded with the
+ * site's labels as options, and the `labelIds` mapping rule when the
+ * installation has none.
+ *
+ * @param installation — Connected installation
+ */
+export async function enableLabelProperty(installation: IInstallation): Promise<void> {
+  const names = await listSyncedLabelNames(installation);
+  await createCustomProperty(installation.instanceId, {
+    ...WIX_LABELS_PROPERTY,
+    options: names.map((name, i) => ({ label: name, value: name, displayOrder: i })),
+  });
+
+  const rule = await FieldMapping.findOne({ instanceId: installation.instanceId, wixField: LABEL_FIELD });
+  if (!rule) {
+    await FieldMapping.create({
+      instanceId: installation.instanceId,
+      wixField: LABEL_FIELD,
+      hubspotField: WIX_LABELS_PROPERTY.name,
+      direction: 'bidirectional',
+      transform: 'none',
+      conflictStrategy: 'newest_wins',
+      isDefault: false,
+      isActive: true,
+    });
+    invalidateRulesCache(installation.instanceId);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 7. HubSpot → Wix list membership pass (lists mode)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Outcome of a {@link pullListMemberships} pass */
+export interface ListMembershipPass {
+  /** Wix contacts whose labels changed */
+  updated: number;
+  /** Contacts that failed; they are looked at again on the next pass */
+  failed: number;
+}
+
+/**
+ * Compares each mapped list's members with those seen on the last pass and
+ * runs {@link pullLabelsFromLists} for every synced contact that joined or
+ * left one. The new members are then stored as the next pass's baseline —
+ * except for contacts that failed, whose old membership is kept so they
+ * show up as changed again. A no-op outside `lists` mode.
+ *
+ * @param installation — Connected installation
+ */
+export async function pullListMemberships(installation: IInstallation): Promise<ListMembershipPass> {
+  const pass: ListMembershipPass = { updated: 0, failed: 0 };
+  if (installation.labelSync?.mode !== 'lists') return pass;
+  const instanceId = installation.instanceId;
+
+  const mappings = await LabelListMapping.find({ instanceId });
+  const lists: Array<{ mapping: ILabelListMapping; before: Set<string>; now: Set<string> }> = [];
+  const changed = new Set<string>();
+  for (const mapping of mappings) {
+    const before = new Set(mapping.memberIds ?? []);
+    const now = new Set(await getListMemberIds(instanceId, mapping.hubspotListId));
+    for (const id of now) if (!before.has(id)) changed.add(id);
+    for (const id of before) if (!now.has(id)) changed.add(id);
+    lists.push({ mapping, before, now });
+  }
+
+  const failed = new Set<string>();
+  for (const hubspotContactId of changed) {
+    try {
+      const contact = await findByHubSpotId(instanceId, hubspotContactId);
+      if (!contact) continue; // not synced to Wix (yet) — nothing to label
+      if (await pullLabelsFromLists(installation, contact.wixContactId, hubspotContactId)) pass.updated++;
+    } catch (err) {
+      failed.add(hubspotContactId);
+      logger.error('List membership pass: contact failed', {
+        instanceId,
+        hubspotContactId,
+        error: (err as Error).message,
+      });
+    }
+  }
+  pass.failed = failed.size;
+
+  for (const { mapping, before, now } of lists) {
+    const memberIds = [
+      ...[...now].filter((id) => !failed.has(id) || before.has(id)),
+      ...[...before].filter((id) => failed.has(id) && !now.has(id)),
+    ];
+    await LabelListMapping.updateOne({ _id: mapping._id }, { $set: { memberIds } });
+  }
+
+  if (changed.size > 0) {
+    logger.info('List membership pass complete', { instanceId, changed: changed.size, ...pass });
+  }
+  return pass;
+}
@@ -8,12 +8,13 @@
 //   • lastSyncedAt, lastSyncSource ('wix' | 'hubspot')
 //   • syncOperationId (UUID of the sync that created/updated the link)
 //
-// Five operations:
+// Six operations:
 //   1. findByWixId        — look up a mapping by Wix contact ID
 //   2. findByHubSpotId    — look up a mapping by HubSpot contact ID
 //   3. upsertMapping      — create or update a mapping
 //   4. deleteMapping      — remove a mapping when a contact is deleted
 //   5. setupCollection    — ensure the collection and indexes exist
+//   6. relinkHubSpotId    — point a mapping at a merged HubSpot record
 //
 // Performance:
 //   • LRU cache (max 500 entries, 5-minute TTL) avoids redundant DB reads
@@ -290,6 +291,57 @@ export async function setupCollection(): Promise<void> {
   });
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 6. Relink to another HubSpot contact
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Points the mapping of a HubSpot contact that no longer exists (merged
+ * away) at the record that replaced it. The property hash is cleared so
+ * the next sync writes the surviving record in full.
+ *
+ * The caller must first remove any mapping that already links the new ID —
+ * the unique index on `hubspotContactId` rejects a second one.
+ *
+ * @param instanceId        — Wix site instance
+ * @param fromHubSpotId     — HubSpot contact ID the mapping links today
+ * @param toHubSpotId       — HubSpot contact ID it should link instead
+ * @param syncOperationId   — UUID of the operation doing the relink
+ * @returns                 — The updated mapping, or `null` if none linked `fromHubSpotId`
+ * @throws DatabaseError
+ */
+export async function relinkHubSpotId(
+  instanceId: string,
+  fromHubSpotId: string,
+  toHubSpotId: string,
+  syncOperationId: string,
+): Promise<IContactMapping | null> {
+  const mapping = await safeDbCall('relink', () =>
+    ContactMapping.findOneAndUpdate(
+      { instanceId, hubspotContactId: fromHubSpotId },
+      {
+        $set: {
+          hubspotContactId: toHubSpotId,
+          lastSyncSource: 'hubspot',
+          lastSyncedAt: new Date(),
+          syncOperationId,
+          propertyHash: '',
+        },
+      },
+      { new: true },
+    ),
+  );
+
+  if (!mapping) return null;
+
+  // The old HubSpot key must not keep resolving to this mapping
+  evictMapping(instanceId, mapping.wixContactId, fromHubSpotId);
+  cacheMapping(instanceId, mapping);
+
+  logger.debug('Mapping relinked', { instanceId });
+  return mapping;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Utility: count mappings (used by the stats endpoint)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,315 @@
+// =============================================================================
+// Module 18: Mapping Versions
+// =============================================================================
+// Keeps an undo history of each installation's field mapping. Every save
+// (create, update, delete, reset or bulk replace) records the full rule set
+// as an immutable FieldMappingVersion:
+//
+//   1. recordMappingVersion — snapshot the current rules as the next version
+//   2. listMappingVersions  — newest first, paginated, without the rules
+//   3. getMappingVersion    — one version with its rules
+//   4. diffMappingVersions  — rules added, removed and changed between two
+//   5. rollbackToVersion    — restore a version's rules (recorded as a new
+//                             version, so a rollback can itself be undone)
+//   6. snapshotRule / replaceMappingRules — capture and restore rule sets
+//                             (shared with Module 19 config import)
+// =============================================================================
+import FieldMapping from '../models/FieldMapping';
+import FieldMappingVersion, {
+  IFieldMappingVersion,
+  MappingSnapshotRule,
+} from '../models/FieldMappingVersion';
+import { IFieldMapping } from '../models/FieldMapping';
+import { invalidateRulesCache, loadMappingRules, seedDefaultMappings } from './fieldMappingEngine';
+import logger from '../utils/logger';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Longest accepted version comment */
+export const MAX_VERSION_COMMENT_LENGTH = 500;
+
+/** Author recorded when a save has no known Wix user */
+export const UNKNOWN_AUTHOR = 'unknown';
+
+/** Attempts at claiming the next version number when saves race */
+const MAX_RECORD_ATTEMPTS = 3;
+
+/** Rule settings compared by the diff, in display order */
+const DIFFED_SETTINGS = [
+  'direction',
+  'transform',
+  'transforms',
+  'optionMap',
+  'optionFallback',
+  'composite',
+  'conflictStrategy',
+  'isActive',
+] as const;
+
+type DiffedSetting = (typeof DIFFED_SETTINGS)[number];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Who made a change, and why */
+export interface VersionAuthor {
+  author?: string;
+  comment?: string;
+}
+
+/** A version as listed — everything but the rules */
+export interface MappingVersionSummary {
+  version: number;
+  author: string;
+  comment: string;
+  ruleCount: number;
+  restoredFrom: number | null;
+  createdAt: Date;
+}
+
+/** One changed setting of a rule present in both versions */
+export interface RuleSettingChange {
+  setting: DiffedSetting;
+  before: unknown;
+  after: unknown;
+}
+
+export interface MappingDiff {
+  added: MappingSnapshotRule[];
+  removed: MappingSnapshotRule[];
+  changed: Array<{ wixField: string; hubspotField: string; changes: RuleSettingChange[] }>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The settings of a stored rule, without Mongo bookkeeping */
+export function snapshotRule(rule: IFieldMapping): MappingSnapshotRule {
+  return {
+    wixField: rule.wixField,
+    hubspotField: rule.hubspotField,
+    direction: rule.direction,
+    transform: rule.transform,
+    transforms: rule.transforms ?? [],
+    optionMap: rule.optionMap ?? [],
+    ...(rule.optionFallback ? { optionFallback: rule.optionFallback } : {}),
+    ...(rule.composite ? { composite: rule.composite } : {}),
+    conflictStrategy: rule.conflictStrategy,
+    isDefault: rule.isDefault,
+    isActive: rule.isActive,
+  };
+}
+
+function ruleKey(rule: Pick<MappingSnapshotRule, 'wixField' | 'hubspotField'>): string {
+  return `${rule.wixField}→${rule.hubspotField}`;
+}
+
+/** Comparable form of a setting — missing optional settings equal empty ones */
+function settingValue(rule: MappingSnapshotRule, setting: DiffedSetting): string {
+  const value = rule[setting];
+  if (value === undefined || value === null || value === '') return 'null';
+  if (Array.isArray(value) && value.length === 0) return 'null';
+  return JSON.stringify(value);
+}
+
+function isDuplicateKeyError(err: unknown): boolean {
+  return (err as { code?: number })?.code === 11000;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Record a version
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Snapshots an installation's current rules as its next version. Call it
+ * after every change to the rules.
+ *
+ * @param instanceId   — Wix site instance
+ * @param by           — Author and optional comment
+ * @param restoredFrom — Version being restored, for rollbacks
+ * @returns            — The new version
+ */
+export async function recordMappingVersion(
+  instanceId: string,
+  by: VersionAuthor,
+  restoredFrom: number | null = null,
+): Promise<IFieldMappingVersion> {
+  const rules = await FieldMapping.find({ instanceId });
+
+  for (let attempt = 1; ; attempt++) {
+    const latest = await FieldMappingVersion.findOne({ instanceId }).sort({ version: -1 });
+    try {
+      const version = await FieldMappingVersion.create({
+        instanceId,
+        version: (latest?.version ?? 0) + 1,
+        author: by.author || UNKNOWN_AUTHOR,
+        comment: by.comment ?? '',
+        rules: rules.map(snapshotRule),
+        restoredFrom,
+      });
+      logger.info('Field mapping version recorded', {
+        instanceId,
+        version: version.version,
+        rules: rules.length,
+        ...(restoredFrom !== null ? { restoredFrom } : {}),
+      });
+      return version;
+    } catch (err) {
+      // A concurrent save claimed this number — take the next one
+      if (!isDuplicateKeyError(err) || attempt >= MAX_RECORD_ATTEMPTS) throw err;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2–3. Read versions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Lists an installation's versions, newest first. */
+export async function listMappingVersions(
+  instanceId: string,
+  page = 1,
+  limit = 20,
+): Promise<{ versions: MappingVersionSummary[]; total: number; pages: number }> {
+  const total = await FieldMappingVersion.countDocuments({ instanceId });
+  const docs = await FieldMappingVersion.find({ instanceId })
+    .sort({ version: -1 })
+    .skip((page - 1) * limit)
+    .limit(limit);
+
+  return {
+    versions: docs.map((d) => ({
+      version: d.version,
+      author: d.author,
+      comment: d.comment,
+      ruleCount: d.rules.length,
+      restoredFrom: d.restoredFrom,
+      createdAt: d.createdAt,
+    })),
+    total,
+    pages: Math.ceil(total / limit),
+  };
+}
+
+/** One version with its rules, or `null` if it does not exist. */
+export async function getMappingVersion(
+  instanceId: string,
+  version: number,
+): Promise<IFieldMappingVersion | null> {
+  return FieldMappingVersion.findOne({ instanceId, version });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Diff
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Compares two rule sets. Rules are matched by Wix field and HubSpot
+ * property; a matched rule is `changed` when any of its settings differ.
+ *
+ * @param from — Older rules
+ * @param to   — Newer rules
+ */
+export function diffMappingVersions(from: MappingSnapshotRule[], to: MappingSnapshotRule[]): MappingDiff {
+  const before = new Map(from.map((r) => [ruleKey(r), r]));
+  const after = new Map(to.map((r) => [ruleKey(r), r]));
+  const diff: MappingDiff = { added: [], removed: [], changed: [] };
+
+  for (const [key, rule] of after) {
+    const old = before.get(key);
+    if (!old) {
+      diff.added.push(rule);
+      continue;
+    }
+    const changes = DIFFED_SETTINGS.filter((s) => settingValue(old, s) !== settingValue(rule, s)).map(
+      (setting) => ({ setting, before: old[setting] ?? null, after: rule[setting] ?? null }),
+    );
+    if (changes.length > 0) {
+      diff.changed.push({ wixField: rule.wixField, hubspotField: rule.hubspotField, changes });
+    }
+  }
+  for (const [key, rule] of before) {
+    if (!after.has(key)) diff.removed.push(rule);
+  }
+
+  return diff;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Rollback
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Replaces an installation's rules with those of an earlier version and
+ * records the result as a new version. Snapshots were valid when taken, so
+ * they are restored without re-validation; the undeletable defaults are
+ * re-seeded in case the snapshot predates one.
+ *
+ * @param instanceId — Wix site instance
+ * @param version    — Version to restore
+ * @param by         — Author and optional comment of the rollback
+ * @returns          — The restored rules and the new version, or `null` if
+ *                     `version` does not exist
+ */
+export async function rollbackToVersion(
+  instanceId: string,
+  version: number,
+  by: VersionAuthor,
+): Promise<{ rules: IFieldMapping[]; version: IFieldMappingVersion } | null> {
+  const target = await getMappingVersion(instanceId, version);
+  if (!target) return null;
+
+  await replaceMappingRules(instanceId, target.rules);
+  const recorded = await recordMappingVersion(
+    instanceId,
+    { author: by.author, comment: by.comment || `Rolled back to version ${version}` },
+    version,
+  );
+  return { rules: await loadMappingRules(instanceId, true), version: recorded };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 6. Replace rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Replaces all of an installation's rules, defaults included, with `rules`
+ * as given — validate them first. The undeletable defaults are re-seeded
+ * when `rules` lacks one.
+ *
+ * The unique index on each pair rules out inserting the new set next to
+ * the old one, so the old rules are deleted first and put back if the
+ * insert fails; the installation is never left without rules.
+ *
+ * @param instanceId — Wix site instance
+ * @param rules      — Complete rule set
+ * @throws           — The insert error, once the previous rules are restored
+ */
+export async function replaceMappingRules(instanceId: string, rules: MappingSnapshotRule[]): Promise<void> {
+  const previous = (await FieldMapping.find({ instanceId })).map(snapshotRule);
+
+  await FieldMapping.deleteMany({ instanceId });
+  try {
+    if (rules.length > 0) {
+      await FieldMapping.insertMany(rules.map((r) => ({ ...r, instanceId })));
+    }
+  } catch (err) {
+    logger.error('Replacing mapping rules failed, restoring the previous rules', {
+      instanceId,
+      error: (err as Error).message,
+    });
+    // insertMany is ordered, so part of the new set may have landed
+    await FieldMapping.deleteMany({ instanceId });
+    if (previous.length > 0) {
+      await FieldMapping.insertMany(previous.map((r) => ({ ...r, instanceId })));
+    }
+    throw err;
+  } finally {
+    await seedDefaultMappings(instanceId);
+    invalidateRulesCache(instanceId);
+  }
+}
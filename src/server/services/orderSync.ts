@@ -0,0 +1,229 @@
+// =============================================================================
+// Module 16: Order Sync
+// =============================================================================
+// Optional per-installation mode (`installation.orderSync`). Each Wix Stores
+// / eCommerce order becomes a HubSpot deal in the configured pipeline and
+// stage, with one line item per order line, associated to the buyer's
+// HubSpot contact:
+//
+//   1. normaliseWixOrder  — one shape for eCommerce and legacy Stores orders
+//   2. buildDealProperties / buildLineItems — HubSpot property payloads
+//   3. syncWixOrder       — create deal + line items, exactly once per order
+//
+// Orders arrive through the Wix order webhook and run on the Module 13 job
+// queue. The buyer is resolved through the Module 4 mapping store; if the
+// buyer's contact has not been synced yet the job throws and is retried, so
+// the deal is not created unassociated while the contact sync catches up.
+// =============================================================================
+import OrderMapping from '../models/OrderMapping';
+import { IInstallation } from '../models/Installation';
+import { findByWixId } from './mappingStore';
+import {
+  createDeal,
+  createLineItems,
+  ensureOrderIdProperty,
+  findDealByOrderId,
+  WIX_ORDER_ID_PROPERTY,
+} from './hubspotDeals';
+import logger from '../utils/logger';
+import { WixOrder } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Normalisation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface OrderLine {
+  name: string;
+  quantity: number;
+  /** Unit price as a decimal string */
+  price: string;
+  sku: string;
+}
+
+export interface NormalisedOrder {
+  id: string;
+  number: string;
+  buyerContactId: string;
+  /** Order total as a decimal string */
+  total: string;
+  /** ISO timestamp the order was placed */
+  createdDate: string;
+  lines: OrderLine[];
+}
+
+/** Decimal string for a Wix amount, or `'0'` when missing or invalid */
+function toAmount(value: unknown): string {
+  const n = Number(value);
+  return Number.isFinite(n) ? String(n) : '0';
+}
+
+/**
+ * Reads a Wix order in either the eCommerce (`priceSummary`,
+ * `productName.original`) or the legacy Stores (`totals`, `name`) shape.
+ *
+ * @param order — Raw order from the webhook payload
+ * @returns     — The normalised order, or `null` if it has no ID
+ */
+export function normaliseWixOrder(order: WixOrder): NormalisedOrder | null {
+  const id = order._id ?? order.id;
+  if (!id) return null;
+
+  const lines = (order.lineItems ?? []).map((item) => ({
+    name: item.productName?.original ?? item.name ?? 'Item',
+    quantity: item.quantity && item.quantity > 0 ? item.quantity : 1,
+    price: toAmount(typeof item.price === 'string' ? item.price : item.price?.amount),
+    sku: item.physicalProperties?.sku ?? item.sku ?? '',
+  }));
+
+  return {
+    id: String(id),
+    number: String(order.number ?? id),
+    buyerContactId: order.buyerInfo?.contactId ?? '',
+    total: toAmount(order.priceSummary?.total?.amount ?? order.totals?.total),
+    createdDate: order._createdDate ?? order.createdDate ?? order.dateCreated ?? '',
+    lines,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. HubSpot payloads
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Deal properties for an order. `closedate` is the order date so revenue
+ * reports line up with when the sale happened, not when it was synced;
+ * `wix_order_id` lets a retry find the deal again.
+ */
+export function buildDealProperties(
+  order: NormalisedOrder,
+  pipelineId: string,
+  dealStage: string,
+): Record<string, string> {
+  const properties: Record<string, string> = {
+    dealname: `Wix order #${order.number}`,
+    amount: order.total,
+    pipeline: pipelineId,
+    dealstage: dealStage,
+    [WIX_ORDER_ID_PROPERTY]: order.id,
+  };
+  const placed = new Date(order.createdDate);
+  if (!isNaN(placed.getTime())) properties.closedate = placed.toISOString();
+  return properties;
+}
+
+/** Line item properties for each order line */
+export function buildLineItems(order: NormalisedOrder): Array<Record<string, string>> {
+  return order.lines.map((line) => ({
+    name: line.name,
+    quantity: String(line.quantity),
+    price: line.price,
+    ...(line.sku ? { hs_sku: line.sku } : {}),
+  }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Sync
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface OrderSyncResult {
+  hubspotDealId: string;
+  /** `created` if the deal or its line items were written, `skipped` if already synced */
+  action: 'created' | 'skipped';
+  lineItems: number;
+}
+
+/**
+ * Pushes a Wix order to HubSpot as a deal with line items. Does nothing when
+ * order sync is disabled or has no pipeline/stage configured.
+ *
+ * Idempotent: the HubSpotDealMapping row is written right after the deal is
+ * created, so a redelivered event is skipped. A retry that finds no row
+ * first looks the deal up by its unique `wix_order_id`, so an attempt that
+ * died between the two steps does not leave a second deal. Line items are
+ * created in batches and counted on the row after each one, so a retry
+ * after a line-item failure only creates the lines not yet written.
+ *
+ * @param installation — Connected installation
+ * @param order        — Raw Wix order from the webhook
+ * @returns            — The deal, or `null` if skipped
+ * @throws             — If the buyer's contact has no HubSpot mapping yet
+ */
+export async function syncWixOrder(
+  installation: IInstallation,
+  order: WixOrder,
+): Promise<OrderSyncResult | null> {
+  const settings = installation.orderSync;
+  if (!settings?.enabled) return null;
+
+  const instanceId = installation.instanceId;
+  if (!settings.pipelineId || !settings.dealStage) {
+    logger.warn('Order sync: enabled without a pipeline and stage', { instanceId });
+    return null;
+  }
+
+  const normalised = normaliseWixOrder(order);
+  if (!normalised) {
+    logger.warn('Order sync: order has no ID', { instanceId });
+    return null;
+  }
+
+  let mapping = await OrderMapping.findOne({ instanceId, wixOrderId: normalised.id });
+  if (mapping?.lineItemsSynced) {
+    logger.debug('Order sync: order already synced', { instanceId, wixOrderId: normalised.id });
+    return { hubspotDealId: mapping.hubspotDealId, action: 'skipped', lineItems: 0 };
+  }
+
+  if (!mapping) {
+    let hubspotContactId: string | undefined;
+    if (normalised.buyerContactId) {
+      const contact = await findByWixId(instanceId, normalised.buyerContactId);
+      if (!contact) {
+        // Retried by the job queue once the buyer's contact sync has run
+        throw new Error('Order buyer has not been synced to HubSpot yet');
+      }
+      hubspotContactId = contact.hubspotContactId;
+    } else {
+      logger.info('Order sync: order has no buyer contact, deal will be unassociated', {
+        instanceId,
+        wixOrderId: normalised.id,
+      });
+    }
+
+    // Reuse the deal of an attempt that stopped before saving the mapping. A
+    // deal too fresh to be searchable makes the create fail on the unique
+    // order ID instead, and the job is retried.
+    await ensureOrderIdProperty(instanceId, installation.hubspotPortalId);
+    const deal =
+      (await findDealByOrderId(instanceId, normalised.id)) ??
+      (await createDeal(
+        instanceId,
+        buildDealProperties(normalised, settings.pipelineId, settings.dealStage),
+        hubspotContactId,
+      ));
+    mapping = await OrderMapping.create({
+      instanceId,
+      wixOrderId: normalised.id,
+      hubspotDealId: deal.id,
+    });
+  }
+
+  const alreadyCreated = mapping.lineItemsCreated ?? 0;
+  const items = buildLineItems(normalised).slice(alreadyCreated);
+  const mappingId = mapping._id;
+  const recordProgress = async (created: number): Promise<void> => {
+    await OrderMapping.updateOne({ _id: mappingId }, { $set: { lineItemsCreated: alreadyCreated + created } });
+  };
+  const lineItems = items.length
+    ? await createLineItems(instanceId, mapping.hubspotDealId, items, recordProgress)
+    : 0;
+  await OrderMapping.updateOne({ _id: mapping._id }, { $set: { lineItemsSynced: true } });
+
+  logger.info('Order synced to HubSpot deal', {
+    instanceId,
+    wixOrderId: normalised.id,
+    hubspotDealId: mapping.hubspotDealId,
+    lineItems,
+  });
+
+  return { hubspotDealId: mapping.hubspotDealId, action: 'created', lineItems };
+}
@@ -0,0 +1,343 @@
+// =============================================================================
+// Module 20: Sync Filters
+// =============================================================================
+// Keeps unwanted contacts — test accounts, internal addresses, members who
+// never gave marketing consent — from being copied to the other system.
+// Each installation has an ordered list of SyncFilters; Scenarios 1 and 3 of
+// the orchestrator ask for a match before they map or write anything, and
+// log a `skip` SyncEvent naming the filter when there is one.
+//
+//   1. loadSyncFilters       — active filters, in order (cached)
+//   2. wixFilterSubject      — what a filter sees of a Wix contact
+//      hubSpotFilterSubject  — what a filter sees of a HubSpot contact
+//   3. findMatchingFilter    — first filter whose conditions all hold
+//   4. filterProperties      — HubSpot properties the filters read, to fetch
+//                              along with a contact
+//   5. validateSyncFilter    — check a filter sent by the dashboard
+//
+// Filters only decide whether a NEW contact is synced; contacts that are
+// already linked keep syncing.
+// =============================================================================
+import SyncFilter, { ISyncFilter } from '../models/SyncFilter';
+import { IFieldMapping } from '../models/FieldMapping';
+import { flattenWixContact, ValidationError } from './fieldMappingEngine';
+import { LABEL_FIELD, splitLabels } from './labelSync';
+import {
+  FlatContact,
+  SyncFilterCondition,
+  SyncFilterConditionKind,
+  SyncFilterOperator,
+  SyncFilterSide,
+} from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SYNC_FILTER_SIDES: SyncFilterSide[] = ['wix', 'hubspot', 'both'];
+
+export const SYNC_FILTER_CONDITION_KINDS: SyncFilterConditionKind[] = [
+  'field',
+  'label',
+  'email_domain',
+  'source',
+];
+
+export const SYNC_FILTER_OPERATORS: SyncFilterOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'ends_with',
+  'is_empty',
+  'is_not_empty',
+];
+
+/** Operators that take no value */
+const UNARY_OPERATORS: SyncFilterOperator[] = ['is_empty', 'is_not_empty'];
+
+/** HubSpot property holding the system a contact was created through */
+export const HUBSPOT_SOURCE_PROPERTY = 'hs_object_source';
+
+/** Wix field added to a contact's filter view: its primary email's consent */
+export const WIX_SUBSCRIPTION_FIELD = 'subscriptionStatus';
+
+export const MAX_FILTER_NAME_LENGTH = 100;
+export const MAX_FILTER_CONDITIONS = 20;
+export const MAX_CONDITION_VALUE_LENGTH = 500;
+
+/** Filters cache TTL — 30 seconds, like the mapping rules */
+const FILTERS_CACHE_TTL_MS = 30_000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. Load active filters (cached)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const filtersCache = new Map<string, { filters: ISyncFilter[]; expiresAt: number }>();
+
+/**
+ * Returns the instance's active filters in evaluation order. Cached for 30
+ * seconds so webhooks do not query MongoDB each time.
+ *
+ * @param instanceId  — Wix site instance
+ * @param forceReload — Bypass the cache
+ */
+export async function loadSyncFilters(instanceId: string, forceReload = false): Promise<ISyncFilter[]> {
+  if (!forceReload) {
+    const cached = filtersCache.get(instanceId);
+    if (cached && Date.now() < cached.expiresAt) return cached.filters;
+  }
+
+  const filters = await SyncFilter.find({ instanceId, isActive: true }).sort({ order: 1, createdAt: 1 });
+  filtersCache.set(instanceId, { filters, expiresAt: Date.now() + FILTERS_CACHE_TTL_MS });
+  return filters;
+}
+
+/** Force the cache to be invalidated for an instance (call after filter edits). */
+export function invalidateSyncFiltersCache(instanceId: string): void {
+  filtersCache.delete(instanceId);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. Filter subjects
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A contact as the filters see it */
+export interface FilterSubject {
+  side: 'wix' | 'hubspot';
+  /** Wix fields (flattened) or HubSpot properties */
+  fields: FlatContact;
+  email: string;
+  /** Wix label keys, or the label names held in HubSpot's label property */
+  labels: string[];
+  source: string;
+}
+
+/**
+ * A raw Wix contact's fields, labels and source. `subscriptionStatus` is
+ * added from the primary email (SUBSCRIBED, UNSUBSCRIBED, NOT_SET, PENDING).
+ *
+ * @param wixContactData — Raw Wix contact (nested or flat)
+ */
+export function wixFilterSubject(wixContactData: Record<string, any>): FilterSubject {
+  const fields = flattenWixContact(wixContactData);
+  const primaryEmail = wixContactData?.primaryEmail;
+  const subscription =
+    primaryEmail && typeof primaryEmail === 'object' ? primaryEmail.subscriptionStatus : undefined;
+  return {
+    side: 'wix',
+    fields: { ...fields, [WIX_SUBSCRIPTION_FIELD]: subscription ?? '' },
+    email: fields.email ?? '',
+    labels: splitLabels(fields[LABEL_FIELD]),
+    source: wixContactData?.source?.sourceType ?? '',
+  };
+}
+
+/**
+ * A HubSpot contact's properties, labels and source. Labels are read from
+ * the properties that `labelIds` rules map to.
+ *
+ * @param hubspotProps — Contact properties
+ * @param rules        — Active mapping rules
+ */
+export function hubSpotFilterSubject(hubspotProps: FlatContact, rules: IFieldMapping[]): FilterSubject {
+  const labelProperties = new Set(
+    rules.filter((r) => r.isActive && r.wixField === LABEL_FIELD).map((r) => r.hubspotField),
+  );
+  return {
+    side: 'hubspot',
+    fields: hubspotProps,
+    email: hubspotProps.email ?? '',
+    labels: [...labelProperties].flatMap((property) => splitLabels(hubspotProps[property])),
+    source: hubspotProps[HUBSPOT_SOURCE_PROPERTY] ?? '',
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 3. Matching
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Compares one value; text comparisons ignore case and surrounding spaces */
+function compare(actual: string, operator: SyncFilterOperator, expected: string): boolean {
+  const a = actual.trim().toLowerCase();
+  const e = expected.trim().toLowerCase();
+  switch (operator) {
+    case 'equals':
+      return a === e;
+    case 'not_equals':
+      return a !== e;
+    case 'contains':
+      return a.includes(e);
+    case 'not_contains':
+      return !a.includes(e);
+    case 'ends_with':
+      return a.endsWith(e);
+    case 'is_empty':
+      return a === '';
+    case 'is_not_empty':
+      return a !== '';
+  }
+}
+
+/** Labels are a set: negative operators hold when no label matches */
+function compareLabels(labels: string[], operator: SyncFilterOperator, expected: string): boolean {
+  switch (operator) {
+    case 'is_empty':
+      return labels.length === 0;
+    case 'is_not_empty':
+      return labels.length > 0;
+    case 'not_equals':
+      return !labels.some((label) => compare(label, 'equals', expected));
+    case 'not_contains':
+      return !labels.some((label) => compare(label, 'contains', expected));
+    default:
+      return labels.some((label) => compare(label, operator, expected));
+  }
+}
+
+/** Domain of an email address, lower-cased; `''` when there is none */
+function emailDomain(email: string): string {
+  const at = email.lastIndexOf('@');
+  return at === -1 ? '' : email.slice(at + 1);
+}
+
+/** `true` when the subject satisfies the condition */
+export function conditionHolds(condition: SyncFilterCondition, subject: FilterSubject): boolean {
+  const expected = condition.value ?? '';
+  switch (condition.kind) {
+    case 'field':
+      return compare(subject.fields[condition.field ?? ''] ?? '', condition.operator, expected);
+    case 'label':
+      return compareLabels(subject.labels, condition.operator, expected);
+    case 'email_domain':
+      return compare(emailDomain(subject.email), condition.operator, expected.replace(/^@/, ''));
+    case 'source':
+      return compare(subject.source, condition.operator, expected);
+  }
+}
+
+/**
+ * Returns the first filter (in the given order) that applies to the
+ * subject's side and whose conditions all hold, or `null` if the contact
+ * may be synced. A filter without conditions never matches.
+ *
+ * @param filters — Active filters, as returned by `loadSyncFilters`
+ * @param subject — The new contact
+ */
+export function findMatchingFilter(filters: ISyncFilter[], subject: FilterSubject): ISyncFilter | null {
+  return (
+    filters.find(
+      (filter) =>
+        filter.isActive &&
+        (filter.side === 'both' || filter.side === subject.side) &&
+        filter.conditions.length > 0 &&
+        filter.conditions.every((condition) => conditionHolds(condition, subject)),
+    ) ?? null
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. HubSpot properties to fetch
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * HubSpot properties the filters read from a new HubSpot contact — callers
+ * add them to the properties they fetch so the filters see real values.
+ */
+export function filterProperties(filters: ISyncFilter[]): string[] {
+  const properties = new Set<string>();
+  for (const filter of filters) {
+    if (filter.side === 'wix') continue;
+    for (const condition of filter.conditions) {
+      if (condition.kind === 'field' && condition.field) properties.add(condition.field);
+      if (condition.kind === 'source') properties.add(HUBSPOT_SOURCE_PROPERTY);
+    }
+  }
+  return [...properties];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A filter as created or replaced through the API */
+export interface SyncFilterInput {
+  name: string;
+  side: SyncFilterSide;
+  conditions: SyncFilterCondition[];
+  isActive: boolean;
+  order: number;
+}
+
+/**
+ * Checks a filter sent by the dashboard. Returns the cleaned filter, or the
+ * problems found (keyed like `conditions[1].value`).
+ */
+export function validateSyncFilter(
+  body: unknown,
+): { filter: SyncFilterInput; errors: [] } | { filter: null; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, any>;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > MAX_FILTER_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `Name is required, at most ${MAX_FILTER_NAME_LENGTH} characters` });
+  }
+
+  const side: SyncFilterSide = input.side ?? 'both';
+  if (!SYNC_FILTER_SIDES.includes(side)) {
+    errors.push({ field: 'side', message: `Side must be one of: ${SYNC_FILTER_SIDES.join(', ')}` });
+  }
+
+  if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+    errors.push({ field: 'isActive', message: 'isActive must be true or false' });
+  }
+  if (input.order !== undefined && !Number.isInteger(input.order)) {
+    errors.push({ field: 'order', message: 'order must be an integer' });
+  }
+
+  const conditions: SyncFilterCondition[] = [];
+  if (!Array.isArray(input.conditions) || input.conditions.length === 0) {
+    errors.push({ field: 'conditions', message: 'At least one condition is required' });
+  } else if (input.conditions.length > MAX_FILTER_CONDITIONS) {
+    errors.push({ field: 'conditions', message: `At most ${MAX_FILTER_CONDITIONS} conditions` });
+  } else {
+    input.conditions.forEach((raw: any, i: number) => {
+      const at = `conditions[${i}]`;
+      const { kind, field, operator, value } = (raw ?? {}) as Record<string, unknown>;
+      if (!SYNC_FILTER_CONDITION_KINDS.includes(kind as SyncFilterConditionKind)) {
+        errors.push({ field: `${at}.kind`, message: `Kind must be one of: ${SYNC_FILTER_CONDITION_KINDS.join(', ')}` });
+        return;
+      }
+      if (!SYNC_FILTER_OPERATORS.includes(operator as SyncFilterOperator)) {
+        errors.push({ field: `${at}.operator`, message: `Operator must be one of: ${SYNC_FILTER_OPERATORS.join(', ')}` });
+        return;
+      }
+      if (kind === 'field' && (typeof field !== 'string' || !field.trim())) {
+        errors.push({ field: `${at}.field`, message: 'A field condition needs a field' });
+        return;
+      }
+      const unary = UNARY_OPERATORS.includes(operator as SyncFilterOperator);
+      if (!unary && (typeof value !== 'string' || !value.trim())) {
+        errors.push({ field: `${at}.value`, message: 'A value is required for this operator' });
+        return;
+      }
+      if (typeof value === 'string' && value.length > MAX_CONDITION_VALUE_LENGTH) {
+        errors.push({ field: `${at}.value`, message: `Value must be at most ${MAX_CONDITION_VALUE_LENGTH} characters` });
+        return;
+      }
+      conditions.push({
+        kind: kind as SyncFilterConditionKind,
+        ...(kind === 'field' ? { field: (field as string).trim() } : {}),
+        operator: operator as SyncFilterOperator,
+        ...(unary ? {} : { value: (value as string).trim() }),
+      });
+    });
+  }
+
+  if (errors.length > 0) return { filter: null, errors };
+  return {
+    filter: { name, side, conditions, isActive: input.isActive ?? true, order: input.order ?? 0 },
+    errors: [],
+  };
+}
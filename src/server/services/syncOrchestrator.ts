@@ -8,13 +8,35 @@
 //   Scenario 2 — onWixContactUpdated   : Changed Wix contact → update HubSpot
 //   Scenario 3 — onHubSpotContactCreated : New HS contact  → create in Wix
 //   Scenario 4 — onHubSpotContactUpdated : Changed HS contact → update Wix
+//   Scenario 5 — onWixContactDeleted   : Deleted Wix contact → apply policy
+//   Scenario 6 — onHubSpotContactDeleted : Deleted HS contact → apply policy
+//   Scenario 7 — onHubSpotContactsMerged : Merged HS contacts → repoint the
+//                                        mapping, reconcile Wix duplicates
 //   Full Sync  — runFullSync           : Page through all Wix contacts, sync
-//                                        any that do not yet have a mapping
+//                                        any that do not yet have a mapping;
+//                                        checkpointed, so it can be paused,
+//                                        resumed or cancelled
+//   Delta Sync — runDeltaSync          : Pull only contacts modified since the
+//                                        installation's per-side cursors
 //
-// Conflict resolution: LAST-UPDATED-WINS
-// If both systems modified the same contact between sync cycles, the system
-// with the more recent timestamp wins. The loser's data is overwritten. The
-// decision is logged for auditability.
+// Dry run: Scenarios 1–4 and runFullSync accept a DryRunPlan. With one they
+// still read both systems, map properties, check idempotency and resolve
+// conflicts, but record the write they would make instead of making it —
+// nothing is written to Wix, HubSpot, the mapping store or the audit log.
+// previewContactMapping does the same mapping and conflict work for one
+// synced contact in both directions, for the mapping editor's live preview.
+//
+// Sync filters (Module 20): Scenarios 1 and 3 first check the installation's
+// filters; a new contact that matches one is not copied, and a `skip`
+// SyncEvent records the filter's id.
+//
+// Conflict resolution: PER-FIELD STRATEGIES
+// If both systems modified the same contact between sync cycles, each mapped
+// field is resolved by its rule's conflictStrategy — newest_wins (the system
+// with the more recent timestamp wins, the default), source_of_truth_wix,
+// source_of_truth_hubspot or never_overwrite_non_empty. Only the fields that
+// survive the merge are written; every field decision is logged on the
+// SyncEvent for auditability.
 //
 // Loop prevention (Module 5):
 //   • Layer 1 — Dedupe guard:   Every write registers a UUID sync-ID. When
@@ -25,23 +47,38 @@
 // Modules consumed:
 //   Module 2-B  hubspotContacts   — getContactById, getContactByEmail,
 //                                   createOrUpdateByEmail, writeSyncTag,
-//                                   batchReadContacts
-//   Module 3    wixContacts       — createOrUpdateWixContact, getWixContactById
-//   Module 4    mappingStore      — findByWixId, findByHubSpotId, upsertMapping
-//   Module 5-A  dedupeGuard       — registerSyncId, isSyncEcho, extractSyncId
-//   Module 5-B  idempotencyChecker— computeHash, shouldSkipWrite, updateHash
+//                                   batchReadContacts, searchContactsModifiedSince,
+//                                   batchUpdateContacts, batchUpsertContactsByEmail
+//   Module 3    wixContacts       — createOrUpdateWixContact, getWixContactById,
+//                                   deleteWixContact, labelWixContact,
+//                                   listWixContactsUpdatedSince, mergeWixContacts
+//   Module 4    mappingStore      — findByWixId, findByHubSpotId, upsertMapping,
+//                                   deleteMapping, relinkHubSpotId
+//   Module 5-A  dedupeGuard       — registerSyncId, isSyncEcho, extractSyncId,
+//                                   deletionSyncId
+//   Module 5-B  idempotencyChecker— computeHash, shouldSkipWrite, updateHash,
+//                                   clearHashesForContact
 //   Module 6    fieldMappingEngine— loadMappingRules, wixToHubSpot, hubSpotToWix,
-//                                   flattenWixContact
+//                                   flattenWixContact, pickExtendedFields
 //   Facade      hubspotService    — createContact, updateContact,
-//                                   findContactByEmail
+//                                   deleteContact, findContactByEmail
+//   Module 15   companySync       — syncContactCompany (optional per install)
+//   Module 17   labelSync         — mapLabelsToHubSpot, mapLabelsToWix,
+//                                   ensureLabelOptions, pushLabelsToLists,
+//                                   pullLabelsFromLists (optional per install)
+//   Module 20   syncFilters       — loadSyncFilters, findMatchingFilter,
+//                                   filterProperties
 // =============================================================================
 
 import crypto from 'crypto';
+import { AxiosError } from 'axios';
 
 import config from '../config';
 import Installation, { IInstallation } from '../models/Installation';
 import { IContactMapping } from '../models/ContactMapping';
 import SyncEvent from '../models/SyncEvent';
+import SyncError from '../models/SyncError';
+import SyncRun, { ISyncRun, SyncRunStatus } from '../models/SyncRun';
 import logger from '../utils/logger';
 
 // Module 2 — HubSpot wrappers
@@ -50,6 +87,12 @@ import {
   getContactById as getHubSpotContactById,
   writeSyncTag,
   batchReadContacts,
+  searchContactsModifiedSince,
+  batchUpdateContacts,
+  batchUpsertContactsByEmail,
+  SEARCH_RESULT_WINDOW,
+  BATCH_WRITE_LIMIT,
+  BatchWriteResult,
 } from './hubspotContacts';
 import { withRetry } from './hubspotClient';
 
@@ -58,6 +101,10 @@ import {
   createOrUpdateWixContact,
   getWixContactById,
   listWixContacts,
+  listWixContactsUpdatedSince,
+  deleteWixContact,
+  labelWixContact,
+  mergeWixContacts,
   type SyncMetadata,
 } from './wixContacts';
 
@@ -66,15 +113,24 @@ import {
   findByWixId,
   findByHubSpotId,
   upsertMapping,
+  deleteMapping,
+  relinkHubSpotId,
 } from './mappingStore';
 
 // Module 5 — Loop prevention
-import { registerSyncId } from './dedupeGuard';
+import {
+  registerSyncId,
+  isSyncEcho,
+  extractSyncId,
+  deletionSyncId,
+} from './dedupeGuard';
 import {
   computeHash,
   shouldSkipWrite,
   updateHash,
+  clearHashesForContact,
 } from './idempotencyChecker';
+import { WIX_DELETED_PROPERTY } from './hubspotProperties';
 
 // Module 6 — Field mapping engine
 import {
@@ -82,15 +138,48 @@ import {
   wixToHubSpot,
   hubSpotToWix,
   flattenWixContact,
+  pickExtendedFields,
+  ruleWixFields,
 } from './fieldMappingEngine';
+import { IFieldMapping } from '../models/FieldMapping';
+
+// Module 15 — Company sync
+import { syncContactCompany } from './companySync';
+
+// Module 17 — Label sync
+import {
+  LABEL_FIELD,
+  mapLabelsToHubSpot,
+  mapLabelsToWix,
+  ensureLabelOptions,
+  mergeLabelKeys,
+  splitLabels,
+  pushLabelsToLists,
+  pullLabelsFromLists,
+  pullListMemberships,
+} from './labelSync';
+
+// Module 20 — Sync filters
+import {
+  loadSyncFilters,
+  findMatchingFilter,
+  filterProperties,
+  wixFilterSubject,
+  hubSpotFilterSubject,
+  FilterSubject,
+} from './syncFilters';
 
 // Types
 import {
+  ConflictStrategy,
   FlatContact,
+  MappingWarning,
   SyncResult,
   SyncSource,
   SyncAction,
   HubSpotContact,
+  SyncCursors,
+  SyncJobType,
 } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -110,6 +199,7 @@ async function logEvent(
   duration: number,
   error?: string,
   conflictWinner?: string,
+  details?: Record<string, unknown>,
 ): Promise<void> {
   try {
     await SyncEvent.create({
@@ -122,12 +212,35 @@ async function logEvent(
       duration,
       error: error ?? '',
       ...(conflictWinner ? { conflictWinner } : {}),
+      ...(details ? { details } : {}),
     });
   } catch (err) {
     logger.error('Failed to log sync event', { error: (err as Error).message });
   }
 }
 
+/**
+ * Logs the fields whose values the mapping engine left out of a write
+ * (e.g. unreadable phone numbers) — field names only, never the values.
+ */
+function logMappingWarnings(
+  instanceId: string,
+  contactIds: { wixContactId?: string; hubspotContactId?: string },
+  warnings: MappingWarning[],
+): void {
+  if (warnings.length === 0) return;
+  logger.warn('Contact values could not be converted and were left out', {
+    instanceId,
+    ...contactIds,
+    fields: warnings.map((w) => w.field),
+  });
+}
+
+/** Adds `warnings` to a result, planned change or event details when there are any */
+function withWarnings<T extends object>(target: T, warnings: MappingWarning[]): T {
+  return warnings.length ? { ...target, warnings } : target;
+}
+
 /**
  * Resolve an email address from raw Wix contact data or mapped props.
  */
@@ -146,8 +259,87 @@ function resolveEmail(
   );
 }
 
+/**
+ * Upserts the contact's HubSpot company and associates it (Module 15).
+ * Best-effort: a company failure never fails the contact sync, but is
+ * recorded as a SyncError so it can be seen and retried.
+ */
+async function linkContactCompany(
+  installation: IInstallation,
+  wixContactId: string,
+  hubspotContactId: string,
+  wixContactData: Record<string, any>,
+): Promise<void> {
+  try {
+    const company = await syncContactCompany(installation, hubspotContactId, wixContactData);
+    if (company) {
+      logger.debug('Contact associated with HubSpot company', {
+        instanceId: installation.instanceId,
+        hubspotContactId,
+        hubspotCompanyId: company.hubspotCompanyId,
+        action: company.action,
+      });
+    }
+  } catch (err) {
+    const message = (err as Error).message;
+    logger.warn('Company sync failed', {
+      instanceId: installation.instanceId,
+      hubspotContactId,
+      error: message,
+    });
+    try {
+      await SyncError.create({
+        instanceId: installation.instanceId,
+        type: 'contact_sync',
+        referenceId: wixContactId,
+        payload: { wixContactId, hubspotContactId, source: 'company_sync' },
+        error: message,
+      });
+    } catch (recordErr) {
+      logger.error('Failed to record company sync failure', {
+        instanceId: installation.instanceId,
+        hubspotContactId,
+        error: (recordErr as Error).message,
+      });
+    }
+  }
+}
+
+/**
+ * Mirrors the Wix contact's labels onto HubSpot list memberships, or the
+ * other way round (Module 17, `lists` mode). Best-effort like company sync.
+ */
+async function linkContactLabels(
+  installation: IInstallation,
+  to: 'hubspot' | 'wix',
+  wixContactId: string,
+  hubspotContactId: string,
+  wixContactData?: Record<string, any>,
+): Promise<void> {
+  try {
+    const changed = to === 'hubspot'
+      ? await pushLabelsToLists(installation, hubspotContactId, wixContactData ?? {})
+      : await pullLabelsFromLists(installation, wixContactId, hubspotContactId);
+    if (changed) {
+      logger.debug('Contact labels synced via HubSpot lists', {
+        instanceId: installation.instanceId,
+        wixContactId,
+        hubspotContactId,
+        to,
+      });
+    }
+  } catch (err) {
+    logger.warn('Label list sync failed', {
+      instanceId: installation.instanceId,
+      wixContactId,
+      hubspotContactId,
+      error: (err as Error).message,
+    });
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
-// Conflict Resolution — Last-Updated-Wins
+// Conflict Resolution — Last-Updated-Wins (contact level)
 // ─────────────────────────────────────────────────────────────────────────────
 
 interface ConflictDecision {
@@ -216,12 +408,457 @@ function resolveConflict(
   };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Conflict Resolution — Per-Field Merge
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Outcome for one mapped field, recorded in SyncEvent.details */
+export interface FieldDecision {
+  field: string;
+  strategy: ConflictStrategy;
+  applied: boolean;
+  reason: string;
+}
+
+interface FieldMergeResult {
+  /** Only the fields that should be written to the target */
+  props: FlatContact;
+  decisions: FieldDecision[];
+}
+
+const SIDE_LABEL: Record<'wix' | 'hubspot', string> = { wix: 'Wix', hubspot: 'HubSpot' };
+
+/**
+ * Decides, field by field, which of the inbound values may overwrite the
+ * target contact. Each field follows the `conflictStrategy` of the rule that
+ * produced it; fields without a rule fall back to `newest_wins`, which uses
+ * the contact-level timestamp decision.
+ *
+ * @param incoming    — Mapped props from the inbound side, keyed by target field
+ * @param current     — Current values on the target, keyed the same way
+ * @param rules       — Active mapping rules for the installation
+ * @param inboundSide — System that triggered the sync
+ * @param conflict    — Contact-level timestamp decision from {@link resolveConflict}
+ */
+function mergeFieldByField(
+  incoming: FlatContact,
+  current: FlatContact,
+  rules: IFieldMapping[],
+  inboundSide: 'wix' | 'hubspot',
+  conflict: ConflictDecision,
+): FieldMergeResult {
+  const props: FlatContact = {};
+  const decisions: FieldDecision[] = [];
+
+  for (const [field, value] of Object.entries(incoming)) {
+    const rule = rules.find((r) =>
+      inboundSide === 'wix' ? r.hubspotField === field : ruleWixFields(r).includes(field),
+    );
+    const strategy: ConflictStrategy = rule?.conflictStrategy || 'newest_wins';
+
+    let applied: boolean;
+    let reason: string;
+    switch (strategy) {
+      case 'source_of_truth_wix':
+      case 'source_of_truth_hubspot': {
+        const owner = strategy === 'source_of_truth_wix' ? 'wix' : 'hubspot';
+        applied = inboundSide === owner;
+        reason = applied
+          ? `${SIDE_LABEL[owner]} is source of truth`
+          : `${SIDE_LABEL[owner]} is source of truth; ${SIDE_LABEL[inboundSide]} change ignored`;
+        break;
+      }
+      case 'never_overwrite_non_empty':
+        applied = !current[field];
+        reason = applied ? 'Target is empty' : 'Target already has a value';
+        break;
+      default:
+        applied = conflict.winner === inboundSide;
+        reason = conflict.reason;
+    }
+
+    if (applied) props[field] = value;
+    decisions.push({ field, strategy, applied, reason });
+  }
+
+  return { props, decisions };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Dry Run — planned changes instead of writes
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One write a scenario would have made */
+export interface DryRunChange {
+  scenario: SyncJobType;
+  action: SyncAction;
+  /** System that would be written to */
+  target: 'wix' | 'hubspot';
+  wixContactId: string;
+  hubspotContactId: string;
+  /** Current target values of the written fields ({} for a create) */
+  before: FlatContact;
+  /** Values that would be written, keyed by target field */
+  after: FlatContact;
+  /** Why the contact would be skipped or linked, when not a plain write */
+  reason?: string;
+  conflict?: { winner: 'wix' | 'hubspot'; reason: string };
+  fields?: FieldDecision[];
+  /** Values that could not be converted and would be left out */
+  warnings?: MappingWarning[];
+}
+
+/**
+ * Passed to a scenario handler to make it read-only. The handler appends
+ * what it would have done to `changes`.
+ */
+export interface DryRunPlan {
+  /** Rules to map with instead of the saved ones — previews a mapping change */
+  rules?: IFieldMapping[];
+  changes: DryRunChange[];
+}
+
+/** Downloadable result of a dry-run full sync */
+export interface DryRunReport {
+  instanceId: string;
+  generatedAt: string;
+  /** `true` when the report was built from unsaved mapping rules */
+  customRules: boolean;
+  /** `failed` if a page could not be read — the report is then partial */
+  status: 'completed' | 'failed';
+  summary: { create: number; update: number; skip: number; errors: number; total: number };
+  changes: DryRunChange[];
+}
+
+/** Records a planned change and returns the result the real write would have had. */
+function planChange(plan: DryRunPlan, source: SyncSource, change: DryRunChange): SyncResult {
+  plan.changes.push(change);
+  return withWarnings(
+    {
+      action: change.action,
+      source,
+      wixContactId: change.wixContactId,
+      hubspotContactId: change.hubspotContactId,
+    },
+    change.warnings ?? [],
+  );
+}
+
+/** Current values of just the given fields (the "before" side of a diff). */
+function pickFields(current: FlatContact, fields: FlatContact): FlatContact {
+  const picked: FlatContact = {};
+  for (const field of Object.keys(fields)) picked[field] = current[field] ?? '';
+  return picked;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sync Filters — keep matching new contacts out (Module 20)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Checks a new contact against the installation's sync filters. On a match
+ * the contact is skipped — logged with the filter's id, or planned in a dry
+ * run — and the skip result is returned; `null` lets the scenario proceed.
+ */
+async function skipFilteredContact(
+  instanceId: string,
+  source: SyncSource,
+  scenario: SyncJobType,
+  subject: FilterSubject,
+  contactIds: { wixContactId: string; hubspotContactId: string },
+  dryRun?: DryRunPlan,
+): Promise<SyncResult | null> {
+  const filter = findMatchingFilter(await loadSyncFilters(instanceId), subject);
+  if (!filter) return null;
+
+  const filterRuleId = String(filter._id);
+  logger.info('Contact excluded by sync filter', { instanceId, ...contactIds, filterRuleId });
+
+  if (dryRun) {
+    return planChange(dryRun, source, {
+      scenario,
+      action: 'skip',
+      target: subject.side === 'wix' ? 'hubspot' : 'wix',
+      ...contactIds,
+      before: {},
+      after: {},
+      reason: `Excluded by sync filter "${filter.name}"`,
+    });
+  }
+
+  await logEvent(
+    instanceId, source, 'skip', contactIds.wixContactId, contactIds.hubspotContactId, 'skipped', 0,
+    undefined, undefined, { reason: 'sync_filter', filterRuleId, filterName: filter.name },
+  );
+  return { action: 'skip', source, ...contactIds };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Wix → HubSpot write completion (Scenarios 1 & 2)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** What a Wix → HubSpot write leaves behind once HubSpot has accepted it */
+interface HubSpotWriteOutcome {
+  source: SyncSource;
+  action: SyncAction;
+  wixContactId: string;
+  hubspotContactId: string;
+  /** Idempotency hash of the mapped properties */
+  hash: string;
+  wixContactData: Record<string, any>;
+  /** When the scenario started, for the event's duration */
+  start: number;
+  details?: Record<string, unknown>;
+  /** Sync tag already written with the properties (batched writes) */
+  syncId?: string;
+  /** Also mirror labels onto list memberships (Scenario 1) */
+  linkLabels?: boolean;
+}
+
+/**
+ * Registers the echo, persists mapping + hash, tags the contact, links its
+ * company (and labels) and logs the success event — the steps every
+ * Wix → HubSpot write ends with, whether sent alone or in a batch.
+ */
+async function completeHubSpotWrite(
+  installation: IInstallation,
+  outcome: HubSpotWriteOutcome,
+): Promise<void> {
+  const instanceId = installation.instanceId;
+  const { source, action, wixContactId, hubspotContactId, hash, wixContactData } = outcome;
+
+  // Module 5 — Layer 1: Register sync ID for echo suppression
+  const syncId = outcome.syncId
+    ? await registerSyncId(instanceId, 'hubspot', hubspotContactId, outcome.syncId)
+    : await registerSyncId(instanceId, 'hubspot', hubspotContactId);
+
+  // Module 4 — Persist mapping
+  await upsertMapping({
+    instanceId,
+    wixContactId,
+    hubspotContactId,
+    lastSyncSource: 'wix',
+    syncOperationId: syncId,
+    propertyHash: hash,
+  });
+
+  // Write sync tag on HubSpot contact (fire-and-forget with error logging)
+  if (!outcome.syncId) {
+    writeSyncTag(instanceId, hubspotContactId, syncId).catch((tagErr) =>
+      logger.warn('Failed to write sync tag', {
+        instanceId,
+        hubspotContactId,
+        error: (tagErr as Error).message,
+      }),
+    );
+  }
+
+  // Module 5 — Layer 2: Persist idempotency hash
+  await updateHash(instanceId, hubspotContactId, 'hubspot', hash);
+
+  // Module 15 — Company upsert + association (if enabled)
+  await linkContactCompany(installation, wixContactId, hubspotContactId, wixContactData);
+
+  // Module 17 — Label list memberships (if enabled)
+  if (outcome.linkLabels) {
+    await linkContactLabels(installation, 'hubspot', wixContactId, hubspotContactId, wixContactData);
+  }
+
+  await logEvent(
+    instanceId, source, action, wixContactId, hubspotContactId, 'success',
+    Date.now() - outcome.start, undefined, undefined, outcome.details,
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Batched HubSpot writes — full & delta sync
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A Wix → HubSpot write waiting in a {@link WriteBatch} */
+interface DeferredWrite {
+  /** `update` by HubSpot ID, or `upsert` by email (Scenario 1) */
+  kind: 'update' | 'upsert';
+  wixContactId: string;
+  /** Target contact of an update; '' for an upsert */
+  hubspotContactId: string;
+  /** Match key of an upsert; '' for an update */
+  email: string;
+  properties: FlatContact;
+  /** Action logged if the write fails */
+  action: SyncAction;
+  start: number;
+  /** Runs the post-write steps once HubSpot has accepted the write */
+  complete: (hubspotContactId: string, created: boolean) => Promise<void>;
+}
+
+/**
+ * Collects the HubSpot writes of a sync sweep so they are sent up to 100 at
+ * a time through the batch update / upsert endpoints instead of one request
+ * per contact. Scenarios 1 and 2 queue their write on it and return a
+ * `deferred` result; the outcome of each contact is reported to `onSettled`
+ * when the batch is flushed.
+ */
+export interface WriteBatch {
+  installation: IInstallation;
+  source: SyncSource;
+  writes: DeferredWrite[];
+  /** Called once per queued contact with whether its write succeeded, and why not */
+  onSettled: (ok: boolean, wixContactId: string, error?: string) => void | Promise<void>;
+}
+
+function createWriteBatch(
+  installation: IInstallation,
+  source: SyncSource,
+  onSettled: WriteBatch['onSettled'],
+): WriteBatch {
+  return { installation, source, writes: [], onSettled };
+}
+
+/** Writes per batch call — `config.syncBatchSize`, capped at HubSpot's limit */
+function writeBatchSize(): number {
+  return Math.min(Math.max(config.syncBatchSize || 1, 1), BATCH_WRITE_LIMIT);
+}
+
+/**
+ * Queues a write, flushing first if the batch already holds a write for the
+ * same contact (HubSpot rejects duplicate inputs) and afterwards once it
+ * reaches the batch size.
+ */
+async function deferWrite(batch: WriteBatch, write: DeferredWrite): Promise<void> {
+  const key = (w: DeferredWrite) => `${w.kind}:${w.kind === 'update' ? w.hubspotContactId : w.email}`;
+  if (batch.writes.some((w) => key(w) === key(write))) await flushWriteBatch(batch);
+
+  batch.writes.push(write);
+  if (batch.writes.length >= writeBatchSize()) await flushWriteBatch(batch);
+}
+
+/** Records a contact whose batched write failed, for the audit log and for retry */
+async function failDeferredWrite(batch: WriteBatch, write: DeferredWrite, message: string): Promise<void> {
+  const instanceId = batch.installation.instanceId;
+  logger.error('Batched HubSpot write failed', {
+    instanceId,
+    wixContactId: write.wixContactId,
+    hubspotContactId: write.hubspotContactId,
+    error: message,
+  });
+
+  await logEvent(
+    instanceId, batch.source, write.action, write.wixContactId, write.hubspotContactId,
+    'failed', Date.now() - write.start, message,
+  );
+  try {
+    await SyncError.create({
+      instanceId,
+      type: 'contact_sync',
+      referenceId: write.wixContactId,
+      email: write.email,
+      payload: {
+        wixContactId: write.wixContactId,
+        hubspotContactId: write.hubspotContactId,
+        source: batch.source,
+        properties: write.properties,
+      },
+      error: message,
+    });
+  } catch (recordErr) {
+    logger.error('Failed to record batched write failure', {
+      instanceId,
+      wixContactId: write.wixContactId,
+      error: (recordErr as Error).message,
+    });
+  }
+  await batch.onSettled(false, write.wixContactId, message);
+}
+
+/** Runs a write's post-write steps; a failure there fails the contact */
+async function settleDeferredWrite(
+  batch: WriteBatch,
+  write: DeferredWrite,
+  hubspotContactId: string,
+  created: boolean,
+): Promise<void> {
+  try {
+    await write.complete(hubspotContactId, created);
+    await batch.onSettled(true, write.wixContactId);
+  } catch (err) {
+    await failDeferredWrite(batch, { ...write, hubspotContactId }, (err as Error).message);
+  }
+}
+
+/**
+ * Sends one batch call and maps its results back to the queued contacts —
+ * by ID for updates, by email for upserts. Inputs HubSpot lists under
+ * `errors` (a 207 partial success) fail individually. When HubSpot rejects
+ * the whole call with a 4xx, one bad input is usually to blame, so each
+ * contact is retried on its own; any other error fails every contact.
+ */
+async function sendWriteChunk(batch: WriteBatch, kind: DeferredWrite['kind'], chunk: DeferredWrite[]): Promise<void> {
+  const instanceId = batch.installation.instanceId;
+  const keyOf = (w: DeferredWrite) => (kind === 'update' ? w.hubspotContactId : w.email.toLowerCase().trim());
+
+  let result: BatchWriteResult;
+  try {
+    result = kind === 'update'
+      ? await batchUpdateContacts(instanceId, chunk.map((w) => ({ id: w.hubspotContactId, properties: w.properties })))
+      : await batchUpsertContactsByEmail(instanceId, chunk.map((w) => ({ email: w.email, properties: w.properties })));
+  } catch (err) {
+    const status = (err as AxiosError).response?.status ?? 0;
+    if (chunk.length > 1 && status >= 400 && status < 500 && status !== 429) {
+      logger.warn('HubSpot rejected batch write — retrying contacts one by one', {
+        instanceId,
+        kind,
+        size: chunk.length,
+        status,
+      });
+      for (const write of chunk) await sendWriteChunk(batch, kind, [write]);
+      return;
+    }
+    for (const write of chunk) await failDeferredWrite(batch, write, (err as Error).message);
+    return;
+  }
+
+  const written = new Map<string, { id: string; created: boolean }>();
+  for (const contact of result.contacts) {
+    const key = kind === 'update' ? String(contact.id) : String(contact.properties?.email ?? '').toLowerCase();
+    written.set(key, { id: String(contact.id), created: Boolean(contact.new) });
+  }
+  const failed = new Map<string, string>();
+  for (const error of result.errors) {
+    for (const id of error.ids) failed.set(kind === 'update' ? id : id.toLowerCase(), error.message);
+  }
+
+  for (const write of chunk) {
+    const ok = written.get(keyOf(write));
+    if (ok) {
+      await settleDeferredWrite(batch, write, ok.id, ok.created);
+    } else {
+      const message = failed.get(keyOf(write)) ?? result.errors[0]?.message ?? 'Missing from HubSpot batch response';
+      await failDeferredWrite(batch, write, message);
+    }
+  }
+}
+
+/**
+ * Sends every queued write — updates and upserts as one batch call each —
+ * and settles each contact. Never throws: failures are recorded per contact.
+ */
+async function flushWriteBatch(batch: WriteBatch): Promise<void> {
+  const writes = batch.writes.splice(0);
+  if (writes.length === 0) return;
+
+  for (const kind of ['update', 'upsert'] as const) {
+    const chunk = writes.filter((w) => w.kind === kind);
+    if (chunk.length > 0) await sendWriteChunk(batch, kind, chunk);
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Scenario 1 — Wix Contact Created
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
- * A brand-new contact was created in Wix. We need to:
+ * A brand-new contact was created in Wix. Unless a sync filter excludes
+ * it (Module 20), we need to:
  *   1. Convert its fields to HubSpot properties via the field mapping engine.
  *   2. Check idempotency (maybe another trigger already synced this).
  *   3. Search HubSpot by email — if a matching contact exists, link and
@@ -230,21 +867,41 @@ function resolveConflict(
  *   5. Register the sync ID for loop prevention.
  *   6. Persist the mapping and the idempotency hash.
  *   7. Write the sync tag on the HubSpot contact.
+ *
+ * With a `dryRun` plan, steps 4–7 are recorded on the plan instead. With a
+ * `batch`, a contact with an email skips the search and queues a batch
+ * upsert by email; steps 5–7 run when the batch is flushed.
  */
 export async function onWixContactCreated(
   installation: IInstallation,
   wixContactId: string,
   wixContactData: Record<string, any>,
   source: SyncSource = 'wix_webhook',
+  dryRun?: DryRunPlan,
+  batch?: WriteBatch,
 ): Promise<SyncResult> {
   const start = Date.now();
   const instanceId = installation.instanceId;
 
-  logger.info('Scenario 1: Wix contact created', { instanceId, wixContactId });
+  logger.info('Scenario 1: Wix contact created', { instanceId, wixContactId, dryRun: !!dryRun });
+
+  // Module 20 — Contacts matching a sync filter stay out of HubSpot
+  const filtered = await skipFilteredContact(
+    instanceId, source, 'wix_contact_created', wixFilterSubject(wixContactData),
+    { wixContactId, hubspotContactId: '' }, dryRun,
+  );
+  if (filtered) return filtered;
 
   // Module 6 — Map Wix fields → HubSpot properties
-  const rules = await loadMappingRules(instanceId);
-  const targetProps = wixToHubSpot(wixContactData, rules);
+  const rules = dryRun?.rules ?? (await loadMappingRules(instanceId));
+  const warnings: MappingWarning[] = [];
+  const targetProps = await mapLabelsToHubSpot(
+    installation,
+    wixContactData,
+    wixToHubSpot(wixContactData, rules, { phoneRegion: installation.phoneRegion, warnings }),
+    rules,
+  );
+  logMappingWarnings(instanceId, { wixContactId }, warnings);
 
   // Module 5 — Layer 2: Idempotency hash
   const hash = computeHash(targetProps);
@@ -266,6 +923,8 @@ export async function onWixContactCreated(
         wixContactId,
         wixContactData,
         source,
+        dryRun,
+        batch,
       );
     }
 
@@ -273,10 +932,55 @@ export async function onWixContactCreated(
     const email = resolveEmail(targetProps, wixContactData);
     let existingHsContact: HubSpotContact | null = null;
 
+    if (batch && email) {
+      // The batch upsert matches by email itself, so no search is needed
+      await ensureLabelOptions(installation, targetProps, rules);
+      const syncId = crypto.randomUUID();
+      await deferWrite(batch, {
+        kind: 'upsert',
+        wixContactId,
+        hubspotContactId: '',
+        email,
+        properties: { ...targetProps, wix_sync_tag: syncId },
+        action: 'create',
+        start,
+        complete: (id, created) =>
+          completeHubSpotWrite(installation, {
+            source,
+            action: created ? 'create' : 'update',
+            wixContactId,
+            hubspotContactId: id,
+            hash,
+            wixContactData,
+            start,
+            details: warnings.length ? { warnings } : undefined,
+            syncId,
+            linkLabels: true,
+          }),
+      });
+      return withWarnings({ action: 'create', source, wixContactId, hubspotContactId: '', deferred: true }, warnings);
+    }
+
     if (email) {
       existingHsContact = await hubspot.findContactByEmail(installation, email);
     }
 
+    if (dryRun) {
+      return planChange(dryRun, source, withWarnings({
+        scenario: 'wix_contact_created',
+        action: existingHsContact ? 'update' : 'create',
+        target: 'hubspot',
+        wixContactId,
+        hubspotContactId: existingHsContact?.id ?? '',
+        before: existingHsContact ? pickFields(existingHsContact.properties, targetProps) : {},
+        after: targetProps,
+        ...(existingHsContact ? { reason: 'Linked to existing HubSpot contact by email' } : {}),
+      }, warnings));
+    }
+
+    // Module 17 — New label names must exist as property options first
+    await ensureLabelOptions(installation, targetProps, rules);
+
     if (existingHsContact) {
       // Link to existing HubSpot contact and update its properties
       await hubspot.updateContact(installation, existingHsContact.id, targetProps);
@@ -300,34 +1004,19 @@ export async function onWixContactCreated(
       });
     }
 
-    // Module 5 — Layer 1: Register sync ID for echo suppression
-    const syncId = await registerSyncId(instanceId, 'hubspot', hubspotContactId);
-
-    // Module 4 — Persist mapping
-    await upsertMapping({
-      instanceId,
+    // Modules 4, 5, 15, 17 — Sync ID, mapping, tag, hash, company, labels
+    await completeHubSpotWrite(installation, {
+      source,
+      action,
       wixContactId,
       hubspotContactId,
-      lastSyncSource: 'wix',
-      syncOperationId: syncId,
-      propertyHash: hash,
+      hash,
+      wixContactData,
+      start,
+      details: warnings.length ? { warnings } : undefined,
+      linkLabels: true,
     });
-
-    // Write sync tag on HubSpot contact (fire-and-forget with error logging)
-    writeSyncTag(instanceId, hubspotContactId, syncId).catch((tagErr) =>
-      logger.warn('Failed to write sync tag', {
-        instanceId,
-        hubspotContactId,
-        error: (tagErr as Error).message,
-      }),
-    );
-
-    // Module 5 — Layer 2: Persist idempotency hash
-    await updateHash(instanceId, hubspotContactId, 'hubspot', hash);
-
-    const duration = Date.now() - start;
-    await logEvent(instanceId, source, action, wixContactId, hubspotContactId, 'success', duration);
-    return { action, source, wixContactId, hubspotContactId };
+    return withWarnings({ action, source, wixContactId, hubspotContactId }, warnings);
   } catch (err) {
     const duration = Date.now() - start;
     const msg = (err as Error).message;
@@ -336,7 +1025,7 @@ export async function onWixContactCreated(
       wixContactId,
       error: msg,
     });
-    await logEvent(instanceId, source, 'create', wixContactId, hubspotContactId, 'failed', duration, msg);
+    if (!dryRun) await logEvent(instanceId, source, 'create', wixContactId, hubspotContactId, 'failed', duration, msg);
     throw err;
   }
 }
@@ -350,28 +1039,49 @@ export async function onWixContactCreated(
  *   1. Convert fields via the mapping engine.
  *   2. Check idempotency — if the HubSpot side already has this hash, skip.
  *   3. If a mapping exists, run conflict resolution against HubSpot's
- *      `updatedAt` timestamp. If HubSpot is newer, skip (it will win).
- *   4. Otherwise update the HubSpot contact.
+ *      `updatedAt` timestamp and current values, field by field. If no
+ *      field survives the merge, skip.
+ *   4. Otherwise update the HubSpot contact with the surviving fields.
  *   5. Register sync ID + persist mapping & hash.
+ *
+ * With a `dryRun` plan, the skip or update is recorded on the plan instead.
+ * With a `batch`, the update is queued and step 5 runs when it is flushed.
  */
 export async function onWixContactUpdated(
   installation: IInstallation,
   wixContactId: string,
   wixContactData: Record<string, any>,
   source: SyncSource = 'wix_webhook',
+  dryRun?: DryRunPlan,
+  batch?: WriteBatch,
 ): Promise<SyncResult> {
   const start = Date.now();
   const instanceId = installation.instanceId;
 
-  logger.info('Scenario 2: Wix contact updated', { instanceId, wixContactId });
+  logger.info('Scenario 2: Wix contact updated', { instanceId, wixContactId, dryRun: !!dryRun });
 
   // Module 6 — Map Wix fields → HubSpot properties
-  const rules = await loadMappingRules(instanceId);
-  const targetProps = wixToHubSpot(wixContactData, rules);
+  const rules = dryRun?.rules ?? (await loadMappingRules(instanceId));
+  const warnings: MappingWarning[] = [];
+  const targetProps = await mapLabelsToHubSpot(
+    installation,
+    wixContactData,
+    wixToHubSpot(wixContactData, rules, { phoneRegion: installation.phoneRegion, warnings }),
+    rules,
+  );
+  logMappingWarnings(instanceId, { wixContactId }, warnings);
 
   // Module 5 — Layer 2: Idempotency hash
   const hash = computeHash(targetProps);
-  let mapping: IContactMapping | null = await findByWixId(instanceId, wixContactId);
+  const mapping: IContactMapping | null = await findByWixId(instanceId, wixContactId);
+
+  // Module 17 — List memberships are not part of the hash, so they are
+  // reconciled even when the mapped properties are unchanged
+  if (mapping && !dryRun) {
+    await linkContactLabels(
+      installation, 'hubspot', wixContactId, mapping.hubspotContactId, wixContactData,
+    );
+  }
 
   // If we have a mapping, check idempotency
   if (mapping) {
@@ -383,6 +1093,18 @@ export async function onWixContactUpdated(
     );
     if (skip) {
       logger.debug('Idempotency skip (wix→hs)', { instanceId, wixContactId });
+      if (dryRun) {
+        return planChange(dryRun, source, {
+          scenario: 'wix_contact_updated',
+          action: 'skip',
+          target: 'hubspot',
+          wixContactId,
+          hubspotContactId: mapping.hubspotContactId,
+          before: {},
+          after: {},
+          reason: 'Unchanged since the last sync',
+        });
+      }
       await logEvent(instanceId, source, 'skip', wixContactId, mapping.hubspotContactId, 'success', 0);
       return {
         action: 'skip',
@@ -395,62 +1117,119 @@ export async function onWixContactUpdated(
 
   let action: SyncAction;
   let hubspotContactId = '';
+  let details: Record<string, unknown> | undefined;
 
   try {
     if (mapping) {
-      // ── Conflict Resolution ──
-      // Fetch the HubSpot contact to get its updatedAt timestamp
+      // ── Conflict Resolution (per field) ──
+      // Fetch the HubSpot contact for its updatedAt timestamp and the
+      // current values of every property we are about to write
       const hsContact = await getHubSpotContactById(
         instanceId,
         mapping.hubspotContactId,
-        ['email', 'firstname', 'lastname'],
+        Object.keys(targetProps),
       );
 
-      if (hsContact) {
-        const wixUpdatedAt =
-          wixContactData?._updatedDate ||
-          wixContactData?.updatedDate ||
-          wixContactData?.info?._updatedDate ||
-          null;
-
-        const hsUpdatedAt = hsContact.updatedAt || null;
-
-        const conflict = resolveConflict(wixUpdatedAt, hsUpdatedAt, 'wix');
+      const wixUpdatedAt =
+        wixContactData?._updatedDate ||
+        wixContactData?.updatedDate ||
+        wixContactData?.info?._updatedDate ||
+        null;
+
+      const conflict = resolveConflict(wixUpdatedAt, hsContact?.updatedAt || null, 'wix');
+      const merge = mergeFieldByField(
+        targetProps,
+        hsContact?.properties ?? {},
+        rules,
+        'wix',
+        conflict,
+      );
+      details = withWarnings({
+        conflict: { winner: conflict.winner, reason: conflict.reason },
+        fields: merge.decisions,
+      }, warnings);
+
+      if (dryRun) {
+        const applied = Object.keys(merge.props).length > 0;
+        return planChange(dryRun, source, {
+          scenario: 'wix_contact_updated',
+          action: applied ? 'update' : 'skip',
+          target: 'hubspot',
+          wixContactId,
+          hubspotContactId: mapping.hubspotContactId,
+          before: pickFields(hsContact?.properties ?? {}, merge.props),
+          after: merge.props,
+          ...(applied ? {} : { reason: `Conflict: ${conflict.reason}` }),
+          conflict: { winner: conflict.winner, reason: conflict.reason },
+          fields: merge.decisions,
+          ...(warnings.length ? { warnings } : {}),
+        });
+      }
 
-        if (conflict.winner === 'hubspot') {
-          // HubSpot is newer — skip this Wix→HS write
-          logger.info('Conflict resolution: HubSpot wins (newer timestamp)', {
-            instanceId,
-            wixContactId,
-            hubspotContactId: mapping.hubspotContactId,
-            reason: conflict.reason,
-            wixTs: conflict.wixTimestamp?.toISOString() ?? 'n/a',
-            hsTs: conflict.hubspotTimestamp?.toISOString() ?? 'n/a',
-          });
-          await logEvent(
-            instanceId, source, 'skip', wixContactId,
-            mapping.hubspotContactId, 'skipped', Date.now() - start,
-            `Conflict: ${conflict.reason}`, 'hubspot',
-          );
-          return {
-            action: 'skip',
-            source,
-            wixContactId,
-            hubspotContactId: mapping.hubspotContactId,
-          };
-        }
-
-        // Wix wins — proceed with the update
-        logger.info('Conflict resolution: Wix wins', {
+      if (Object.keys(merge.props).length === 0) {
+        // Every field was withheld — nothing to write to HubSpot
+        logger.info('Conflict resolution: no Wix fields applied', {
           instanceId,
           wixContactId,
           hubspotContactId: mapping.hubspotContactId,
           reason: conflict.reason,
+          wixTs: conflict.wixTimestamp?.toISOString() ?? 'n/a',
+          hsTs: conflict.hubspotTimestamp?.toISOString() ?? 'n/a',
         });
+        await logEvent(
+          instanceId, source, 'skip', wixContactId,
+          mapping.hubspotContactId, 'skipped', Date.now() - start,
+          `Conflict: ${conflict.reason}`, conflict.winner, details,
+        );
+        return {
+          action: 'skip',
+          source,
+          wixContactId,
+          hubspotContactId: mapping.hubspotContactId,
+        };
       }
 
-      // Update existing HubSpot contact
-      await hubspot.updateContact(installation, mapping.hubspotContactId, targetProps);
+      logger.info('Conflict resolution: merged field by field', {
+        instanceId,
+        wixContactId,
+        hubspotContactId: mapping.hubspotContactId,
+        applied: Object.keys(merge.props).length,
+        withheld: merge.decisions.length - Object.keys(merge.props).length,
+        reason: conflict.reason,
+      });
+
+      // Update existing HubSpot contact with the surviving fields
+      await ensureLabelOptions(installation, merge.props, rules);
+      if (batch) {
+        const syncId = crypto.randomUUID();
+        const mappedId = mapping.hubspotContactId;
+        await deferWrite(batch, {
+          kind: 'update',
+          wixContactId,
+          hubspotContactId: mappedId,
+          email: '',
+          properties: { ...merge.props, wix_sync_tag: syncId },
+          action: 'update',
+          start,
+          complete: (id) =>
+            completeHubSpotWrite(installation, {
+              source,
+              action: 'update',
+              wixContactId,
+              hubspotContactId: id,
+              hash,
+              wixContactData,
+              start,
+              details,
+              syncId,
+            }),
+        });
+        return withWarnings(
+          { action: 'update', source, wixContactId, hubspotContactId: mappedId, deferred: true },
+          warnings,
+        );
+      }
+      await hubspot.updateContact(installation, mapping.hubspotContactId, merge.props);
       hubspotContactId = mapping.hubspotContactId;
       action = 'update';
     } else {
@@ -460,37 +1239,21 @@ export async function onWixContactUpdated(
         instanceId,
         wixContactId,
       });
-      return onWixContactCreated(installation, wixContactId, wixContactData, source);
+      return onWixContactCreated(installation, wixContactId, wixContactData, source, dryRun, batch);
     }
 
-    // Module 5 — Layer 1: Register sync ID
-    const syncId = await registerSyncId(instanceId, 'hubspot', hubspotContactId);
-
-    // Module 4 — Persist mapping
-    mapping = await upsertMapping({
-      instanceId,
+    // Modules 4, 5, 15 — Sync ID, mapping, tag, hash, company
+    await completeHubSpotWrite(installation, {
+      source,
+      action,
       wixContactId,
       hubspotContactId,
-      lastSyncSource: 'wix',
-      syncOperationId: syncId,
-      propertyHash: hash,
+      hash,
+      wixContactData,
+      start,
+      details,
     });
-
-    // Write sync tag (fire-and-forget)
-    writeSyncTag(instanceId, hubspotContactId, syncId).catch((tagErr) =>
-      logger.warn('Failed to write sync tag', {
-        instanceId,
-        hubspotContactId,
-        error: (tagErr as Error).message,
-      }),
-    );
-
-    // Module 5 — Layer 2: Persist hash
-    await updateHash(instanceId, hubspotContactId, 'hubspot', hash);
-
-    const duration = Date.now() - start;
-    await logEvent(instanceId, source, action, wixContactId, hubspotContactId, 'success', duration);
-    return { action, source, wixContactId, hubspotContactId };
+    return withWarnings({ action, source, wixContactId, hubspotContactId }, warnings);
   } catch (err) {
     const duration = Date.now() - start;
     const msg = (err as Error).message;
@@ -499,7 +1262,7 @@ export async function onWixContactUpdated(
       wixContactId,
       error: msg,
     });
-    await logEvent(instanceId, source, 'update', wixContactId, hubspotContactId, 'failed', duration, msg);
+    if (!dryRun) await logEvent(instanceId, source, 'update', wixContactId, hubspotContactId, 'failed', duration, msg);
     throw err;
   }
 }
@@ -509,27 +1272,51 @@ export async function onWixContactUpdated(
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
- * A brand-new contact was created in HubSpot. We need to:
+ * A brand-new contact was created in HubSpot. Unless a sync filter
+ * excludes it (Module 20), we need to:
  *   1. Convert HubSpot properties → Wix fields via the mapping engine.
  *   2. Check if a mapping already exists (duplicate webhook guard).
  *   3. Create a new Wix contact with sync metadata embedded.
  *   4. Register the sync ID so the resulting Wix webhook is suppressed.
  *   5. Persist the mapping and the idempotency hash.
+ *
+ * With a `dryRun` plan, step 3 onwards is recorded on the plan instead.
  */
 export async function onHubSpotContactCreated(
   installation: IInstallation,
   hubspotContactId: string,
   hubspotProps: FlatContact,
   source: SyncSource = 'hubspot_webhook',
+  dryRun?: DryRunPlan,
 ): Promise<SyncResult> {
   const start = Date.now();
   const instanceId = installation.instanceId;
 
-  logger.info('Scenario 3: HubSpot contact created', { instanceId, hubspotContactId });
+  logger.info('Scenario 3: HubSpot contact created', { instanceId, hubspotContactId, dryRun: !!dryRun });
+
+  const rules = dryRun?.rules ?? (await loadMappingRules(instanceId));
+
+  // Module 20 — Contacts matching a sync filter stay out of Wix
+  const filtered = await skipFilteredContact(
+    instanceId, source, 'hubspot_contact_created', hubSpotFilterSubject(hubspotProps, rules),
+    { wixContactId: '', hubspotContactId }, dryRun,
+  );
+  if (filtered) return filtered;
 
   // Module 6 — Map HubSpot properties → Wix fields
-  const rules = await loadMappingRules(instanceId);
-  const targetProps = hubSpotToWix(hubspotProps, rules);
+  const warnings: MappingWarning[] = [];
+  const targetProps = await mapLabelsToWix(
+    installation,
+    hubspotProps,
+    hubSpotToWix(hubspotProps, rules, {
+      phoneRegion: installation.phoneRegion,
+      country: hubspotProps.country,
+      warnings,
+    }),
+    rules,
+    !dryRun,
+  );
+  logMappingWarnings(instanceId, { hubspotContactId }, warnings);
 
   // Module 5 — Layer 2: Idempotency hash
   const hash = computeHash(targetProps);
@@ -550,9 +1337,24 @@ export async function onHubSpotContactCreated(
         hubspotContactId,
         hubspotProps,
         source,
+        dryRun,
       );
     }
 
+    if (dryRun) {
+      // Wix itself links to an existing contact with the same email, so
+      // this may turn out to be an update — we cannot tell without writing
+      return planChange(dryRun, source, withWarnings({
+        scenario: 'hubspot_contact_created',
+        action: 'create',
+        target: 'wix',
+        wixContactId: '',
+        hubspotContactId,
+        before: {},
+        after: targetProps,
+      }, warnings));
+    }
+
     // Generate sync ID BEFORE writing so it can be embedded in the
     // Wix contact's extended fields for loop prevention
     const syncId = crypto.randomUUID();
@@ -570,6 +1372,8 @@ export async function onHubSpotContactCreated(
       phone: targetProps.phone,
       company: targetProps.company,
       jobTitle: targetProps.jobTitle,
+      labelKeys: targetProps[LABEL_FIELD] !== undefined ? splitLabels(targetProps[LABEL_FIELD]) : undefined,
+      extendedFields: pickExtendedFields(targetProps),
     };
 
     // Create (or find-by-email) in Wix via Module 3
@@ -604,9 +1408,15 @@ export async function onHubSpotContactCreated(
     // Module 5 — Layer 2: Persist idempotency hash
     await updateHash(instanceId, wixContactId, 'wix', hash);
 
+    // Module 17 — Labels from list memberships (if enabled)
+    await linkContactLabels(installation, 'wix', wixContactId, hubspotContactId);
+
     const duration = Date.now() - start;
-    await logEvent(instanceId, source, action, wixContactId, hubspotContactId, 'success', duration);
-    return { action, source, wixContactId, hubspotContactId };
+    await logEvent(
+      instanceId, source, action, wixContactId, hubspotContactId, 'success', duration,
+      undefined, undefined, warnings.length ? { warnings } : undefined,
+    );
+    return withWarnings({ action, source, wixContactId, hubspotContactId }, warnings);
   } catch (err) {
     const duration = Date.now() - start;
     const msg = (err as Error).message;
@@ -615,7 +1425,7 @@ export async function onHubSpotContactCreated(
       hubspotContactId,
       error: msg,
     });
-    await logEvent(instanceId, source, 'create', wixContactId, hubspotContactId, 'failed', duration, msg);
+    if (!dryRun) await logEvent(instanceId, source, 'create', wixContactId, hubspotContactId, 'failed', duration, msg);
     throw err;
   }
 }
@@ -629,29 +1439,51 @@ export async function onHubSpotContactCreated(
  *   1. Convert HubSpot properties → Wix fields.
  *   2. Check idempotency — if the Wix side already has this hash, skip.
  *   3. If a mapping exists, run conflict resolution against Wix's
- *      `_updatedDate` timestamp. If Wix is newer, skip.
+ *      `_updatedDate` timestamp and current values, field by field. If no
+ *      field survives the merge, skip.
  *   4. Otherwise update (or create) the Wix contact with sync metadata.
  *   5. Register sync ID + persist mapping & hash.
+ *
+ * With a `dryRun` plan, the skip or update is recorded on the plan instead.
  */
 export async function onHubSpotContactUpdated(
   installation: IInstallation,
   hubspotContactId: string,
   hubspotProps: FlatContact,
   source: SyncSource = 'hubspot_webhook',
+  dryRun?: DryRunPlan,
 ): Promise<SyncResult> {
   const start = Date.now();
   const instanceId = installation.instanceId;
 
-  logger.info('Scenario 4: HubSpot contact updated', { instanceId, hubspotContactId });
+  logger.info('Scenario 4: HubSpot contact updated', { instanceId, hubspotContactId, dryRun: !!dryRun });
 
   // Module 6 — Map HubSpot properties → Wix fields
-  const rules = await loadMappingRules(instanceId);
-  const targetProps = hubSpotToWix(hubspotProps, rules);
+  const rules = dryRun?.rules ?? (await loadMappingRules(instanceId));
+  const warnings: MappingWarning[] = [];
+  const targetProps = await mapLabelsToWix(
+    installation,
+    hubspotProps,
+    hubSpotToWix(hubspotProps, rules, {
+      phoneRegion: installation.phoneRegion,
+      country: hubspotProps.country,
+      warnings,
+    }),
+    rules,
+    !dryRun,
+  );
+  logMappingWarnings(instanceId, { hubspotContactId }, warnings);
 
   // Module 5 — Layer 2: Idempotency hash
   let mapping: IContactMapping | null = await findByHubSpotId(instanceId, hubspotContactId);
   const hash = computeHash(targetProps);
 
+  // Module 17 — List memberships are not part of the hash, so they are
+  // reconciled even when the mapped properties are unchanged
+  if (mapping && !dryRun) {
+    await linkContactLabels(installation, 'wix', mapping.wixContactId, hubspotContactId);
+  }
+
   // If we have a mapping, check idempotency
   if (mapping) {
     const skip = await shouldSkipWrite(
@@ -662,6 +1494,18 @@ export async function onHubSpotContactUpdated(
     );
     if (skip) {
       logger.debug('Idempotency skip (hs→wix)', { instanceId, hubspotContactId });
+      if (dryRun) {
+        return planChange(dryRun, source, {
+          scenario: 'hubspot_contact_updated',
+          action: 'skip',
+          target: 'wix',
+          wixContactId: mapping.wixContactId,
+          hubspotContactId,
+          before: {},
+          after: {},
+          reason: 'Unchanged since the last sync',
+        });
+      }
       await logEvent(instanceId, source, 'skip', mapping.wixContactId, hubspotContactId, 'success', 0);
       return {
         action: 'skip',
@@ -674,6 +1518,7 @@ export async function onHubSpotContactUpdated(
 
   let action: SyncAction;
   let wixContactId = '';
+  let details: Record<string, unknown> | undefined;
 
   try {
     // Generate sync ID BEFORE writing
@@ -685,68 +1530,99 @@ export async function onHubSpotContactUpdated(
       syncSource: 'hubspot',
     };
 
-    const contactInput = {
-      firstName: targetProps.firstName,
-      lastName: targetProps.lastName,
-      email: targetProps.email,
-      phone: targetProps.phone,
-      company: targetProps.company,
-      jobTitle: targetProps.jobTitle,
-    };
-
     if (mapping) {
-      // ── Conflict Resolution ──
-      // Fetch the Wix contact to get its _updatedDate
+      // ── Conflict Resolution (per field) ──
+      // Fetch the Wix contact for its _updatedDate and current field values
       const wixContact = await getWixContactById(installation, mapping.wixContactId);
 
-      if (wixContact) {
-        const wixUpdatedAt =
-          (wixContact as any)?._updatedDate ||
-          (wixContact as any)?.updatedDate ||
-          (wixContact?.info as any)?._updatedDate ||
-          null;
-
-        // The HubSpot updatedAt comes from the webhook event or from
-        // the properties payload's hs_lastmodifieddate
-        const hsUpdatedAt =
-          hubspotProps.hs_lastmodifieddate ||
-          hubspotProps.lastmodifieddate ||
-          null;
-
-        const conflict = resolveConflict(wixUpdatedAt, hsUpdatedAt, 'hubspot');
-
-        if (conflict.winner === 'wix') {
-          // Wix is newer — skip this HS→Wix write
-          logger.info('Conflict resolution: Wix wins (newer timestamp)', {
-            instanceId,
-            hubspotContactId,
-            wixContactId: mapping.wixContactId,
-            reason: conflict.reason,
-            wixTs: conflict.wixTimestamp?.toISOString() ?? 'n/a',
-            hsTs: conflict.hubspotTimestamp?.toISOString() ?? 'n/a',
-          });
-          await logEvent(
-            instanceId, source, 'skip', mapping.wixContactId,
-            hubspotContactId, 'skipped', Date.now() - start,
-            `Conflict: ${conflict.reason}`, 'wix',
-          );
-          return {
-            action: 'skip',
-            source,
-            wixContactId: mapping.wixContactId,
-            hubspotContactId,
-          };
-        }
+      const wixUpdatedAt =
+        (wixContact as any)?._updatedDate ||
+        (wixContact as any)?.updatedDate ||
+        (wixContact?.info as any)?._updatedDate ||
+        null;
+
+      // The HubSpot updatedAt comes from the webhook event or from
+      // the properties payload's hs_lastmodifieddate
+      const hsUpdatedAt =
+        hubspotProps.hs_lastmodifieddate ||
+        hubspotProps.lastmodifieddate ||
+        null;
+
+      const conflict = resolveConflict(wixUpdatedAt, hsUpdatedAt, 'hubspot');
+      const currentProps: FlatContact = wixContact ? flattenWixContact(wixContact) : {};
+      const merge = mergeFieldByField(targetProps, currentProps, rules, 'hubspot', conflict);
+      details = withWarnings({
+        conflict: { winner: conflict.winner, reason: conflict.reason },
+        fields: merge.decisions,
+      }, warnings);
+
+      if (dryRun) {
+        const applied = Object.keys(merge.props).length > 0;
+        return planChange(dryRun, source, {
+          scenario: 'hubspot_contact_updated',
+          action: applied ? 'update' : 'skip',
+          target: 'wix',
+          wixContactId: mapping.wixContactId,
+          hubspotContactId,
+          before: pickFields(currentProps, merge.props),
+          after: merge.props,
+          ...(applied ? {} : { reason: `Conflict: ${conflict.reason}` }),
+          conflict: { winner: conflict.winner, reason: conflict.reason },
+          fields: merge.decisions,
+          ...(warnings.length ? { warnings } : {}),
+        });
+      }
 
-        // HubSpot wins — proceed with the update
-        logger.info('Conflict resolution: HubSpot wins', {
+      if (Object.keys(merge.props).length === 0) {
+        // Every field was withheld — nothing to write to Wix
+        logger.info('Conflict resolution: no HubSpot fields applied', {
           instanceId,
           hubspotContactId,
           wixContactId: mapping.wixContactId,
           reason: conflict.reason,
+          wixTs: conflict.wixTimestamp?.toISOString() ?? 'n/a',
+          hsTs: conflict.hubspotTimestamp?.toISOString() ?? 'n/a',
         });
+        await logEvent(
+          instanceId, source, 'skip', mapping.wixContactId,
+          hubspotContactId, 'skipped', Date.now() - start,
+          `Conflict: ${conflict.reason}`, conflict.winner, details,
+        );
+        return {
+          action: 'skip',
+          source,
+          wixContactId: mapping.wixContactId,
+          hubspotContactId,
+        };
       }
 
+      logger.info('Conflict resolution: merged field by field', {
+        instanceId,
+        hubspotContactId,
+        wixContactId: mapping.wixContactId,
+        applied: Object.keys(merge.props).length,
+        withheld: merge.decisions.length - Object.keys(merge.props).length,
+        reason: conflict.reason,
+      });
+
+      // Wix stores first/last as one name object, so a withheld half keeps
+      // its current value rather than being blanked by the PATCH
+      const applied = merge.props;
+      const nameTouched = applied.firstName !== undefined || applied.lastName !== undefined;
+      const contactInput = {
+        firstName: applied.firstName ?? (nameTouched ? currentProps.firstName : undefined),
+        lastName: applied.lastName ?? (nameTouched ? currentProps.lastName : undefined),
+        email: applied.email,
+        phone: applied.phone,
+        company: applied.company,
+        jobTitle: applied.jobTitle,
+        // System and app labels are kept; only synced labels are replaced
+        labelKeys: applied[LABEL_FIELD] !== undefined
+          ? mergeLabelKeys(splitLabels(currentProps[LABEL_FIELD]), splitLabels(applied[LABEL_FIELD]))
+          : undefined,
+        extendedFields: pickExtendedFields(applied),
+      };
+
       // Update existing Wix contact via Module 3
       const result = await createOrUpdateWixContact(
         installation,
@@ -762,7 +1638,7 @@ export async function onHubSpotContactUpdated(
         instanceId,
         hubspotContactId,
       });
-      return onHubSpotContactCreated(installation, hubspotContactId, hubspotProps, source);
+      return onHubSpotContactCreated(installation, hubspotContactId, hubspotProps, source, dryRun);
     }
 
     // Module 5 — Layer 1: Register sync ID
@@ -782,8 +1658,11 @@ export async function onHubSpotContactUpdated(
     await updateHash(instanceId, wixContactId, 'wix', hash);
 
     const duration = Date.now() - start;
-    await logEvent(instanceId, source, action, wixContactId, hubspotContactId, 'success', duration);
-    return { action, source, wixContactId, hubspotContactId };
+    await logEvent(
+      instanceId, source, action, wixContactId, hubspotContactId, 'success', duration,
+      undefined, undefined, details,
+    );
+    return withWarnings({ action, source, wixContactId, hubspotContactId }, warnings);
   } catch (err) {
     const duration = Date.now() - start;
     const msg = (err as Error).message;
@@ -792,202 +1671,1316 @@ export async function onHubSpotContactUpdated(
       hubspotContactId,
       error: msg,
     });
-    await logEvent(instanceId, source, 'update', wixContactId, hubspotContactId, 'failed', duration, msg);
+    if (!dryRun) await logEvent(instanceId, source, 'update', wixContactId, hubspotContactId, 'failed', duration, msg);
     throw err;
   }
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// Full Sync — Page through all Wix contacts
+// Scenario 5 — Wix Contact Deleted
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export interface FullSyncResult {
-  /** Contacts successfully synced (created or updated in HubSpot) */
-  synced: number;
-  /** Contacts skipped (already up-to-date via idempotency check) */
-  skipped: number;
-  /** Contacts that failed to sync */
-  errors: number;
-  /** Total contacts inspected */
-  total: number;
-  /** Duration of the full sync in milliseconds */
-  durationMs: number;
+/** Wix label applied by the `archive_wix_label` deletion policy */
+export const ARCHIVED_IN_HUBSPOT_LABEL = 'Deleted in HubSpot';
+
+/** `true` if a HubSpot API error means the contact is already gone */
+function isHubSpotNotFound(err: unknown): boolean {
+  return (err as AxiosError)?.response?.status === 404;
 }
 
 /**
- * Pages through every Wix contact and syncs any that do not already have
- * a HubSpot mapping (or whose data has changed since the last sync).
+ * A Wix contact was deleted. Applies the installation's `onWixDelete`
+ * policy to the linked HubSpot contact:
+ *   • ignore                — leave the HubSpot contact untouched
+ *   • mirror_delete         — delete (archive) the HubSpot contact
+ *   • flag_hubspot_property — set `wix_contact_deleted=true` on it
  *
- * Flow:
- *   1. Create Wix SDK client.
- *   2. Load the field mapping rules once (cached).
- *   3. Query Wix contacts, paginating through all pages.
- *   4. For each contact:
- *      a. If no mapping exists → delegate to `onWixContactCreated`.
- *      b. If a mapping exists  → delegate to `onWixContactUpdated`
- *         (which includes idempotency + conflict resolution).
- *   5. Update `installation.lastSyncAt` on completion.
- *   6. Return aggregate stats.
+ * In every case the mapping and idempotency hashes are removed.
+ *
+ * Loop prevention: a deletion WE propagated from HubSpot registered
+ * `deletionSyncId(instanceId, 'wix', id)` first, so its echo is skipped here.
  */
-export async function runFullSync(
+export async function onWixContactDeleted(
   installation: IInstallation,
-): Promise<FullSyncResult> {
+  wixContactId: string,
+  source: SyncSource = 'wix_webhook',
+): Promise<SyncResult> {
   const start = Date.now();
   const instanceId = installation.instanceId;
-  logger.info('Full sync started', { instanceId });
+  const policy = installation.deletionPolicy?.onWixDelete ?? 'ignore';
 
-  let synced = 0;
-  let skipped = 0;
-  let errors = 0;
-  let total = 0;
+  logger.info('Scenario 5: Wix contact deleted', { instanceId, wixContactId, policy });
+
+  // Module 5 — Layer 1: was this deletion caused by us?
+  if (await isSyncEcho(deletionSyncId(instanceId, 'wix', wixContactId))) {
+    logger.debug('Wix deletion is our own echo — skipping', { instanceId, wixContactId });
+    await logEvent(instanceId, source, 'skip', wixContactId, '', 'skipped', 0, undefined, undefined, {
+      reason: 'deletion_echo',
+    });
+    return { action: 'skip', source, wixContactId, hubspotContactId: '' };
+  }
+
+  const mapping = await findByWixId(instanceId, wixContactId);
+  if (!mapping) {
+    logger.debug('Deleted Wix contact has no mapping — nothing to propagate', {
+      instanceId,
+      wixContactId,
+    });
+    return { action: 'skip', source, wixContactId, hubspotContactId: '' };
+  }
+
+  const hubspotContactId = mapping.hubspotContactId;
 
   try {
-    // Pre-load rules so each contact doesn't trigger a cache miss
-    await loadMappingRules(instanceId);
+    if (policy === 'mirror_delete') {
+      await registerSyncId(instanceId, 'hubspot', hubspotContactId, deletionSyncId(instanceId, 'hubspot', hubspotContactId));
+      try {
+        await hubspot.deleteContact(installation, hubspotContactId);
+      } catch (err) {
+        if (!isHubSpotNotFound(err)) throw err;
+      }
+    } else if (policy === 'flag_hubspot_property') {
+      // The sync tag makes the resulting propertyChange webhook an echo
+      const syncId = await registerSyncId(instanceId, 'hubspot', hubspotContactId);
+      try {
+        await hubspot.updateContact(installation, hubspotContactId, {
+          [WIX_DELETED_PROPERTY.name]: 'true',
+          wix_sync_tag: syncId,
+        });
+      } catch (err) {
+        if (!isHubSpotNotFound(err)) throw err;
+      }
+    }
 
-    // ── Phase 1: Wix → HubSpot ─────────────────────────────────────────
-    try {
-      // Page through all Wix contacts via REST API
-      let offset = 0;
-      const pageSize = 100;
-      let hasMore = true;
-      do {
-        const res = await listWixContacts(installation, pageSize, offset);
-        const items: any[] = res.contacts ?? [];
-        hasMore = items.length === pageSize;
-        offset += items.length;
+    await deleteMapping(instanceId, wixContactId, hubspotContactId);
+    await clearHashesForContact(instanceId, wixContactId);
+    await clearHashesForContact(instanceId, hubspotContactId);
 
-      for (const wc of items) {
-        total++;
-        const contactId: string = wc.id || wc._id;
-        if (!contactId) {
-          logger.warn('Full sync: Wix contact missing id, skipping');
-          errors++;
-          continue;
-        }
+    const duration = Date.now() - start;
+    await logEvent(instanceId, source, 'delete', wixContactId, hubspotContactId, 'success', duration, undefined, undefined, {
+      policy,
+    });
 
-        try {
-          // Determine whether this is a create or update scenario
-          const mapping = await findByWixId(instanceId, contactId);
+    logger.info('Scenario 5 complete', { instanceId, wixContactId, hubspotContactId, policy, duration });
+    return { action: 'delete', source, wixContactId, hubspotContactId };
+  } catch (err) {
+    const duration = Date.now() - start;
+    const msg = (err as Error).message;
+    logger.error('Scenario 5 failed: onWixContactDeleted', {
+      instanceId,
+      wixContactId,
+      error: msg,
+    });
+    await logEvent(instanceId, source, 'delete', wixContactId, hubspotContactId, 'failed', duration, msg, undefined, {
+      policy,
+    });
+    throw err;
+  }
+}
 
-          let result: SyncResult;
-          if (mapping) {
-            // Already mapped — run update scenario (includes conflict resolution)
-            result = await onWixContactUpdated(
-              installation,
-              contactId,
-              wc,
-              'initial_sync',
-            );
-          } else {
-            // Not yet mapped — run create scenario
-            result = await onWixContactCreated(
-              installation,
-              contactId,
-              wc,
-              'initial_sync',
-            );
-          }
+// ═══════════════════════════════════════════════════════════════════════════════
+// Scenario 6 — HubSpot Contact Deleted
+// ═══════════════════════════════════════════════════════════════════════════════
 
-          if (result.action === 'skip') {
-            skipped++;
-          } else {
-            synced++;
-          }
-        } catch (err) {
-          errors++;
-          logger.error('Full sync: contact failed', {
-            instanceId,
-            wixContactId: contactId,
-            error: (err as Error).message,
-          });
-        }
-      }
-    } while (hasMore);
-    } catch (wixErr) {
-      logger.warn('Full sync Phase 1 (Wix→HubSpot) failed — continuing to Phase 2', {
-        instanceId,
-        error: (wixErr as Error).message,
-      });
-    }
+/**
+ * A HubSpot contact was deleted. Applies the installation's
+ * `onHubSpotDelete` policy to the linked Wix contact:
+ *   • ignore            — leave the Wix contact untouched
+ *   • mirror_delete     — delete the Wix contact
+ *   • archive_wix_label — keep it, labelled "Deleted in HubSpot"
+ *
+ * In every case the mapping and idempotency hashes are removed.
+ */
+export async function onHubSpotContactDeleted(
+  installation: IInstallation,
+  hubspotContactId: string,
+  source: SyncSource = 'hubspot_webhook',
+): Promise<SyncResult> {
+  const start = Date.now();
+  const instanceId = installation.instanceId;
+  const policy = installation.deletionPolicy?.onHubSpotDelete ?? 'ignore';
 
-    // ── Phase 2: Pull HubSpot contacts that are not yet mapped ──────────
-    logger.info('Full sync Phase 2: pulling HubSpot contacts', { instanceId });
-    let hsAfter: string | undefined;
-    try {
-      do {
-        const hsRes = await withRetry(instanceId, (client) =>
-          client.get('/crm/v3/objects/contacts', {
-            params: {
-              properties: 'firstname,lastname,email,phone,company,jobtitle',
-              limit: 100,
-              ...(hsAfter ? { after: hsAfter } : {}),
-            },
-          }),
-        );
-        const hsContacts: any[] = hsRes.data?.results ?? [];
+  logger.info('Scenario 6: HubSpot contact deleted', { instanceId, hubspotContactId, policy });
 
-        for (const hc of hsContacts) {
-          total++;
-          const hubspotContactId = String(hc.id);
-          try {
-            const existing = await findByHubSpotId(instanceId, hubspotContactId);
-            if (existing) {
-              skipped++;
-              continue;
-            }
-            const hsProps: FlatContact = hc.properties ?? {};
-            const result = await onHubSpotContactCreated(
-              installation,
-              hubspotContactId,
-              hsProps,
-              'initial_sync',
-            );
-            if (result.action === 'skip') {
-              skipped++;
-            } else {
-              synced++;
-            }
-          } catch (err) {
-            errors++;
-            logger.error('Full sync Phase 2: HubSpot contact failed', {
-              instanceId,
-              hubspotContactId,
-              error: (err as Error).message,
-            });
-          }
-        }
+  // Module 5 — Layer 1: was this deletion caused by us?
+  if (await isSyncEcho(deletionSyncId(instanceId, 'hubspot', hubspotContactId))) {
+    logger.debug('HubSpot deletion is our own echo — skipping', { instanceId, hubspotContactId });
+    await logEvent(instanceId, source, 'skip', '', hubspotContactId, 'skipped', 0, undefined, undefined, {
+      reason: 'deletion_echo',
+    });
+    return { action: 'skip', source, wixContactId: '', hubspotContactId };
+  }
 
-        hsAfter = hsRes.data?.paging?.next?.after;
-      } while (hsAfter);
-    } catch (err) {
-      logger.error('Full sync Phase 2 failed', {
-        instanceId,
-        error: (err as Error).message,
-      });
+  const mapping = await findByHubSpotId(instanceId, hubspotContactId);
+  if (!mapping) {
+    logger.debug('Deleted HubSpot contact has no mapping — nothing to propagate', {
+      instanceId,
+      hubspotContactId,
+    });
+    return { action: 'skip', source, wixContactId: '', hubspotContactId };
+  }
+
+  const wixContactId = mapping.wixContactId;
+
+  try {
+    if (policy === 'mirror_delete') {
+      await registerSyncId(instanceId, 'wix', wixContactId, deletionSyncId(instanceId, 'wix', wixContactId));
+      await deleteWixContact(installation, wixContactId);
+    } else if (policy === 'archive_wix_label') {
+      // The sync tag makes the resulting contact_updated webhook an echo
+      const syncId = await registerSyncId(instanceId, 'wix', wixContactId);
+      await labelWixContact(installation, wixContactId, ARCHIVED_IN_HUBSPOT_LABEL, syncId);
     }
 
-    // Update the installation's last-sync timestamp
-    installation.lastSyncAt = new Date();
-    await installation.save();
+    await deleteMapping(instanceId, wixContactId, hubspotContactId);
+    await clearHashesForContact(instanceId, wixContactId);
+    await clearHashesForContact(instanceId, hubspotContactId);
+
+    const duration = Date.now() - start;
+    await logEvent(instanceId, source, 'delete', wixContactId, hubspotContactId, 'success', duration, undefined, undefined, {
+      policy,
+    });
+
+    logger.info('Scenario 6 complete', { instanceId, wixContactId, hubspotContactId, policy, duration });
+    return { action: 'delete', source, wixContactId, hubspotContactId };
   } catch (err) {
-    logger.error('Full sync failed', {
+    const duration = Date.now() - start;
+    const msg = (err as Error).message;
+    logger.error('Scenario 6 failed: onHubSpotContactDeleted', {
       instanceId,
-      error: (err as Error).message,
+      hubspotContactId,
+      error: msg,
+    });
+    await logEvent(instanceId, source, 'delete', wixContactId, hubspotContactId, 'failed', duration, msg, undefined, {
+      policy,
     });
+    throw err;
   }
+}
 
-  const durationMs = Date.now() - start;
-  logger.info('Full sync complete', {
-    instanceId,
-    synced,
-    skipped,
-    errors,
-    total,
-    durationMs,
-  });
+// ═══════════════════════════════════════════════════════════════════════════════
+// Scenario 7 — HubSpot Contacts Merged
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Wix label for a duplicate that Wix would not merge (e.g. a site member) */
+export const MERGED_IN_HUBSPOT_LABEL = 'Merged in HubSpot';
+
+/** What became of one Wix contact that was linked to a merged-away record */
+export interface MergedDuplicate {
+  wixContactId: string;
+  /** HubSpot record it was linked to before the merge */
+  hubspotContactId: string;
+  /**
+   * `merged` into the kept Wix contact, or — when Wix refuses the merge —
+   * `labelled` "Merged in HubSpot" and unlinked; `failed` if even the label
+   * could not be written (the contact is still unlinked)
+   */
+  outcome: 'merged' | 'labelled' | 'failed';
+  error?: string;
+}
 
-  return { synced, skipped, errors, total, durationMs };
+/** The merge decision recorded on the `merge` SyncEvent */
+export interface MergeDecision {
+  survivingHubSpotId: string;
+  mergedHubSpotIds: string[];
+  /** Wix contact now linked to the surviving record */
+  keptWixContactId: string;
+  /** Why that Wix contact was kept */
+  keptBecause: 'linked_to_survivor' | 'most_recently_synced';
+  duplicates: MergedDuplicate[];
+}
+
+/**
+ * Folds the Wix contacts of merged-away HubSpot records into the kept one.
+ * When Wix refuses (a site member cannot be a merge source) each duplicate
+ * is labelled instead, so the site owner can resolve it by hand.
+ */
+async function reconcileWixDuplicates(
+  installation: IInstallation,
+  keptWixContactId: string,
+  duplicates: IContactMapping[],
+): Promise<MergedDuplicate[]> {
+  if (duplicates.length === 0) return [];
+  const instanceId = installation.instanceId;
+
+  try {
+    // Wix deletes every merge source — their contact_deleted webhooks are ours
+    for (const dup of duplicates) {
+      await registerSyncId(instanceId, 'wix', dup.wixContactId, deletionSyncId(instanceId, 'wix', dup.wixContactId));
+    }
+    const merged = await mergeWixContacts(
+      installation,
+      keptWixContactId,
+      duplicates.map((dup) => dup.wixContactId),
+    );
+    if (merged) {
+      return duplicates.map((dup) => ({
+        wixContactId: dup.wixContactId,
+        hubspotContactId: dup.hubspotContactId,
+        outcome: 'merged' as const,
+      }));
+    }
+    logger.warn('Kept Wix contact no longer exists — labelling duplicates instead', {
+      instanceId,
+      wixContactId: keptWixContactId,
+    });
+  } catch (err) {
+    logger.warn('Wix did not merge the duplicates — labelling them instead', {
+      instanceId,
+      wixContactId: keptWixContactId,
+      error: (err as Error).message,
+    });
+  }
+
+  const outcomes: MergedDuplicate[] = [];
+  for (const dup of duplicates) {
+    try {
+      // The sync tag makes the resulting contact_updated webhook an echo
+      const syncId = await registerSyncId(instanceId, 'wix', dup.wixContactId);
+      await labelWixContact(installation, dup.wixContactId, MERGED_IN_HUBSPOT_LABEL, syncId);
+      outcomes.push({ wixContactId: dup.wixContactId, hubspotContactId: dup.hubspotContactId, outcome: 'labelled' });
+    } catch (err) {
+      outcomes.push({
+        wixContactId: dup.wixContactId,
+        hubspotContactId: dup.hubspotContactId,
+        outcome: 'failed',
+        error: (err as Error).message,
+      });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * HubSpot contacts were merged: `mergedHubSpotIds` no longer exist and
+ * `survivingHubSpotId` holds their data.
+ *
+ * One Wix contact stays linked — the one already linked to the survivor,
+ * otherwise the most recently synced one — and its mapping is repointed to
+ * the survivor. The other linked Wix contacts are duplicates: they are
+ * merged into the kept contact in Wix, or labelled "Merged in HubSpot" when
+ * Wix refuses, and only then is each one's mapping removed.
+ *
+ * The decision is recorded on a `merge` SyncEvent. When a duplicate could
+ * not be reconciled the event is `failed` and this throws: that duplicate
+ * keeps its mapping, so the retried job finds it and tries again.
+ */
+export async function onHubSpotContactsMerged(
+  installation: IInstallation,
+  survivingHubSpotId: string,
+  mergedHubSpotIds: string[],
+  source: SyncSource = 'hubspot_webhook',
+): Promise<SyncResult> {
+  const start = Date.now();
+  const instanceId = installation.instanceId;
+  const goneIds = mergedHubSpotIds.filter((id) => id !== survivingHubSpotId);
+
+  logger.info('Scenario 7: HubSpot contacts merged', {
+    instanceId,
+    hubspotContactId: survivingHubSpotId,
+    merged: goneIds.length,
+  });
+
+  const found = await Promise.all(
+    [survivingHubSpotId, ...goneIds].map((id) => findByHubSpotId(instanceId, id)),
+  );
+  const mappings = found.filter((m): m is IContactMapping => m !== null);
+
+  if (mappings.length === 0) {
+    logger.debug('Merged HubSpot contacts have no mapping — nothing to repoint', {
+      instanceId,
+      hubspotContactId: survivingHubSpotId,
+    });
+    return { action: 'skip', source, wixContactId: '', hubspotContactId: survivingHubSpotId };
+  }
+
+  const survivorMapping = mappings.find((m) => m.hubspotContactId === survivingHubSpotId);
+  const kept =
+    survivorMapping ??
+    [...mappings].sort((a, b) => (b.lastSyncedAt?.getTime() ?? 0) - (a.lastSyncedAt?.getTime() ?? 0))[0];
+  const duplicates = mappings.filter((m) => m !== kept);
+
+  const decision: MergeDecision = {
+    survivingHubSpotId,
+    mergedHubSpotIds: goneIds,
+    keptWixContactId: kept.wixContactId,
+    keptBecause: survivorMapping ? 'linked_to_survivor' : 'most_recently_synced',
+    duplicates: [],
+  };
+
+  try {
+    if (kept.hubspotContactId !== survivingHubSpotId) {
+      await relinkHubSpotId(instanceId, kept.hubspotContactId, survivingHubSpotId, crypto.randomUUID());
+    }
+    // The survivor's data changed — the next sync must not be skipped as a no-op
+    for (const id of [survivingHubSpotId, ...goneIds]) {
+      await clearHashesForContact(instanceId, id);
+    }
+
+    decision.duplicates = await reconcileWixDuplicates(installation, kept.wixContactId, duplicates);
+
+    // Unlink each duplicate that is dealt with; a failed one stays linked to
+    // its gone HubSpot record until a retry reconciles it
+    for (const dup of decision.duplicates) {
+      if (dup.outcome === 'failed') continue;
+      await deleteMapping(instanceId, dup.wixContactId, dup.hubspotContactId);
+      await clearHashesForContact(instanceId, dup.wixContactId);
+    }
+
+    const failed = decision.duplicates.filter((d) => d.outcome === 'failed').length;
+    if (failed) {
+      throw new Error(`${failed} Wix duplicate(s) could not be merged or labelled`);
+    }
+
+    const duration = Date.now() - start;
+    await logEvent(instanceId, source, 'merge', kept.wixContactId, survivingHubSpotId, 'success', duration, undefined, undefined, {
+      decision,
+    });
+
+    logger.info('Scenario 7 complete', {
+      instanceId,
+      wixContactId: kept.wixContactId,
+      hubspotContactId: survivingHubSpotId,
+      duplicates: duplicates.length,
+      duration,
+    });
+    return { action: 'merge', source, wixContactId: kept.wixContactId, hubspotContactId: survivingHubSpotId };
+  } catch (err) {
+    const duration = Date.now() - start;
+    const msg = (err as Error).message;
+    logger.error('Scenario 7 failed: onHubSpotContactsMerged', {
+      instanceId,
+      hubspotContactId: survivingHubSpotId,
+      error: msg,
+    });
+    await logEvent(instanceId, source, 'merge', kept.wixContactId, survivingHubSpotId, 'failed', duration, msg, undefined, {
+      decision,
+    });
+    throw err;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Full Sync — Page through all Wix contacts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** A `running` run with no checkpoint for this long belongs to a dead process */
+const SYNC_RUN_STALE_MS = 10 * 60 * 1000;
+
+/** Unfinished run statuses a full sync picks up from */
+const RESUMABLE_RUN_STATUSES: SyncRunStatus[] = ['running', 'paused', 'failed'];
+
+export interface FullSyncResult {
+  /** SyncRun that holds this sync's checkpoints ('' if none was claimed) */
+  runId: string;
+  /**
+   * Where the run ended up: `completed`, `paused` / `cancelled` (stopped from
+   * the dashboard), `failed` (resumable), or `running` when another live run
+   * already owns the installation and nothing was done.
+   */
+  status: SyncRunStatus;
+  /** Contacts successfully synced (created or updated in HubSpot) */
+  synced: number;
+  /** Contacts skipped (already up-to-date via idempotency check) */
+  skipped: number;
+  /** Contacts that failed to sync */
+  errors: number;
+  /** Total contacts inspected */
+  total: number;
+  /** Duration of this invocation in milliseconds */
+  durationMs: number;
+  /** Planned changes — only set for a dry run */
+  report?: DryRunReport;
+}
+
+export interface FullSyncOptions {
+  /** Plan the sync without writing anything or touching the SyncRun */
+  dryRun?: boolean;
+  /** Unsaved mapping rules to plan with (dry run only) */
+  rules?: IFieldMapping[];
+}
+
+/** Starting point of a dry run — never persisted */
+function dryRunStart(): Pick<ISyncRun, 'phase' | 'wixOffset' | 'hubspotAfter' | 'counters'> {
+  return {
+    phase: 'wix_to_hubspot',
+    wixOffset: 0,
+    hubspotAfter: '',
+    counters: { synced: 0, skipped: 0, errors: 0, total: 0 },
+  };
+}
+
+/**
+ * Claims the installation's unfinished full-sync run — paused, failed, or
+ * `running` but abandoned by a dead process — or starts a fresh one.
+ *
+ * @returns — The claimed run, or `null` if a live run is already in progress
+ */
+async function claimSyncRun(instanceId: string): Promise<ISyncRun | null> {
+  const unfinished = await SyncRun.findOne({
+    instanceId,
+    status: { $in: RESUMABLE_RUN_STATUSES },
+  }).sort({ createdAt: -1 });
+
+  if (!unfinished) return SyncRun.create({ instanceId });
+
+  if (
+    unfinished.status === 'running' &&
+    unfinished.updatedAt.getTime() > Date.now() - SYNC_RUN_STALE_MS
+  ) {
+    return null;
+  }
+
+  // Conditional on what we just read, so two resumers cannot both win
+  return SyncRun.findOneAndUpdate(
+    { _id: unfinished._id, status: unfinished.status, updatedAt: unfinished.updatedAt },
+    { $set: { status: 'running', lastError: '' } },
+    { new: true },
+  );
+}
+
+/**
+ * Persists a run's progress. Only matches while the run is still `running`,
+ * so a pause or cancel issued from the dashboard stops the sync at the next
+ * page boundary.
+ *
+ * @returns — `'running'` to keep going, otherwise the status that stopped it
+ */
+async function checkpointSyncRun(
+  runId: unknown,
+  progress: Partial<Pick<ISyncRun, 'phase' | 'wixOffset' | 'hubspotAfter' | 'counters'>>,
+): Promise<SyncRunStatus> {
+  const res = await SyncRun.updateOne({ _id: runId, status: 'running' }, { $set: progress });
+  if (res.matchedCount > 0) return 'running';
+
+  const current = await SyncRun.findById(runId).select('status').lean();
+  return current?.status ?? 'cancelled';
+}
+
+/**
+ * Pages through every Wix contact and syncs any that do not already have
+ * a HubSpot mapping (or whose data has changed since the last sync), then
+ * pulls HubSpot contacts that are not yet mapped.
+ *
+ * Progress is checkpointed to a {@link ISyncRun} after every page, so a
+ * crash, restart or pause resumes from the last checkpoint; at worst the
+ * page in flight is re-processed, which the idempotency layer absorbs.
+ *
+ * Flow:
+ *   1. Claim the unfinished SyncRun for the installation, or start one.
+ *   2. Load the field mapping rules once (cached).
+ *   3. Phase 1: query Wix contacts from the stored offset. For each:
+ *      a. If no mapping exists → delegate to `onWixContactCreated`.
+ *      b. If a mapping exists  → delegate to `onWixContactUpdated`
+ *         (which includes idempotency + conflict resolution).
+ *      The HubSpot writes are queued on a {@link WriteBatch} and sent in
+ *      batches of `config.syncBatchSize` (max 100); the page's batch is
+ *      flushed before its checkpoint.
+ *   4. Phase 2: page HubSpot contacts from the stored `after` cursor and
+ *      create Wix contacts for any that are unmapped.
+ *   5. Checkpoint after each page; stop if the run was paused or cancelled.
+ *   6. On completion, update `installation.lastSyncAt`.
+ *   7. Return aggregate stats (cumulative across resumes).
+ *
+ * A dry run (`options.dryRun`) walks the same pages from the start, passes
+ * a {@link DryRunPlan} to every scenario and returns the planned changes as
+ * `report`. It neither claims nor checkpoints a SyncRun, and only reads.
+ */
+export async function runFullSync(
+  installation: IInstallation,
+  options: FullSyncOptions = {},
+): Promise<FullSyncResult> {
+  const start = Date.now();
+  const instanceId = installation.instanceId;
+  const plan: DryRunPlan | undefined = options.dryRun
+    ? { rules: options.rules, changes: [] }
+    : undefined;
+
+  const run = plan ? dryRunStart() : await claimSyncRun(instanceId);
+  if (!run) {
+    logger.warn('Full sync already running — not starting another', { instanceId });
+    return {
+      runId: '',
+      status: 'running',
+      synced: 0,
+      skipped: 0,
+      errors: 0,
+      total: 0,
+      durationMs: Date.now() - start,
+    };
+  }
+
+  const runId = '_id' in run ? String(run._id) : '';
+  let { synced, skipped, errors, total } = run.counters;
+  let status: SyncRunStatus = 'running';
+  const counters = () => ({ counters: { synced, skipped, errors, total } });
+  const checkpoint = async (
+    progress: Parameters<typeof checkpointSyncRun>[1],
+  ): Promise<SyncRunStatus> => (plan ? 'running' : checkpointSyncRun(runId, progress));
+
+  const isFresh = run.phase === 'wix_to_hubspot' && run.wixOffset === 0;
+  logger.info(plan ? 'Full sync dry run started' : isFresh ? 'Full sync started' : 'Full sync resumed', {
+    instanceId,
+    runId,
+    phase: run.phase,
+    wixOffset: run.wixOffset,
+  });
+
+  try {
+    // Pre-load rules so each contact doesn't trigger a cache miss
+    if (!plan?.rules) await loadMappingRules(instanceId);
+
+    // ── Phase 1: Wix → HubSpot ─────────────────────────────────────────
+    if (run.phase === 'wix_to_hubspot') {
+      // A dry run writes nothing, so it has nothing to batch
+      const batch = plan
+        ? undefined
+        : createWriteBatch(installation, 'initial_sync', (ok) => {
+          if (ok) synced++;
+          else errors++;
+        });
+      // Page through all Wix contacts via REST API. A page that fails is not
+      // skipped: the error ends the run as `failed` at the last saved offset,
+      // and a resume fetches that page again
+      let offset = run.wixOffset;
+      const pageSize = 100;
+      let hasMore = true;
+      do {
+        const res = await listWixContacts(installation, pageSize, offset);
+        const items: any[] = res.contacts ?? [];
+        hasMore = items.length === pageSize;
+        offset += items.length;
+
+        for (const wc of items) {
+          total++;
+          const contactId: string = wc.id || wc._id;
+          if (!contactId) {
+            logger.warn('Full sync: Wix contact missing id, skipping');
+            errors++;
+            continue;
+          }
+
+          try {
+            // Determine whether this is a create or update scenario
+            const mapping = await findByWixId(instanceId, contactId);
+
+            let result: SyncResult;
+            if (mapping) {
+              // Already mapped — run update scenario (includes conflict resolution)
+              result = await onWixContactUpdated(
+                installation,
+                contactId,
+                wc,
+                'initial_sync',
+                plan,
+                batch,
+              );
+            } else {
+              // Not yet mapped — run create scenario
+              result = await onWixContactCreated(
+                installation,
+                contactId,
+                wc,
+                'initial_sync',
+                plan,
+                batch,
+              );
+            }
+
+            if (result.deferred) {
+              // Counted by the batch once it is flushed
+            } else if (result.action === 'skip') {
+              skipped++;
+            } else {
+              synced++;
+            }
+          } catch (err) {
+            errors++;
+            logger.error('Full sync: contact failed', {
+              instanceId,
+              wixContactId: contactId,
+              error: (err as Error).message,
+            });
+          }
+        }
+
+        if (batch) await flushWriteBatch(batch);
+        status = await checkpoint({ wixOffset: offset, ...counters() });
+      } while (hasMore && status === 'running');
+
+      if (status === 'running') {
+        status = await checkpoint({ phase: 'hubspot_to_wix', ...counters() });
+      }
+    }
+
+    // ── Phase 2: Pull HubSpot contacts that are not yet mapped ──────────
+    if (status === 'running') {
+      logger.info('Full sync Phase 2: pulling HubSpot contacts', { instanceId, runId });
+      // Resume mid-phase only if the checkpoint was taken in Phase 2
+      let hsAfter: string | undefined =
+        run.phase === 'hubspot_to_wix' ? run.hubspotAfter || undefined : undefined;
+      // A dry run linked these by email in Phase 1 without saving a mapping
+      const plannedLinks = new Set(
+        plan?.changes.map((c) => c.hubspotContactId).filter(Boolean) ?? [],
+      );
+      const properties = [
+        'firstname,lastname,email,phone,company,jobtitle',
+        ...filterProperties(await loadSyncFilters(instanceId)),
+      ].join(',');
+      do {
+        const hsRes = await withRetry(instanceId, (client) =>
+          client.get('/crm/v3/objects/contacts', {
+            params: {
+              properties,
+              limit: 100,
+              ...(hsAfter ? { after: hsAfter } : {}),
+            },
+          }),
+        );
+        const hsContacts: any[] = hsRes.data?.results ?? [];
+
+        for (const hc of hsContacts) {
+          total++;
+          const hubspotContactId = String(hc.id);
+          try {
+            const existing = await findByHubSpotId(instanceId, hubspotContactId);
+            if (existing || plannedLinks.has(hubspotContactId)) {
+              skipped++;
+              continue;
+            }
+            const hsProps: FlatContact = hc.properties ?? {};
+            const result = await onHubSpotContactCreated(
+              installation,
+              hubspotContactId,
+              hsProps,
+              'initial_sync',
+              plan,
+            );
+            if (result.action === 'skip') {
+              skipped++;
+            } else {
+              synced++;
+            }
+          } catch (err) {
+            errors++;
+            logger.error('Full sync Phase 2: HubSpot contact failed', {
+              instanceId,
+              hubspotContactId,
+              error: (err as Error).message,
+            });
+          }
+        }
+
+        hsAfter = hsRes.data?.paging?.next?.after;
+        status = await checkpoint({ hubspotAfter: hsAfter ?? '', ...counters() });
+      } while (hsAfter && status === 'running');
+    }
+
+    if (status === 'running') {
+      status = 'completed';
+    }
+    if (status === 'completed' && !plan) {
+      await SyncRun.updateOne(
+        { _id: runId, status: 'running' },
+        { $set: { status, phase: 'done', finishedAt: new Date(), ...counters() } },
+      );
+
+      // Update the installation's last-sync timestamp
+      installation.lastSyncAt = new Date();
+      await installation.save();
+    }
+  } catch (err) {
+    // Leave the run resumable from its last checkpoint
+    const msg = (err as Error).message;
+    status = 'failed';
+    logger.error('Full sync failed', { instanceId, runId, error: msg });
+    if (!plan) {
+      await SyncRun.updateOne(
+        { _id: runId, status: 'running' },
+        { $set: { status, lastError: msg, ...counters() } },
+      ).catch((updateErr) =>
+        logger.error('Failed to record full sync failure', {
+          instanceId,
+          runId,
+          error: (updateErr as Error).message,
+        }),
+      );
+    }
+  }
+
+  const durationMs = Date.now() - start;
+  logger.info('Full sync finished', {
+    instanceId,
+    runId,
+    status,
+    synced,
+    skipped,
+    errors,
+    total,
+    durationMs,
+    dryRun: !!plan,
+  });
+
+  const result: FullSyncResult = { runId, status, synced, skipped, errors, total, durationMs };
+  if (plan) {
+    result.report = {
+      instanceId,
+      generatedAt: new Date().toISOString(),
+      customRules: Boolean(plan.rules),
+      status: status === 'failed' ? 'failed' : 'completed',
+      summary: {
+        create: plan.changes.filter((c) => c.action === 'create').length,
+        update: plan.changes.filter((c) => c.action === 'update').length,
+        skip: skipped,
+        errors,
+        total,
+      },
+      changes: plan.changes,
+    };
+  }
+  return result;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Full Sync — pause / resume / cancel
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Most recent full-sync run for an installation (any status). */
+export async function getLatestSyncRun(instanceId: string): Promise<ISyncRun | null> {
+  return SyncRun.findOne({ instanceId }).sort({ createdAt: -1 });
+}
+
+/**
+ * Asks the running full sync to stop at its next checkpoint. The run keeps
+ * its progress and can be continued with {@link resumeFullSync}.
+ *
+ * @returns — The paused run, or `null` if nothing was running
+ */
+export async function pauseFullSync(instanceId: string): Promise<ISyncRun | null> {
+  const run = await SyncRun.findOneAndUpdate(
+    { instanceId, status: 'running' },
+    { $set: { status: 'paused' } },
+    { new: true, sort: { createdAt: -1 } },
+  );
+  if (run) logger.info('Full sync paused', { instanceId, runId: String(run._id) });
+  return run;
+}
+
+/**
+ * Cancels the unfinished full sync. A running sync stops at its next
+ * checkpoint; a later full sync starts over from the beginning.
+ *
+ * @returns — The cancelled run, or `null` if there was nothing to cancel
+ */
+export async function cancelFullSync(instanceId: string): Promise<ISyncRun | null> {
+  const run = await SyncRun.findOneAndUpdate(
+    { instanceId, status: { $in: RESUMABLE_RUN_STATUSES } },
+    { $set: { status: 'cancelled', finishedAt: new Date() } },
+    { new: true, sort: { createdAt: -1 } },
+  );
+  if (run) logger.info('Full sync cancelled', { instanceId, runId: String(run._id) });
+  return run;
+}
+
+/**
+ * Continues a paused or failed full sync from its last checkpoint. Runs in
+ * the background — poll {@link getLatestSyncRun} for progress.
+ *
+ * @returns — The run that will be resumed, or `null` if none is resumable
+ */
+export async function resumeFullSync(installation: IInstallation): Promise<ISyncRun | null> {
+  const instanceId = installation.instanceId;
+  const run = await SyncRun.findOne({
+    instanceId,
+    status: { $in: ['paused', 'failed'] },
+  }).sort({ createdAt: -1 });
+  if (!run) return null;
+
+  runFullSync(installation).catch((err) =>
+    logger.error('Resumed full sync failed', {
+      instanceId,
+      runId: String(run._id),
+      error: (err as Error).message,
+    }),
+  );
+  return run;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Delta Sync — Pull only contacts changed since the last run
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Advanced cursors are set this far before the run started, so a contact
+ * whose timestamp lags ours (clock skew, slow indexing) is still picked up.
+ * Re-processing a contact is harmless — the idempotency layer skips it.
+ */
+const DELTA_CURSOR_OVERLAP_MS = 60_000;
+
+/** HubSpot properties always pulled by delta sync, on top of mapped ones */
+const DELTA_HUBSPOT_PROPERTIES = [
+  'firstname',
+  'lastname',
+  'email',
+  'phone',
+  'company',
+  'jobtitle',
+  'wix_sync_tag',
+];
+
+/**
+ * Runs in a row a failing contact may hold its cursor back. On the last one
+ * it is recorded as a SyncError instead, and the cursor moves past it.
+ */
+const MAX_DELTA_CURSOR_HOLDS = 3;
+
+/**
+ * Cursor from which the next run sees a contact that failed: just before
+ * its change time, or the phase's starting cursor when it has none.
+ */
+function retryCursor(changedAt: string | undefined, since: Date | null): Date | null {
+  const time = changedAt ? Date.parse(changedAt) : NaN;
+  return Number.isNaN(time) ? since : new Date(time - 1);
+}
+
+/** The earlier of two cursors — `null` (the beginning) is earliest, `undefined` unset */
+function earlierCursor(a: Date | null | undefined, b: Date | null): Date | null {
+  if (a === undefined) return b;
+  if (a === null || b === null) return null;
+  return a.getTime() <= b.getTime() ? a : b;
+}
+
+/** Records a contact delta sync has given up retrying, next to other sync failures */
+async function recordDeltaSyncFailure(
+  instanceId: string,
+  side: 'wix' | 'hubspot',
+  contactId: string,
+  attempts: number,
+  message: string,
+): Promise<void> {
+  logger.error('Delta sync: giving up on contact — cursor moves past it', {
+    instanceId,
+    side,
+    contactId,
+    attempts,
+    error: message,
+  });
+  try {
+    await SyncError.create({
+      instanceId,
+      type: 'contact_sync',
+      referenceId: contactId,
+      payload: { side, source: 'delta_sync' },
+      error: message,
+      retryCount: attempts,
+      lastRetryAt: new Date(),
+    });
+  } catch (recordErr) {
+    logger.error('Failed to record delta sync failure', {
+      instanceId,
+      contactId,
+      error: (recordErr as Error).message,
+    });
+  }
+}
+
+export interface DeltaSyncResult extends Omit<FullSyncResult, 'runId' | 'status'> {
+  /** Cursors persisted on the installation for the next run */
+  cursors: SyncCursors;
+}
+
+/**
+ * Syncs only the contacts modified since the installation's cursors, in
+ * both directions. Meant to run on a schedule as a safety net for missed
+ * webhooks; on large sites it is far cheaper than {@link runFullSync}.
+ *
+ * Flow:
+ *   1. Resolve the cursors — fall back to `lastSyncAt` on the first run.
+ *   2. Phase 1: page Wix contacts with `updatedDate` after the Wix cursor,
+ *      delegating to `onWixContactCreated` / `onWixContactUpdated`; their
+ *      HubSpot writes are batched and flushed at the end of each page.
+ *   3. Phase 2: search HubSpot contacts with `hs_lastmodifieddate` after the
+ *      HubSpot cursor, delegating to `onHubSpotContactCreated` /
+ *      `onHubSpotContactUpdated`. When the search window is exhausted the
+ *      query restarts from the last timestamp seen.
+ *   4. Phase 3 (label sync in `lists` mode): label the Wix contacts that
+ *      joined or left a label's HubSpot list since the last run — a list
+ *      change alone is not a property change, so Phase 2 misses it.
+ *   5. Contacts carrying one of our own sync tags are skipped as echoes.
+ *   6. Each cursor advances only if its phase completed; a failed phase
+ *      is retried from the same point on the next run. A contact that
+ *      failed — on its own or in a batched write — holds its cursor just
+ *      before its change time, so the next run picks it up again; after
+ *      {@link MAX_DELTA_CURSOR_HOLDS} runs in a row it is recorded as a
+ *      SyncError and no longer holds the cursor.
+ */
+export async function runDeltaSync(
+  installation: IInstallation,
+): Promise<DeltaSyncResult> {
+  const start = Date.now();
+  const instanceId = installation.instanceId;
+  const nextCursor = new Date(start - DELTA_CURSOR_OVERLAP_MS);
+
+  const fallback = installation.lastSyncAt ?? null;
+  const wixSince = installation.syncCursors?.wixUpdatedAfter ?? fallback;
+  const hsSince = installation.syncCursors?.hubspotModifiedAfter ?? fallback;
+  const cursors: SyncCursors = {
+    wixUpdatedAfter: wixSince,
+    hubspotModifiedAfter: hsSince,
+  };
+
+  logger.info('Delta sync started', {
+    instanceId,
+    wixSince: wixSince?.toISOString() ?? 'beginning',
+    hsSince: hsSince?.toISOString() ?? 'beginning',
+  });
+
+  let synced = 0;
+  let skipped = 0;
+  let errors = 0;
+  let total = 0;
+
+  const tally = (result: SyncResult) => {
+    if (result.deferred) return; // counted by the batch once it is flushed
+    if (result.action === 'skip') skipped++;
+    else synced++;
+  };
+
+  // Where each cursor must stop so the next run retries the contacts that
+  // failed — unset while none has
+  let wixRetryFrom: Date | null | undefined;
+  let hsRetryFrom: Date | null | undefined;
+
+  // Failing contacts and how many runs in a row each has held its cursor
+  const heldBefore = installation.syncCursors?.heldBack ?? {};
+  const heldBack: Record<string, number> = {};
+  /** A failed phase leaves its contacts' counts as they were */
+  const keepHeld = (side: 'wix' | 'hubspot') => {
+    for (const [key, runs] of Object.entries(heldBefore)) {
+      if (key.startsWith(`${side}:`) && !(key in heldBack)) heldBack[key] = runs;
+    }
+  };
+
+  /**
+   * Cursor to hold `side` at for a failed contact, or `undefined` once it
+   * has held the cursor back too many runs in a row (it is recorded then).
+   */
+  const holdFor = async (
+    side: 'wix' | 'hubspot',
+    contactId: string,
+    changedAt: string | undefined,
+    since: Date | null,
+    message: string,
+  ): Promise<Date | null | undefined> => {
+    const key = `${side}:${contactId}`;
+    const runs = (heldBefore[key] ?? 0) + 1;
+    if (runs >= MAX_DELTA_CURSOR_HOLDS) {
+      await recordDeltaSyncFailure(instanceId, side, contactId, runs, message);
+      return undefined;
+    }
+    heldBack[key] = runs;
+    return retryCursor(changedAt, since);
+  };
+
+  try {
+    const rules = await loadMappingRules(instanceId);
+
+    // ── Phase 1: Wix → HubSpot ─────────────────────────────────────────
+    // Change times of the page's contacts, for writes that fail in the batch
+    const changedAt = new Map<string, string | undefined>();
+    const batch = createWriteBatch(installation, 'delta_sync', async (ok, wixContactId, error = '') => {
+      if (ok) {
+        synced++;
+        return;
+      }
+      errors++;
+      const hold = await holdFor('wix', wixContactId, changedAt.get(wixContactId), wixSince, error);
+      if (hold !== undefined) wixRetryFrom = earlierCursor(wixRetryFrom, hold);
+    });
+    try {
+      let offset = 0;
+      const pageSize = 100;
+      let hasMore = true;
+      do {
+        const res = await listWixContactsUpdatedSince(installation, wixSince, pageSize, offset);
+        const items: any[] = res.contacts ?? [];
+        hasMore = items.length === pageSize;
+        offset += items.length;
+
+        for (const wc of items) {
+          total++;
+          const contactId: string = wc.id || wc._id;
+          if (!contactId) {
+            logger.warn('Delta sync: Wix contact missing id, skipping');
+            errors++;
+            continue;
+          }
+
+          changedAt.set(contactId, wc.updatedDate);
+          try {
+            if (await isSyncEcho(extractSyncId(wc, 'wix'))) {
+              skipped++;
+              continue;
+            }
+            const mapping = await findByWixId(instanceId, contactId);
+            tally(
+              mapping
+                ? await onWixContactUpdated(installation, contactId, wc, 'delta_sync', undefined, batch)
+                : await onWixContactCreated(installation, contactId, wc, 'delta_sync', undefined, batch),
+            );
+          } catch (err) {
+            errors++;
+            const hold = await holdFor('wix', contactId, wc.updatedDate, wixSince, (err as Error).message);
+            if (hold !== undefined) wixRetryFrom = earlierCursor(wixRetryFrom, hold);
+            logger.error('Delta sync: Wix contact failed', {
+              instanceId,
+              wixContactId: contactId,
+              error: (err as Error).message,
+            });
+          }
+        }
+
+        await flushWriteBatch(batch);
+        changedAt.clear();
+      } while (hasMore);
+
+      cursors.wixUpdatedAfter = earlierCursor(wixRetryFrom, nextCursor);
+    } catch (err) {
+      keepHeld('wix');
+      logger.warn('Delta sync Phase 1 (Wix→HubSpot) failed — Wix cursor not advanced', {
+        instanceId,
+        error: (err as Error).message,
+      });
+    }
+
+    // ── Phase 2: HubSpot → Wix ─────────────────────────────────────────
+    try {
+      const properties = [
+        ...new Set([
+          ...DELTA_HUBSPOT_PROPERTIES,
+          ...rules.map((r) => r.hubspotField),
+          ...filterProperties(await loadSyncFilters(instanceId)),
+        ]),
+      ];
+      let since = hsSince;
+      let inclusive = false;
+      let after: string | undefined;
+      let more = true;
+      while (more) {
+        const page = await searchContactsModifiedSince(
+          instanceId,
+          since,
+          properties,
+          after,
+          inclusive,
+        );
+        let lastSeen: Date | null = null;
+
+        for (const hc of page.contacts) {
+          total++;
+          const hubspotContactId = String(hc.id);
+          const hsProps: FlatContact = hc.properties ?? {};
+          if (hsProps.hs_lastmodifieddate) lastSeen = new Date(hsProps.hs_lastmodifieddate);
+
+          try {
+            if (await isSyncEcho(extractSyncId(hc, 'hubspot'))) {
+              skipped++;
+              continue;
+            }
+            const mapping = await findByHubSpotId(instanceId, hubspotContactId);
+            tally(
+              mapping
+                ? await onHubSpotContactUpdated(installation, hubspotContactId, hsProps, 'delta_sync')
+                : await onHubSpotContactCreated(installation, hubspotContactId, hsProps, 'delta_sync'),
+            );
+          } catch (err) {
+            errors++;
+            const hold = await holdFor(
+              'hubspot', hubspotContactId, hsProps.hs_lastmodifieddate, hsSince, (err as Error).message,
+            );
+            if (hold !== undefined) hsRetryFrom = earlierCursor(hsRetryFrom, hold);
+            logger.error('Delta sync: HubSpot contact failed', {
+              instanceId,
+              hubspotContactId,
+              error: (err as Error).message,
+            });
+          }
+        }
+
+        after = page.after;
+        more = Boolean(after);
+        if (more && Number(after) >= SEARCH_RESULT_WINDOW && lastSeen) {
+          // HubSpot will not page further — restart the query from the last
+          // timestamp seen (inclusive, unless that would make no progress)
+          inclusive = !since || lastSeen.getTime() > since.getTime();
+          since = lastSeen;
+          after = undefined;
+        }
+      }
+
+      cursors.hubspotModifiedAfter = earlierCursor(hsRetryFrom, nextCursor);
+    } catch (err) {
+      keepHeld('hubspot');
+      logger.warn('Delta sync Phase 2 (HubSpot→Wix) failed — HubSpot cursor not advanced', {
+        instanceId,
+        error: (err as Error).message,
+      });
+    }
+
+    // ── Phase 3: HubSpot list memberships → Wix labels ─────────────────
+    try {
+      const pass = await pullListMemberships(installation);
+      synced += pass.updated;
+      errors += pass.failed;
+    } catch (err) {
+      logger.warn('Delta sync Phase 3 (list memberships) failed', {
+        instanceId,
+        error: (err as Error).message,
+      });
+    }
+
+    cursors.heldBack = heldBack;
+    installation.syncCursors = cursors;
+    await installation.save();
+  } catch (err) {
+    logger.error('Delta sync failed', {
+      instanceId,
+      error: (err as Error).message,
+    });
+  }
+
+  const durationMs = Date.now() - start;
+  logger.info('Delta sync complete', {
+    instanceId,
+    synced,
+    skipped,
+    errors,
+    total,
+    durationMs,
+  });
+
+  return { synced, skipped, errors, total, durationMs, cursors };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Mapping Preview — one synced contact under draft rules
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** One direction of a {@link ContactMappingPreview} */
+export interface MappingPreviewSide {
+  /** Values the rules produce, keyed by target field */
+  props: FlatContact;
+  /** Current target values of the same fields */
+  current: FlatContact;
+  conflict: { winner: 'wix' | 'hubspot'; reason: string };
+  fields: FieldDecision[];
+  /** Values that could not be converted and would be left out */
+  warnings: MappingWarning[];
+}
+
+/** Both sides of a synced contact and what each mapping direction makes of them */
+export interface ContactMappingPreview {
+  wixContactId: string;
+  hubspotContactId: string;
+  /** Wix values of the fields the rules read */
+  wix: FlatContact;
+  /** HubSpot values of the properties the rules read */
+  hubspot: FlatContact;
+  wixToHubSpot: MappingPreviewSide;
+  hubSpotToWix: MappingPreviewSide;
+}
+
+/** Values of just the given fields, `''` where the contact has none */
+function pickValues(flat: FlatContact, fields: string[]): FlatContact {
+  const picked: FlatContact = {};
+  for (const field of fields) picked[field] = flat[field] ?? '';
+  return picked;
+}
+
+/**
+ * Shows what a set of rules would do to one synced contact: the current
+ * values on both sides, what `wixToHubSpot` and `hubSpotToWix` produce from
+ * them, and how each field's conflict strategy would decide if that side
+ * had just changed. Nothing is written and no Wix labels are created.
+ * Idempotency is not consulted, so an unchanged contact still shows its
+ * full mapping.
+ *
+ * @param installation — Connected installation
+ * @param wixContactId — Wix side of a synced contact
+ * @param rules        — Rules to map with, e.g. unsaved edits from the mapping table
+ * @returns            — `null` if the contact is not synced or either side no longer exists
+ */
+export async function previewContactMapping(
+  installation: IInstallation,
+  wixContactId: string,
+  rules: IFieldMapping[],
+): Promise<ContactMappingPreview | null> {
+  const instanceId = installation.instanceId;
+  const mapping = await findByWixId(instanceId, wixContactId);
+  if (!mapping) return null;
+
+  const hubspotFields = [...new Set(rules.map((r) => r.hubspotField))];
+  const [wixContact, hsContact] = await Promise.all([
+    getWixContactById(installation, wixContactId),
+    getHubSpotContactById(instanceId, mapping.hubspotContactId, [...hubspotFields, 'country']),
+  ]);
+  if (!wixContact || !hsContact) return null;
+
+  const wixContactData = wixContact as Record<string, any>;
+  const wixFlat = flattenWixContact(wixContactData);
+  const hubspotProps: FlatContact = hsContact.properties ?? {};
+  const wixUpdatedAt =
+    wixContactData._updatedDate ||
+    wixContactData.updatedDate ||
+    wixContactData.info?._updatedDate ||
+    null;
+  const hsUpdatedAt = hsContact.updatedAt || hubspotProps.hs_lastmodifieddate || null;
+
+  const toHubSpotWarnings: MappingWarning[] = [];
+  const toHubSpot = await mapLabelsToHubSpot(
+    installation,
+    wixContactData,
+    wixToHubSpot(wixContactData, rules, { phoneRegion: installation.phoneRegion, warnings: toHubSpotWarnings }),
+    rules,
+  );
+  const toWixWarnings: MappingWarning[] = [];
+  const toWix = await mapLabelsToWix(
+    installation,
+    hubspotProps,
+    hubSpotToWix(hubspotProps, rules, {
+      phoneRegion: installation.phoneRegion,
+      country: hubspotProps.country,
+      warnings: toWixWarnings,
+    }),
+    rules,
+    false,
+  );
+
+  const side = (
+    inboundSide: 'wix' | 'hubspot',
+    props: FlatContact,
+    current: FlatContact,
+    warnings: MappingWarning[],
+  ): MappingPreviewSide => {
+    const conflict = resolveConflict(wixUpdatedAt, hsUpdatedAt, inboundSide);
+    const merge = mergeFieldByField(props, current, rules, inboundSide, conflict);
+    return {
+      props,
+      current: pickFields(current, props),
+      conflict: { winner: conflict.winner, reason: conflict.reason },
+      fields: merge.decisions,
+      warnings,
+    };
+  };
+
+  return {
+    wixContactId,
+    hubspotContactId: mapping.hubspotContactId,
+    wix: pickValues(wixFlat, [...new Set(rules.flatMap(ruleWixFields))]),
+    hubspot: pickValues(hubspotProps, hubspotFields),
+    wixToHubSpot: side('wix', toHubSpot, hubspotProps, toHubSpotWarnings),
+    hubSpotToWix: side('hubspot', toWix, wixFlat, toWixWarnings),
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
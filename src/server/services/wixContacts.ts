@@ -4,21 +4,35 @@
 // Uses the Wix REST API directly instead of the JS SDK to avoid the
 // `__type` serialization bug in server-side environments.
 //
-// Three functions for reading and writing Wix contacts:
+// Functions for reading and writing Wix contacts:
 //   1. getWixContactById    — look up a contact by Wix ID
 //   2. getWixContactByEmail — look up a contact by email address
 //   3. createOrUpdateWixContact — upsert a contact with sync metadata
+//   4. deleteWixContact     — delete a contact (404 counts as success)
+//   5. labelWixContact      — add a label, e.g. to archive a contact
+//   6. updateWixContactLabels — add and remove labels in one write
+//   7. listWixLabels        — every label defined on the site
+//   8. listWixExtendedFields — the site's own custom contact fields
+//   9. mergeWixContacts     — fold duplicate contacts into one
 //
 // Every create / update writes three extended fields onto the contact:
 //   • custom.hubspot_contact_id  — the linked HubSpot contact ID
 //   • custom.wix_sync_tag        — UUID from the last sync operation
 //   • custom.wix_sync_source     — 'wix' or 'hubspot' (who triggered it)
+// alongside any mapped custom fields the site owner created.
+//
+// Every API call runs inside the installation's Wix circuit breaker
+// (Module 21), so a Wix outage fails fast instead of timing out per call.
+// Hosts come from `config.wixApiBase` / `config.wixAuthBase`, so tests and
+// offline development can point them at the fake Wix API (Module 23).
 // =============================================================================
+import http from 'http';
 import https from 'https';
 import config from '../config';
 import { IInstallation } from '../models/Installation';
 import logger from '../utils/logger';
 import { WixContact } from '../types';
+import { guardCall } from './circuitBreaker';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Extended field keys
@@ -27,6 +41,15 @@ const EXT_FIELD_HUBSPOT_ID = 'custom.hubspot_contact_id';
 const EXT_FIELD_SYNC_TAG = 'custom.wix_sync_tag';
 const EXT_FIELD_SYNC_SOURCE = 'custom.wix_sync_source';
 
+/** The integration's own fields — never offered for mapping */
+const SYNC_EXTENDED_FIELDS = new Set([EXT_FIELD_HUBSPOT_ID, EXT_FIELD_SYNC_TAG, EXT_FIELD_SYNC_SOURCE]);
+
+/** `true` if a Wix error says an extended field does not exist on the site */
+function isExtendedFieldNotFound(err: any): boolean {
+  const details = JSON.stringify(err?.response ?? '');
+  return (err?.message ?? '').includes('EXTENDED_FIELD_NOT_FOUND') || details.includes('EXTENDED_FIELD_NOT_FOUND');
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Input types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -37,6 +60,10 @@ export interface WixContactInput {
   phone?: string;
   company?: string;
   jobTitle?: string;
+  /** Replaces the contact's labels when set */
+  labelKeys?: string[];
+  /** Custom extended field values, keyed by field key (`custom.*`) */
+  extendedFields?: Record<string, string>;
 }
 
 export interface SyncMetadata {
@@ -64,7 +91,7 @@ async function getAccessToken(installation: IInstallation): Promise<string> {
     refresh_token: installation.refreshToken,
   });
 
-  const data = await wixRequest<any>('POST', 'https://www.wix.com/oauth/access', body, {
+  const data = await wixRequest<any>('POST', `${config.wixAuthBase}/oauth/access`, body, {
     'Content-Type': 'application/json',
   });
 
@@ -94,6 +121,7 @@ function wixRequest<T>(
     const parsedUrl = new URL(url);
     const options: https.RequestOptions = {
       hostname: parsedUrl.hostname,
+      port: parsedUrl.port || undefined,
       path: parsedUrl.pathname + parsedUrl.search,
       method,
       headers: {
@@ -103,7 +131,9 @@ function wixRequest<T>(
       },
     };
 
-    const req = https.request(options, (resp) => {
+    // Plain HTTP only ever reaches a local stand-in such as the fake (Module 23)
+    const transport = parsedUrl.protocol === 'http:' ? http : https;
+    const req = transport.request(options, (resp) => {
       let data = '';
       resp.on('data', (chunk) => (data += chunk));
       resp.on('end', () => {
@@ -138,34 +168,39 @@ function wixRequest<T>(
   });
 }
 
-/** Authenticated Wix API call (auto-retries once on 403 with a fresh token) */
+/**
+ * Authenticated Wix API call (auto-retries once on 403 with a fresh token).
+ * Throws a `CircuitOpenError` without calling Wix while its circuit is open.
+ */
 async function wixApi<T>(
   installation: IInstallation,
   method: string,
   path: string,
   body?: Record<string, any>,
 ): Promise<T> {
-  const token = await getAccessToken(installation);
-  const url = `https://www.wixapis.com${path}`;
-  try {
-    return await wixRequest<T>(method, url, body ? JSON.stringify(body) : undefined, {
-      Authorization: token,
-    });
-  } catch (err: any) {
-    if (err.statusCode === 403) {
-      // Invalidate cached token and retry once with a fresh token
-      logger.warn('Wix API 403 — clearing token cache and retrying', {
-        instanceId: installation.instanceId,
-        path,
-      });
-      tokenCache.delete(installation.instanceId);
-      const freshToken = await getAccessToken(installation);
-      return wixRequest<T>(method, url, body ? JSON.stringify(body) : undefined, {
-        Authorization: freshToken,
+  return guardCall(installation.instanceId, 'wix', async () => {
+    const token = await getAccessToken(installation);
+    const url = `${config.wixApiBase}${path}`;
+    try {
+      return await wixRequest<T>(method, url, body ? JSON.stringify(body) : undefined, {
+        Authorization: token,
       });
+    } catch (err: any) {
+      if (err.statusCode === 403) {
+        // Invalidate cached token and retry once with a fresh token
+        logger.warn('Wix API 403 — clearing token cache and retrying', {
+          instanceId: installation.instanceId,
+          path,
+        });
+        tokenCache.delete(installation.instanceId);
+        const freshToken = await getAccessToken(installation);
+        return wixRequest<T>(method, url, body ? JSON.stringify(body) : undefined, {
+          Authorization: freshToken,
+        });
+      }
+      throw err;
     }
-    throw err;
-  }
+  });
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -245,6 +280,39 @@ export async function listWixContacts(
   };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Helper: List Wix contacts updated after a cursor (for delta sync)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Pages through Wix contacts whose `updatedDate` is after `since`, oldest
+ * change first, so a caller can stop at any page without skipping contacts.
+ *
+ * @param installation — Wix installation (for the access token)
+ * @param since        — Exclusive lower bound; `null` lists every contact
+ * @param limit        — Page size (max 1000)
+ * @param offset       — Number of matching contacts to skip
+ */
+export async function listWixContactsUpdatedSince(
+  installation: IInstallation,
+  since: Date | null,
+  limit = 100,
+  offset = 0,
+): Promise<{ contacts: WixContact[]; total: number }> {
+  const result = await wixApi<any>(installation, 'POST', '/contacts/v4/contacts/query', {
+    query: {
+      ...(since ? { filter: { updatedDate: { $gt: since.toISOString() } } } : {}),
+      sort: [{ fieldName: 'updatedDate', order: 'ASC' }],
+      paging: { limit, offset },
+    },
+  });
+
+  return {
+    contacts: (result?.contacts ?? []) as WixContact[],
+    total: result?.pagingMetadata?.total ?? result?.contacts?.length ?? 0,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 3. Create or update a Wix contact (with sync metadata)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -269,36 +337,45 @@ export async function createOrUpdateWixContact(
   }
   if (data.company) info.company = data.company;
   if (data.jobTitle) info.jobTitle = data.jobTitle;
+  if (data.labelKeys) info.labelKeys = { items: data.labelKeys };
 
   // Attach extended fields for loop prevention (skip if custom fields don't exist)
   // The MongoDB-based ContactMapping + SyncDedupeLog provide the primary
   // loop-prevention mechanism; extended fields are a secondary safeguard.
-  const extendedFields = {
-    items: {
+  const customItems = data.extendedFields ?? {};
+  const hasCustomItems = Object.keys(customItems).length > 0;
+  const extendedFieldAttempts: Array<Record<string, string> | null> = [
+    {
+      ...customItems,
       [EXT_FIELD_HUBSPOT_ID]: syncMeta.hubspotContactId,
       [EXT_FIELD_SYNC_TAG]: syncMeta.syncTagId,
       [EXT_FIELD_SYNC_SOURCE]: syncMeta.syncSource,
     },
-  };
-  // Will be attached below; stripped out on EXTENDED_FIELD_NOT_FOUND errors
+    // Sync fields missing on the site — keep the mapped custom fields
+    ...(hasCustomItems ? [customItems] : []),
+    // A mapped custom field was deleted too — write the core fields only
+    null,
+  ];
 
-  /** Try a Wix API call; on EXTENDED_FIELD_NOT_FOUND, retry without extended fields */
+  /** Try a Wix API call; on EXTENDED_FIELD_NOT_FOUND, retry with fewer extended fields */
   async function tryWithFallback<T>(
     fn: (payload: Record<string, any>) => Promise<T>,
     payload: Record<string, any>,
   ): Promise<T> {
-    try {
-      // First attempt: include extended fields
-      const withExt = { ...payload, info: { ...payload.info, extendedFields } };
-      return await fn(withExt);
-    } catch (err: any) {
-      const msg = err.message ?? '';
-      const details = JSON.stringify(err.response ?? '');
-      if (msg.includes('EXTENDED_FIELD_NOT_FOUND') || details.includes('EXTENDED_FIELD_NOT_FOUND')) {
-        logger.warn('Extended fields not found on site — retrying without them', { instanceId });
-        return await fn(payload);
+    for (let i = 0; ; i++) {
+      const items = extendedFieldAttempts[i];
+      const attempt = items
+        ? { ...payload, info: { ...payload.info, extendedFields: { items } } }
+        : payload;
+      try {
+        return await fn(attempt);
+      } catch (err: any) {
+        if (!items || !isExtendedFieldNotFound(err)) throw err;
+        logger.warn('Extended fields not found on site — retrying without them', {
+          instanceId,
+          attempt: i + 1,
+        });
       }
-      throw err;
     }
   }
 
@@ -376,3 +453,241 @@ export async function createOrUpdateWixContact(
   });
   return { contactId: newId, action: 'created' };
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 4. Delete a contact
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Deletes a Wix contact. A contact that is already gone is treated as
+ * success so retries of a half-finished deletion are harmless.
+ */
+export async function deleteWixContact(
+  installation: IInstallation,
+  contactId: string,
+): Promise<void> {
+  try {
+    await wixApi(installation, 'DELETE', `/contacts/v4/contacts/${contactId}`);
+    logger.info('Wix contact deleted', { instanceId: installation.instanceId, wixContactId: contactId });
+  } catch (err: any) {
+    if (err.statusCode === 404) {
+      logger.debug('Wix contact already deleted', { instanceId: installation.instanceId, wixContactId: contactId });
+      return;
+    }
+    throw err;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 5. Label a contact (find-or-create the label first)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Label keys are stable per site — cache them to skip the lookup call */
+const labelKeyCache = new Map<string, string>();
+
+/**
+ * Returns the key of the label with the given display name, creating the
+ * label on the site if it does not exist yet.
+ */
+export async function findOrCreateWixLabel(
+  installation: IInstallation,
+  displayName: string,
+): Promise<string> {
+  const cacheKey = `${installation.instanceId}:${displayName}`;
+  const cached = labelKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const result = await wixApi<any>(installation, 'POST', '/contacts/v4/labels', { displayName });
+  const key: string = result?.label?.key ?? '';
+  if (!key) {
+    throw new Error(`Wix label "${displayName}" could not be created`);
+  }
+
+  labelKeyCache.set(cacheKey, key);
+  return key;
+}
+
+/**
+ * Adds a label to a Wix contact, keeping its existing labels.
+ *
+ * @param labelName — Display name of the label (created if missing)
+ * @param syncTagId — Sync ID registered via `registerSyncId`
+ */
+export async function labelWixContact(
+  installation: IInstallation,
+  contactId: string,
+  labelName: string,
+  syncTagId: string,
+): Promise<void> {
+  const labelKey = await findOrCreateWixLabel(installation, labelName);
+  await updateWixContactLabels(installation, contactId, { add: [labelKey] }, syncTagId);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 6. Add / remove labels
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Adds and removes labels on a Wix contact in a single write, keeping every
+ * other label it has. Nothing is written when the labels already match.
+ *
+ * The update also writes the sync tag so the `contact_updated` webhook it
+ * triggers is recognised as our own echo (Module 5).
+ *
+ * @param changes   — Label keys to add and to remove
+ * @param syncTagId — Sync ID registered via `registerSyncId`
+ * @returns         — `true` if the contact was written
+ */
+export async function updateWixContactLabels(
+  installation: IInstallation,
+  contactId: string,
+  changes: { add?: string[]; remove?: string[] },
+  syncTagId: string,
+): Promise<boolean> {
+  const existing = await getWixContactById(installation, contactId);
+  if (!existing) {
+    logger.debug('Wix contact to label no longer exists', {
+      instanceId: installation.instanceId,
+      wixContactId: contactId,
+    });
+    return false;
+  }
+
+  const currentLabels = existing.info?.labelKeys?.items ?? [];
+  const remove = new Set(changes.remove ?? []);
+  const nextLabels = currentLabels.filter((key) => !remove.has(key));
+  for (const key of changes.add ?? []) {
+    if (!nextLabels.includes(key)) nextLabels.push(key);
+  }
+  if (
+    nextLabels.length === currentLabels.length &&
+    nextLabels.every((key) => currentLabels.includes(key))
+  ) {
+    return false;
+  }
+
+  const info: Record<string, any> = {
+    labelKeys: { items: nextLabels },
+    extendedFields: { items: { [EXT_FIELD_SYNC_TAG]: syncTagId } },
+  };
+  const revision = (existing as any).revision;
+
+  try {
+    await wixApi(installation, 'PATCH', `/contacts/v4/contacts/${contactId}`, { info, revision });
+  } catch (err: any) {
+    if (!isExtendedFieldNotFound(err)) throw err;
+    await wixApi(installation, 'PATCH', `/contacts/v4/contacts/${contactId}`, {
+      info: { labelKeys: info.labelKeys },
+      revision,
+    });
+  }
+
+  logger.info('Wix contact labels updated', {
+    instanceId: installation.instanceId,
+    wixContactId: contactId,
+    added: (changes.add ?? []).filter((key) => !currentLabels.includes(key)).length,
+    removed: currentLabels.filter((key) => remove.has(key)).length,
+  });
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 7. List labels
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface WixLabel {
+  key: string;
+  displayName: string;
+  /** `USER_DEFINED`, `SYSTEM` or `WIX_APP_DEFINED` */
+  labelType: string;
+}
+
+/** Lists every label defined on the site (system labels included). */
+export async function listWixLabels(installation: IInstallation): Promise<WixLabel[]> {
+  const labels: WixLabel[] = [];
+  const limit = 1000;
+
+  for (let offset = 0; ; offset += limit) {
+    const result = await wixApi<any>(
+      installation,
+      'GET',
+      `/contacts/v4/labels?paging.limit=${limit}&paging.offset=${offset}`,
+    );
+    const page = (result?.labels ?? []) as WixLabel[];
+    labels.push(...page);
+    if (page.length < limit) break;
+  }
+
+  return labels;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 8. List custom extended fields
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface WixExtendedField {
+  /** Field key, e.g. `custom.loyalty-tier` */
+  key: string;
+  displayName: string;
+  /** `TEXT`, `NUMBER`, `DATE` or `URL` */
+  dataType: string;
+}
+
+/**
+ * Lists the custom contact fields the site owner created. System fields
+ * and the integration's own sync fields are left out.
+ */
+export async function listWixExtendedFields(installation: IInstallation): Promise<WixExtendedField[]> {
+  const fields: WixExtendedField[] = [];
+  const limit = 100;
+
+  for (let offset = 0; ; offset += limit) {
+    const result = await wixApi<any>(
+      installation,
+      'GET',
+      `/contacts/v4/extended-fields?paging.limit=${limit}&paging.offset=${offset}`,
+    );
+    const page = (result?.fields ?? []) as Array<WixExtendedField & { fieldType?: string }>;
+    for (const field of page) {
+      if (field.fieldType !== 'USER_DEFINED' || SYNC_EXTENDED_FIELDS.has(field.key)) continue;
+      fields.push({ key: field.key, displayName: field.displayName, dataType: field.dataType });
+    }
+    if (page.length < limit) break;
+  }
+
+  return fields;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 9. Merge contacts
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Merges duplicate Wix contacts into a target contact. Wix deletes the
+ * source contacts and moves their details onto the target. Contacts that
+ * are site members cannot be merge sources — Wix rejects the whole call.
+ *
+ * @param targetContactId  — Contact that survives the merge
+ * @param sourceContactIds — Contacts folded into the target
+ * @returns                — The merged contact, or `null` if the target no longer exists
+ */
+export async function mergeWixContacts(
+  installation: IInstallation,
+  targetContactId: string,
+  sourceContactIds: string[],
+): Promise<WixContact | null> {
+  const target = await getWixContactById(installation, targetContactId);
+  if (!target) return null;
+
+  const result = await wixApi<any>(installation, 'POST', `/contacts/v4/contacts/${targetContactId}/merge`, {
+    sourceContactIds,
+    targetContactRevision: (target as any).revision,
+  });
+
+  logger.info('Wix contacts merged', {
+    instanceId: installation.instanceId,
+    wixContactId: targetContactId,
+    merged: sourceContactIds.length,
+  });
+  return (result?.contact ?? target) as WixContact;
+}
@@ -5,14 +5,168 @@
 /** Sync direction for a field mapping rule */
 export type SyncDirection = 'wix_to_hubspot' | 'hubspot_to_wix' | 'bidirectional';
 
-/** Transform to apply before writing */
-export type FieldTransform = 'none' | 'trim' | 'lowercase' | 'uppercase' | 'phone_e164';
+/**
+ * Transform to apply before writing. Phone transforms read national numbers
+ * in the installation's default phone region, else the contact's address
+ * country:
+ *   • phone_e164     — "+447911123456" both ways
+ *   • phone_national — E.164 to HubSpot, the region's national format
+ *                      ("07911 123456") back to Wix
+ */
+export type FieldTransform = 'none' | 'trim' | 'lowercase' | 'uppercase' | 'phone_e164' | 'phone_national';
+
+/**
+ * One step of a mapping rule's transform chain. Steps are written in the
+ * Wix → HubSpot sense; `date`, `value_map` and `phone_national` invert
+ * themselves when the rule runs HubSpot → Wix, every other step runs as
+ * written.
+ *   • trim / lowercase / uppercase / phone_e164 / phone_national — as {@link FieldTransform}
+ *   • titlecase        — "jane DOE" → "Jane Doe"
+ *   • date             — Wix ISO date ↔ HubSpot midnight-UTC epoch millis
+ *   • regex_replace    — `pattern` (with `flags`, default `g`) → `replacement`
+ *   • default_if_empty — `value` when the input is empty
+ *   • truncate         — keep the first `length` characters
+ *   • value_map        — lookup table of `valueMap` pairs; unmatched values pass through
+ */
+export type TransformStepType =
+  | Exclude<FieldTransform, 'none'>
+  | 'titlecase'
+  | 'date'
+  | 'regex_replace'
+  | 'default_if_empty'
+  | 'truncate'
+  | 'value_map';
+
+export interface TransformStep {
+  type: TransformStepType;
+  pattern?: string;
+  replacement?: string;
+  flags?: string;
+  value?: string;
+  length?: number;
+  valueMap?: Array<{ from: string; to: string }>;
+}
+
+/**
+ * How a mapped field is resolved when both systems hold a value:
+ *   • newest_wins               — the side with the newer contact timestamp wins
+ *   • source_of_truth_wix       — only Wix may write this field
+ *   • source_of_truth_hubspot   — only HubSpot may write this field
+ *   • never_overwrite_non_empty — only fill the field when the target is empty
+ */
+export type ConflictStrategy =
+  | 'newest_wins'
+  | 'source_of_truth_wix'
+  | 'source_of_truth_hubspot'
+  | 'never_overwrite_non_empty';
 
 /** Source of a sync event */
-export type SyncSource = 'wix_webhook' | 'hubspot_webhook' | 'initial_sync' | 'manual';
+export type SyncSource = 'wix_webhook' | 'hubspot_webhook' | 'initial_sync' | 'delta_sync' | 'manual';
 
 /** Action taken during sync */
-export type SyncAction = 'create' | 'update' | 'delete' | 'skip';
+export type SyncAction = 'create' | 'update' | 'delete' | 'merge' | 'skip';
+
+/** Kind of durable sync job — one per orchestrator scenario, plus order sync */
+export type SyncJobType =
+  | 'wix_contact_created'
+  | 'wix_contact_updated'
+  | 'wix_contact_deleted'
+  | 'hubspot_contact_created'
+  | 'hubspot_contact_updated'
+  | 'hubspot_contact_deleted'
+  | 'hubspot_contact_merged'
+  | 'wix_order_created';
+
+/** What happens to the HubSpot counterpart when a Wix contact is deleted */
+export type WixDeletionAction = 'ignore' | 'mirror_delete' | 'flag_hubspot_property';
+
+/** What happens to the Wix counterpart when a HubSpot contact is deleted */
+export type HubSpotDeletionAction = 'ignore' | 'mirror_delete' | 'archive_wix_label';
+
+/** Per-installation deletion propagation policy */
+export interface DeletionPolicy {
+  onWixDelete: WixDeletionAction;
+  onHubSpotDelete: HubSpotDeletionAction;
+}
+
+/** HubSpot company property used to find a contact's company */
+export type CompanyMatchBy = 'domain' | 'name';
+
+/** Per-installation company sync settings */
+export interface CompanySyncSettings {
+  /** Upsert a HubSpot company for each synced contact and associate them */
+  enabled: boolean;
+  matchBy: CompanyMatchBy;
+}
+
+/**
+ * How Wix contact labels are represented in HubSpot:
+ *   • off      — labels are not synced
+ *   • property — a multi-select property, via a `labelIds` mapping rule
+ *   • lists    — one HubSpot static list per label
+ */
+export type LabelSyncMode = 'off' | 'property' | 'lists';
+
+/** Per-installation label sync settings */
+export interface LabelSyncSettings {
+  mode: LabelSyncMode;
+}
+
+/** Per-installation order → deal sync settings */
+export interface OrderSyncSettings {
+  /** Create a HubSpot deal with line items for each Wix eCommerce order */
+  enabled: boolean;
+  /** HubSpot deal pipeline ID */
+  pipelineId: string;
+  /** Stage (within `pipelineId`) new deals are created in */
+  dealStage: string;
+}
+
+/**
+ * Per-installation delta-sync cursors. Each points at the modification time
+ * up to which that side has been pulled; `null` means "never pulled".
+ */
+export interface SyncCursors {
+  wixUpdatedAfter: Date | null;
+  hubspotModifiedAfter: Date | null;
+  /**
+   * Runs in a row each failing contact has held its cursor back, keyed
+   * `wix:<id>` / `hubspot:<id>` — bounded by the delta sync
+   */
+  heldBack?: Record<string, number>;
+}
+
+/** System a new contact was created in — the side a sync filter inspects */
+export type SyncFilterSide = 'wix' | 'hubspot' | 'both';
+
+/**
+ * What a sync filter condition looks at:
+ *   • field        — a contact field (Wix field or HubSpot property)
+ *   • label        — the contact's Wix label keys (HubSpot: label names)
+ *   • email_domain — the part of the email address after `@`
+ *   • source       — where the contact came from (Wix `source.sourceType`,
+ *                    HubSpot `hs_object_source`)
+ */
+export type SyncFilterConditionKind = 'field' | 'label' | 'email_domain' | 'source';
+
+export type SyncFilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'ends_with'
+  | 'is_empty'
+  | 'is_not_empty';
+
+/** One predicate of a sync filter; text comparisons ignore case */
+export interface SyncFilterCondition {
+  kind: SyncFilterConditionKind;
+  /** Field or property name — `field` conditions only */
+  field?: string;
+  operator: SyncFilterOperator;
+  /** Compared value — unused by `is_empty` / `is_not_empty` */
+  value?: string;
+}
 
 /** A single field mapping rule (Wix ↔ HubSpot) */
 export interface FieldMappingRule {
@@ -20,6 +174,39 @@ export interface FieldMappingRule {
   hubspotField: string;
   direction: SyncDirection;
   transform: FieldTransform;
+  /** Transform chain applied after `transform`, in order */
+  transforms?: TransformStep[];
+  /** Wix value ↔ HubSpot option pairs for an enumeration property */
+  optionMap?: OptionMapEntry[];
+  /** HubSpot option written for a Wix value that has no pair */
+  optionFallback?: string;
+  /** Set when several Wix fields map to `hubspotField` */
+  composite?: CompositeMapping;
+  conflictStrategy?: ConflictStrategy;
+}
+
+/**
+ * Several Wix fields ↔ one HubSpot property. Wix → HubSpot combines the
+ * fields with `template` (`{street}, {city} {postalCode}`), or joins them
+ * with `delimiter`. HubSpot → Wix splits the property with `splitPattern`
+ * (named groups, or numbered groups in `wixFields` order), else with
+ * `delimiter` (the last field takes the rest), else by reading the template
+ * back. The rule's `wixField` is the fields joined with `+`.
+ */
+export interface CompositeMapping {
+  wixFields: string[];
+  template?: string;
+  delimiter?: string;
+  splitPattern?: string;
+}
+
+/**
+ * One pair of an enumeration mapping. Several Wix values may share a HubSpot
+ * option; HubSpot → Wix uses the first pair listed for that option.
+ */
+export interface OptionMapEntry {
+  wixValue: string;
+  hubspotValue: string;
 }
 
 /** Flat key-value contact representation (used internally) */
@@ -41,6 +228,53 @@ export interface HubSpotContact {
   updatedAt?: string;
 }
 
+/** HubSpot company object from CRM API v3 */
+export interface HubSpotCompany {
+  id: string;
+  properties: Record<string, string>;
+}
+
+/** HubSpot deal object from CRM API v3 */
+export interface HubSpotDeal {
+  id: string;
+  properties: Record<string, string>;
+}
+
+/** HubSpot deal pipeline with its stages, in display order */
+export interface HubSpotPipeline {
+  id: string;
+  label: string;
+  stages: Array<{ id: string; label: string }>;
+}
+
+/**
+ * Wix order (simplified). Covers both the eCommerce (`wix.ecom.v1`) and the
+ * legacy Wix Stores (`wix.stores.v2`) shapes.
+ */
+export interface WixOrder {
+  id?: string;
+  _id?: string;
+  number?: string | number;
+  currency?: string;
+  buyerInfo?: { contactId?: string; email?: string };
+  /** eCommerce totals */
+  priceSummary?: { total?: { amount?: string } };
+  /** Legacy Wix Stores totals */
+  totals?: { total?: string };
+  lineItems?: Array<{
+    productName?: { original?: string };
+    name?: string;
+    quantity?: number;
+    price?: { amount?: string } | string;
+    physicalProperties?: { sku?: string };
+    sku?: string;
+  }>;
+  createdDate?: string;
+  _createdDate?: string;
+  dateCreated?: string;
+  [key: string]: unknown;
+}
+
 /** Wix contact (simplified) */
 export interface WixContact {
   id?: string;
@@ -51,6 +285,8 @@ export interface WixContact {
     phones?: Array<{ phone: string }>;
     company?: string;
     jobTitle?: string;
+    labelKeys?: { items?: string[] };
+    extendedFields?: { items?: Record<string, unknown> };
     addresses?: Array<{
       address?: string;
       city?: string;
@@ -101,12 +337,26 @@ export interface Attribution {
   landingPage: string;
 }
 
+/** A contact value the mapping engine could not convert; it is not written */
+export interface MappingWarning {
+  /** Target field the value was meant for */
+  field: string;
+  message: string;
+}
+
 /** Result of a sync operation */
 export interface SyncResult {
   action: SyncAction;
   source: SyncSource;
   hubspotContactId: string;
   wixContactId: string;
+  /** Values left out of the write because they could not be converted */
+  warnings?: MappingWarning[];
+  /**
+   * The write was queued on a batch (full / delta sync) and has not been
+   * sent yet; `action` is provisional until the batch is flushed.
+   */
+  deferred?: boolean;
 }
 
 /** Field option for UI dropdowns */
@@ -115,4 +365,6 @@ export interface FieldOption {
   label: string;
   type?: string;
   description?: string;
+  /** Allowed values of an enumeration property */
+  options?: Array<{ value: string; label: string }>;
 }
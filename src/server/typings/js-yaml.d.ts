@@ -0,0 +1,39 @@
+// =============================================================================
+// Custom type declaration for js-yaml
+// =============================================================================
+// js-yaml ships without types and @types/js-yaml is not installed. This
+// declaration covers the parts we use (config import / export).
+// =============================================================================
+
+declare module 'js-yaml' {
+  interface Schema {
+    readonly __schema: unique symbol;
+  }
+
+  /** Only JSON types: strings, numbers, booleans, null, arrays, objects */
+  export const JSON_SCHEMA: Schema;
+
+  export interface LoadOptions {
+    filename?: string;
+    schema?: Schema;
+    json?: boolean;
+  }
+
+  export interface DumpOptions {
+    indent?: number;
+    schema?: Schema;
+    /** Line width for folding long strings; -1 disables folding */
+    lineWidth?: number;
+    noRefs?: boolean;
+    sortKeys?: boolean;
+    skipInvalid?: boolean;
+  }
+
+  export class YAMLException extends Error {
+    reason: string;
+    mark?: { line: number; column: number };
+  }
+
+  export function load(str: string, opts?: LoadOptions): unknown;
+  export function dump(obj: unknown, opts?: DumpOptions): string;
+}
@@ -11,6 +11,7 @@ export type DatabaseOperation =
   | 'findByHubSpotId'
   | 'upsert'
   | 'delete'
+  | 'relink'
   | 'setup'
   | 'count';
 
@@ -16,6 +16,8 @@ declare global {
   namespace Express {
     interface Request {
       instanceId?: string;
+      /** Wix user (`uid`) the dashboard token was issued to, when known */
+      userId?: string;
       installation?: InstanceType<typeof Installation> | null;
     }
   }
@@ -25,7 +27,7 @@ declare global {
  * Decode Wix instance token.
  * Format: base64Signature.base64Payload (signed with app secret HMAC-SHA256)
  */
-function decodeWixInstance(instance: string): { instanceId: string } {
+function decodeWixInstance(instance: string): { instanceId: string; uid?: string } {
   const [signature, payload] = instance.split('.');
   if (!payload) throw new Error('Invalid instance format');
 
@@ -59,11 +61,13 @@ export default async function authMiddleware(
     }
 
     let instanceId: string | undefined;
+    let userId: string | undefined;
 
     // Try Wix instance token first
     try {
       const decoded = decodeWixInstance(token);
       instanceId = decoded.instanceId;
+      userId = decoded.uid;
     } catch {
       // Fall back to our own JWT
       try {
@@ -81,6 +85,7 @@ export default async function authMiddleware(
     }
 
     req.instanceId = instanceId;
+    req.userId = userId;
     req.installation = await Installation.findOne({ instanceId });
 
     next();
@@ -0,0 +1,193 @@
+// =============================================================================
+// Phone Number Normaliser
+// =============================================================================
+// Parses phone numbers as people type them ("07911 123456", "+49 30 1234567",
+// "(555) 123-4567") into E.164, and formats E.164 back into a region's
+// national format.
+//
+// Numbers written without a country code need a region (ISO 3166-1 alpha-2)
+// to be read. The table below covers the regions our customers sync most;
+// numbers from other regions are accepted when written with their country
+// code, but can't be read from national format.
+// =============================================================================
+
+interface RegionInfo {
+  /** Country calling code, without the `+` */
+  callingCode: string;
+  /** Digit(s) dialled before national numbers inside the region, if any */
+  trunkPrefix: string;
+  /** Shortest / longest national significant number */
+  minLength: number;
+  maxLength: number;
+  /** National display format; defaults to trunk prefix + number */
+  format?: (nationalNumber: string) => string;
+}
+
+/** North American Numbering Plan — shared by the US, Canada and others */
+const NANP: RegionInfo = {
+  callingCode: '1',
+  trunkPrefix: '1',
+  minLength: 10,
+  maxLength: 10,
+  format: (n) => `(${n.slice(0, 3)}) ${n.slice(3, 6)}-${n.slice(6)}`,
+};
+
+const REGIONS: Record<string, RegionInfo> = {
+  US: NANP,
+  CA: NANP,
+  GB: { callingCode: '44', trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  IE: { callingCode: '353', trunkPrefix: '0', minLength: 7, maxLength: 9 },
+  DE: { callingCode: '49', trunkPrefix: '0', minLength: 6, maxLength: 13 },
+  AT: { callingCode: '43', trunkPrefix: '0', minLength: 4, maxLength: 13 },
+  CH: { callingCode: '41', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  FR: { callingCode: '33', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  BE: { callingCode: '32', trunkPrefix: '0', minLength: 8, maxLength: 9 },
+  NL: { callingCode: '31', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  // Italian numbers keep their leading 0 after the country code
+  IT: { callingCode: '39', trunkPrefix: '', minLength: 6, maxLength: 11 },
+  ES: { callingCode: '34', trunkPrefix: '', minLength: 9, maxLength: 9 },
+  PT: { callingCode: '351', trunkPrefix: '', minLength: 9, maxLength: 9 },
+  PL: { callingCode: '48', trunkPrefix: '', minLength: 9, maxLength: 9 },
+  SE: { callingCode: '46', trunkPrefix: '0', minLength: 7, maxLength: 10 },
+  NO: { callingCode: '47', trunkPrefix: '', minLength: 8, maxLength: 8 },
+  DK: { callingCode: '45', trunkPrefix: '', minLength: 8, maxLength: 8 },
+  FI: { callingCode: '358', trunkPrefix: '0', minLength: 5, maxLength: 12 },
+  NG: { callingCode: '234', trunkPrefix: '0', minLength: 8, maxLength: 10 },
+  GH: { callingCode: '233', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  KE: { callingCode: '254', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  ZA: { callingCode: '27', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  AE: { callingCode: '971', trunkPrefix: '0', minLength: 8, maxLength: 9 },
+  IL: { callingCode: '972', trunkPrefix: '0', minLength: 8, maxLength: 9 },
+  IN: { callingCode: '91', trunkPrefix: '0', minLength: 10, maxLength: 10 },
+  SG: { callingCode: '65', trunkPrefix: '', minLength: 8, maxLength: 8 },
+  JP: { callingCode: '81', trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  CN: { callingCode: '86', trunkPrefix: '0', minLength: 9, maxLength: 11 },
+  AU: { callingCode: '61', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  NZ: { callingCode: '64', trunkPrefix: '0', minLength: 8, maxLength: 10 },
+  BR: { callingCode: '55', trunkPrefix: '0', minLength: 10, maxLength: 11 },
+  MX: { callingCode: '52', trunkPrefix: '', minLength: 10, maxLength: 10 },
+};
+
+/** Calling code → regions using it (the first is the default) */
+const REGIONS_BY_CALLING_CODE = new Map<string, string[]>();
+for (const [region, info] of Object.entries(REGIONS)) {
+  REGIONS_BY_CALLING_CODE.set(info.callingCode, [
+    ...(REGIONS_BY_CALLING_CODE.get(info.callingCode) ?? []),
+    region,
+  ]);
+}
+
+/** E.164 allows at most 15 digits after the `+` */
+const MAX_E164_DIGITS = 15;
+
+/** Shortest number accepted for a calling code we have no table entry for */
+const MIN_UNKNOWN_DIGITS = 8;
+
+/** Trailing extension: "ext. 12", "x12", "#12" */
+const EXTENSION = /\s*(?:ext\.?|x|#)\s*\d+\s*$/i;
+
+/** A phone number split into its parts */
+export interface ParsedPhone {
+  callingCode: string;
+  nationalNumber: string;
+  /** Region the number belongs to; unknown for calling codes not in the table */
+  region?: string;
+}
+
+/** ISO 3166-1 alpha-2 codes of the regions national numbers can be read for */
+export const SUPPORTED_PHONE_REGIONS = Object.keys(REGIONS);
+
+/** Whether national numbers can be read for a region */
+export function isSupportedPhoneRegion(region: string | undefined): boolean {
+  return !!region && Object.prototype.hasOwnProperty.call(REGIONS, region.toUpperCase());
+}
+
+/**
+ * Picks the first candidate that is a supported region, upper-cased.
+ * Candidates are typically the installation default, then the contact's
+ * address country.
+ */
+export function resolvePhoneRegion(...candidates: Array<string | undefined>): string | undefined {
+  const region = candidates.find((c) => isSupportedPhoneRegion(c?.trim()));
+  return region?.trim().toUpperCase();
+}
+
+function fitsRegion(nationalNumber: string, info: RegionInfo): boolean {
+  return nationalNumber.length >= info.minLength && nationalNumber.length <= info.maxLength;
+}
+
+/** Reads digits that start with a calling code */
+function parseInternational(digits: string, preferredRegion?: string): ParsedPhone | null {
+  if (digits.length > MAX_E164_DIGITS) return null;
+
+  for (let length = 1; length <= 3; length++) {
+    const callingCode = digits.slice(0, length);
+    const regions = REGIONS_BY_CALLING_CODE.get(callingCode);
+    if (!regions) continue;
+
+    const region = regions.includes(preferredRegion ?? '') ? preferredRegion! : regions[0];
+    const info = REGIONS[region];
+    let nationalNumber = digits.slice(length);
+    // "+44 (0)20 …" — a trunk prefix kept after the country code
+    if (info.trunkPrefix === '0' && !fitsRegion(nationalNumber, info) && nationalNumber.startsWith('0')) {
+      nationalNumber = nationalNumber.slice(1);
+    }
+    return fitsRegion(nationalNumber, info) ? { callingCode, nationalNumber, region } : null;
+  }
+
+  // Not in the table — keep anything of a plausible length as written
+  if (digits.length < MIN_UNKNOWN_DIGITS || digits.startsWith('0')) return null;
+  return { callingCode: '', nationalNumber: digits };
+}
+
+/**
+ * Parses a phone number as typed.
+ *
+ * Numbers starting with `+` or an international prefix (`00`, or `011` in
+ * North America) are read with their country code. Anything else is read
+ * as a national number of `region`, with the trunk prefix ("0") dropped;
+ * a national number that already starts with the region's calling code
+ * ("447911123456" in GB) is accepted too.
+ *
+ * @param raw    — Number as typed; spaces, dashes, dots, brackets and a
+ *                 trailing extension are ignored
+ * @param region — ISO 3166-1 alpha-2 region for national numbers
+ * @returns      — The parsed number, or `null` when it can't be read
+ */
+export function parsePhoneNumber(raw: string, region?: string): ParsedPhone | null {
+  const text = raw.replace(EXTENSION, '').trim();
+  if (!text || /[^\d\s\-.()+/]/.test(text)) return null;
+
+  const digits = text.replace(/\D/g, '');
+  const regionCode = region?.toUpperCase();
+  const info = regionCode ? REGIONS[regionCode] : undefined;
+
+  if (text.startsWith('+')) return parseInternational(digits, regionCode);
+  if (digits.startsWith('00')) return parseInternational(digits.slice(2), regionCode);
+  if (info === NANP && digits.startsWith('011')) return parseInternational(digits.slice(3), regionCode);
+  if (!info) return null;
+
+  if (info.trunkPrefix && digits.startsWith(info.trunkPrefix)) {
+    const nationalNumber = digits.slice(info.trunkPrefix.length);
+    if (fitsRegion(nationalNumber, info)) return { callingCode: info.callingCode, nationalNumber, region: regionCode };
+  }
+  if (fitsRegion(digits, info)) return { callingCode: info.callingCode, nationalNumber: digits, region: regionCode };
+  if (digits.startsWith(info.callingCode)) return parseInternational(digits, regionCode);
+  return null;
+}
+
+/** Formats a parsed number as E.164, e.g. `+447911123456` */
+export function formatE164(phone: ParsedPhone): string {
+  return `+${phone.callingCode}${phone.nationalNumber}`;
+}
+
+/**
+ * Formats a parsed number the way it is dialled inside `region`, e.g.
+ * `07911123456` in GB or `(555) 123-4567` in the US. Numbers from another
+ * region keep their country code (E.164).
+ */
+export function formatNational(phone: ParsedPhone, region?: string): string {
+  const info = region ? REGIONS[region.toUpperCase()] : undefined;
+  if (!info || !phone.callingCode || info.callingCode !== phone.callingCode) return formatE164(phone);
+  return info.format ? info.format(phone.nationalNumber) : `${info.trunkPrefix}${phone.nationalNumber}`;
+}
@@ -0,0 +1,27 @@
+// =============================================================================
+// Wix Webhook Signature — HMAC-SHA256 check shared by the Wix webhook routes
+// =============================================================================
+// Signed with the app's webhook public key when configured, else the app
+// secret. The comparison is constant-time; the signature is never logged.
+// =============================================================================
+import crypto from 'crypto';
+import config from '../config';
+
+/**
+ * Verifies a Wix webhook signature (base64 HMAC-SHA256 of the body).
+ *
+ * @param body      — Serialised request body
+ * @param signature — Value of the `x-wix-signature` header
+ * @returns         — `true` if the signature matches
+ */
+export function verifyWixSignature(body: string, signature: string | undefined): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(
+    crypto
+      .createHmac('sha256', config.wixWebhookPublicKey || config.wixAppSecret)
+      .update(body)
+      .digest('base64'),
+  );
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}